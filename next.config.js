@@ -36,7 +36,7 @@ const nextConfig = {
     
     // Externalize problematic modules for server-side
     if (isServer) {
-      config.externals.push('libsql', '@libsql/client');
+      config.externals.push('libsql', '@libsql/client', '@marp-team/marp-cli');
     }
     
     return config;
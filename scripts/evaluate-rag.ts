@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+
+/**
+ * RAG quality evaluation and regression gate.
+ *
+ * Runs the golden dataset (src/mastra/evaluation/rag-golden-dataset.json)
+ * through RAGSearchTool and, optionally, EnhancedQAAgent, then compares
+ * recall@k, MRR and fact coverage with the latest performance baseline for
+ * the same dataset version, k, retrieval mode and LLM. Exits with 1 when
+ * quality dropped.
+ *
+ * Usage: pnpm eval:rag [options]
+ *   --k <n>              recall cut-off / search limit (default 5)
+ *   --mode <mode>        vector | keyword | hybrid (default hybrid)
+ *   --answers            also answer each question with the QA agent (uses Gemini)
+ *   --stub-llm           answer with a stubbed LLM that echoes the retrieved context
+ *   --tolerance <x>      allowed drop per metric, 0-1 (default 0.05)
+ *   --dataset <path>     use another golden dataset file
+ *   --update-baseline    record a new performance baseline when the gate passes
+ *   --no-store           do not write the run to rag_evaluation_runs
+ *   --json <path>        write the full report to a file
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_QUALITY_TOLERANCE, performanceBaseline } from '../src/lib/monitoring/performance-baseline';
+import { EnhancedQAAgent } from '../src/mastra/agents/enhanced-qa-agent';
+import {
+  DEFAULT_GOLDEN_DATASET,
+  EvaluationAnswerer,
+  GoldenDataset,
+  RAGEvaluator,
+  storeEvaluationRun,
+  stubAgentGenerate,
+} from '../src/mastra/evaluation/rag-evaluator';
+import { RAGSearchTool } from '../src/mastra/tools/rag-search';
+
+const args = process.argv.slice(2);
+const option = (name: string) => args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+
+function createAnswerer(stubLLM: boolean): EvaluationAnswerer {
+  const google = createGoogleGenerativeAI({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY });
+  const agent = new EnhancedQAAgent({
+    llm: { model: google(process.env.GEMINI_MODEL || 'gemini-2.5-flash-preview-05-20') },
+  });
+  if (stubLLM) {
+    stubAgentGenerate(agent);
+  }
+
+  const runId = Date.now();
+  // A fresh memory session per question so earlier answers do not leak into later ones
+  return question => agent.answerQuestion(question.question, question.language, {
+    sessionId: `rag-eval-${runId}-${question.id}`,
+  });
+}
+
+const percent = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+  const k = parseInt(option('--k') || '5', 10);
+  const mode = (option('--mode') || 'hybrid') as 'vector' | 'keyword' | 'hybrid';
+  const tolerance = parseFloat(option('--tolerance') || String(DEFAULT_QUALITY_TOLERANCE));
+  const stubLLM = args.includes('--stub-llm');
+  const withAnswers = stubLLM || args.includes('--answers');
+  const datasetPath = option('--dataset');
+  const dataset: GoldenDataset = datasetPath
+    ? JSON.parse(fs.readFileSync(path.resolve(datasetPath), 'utf-8'))
+    : DEFAULT_GOLDEN_DATASET;
+
+  console.log(`RAG evaluation: dataset ${dataset.version} (${dataset.questions.length} questions), k=${k}, mode=${mode}` +
+    (withAnswers ? `, answers${stubLLM ? ' (stubbed LLM)' : ''}` : ''));
+  console.log('='.repeat(60));
+
+  const evaluator = new RAGEvaluator(new RAGSearchTool());
+  const run = await evaluator.run(dataset, {
+    k,
+    mode,
+    answer: withAnswers ? createAnswerer(stubLLM) : undefined,
+    llm: stubLLM ? 'stub' : 'gemini',
+  });
+
+  for (const result of run.results) {
+    const passed = result.recallAtK === 1 && (result.factCoverage === undefined || result.factCoverage === 1);
+    console.log(`${passed ? '✅' : '⚠️ '} ${result.id}: recall ${percent(result.recallAtK)}, RR ${result.reciprocalRank.toFixed(2)}` +
+      (result.factCoverage !== undefined ? `, facts ${percent(result.factCoverage)}` : '') +
+      (result.missingFacts?.length ? ` (missing: ${result.missingFacts.join(', ')})` : '') +
+      (result.error ? ` - ${result.error}` : ''));
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`recall@${k}: ${percent(run.metrics.recallAtK)}`);
+  console.log(`MRR: ${run.metrics.mrr.toFixed(3)}`);
+  console.log(`fact coverage: ${percent(run.metrics.factCoverage)}`);
+
+  const gate = await performanceBaseline.checkQualityRegression(run.metrics, tolerance);
+  gate.notes.forEach(note => console.log(`ℹ️  ${note}`));
+  gate.regressions.forEach(regression => console.log(`❌ ${regression}`));
+
+  if (!args.includes('--no-store')) {
+    await storeEvaluationRun(run, gate.passed);
+  }
+
+  const jsonPath = option('--json');
+  if (jsonPath) {
+    fs.writeFileSync(path.resolve(jsonPath), JSON.stringify({ run, gate }, null, 2));
+    console.log(`Report written to ${jsonPath}`);
+  }
+
+  if (!gate.passed) {
+    console.log('\nQuality gate failed');
+    process.exit(1);
+  }
+
+  if (args.includes('--update-baseline')) {
+    if (args.includes('--no-store')) {
+      console.log('⚠️  --update-baseline needs the run to be stored; baseline not updated');
+    } else {
+      await performanceBaseline.collectBaseline();
+      console.log('Performance baseline updated');
+    }
+  }
+
+  console.log('\nQuality gate passed');
+}
+
+main().catch(error => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
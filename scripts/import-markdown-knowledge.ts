@@ -4,7 +4,9 @@
  * Import all markdown files under data/knowledge-base/markdown into Supabase knowledge_base table.
  * - Front-matter metadata is preserved.
  * - Supports bilingual markdown that separates sections with `## Japanese` / `## English` headings.
- * - Automatically skips duplicates using knowledgeBaseUtils.checkDuplicate().
+ * - Long documents are stored as heading-aware chunks (see src/lib/knowledge-chunker.ts).
+ * - Each file/language half is keyed by metadata.document_key, so re-importing a
+ *   changed file replaces only that document's chunks; unchanged files are skipped.
  */
 
 import fs from 'fs';
@@ -45,7 +47,12 @@ async function importMarkdownKnowledge() {
           subcategory,
           language: language as any,
           source,
-          metadata: { ...front, title: front.title, importance: front.importance ?? 'medium' },
+          metadata: {
+            ...front,
+            title: front.title,
+            importance: front.importance ?? 'medium',
+            document_key: `markdown:${relativeFile}#${language}`,
+          },
         });
       }
     } else {
@@ -57,15 +64,20 @@ async function importMarkdownKnowledge() {
         subcategory,
         language,
         source,
-        metadata: { ...front, title: front.title, importance: front.importance ?? 'medium' },
+        metadata: {
+          ...front,
+          title: front.title,
+          importance: front.importance ?? 'medium',
+          document_key: `markdown:${relativeFile}#${language}`,
+        },
       });
     }
   }
 
   console.log(`📝 Prepared ${entries.length} entries for import`);
 
-  const result = await knowledgeBaseUtils.addEntries(entries);
-  console.log(`✅ Added: ${result.successful}, ⚠️ duplicates: ${result.duplicates}, ❌ failed: ${result.failed}`);
+  const result = await knowledgeBaseUtils.addEntries(entries, { author: 'import-markdown-knowledge', origin: 'import' });
+  console.log(`✅ Added: ${result.successful}, 🔄 updated: ${result.updated}, ⚠️ unchanged: ${result.duplicates}, ❌ failed: ${result.failed}`);
   if (result.errors.length) {
     console.error(result.errors);
   }
@@ -1,8 +1,9 @@
 #!/usr/bin/env tsx
 
 /*
- * Import all narration JSON files under src/slides/narration into the Supabase
- * knowledge_base table.  Each slide narration (auto field) becomes 1 KB entry.
+ * Import the narrations of every deck in the slide library (src/slides/decks.json
+ * and src/slides/<language>/) into the Supabase knowledge_base table.  Each slide
+ * narration (auto field) becomes 1 KB entry; narrations failing validation are skipped.
  * Importance is set to "critical" so that RAG search prioritises these facts.
  *
  * Usage:
@@ -15,12 +16,12 @@ import { runSlideImport } from './slide-import-lib';
 async function runOnce() {
   console.log('🚀 Starting slide narration import...');
   const result = await runSlideImport();
-  console.log(`📊 Import completed: ${result.added} added, ${result.updated} updated, ${result.duplicates} duplicates, ${result.skipped} skipped`);
+  console.log(`📊 Import completed: ${result.added} added, ${result.updated} updated, ${result.duplicates} duplicates, ${result.skipped} skipped, ${result.invalid} invalid`);
 }
 
 if (process.argv.includes('--watch')) {
   console.log('🔄 Watching narration directory for changes...');
-  chokidar.watch('src/slides/narration').on('all', async () => {
+  chokidar.watch(['src/slides/narration', 'src/slides/decks.json']).on('all', async () => {
     await runOnce();
   });
 } else {
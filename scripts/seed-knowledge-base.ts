@@ -246,7 +246,7 @@ async function seedKnowledgeBase() {
 
     // Add sample entries
     console.log(`📝 Adding ${sampleEntries.length} sample entries...`);
-    const result = await knowledgeBaseUtils.addEntries(sampleEntries);
+    const result = await knowledgeBaseUtils.addEntries(sampleEntries, { author: 'seed-knowledge-base', origin: 'import' });
     
     console.log(`✅ Successfully added: ${result.successful}`);
     console.log(`❌ Failed to add: ${result.failed}`);
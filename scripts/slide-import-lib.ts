@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
+import { listDecks } from '../src/lib/deck-library';
 import { knowledgeBaseUtils } from '../src/lib/knowledge-base-utils';
+import { KnowledgeChangeContext } from '../src/lib/knowledge-revisions';
 import { supabaseAdmin } from '../src/lib/supabase';
 import { SupportedLanguage } from '../src/mastra/types/config';
 
@@ -15,24 +17,46 @@ interface NarrationJSON {
   }>;
 }
 
-export async function runSlideImport(): Promise<{ added: number; updated: number; duplicates: number; skipped: number }> {
+export async function runSlideImport(
+  context: KnowledgeChangeContext = { author: 'slide-import', origin: 'import' }
+): Promise<{ added: number; updated: number; duplicates: number; skipped: number; invalid: number }> {
   const narrationDir = path.resolve('src/slides/narration');
-  const files = fs.readdirSync(narrationDir).filter((f) => f.endsWith('.json'));
+  const decks = await listDecks();
 
   let added = 0;
   let updated = 0;
   let duplicates = 0;
   let skipped = 0;
+  let invalid = 0;
 
-  console.log(`🎯 Processing ${files.length} narration files...`);
+  // Every language of every deck in the library, skipping narrations that fail validation
+  const files: Array<{ file: string; deck: (typeof decks)[number] }> = [];
+  for (const deck of decks) {
+    for (const status of deck.status) {
+      if (!status.hasNarration) continue;
+      if (status.narrationErrors.length > 0) {
+        console.warn(`⚠️ Skipping ${deck.id}-${status.language}.json: ${status.narrationErrors.join(', ')}`);
+        invalid++;
+        continue;
+      }
+      files.push({ file: `${deck.id}-${status.language}.json`, deck });
+    }
+  }
 
-  for (const file of files) {
+  console.log(`🎯 Processing ${files.length} narration files from ${decks.length} decks...`);
+
+  for (const { file, deck } of files) {
     console.log(`📄 Processing file: ${file}`);
     
     const raw = fs.readFileSync(path.join(narrationDir, file), 'utf8');
     const data: NarrationJSON = JSON.parse(raw);
     const { language, title } = data.metadata;
     const subcategory = path.basename(file, '.json');
+    const deckMetadata = {
+      deck: deck.id,
+      ...(deck.audience ? { audience: deck.audience } : {}),
+      ...(deck.tags?.length ? { tags: deck.tags } : {}),
+    };
 
     for (const slide of data.slides) {
       const content = slide.narration.auto?.trim();
@@ -45,7 +69,7 @@ export async function runSlideImport(): Promise<{ added: number; updated: number
         // Enhanced duplicate check using multiple criteria
         const { data: existing, error } = await supabaseAdmin
           .from('knowledge_base')
-          .select('id, content')
+          .select('id, content, deleted_at')
           .eq('subcategory', subcategory)
           .eq('language', language)
           .eq('metadata->>slideNumber', slide.slideNumber)
@@ -56,6 +80,12 @@ export async function runSlideImport(): Promise<{ added: number; updated: number
           continue;
         }
 
+        if (existing?.deleted_at) {
+          console.log(`⏭️ Skipping slide ${slide.slideNumber} from ${subcategory}: it is in the trash`);
+          skipped++;
+          continue;
+        }
+
         if (existing) {
           // Check if content has actually changed
           if (existing.content === content) {
@@ -70,9 +100,10 @@ export async function runSlideImport(): Promise<{ added: number; updated: number
             metadata: { 
               title: `${title} - slide ${slide.slideNumber}`, 
               importance: 'critical', 
-              slideNumber: slide.slideNumber 
+              slideNumber: slide.slideNumber,
+              ...deckMetadata,
             },
-          });
+          }, context);
 
           if (updateResult.success) {
             console.log(`✅ Updated slide ${slide.slideNumber} from ${subcategory}`);
@@ -91,9 +122,10 @@ export async function runSlideImport(): Promise<{ added: number; updated: number
             metadata: { 
               title: `${title} - slide ${slide.slideNumber}`, 
               importance: 'critical', 
-              slideNumber: slide.slideNumber 
+              slideNumber: slide.slideNumber,
+              ...deckMetadata,
             },
-          });
+          }, context);
 
           if (addResult.success) {
             if (addResult.isDuplicate) {
@@ -113,6 +145,6 @@ export async function runSlideImport(): Promise<{ added: number; updated: number
     }
   }
 
-  console.log(`📊 Import completed: ${added} added, ${updated} updated, ${duplicates} duplicates, ${skipped} skipped`);
-  return { added, updated, duplicates, skipped };
+  console.log(`📊 Import completed: ${added} added, ${updated} updated, ${duplicates} duplicates, ${skipped} skipped, ${invalid} invalid`);
+  return { added, updated, duplicates, skipped, invalid };
 } 
\ No newline at end of file
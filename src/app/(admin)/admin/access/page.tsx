@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { AdminApiToken, AdminAuditEntry, AdminUser } from '@/lib/admin-account-store';
+import type { AdminRole } from '@/lib/admin-session';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+type StaffAccount = Omit<AdminUser, 'passwordHash'>;
+type ApiTokenInfo = Omit<AdminApiToken, 'tokenHash'>;
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: '閲覧',
+  editor: '編集',
+  operator: '運用',
+  admin: '管理者',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as AdminRole[];
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString('ja-JP') : '—');
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: ADMIN_JSON_HEADERS,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || '操作に失敗しました');
+  return result;
+}
+
+function RoleSelect({ value, onChange }: { value: AdminRole; onChange: (role: AdminRole) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as AdminRole)}
+      className="px-2 py-1 border border-gray-300 rounded"
+    >
+      {ROLES.map((role) => (
+        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+      ))}
+    </select>
+  );
+}
+
+export default function AccessAdminPage() {
+  const { session, logout } = useAdminSession();
+  const { data: usersData, error, mutate: mutateUsers } = useSWR('/api/admin/users', adminFetcher);
+  const { data: tokensData, mutate: mutateTokens } = useSWR('/api/admin/tokens', adminFetcher);
+  const { data: auditData, mutate: mutateAudit } = useSWR('/api/admin/audit?limit=50', adminFetcher);
+
+  const [newUser, setNewUser] = useState({ username: '', displayName: '', password: '', role: 'viewer' as AdminRole });
+  const [newToken, setNewToken] = useState({ name: '', role: 'operator' as AdminRole, expiresInDays: '90' });
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+      mutateUsers();
+      mutateTokens();
+      mutateAudit();
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : '操作に失敗しました');
+    }
+  };
+
+  const handleCreateUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await sendJson('/api/admin/users', 'POST', newUser);
+      setNewUser({ username: '', displayName: '', password: '', role: 'viewer' });
+    }, `${newUser.username} を追加しました`);
+  };
+
+  const handleResetPassword = (user: StaffAccount) => {
+    const password = prompt(`${user.username} の新しいパスワード`);
+    if (!password) return;
+    run(() => sendJson(`/api/admin/users/${user.id}`, 'PUT', { password }), 'パスワードを変更しました');
+  };
+
+  const handleCreateToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await sendJson('/api/admin/tokens', 'POST', {
+        name: newToken.name,
+        role: newToken.role,
+        expiresInDays: newToken.expiresInDays ? Number(newToken.expiresInDays) : null,
+      });
+      setIssuedToken(result.token);
+      setNewToken({ name: '', role: 'operator', expiresInDays: '90' });
+    }, 'APIトークンを発行しました');
+  };
+
+  const handleRevokeToken = (token: ApiTokenInfo) => {
+    if (!confirm(`${token.name} を無効にしますか？`)) return;
+    run(() => sendJson(`/api/admin/tokens/${token.id}`, 'DELETE'), `${token.name} を無効にしました`);
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const users = (usersData?.users || []) as StaffAccount[];
+  const tokens = (tokensData?.tokens || []) as ApiTokenInfo[];
+  const entries = (auditData?.entries || []) as AdminAuditEntry[];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">スタッフとアクセス権限</h1>
+            <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+              {session?.displayName} でログアウト
+            </button>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">ユーザー</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">権限</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">最終ログイン</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user.id} className={user.disabled ? 'bg-gray-50 text-gray-400' : ''}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">{user.displayName}</div>
+                    <div className="font-mono text-xs text-gray-500">{user.username}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <RoleSelect
+                      value={user.role}
+                      onChange={(role) => run(
+                        () => sendJson(`/api/admin/users/${user.id}`, 'PUT', { role }),
+                        `${user.username} を${ROLE_LABELS[role]}に変更しました`
+                      )}
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{formatDate(user.lastLoginAt)}</td>
+                  <td className="px-6 py-4 space-x-2 whitespace-nowrap text-sm">
+                    <button onClick={() => handleResetPassword(user)} className="text-blue-600 hover:text-blue-800">
+                      パスワード変更
+                    </button>
+                    <button
+                      onClick={() => run(
+                        () => sendJson(`/api/admin/users/${user.id}`, 'PUT', { disabled: !user.disabled }),
+                        user.disabled ? `${user.username} を有効にしました` : `${user.username} を無効にしました`
+                      )}
+                      className={user.disabled ? 'text-green-600 hover:text-green-800' : 'text-red-600 hover:text-red-800'}
+                    >
+                      {user.disabled ? '有効にする' : '無効にする'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <form onSubmit={handleCreateUser} className="px-6 py-4 border-t border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <input
+              placeholder="ユーザー名"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              required
+            />
+            <input
+              placeholder="表示名"
+              value={newUser.displayName}
+              onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            <input
+              type="password"
+              placeholder="初期パスワード（10文字以上）"
+              autoComplete="new-password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              required
+            />
+            <RoleSelect value={newUser.role} onChange={(role) => setNewUser({ ...newUser, role })} />
+            <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors">
+              スタッフを追加
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">APIトークン</h2>
+          </div>
+
+          {issuedToken && (
+            <div className="mx-6 mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm">
+              <p className="text-yellow-800 mb-2">このトークンは今だけ表示されます。安全な場所に保存してください。</p>
+              <code className="block font-mono break-all text-gray-900">{issuedToken}</code>
+              <button onClick={() => setIssuedToken(null)} className="mt-2 text-yellow-800 underline">閉じる</button>
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {tokens.map((token) => (
+              <li key={token.id} className="px-6 py-3 text-sm flex justify-between items-center">
+                <div>
+                  <span className={token.revokedAt ? 'line-through text-gray-400' : 'font-medium text-gray-900'}>{token.name}</span>
+                  <span className="ml-2 text-gray-500">{ROLE_LABELS[token.role]}</span>
+                  <span className="ml-3 text-xs text-gray-400">
+                    発行: {token.createdBy} / 有効期限: {formatDate(token.expiresAt)} / 最終利用: {formatDate(token.lastUsedAt)}
+                  </span>
+                </div>
+                {!token.revokedAt && (
+                  <button onClick={() => handleRevokeToken(token)} className="text-red-600 hover:text-red-800">無効にする</button>
+                )}
+              </li>
+            ))}
+            {tokensData && tokens.length === 0 && (
+              <li className="px-6 py-3 text-sm text-gray-500">発行済みのトークンはありません</li>
+            )}
+          </ul>
+
+          <form onSubmit={handleCreateToken} className="px-6 py-4 border-t border-gray-200 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <input
+              placeholder="用途（例: slide-import）"
+              value={newToken.name}
+              onChange={(e) => setNewToken({ ...newToken, name: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              required
+            />
+            <RoleSelect value={newToken.role} onChange={(role) => setNewToken({ ...newToken, role })} />
+            <div className="flex items-center">
+              <input
+                type="number"
+                min={1}
+                max={365}
+                placeholder="無期限"
+                value={newToken.expiresInDays}
+                onChange={(e) => setNewToken({ ...newToken, expiresInDays: e.target.value })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <span className="ml-2 text-sm text-gray-500">日間有効</span>
+            </div>
+            <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors">
+              トークンを発行
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">操作履歴</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {entries.map((entry, index) => (
+              <li key={entry.id || index} className="px-6 py-3 text-sm">
+                <span className="text-gray-500">{formatDate(entry.createdAt)}</span>
+                <span className="ml-3 font-medium text-gray-900">{entry.actor}</span>
+                <span className="ml-2 font-mono text-gray-700">{entry.action}</span>
+                {entry.resource && <span className="ml-2 text-gray-500">{entry.resource}</span>}
+              </li>
+            ))}
+            {auditData && entries.length === 0 && (
+              <li className="px-6 py-3 text-sm text-gray-500">まだ操作はありません</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import type { AdminRole } from '@/lib/admin-session';
+
+/**
+ * Staff session helpers shared by the admin pages. The session lives in an
+ * httpOnly cookie set by /api/admin/auth/login, so requests only need
+ * same-origin credentials; middleware sends signed-out visitors to
+ * /admin/login before a page renders.
+ */
+export interface AdminSession {
+  actor: string;
+  role: AdminRole;
+  type: string;
+  displayName: string;
+}
+
+export const ADMIN_JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+const redirectToLogin = () => {
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.href = `/admin/login?next=${encodeURIComponent(next)}`;
+};
+
+/** SWR fetcher for admin API URLs; an expired session goes back to the login page */
+export const adminFetcher = (url: string) =>
+  fetch(url, { credentials: 'same-origin' }).then(async (res) => {
+    if (res.status === 401) redirectToLogin();
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error || res.statusText);
+    return body;
+  });
+
+export function useAdminSession() {
+  const { data: session } = useSWR<AdminSession>('/api/admin/auth/me', adminFetcher);
+
+  const logout = async () => {
+    await fetch('/api/admin/auth/logout', { method: 'POST', credentials: 'same-origin' });
+    window.location.href = '/admin/login';
+  };
+
+  return { session, logout };
+}
+
+export function AdminLogin({ title, next }: { title: string; next: string }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/auth/login', {
+        method: 'POST',
+        headers: ADMIN_JSON_HEADERS,
+        credentials: 'same-origin',
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'ログインに失敗しました');
+
+      window.location.href = next;
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'ログインに失敗しました');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h1 className="text-xl font-bold text-gray-900 mb-4">{title}</h1>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">ユーザー名</label>
+            <input
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">パスワード</label>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            ログイン
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { EscalationStatus, StaffEscalation } from '@/lib/staff-escalation';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+// New escalations should show up while the page is left open at reception
+const REFRESH_INTERVAL_MS = 10000;
+
+const STATUS_LABELS: Record<EscalationStatus, string> = {
+  open: '未対応',
+  acknowledged: '対応中',
+  resolved: '完了',
+};
+
+const STATUS_STYLES: Record<EscalationStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-gray-100 text-gray-600',
+};
+
+const URGENCY_LABELS: Record<StaffEscalation['urgency'], string> = {
+  high: '高',
+  medium: '中',
+  low: '低',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  user: '来館者',
+  assistant: 'ガイド',
+  system: 'システム',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('ja-JP') : '—';
+
+export default function EscalationsAdminPage() {
+  const { session: adminSession, logout } = useAdminSession();
+  const [status, setStatus] = useState<EscalationStatus | ''>('open');
+
+  const { data, error, mutate } = useSWR(
+    `/api/admin/escalations${status ? `?status=${status}` : ''}`,
+    adminFetcher,
+    { refreshInterval: REFRESH_INTERVAL_MS }
+  );
+
+  const handleAction = async (escalation: StaffEscalation, action: 'acknowledge' | 'resolve') => {
+    try {
+      const response = await fetch(`/api/admin/escalations/${escalation.id}`, {
+        method: 'PATCH',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({ action, name: adminSession?.displayName }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '更新に失敗しました');
+
+      toast.success(action === 'acknowledge' ? '対応中にしました。キオスクで来館者に案内されます' : '完了にしました');
+      mutate();
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : '更新に失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const escalations = (data?.escalations || []) as StaffEscalation[];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">スタッフ呼び出し</h1>
+            <div className="flex items-center gap-4">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as EscalationStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">すべて</option>
+                {(Object.keys(STATUS_LABELS) as EscalationStatus[]).map((value) => (
+                  <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+                ))}
+              </select>
+              <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+                {adminSession?.displayName} でログアウト
+              </button>
+            </div>
+          </div>
+
+          {data ? (
+            <ul className="divide-y divide-gray-200">
+              {escalations.map((escalation) => (
+                <li key={escalation.id} className="px-6 py-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[escalation.status]}`}>
+                          {STATUS_LABELS[escalation.status]}
+                        </span>
+                        <span className={escalation.urgency === 'high' ? 'font-semibold text-red-700' : 'text-gray-600'}>
+                          緊急度: {URGENCY_LABELS[escalation.urgency]}
+                        </span>
+                        <span className="text-gray-500">{escalation.location}</span>
+                        <span className="text-gray-400">{formatDate(escalation.createdAt)}</span>
+                        <span className="text-gray-400">{escalation.language}</span>
+                      </div>
+                      <p className="text-gray-900">{escalation.question}</p>
+                      {escalation.acknowledgedBy && (
+                        <p className="text-sm text-gray-600">
+                          {escalation.acknowledgedBy} が対応（{formatDate(escalation.acknowledgedAt)}）
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        通知:{' '}
+                        {escalation.deliveries.length === 0
+                          ? '通知先なし'
+                          : escalation.deliveries.map((delivery) => (
+                            <span
+                              key={delivery.channel}
+                              title={delivery.error}
+                              className={`mr-2 ${delivery.delivered ? 'text-green-700' : 'text-red-700'}`}
+                            >
+                              {delivery.channel} {delivery.delivered ? '✓' : '✗'}
+                            </span>
+                          ))}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      {escalation.status === 'open' && (
+                        <button
+                          onClick={() => handleAction(escalation, 'acknowledge')}
+                          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                        >
+                          対応する
+                        </button>
+                      )}
+                      {escalation.status !== 'resolved' && (
+                        <button
+                          onClick={() => handleAction(escalation, 'resolve')}
+                          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                          完了
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {escalation.transcriptExcerpt.length > 0 && (
+                    <details className="mt-2 text-sm">
+                      <summary className="cursor-pointer text-gray-600">直近の会話</summary>
+                      <ul className="mt-2 space-y-1">
+                        {escalation.transcriptExcerpt.map((message, index) => (
+                          <li key={index}>
+                            <span className="font-medium text-gray-900">{ROLE_LABELS[message.role] || message.role}</span>
+                            <span className="ml-2 text-gray-700">{message.content}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </li>
+              ))}
+              {escalations.length === 0 && (
+                <li className="px-6 py-4 text-sm text-gray-500">該当する呼び出しはありません</li>
+              )}
+            </ul>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
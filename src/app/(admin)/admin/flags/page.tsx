@@ -0,0 +1,250 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { FeatureFlagState } from '@/lib/feature-flags';
+import type { FeatureFlagAuditEntry, FeatureFlagValue } from '@/lib/feature-flag-store';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+interface Draft {
+  value: FeatureFlagValue;
+  rolloutPercentage: string;
+  rules: string;
+}
+
+const toDraft = (flag: FeatureFlagState): Draft => ({
+  value: flag.record ? flag.record.value : flag.defaultValue,
+  rolloutPercentage: flag.record?.rolloutPercentage != null ? String(flag.record.rolloutPercentage) : '',
+  rules: JSON.stringify(flag.record?.rules || [], null, 2),
+});
+
+export default function FeatureFlagsAdminPage() {
+  const { session, logout } = useAdminSession();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data, error, mutate } = useSWR('/api/admin/flags', adminFetcher);
+  const { data: auditData, mutate: mutateAudit } = useSWR(
+    '/api/admin/flags/audit?limit=30',
+    adminFetcher
+  );
+
+  const startEditing = (flag: FeatureFlagState) => {
+    setEditing(flag.key);
+    setDraft(toDraft(flag));
+  };
+
+  const handleSave = async (flag: FeatureFlagState) => {
+    if (!draft) return;
+
+    let rules;
+    try {
+      rules = JSON.parse(draft.rules || '[]');
+    } catch {
+      toast.error('ルールのJSONが正しくありません');
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/flags/${flag.key}`, {
+        method: 'PUT',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({
+          value: draft.value,
+          rolloutPercentage: draft.rolloutPercentage === '' ? null : Number(draft.rolloutPercentage),
+          rules,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '保存に失敗しました');
+
+      toast.success(`${flag.key} を保存しました`);
+      setEditing(null);
+      mutate();
+      mutateAudit();
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : '保存に失敗しました');
+    }
+  };
+
+  const handleReset = async (flag: FeatureFlagState) => {
+    if (!confirm(`${flag.key} を環境変数の既定値に戻しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/flags/${flag.key}`, {
+        method: 'DELETE',
+        headers: ADMIN_JSON_HEADERS,
+      });
+      if (!response.ok) throw new Error('リセットに失敗しました');
+
+      toast.success(`${flag.key} を既定値に戻しました`);
+      mutate();
+      mutateAudit();
+    } catch (resetError) {
+      toast.error(resetError instanceof Error ? resetError.message : 'リセットに失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">
+              フィーチャーフラグ管理
+              {data && <span className="ml-3 text-sm font-normal text-gray-500">テナント: {data.tenant}</span>}
+            </h1>
+            <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+              {session?.displayName} でログアウト
+            </button>
+          </div>
+
+          {data ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">フラグ</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">値</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">ロールアウト</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">ルール</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">更新者</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {(data.flags as FeatureFlagState[]).map((flag) => (
+                  <tr key={flag.key} className="align-top">
+                    <td className="px-6 py-4">
+                      <div className="font-mono text-sm text-gray-900">{flag.key}</div>
+                      <div className="text-xs text-gray-500">{flag.definition.description}</div>
+                      <div className="text-xs text-gray-400">既定値: {String(flag.defaultValue)}</div>
+                    </td>
+                    {editing === flag.key && draft ? (
+                      <>
+                        <td className="px-6 py-4">
+                          {flag.definition.type === 'boolean' ? (
+                            <input
+                              type="checkbox"
+                              checked={draft.value === true}
+                              onChange={(e) => setDraft({ ...draft, value: e.target.checked })}
+                            />
+                          ) : (
+                            <input
+                              type="number"
+                              value={String(draft.value)}
+                              onChange={(e) => setDraft({ ...draft, value: Number(e.target.value) })}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            placeholder="全員"
+                            value={draft.rolloutPercentage}
+                            onChange={(e) => setDraft({ ...draft, rolloutPercentage: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded"
+                          />
+                          <span className="ml-1 text-sm text-gray-500">%</span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <textarea
+                            value={draft.rules}
+                            onChange={(e) => setDraft({ ...draft, rules: e.target.value })}
+                            rows={4}
+                            className="w-72 px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+                          />
+                        </td>
+                        <td className="px-6 py-4"></td>
+                        <td className="px-6 py-4 space-x-2 whitespace-nowrap">
+                          <button onClick={() => handleSave(flag)} className="text-blue-600 hover:text-blue-800">保存</button>
+                          <button onClick={() => setEditing(null)} className="text-gray-600 hover:text-gray-800">キャンセル</button>
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={flag.record ? 'font-semibold text-gray-900' : 'text-gray-500'}>
+                            {String(flag.record ? flag.record.value : flag.defaultValue)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {flag.record?.rolloutPercentage != null ? `${flag.record.rolloutPercentage}%` : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {flag.record?.rules.length ? `${flag.record.rules.length}件` : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500">
+                          {flag.record?.updatedBy || '—'}
+                          {flag.record?.updatedAt && (
+                            <div className="text-xs">{new Date(flag.record.updatedAt).toLocaleString('ja-JP')}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 space-x-2 whitespace-nowrap">
+                          <button onClick={() => startEditing(flag)} className="text-blue-600 hover:text-blue-800">編集</button>
+                          {flag.record && (
+                            <button onClick={() => handleReset(flag)} className="text-red-600 hover:text-red-800">既定値に戻す</button>
+                          )}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">変更履歴</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {((auditData?.entries || []) as FeatureFlagAuditEntry[]).map((entry, index) => (
+              <li key={entry.id || index} className="px-6 py-3 text-sm">
+                <span className="text-gray-500">
+                  {entry.createdAt ? new Date(entry.createdAt).toLocaleString('ja-JP') : ''}
+                </span>
+                <span className="ml-3 font-medium text-gray-900">{entry.actor}</span>
+                <span className="ml-2 text-gray-700">
+                  {entry.action === 'delete' ? 'が既定値に戻しました' : 'が変更しました'}:
+                </span>
+                <span className="ml-2 font-mono">{entry.flagKey}</span>
+                <span className="ml-2 text-gray-500">
+                  {String(entry.previous?.value ?? '既定値')} → {String(entry.next?.value ?? '既定値')}
+                </span>
+              </li>
+            ))}
+            {auditData && auditData.entries.length === 0 && (
+              <li className="px-6 py-3 text-sm text-gray-500">まだ変更はありません</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { ClosureRule, FacilitySchedule, ScheduleException, TimeRange } from '@/lib/facility-schedule';
+import type { JapaneseHoliday } from '@/lib/japanese-holidays';
+import { localize } from '@/lib/localized-text';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+interface Draft {
+  weekly: string[];
+  holidayHours: string;
+  useHolidayHours: boolean;
+  eventOnly: boolean;
+}
+
+/** "9:00-22:00" per range, comma-separated; empty means closed */
+const rangesToText = (ranges: TimeRange[]) => ranges.map((range) => `${range.opens}-${range.closes}`).join(', ');
+
+// The API checks the times; this only splits the text up
+const textToRanges = (text: string): TimeRange[] => text
+  .split(/[,、]/)
+  .map((part) => part.trim())
+  .filter((part) => part && part !== '休')
+  .map((part) => {
+    const [opens = '', closes = ''] = part.split(/[-〜~]/).map((time) => time.trim().replace(/^(\d):/, '0$1:'));
+    return { opens, closes };
+  });
+
+const toDraft = (facility: FacilitySchedule): Draft => ({
+  weekly: facility.weekly.map(rangesToText),
+  holidayHours: rangesToText(facility.holidayHours || []),
+  useHolidayHours: facility.holidayHours !== null,
+  eventOnly: facility.eventOnly,
+});
+
+const describeClosure = (rule: ClosureRule) => rule.type === 'yearly'
+  ? `毎年 ${rule.from.replace('-', '/')}〜${rule.to.replace('-', '/')}: ${localize(rule.reason, 'ja')}`
+  : `毎月最終${WEEKDAYS[rule.weekday]}曜日${rule.holidayShift ? '（祝日の場合は翌平日）' : ''}: ${localize(rule.reason, 'ja')}`;
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('ja-JP', {
+  timeZone: 'UTC', year: 'numeric', month: 'numeric', day: 'numeric', weekday: 'short',
+});
+
+export default function HoursAdminPage() {
+  const { session, logout } = useAdminSession();
+  const [facilityId, setFacilityId] = useState('engineer-cafe');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [exception, setException] = useState({ date: '', hours: '', noteJa: '', noteEn: '' });
+
+  const { data, error, mutate } = useSWR('/api/admin/hours', adminFetcher);
+
+  const facilities = (data?.facilities || []) as FacilitySchedule[];
+  const facility = facilities.find((candidate) => candidate.id === facilityId);
+  const exceptions = ((data?.exceptions || []) as ScheduleException[]).filter((item) => item.facilityId === facilityId);
+  const holidays = ((data?.holidays || []) as JapaneseHoliday[]).slice(0, 10);
+
+  const selectFacility = (id: string) => {
+    setFacilityId(id);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!facility || !draft) return;
+
+    try {
+      const response = await fetch(`/api/admin/hours/${facility.id}`, {
+        method: 'PUT',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({
+          weekly: draft.weekly.map(textToRanges),
+          holidayHours: draft.useHolidayHours ? textToRanges(draft.holidayHours) : null,
+          eventOnly: draft.eventOnly,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '保存に失敗しました');
+
+      toast.success(`${localize(facility.name, 'ja')}の営業時間を保存しました`);
+      setDraft(null);
+      mutate();
+    } catch (saveError) {
+      toast.error(saveError instanceof Error ? saveError.message : '保存に失敗しました');
+    }
+  };
+
+  const handleAddException = async () => {
+    if (!exception.date || (!exception.noteJa && !exception.noteEn)) {
+      toast.error('日付と理由を入力してください');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/admin/hours/exceptions', {
+        method: 'POST',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({
+          facilityId,
+          date: exception.date,
+          hours: textToRanges(exception.hours),
+          note: { ...(exception.noteJa ? { ja: exception.noteJa } : {}), ...(exception.noteEn ? { en: exception.noteEn } : {}) },
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '追加に失敗しました');
+
+      toast.success('特別営業・臨時休館を追加しました');
+      setException({ date: '', hours: '', noteJa: '', noteEn: '' });
+      mutate();
+    } catch (addError) {
+      toast.error(addError instanceof Error ? addError.message : '追加に失敗しました');
+    }
+  };
+
+  const handleDeleteException = async (item: ScheduleException) => {
+    if (!confirm(`${formatDate(item.date)} の設定を削除しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/hours/exceptions/${item.id}`, {
+        method: 'DELETE',
+        headers: ADMIN_JSON_HEADERS,
+      });
+      if (!response.ok) throw new Error('削除に失敗しました');
+
+      toast.success('削除しました');
+      mutate();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : '削除に失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">営業時間・休館日</h1>
+            <div className="flex items-center gap-4">
+              <select
+                value={facilityId}
+                onChange={(e) => selectFacility(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {facilities.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>{localize(candidate.name, 'ja')}</option>
+                ))}
+              </select>
+              <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+                {session?.displayName} でログアウト
+              </button>
+            </div>
+          </div>
+
+          {facility ? (
+            <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <h2 className="text-lg font-semibold text-gray-900">通常の営業時間</h2>
+                  {draft ? (
+                    <div className="space-x-3 text-sm">
+                      <button onClick={handleSave} className="text-blue-600 hover:text-blue-800">保存</button>
+                      <button onClick={() => setDraft(null)} className="text-gray-600 hover:text-gray-800">キャンセル</button>
+                    </div>
+                  ) : (
+                    <button onClick={() => setDraft(toDraft(facility))} className="text-sm text-blue-600 hover:text-blue-800">
+                      編集
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mb-3">「9:00-22:00」の形式で、複数ある場合はカンマ区切り。空欄は休み。</p>
+
+                <table className="min-w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {WEEKDAYS.map((label, weekday) => (
+                      <tr key={label}>
+                        <td className="py-2 pr-4 w-16 text-gray-500">{label}曜日</td>
+                        <td className="py-2">
+                          {draft ? (
+                            <input
+                              value={draft.weekly[weekday]}
+                              onChange={(e) => setDraft({
+                                ...draft,
+                                weekly: draft.weekly.map((text, index) => index === weekday ? e.target.value : text),
+                              })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded"
+                            />
+                          ) : (
+                            <span className="text-gray-900">{rangesToText(facility.weekly[weekday]) || '休み'}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 pr-4 text-gray-500">祝日</td>
+                      <td className="py-2">
+                        {draft ? (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={draft.useHolidayHours}
+                              onChange={(e) => setDraft({ ...draft, useHolidayHours: e.target.checked })}
+                            />
+                            <input
+                              value={draft.holidayHours}
+                              disabled={!draft.useHolidayHours}
+                              placeholder="曜日どおり"
+                              onChange={(e) => setDraft({ ...draft, holidayHours: e.target.value })}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                            />
+                          </div>
+                        ) : (
+                          <span className="text-gray-900">
+                            {facility.holidayHours === null ? '曜日どおり' : rangesToText(facility.holidayHours) || '休み'}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+
+                <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    disabled={!draft}
+                    checked={draft ? draft.eventOnly : facility.eventOnly}
+                    onChange={(e) => draft && setDraft({ ...draft, eventOnly: e.target.checked })}
+                  />
+                  イベント開催時のみ利用（開館日は下の特別営業で設定）
+                </label>
+                {facility.updatedBy && (
+                  <p className="mt-2 text-xs text-gray-400">
+                    最終更新: {facility.updatedBy}
+                    {facility.updatedAt && ` (${new Date(facility.updatedAt).toLocaleString('ja-JP')})`}
+                  </p>
+                )}
+
+                <h2 className="mt-8 mb-3 text-lg font-semibold text-gray-900">定休日</h2>
+                <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+                  {facility.closures.map((rule) => <li key={describeClosure(rule)}>{describeClosure(rule)}</li>)}
+                  {facility.closures.length === 0 && <li className="text-gray-500">なし</li>}
+                </ul>
+              </div>
+
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">特別営業・臨時休館</h2>
+                <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+                  <input
+                    type="date"
+                    value={exception.date}
+                    onChange={(e) => setException({ ...exception, date: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <input
+                    value={exception.hours}
+                    placeholder="営業時間（空欄は休館）"
+                    onChange={(e) => setException({ ...exception, hours: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <input
+                    value={exception.noteJa}
+                    placeholder="理由（日本語）"
+                    onChange={(e) => setException({ ...exception, noteJa: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <input
+                    value={exception.noteEn}
+                    placeholder="Reason (English)"
+                    onChange={(e) => setException({ ...exception, noteEn: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <button
+                    onClick={handleAddException}
+                    className="col-span-2 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    追加
+                  </button>
+                </div>
+
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <tbody className="divide-y divide-gray-200">
+                    {exceptions.map((item) => (
+                      <tr key={item.id}>
+                        <td className="py-2 pr-4 whitespace-nowrap text-gray-900">{formatDate(item.date)}</td>
+                        <td className="py-2 pr-4 text-gray-700">{rangesToText(item.hours) || '休館'}</td>
+                        <td className="py-2 pr-4 text-gray-500">{localize(item.note, 'ja')}</td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => handleDeleteException(item)} className="text-red-600 hover:text-red-800">
+                            削除
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {exceptions.length === 0 && (
+                      <tr>
+                        <td className="py-2 text-gray-500">予定はありません</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+
+                <h2 className="mt-8 mb-3 text-lg font-semibold text-gray-900">今後の祝日</h2>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {holidays.map((holiday) => (
+                    <li key={holiday.date}>{formatDate(holiday.date)} {localize(holiday.name, 'ja')}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,13 @@
 
 import { useState, use } from 'react';
 import useSWR from 'swr';
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { MarkdownViewer } from '../components/MarkdownViewer';
 import { KnowledgeEditor } from '../components/KnowledgeEditor';
-
-const fetcher = (url: string) => fetch(url).then((res) => res.json());
+import { RevisionHistory } from '../components/RevisionHistory';
+import { adminFetcher } from '../../components/AdminLogin';
 
 interface KnowledgeDetailPageProps {
   params: Promise<{ id: string }>;
@@ -21,7 +21,7 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
 
   const { data: entry, error, mutate } = useSWR(
     `/api/admin/knowledge/${id}`,
-    fetcher
+    adminFetcher
   );
 
   const handleSave = async () => {
@@ -30,7 +30,7 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
   };
 
   const handleDelete = async () => {
-    if (!confirm('削除してもよろしいですか？この操作は取り消せません。')) return;
+    if (!confirm('ゴミ箱に移動しますか？ゴミ箱から復元できます。')) return;
 
     try {
       const response = await fetch(`/api/admin/knowledge/${id}`, {
@@ -48,6 +48,21 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
     }
   };
 
+  const handleRestore = async () => {
+    try {
+      const response = await fetch(`/api/admin/knowledge/${id}/restore`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '復元に失敗しました');
+
+      toast.success('ゴミ箱から復元しました');
+      mutate();
+    } catch (restoreError) {
+      toast.error(restoreError instanceof Error ? restoreError.message : '復元に失敗しました');
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('ja-JP', {
       year: 'numeric',
@@ -106,7 +121,15 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
                 >
                   一覧に戻る
                 </Link>
-                {!isEditing && (
+                {!isEditing && entry.deleted_at && (
+                  <button
+                    onClick={handleRestore}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    復元
+                  </button>
+                )}
+                {!isEditing && !entry.deleted_at && (
                   <>
                     <button
                       onClick={() => setIsEditing(true)}
@@ -126,6 +149,13 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
             </div>
           </div>
 
+          {entry.deleted_at && (
+            <div className="mx-6 mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+              このエントリは {formatDate(entry.deleted_at)} に{entry.deleted_by ? ` ${entry.deleted_by} が` : ''}ゴミ箱に移動しました。
+              検索には使われません。
+            </div>
+          )}
+
           <div className="p-6">
             {isEditing ? (
               <KnowledgeEditor
@@ -185,6 +215,13 @@ export default function KnowledgeDetailPage({ params }: KnowledgeDetailPageProps
                     <MarkdownViewer content={entry.content} />
                   </div>
                 </div>
+
+                <RevisionHistory
+                  entryId={entry.id}
+                  currentContent={entry.content}
+                  readOnly={!!entry.deleted_at}
+                  onRestored={() => mutate()}
+                />
               </div>
             )}
           </div>
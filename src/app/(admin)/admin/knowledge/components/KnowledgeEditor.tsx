@@ -1,8 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import MDEditor from '@uiw/react-md-editor';
 import toast from 'react-hot-toast';
+import { chunkKnowledgeDocument } from '@/lib/knowledge-chunker';
+import { getLanguageConfigs } from '@/lib/languages';
+
+// Maintained by the server when a document is split into chunks
+const CHUNK_METADATA_KEYS = ['chunked', 'chunk_count'];
 
 interface KnowledgeEntry {
   id?: string;
@@ -52,6 +57,11 @@ export function KnowledgeEditor({ entry, onSave, onCancel }: KnowledgeEditorProp
   const [customSubcategory, setCustomSubcategory] = useState('');
   const [customSource, setCustomSource] = useState('');
 
+  const chunkCount = useMemo(
+    () => chunkKnowledgeDocument(formData.content, { title: formData.metadata.title || formData.subcategory }).length,
+    [formData.content, formData.metadata.title, formData.subcategory]
+  );
+
   // Load categories and templates on mount
   useEffect(() => {
     const loadData = async () => {
@@ -463,8 +473,9 @@ export function KnowledgeEditor({ entry, onSave, onCancel }: KnowledgeEditorProp
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             required
           >
-            <option value="ja">日本語</option>
-            <option value="en">English</option>
+            {getLanguageConfigs().map(config => (
+              <option key={config.code} value={config.code}>{config.name}</option>
+            ))}
           </select>
         </div>
 
@@ -544,7 +555,7 @@ export function KnowledgeEditor({ entry, onSave, onCancel }: KnowledgeEditorProp
         </div>
         
         <div className="space-y-3">
-          {Object.entries(formData.metadata).map(([key, value]) => (
+          {Object.entries(formData.metadata).filter(([key]) => !CHUNK_METADATA_KEYS.includes(key)).map(([key, value]) => (
             <div key={key} className="border border-gray-200 rounded-lg p-3">
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-center gap-2">
@@ -658,6 +669,11 @@ export function KnowledgeEditor({ entry, onSave, onCancel }: KnowledgeEditorProp
           height={400}
           data-color-mode="light"
         />
+        {chunkCount > 1 && (
+          <p className="mt-2 text-sm text-gray-500">
+            保存時に見出し・リスト・表の単位で {chunkCount} 個のチャンクに分割して検索に登録されます
+          </p>
+        )}
       </div>
 
       <div className="flex justify-end space-x-4">
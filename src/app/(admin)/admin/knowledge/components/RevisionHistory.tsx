@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import type { KnowledgeRevision, KnowledgeRevisionAction } from '@/lib/knowledge-revisions';
+import { diffLines } from '@/lib/line-diff';
+import { ADMIN_JSON_HEADERS, adminFetcher } from '../../components/AdminLogin';
+
+interface RevisionHistoryProps {
+  entryId: string;
+  currentContent: string;
+  /** Entries in the trash are restored first, then rolled back */
+  readOnly?: boolean;
+  onRestored: () => void;
+}
+
+const ACTION_LABELS: Record<KnowledgeRevisionAction, string> = {
+  create: '作成',
+  update: '更新',
+  delete: '削除',
+  restore: 'ゴミ箱から復元',
+  rollback: '以前の版に戻す',
+};
+
+const ORIGIN_LABELS: Record<string, string> = {
+  admin: '管理画面',
+  cron: '自動更新',
+  import: 'インポート',
+  system: 'システム',
+};
+
+export function RevisionHistory({ entryId, currentContent, readOnly, onRestored }: RevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const { data, mutate } = useSWR(`/api/admin/knowledge/${entryId}/revisions`, adminFetcher);
+  const revisions = (data?.revisions || []) as KnowledgeRevision[];
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+
+  const handleRestore = async (revision: KnowledgeRevision) => {
+    if (!confirm(`${new Date(revision.createdAt).toLocaleString('ja-JP')} の版に戻しますか？`)) return;
+
+    setRestoring(true);
+    try {
+      const response = await fetch(`/api/admin/knowledge/${entryId}/revisions`, {
+        method: 'POST',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({ revisionId: revision.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '復元に失敗しました');
+
+      toast.success('以前の版に戻しました');
+      setSelectedId(null);
+      mutate();
+      onRestored();
+    } catch (restoreError) {
+      toast.error(restoreError instanceof Error ? restoreError.message : '復元に失敗しました');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">変更履歴</h3>
+      {data && revisions.length === 0 && (
+        <p className="text-sm text-gray-500">履歴はまだありません</p>
+      )}
+      <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {revisions.map((revision) => (
+          <li key={revision.id}>
+            <button
+              onClick={() => setSelectedId(selectedId === revision.id ? null : revision.id)}
+              className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${selectedId === revision.id ? 'bg-blue-50' : ''}`}
+            >
+              <span className="text-gray-500">{new Date(revision.createdAt).toLocaleString('ja-JP')}</span>
+              <span className="ml-3 font-medium text-gray-900">{ACTION_LABELS[revision.action] || revision.action}</span>
+              <span className="ml-2 text-gray-700">{revision.author}</span>
+              <span className="ml-2 text-xs text-gray-500">
+                {ORIGIN_LABELS[revision.origin] || revision.origin}
+                {revision.embeddingModel && ` / ${revision.embeddingModel}`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="mt-4">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm text-gray-700">
+              この版から現在の内容への差分（<span className="text-red-700">赤: この版のみ</span>、
+              <span className="text-green-700">緑: 現在のみ</span>）
+            </p>
+            {!readOnly && (
+              <button
+                onClick={() => handleRestore(selected)}
+                disabled={restoring || selected.content === currentContent}
+                className="bg-blue-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                この版に戻す
+              </button>
+            )}
+          </div>
+          <pre className="border border-gray-200 rounded-lg text-xs overflow-x-auto max-h-96">
+            {diffLines(selected.content, currentContent).map((line, index) => (
+              <div
+                key={index}
+                className={line.type === 'added' ? 'bg-green-50 text-green-800'
+                  : line.type === 'removed' ? 'bg-red-50 text-red-800' : 'text-gray-700'}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,8 @@ import useSWR from 'swr';
 import { Toaster } from 'react-hot-toast';
 import Link from 'next/link';
 import { KnowledgeTable } from './components/KnowledgeTable';
-
-const fetcher = (url: string) => fetch(url).then((res) => res.json());
+import { adminFetcher } from '../components/AdminLogin';
+import { getLanguageConfigs } from '@/lib/languages';
 
 export default function KnowledgeAdminPage() {
   const [page, setPage] = useState(1);
@@ -22,7 +22,7 @@ export default function KnowledgeAdminPage() {
 
   const { data, error, mutate } = useSWR(
     `/api/admin/knowledge?${queryParams.toString()}`,
-    fetcher
+    adminFetcher
   );
 
   const handleSearch = (e: React.FormEvent) => {
@@ -32,7 +32,7 @@ export default function KnowledgeAdminPage() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('削除してもよろしいですか？')) return;
+    if (!confirm('ゴミ箱に移動しますか？')) return;
 
     try {
       const response = await fetch(`/api/admin/knowledge/${id}`, {
@@ -73,12 +73,20 @@ export default function KnowledgeAdminPage() {
               <h1 className="text-2xl font-bold text-gray-900">
                 知識ベース管理
               </h1>
-              <Link
-                href="/admin/knowledge/new"
-                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                新規作成
-              </Link>
+              <div className="flex items-center space-x-4">
+                <Link
+                  href="/admin/knowledge/trash"
+                  className="text-gray-600 hover:text-gray-800"
+                >
+                  ゴミ箱
+                </Link>
+                <Link
+                  href="/admin/knowledge/new"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  新規作成
+                </Link>
+              </div>
             </div>
           </div>
 
@@ -108,8 +116,9 @@ export default function KnowledgeAdminPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="">すべて</option>
-                    <option value="ja">日本語</option>
-                    <option value="en">英語</option>
+                    {getLanguageConfigs().map(config => (
+                      <option key={config.code} value={config.code}>{config.name}</option>
+                    ))}
                   </select>
                 </div>
                 
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import Link from 'next/link';
+import type { KnowledgeBaseRow } from '@/lib/knowledge-base-utils';
+import { adminFetcher } from '../../components/AdminLogin';
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString('ja-JP') : '—');
+
+export default function KnowledgeTrashPage() {
+  const [page, setPage] = useState(1);
+  const { data, error, mutate } = useSWR(`/api/admin/knowledge/trash?page=${page}`, adminFetcher);
+
+  const run = async (url: string, method: string, success: string) => {
+    try {
+      const response = await fetch(url, { method });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '操作に失敗しました');
+
+      toast.success(success);
+      mutate();
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : '操作に失敗しました');
+    }
+  };
+
+  const handleRestore = (entry: KnowledgeBaseRow) =>
+    run(`/api/admin/knowledge/${entry.id}/restore`, 'POST', 'ゴミ箱から復元しました');
+
+  const handlePurge = (entry: KnowledgeBaseRow) => {
+    if (!confirm('完全に削除しますか？この操作は取り消せません。変更履歴は残ります。')) return;
+    run(`/api/admin/knowledge/${entry.id}?permanent=true`, 'DELETE', '完全に削除しました');
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const entries = (data?.data || []) as KnowledgeBaseRow[];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">ゴミ箱</h1>
+            <Link href="/admin/knowledge" className="text-gray-600 hover:text-gray-800">
+              一覧に戻る
+            </Link>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">コンテンツ</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">カテゴリ</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">削除日時</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <Link href={`/admin/knowledge/${entry.id}`} className="text-blue-600 hover:text-blue-800">
+                      {entry.content.slice(0, 80)}{entry.content.length > 80 ? '…' : ''}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{entry.category || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {formatDate(entry.deleted_at)}
+                    {entry.deleted_by && <span className="ml-2">{entry.deleted_by}</span>}
+                  </td>
+                  <td className="px-6 py-4 space-x-2 whitespace-nowrap text-sm">
+                    <button onClick={() => handleRestore(entry)} className="text-green-600 hover:text-green-800">
+                      復元
+                    </button>
+                    <button onClick={() => handlePurge(entry)} className="text-red-600 hover:text-red-800">
+                      完全に削除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {data && entries.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-sm text-gray-500">ゴミ箱は空です</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {totalPages > 1 && (
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                前へ
+              </button>
+              <span className="text-gray-500">{page} / {totalPages}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                次へ
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
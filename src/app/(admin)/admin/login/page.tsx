@@ -0,0 +1,20 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { AdminLogin } from '../components/AdminLogin';
+
+function LoginForm() {
+  const next = useSearchParams().get('next');
+  // Only return to pages on this site
+  const target = next && next.startsWith('/') && !next.startsWith('//') ? next : '/admin/knowledge';
+  return <AdminLogin title="エンジニアカフェ 管理画面" next={target} />;
+}
+
+export default function AdminLoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { RoomBooking, RoomBookingStatus } from '@/lib/room-booking';
+import { localize } from '@/lib/localized-text';
+import { getRoom } from '@/lib/rooms';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+// Visitors wait at reception for new provisional reservations to be confirmed
+const REFRESH_INTERVAL_MS = 30000;
+
+const STATUS_LABELS: Record<RoomBookingStatus, string> = {
+  provisional: '仮予約',
+  confirmed: '確定',
+  cancelled: '取消',
+};
+
+const STATUS_STYLES: Record<RoomBookingStatus, string> = {
+  provisional: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString('ja-JP', {
+  month: 'numeric', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit',
+});
+const formatTime = (value: string) => new Date(value).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+
+export default function RoomBookingsAdminPage() {
+  const { session: adminSession, logout } = useAdminSession();
+  const [status, setStatus] = useState<RoomBookingStatus | ''>('provisional');
+
+  const { data, error, mutate } = useSWR(
+    `/api/admin/room-bookings${status ? `?status=${status}` : ''}`,
+    adminFetcher,
+    { refreshInterval: REFRESH_INTERVAL_MS }
+  );
+
+  const handleAction = async (booking: RoomBooking, action: 'confirm' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`予約番号 ${booking.reference || '—'} を取り消しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/room-bookings/${encodeURIComponent(booking.id)}`, {
+        method: 'PATCH',
+        headers: ADMIN_JSON_HEADERS,
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '更新に失敗しました');
+
+      toast.success(action === 'confirm' ? '予約を確定しました' : '予約を取り消しました');
+      mutate();
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : '更新に失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const bookings = (data?.bookings || []) as RoomBooking[];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">部屋の予約</h1>
+            <div className="flex items-center gap-4">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as RoomBookingStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">すべて</option>
+                {(Object.keys(STATUS_LABELS) as RoomBookingStatus[]).map((value) => (
+                  <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+                ))}
+              </select>
+              <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+                {adminSession?.displayName} でログアウト
+              </button>
+            </div>
+          </div>
+
+          {data ? (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">状態</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">予約番号</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">部屋</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">日時</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">人数</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">対応者</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {bookings.map((booking) => {
+                  const room = getRoom(booking.roomId);
+                  return (
+                    <tr key={booking.id}>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[booking.status]}`}>
+                          {STATUS_LABELS[booking.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 font-mono text-gray-700">{booking.reference || '—'}</td>
+                      <td className="px-6 py-3 text-gray-900">{room ? localize(room.name, 'ja') : booking.roomId}</td>
+                      <td className="px-6 py-3 text-gray-700">
+                        {formatDate(booking.start)}〜{formatTime(booking.end)}
+                      </td>
+                      <td className="px-6 py-3 text-gray-700">{booking.partySize ? `${booking.partySize}名` : '—'}</td>
+                      <td className="px-6 py-3 text-gray-500">{booking.decidedBy || '—'}</td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap">
+                        {booking.status === 'provisional' && (
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => handleAction(booking, 'confirm')}
+                              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                            >
+                              確定
+                            </button>
+                            <button
+                              onClick={() => handleAction(booking, 'cancel')}
+                              className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-50"
+                            >
+                              取消
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {bookings.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-gray-500">該当する予約はありません</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { TranscriptFormat } from '@/lib/conversation-transcripts';
+import { adminFetcher, useAdminSession } from '../components/AdminLogin';
+import { getLanguageConfigs } from '@/lib/languages';
+
+interface SessionListItem {
+  id: string;
+  visitor: string | null;
+  language: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  status: string | null;
+  endReason: string | null;
+  escalated: boolean;
+  primaryEmotion: string | null;
+  summary: string | null;
+  messageCount: number | null;
+}
+
+interface Transcript {
+  session: SessionListItem;
+  messages: Array<{ role: string; content: string; emotion: string | null; createdAt: string | null }>;
+}
+
+interface Filters {
+  from: string;
+  to: string;
+  language: string;
+  emotion: string;
+  escalated: string;
+}
+
+const EMOTIONS = ['neutral', 'happy', 'sad', 'angry', 'relaxed', 'surprised'];
+const PAGE_SIZE = 50;
+
+const END_REASON_LABELS: Record<string, string> = {
+  ended: '終了',
+  idle: '無操作',
+  replaced: '新しい会話',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  user: '来館者',
+  assistant: 'ガイド',
+  system: 'システム',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('ja-JP') : '—';
+
+function buildQuery(filters: Filters, offset: number): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  // Dates are picked in local time; the end date includes the whole day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.language) params.set('language', filters.language);
+  if (filters.emotion) params.set('emotion', filters.emotion);
+  if (filters.escalated) params.set('escalated', filters.escalated);
+  return params.toString();
+}
+
+export default function SessionsAdminPage() {
+  const { session: adminSession, logout } = useAdminSession();
+  const [filters, setFilters] = useState<Filters>({ from: '', to: '', language: '', emotion: '', escalated: '' });
+  const [offset, setOffset] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, error } = useSWR(
+    `/api/admin/sessions?${buildQuery(filters, offset)}`,
+    adminFetcher
+  );
+  const { data: transcript } = useSWR<Transcript>(
+    selectedId ? `/api/admin/sessions/${selectedId}` : null,
+    adminFetcher
+  );
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setOffset(0);
+  };
+
+  const handleExport = async (format: TranscriptFormat) => {
+    if (!selectedId) return;
+
+    try {
+      const response = await fetch(`/api/admin/sessions/${selectedId}?format=${format}`);
+      if (!response.ok) throw new Error('エクスポートに失敗しました');
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `session-${selectedId}.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      toast.error(exportError instanceof Error ? exportError.message : 'エクスポートに失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const sessions = (data?.sessions || []) as SessionListItem[];
+  const total: number = data?.total || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h1 className="text-2xl font-bold text-gray-900">
+              会話セッション
+              {data && <span className="ml-3 text-sm font-normal text-gray-500">{total}件</span>}
+            </h1>
+            <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+              {adminSession?.displayName} でログアウト
+            </button>
+          </div>
+
+          <div className="px-6 py-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">開始日</label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">終了日</label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">言語</label>
+              <select
+                value={filters.language}
+                onChange={(e) => updateFilter('language', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">すべて</option>
+                {getLanguageConfigs().map(config => (
+                  <option key={config.code} value={config.code}>{config.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">感情</label>
+              <select
+                value={filters.emotion}
+                onChange={(e) => updateFilter('emotion', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">すべて</option>
+                {EMOTIONS.map((emotion) => (
+                  <option key={emotion} value={emotion}>{emotion}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">スタッフ対応</label>
+              <select
+                value={filters.escalated}
+                onChange={(e) => updateFilter('escalated', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">すべて</option>
+                <option value="true">あり</option>
+                <option value="false">なし</option>
+              </select>
+            </div>
+          </div>
+
+          {data ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">開始</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">来館者</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">言語</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">状態</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">感情</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">要約</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sessions.map((session) => (
+                  <tr
+                    key={session.id}
+                    onClick={() => setSelectedId(session.id)}
+                    className={`cursor-pointer align-top hover:bg-gray-50 ${selectedId === session.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">{formatDate(session.startedAt)}</td>
+                    <td className="px-6 py-4 text-sm font-mono text-gray-500">{session.visitor || '—'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{session.language || '—'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">
+                      {session.status === 'active' ? '会話中' : END_REASON_LABELS[session.endReason || ''] || session.status}
+                      {session.escalated && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">スタッフ対応</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{session.primaryEmotion || '—'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{session.summary || '—'}</td>
+                  </tr>
+                ))}
+                {sessions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-sm text-gray-500">該当するセッションはありません</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="px-6 py-3 border-t border-gray-200 flex justify-between items-center text-sm">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={offset === 0}
+                className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                前へ
+              </button>
+              <span className="text-gray-500">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} / {total}
+              </span>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+                className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                次へ
+              </button>
+            </div>
+          )}
+        </div>
+
+        {selectedId && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <h2 className="text-lg font-semibold text-gray-900">会話ログ</h2>
+              <div className="space-x-2">
+                <button onClick={() => handleExport('json')} className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50">JSON</button>
+                <button onClick={() => handleExport('csv')} className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50">CSV</button>
+                <button onClick={() => handleExport('markdown')} className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50">Markdown</button>
+              </div>
+            </div>
+            {transcript ? (
+              <ul className="divide-y divide-gray-200">
+                {transcript.messages.map((message, index) => (
+                  <li key={index} className="px-6 py-3 text-sm">
+                    <span className="font-medium text-gray-900">{ROLE_LABELS[message.role] || message.role}</span>
+                    <span className="ml-2 text-xs text-gray-400">{formatDate(message.createdAt)}</span>
+                    {message.emotion && <span className="ml-2 text-xs text-gray-500">{message.emotion}</span>}
+                    <p className="mt-1 text-gray-700 whitespace-pre-wrap">{message.content}</p>
+                  </li>
+                ))}
+                {transcript.messages.length === 0 && (
+                  <li className="px-6 py-3 text-sm text-gray-500">メッセージはありません</li>
+                )}
+              </ul>
+            ) : (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast, { Toaster } from 'react-hot-toast';
+import type { Visitor } from '@/lib/visitor-registration';
+import { ADMIN_JSON_HEADERS, adminFetcher, useAdminSession } from '../components/AdminLogin';
+
+const formatDate = (value: string) => new Date(value).toLocaleString('ja-JP');
+
+export default function VisitorsAdminPage() {
+  const { session: adminSession, logout } = useAdminSession();
+  const [search, setSearch] = useState('');
+
+  const { data, error, mutate } = useSWR(
+    `/api/admin/visitors${search.trim() ? `?search=${encodeURIComponent(search.trim())}` : ''}`,
+    adminFetcher
+  );
+
+  const handleDelete = async (visitor: Visitor) => {
+    if (!confirm(`${visitor.name}（${visitor.visitorCode}）の来館者情報を削除しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/visitors/${visitor.id}`, {
+        method: 'DELETE',
+        headers: ADMIN_JSON_HEADERS,
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || '削除に失敗しました');
+
+      toast.success('来館者情報を削除しました');
+      mutate();
+    } catch (deleteError) {
+      toast.error(deleteError instanceof Error ? deleteError.message : '削除に失敗しました');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center">
+            <p className="text-red-700">エラーが発生しました: {error.message}</p>
+            <button onClick={logout} className="text-sm text-red-700 underline">
+              ログインし直す
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const visitors = (data?.visitors || []) as Visitor[];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <Toaster position="top-right" />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">来館者</h1>
+              {data && (
+                <p className="text-sm text-gray-500">
+                  最終来館から {data.retentionDays} 日で自動削除されます
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="名前・所属・来館者コード"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button onClick={logout} className="text-sm text-gray-600 hover:text-gray-900">
+                {adminSession?.displayName} でログアウト
+              </button>
+            </div>
+          </div>
+
+          {data ? (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">来館者コード</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">名前</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">所属</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">用件</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">来館回数</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">最終来館</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">同意</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visitors.map((visitor) => (
+                  <tr key={visitor.id}>
+                    <td className="px-6 py-3 font-mono text-gray-700">{visitor.visitorCode}</td>
+                    <td className="px-6 py-3 text-gray-900">{visitor.name}</td>
+                    <td className="px-6 py-3 text-gray-700">{visitor.affiliation || '—'}</td>
+                    <td className="px-6 py-3 text-gray-700">{visitor.purpose || '—'}</td>
+                    <td className="px-6 py-3 text-gray-700">{visitor.visitCount}</td>
+                    <td className="px-6 py-3 text-gray-500">{formatDate(visitor.lastVisitAt)}</td>
+                    <td className="px-6 py-3 text-gray-500" title={formatDate(visitor.consentedAt)}>
+                      {visitor.consentVersion}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(visitor)}
+                        className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-50"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visitors.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-gray-500">該当する来館者はいません</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
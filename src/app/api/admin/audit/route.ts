@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, getAdminAccountStore } from '@/lib/admin-auth';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const actor = searchParams.get('actor') || undefined;
+    const action = searchParams.get('action') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const entries = await getAdminAccountStore().listAudit({ actor, action, limit });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Failed to get admin audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to get admin audit log' },
+      { status: 500 }
+    );
+  }
+}
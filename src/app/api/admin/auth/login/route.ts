@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAdminAudit, sessionCookieOptions, verifyStaffLogin } from '@/lib/admin-auth';
+import { ADMIN_SESSION_COOKIE, createSessionToken, getSessionSecret } from '@/lib/admin-session';
+
+/**
+ * Staff login: sets the signed session cookie used by the admin pages and API
+ */
+export async function POST(request: NextRequest) {
+  const secret = getSessionSecret();
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Staff login is not configured (NEXTAUTH_SECRET)' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { username, password } = await request.json();
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { error: 'Missing required fields: username, password' },
+        { status: 400 }
+      );
+    }
+
+    const user = await verifyStaffLogin(username.trim(), password);
+    if (!user) {
+      await recordAdminAudit(
+        { actor: username.trim().slice(0, 255), role: null, type: 'session' },
+        'auth.login_failed'
+      );
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const token = await createSessionToken({ userId: user.id, username: user.username, role: user.role }, secret);
+    await recordAdminAudit({ actor: user.username, role: user.role, type: 'session' }, 'auth.login');
+
+    const response = NextResponse.json({
+      user: { username: user.username, displayName: user.displayName, role: user.role },
+    });
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('Failed to log in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { sessionCookieOptions } from '@/lib/admin-auth';
+import { ADMIN_SESSION_COOKIE } from '@/lib/admin-session';
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
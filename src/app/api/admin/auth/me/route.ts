@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, getAdminAccountStore } from '@/lib/admin-auth';
+
+/**
+ * The signed-in staff member or API token, for the admin pages' header
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  const { principal } = auth;
+  const user = principal.userId ? await getAdminAccountStore().getUser(principal.userId) : null;
+
+  return NextResponse.json({
+    actor: principal.actor,
+    role: principal.role,
+    type: principal.type,
+    displayName: user?.displayName || principal.actor,
+  });
+}
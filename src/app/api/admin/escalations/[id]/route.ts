@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { EscalationError, getStaffEscalationService } from '@/lib/staff-escalation';
+
+/**
+ * Acknowledge an escalation (`{ "action": "acknowledge" }`) so the kiosk
+ * tells the visitor who is coming, or close it (`{ "action": "resolve" }`)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  if (body.action !== 'acknowledge' && body.action !== 'resolve') {
+    return NextResponse.json(
+      { error: 'action must be acknowledge or resolve' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const service = getStaffEscalationService();
+    // Visitors hear this name, so prefer the staff member's display name
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name : auth.actor;
+    const escalation = body.action === 'acknowledge'
+      ? await service.acknowledge(id, name, 'admin')
+      : await service.resolve(id, name);
+
+    await recordAdminAudit(auth.principal, `escalation.${body.action}`, { resource: id });
+    return NextResponse.json({ success: true, escalation });
+  } catch (error) {
+    if (error instanceof EscalationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update escalation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update escalation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { ESCALATION_STATUSES, EscalationStatus, getStaffEscalationService } from '@/lib/staff-escalation';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  if (status && !ESCALATION_STATUSES.includes(status as EscalationStatus)) {
+    return NextResponse.json(
+      { error: `Invalid status: ${status}. Use one of ${ESCALATION_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const escalations = await getStaffEscalationService().list({
+      status: (status || undefined) as EscalationStatus | undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200),
+    });
+    return NextResponse.json({ escalations });
+  } catch (error) {
+    console.error('Failed to list escalations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list escalations' },
+      { status: 500 }
+    );
+  }
+}
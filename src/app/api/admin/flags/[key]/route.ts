@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { FeatureFlagError, featureFlags } from '@/lib/feature-flags';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { key } = await params;
+    const flag = (await featureFlags.listFlags()).find(state => state.key === key);
+
+    if (!flag) {
+      return NextResponse.json(
+        { error: 'Feature flag not found' },
+        { status: 404 }
+      );
+    }
+
+    const audit = await featureFlags.getAuditLog({ flagKey: key, limit: 20 });
+    return NextResponse.json({ ...flag, audit });
+  } catch (error) {
+    console.error('Failed to get feature flag:', error);
+    return NextResponse.json(
+      { error: 'Failed to get feature flag' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { key } = await params;
+    const { value, rolloutPercentage, rules, description } = await request.json();
+    const record = await featureFlags.setFlag(key, { value, rolloutPercentage, rules, description }, auth.actor);
+    await recordAdminAudit(auth.principal, 'flag.update', { resource: key, details: { value, rolloutPercentage } });
+    return NextResponse.json({ success: true, flag: record });
+  } catch (error) {
+    if (error instanceof FeatureFlagError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to update feature flag:', error);
+    return NextResponse.json(
+      { error: 'Failed to update feature flag' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the stored value so the environment default applies again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { key } = await params;
+    const removed = await featureFlags.deleteFlag(key, auth.actor);
+    await recordAdminAudit(auth.principal, 'flag.delete', { resource: key, details: { removed } });
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    if (error instanceof FeatureFlagError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to reset feature flag:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset feature flag' },
+      { status: 500 }
+    );
+  }
+}
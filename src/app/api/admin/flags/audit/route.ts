@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { featureFlags } from '@/lib/feature-flags';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const flagKey = searchParams.get('key') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const entries = await featureFlags.getAuditLog({ flagKey, limit });
+    return NextResponse.json({ tenant: featureFlags.tenant, entries });
+  } catch (error) {
+    console.error('Failed to get feature flag audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to get feature flag audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { FeatureFlagError, featureFlags } from '@/lib/feature-flags';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const flags = await featureFlags.listFlags();
+    return NextResponse.json({ tenant: featureFlags.tenant, flags });
+  } catch (error) {
+    console.error('Failed to get feature flags:', error);
+    return NextResponse.json(
+      { error: 'Failed to get feature flags' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { key, value, rolloutPercentage, rules, description } = await request.json();
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Missing required field: key' },
+        { status: 400 }
+      );
+    }
+
+    const record = await featureFlags.setFlag(key, { value, rolloutPercentage, rules, description }, auth.actor);
+    await recordAdminAudit(auth.principal, 'flag.update', { resource: key, details: { value, rolloutPercentage } });
+    return NextResponse.json({ success: true, flag: record });
+  } catch (error) {
+    if (error instanceof FeatureFlagError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to save feature flag:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
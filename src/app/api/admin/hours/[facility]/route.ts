@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { FacilityScheduleError, getFacilityScheduleService } from '@/lib/facility-schedule';
+
+/** Replace a facility's weekly hours, holiday hours and event-only setting */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ facility: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
+  const { facility: facilityId } = await params;
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const facility = await getFacilityScheduleService().updateFacility(facilityId, {
+      weekly: body.weekly,
+      holidayHours: body.holidayHours ?? null,
+      eventOnly: body.eventOnly === true,
+    }, auth.actor);
+
+    await recordAdminAudit(auth.principal, 'hours.update', {
+      resource: facilityId,
+      details: { weekly: facility.weekly, holidayHours: facility.holidayHours, eventOnly: facility.eventOnly },
+    });
+    return NextResponse.json({ success: true, facility });
+  } catch (error) {
+    if (error instanceof FacilityScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update facility hours:', error);
+    return NextResponse.json(
+      { error: 'Failed to update facility hours' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { FacilityScheduleError, getFacilityScheduleService } from '@/lib/facility-schedule';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    await getFacilityScheduleService().deleteException(id);
+    await recordAdminAudit(auth.principal, 'hours.exception_delete', { resource: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof FacilityScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to delete schedule exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete schedule exception' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { FacilityScheduleError, getFacilityScheduleService } from '@/lib/facility-schedule';
+
+/**
+ * Special hours for one date (`{ facilityId, date, hours, note }`); empty
+ * hours close the facility that day
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const exception = await getFacilityScheduleService().addException({
+      facilityId: body.facilityId,
+      date: body.date,
+      hours: body.hours || [],
+      note: body.note || {},
+    }, auth.actor);
+
+    await recordAdminAudit(auth.principal, 'hours.exception_create', {
+      resource: exception.id,
+      details: { facilityId: exception.facilityId, date: exception.date, hours: exception.hours },
+    });
+    return NextResponse.json({ success: true, exception });
+  } catch (error) {
+    if (error instanceof FacilityScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to add schedule exception:', error);
+    return NextResponse.json(
+      { error: 'Failed to add schedule exception' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { getFacilityScheduleService } from '@/lib/facility-schedule';
+import { getJapaneseHolidays } from '@/lib/japanese-holidays';
+
+/** Facility schedules, upcoming exceptions and this year's and next year's public holidays */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const service = getFacilityScheduleService();
+    const [facilities, exceptions] = await Promise.all([service.getFacilities(), service.listExceptions()]);
+    const today = service.dateOf(new Date());
+    const year = parseInt(today.slice(0, 4), 10);
+    const holidays = [...getJapaneseHolidays(year), ...getJapaneseHolidays(year + 1)]
+      .filter(holiday => holiday.date >= today);
+
+    return NextResponse.json({ facilities, exceptions, holidays });
+  } catch (error) {
+    console.error('Failed to get facility schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to get facility schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { knowledgeBaseUtils } from '@/lib/knowledge-base-utils';
+
+/**
+ * Take an entry back out of the trash
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    const result = await knowledgeBaseUtils.restoreEntry(id, { author: auth.actor, origin: 'admin' });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to restore entry' },
+        { status: 400 }
+      );
+    }
+
+    await recordAdminAudit(auth.principal, 'knowledge.restore', { resource: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to restore knowledge entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore knowledge entry' },
+      { status: 500 }
+    );
+  }
+}
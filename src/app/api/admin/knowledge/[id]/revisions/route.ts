@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { knowledgeBaseUtils } from '@/lib/knowledge-base-utils';
+
+/**
+ * Revision history of an entry, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    const limit = Math.min(parseInt(new URL(request.url).searchParams.get('limit') || '50'), 200);
+    const revisions = await knowledgeBaseUtils.getRevisions(id, limit);
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('Failed to get knowledge entry revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to get knowledge entry revisions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Roll an entry back to one of its revisions: { "revisionId": "..." }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    const { revisionId } = await request.json();
+    if (!revisionId) {
+      return NextResponse.json(
+        { error: 'Missing required field: revisionId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await knowledgeBaseUtils.rollbackEntry(id, revisionId, { author: auth.actor, origin: 'admin' });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to restore revision' },
+        { status: 400 }
+      );
+    }
+
+    await recordAdminAudit(auth.principal, 'knowledge.rollback', { resource: id, details: { revisionId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to restore knowledge entry revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore knowledge entry revision' },
+      { status: 500 }
+    );
+  }
+}
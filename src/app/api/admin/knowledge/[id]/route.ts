@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
 import { knowledgeBaseUtils, KnowledgeBaseEntry } from '@/lib/knowledge-base-utils';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
   try {
     const { id } = await params;
     const entry = await knowledgeBaseUtils.getById(id);
@@ -30,13 +34,20 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
   try {
     const { id } = await params;
     const updates: Partial<KnowledgeBaseEntry> = await request.json();
 
-    const result = await knowledgeBaseUtils.updateEntry(id, updates);
+    const result = await knowledgeBaseUtils.updateEntry(id, updates, { author: auth.actor, origin: 'admin' });
 
     if (result.success) {
+      await recordAdminAudit(auth.principal, 'knowledge.update', {
+        resource: id,
+        details: { fields: Object.keys(updates) },
+      });
       return NextResponse.json({ success: true });
     } else {
       return NextResponse.json(
@@ -53,15 +64,37 @@ export async function PUT(
   }
 }
 
+/**
+ * Move an entry to the trash; `?permanent=true` removes an entry that is
+ * already in the trash and needs the admin role
+ */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const permanent = new URL(request.url).searchParams.get('permanent') === 'true';
+  const auth = await authenticateAdmin(request, permanent ? 'admin' : 'editor');
+  if (!auth.authorized) return auth.response;
+
   try {
     const { id } = await params;
-    const success = await knowledgeBaseUtils.deleteEntry(id);
+
+    if (permanent) {
+      const result = await knowledgeBaseUtils.purgeEntry(id);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || 'Failed to delete entry' },
+          { status: 400 }
+        );
+      }
+      await recordAdminAudit(auth.principal, 'knowledge.purge', { resource: id });
+      return NextResponse.json({ success: true });
+    }
+
+    const success = await knowledgeBaseUtils.deleteEntry(id, { author: auth.actor, origin: 'admin' });
 
     if (success) {
+      await recordAdminAudit(auth.principal, 'knowledge.delete', { resource: id });
       return NextResponse.json({ success: true });
     } else {
       return NextResponse.json(
@@ -76,4 +109,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
 
 // Build metadata templates with current timestamp
 function buildMetadataTemplates() {
@@ -100,7 +101,10 @@ function buildMetadataTemplates() {
   };
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
   try {
     const metadataTemplates = buildMetadataTemplates();
     
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
 import { knowledgeBaseUtils, KnowledgeBaseEntry } from '@/lib/knowledge-base-utils';
 
 export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -29,11 +33,18 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'editor');
+  if (!auth.authorized) return auth.response;
+
   try {
     const entry: KnowledgeBaseEntry = await request.json();
-    const result = await knowledgeBaseUtils.addEntry(entry);
+    const result = await knowledgeBaseUtils.addEntry(entry, { author: auth.actor, origin: 'admin' });
 
     if (result.success) {
+      await recordAdminAudit(auth.principal, result.isUpdate ? 'knowledge.update' : 'knowledge.create', {
+        resource: result.id,
+        details: { title: entry.metadata?.title, category: entry.category, language: entry.language },
+      });
       return NextResponse.json({ id: result.id, success: true });
     } else {
       return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { knowledgeBaseUtils } from '@/lib/knowledge-base-utils';
+
+/**
+ * Entries in the trash, most recently deleted first
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const result = await knowledgeBaseUtils.getAll({ page, limit, trash: true });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to get knowledge trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to get knowledge trash' },
+      { status: 500 }
+    );
+  }
+}
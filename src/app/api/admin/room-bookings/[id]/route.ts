@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { getRoomBookingService, RoomBookingError } from '@/lib/room-booking';
+
+/**
+ * Confirm a provisional reservation made at the kiosk
+ * (`{ "action": "confirm" }`) or release the room (`{ "action": "cancel" }`)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  if (body.action !== 'confirm' && body.action !== 'cancel') {
+    return NextResponse.json(
+      { error: 'action must be confirm or cancel' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Google Calendar booking ids are roomId:eventId
+    const id = decodeURIComponent((await params).id);
+    const service = getRoomBookingService();
+    const booking = body.action === 'confirm'
+      ? await service.confirm(id, auth.actor)
+      : await service.cancel(id, auth.actor);
+
+    await recordAdminAudit(auth.principal, `room_booking.${body.action}`, {
+      resource: id,
+      details: { roomId: booking.roomId, start: booking.start, reference: booking.reference },
+    });
+    return NextResponse.json({ success: true, booking });
+  } catch (error) {
+    if (error instanceof RoomBookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to update room booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to update room booking' },
+      { status: 500 }
+    );
+  }
+}
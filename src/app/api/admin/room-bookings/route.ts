@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { getRoomBookingService, ROOM_BOOKING_STATUSES, RoomBookingError, RoomBookingStatus } from '@/lib/room-booking';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  if (status && !ROOM_BOOKING_STATUSES.includes(status as RoomBookingStatus)) {
+    return NextResponse.json(
+      { error: `Invalid status: ${status}. Use one of ${ROOM_BOOKING_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const bookings = await getRoomBookingService().list({
+      status: (status || undefined) as RoomBookingStatus | undefined,
+      roomId: searchParams.get('roomId') || undefined,
+    });
+    return NextResponse.json({ bookings });
+  } catch (error) {
+    if (error instanceof RoomBookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to list room bookings:', error);
+    return NextResponse.json(
+      { error: 'Failed to list room bookings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { exportTranscript, TRANSCRIPT_FORMATS, TranscriptFormat } from '@/lib/conversation-transcripts';
+import { ConversationManager } from '@/lib/supabase-memory';
+
+/**
+ * Redacted transcript of one session. Without `format` the JSON is returned
+ * inline for the admin page; `?format=json|csv|markdown` downloads a file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const format = new URL(request.url).searchParams.get('format');
+  if (format && !TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+    return NextResponse.json(
+      { error: `Unsupported format: ${format}. Use one of ${TRANSCRIPT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const { session, messages } = await ConversationManager.getTranscript(id);
+    const transcript = exportTranscript(session, messages, (format || 'json') as TranscriptFormat);
+
+    if (!format) {
+      return NextResponse.json(JSON.parse(transcript.body));
+    }
+
+    await recordAdminAudit(auth.principal, 'session.export', { resource: id, details: { format } });
+    return new NextResponse(transcript.body, {
+      headers: {
+        'Content-Type': transcript.contentType,
+        'Content-Disposition': `attachment; filename="${transcript.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    // PostgREST reports a missing row from .single() as PGRST116
+    if ((error as { code?: string })?.code === 'PGRST116') {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    console.error('Failed to export conversation transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversation transcript' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { redactTranscriptSession } from '@/lib/conversation-transcripts';
+import { isSupportedLanguage } from '@/lib/languages';
+import { ConversationManager, toTranscriptSession } from '@/lib/supabase-memory';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const language = searchParams.get('language');
+    const escalated = searchParams.get('escalated');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const { sessions, total } = await ConversationManager.listSessions({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      language: isSupportedLanguage(language) ? language : undefined,
+      emotion: searchParams.get('emotion') || undefined,
+      escalated: escalated === null || escalated === '' ? undefined : escalated === 'true',
+      status: searchParams.get('status') || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      sessions: sessions.map(row => ({
+        ...redactTranscriptSession(toTranscriptSession(row)),
+        messageCount: row.message_count,
+        lastActivityAt: row.last_activity_at,
+      })),
+      total,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Failed to list conversation sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversation sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, getAdminAccountStore, recordAdminAudit } from '@/lib/admin-auth';
+import { publicApiToken } from '@/lib/admin-account-store';
+
+/**
+ * Revoke an API token. The row is kept so the audit log still resolves it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    const record = await getAdminAccountStore().updateApiToken(id, { revokedAt: new Date().toISOString() });
+    if (!record) {
+      return NextResponse.json(
+        { error: 'API token not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAudit(auth.principal, 'token.revoke', { resource: record.name });
+    return NextResponse.json({ success: true, apiToken: publicApiToken(record) });
+  } catch (error) {
+    console.error('Failed to revoke API token:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
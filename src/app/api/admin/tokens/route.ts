@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateAdmin,
+  generateApiToken,
+  getAdminAccountStore,
+  recordAdminAudit,
+} from '@/lib/admin-auth';
+import { publicApiToken } from '@/lib/admin-account-store';
+import { ADMIN_ROLES, isAdminRole } from '@/lib/admin-session';
+
+const MAX_TOKEN_DAYS = 365;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const tokens = await getAdminAccountStore().listApiTokens();
+    return NextResponse.json({ tokens: tokens.map(publicApiToken) });
+  } catch (error) {
+    console.error('Failed to list API tokens:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Issue an API token for automation. The plain token is only in this
+ * response; the server keeps its hash.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { name, role, expiresInDays } = await request.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required field: name' },
+        { status: 400 }
+      );
+    }
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ADMIN_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (expiresInDays !== undefined && expiresInDays !== null
+      && (typeof expiresInDays !== 'number' || expiresInDays <= 0 || expiresInDays > MAX_TOKEN_DAYS)) {
+      return NextResponse.json(
+        { error: `expiresInDays must be between 1 and ${MAX_TOKEN_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const { token, tokenHash } = generateApiToken();
+    const record = await getAdminAccountStore().createApiToken({
+      name: name.trim(),
+      tokenHash,
+      role,
+      createdBy: auth.actor,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+    });
+    await recordAdminAudit(auth.principal, 'token.create', {
+      resource: record.name,
+      details: { role, expiresAt: record.expiresAt },
+    });
+
+    return NextResponse.json({ success: true, token, apiToken: publicApiToken(record) });
+  } catch (error) {
+    console.error('Failed to create API token:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
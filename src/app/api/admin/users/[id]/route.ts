@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateAdmin,
+  getAdminAccountStore,
+  hashPassword,
+  MIN_PASSWORD_LENGTH,
+  recordAdminAudit,
+} from '@/lib/admin-auth';
+import { AdminUserUpdate, publicAdminUser } from '@/lib/admin-account-store';
+import { ADMIN_ROLES, isAdminRole } from '@/lib/admin-session';
+
+/**
+ * Change a staff member's display name, role, password or disabled flag.
+ * Role and disabled changes apply to their live sessions immediately.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    const { displayName, role, disabled, password } = await request.json();
+    const updates: AdminUserUpdate = {};
+
+    if (typeof displayName === 'string' && displayName.trim()) {
+      updates.displayName = displayName.trim();
+    }
+    if (role !== undefined) {
+      if (!isAdminRole(role)) {
+        return NextResponse.json(
+          { error: `role must be one of ${ADMIN_ROLES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.role = role;
+    }
+    if (typeof disabled === 'boolean') {
+      updates.disabled = disabled;
+    }
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.passwordHash = hashPassword(password);
+    }
+
+    // Keep at least one way back in: admins cannot lock themselves out
+    if (id === auth.principal.userId && (updates.disabled || (updates.role && updates.role !== 'admin'))) {
+      return NextResponse.json(
+        { error: 'You cannot disable or demote your own account' },
+        { status: 400 }
+      );
+    }
+
+    const user = await getAdminAccountStore().updateUser(id, updates);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Staff account not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAudit(auth.principal, 'user.update', {
+      resource: user.username,
+      details: {
+        role: updates.role,
+        disabled: updates.disabled,
+        passwordChanged: updates.passwordHash !== undefined,
+      },
+    });
+    return NextResponse.json({ success: true, user: publicAdminUser(user) });
+  } catch (error) {
+    console.error('Failed to update staff account:', error);
+    return NextResponse.json(
+      { error: 'Failed to update staff account' },
+      { status: 500 }
+    );
+  }
+}
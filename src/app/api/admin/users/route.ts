@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateAdmin,
+  getAdminAccountStore,
+  hashPassword,
+  MIN_PASSWORD_LENGTH,
+  recordAdminAudit,
+} from '@/lib/admin-auth';
+import { AdminAccountError, publicAdminUser } from '@/lib/admin-account-store';
+import { ADMIN_ROLES, isAdminRole } from '@/lib/admin-session';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,64}$/;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const users = await getAdminAccountStore().listUsers();
+    return NextResponse.json({ users: users.map(publicAdminUser) });
+  } catch (error) {
+    console.error('Failed to list staff accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to list staff accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { username, displayName, password, role } = await request.json();
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      return NextResponse.json(
+        { error: 'username must be 3-64 letters, digits, ".", "_" or "-"' },
+        { status: 400 }
+      );
+    }
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ADMIN_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getAdminAccountStore().createUser({
+      username,
+      displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : username,
+      role,
+      disabled: false,
+      passwordHash: hashPassword(password),
+    });
+    await recordAdminAudit(auth.principal, 'user.create', { resource: user.username, details: { role } });
+
+    return NextResponse.json({ success: true, user: publicAdminUser(user) });
+  } catch (error) {
+    if (error instanceof AdminAccountError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to create staff account:', error);
+    return NextResponse.json(
+      { error: 'Failed to create staff account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
+import { getVisitorRegistrationService, VisitorError } from '@/lib/visitor-registration';
+
+/** Delete a visitor's record on request; their sessions stay, unlinked */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { id } = await params;
+    await getVisitorRegistrationService().delete(id);
+
+    await recordAdminAudit(auth.principal, 'visitor.delete', { resource: id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof VisitorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to delete visitor:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete visitor' },
+      { status: 500 }
+    );
+  }
+}
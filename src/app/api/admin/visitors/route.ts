@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { getVisitorRegistrationService } from '@/lib/visitor-registration';
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const service = getVisitorRegistrationService();
+    const visitors = await service.list({
+      search: searchParams.get('search') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200),
+    });
+    return NextResponse.json({ visitors, retentionDays: service.retentionDays });
+  } catch (error) {
+    console.error('Failed to list visitors:', error);
+    return NextResponse.json(
+      { error: 'Failed to list visitors' },
+      { status: 500 }
+    );
+  }
+}
@@ -70,10 +70,10 @@ async function processAlert(alert: AlertPayload): Promise<AlertResponse> {
       } else if (type === 'response_time' && value > 5000) {
         // Response time > 5 seconds - disable new features
         const { featureFlags } = await import('@/lib/feature-flags');
-        featureFlags.updateFlags({
+        await featureFlags.updateFlags({
           USE_NEW_EMBEDDINGS: false,
           NEW_EMBEDDINGS_PERCENTAGE: 0,
-        });
+        }, `alert:${type}`);
         action = 'disabled_new_features';
         automated = true;
       }
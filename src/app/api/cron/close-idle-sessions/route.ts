@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAutomation, recordAdminAudit } from '@/lib/admin-auth';
+import { ConversationManager, getSessionIdleTimeoutMs } from '@/lib/supabase-memory';
+
+/**
+ * CRON endpoint that closes conversation sessions left idle.
+ * RealtimeAgent closes its own session on a timer, but serverless instances
+ * are not kept alive long enough for that, so this sweep catches the rest.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAutomation(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const idleTimeoutMs = getSessionIdleTimeoutMs();
+    const closed = await ConversationManager.closeIdleSessions(idleTimeoutMs);
+
+    if (closed.length > 0) {
+      console.log(`[CRON] Closed ${closed.length} idle conversation session(s)`);
+    }
+    await recordAdminAudit(auth.principal, 'sessions.close_idle', {
+      details: { closed: closed.length, idleTimeoutMs },
+    });
+
+    return NextResponse.json({
+      success: true,
+      closed: closed.length,
+      sessionIds: closed,
+      idleTimeoutMs,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[CRON] Closing idle sessions failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Closing idle sessions failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAutomation, recordAdminAudit } from '@/lib/admin-auth';
+import { getVisitorRegistrationService } from '@/lib/visitor-registration';
+
+/**
+ * CRON endpoint that deletes visitors not seen within the retention period
+ * (VISITOR_RETENTION_DAYS), as promised in the consent notice.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAutomation(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const service = getVisitorRegistrationService();
+    const deleted = await service.purgeExpired();
+
+    if (deleted > 0) {
+      console.log(`[CRON] Deleted ${deleted} visitor(s) past retention`);
+    }
+    await recordAdminAudit(auth.principal, 'visitors.purge', {
+      details: { deleted, retentionDays: service.retentionDays },
+    });
+
+    return NextResponse.json({
+      success: true,
+      deleted,
+      retentionDays: service.retentionDays,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[CRON] Purging visitors failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Purging visitors failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAutomation, recordAdminAudit } from '@/lib/admin-auth';
 import { knowledgeBaseUpdater } from '@/jobs/update-knowledge-base';
 import { ragMetrics } from '@/lib/monitoring/rag-metrics';
 
@@ -7,19 +8,8 @@ import { ragMetrics } from '@/lib/monitoring/rag-metrics';
  * This endpoint is called by Vercel CRON or external schedulers
  */
 export async function GET(request: NextRequest) {
-  // Verify the request is from Vercel CRON
-  const authHeader = request.headers.get('authorization');
-  
-  if (process.env.NODE_ENV === 'production') {
-    // In production, verify the CRON secret
-    const cronSecret = process.env.CRON_SECRET;
-    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-  }
+  const auth = await authenticateAutomation(request, 'operator');
+  if (!auth.authorized) return auth.response;
   
   const startTime = Date.now();
   
@@ -48,6 +38,7 @@ export async function GET(request: NextRequest) {
       duration,
       success: true,
     });
+    await recordAdminAudit(auth.principal, 'knowledge.sync', { details: { duration } });
     
     return NextResponse.json({
       success: true,
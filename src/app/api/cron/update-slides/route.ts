@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAutomation, recordAdminAudit } from '@/lib/admin-auth';
 import { runSlideImport } from '../../../../../scripts/slide-import-lib';
 
 export const dynamic = 'force-dynamic'; // Always run on server
 
-export async function GET(_req: NextRequest) {
+export async function GET(request: NextRequest) {
+  const auth = await authenticateAutomation(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
   try {
-    const result = await runSlideImport();
+    const result = await runSlideImport({
+      author: auth.actor,
+      origin: auth.principal.type === 'cron' ? 'cron' : 'admin',
+    });
+    await recordAdminAudit(auth.principal, 'slides.import', { details: { ...result } });
     return NextResponse.json({ success: true, ...result });
   } catch (error) {
     console.error('[update-slides] failed', error);
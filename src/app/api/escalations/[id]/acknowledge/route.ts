@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EscalationError, getStaffEscalationService, StaffEscalation } from '@/lib/staff-escalation';
+
+/**
+ * Signed acknowledge link from an escalation notification. Opening it shows
+ * the escalation and asks for a name; only the form POST acknowledges, so
+ * link previews in Slack or Discord cannot acknowledge on staff's behalf.
+ */
+
+const URGENCY_LABELS: Record<StaffEscalation['urgency'], string> = {
+  high: '高',
+  medium: '中',
+  low: '低',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function page(title: string, body: string, status: number = 200): NextResponse {
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 32rem; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+dt { font-weight: bold; margin-top: 0.75rem; }
+input, button { font-size: 1rem; padding: 0.5rem 0.75rem; margin-top: 0.5rem; }
+button { background: #2563eb; color: #fff; border: 0; border-radius: 0.375rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+function describe(escalation: StaffEscalation): string {
+  return `<dl>
+<dt>場所</dt><dd>${escapeHtml(escalation.location)}</dd>
+<dt>緊急度</dt><dd>${URGENCY_LABELS[escalation.urgency]}</dd>
+<dt>質問</dt><dd>${escapeHtml(escalation.question)}</dd>
+<dt>受付日時</dt><dd>${escapeHtml(new Date(escalation.createdAt).toLocaleString('ja-JP'))}</dd>
+</dl>`;
+}
+
+function acknowledgedPage(escalation: StaffEscalation): NextResponse {
+  return page('対応済み', `<p>${escapeHtml(escalation.acknowledgedBy || 'スタッフ')} さんが対応しています。</p>${describe(escalation)}`);
+}
+
+async function loadFromLink(request: NextRequest, id: string): Promise<StaffEscalation | NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const service = getStaffEscalationService();
+  if (!service.verifyAcknowledgeLink(id, searchParams.get('expires'), searchParams.get('signature'))) {
+    return page('リンクが無効です', '<p>リンクの有効期限が切れているか、正しくありません。管理画面から対応してください。</p>', 403);
+  }
+
+  try {
+    return await service.get(id);
+  } catch (error) {
+    if (error instanceof EscalationError) {
+      return page('見つかりません', '<p>この呼び出しは見つかりませんでした。</p>', error.status);
+    }
+    throw error;
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const escalation = await loadFromLink(request, id);
+    if (escalation instanceof NextResponse) return escalation;
+    if (escalation.status !== 'open') return acknowledgedPage(escalation);
+
+    return page('スタッフ呼び出し', `${describe(escalation)}
+<form method="post">
+<label>お名前（来館者に案内されます）<br><input name="name" required maxlength="100" autocomplete="name"></label><br>
+<button type="submit">対応する</button>
+</form>`);
+  } catch (error) {
+    console.error('Failed to load escalation:', error);
+    return page('エラー', '<p>呼び出しを読み込めませんでした。</p>', 500);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const escalation = await loadFromLink(request, id);
+    if (escalation instanceof NextResponse) return escalation;
+
+    const form = await request.formData();
+    const name = String(form.get('name') || '');
+    const acknowledged = await getStaffEscalationService().acknowledge(id, name, 'link');
+    return acknowledgedPage(acknowledged);
+  } catch (error) {
+    if (error instanceof EscalationError) {
+      return page('対応できません', `<p>${escapeHtml(error.message)}</p>`, error.status);
+    }
+    console.error('Failed to acknowledge escalation:', error);
+    return page('エラー', '<p>対応の記録に失敗しました。</p>', 500);
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, recordAdminAudit } from '@/lib/admin-auth';
 import { getEngineerCafeNavigator } from '@/mastra';
 import { Config } from '@/mastra/types/config';
 
@@ -113,8 +114,17 @@ export async function GET(request: NextRequest) {
         });
 
       case 'room_availability':
+        const partySize = searchParams.get('partySize');
+        const duration = searchParams.get('durationMinutes');
         const roomResult = await externalTool.execute({
           action: 'checkRoomAvailability',
+          data: {
+            start: searchParams.get('start') || undefined,
+            durationMinutes: duration ? parseInt(duration, 10) : undefined,
+            partySize: partySize ? parseInt(partySize, 10) : undefined,
+            roomId: searchParams.get('roomId') || undefined,
+            floor: searchParams.get('floor') || undefined,
+          },
         });
         
         return NextResponse.json({
@@ -169,6 +179,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function PUT(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
   try {
     const navigator = getEngineerCafeNavigator(config);
     const externalTool = navigator.getTool('externalApi');
@@ -190,6 +203,7 @@ export async function PUT(request: NextRequest) {
         details,
       },
     });
+    await recordAdminAudit(auth.principal, 'external.log_activity', { resource: sessionId, details: { activity } });
     
     return NextResponse.json({
       success: result.success,
@@ -209,6 +223,9 @@ export async function PUT(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'operator');
+  if (!auth.authorized) return auth.response;
+
   try {
     const navigator = getEngineerCafeNavigator(config);
     const externalTool = navigator.getTool('externalApi');
@@ -222,6 +239,7 @@ export async function DELETE(request: NextRequest) {
 
     // Close all external connections
     await externalTool.closeConnections();
+    await recordAdminAudit(auth.principal, 'external.close_connections');
     
     return NextResponse.json({
       success: true,
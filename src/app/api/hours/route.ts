@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FacilityScheduleError, getFacilityScheduleService } from '@/lib/facility-schedule';
+
+/**
+ * Whether a facility is open, closing soon or closed, now or at `at` (ISO
+ * 8601), with its hours for the next seven days
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const facilityId = searchParams.get('facility') || 'engineer-cafe';
+  const atParam = searchParams.get('at');
+  const at = atParam ? new Date(atParam) : new Date();
+
+  try {
+    const service = getFacilityScheduleService();
+    const status = await service.getStatus(facilityId, at);
+    const week = await service.getWeek(facilityId, at);
+    return NextResponse.json({ status, week });
+  } catch (error) {
+    if (error instanceof FacilityScheduleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to resolve facility hours:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve facility hours' },
+      { status: 500 }
+    );
+  }
+}
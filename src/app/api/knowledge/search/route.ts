@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ragSearchTool } from '@/mastra/tools/rag-search';
 import { z } from 'zod';
+import { SUPPORTED_LANGUAGES } from '@/lib/languages';
 
 // Request validation schema
 const searchRequestSchema = z.object({
   query: z.string().min(1, 'Query is required'),
-  language: z.enum(['ja', 'en']).optional(),
+  language: z.enum(SUPPORTED_LANGUAGES).optional(),
   category: z.string().optional(),
   limit: z.number().min(1).max(10).optional(),
   threshold: z.number().min(0).max(1).optional(),
+  mode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+  weights: z.object({
+    vector: z.number().min(0),
+    keyword: z.number().min(0),
+  }).optional(),
+  rrfK: z.number().min(1).optional(),
+  crossLingual: z.boolean().optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -27,7 +35,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { query, language, category, limit, threshold } = validationResult.data;
+    const { query, language, category, limit, threshold, mode, weights, rrfK, crossLingual } = validationResult.data;
 
     // Perform RAG search
     const searchResult = await ragSearchTool.execute({
@@ -36,6 +44,10 @@ export async function POST(request: NextRequest) {
       category,
       limit: limit || 5,
       threshold: threshold || 0.7,
+      mode,
+      weights,
+      rrfK,
+      crossLingual,
     });
 
     if (!searchResult.success) {
@@ -52,6 +64,7 @@ export async function POST(request: NextRequest) {
       success: true,
       results: searchResult.results,
       count: searchResult.results.length,
+      mode: mode || 'hybrid',
       message: searchResult.message,
     });
   } catch (error) {
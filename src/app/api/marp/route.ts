@@ -1,6 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
+import { clientIp, RateLimiter } from '@/lib/rate-limit';
 import { getEngineerCafeNavigator } from '@/mastra';
 import { Config } from '@/mastra/types/config';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  exportDeck,
+  getExportJob,
+  getSlideThumbnail,
+  isMarpExportFormat,
+  MARP_EXPORT_CONTENT_TYPES,
+  MarpExportError,
+  MarpExportJob,
+  MarpExportResult,
+  parseDeckReference,
+  resolveDeck,
+  startExportJob,
+  whenExportJobSettled,
+} from '@/lib/marp-export';
+import { listDecks } from '@/lib/deck-library';
 
 // Configuration
 const config: Config = {
@@ -30,6 +49,40 @@ const config: Config = {
   },
 };
 
+// Thumbnails stay public for the kiosk, but an uncached one launches Chrome
+const thumbnailLimiter = new RateLimiter({ limit: 120, windowMs: 60 * 1000 });
+
+async function sendExportFile(result: MarpExportResult, file: string, filename: string) {
+  const data = await fs.readFile(file);
+  return new NextResponse(data, {
+    headers: {
+      'Content-Type': MARP_EXPORT_CONTENT_TYPES[result.format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
+
+function exportFileUrls(job: MarpExportJob): string[] {
+  return (job.result?.files || []).map((_, index) =>
+    `/api/marp?action=export_download&jobId=${job.id}&file=${index + 1}`);
+}
+
+function exportErrorResponse(error: unknown) {
+  if (error instanceof MarpExportError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error('Marp export error:', error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Export failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const navigator = getEngineerCafeNavigator(config);
@@ -62,6 +115,50 @@ export async function POST(request: NextRequest) {
     
     const { action, slideFile, theme, outputFormat, slideNumber } = body;
 
+    if (action === 'export') {
+      // Each export launches headless Chrome, so it is for signed-in staff only
+      const auth = await authenticateAdmin(request, 'viewer');
+      if (!auth.authorized) return auth.response;
+
+      // Rendering goes through marp-cli, not the navigator's renderer
+      const { deck, language } = parseDeckReference(body);
+      const format = body.format || 'pdf';
+      if (!isMarpExportFormat(format)) {
+        return NextResponse.json(
+          { error: 'format must be pdf, png or pptx' },
+          { status: 400 }
+        );
+      }
+      const exportRequest = { deck, language, format, includeNotes: body.includeNotes !== false };
+
+      try {
+        if (body.async) {
+          // Validate up front so a bad deck is a 400, not a failed job
+          await resolveDeck(deck, language);
+          const job = startExportJob(exportRequest);
+          // Keep the function running until the render is done
+          after(whenExportJobSettled(job));
+          return NextResponse.json(
+            { success: true, jobId: job.id, status: job.status },
+            { status: 202 }
+          );
+        }
+
+        const result = await exportDeck(exportRequest);
+        if (format === 'png') {
+          return NextResponse.json({
+            success: true,
+            cached: result.cached,
+            images: result.files.map((_, index) =>
+              `/api/marp?action=thumbnail&deck=${deck}&language=${language}&slide=${index + 1}`),
+          });
+        }
+        return sendExportFile(result, result.files[0], `${deck}-${language}.${format}`);
+      } catch (error) {
+        return exportErrorResponse(error);
+      }
+    }
+
     switch (action) {
       case 'render':
         if (!slideFile) {
@@ -222,6 +319,69 @@ export async function GET(request: NextRequest) {
     const slideFile = searchParams.get('slideFile');
     const slideNumber = searchParams.get('slideNumber');
 
+    switch (action) {
+      case 'thumbnail': {
+        if (!thumbnailLimiter.take(clientIp(request) || 'unknown')) {
+          return NextResponse.json({ error: 'Too many thumbnail requests' }, { status: 429 });
+        }
+        // PNG of one slide; rendered once per deck version and then served from the cache
+        const { deck, language } = parseDeckReference({
+          deck: searchParams.get('deck') || undefined,
+          language: searchParams.get('language') || undefined,
+          slideFile: slideFile || undefined,
+        });
+        try {
+          const file = await getSlideThumbnail(deck, language, parseInt(searchParams.get('slide') || '1'));
+          return new NextResponse(await fs.readFile(file), {
+            headers: {
+              'Content-Type': 'image/png',
+              'Cache-Control': 'public, max-age=3600',
+            },
+          });
+        } catch (error) {
+          return exportErrorResponse(error);
+        }
+      }
+
+      case 'export_status':
+      case 'export_download': {
+        const auth = await authenticateAdmin(request, 'viewer');
+        if (!auth.authorized) return auth.response;
+
+        const job = getExportJob(searchParams.get('jobId') || '');
+        if (!job) {
+          return NextResponse.json(
+            { error: 'Export job not found' },
+            { status: 404 }
+          );
+        }
+
+        if (action === 'export_status') {
+          return NextResponse.json({
+            success: job.status !== 'failed',
+            jobId: job.id,
+            status: job.status,
+            format: job.request.format,
+            files: exportFileUrls(job),
+            error: job.error,
+          });
+        }
+
+        const index = parseInt(searchParams.get('file') || '1') - 1;
+        const file = job.result?.files[index];
+        if (job.status !== 'done' || !job.result || !file) {
+          return NextResponse.json(
+            { error: job.status === 'done' ? 'File not found' : `Export is ${job.status}` },
+            { status: job.status === 'done' ? 404 : 409 }
+          );
+        }
+        const { deck, language, format } = job.request;
+        return sendExportFile(job.result, file, format === 'png'
+          ? `${deck}-${language}-${path.basename(file).split('.')[1]}.png`
+          : `${deck}-${language}.${format}`);
+      }
+    }
+
     const navigator = getEngineerCafeNavigator(config);
     const marpTool = navigator.getTool('marpRenderer');
 
@@ -336,20 +496,12 @@ export async function GET(request: NextRequest) {
         }
 
       case 'available_slides':
-        // List available slide files
+        // Decks from the deck library (src/slides/decks.json and src/slides/<language>/)
         try {
-          const fs = require('fs').promises;
-          const path = require('path');
-          
-          const slidesDir = path.resolve('src/slides');
-          const slideFiles = await fs.readdir(slidesDir);
-          const slides = slideFiles
-            .filter((file: string) => file.endsWith('.md'))
-            .map((file: string) => file.replace('.md', ''));
-
+          const decks = await listDecks();
           return NextResponse.json({
             success: true,
-            slides,
+            slides: decks.map(deck => deck.id),
           });
         } catch (error) {
           return NextResponse.json({
@@ -1,12 +1,16 @@
 import { ragMetrics } from '@/lib/monitoring/rag-metrics';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin } from '@/lib/admin-auth';
 
 /**
  * Production monitoring dashboard API
  * Returns comprehensive metrics for RAG system performance
  */
 export async function GET(request: NextRequest) {
+  const auth = await authenticateAdmin(request, 'viewer');
+  if (!auth.authorized) return auth.response;
+
   try {
     const url = new URL(request.url);
     const timeRange = url.searchParams.get('range') || '24h';
@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  ESCALATION_URGENCIES,
+  EscalationError,
+  getStaffEscalationService,
+  isEscalationUrgency,
+  StaffEscalation,
+  visitorEscalationMessage,
+} from '@/lib/staff-escalation';
+import { DEFAULT_LANGUAGE, languageFallbackChain, parseLanguage, promptLanguageOf } from '@/lib/languages';
+import { clientIp } from '@/lib/rate-limit';
+import { ConversationManager, isConversationSessionId } from '@/lib/supabase-memory';
+import { translateForVisitor } from '@/lib/translation';
 import { getEngineerCafeNavigator } from '@/mastra';
-import { Config } from '@/mastra/types/config';
+import { Config, SupportedLanguage } from '@/mastra/types/config';
 
 // Configuration
 const config: Config = {
@@ -43,7 +55,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, question, sessionId, language, text, fromLanguage, toLanguage } = body;
+    const { action, question, sessionId, text, fromLanguage, toLanguage } = body;
+    const language = parseLanguage(body.language) || undefined;
 
     switch (action) {
       case 'ask_question':
@@ -59,7 +72,9 @@ export async function POST(request: NextRequest) {
           await qaAgent.memory.store('language', language);
         }
 
-        const answer = await qaAgent.answerQuestion(question, language);
+        // Keep each visitor session's conversation memory separate
+        const memoryScope = sessionId ? { sessionId, visitorId: body.visitorId } : undefined;
+        const answer = await qaAgent.answerQuestion(question, language, memoryScope);
         const category = await qaAgent.categorizeQuestion(question);
         
         // Convert answer to speech
@@ -105,22 +120,52 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const escalationResult = await qaAgent.escalateToStaff(question);
-        
-        // Notify external system
-        const externalApi = navigator.getTool('externalApi');
-        if (externalApi) {
-          await externalApi.execute({
-            action: 'notifyStaff',
-            message: `Q&A escalation: ${question}`,
-            urgency: 'medium',
-          });
+        if (body.urgency !== undefined && !isEscalationUrgency(body.urgency)) {
+          return NextResponse.json(
+            { error: `Invalid urgency: ${body.urgency}. Use one of ${ESCALATION_URGENCIES.join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        if (language) {
+          await qaAgent.memory.store('language', language);
+        }
+
+        // Flag the visitor's own conversation so staff can find it in /admin/sessions;
+        // without one the escalation goes out without a transcript
+        let conversationSessionId: string | null = null;
+        if (isConversationSessionId(sessionId)) {
+          conversationSessionId = await ConversationManager.markEscalated(sessionId)
+            .then(found => (found ? sessionId : null))
+            .catch(error => {
+              console.error('Failed to mark session as escalated:', error);
+              return null;
+            });
+        }
+
+        // Stored and sent to Slack/Discord, email and the reception system
+        let escalationMessage: string;
+        let escalation: StaffEscalation | null;
+        try {
+          ({ message: escalationMessage, escalation } = await qaAgent.escalateToStaff(question, {
+            sessionId: conversationSessionId,
+            urgency: body.urgency,
+            clientIp: clientIp(request),
+          }));
+        } catch (error) {
+          if (error instanceof EscalationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+          }
+          throw error;
         }
         
         return NextResponse.json({
           success: true,
-          message: escalationResult,
-          escalated: true,
+          message: escalationMessage,
+          escalated: !!escalation,
+          escalationId: escalation?.id || null,
+          status: escalation?.status || null,
+          notified: !!escalation?.deliveries.some(delivery => delivery.delivered),
         });
 
       case 'get_fallback_response':
@@ -247,7 +292,7 @@ export async function GET(request: NextRequest) {
         });
 
       case 'sample_questions':
-        const sampleQuestions = {
+        const sampleQuestions: Partial<Record<SupportedLanguage, string[]>> = {
           ja: [
             '料金プランについて教えてください',
             '営業時間は何時から何時までですか？',
@@ -264,23 +309,48 @@ export async function GET(request: NextRequest) {
             'Is coffee complimentary?',
             'Are there any upcoming events?',
           ],
+          ko: [
+            '요금제에 대해 알려주세요',
+            '영업시간은 몇 시부터 몇 시까지인가요?',
+            'Wi-Fi 속도는 어느 정도인가요?',
+            '회의실은 어떻게 예약하나요?',
+            '커피는 무료인가요?',
+            '예정된 이벤트가 있나요?',
+          ],
+          'zh-CN': [
+            '请介绍一下收费方案',
+            '营业时间是几点到几点？',
+            'Wi-Fi速度怎么样？',
+            '怎么预约会议室？',
+            '咖啡是免费的吗？',
+            '最近有活动吗？',
+          ],
+          'zh-TW': [
+            '請介紹一下收費方案',
+            '營業時間是幾點到幾點？',
+            'Wi-Fi速度怎麼樣？',
+            '怎麼預約會議室？',
+            '咖啡是免費的嗎？',
+            '最近有活動嗎？',
+          ],
         };
         
-        const language = searchParams.get('language') || 'ja';
+        const questionLanguage = parseLanguage(searchParams.get('language')) || DEFAULT_LANGUAGE;
+        const questionsIn = languageFallbackChain(questionLanguage).find(code => sampleQuestions[code]) || DEFAULT_LANGUAGE;
         
         return NextResponse.json({
           success: true,
-          questions: sampleQuestions[language as keyof typeof sampleQuestions] || sampleQuestions.ja,
+          questions: sampleQuestions[questionsIn],
         });
 
       case 'conversation_summary':
         // Get conversation summary from memory
         const conversationHistory = await qaAgent.memory.get('conversationHistory') || [];
-        const storedLanguage = await qaAgent.memory.get('language') || 'ja';
+        const storedLanguage: SupportedLanguage = await qaAgent.memory.get('language') || DEFAULT_LANGUAGE;
         
         const summary = conversationHistory.length > 0
           ? `Conversation with ${conversationHistory.length} exchanges`
-          : storedLanguage === 'ja' ? 'まだ会話がありません' : 'No conversation yet';
+          : promptLanguageOf(storedLanguage) === 'ja' ? 'まだ会話がありません' : 'No conversation yet';
         
         return NextResponse.json({
           success: true,
@@ -291,6 +361,32 @@ export async function GET(request: NextRequest) {
             : null,
         });
 
+      case 'escalation_status':
+        // Polled by the kiosk until staff acknowledge
+        const escalationId = searchParams.get('escalationId');
+        if (!escalationId) {
+          return NextResponse.json(
+            { error: 'escalationId required' },
+            { status: 400 }
+          );
+        }
+
+        try {
+          const escalation = await getStaffEscalationService().get(escalationId);
+          return NextResponse.json({
+            success: true,
+            status: escalation.status,
+            acknowledgedBy: escalation.acknowledgedBy,
+            acknowledgedAt: escalation.acknowledgedAt,
+            message: await translateForVisitor(visitorEscalationMessage(escalation, escalation.language), escalation.language),
+          });
+        } catch (error) {
+          if (error instanceof EscalationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+          }
+          throw error;
+        }
+
       case 'health':
         return NextResponse.json({
           success: true,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getEngineerCafeNavigator } from '@/mastra';
 import { Config } from '@/mastra/types/config';
+import type { AutoPlayStep, SlideNarrator } from '@/mastra/agents/slide-narrator';
+import { DeckLibraryError, isDeckLanguage, listDecks, resolvePresentableDeck } from '@/lib/deck-library';
 
 // Configuration (same as voice route)
 const config: Config = {
@@ -30,6 +32,27 @@ const config: Config = {
   },
 };
 
+/** Auto-play step as sent to the client, with the audio base64-encoded */
+function serializeStep(step: AutoPlayStep) {
+  const { audioBuffer, ...rest } = step;
+  return {
+    ...rest,
+    audioResponse: audioBuffer ? Buffer.from(audioBuffer).toString('base64') : null,
+  };
+}
+
+function deckErrorResponse(error: DeckLibraryError) {
+  return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+}
+
+function autoPlayResponse(slideNarrator: SlideNarrator, step: AutoPlayStep | null) {
+  return NextResponse.json({
+    success: !!step,
+    step: step ? serializeStep(step) : null,
+    autoPlay: slideNarrator.getAutoPlayStatus(),
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
     const navigator = getEngineerCafeNavigator(config);
@@ -44,7 +67,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, slideNumber, slideFile, language, question, enabled, interval } = body;
+    const { action, slideNumber, slideFile, language, question, enabled, interval, endBehavior, stepId, deckId } = body;
 
     switch (action) {
       case 'next':
@@ -128,6 +151,35 @@ export async function POST(request: NextRequest) {
           message: 'Narration loaded successfully',
         });
 
+      case 'select_deck':
+        if (!deckId || !language) {
+          return NextResponse.json(
+            { error: 'deckId and language required' },
+            { status: 400 }
+          );
+        }
+
+        try {
+          const deck = await resolvePresentableDeck(deckId, language);
+
+          // A running presentation belongs to the previous deck
+          await slideNarrator.stopAutoPlay();
+          await slideNarrator.loadNarration(`${language}/${deck.id}`, language);
+          await slideNarrator.memory.set('language', language);
+          await slideNarrator.memory.set('deckId', deck.id);
+
+          return NextResponse.json({
+            success: true,
+            deck,
+            slideFile: deck.id,
+            language,
+            totalSlides: deck.status.find(item => item.language === language)?.slideCount ?? 0,
+          });
+        } catch (error) {
+          if (error instanceof DeckLibraryError) return deckErrorResponse(error);
+          throw error;
+        }
+
       case 'narrate_current':
         if (!slideFile || !language) {
           return NextResponse.json(
@@ -164,6 +216,7 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // Pauses auto-play; the client calls autoplay_resume after the answer
         const answer = await slideNarrator.answerSlideQuestion(question);
         
         // Convert answer to speech
@@ -171,24 +224,50 @@ export async function POST(request: NextRequest) {
         let answerAudio = null;
         if (voiceService) {
           const currentLanguage = await slideNarrator.memory.get('language') || 'ja';
-          const audioBuffer = await voiceService.textToSpeech(answer, { language: currentLanguage });
-          answerAudio = Buffer.from(audioBuffer).toString('base64');
+          const ttsResult = await voiceService.textToSpeech(answer, currentLanguage);
+          answerAudio = ttsResult.success ? ttsResult.audioBase64 : null;
         }
         
         return NextResponse.json({
           success: true,
           answer,
           audioResponse: answerAudio,
+          autoPlay: slideNarrator.getAutoPlayStatus(),
         });
 
       case 'set_autoplay':
-        await slideNarrator.setAutoPlay(enabled, interval);
-        
-        return NextResponse.json({
-          success: true,
-          autoPlay: enabled,
-          interval,
-        });
+        if (endBehavior && endBehavior !== 'loop' && endBehavior !== 'welcome') {
+          return NextResponse.json(
+            { error: 'endBehavior must be "loop" or "welcome"' },
+            { status: 400 }
+          );
+        }
+
+        await slideNarrator.setAutoPlay(!!enabled, { interval, endBehavior });
+        if (!enabled) {
+          return autoPlayResponse(slideNarrator, null);
+        }
+
+        if (slideFile && language) {
+          await slideNarrator.loadNarration(slideFile, language);
+          await slideNarrator.memory.set('language', language);
+        }
+
+        // Narrates the first slide; the client plays it and reports back
+        return autoPlayResponse(slideNarrator, await slideNarrator.startAutoPlay(slideNumber));
+
+      case 'autoplay_next':
+        if (typeof stepId !== 'number') {
+          return NextResponse.json(
+            { error: 'stepId of the finished step required' },
+            { status: 400 }
+          );
+        }
+
+        return autoPlayResponse(slideNarrator, await slideNarrator.completeAutoPlayStep(stepId));
+
+      case 'autoplay_resume':
+        return autoPlayResponse(slideNarrator, await slideNarrator.resumeAutoPlay());
 
       default:
         return NextResponse.json(
@@ -248,6 +327,21 @@ export async function GET(request: NextRequest) {
           ...progress,
         });
 
+      case 'list_decks':
+        try {
+          const language = searchParams.get('language');
+          const decks = await listDecks();
+          return NextResponse.json({
+            success: true,
+            decks: language && isDeckLanguage(language)
+              ? decks.filter(deck => deck.availableLanguages.includes(language))
+              : decks,
+          });
+        } catch (error) {
+          if (error instanceof DeckLibraryError) return deckErrorResponse(error);
+          throw error;
+        }
+
       case 'slide_list':
         const slideFile = searchParams.get('slideFile') || 'engineer-cafe';
         const marpTool = navigator.getTool('marpRenderer');
@@ -275,13 +369,9 @@ export async function GET(request: NextRequest) {
           );
         }
 
-        const autoPlay = await slideNarrator.memory.get('autoPlay') || false;
-        const interval = await slideNarrator.memory.get('autoPlayInterval') || 30000;
-        
         return NextResponse.json({
           success: true,
-          autoPlay,
-          interval,
+          autoPlay: slideNarrator.getAutoPlayStatus(),
         });
 
       default:
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LANGUAGE, parseLanguage } from '@/lib/languages';
+import { translateForVisitor } from '@/lib/translation';
+import { SupportedLanguage } from '@/mastra/types/config';
+import {
+  getVisitorRegistrationService,
+  VISITOR_CONSENT_VERSION,
+  VisitorError,
+  visitorQrPayload,
+  visitorReadBackMessage,
+  visitorWelcomeMessage,
+} from '@/lib/visitor-registration';
+
+/**
+ * Kiosk visitor registration and check-in.
+ *
+ * POST `{ "action": "read_back", name, affiliation?, purpose?, language }`
+ *   returns the confirmation the avatar reads before registering.
+ * POST `{ "action": "register", name, affiliation?, purpose?, language, consent }`
+ *   registers a first-time visitor and issues their visitor code.
+ * POST `{ "action": "check_in", code, language, consent? }`
+ *   checks in a returning visitor by code or scanned QR payload.
+ *
+ * Register and check-in return the arrival notice the kiosk forwards to
+ * reception. GET returns the consent notice version and retention period.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const language: SupportedLanguage = parseLanguage(body.language) || DEFAULT_LANGUAGE;
+  const service = getVisitorRegistrationService();
+
+  try {
+    switch (body.action) {
+      case 'read_back': {
+        const message = visitorReadBackMessage({
+          name: String(body.name || ''),
+          affiliation: body.affiliation,
+          purpose: body.purpose,
+        }, language);
+        return NextResponse.json({ success: true, message: await translateForVisitor(message, language) });
+      }
+
+      case 'register':
+      case 'check_in': {
+        const result = body.action === 'register'
+          ? await service.register({
+            name: String(body.name || ''),
+            affiliation: body.affiliation,
+            purpose: body.purpose,
+            language,
+            consent: body.consent === true,
+          })
+          : await service.checkIn({
+            code: String(body.code || ''),
+            language,
+            consent: body.consent === true,
+          });
+
+        return NextResponse.json({
+          success: true,
+          visitor: {
+            id: result.visitor.id,
+            visitorCode: result.visitor.visitorCode,
+            name: result.visitor.name,
+            visitCount: result.visitor.visitCount,
+          },
+          qrPayload: visitorQrPayload(result.visitor.visitorCode),
+          returning: result.returning,
+          conversationSessionId: result.conversationSessionId,
+          arrival: result.arrival,
+          message: await translateForVisitor(visitorWelcomeMessage(result, language), language),
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'action must be read_back, register or check_in' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof VisitorError) {
+      return NextResponse.json(
+        { error: error.message, consentRequired: error.status === 409 },
+        { status: error.status }
+      );
+    }
+    console.error('Visitor registration failed:', error);
+    return NextResponse.json(
+      { error: 'Visitor registration failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    consentVersion: VISITOR_CONSENT_VERSION,
+    retentionDays: getVisitorRegistrationService().retentionDays,
+  });
+}
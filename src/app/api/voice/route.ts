@@ -1,6 +1,9 @@
 import { getEngineerCafeNavigator } from '@/mastra';
 import { Config } from '@/mastra/types/config';
 import { NextRequest, NextResponse } from 'next/server';
+import { VOICE_STREAM_CONTENT_TYPE, VoiceStreamEvent, createVoiceStreamBody } from '@/lib/voice-stream';
+import { DEFAULT_LANGUAGE, parseLanguage } from '@/lib/languages';
+import { isConversationSessionId } from '@/lib/supabase-memory';
 
 // Configuration (in production, load from environment variables)
 const config: Config = {
@@ -30,6 +33,19 @@ const config: Config = {
   },
 };
 
+/**
+ * NDJSON response for stream: true requests; one event per line
+ */
+function voiceStreamResponse(events: AsyncIterable<VoiceStreamEvent>) {
+  return new NextResponse(createVoiceStreamBody(events), {
+    headers: {
+      'Content-Type': VOICE_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Parse and log request body
@@ -62,11 +78,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { action, audioData, sessionId, language, text } = body;
+    const { action, audioData, sessionId, text } = body;
+    // Accepts locales and aliases (ko-KR, zh-Hant); unsupported values are dropped
+    const language = parseLanguage(body.language) || undefined;
+    // Chunked NDJSON responses (see src/lib/voice-stream.ts) instead of one JSON body
+    const streamResponse = body.stream === true;
+    // Short-term memory is isolated per visitor session
+    const memoryScope = sessionId ? { sessionId, visitorId: body.visitorId } : undefined;
 
     switch (action) {
       case 'start_session': {
-        const newSessionId = await realtimeAgent.startSession(body.visitorId, body.language || 'ja');
+        // sessionId, if given, is the caller's previous session and is closed as replaced
+        const newSessionId = await realtimeAgent.startSession(body.visitorId, language || DEFAULT_LANGUAGE, sessionId);
         return NextResponse.json({
           success: true,
           sessionId: newSessionId,
@@ -83,7 +106,7 @@ export async function POST(request: NextRequest) {
         }
         // Convert base64 audio to ArrayBuffer
         const audioBuffer = Buffer.from(audioData, 'base64').buffer;
-        const result = await realtimeAgent.speechToText(audioBuffer, language || 'ja');
+        const result = await realtimeAgent.speechToText(audioBuffer, language || DEFAULT_LANGUAGE);
         return NextResponse.json({
           success: result.success,
           transcript: result.transcript,
@@ -101,30 +124,33 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        // Ensure session is active
-        if (sessionId && !realtimeAgent.getCurrentSessionId()) {
-          await realtimeAgent.startSession(undefined, language || 'ja');
-        }
         // If transcript already provided (optional field), pass undefined to avoid duplicate STT
+        if (text && text.trim() && streamResponse) {
+          return voiceStreamResponse(realtimeAgent.streamTextInput(text, memoryScope));
+        }
         if (text && text.trim()) {
-          const result = await realtimeAgent.processTextInput(text);
+          const result = await realtimeAgent.processTextInput(text, memoryScope);
           const audioResponseBase64 = Buffer.from(result.audioResponse!).toString('base64');
           return NextResponse.json({
             success: true,
             transcript: text,
             response: result.response,
             audioResponse: audioResponseBase64,
+            visemes: result.visemes,
             shouldUpdateCharacter: result.shouldUpdateCharacter,
             characterAction: result.characterAction,
             emotion: result.emotion,
             primaryEmotion: result.primaryEmotion,
-            sessionId: realtimeAgent.getCurrentSessionId(),
+            sessionId: sessionId ?? null,
           });
         }
 
         // Convert base64 audio to ArrayBuffer and let agent handle STT internally
         const audioBuffer = Buffer.from(audioData, 'base64').buffer;
-        const result = await realtimeAgent.processVoiceInput(audioBuffer, language || 'ja');
+        if (streamResponse) {
+          return voiceStreamResponse(realtimeAgent.streamVoiceInput(audioBuffer, language || DEFAULT_LANGUAGE, memoryScope));
+        }
+        const result = await realtimeAgent.processVoiceInput(audioBuffer, language || DEFAULT_LANGUAGE, memoryScope);
         
         // Check if audioResponse is valid before accessing its properties
         if (!result.audioResponse || !(result.audioResponse instanceof ArrayBuffer)) {
@@ -158,22 +184,36 @@ export async function POST(request: NextRequest) {
           response: result.response,
           responseText: result.response, // Add for compatibility with page.tsx
           audioResponse: audioResponseBase64,
+          visemes: result.visemes,
           shouldUpdateCharacter: result.shouldUpdateCharacter,
           characterAction: result.characterAction,
           emotion: result.emotion,
           primaryEmotion: result.primaryEmotion, // Add primaryEmotion from agent
           emotionTags: result.emotionTags, // Add emotion tags
-          sessionId: realtimeAgent.getCurrentSessionId(),
+          sessionId: sessionId ?? null,
         });
       }
       case 'end_session': {
-        await realtimeAgent.endSession();
+        // Only the session the caller names, never another visitor's
+        if (!isConversationSessionId(sessionId)) {
+          return NextResponse.json(
+            { error: 'Missing or invalid field: sessionId' },
+            { status: 400 }
+          );
+        }
+        await realtimeAgent.endSession(sessionId);
         return NextResponse.json({
           success: true,
           message: 'Session ended',
         });
       }
       case 'set_language': {
+        if (!language) {
+          return NextResponse.json(
+            { success: false, error: `Unsupported language: ${body.language}` },
+            { status: 400 }
+          );
+        }
         await realtimeAgent.setLanguage(language);
         const languageTool = navigator.getTool('languageSwitch');
         if (languageTool) {
@@ -202,7 +242,7 @@ export async function POST(request: NextRequest) {
         });
       }
       case 'clear_conversation': {
-        await realtimeAgent.clearConversationHistory();
+        await realtimeAgent.clearConversationHistory(memoryScope);
         await realtimeAgent.setConversationState('idle');
         return NextResponse.json({
           success: true,
@@ -210,17 +250,14 @@ export async function POST(request: NextRequest) {
         });
       }
       case 'handle_interruption': {
-        await realtimeAgent.handleInterruption();
+        const interrupted = await realtimeAgent.handleInterruption();
         return NextResponse.json({
           success: true,
-          message: 'Interruption handled',
+          interrupted,
+          message: interrupted ? 'Interruption handled' : 'Interruptions are disabled',
         });
       }
       case 'text_to_speech': {
-        // Ensure session is active for TTS
-        if (sessionId && !realtimeAgent.getCurrentSessionId()) {
-          await realtimeAgent.startSession(undefined, language || 'ja');
-        }
         // Set language for TTS
         if (language) {
           await realtimeAgent.setLanguage(language);
@@ -228,10 +265,10 @@ export async function POST(request: NextRequest) {
         // Generate TTS audio
         const ttsResult = await realtimeAgent.generateTTSAudio(text);
         console.log('[Voice API] Converting TTS result to base64:', {
-          ttsResultType: typeof ttsResult,
-          ttsResultSize: ttsResult instanceof ArrayBuffer ? ttsResult.byteLength : 'Not ArrayBuffer'
+          ttsResultType: typeof ttsResult.audio,
+          ttsResultSize: ttsResult.audio instanceof ArrayBuffer ? ttsResult.audio.byteLength : 'Not ArrayBuffer'
         });
-        const ttsAudioBase64 = Buffer.from(ttsResult).toString('base64');
+        const ttsAudioBase64 = Buffer.from(ttsResult.audio).toString('base64');
         console.log('[Voice API] TTS Base64 conversion result:', {
           base64Length: ttsAudioBase64.length,
           base64Prefix: ttsAudioBase64.substring(0, 50),
@@ -240,6 +277,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           audioResponse: ttsAudioBase64,
+          visemes: ttsResult.visemes,
           text: text,
         });
       }
@@ -251,15 +289,14 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        // Ensure session is active
-        if (sessionId && !realtimeAgent.getCurrentSessionId()) {
-          await realtimeAgent.startSession(undefined, language || 'ja');
+        if (streamResponse) {
+          return voiceStreamResponse(realtimeAgent.streamTextInput(text, memoryScope));
         }
-        // Check if streaming is requested
+        // Legacy streaming: audio chunks collected into a single JSON response
         const useStreaming = body.streaming === true;
         if (useStreaming) {
           // Use streaming TTS for better responsiveness
-          const streamResult = await realtimeAgent.processTextInputStreaming(text);
+          const streamResult = await realtimeAgent.processTextInputStreaming(text, memoryScope);
           // Collect audio chunks into array for response
           const audioChunks: string[] = [];
           for await (const chunk of streamResult.audioChunks) {
@@ -275,33 +312,37 @@ export async function POST(request: NextRequest) {
             characterAction: streamResult.characterAction,
             emotion: streamResult.emotion,
             primaryEmotion: streamResult.primaryEmotion,
-            sessionId: realtimeAgent.getCurrentSessionId(),
+            sessionId: sessionId ?? null,
             streaming: true,
           });
         } else {
           // Use regular processing
-          const result = await realtimeAgent.processTextInput(text);
+          const result = await realtimeAgent.processTextInput(text, memoryScope);
           const audioResponseBase64 = Buffer.from(result.audioResponse).toString('base64');
           return NextResponse.json({
             success: true,
             transcript: text,
             response: result.response,
             audioResponse: audioResponseBase64,
+            visemes: result.visemes,
             shouldUpdateCharacter: result.shouldUpdateCharacter,
             characterAction: result.characterAction,
             emotion: result.emotion,
             primaryEmotion: result.primaryEmotion,
-            sessionId: realtimeAgent.getCurrentSessionId(),
+            sessionId: sessionId ?? null,
           });
         }
       }
       case 'detect_language': {
         const languageSwitch = navigator.getTool('languageSwitch');
         if (languageSwitch) {
-          const detection = await languageSwitch.execute({
-            action: 'detectLanguage',
-            text,
-          });
+          // With autoSwitch the session follows text that is clearly in another language
+          const detection = body.autoSwitch
+            ? await languageSwitch.autoDetectAndSwitch(text)
+            : await languageSwitch.execute({ action: 'detectLanguage', text });
+          if (detection.success && detection.result?.autoSwitched) {
+            await realtimeAgent.setLanguage(detection.result.currentLanguage);
+          }
           return NextResponse.json({
             success: detection.success,
             result: detection.result,
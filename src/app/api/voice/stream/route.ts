@@ -0,0 +1,93 @@
+import { DEFAULT_LANGUAGE, parseLanguage } from '@/lib/languages';
+import { getEngineerCafeNavigator } from '@/mastra';
+import { Config } from '@/mastra/types/config';
+import { recognitionSessions } from '@/mastra/voice/recognition-sessions';
+import { NextRequest, NextResponse } from 'next/server';
+import { RecognitionStreamEvent, VOICE_STREAM_CONTENT_TYPE, createVoiceStreamBody } from '@/lib/voice-stream';
+
+// Configuration (in production, load from environment variables)
+const config: Config = {
+  googleCloud: {
+    projectId: process.env.GOOGLE_CLOUD_PROJECT_ID!,
+    credentials: process.env.GOOGLE_CLOUD_CREDENTIALS!,
+    translateApiKey: process.env.GOOGLE_TRANSLATE_API_KEY,
+  },
+  gemini: {
+    apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY!,
+    model: process.env.GEMINI_MODEL || 'gemini-2.5-flash-preview-05-20',
+  },
+  database: {
+    url: process.env.POSTGRES_URL!,
+  },
+  nextAuth: {
+    url: process.env.NEXTAUTH_URL!,
+    secret: process.env.NEXTAUTH_SECRET!,
+  },
+  vercel: process.env.VERCEL_URL ? {
+    url: process.env.VERCEL_URL,
+  } : undefined,
+  external: {
+    websocketUrl: process.env.WEBSOCKET_URL,
+    receptionApiUrl: process.env.RECEPTION_API_URL,
+  },
+};
+
+/**
+ * Streaming speech recognition.
+ * start: opens a session; the response stays open and streams NDJSON
+ *        recognition events (ready, partial, final, endpoint, error)
+ * audio: appends a base64 audio frame (WebM/Opus timeslice) to a session
+ * end:   the visitor stopped speaking; the final transcript follows on the
+ *        start response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, streamId, audioData, language } = body;
+
+    switch (action) {
+      case 'start': {
+        const navigator = getEngineerCafeNavigator(config);
+        const events = recognitionSessions.open(navigator.getVoiceService(), parseLanguage(language) || DEFAULT_LANGUAGE);
+        return new NextResponse(createVoiceStreamBody<RecognitionStreamEvent>(events), {
+          headers: {
+            'Content-Type': VOICE_STREAM_CONTENT_TYPE,
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Accel-Buffering': 'no',
+          },
+        });
+      }
+      case 'audio': {
+        if (!streamId || !audioData) {
+          return NextResponse.json(
+            { error: 'Missing required fields: streamId, audioData' },
+            { status: 400 }
+          );
+        }
+        const accepted = recognitionSessions.pushAudio(streamId, Buffer.from(audioData, 'base64'));
+        // 410 tells the client to stop sending; the session ended or timed out
+        return NextResponse.json({ success: accepted }, { status: accepted ? 200 : 410 });
+      }
+      case 'end': {
+        if (!streamId) {
+          return NextResponse.json(
+            { error: 'Missing required field: streamId' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: recognitionSessions.end(streamId) });
+      }
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Voice stream API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
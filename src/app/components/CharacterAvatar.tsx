@@ -2,7 +2,7 @@
 
 import { EmotionData, EmotionManager } from '@/lib/emotion-manager';
 import { ExpressionController } from '@/lib/expression-controller';
-import { LipSyncAnalyzer } from '@/lib/lip-sync-analyzer';
+import { LipSyncAnalyzer, LipSyncFrame } from '@/lib/lip-sync-analyzer';
 import { VRMBlendShapeController, VRMUtils } from '@/lib/vrm-utils';
 import { VRM, VRMLoaderPlugin } from '@pixiv/three-vrm';
 import { VRMAnimationLoaderPlugin, createVRMAnimationClip } from '@pixiv/three-vrm-animation';
@@ -629,18 +629,10 @@ useEffect(() => {
       // Create viseme control function
       const setViseme = (viseme: string, intensity: number) => {
         if (blendShapeControllerRef.current) {
-          // Map viseme to VRM expression name
-          const visemeMap: Record<string, string> = {
-            'A': 'aa',
-            'I': 'ih',
-            'U': 'ou',
-            'E': 'ee',
-            'O': 'oh',
-            'Closed': 'neutral'
-          };
-          
-          const vrmExpression = visemeMap[viseme] || 'neutral';
-          blendShapeControllerRef.current.setViseme(vrmExpression, intensity);
+          blendShapeControllerRef.current.applyLipSyncFrame({
+            mouthShape: viseme as LipSyncFrame['mouthShape'],
+            mouthOpen: intensity,
+          });
         } else {
           console.warn('[CharacterAvatar] BlendShape controller not available');
         }
@@ -2,48 +2,26 @@
 
 import React from 'react';
 import { Sun, Lightbulb, Zap } from 'lucide-react';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from '@/lib/languages';
+import { uiText } from '@/lib/ui-messages';
 
 interface EnvironmentSettingsProps {
   lightingIntensity: number;
   onLightingChange: (intensity: number) => void;
-  language?: 'ja' | 'en';
+  language?: SupportedLanguage;
 }
 
 export default function EnvironmentSettings({
   lightingIntensity,
   onLightingChange,
-  language = 'ja'
+  language = DEFAULT_LANGUAGE
 }: EnvironmentSettingsProps) {
-  const text = {
-    ja: {
-      title: 'ライティング設定',
-      intensity: 'ライティング強度',
-      presets: {
-        dim: '暗い',
-        normal: '標準',
-        bright: '明るい',
-        studio: 'スタジオ'
-      }
-    },
-    en: {
-      title: 'Lighting Settings',
-      intensity: 'Lighting Intensity',
-      presets: {
-        dim: 'Dim',
-        normal: 'Normal',
-        bright: 'Bright',
-        studio: 'Studio'
-      }
-    }
-  };
-
-  const t = text[language];
 
   const lightingPresets = [
-    { label: t.presets.dim, value: 0.5, icon: <Sun className="w-3 h-3" /> },
-    { label: t.presets.normal, value: 1.0, icon: <Lightbulb className="w-3 h-3" /> },
-    { label: t.presets.bright, value: 1.5, icon: <Zap className="w-3 h-3" /> },
-    { label: t.presets.studio, value: 2.0, icon: <Sun className="w-3 h-3" /> },
+    { label: uiText('lighting.dim', language), value: 0.5, icon: <Sun className="w-3 h-3" /> },
+    { label: uiText('lighting.normal', language), value: 1.0, icon: <Lightbulb className="w-3 h-3" /> },
+    { label: uiText('lighting.bright', language), value: 1.5, icon: <Zap className="w-3 h-3" /> },
+    { label: uiText('lighting.studio', language), value: 2.0, icon: <Sun className="w-3 h-3" /> },
   ];
 
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -57,13 +35,13 @@ export default function EnvironmentSettings({
     <div className="bg-white rounded-lg p-4 shadow-sm">
       <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
         <Lightbulb className="w-4 h-4" />
-        {t.title}
+        {uiText('lighting.title', language)}
       </h3>
 
       {/* Intensity Slider */}
       <div className="mb-4">
         <label className="block text-xs font-medium text-gray-700 mb-2">
-          {t.intensity}: {Math.round(lightingIntensity * 100)}%
+          {uiText('lighting.intensity', language)}: {Math.round(lightingIntensity * 100)}%
         </label>
         <input
           type="range"
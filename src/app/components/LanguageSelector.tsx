@@ -2,29 +2,20 @@
 
 import React, { useState, useEffect } from 'react';
 import { Globe, Check, Loader2 } from 'lucide-react';
+import { DEFAULT_LANGUAGE, getLanguageConfigs, LanguageConfig, SupportedLanguage } from '@/lib/languages';
 
-interface Language {
-  code: 'ja' | 'en';
-  name: string;
-  englishName: string;
-  flag: string;
-  voice: {
-    male: string;
-    female: string;
-    default: string;
-  };
-}
+type Language = Pick<LanguageConfig, 'code' | 'name' | 'englishName' | 'flag'>;
 
 interface LanguageSelectorProps {
-  currentLanguage?: 'ja' | 'en';
-  onLanguageChange?: (language: 'ja' | 'en') => void;
+  currentLanguage?: SupportedLanguage;
+  onLanguageChange?: (language: SupportedLanguage) => void;
   showFlags?: boolean;
   showDropdown?: boolean;
   disabled?: boolean;
 }
 
 export default function LanguageSelector({
-  currentLanguage = 'ja',
+  currentLanguage = DEFAULT_LANGUAGE,
   onLanguageChange,
   showFlags = true,
   showDropdown = true,
@@ -33,7 +24,7 @@ export default function LanguageSelector({
   const [isOpen, setIsOpen] = useState(false);
   const [isChanging, setIsChanging] = useState(false);
   const [languages, setLanguages] = useState<Language[]>([]);
-  const [selectedLanguage, setSelectedLanguage] = useState<'ja' | 'en'>(currentLanguage);
+  const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage>(currentLanguage);
   const [error, setError] = useState<string | null>(null);
 
   // Load available languages
@@ -55,38 +46,15 @@ export default function LanguageSelector({
         const languageData = result.result.details;
         const supportedLanguages = result.result.supported;
 
-        const languageList: Language[] = supportedLanguages.map((code: string) => ({
+        const languageList: Language[] = supportedLanguages.map((code: SupportedLanguage) => ({
           code,
           ...languageData[code],
         }));
 
         setLanguages(languageList);
       } else {
-        // Fallback to default languages
-        setLanguages([
-          {
-            code: 'ja',
-            name: '日本語',
-            englishName: 'Japanese',
-            flag: '🇯🇵',
-            voice: {
-              male: 'ja-JP-Neural2-C',
-              female: 'ja-JP-Neural2-B',
-              default: 'ja-JP-Neural2-B',
-            },
-          },
-          {
-            code: 'en',
-            name: 'English',
-            englishName: 'English',
-            flag: '🇺🇸',
-            voice: {
-              male: 'en-US-Neural2-D',
-              female: 'en-US-Neural2-F',
-              default: 'en-US-Neural2-F',
-            },
-          },
-        ]);
+        // Fallback to the languages bundled with the app
+        setLanguages(getLanguageConfigs());
       }
     } catch (error) {
       console.error('Error loading languages:', error);
@@ -94,7 +62,7 @@ export default function LanguageSelector({
     }
   };
 
-  const handleLanguageChange = async (language: 'ja' | 'en') => {
+  const handleLanguageChange = async (language: SupportedLanguage) => {
     if (language === selectedLanguage || disabled || isChanging) return;
 
     try {
@@ -2,8 +2,12 @@
 
 import { useKeyboardControls } from '@/app/hooks/useKeyboardControls';
 import { audioStateManager } from '@/lib/audio-state-manager';
-import { ChevronLeft, Keyboard, MessageCircle, Pause, Play, RotateCcw, Settings } from 'lucide-react';
+import { DEFAULT_LANGUAGE, parseLanguage, SupportedLanguage } from '@/lib/languages';
+import { uiText } from '@/lib/ui-messages';
+import Image from 'next/image';
+import { ChevronLeft, Keyboard, LayoutGrid, MessageCircle, Pause, Play, RotateCcw, Settings } from 'lucide-react';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { DeckSummary } from '@/lib/deck-library';
 import SlideDebugPanel from './SlideDebugPanel';
 
 interface SlideData {
@@ -34,6 +38,27 @@ interface NarrationData {
   }>;
 }
 
+/** Step handed out by /api/slides while auto-play runs */
+interface AutoPlayStepResponse {
+  stepId: number;
+  type: 'slide' | 'end';
+  slideNumber: number;
+  narration: string;
+  transitionMessage?: string;
+  audioResponse: string | null;
+  characterAction?: string;
+  endAction?: 'loop' | 'welcome';
+}
+
+interface AutoPlayResponse {
+  success: boolean;
+  step: AutoPlayStepResponse | null;
+  autoPlay?: {
+    state: 'stopped' | 'playing' | 'paused';
+    interval: number;
+  };
+}
+
 interface PresentationSettings {
   autoAdvance: boolean;
   narrationSpeed: number;
@@ -44,9 +69,15 @@ interface PresentationSettings {
 
 interface MarpViewerProps {
   slideFile?: string;
-  language?: 'ja' | 'en';
+  language?: SupportedLanguage;
   autoPlay?: boolean;
+  /** After the last slide: start over, or end the presentation */
+  endBehavior?: 'loop' | 'welcome';
   onSlideChange?: (slideNumber: number) => void;
+  /** Called when a deck is picked from the deck library */
+  onDeckChange?: (deckId: string) => void;
+  /** Called when auto-play finishes the deck with endBehavior 'welcome' */
+  onPresentationEnd?: () => void;
   onQuestionAsked?: (question: string) => void;
   onVisemeControl?: ((viseme: string, intensity: number) => void) | null;
   onExpressionControl?: ((expression: string, weight: number) => void) | null;
@@ -55,9 +86,12 @@ interface MarpViewerProps {
 
 export default function MarpViewer({ 
   slideFile = 'engineer-cafe',
-  language = 'ja',
+  language = DEFAULT_LANGUAGE,
   autoPlay = false,
+  endBehavior = 'welcome',
   onSlideChange,
+  onDeckChange,
+  onPresentationEnd,
   onQuestionAsked,
   onVisemeControl,
   onExpressionControl,
@@ -65,7 +99,9 @@ export default function MarpViewer({
 }: MarpViewerProps) {
   const [slides, setSlides] = useState<SlideData[]>([]);
   const [narrationData, setNarrationData] = useState<NarrationData | null>(null);
-  const [currentLanguage, setCurrentLanguage] = useState<'ja' | 'en'>(language);
+  const [currentLanguage, setCurrentLanguage] = useState<SupportedLanguage>(language);
+  const [currentDeck, setCurrentDeck] = useState(slideFile);
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
   const [currentSlide, setCurrentSlide] = useState(1);
   const [totalSlides, setTotalSlides] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -73,6 +109,7 @@ export default function MarpViewer({
   const [renderedHtml, setRenderedHtml] = useState<string>('');
   const [isPlaying, setIsPlaying] = useState(autoPlay);
   const [showNotes, setShowNotes] = useState(false);
+  const [showSlideList, setShowSlideList] = useState(false);
   const [questionMode, setQuestionMode] = useState(false);
   const [questionText, setQuestionText] = useState('');
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
@@ -114,7 +151,10 @@ export default function MarpViewer({
   const [lipSyncCacheStats, setLipSyncCacheStats] = useState<any>(null);
 
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const autoPlayTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped on every start, stop and pause so a running auto-play loop exits
+  const autoPlaySessionRef = useRef(0);
+  const serverAutoPlayRef = useRef(false);
+  const autoPlayIntervalRef = useRef(30000);
   const abortControllerRef = useRef<AbortController | null>(null);
   const narrationAbortControllerRef = useRef<AbortController | null>(null);
   const currentRequestIdRef = useRef<string>('');
@@ -132,55 +172,26 @@ export default function MarpViewer({
     setIsNarrationInProgress(false);
   };
 
-  // Error recovery with retry logic
-  const narrateWithRetry = async (retries = 3) => {
-    for (let i = 0; i < retries; i++) {
-      try {
-        await narrateCurrentSlide();
-        setRetryCount(0);
-        break;
-      } catch (error) {
-        // Narration attempt failed, retrying
-        setRetryCount(i + 1);
-        
-        if (i === retries - 1) {
-          trackPresentationEvent('narration_failed', {
-            slideNumber: currentSlide,
-            attempts: retries,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          
-          const shouldContinue = window.confirm(
-            currentLanguage === 'ja' 
-              ? 'ナレーションが利用できません。音声なしで続行しますか？' 
-              : 'Narration unavailable. Continue without audio?'
-          );
-          
-          if (shouldContinue && isPlaying && currentSlide < totalSlides) {
-            setTimeout(() => {
-              resetNarrationFlags();
-              setCurrentSlide(prev => {
-                const nextSlide = prev + 1;
-                onSlideChange?.(nextSlide);
-                return nextSlide;
-              });
-            }, 1000);
-          }
-        } else {
-          await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
-        }
-      }
-    }
-  };
+  useEffect(() => {
+    setCurrentDeck(slideFile);
+  }, [slideFile]);
+
+  // Decks that can be presented in the current language, for the deck picker
+  useEffect(() => {
+    fetch(`/api/slides?action=list_decks&language=${currentLanguage}`)
+      .then(response => response.json())
+      .then(result => setDecks(result.success ? result.decks : []))
+      .catch(error => console.error('[MarpViewer] Failed to load deck library:', error));
+  }, [currentLanguage]);
 
-  // Load slides and narration data when slideFile or language prop changes
+  // Load slides and narration data when the deck or language changes
   useEffect(() => {
     if (process.env.NODE_ENV !== 'production') {
       // Loading slides for current language
     }
-    // Always load slide data when slideFile or language changes
+    // Always load slide data when the deck or language changes
     loadSlideData(currentLanguage);
-  }, [slideFile, currentLanguage]); // Remove loadSlideData from dependencies to avoid circular reference
+  }, [currentDeck, currentLanguage]); // Remove loadSlideData from dependencies to avoid circular reference
 
   // Track slide view duration
   useEffect(() => {
@@ -197,10 +208,9 @@ export default function MarpViewer({
     };
   }, [currentSlide]);
 
-  // Auto-play functionality with narration
+  // Auto-play is driven by the server: start it when playback is switched on
   useEffect(() => {
-    if (isPlaying && totalSlides > 0 && !isNarrating && !isNarrationInProgress) {
-      // Auto-play triggered
+    if (isPlaying && totalSlides > 0) {
       if (!presentationStartTime) {
         setPresentationStartTime(Date.now());
         trackPresentationEvent('presentation_started', {
@@ -209,15 +219,13 @@ export default function MarpViewer({
           autoPlay: true
         });
       }
-      narrateWithRetry();
+      startServerAutoPlay();
     } else if (!isPlaying) {
       stopAutoPlay();
-    } else {
-      // Auto-play skipped - already playing
     }
 
     return () => stopAutoPlay();
-  }, [isPlaying, currentSlide, totalSlides]);
+  }, [isPlaying, totalSlides]);
 
   // Save settings to localStorage whenever they change
   useEffect(() => {
@@ -255,11 +263,11 @@ export default function MarpViewer({
         }
         
         // Load slides with specified language
-        const eventLanguage = event.detail?.language || 'ja';
+        const eventLanguage = event.detail?.language || DEFAULT_LANGUAGE;
         // Auto-start presentation event received
         
         // Force update the current language state immediately
-        setCurrentLanguage(eventLanguage as 'ja' | 'en');
+        setCurrentLanguage(parseLanguage(eventLanguage) || DEFAULT_LANGUAGE);
         
         loadSlideData(eventLanguage).then(() => {
           // Slide data loaded, starting auto-play
@@ -328,7 +336,8 @@ export default function MarpViewer({
   }, [currentSlide, renderedHtml]);
 
 
-  const loadSlideData = useCallback(async (requestedLang: string = 'ja') => {
+  const loadSlideData = useCallback(async (lang: string = DEFAULT_LANGUAGE) => {
+    const requestedLang = parseLanguage(lang) || DEFAULT_LANGUAGE;
     // Cancel any existing request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -344,13 +353,13 @@ export default function MarpViewer({
       setIsLoading(true);
       setError(null);
       // Update language state
-      setCurrentLanguage(requestedLang as 'ja' | 'en');
+      setCurrentLanguage(requestedLang);
 
       // Clear previous HTML to avoid showing outdated slide deck
       setRenderedHtml('');
 
       // Determine the slide file path based on language
-      const languageSlideFile = requestedLang === 'en' ? `en/${slideFile}` : `ja/${slideFile}`;
+      const languageSlideFile = `${requestedLang}/${currentDeck}`;
       
       if (process.env.NODE_ENV !== 'production') {
         // Loading slides for language
@@ -529,136 +538,129 @@ export default function MarpViewer({
         setIsLoading(false);
       }
     }
-  }, [slideFile]); // Include slideFile as dependency
+  }, [currentDeck]); // Include the deck as dependency
 
 
-  const narrateCurrentSlide = async () => {
-    // Narrating current slide
-    
-    if (!isPlaying || isNarrating || isNarrationInProgress) {
-      // Skipping narration - already playing
-      return;
-    }
-    
-    setIsNarrationInProgress(true);
-    setIsNarrating(true);
-    
-    try {
-      let result: any = null;
-      
-      // Create new AbortController for this narration
-      narrationAbortControllerRef.current = new AbortController();
-      
-      // Determine the slide file path based on current language
-      const languageSlideFile = currentLanguage === 'en' ? `en/${slideFile}` : `ja/${slideFile}`;
-      
-      // Sending API request for slide
-      
-      const response = await fetch('/api/slides', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'narrate_current',
-          slideNumber: currentSlide,
-          slideFile: languageSlideFile, // Use language-specific slide file
-          language: currentLanguage, // Use current language state instead of prop
-        }),
-        signal: narrationAbortControllerRef.current.signal,
-      });
-      
-      // API response received
-      
-      // Check if response is ok
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-      
-      // Check if response is JSON
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        const textResponse = await response.text();
-        // Non-JSON response received
-        throw new Error('Invalid response format - expected JSON');
-      }
-      
-      result = await response.json();
-      
-      console.log(`[MarpViewer] API response for slide ${currentSlide}:`, {
-        hasAudioResponse: !!result.audioResponse,
-        audioResponseType: typeof result.audioResponse,
-        audioResponseLength: result.audioResponse?.length || 0,
-        resultKeys: Object.keys(result)
-      });
-      
-      if (result.audioResponse) {
-        try {
-          // Starting audio playback
-          
-          // Wait for audio playback to complete before advancing
-          await playAudioWithLipSync(result.audioResponse);
-          
-          // Audio playback completed
-          resetNarrationFlags();
-          
-          // Advance to next slide only after audio completion
-          if (isPlaying && currentSlide < totalSlides) {
-            setCurrentSlide(prev => {
-              const nextSlide = prev + 1;
-              onSlideChange?.(nextSlide);
-              return nextSlide;
-            });
-          } else if (currentSlide >= totalSlides) {
-            // Presentation completed
-            setIsPlaying(false);
-            trackPresentationEvent('presentation_completed', {
-              totalDuration: presentationStartTime ? Date.now() - presentationStartTime : 0
-            });
-          }
-        } catch (error: any) {
-          // Error during audio playback
-          
-          resetNarrationFlags();
-          
-          // Check if it's a user interaction required error
-          if (error?.type === 'user_interaction_required' || 
-              error?.requiresUserInteraction ||
-              error?.name === 'NotAllowedError' || 
-              error?.message?.includes('interaction')) {
-            // User interaction required
-            setShowAudioPermissionPrompt(true);
-            setIsPlaying(false); // Stop auto-play until user grants permission
-            return;
-          }
-          
-          // Continue to next slide even if audio fails (for other errors)
-          if (isPlaying && currentSlide < totalSlides) {
-            setTimeout(() => {
-              resetNarrationFlags();
-              setCurrentSlide(prev => {
-                const nextSlide = prev + 1;
-                onSlideChange?.(nextSlide);
-                return nextSlide;
-              });
-            }, 1000);
-          }
+  // POST an auto-play action, retrying network failures; the server owns the
+  // presentation state and hands out one step at a time
+  const sendAutoPlayAction = async (action: string, params: Record<string, unknown> = {}, retries = 3): Promise<AutoPlayResponse> => {
+    for (let i = 0; ; i++) {
+      try {
+        narrationAbortControllerRef.current = new AbortController();
+        const response = await fetch('/api/slides', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, ...params }),
+          signal: narrationAbortControllerRef.current.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`API request failed with status ${response.status}`);
         }
-        
+
+        const result = await response.json();
+        setRetryCount(0);
+        if (result.autoPlay?.interval) {
+          autoPlayIntervalRef.current = result.autoPlay.interval;
+        }
+        return result;
+      } catch (error) {
+        if ((error instanceof Error && error.name === 'AbortError') || i >= retries - 1) {
+          throw error;
+        }
+        setRetryCount(i + 1);
+        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
+      }
+    }
+  };
+
+  // Play steps until the server runs out or this session is stopped or paused.
+  // Each step is reported back only once its audio has actually finished.
+  const runAutoPlay = async (first: AutoPlayStepResponse | null, session: number) => {
+    let step = first;
+
+    while (step && autoPlaySessionRef.current === session) {
+      setIsNarrationInProgress(true);
+      setIsNarrating(true);
+
+      if (step.type === 'slide') {
+        setCurrentSlide(step.slideNumber);
+        onSlideChange?.(step.slideNumber);
         // Note: Expressions disabled for slide mode - only lip sync is used
-        // This provides natural presentation without distracting facial expressions
-        if (result?.characterAction) {
-          updateCharacterAction(result.characterAction);
+        if (step.characterAction) {
+          updateCharacterAction(step.characterAction);
         }
-      } else {
+      }
+
+      try {
+        if (step.audioResponse) {
+          await playAudioWithLipSync(step.audioResponse);
+        } else {
+          // No audio for this step: give visitors time to read the slide
+          await new Promise(resolve => setTimeout(resolve, autoPlayIntervalRef.current));
+        }
+      } catch (error: any) {
         resetNarrationFlags();
+        if (error?.type === 'user_interaction_required' ||
+            error?.requiresUserInteraction ||
+            error?.name === 'NotAllowedError' ||
+            error?.message?.includes('interaction')) {
+          // Stop auto-play until the user grants audio permission
+          setShowAudioPermissionPrompt(true);
+          setIsPlaying(false);
+          return;
+        }
+        // Other playback errors: carry on with the next step
       }
+
+      resetNarrationFlags();
+      if (autoPlaySessionRef.current !== session) return;
+
+      if (step.type === 'end') {
+        serverAutoPlayRef.current = false;
+        setIsPlaying(false);
+        trackPresentationEvent('presentation_completed', {
+          totalDuration: presentationStartTime ? Date.now() - presentationStartTime : 0
+        });
+        if (step.endAction === 'welcome') {
+          onPresentationEnd?.();
+        }
+        return;
+      }
+
+      const result = await sendAutoPlayAction('autoplay_next', { stepId: step.stepId });
+      step = result.step;
+    }
+  };
+
+  const startServerAutoPlay = async () => {
+    const session = ++autoPlaySessionRef.current;
+    const languageSlideFile = `${currentLanguage}/${currentDeck}`;
+
+    try {
+      const result = await sendAutoPlayAction('set_autoplay', {
+        enabled: true,
+        endBehavior,
+        slideNumber: currentSlide,
+        slideFile: languageSlideFile,
+        language: currentLanguage,
+      });
+      serverAutoPlayRef.current = true;
+      await runAutoPlay(result.step, session);
     } catch (error) {
-      // Check if the error is due to abort
       if (error instanceof Error && error.name === 'AbortError') {
-        console.log('[MarpViewer] Narration aborted by user action');
-      } else {
-        console.error('[MarpViewer] Error narrating slide:', error);
+        console.log('[MarpViewer] Auto-play request aborted by user action');
+        return;
+      }
+      console.error('[MarpViewer] Auto-play failed:', error);
+      trackPresentationEvent('narration_failed', {
+        slideNumber: currentSlide,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (autoPlaySessionRef.current === session) {
+        resetNarrationFlags();
+        setIsPlaying(false);
       }
-      resetNarrationFlags();
     }
   };
 
@@ -734,9 +736,14 @@ export default function MarpViewer({
       narrationAbortControllerRef.current = null;
     }
     
-    if (autoPlayTimerRef.current) {
-      clearTimeout(autoPlayTimerRef.current);
-      autoPlayTimerRef.current = null;
+    autoPlaySessionRef.current++;
+    if (serverAutoPlayRef.current) {
+      serverAutoPlayRef.current = false;
+      fetch('/api/slides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'set_autoplay', enabled: false }),
+      }).catch(error => console.error('[MarpViewer] Failed to stop server auto-play:', error));
     }
     resetNarrationFlags();
     audioStateManager.stopAll();
@@ -769,7 +776,7 @@ export default function MarpViewer({
       }
       
       // Determine the slide file path based on current language
-      const languageSlideFile = currentLanguage === 'en' ? `en/${slideFile}` : `ja/${slideFile}`;
+      const languageSlideFile = `${currentLanguage}/${currentDeck}`;
       
       const response = await fetch('/api/slides', {
         method: 'POST',
@@ -846,6 +853,34 @@ export default function MarpViewer({
     }
   };
 
+  const selectDeck = async (deckId: string) => {
+    if (deckId === currentDeck) return;
+
+    if (isPlaying) {
+      setIsPlaying(false);
+      stopAutoPlay();
+    }
+    setCurrentSlide(1);
+    setCurrentDeck(deckId);
+    onDeckChange?.(deckId);
+    onSlideChange?.(1);
+
+    try {
+      // Point the server-side narrator at the new deck
+      const response = await fetch('/api/slides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'select_deck', deckId, language: currentLanguage }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        console.error('[MarpViewer] Failed to select deck:', result.error);
+      }
+    } catch (error) {
+      console.error('[MarpViewer] Failed to select deck:', error);
+    }
+  };
+
   const toggleFullscreen = () => {
     if (!iframeRef.current) return;
     
@@ -1091,9 +1126,17 @@ export default function MarpViewer({
   const handleQuestionSubmit = async () => {
     if (!questionText.trim()) return;
 
+    // Cut the running narration; the server pauses auto-play while answering
+    const wasPlaying = isPlaying && serverAutoPlayRef.current;
+    if (wasPlaying) {
+      autoPlaySessionRef.current++;
+      audioStateManager.stopAll();
+      resetNarrationFlags();
+    }
+
     try {
       // Determine the slide file path based on current language
-      const languageSlideFile = currentLanguage === 'en' ? `en/${slideFile}` : `ja/${slideFile}`;
+      const languageSlideFile = `${currentLanguage}/${currentDeck}`;
       
       const response = await fetch('/api/slides', {
         method: 'POST',
@@ -1129,17 +1172,27 @@ export default function MarpViewer({
 
       if (result.success) {
         onQuestionAsked?.(questionText);
+        setQuestionText('');
+        setQuestionMode(false);
         
-        // Play answer audio if available
-        if (result.audioResponse) {
-          playNarrationAudio(result.audioResponse);
-        }
-
         // Show answer in some way (could be passed to parent component)
         console.log('Answer:', result.answer);
+
+        // Play answer audio if available, then pick the presentation back up
+        if (result.audioResponse) {
+          await playNarrationAudio(result.audioResponse);
+        }
+        if (wasPlaying && result.autoPlay?.state === 'paused') {
+          const session = ++autoPlaySessionRef.current;
+          const resumed = await sendAutoPlayAction('autoplay_resume');
+          await runAutoPlay(resumed.step, session);
+        }
       }
     } catch (error) {
       console.error('Error asking question:', error);
+      if (wasPlaying) {
+        setIsPlaying(false);
+      }
     } finally {
       setQuestionText('');
       setQuestionMode(false);
@@ -1152,7 +1205,7 @@ export default function MarpViewer({
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
           <p className="text-gray-600">
-            {currentLanguage === 'ja' ? 'スライドを読み込んでいます...' : 'Loading slides...'}
+            {uiText('slides.loading', currentLanguage)}
           </p>
         </div>
       </div>
@@ -1168,7 +1221,7 @@ export default function MarpViewer({
             onClick={() => loadSlideData(currentLanguage)}
             className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
           >
-            {currentLanguage === 'ja' ? '再試行' : 'Retry'}
+            {uiText('common.retry', currentLanguage)}
           </button>
         </div>
       </div>
@@ -1191,7 +1244,23 @@ export default function MarpViewer({
           <span className="text-sm font-medium text-gray-700">
             {currentSlide} / {totalSlides}
           </span>
-          
+
+          {/* Deck picker */}
+          {decks.length > 1 && (
+            <select
+              value={currentDeck}
+              onChange={(e) => selectDeck(e.target.value)}
+              className="ml-2 px-2 py-1 text-sm border border-gray-300 rounded bg-white text-gray-700"
+              title={uiText('slides.chooseDeck', currentLanguage)}
+            >
+              {decks.map((deck) => (
+                <option key={deck.id} value={deck.id}>
+                  {deck.title[currentLanguage] || Object.values(deck.title)[0] || deck.id}
+                  {deck.durationMinutes ? ` (${uiText('slides.duration', currentLanguage, { minutes: deck.durationMinutes })})` : ''}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
@@ -1211,7 +1280,7 @@ export default function MarpViewer({
             <div className="flex items-center space-x-2 px-3 py-1 bg-blue-100 rounded">
               <div className="animate-pulse w-2 h-2 bg-blue-500 rounded-full" />
               <span className="text-sm text-blue-700">
-                {currentLanguage === 'ja' ? 'ナレーション中...' : 'Narrating...'}
+                {uiText('slides.narrating', currentLanguage)}
               </span>
             </div>
           )}
@@ -1222,7 +1291,7 @@ export default function MarpViewer({
             className={`p-2 rounded transition-colors ${
               questionMode ? 'bg-orange-500 hover:bg-orange-600' : 'bg-gray-500 hover:bg-gray-600'
             } text-white`}
-            title={currentLanguage === 'ja' ? '質問する' : 'Ask Question'}
+            title={uiText('slides.askQuestion', currentLanguage)}
           >
             <MessageCircle className="w-4 h-4" />
           </button>
@@ -1231,11 +1300,22 @@ export default function MarpViewer({
           <button
             onClick={() => gotoSlide(1)}
             className="p-2 rounded bg-gray-500 text-white hover:bg-gray-600 transition-colors"
-            title={currentLanguage === 'ja' ? '最初から' : 'Start Over'}
+            title={uiText('slides.startOver', currentLanguage)}
           >
             <RotateCcw className="w-4 h-4" />
           </button>
 
+          {/* Slide list toggle */}
+          <button
+            onClick={() => setShowSlideList(!showSlideList)}
+            className={`p-2 rounded transition-colors ${
+              showSlideList ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+            title={uiText('slides.list', currentLanguage)}
+          >
+            <LayoutGrid className="w-4 h-4" />
+          </button>
+
           {/* Notes toggle */}
           <button
             onClick={() => setShowNotes(!showNotes)}
@@ -1243,7 +1323,7 @@ export default function MarpViewer({
               showNotes ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
           >
-            {language === 'ja' ? 'ノート' : 'Notes'}
+            {uiText('slides.notes', language)}
           </button>
 
           {/* Keyboard shortcuts help */}
@@ -1252,7 +1332,7 @@ export default function MarpViewer({
             className={`p-2 rounded transition-colors ${
               showKeyboardHelp ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
-            title={language === 'ja' ? 'キーボードショートカット' : 'Keyboard Shortcuts'}
+            title={uiText('slides.keyboardShortcuts', language)}
           >
             <Keyboard className="w-4 h-4" />
           </button>
@@ -1276,7 +1356,7 @@ export default function MarpViewer({
             className={`p-2 rounded transition-colors ${
               showSettings ? 'bg-purple-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
-            title={language === 'ja' ? '設定' : 'Settings'}
+            title={uiText('common.settings', language)}
           >
             <Settings className="w-4 h-4" />
           </button>
@@ -1291,7 +1371,7 @@ export default function MarpViewer({
               type="text"
               value={questionText}
               onChange={(e) => setQuestionText(e.target.value)}
-              placeholder={currentLanguage === 'ja' ? 'スライドについて質問してください...' : 'Ask a question about this slide...'}
+              placeholder={uiText('slides.questionPlaceholder', currentLanguage)}
               className="flex-1 px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               onKeyDown={(e) => e.key === 'Enter' && handleQuestionSubmit()}
             />
@@ -1300,12 +1380,39 @@ export default function MarpViewer({
               disabled={!questionText.trim()}
               className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300 hover:bg-blue-600 transition-colors"
             >
-              {currentLanguage === 'ja' ? '送信' : 'Send'}
+              {uiText('slides.send', currentLanguage)}
             </button>
           </div>
         </div>
       )}
 
+      {/* Slide list: PNG thumbnails rendered once by the export cache */}
+      {showSlideList && totalSlides > 0 && (
+        <div className="flex space-x-2 overflow-x-auto p-2 border-b bg-gray-50">
+          {Array.from({ length: totalSlides }, (_, index) => index + 1).map((slideNumber) => (
+            <button
+              key={slideNumber}
+              onClick={() => gotoSlide(slideNumber)}
+              className={`flex-shrink-0 w-32 rounded border-2 overflow-hidden bg-white ${
+                slideNumber === currentSlide ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+              }`}
+            >
+              {/* Already a cached PNG from the export, so the image optimizer is skipped */}
+              <Image
+                src={`/api/marp?action=thumbnail&deck=${currentDeck}&language=${currentLanguage}&slide=${slideNumber}`}
+                alt={`${slideNumber}`}
+                width={1280}
+                height={720}
+                unoptimized
+                className="w-full aspect-video object-cover"
+                onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+              />
+              <span className="block text-xs text-gray-600 py-1">{slideNumber}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Slide content */}
       <div className="flex-1 flex">
         {/* Main slide area */}
@@ -1357,7 +1464,7 @@ export default function MarpViewer({
           ) : (
             <div className="flex items-center justify-center h-full bg-gray-100">
               <p className="text-gray-500">
-                {language === 'ja' ? 'スライドが利用できません' : 'No slides available'}
+                {uiText('slides.noSlides', language)}
               </p>
             </div>
           )}
@@ -1368,7 +1475,7 @@ export default function MarpViewer({
           <div className="w-1/3 bg-gray-50 border-l flex flex-col">
             <div className="p-4 border-b bg-white">
               <h3 className="font-semibold">
-                {language === 'ja' ? 'スライドノート' : 'Slide Notes'}
+                {uiText('slides.slideNotes', language)}
               </h3>
             </div>
             
@@ -1391,7 +1498,7 @@ export default function MarpViewer({
               {narrationData && (
                 <div>
                   <h4 className="font-medium text-gray-800 mb-2">
-                    {language === 'ja' ? 'ナレーション' : 'Narration'}
+                    {uiText('slides.narration', language)}
                   </h4>
                   {narrationData.slides[currentSlide - 1] && (
                     <div className="space-y-2">
@@ -1423,12 +1530,12 @@ export default function MarpViewer({
               {/* Navigation hints */}
               <div>
                 <h4 className="font-medium text-gray-800 mb-2">
-                  {language === 'ja' ? 'ナビゲーション' : 'Navigation'}
+                  {uiText('slides.navigation', language)}
                 </h4>
                 <ul className="text-sm text-gray-600 space-y-1">
-                  <li>← → {language === 'ja' ? 'スライド移動' : 'Navigate slides'}</li>
-                  <li>Space {language === 'ja' ? '次のスライド' : 'Next slide'}</li>
-                  <li>R {language === 'ja' ? '最初から' : 'Reset'}</li>
+                  <li>← → {uiText('slides.navigate', language)}</li>
+                  <li>Space {uiText('slides.next', language)}</li>
+                  <li>R {uiText('slides.reset', language)}</li>
                 </ul>
               </div>
             </div>
@@ -1441,7 +1548,7 @@ export default function MarpViewer({
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md mx-4">
             <h3 className="font-bold text-lg mb-4">
-              {language === 'ja' ? 'キーボードショートカット' : 'Keyboard Shortcuts'}
+              {uiText('slides.keyboardShortcuts', language)}
             </h3>
             <div className="grid grid-cols-2 gap-3">
               {shortcuts.map((shortcut) => (
@@ -1459,7 +1566,7 @@ export default function MarpViewer({
               onClick={() => setShowKeyboardHelp(false)}
               className="mt-4 w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
             >
-              {language === 'ja' ? '閉じる' : 'Close'}
+              {uiText('common.close', language)}
             </button>
           </div>
         </div>
@@ -1478,25 +1585,23 @@ export default function MarpViewer({
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md mx-4">
             <h3 className="font-bold text-lg mb-4">
-              🔊 {language === 'ja' ? '音声再生の許可' : 'Audio Permission Required'}
+              🔊 {uiText('slides.audioPermissionTitle', language)}
             </h3>
             <p className="text-gray-700 mb-4">
-              {language === 'ja' 
-                ? 'ブラウザの設定により音声の自動再生がブロックされています。プレゼンテーションを開始するには音声再生を許可してください。' 
-                : 'Audio autoplay is blocked by your browser. Please allow audio playback to start the synchronized presentation.'}
+              {uiText('slides.audioPermissionBody', language)}
             </p>
             <div className="flex justify-end space-x-2">
               <button
                 onClick={() => setShowAudioPermissionPrompt(false)}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800"
               >
-                {language === 'ja' ? 'キャンセル' : 'Cancel'}
+                {uiText('common.cancel', language)}
               </button>
               <button
                 onClick={enableAudioAndStartPresentation}
                 className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
               >
-                🎵 {language === 'ja' ? '音声を有効にして開始' : 'Enable Audio & Start'}
+                🎵 {uiText('slides.enableAudio', language)}
               </button>
             </div>
           </div>
@@ -1508,7 +1613,7 @@ export default function MarpViewer({
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md mx-4 w-full">
             <h3 className="font-bold text-lg mb-4">
-              {language === 'ja' ? 'プレゼンテーション設定' : 'Presentation Settings'}
+              {uiText('slides.settingsTitle', language)}
             </h3>
             
             <div className="space-y-4">
@@ -1522,7 +1627,7 @@ export default function MarpViewer({
                     className="rounded"
                   />
                   <span className="text-sm">
-                    {language === 'ja' ? '自動進行' : 'Auto Advance'}
+                    {uiText('slides.autoAdvance', language)}
                   </span>
                 </label>
               </div>
@@ -1530,7 +1635,7 @@ export default function MarpViewer({
               {/* Narration Speed */}
               <div>
                 <label className="block text-sm font-medium mb-1">
-                  {language === 'ja' ? 'ナレーション速度' : 'Narration Speed'}: {settings.narrationSpeed}x
+                  {uiText('slides.narrationSpeed', language)}: {settings.narrationSpeed}x
                 </label>
                 <input
                   type="range"
@@ -1553,7 +1658,7 @@ export default function MarpViewer({
                     className="rounded"
                   />
                   <span className="text-sm">
-                    {language === 'ja' ? 'アニメーションをスキップ' : 'Skip Animations'}
+                    {uiText('slides.skipAnimations', language)}
                   </span>
                 </label>
               </div>
@@ -1568,18 +1673,18 @@ export default function MarpViewer({
                     className="rounded"
                   />
                   <span className="text-sm">
-                    {language === 'ja' ? 'リップシンク (遅くなります)' : 'Lip Sync (slower)'}
+                    {uiText('slides.lipSync', language)}
                   </span>
                 </label>
                 <div className="text-xs text-gray-500 mt-1">
-                  {language === 'ja' ? '口の動きを音声に合わせます。処理に4-8秒かかります。' : 'Synchronizes mouth movement with speech. Takes 4-8 seconds to process.'}
+                  {uiText('slides.lipSyncHelp', language)}
                 </div>
               </div>
 
               {/* Preload Count */}
               <div>
                 <label className="block text-sm font-medium mb-1">
-                  {language === 'ja' ? 'プリロード数' : 'Preload Count'}: {settings.preloadCount}
+                  {uiText('slides.preloadCount', language)}: {settings.preloadCount}
                 </label>
                 <input
                   type="range"
@@ -1591,14 +1696,14 @@ export default function MarpViewer({
                   className="w-full"
                 />
                 <div className="text-xs text-gray-500 mt-1">
-                  {language === 'ja' ? '次のスライドの音声を事前読み込み' : 'Preload audio for next slides'}
+                  {uiText('slides.preloadHelp', language)}
                 </div>
               </div>
 
               {/* Lip-sync Cache Management */}
               <div className="bg-blue-50 p-3 rounded text-xs">
                 <div className="font-medium mb-2">
-                  {language === 'ja' ? 'リップシンクキャッシュ' : 'Lip-sync Cache'}
+                  {uiText('slides.lipSyncCache', language)}
                 </div>
                 {lipSyncCacheStats ? (
                   <div className="space-y-1">
@@ -1624,14 +1729,14 @@ export default function MarpViewer({
                   }}
                   className="mt-2 w-full px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
                 >
-                  {language === 'ja' ? 'キャッシュクリア' : 'Clear Cache'}
+                  {uiText('slides.clearCache', language)}
                 </button>
               </div>
 
               {/* Performance Info */}
               <div className="bg-gray-50 p-3 rounded text-xs">
                 <div className="font-medium mb-1">
-                  {language === 'ja' ? 'パフォーマンス情報' : 'Performance Info'}
+                  {uiText('slides.performance', language)}
                 </div>
                 <div className="space-y-1">
                   <div>Audio Cache: {audioCache.size} slides</div>
@@ -1654,13 +1759,13 @@ export default function MarpViewer({
                 }}
                 className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
               >
-                {language === 'ja' ? 'リセット' : 'Reset'}
+                {uiText('common.reset', language)}
               </button>
               <button
                 onClick={() => setShowSettings(false)}
                 className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
               >
-                {language === 'ja' ? '閉じる' : 'Close'}
+                {uiText('common.close', language)}
               </button>
             </div>
           </div>
@@ -0,0 +1,427 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Mic, Square, X } from 'lucide-react';
+import type { SupportedLanguage } from '@/lib/languages';
+import { encodeQrCode, qrCodeSvgPath } from '@/lib/qr-code';
+import { uiText } from '@/lib/ui-messages';
+import type { VisitorArrival } from '@/lib/visitor-registration';
+import type { ReceptionSystemWebSocket } from '@/lib/websocket-manager';
+import type { VoiceRecorder } from '@/lib/voice-recorder';
+
+type Step = 'choose' | 'consent' | 'details' | 'confirm' | 'returning' | 'done';
+
+type Field = 'name' | 'affiliation' | 'purpose';
+
+const FIELDS: Field[] = ['name', 'affiliation', 'purpose'];
+
+interface CheckedIn {
+  visitorId: string;
+  visitorCode: string;
+  qrPayload: string;
+  returning: boolean;
+  /** conversation_sessions row linked to the visitor */
+  conversationSessionId: string | null;
+}
+
+interface VisitorCheckInProps {
+  language: SupportedLanguage;
+  /** Say a tagged message through the avatar */
+  onSpeak: (taggedText: string, language: SupportedLanguage) => Promise<void>;
+  onCheckedIn?: (result: CheckedIn) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 500;
+
+// One connection per page; arrivals sent while it is down are queued and
+// delivered when it reconnects
+let receptionSocket: ReceptionSystemWebSocket | null = null;
+
+async function notifyReception(arrival: VisitorArrival): Promise<void> {
+  const url = process.env.NEXT_PUBLIC_RECEPTION_WEBSOCKET_URL;
+  if (!url) return;
+
+  if (!receptionSocket) {
+    const { ReceptionSystemWebSocket } = await import('@/lib/websocket-manager');
+    receptionSocket = new ReceptionSystemWebSocket(url);
+  }
+  receptionSocket.notifyVisitorArrival(arrival);
+  if (!receptionSocket.isConnected()) {
+    receptionSocket.connect().catch(() => {
+      // Reception system offline; the notice stays queued for the reconnect
+    });
+  }
+}
+
+export default function VisitorCheckIn({ language, onSpeak, onCheckedIn, onClose }: VisitorCheckInProps) {
+  const [step, setStep] = useState<Step>('choose');
+  const [retentionDays, setRetentionDays] = useState(365);
+  const [details, setDetails] = useState<Record<Field, string>>({ name: '', affiliation: '', purpose: '' });
+  const [code, setCode] = useState('');
+  const [checkedIn, setCheckedIn] = useState<CheckedIn | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  // A returning visitor whose consent predates the current notice agrees again
+  const [renewingConsent, setRenewingConsent] = useState(false);
+  const [listeningField, setListeningField] = useState<Field | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    fetch('/api/visitors')
+      .then(response => response.json())
+      .then(result => {
+        if (result.retentionDays) setRetentionDays(result.retentionDays);
+      })
+      .catch(() => {
+        // Keep the default in the notice
+      });
+    return () => recorderRef.current?.cleanup();
+  }, []);
+
+  const post = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/visitors', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, language }),
+    });
+    return { status: response.status, result: await response.json() };
+  };
+
+  const finish = async (result: any) => {
+    const done: CheckedIn = {
+      visitorId: result.visitor.id,
+      visitorCode: result.visitor.visitorCode,
+      qrPayload: result.qrPayload,
+      returning: result.returning,
+      conversationSessionId: result.conversationSessionId,
+    };
+    setCheckedIn(done);
+    setStep('done');
+    onCheckedIn?.(done);
+    notifyReception(result.arrival).catch(() => {
+      // Staff still see the visitor in /admin/visitors
+    });
+    await onSpeak(result.message, language);
+  };
+
+  const confirmDetails = async () => {
+    if (!details.name.trim()) {
+      setError(uiText('checkin.nameRequired', language));
+      return;
+    }
+    setError('');
+    setStep('confirm');
+    const { result } = await post({ action: 'read_back', ...details });
+    if (result.message) await onSpeak(result.message, language);
+  };
+
+  const register = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const { result } = await post({ action: 'register', ...details, consent: true });
+      if (!result.success) throw new Error(result.error);
+      await finish(result);
+    } catch (registerError) {
+      setError(uiText('checkin.failed', language));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkIn = async (input: string, consent: boolean = false) => {
+    setBusy(true);
+    setError('');
+    try {
+      const { status, result } = await post({ action: 'check_in', code: input, consent });
+      if (status === 409 && result.consentRequired) {
+        setCode(input);
+        setRenewingConsent(true);
+        setStep('consent');
+        return;
+      }
+      if (!result.success) {
+        setError(result.error || uiText('checkin.failed', language));
+        return;
+      }
+      await finish(result);
+    } catch (checkInError) {
+      setError(uiText('checkin.failed', language));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const agreeToConsent = () => {
+    if (renewingConsent) {
+      setRenewingConsent(false);
+      checkIn(code, true);
+    } else {
+      setStep('details');
+    }
+  };
+
+  // Tap the mic to dictate a field, tap again to stop
+  const toggleDictation = async (field: Field) => {
+    if (listeningField) {
+      recorderRef.current?.stop();
+      return;
+    }
+
+    const { VoiceRecorder } = await import('@/lib/voice-recorder');
+    const recorder = new VoiceRecorder(
+      async (audioBlob: Blob) => {
+        setListeningField(null);
+        const audioData = Buffer.from(await audioBlob.arrayBuffer()).toString('base64');
+        try {
+          const response = await fetch('/api/voice', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'speech_to_text', audioData, language }),
+          });
+          const result = await response.json();
+          if (result.success && result.transcript) {
+            setDetails(current => ({ ...current, [field]: result.transcript.replace(/[。．.]$/, '') }));
+          }
+        } catch (speechError) {
+          // Visitor can still type
+        }
+      },
+      () => setListeningField(null)
+    );
+    try {
+      await recorder.initialize();
+      if (!recorder.isInitialized()) return;
+      recorderRef.current?.cleanup();
+      recorderRef.current = recorder;
+      recorder.start();
+      setListeningField(field);
+    } catch (micError) {
+      setListeningField(null);
+    }
+  };
+
+  // The scan loop below outlives renders, so it checks in through the latest checkIn
+  const checkInRef = useRef(checkIn);
+  useEffect(() => {
+    checkInRef.current = checkIn;
+  });
+
+  // Scan the visitor's QR code with the camera where the browser can decode barcodes
+  useEffect(() => {
+    if (!scanning) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const start = async () => {
+      const Detector = (window as any).BarcodeDetector;
+      stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' } });
+      if (stopped || !videoRef.current) return;
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+
+      const detector = new Detector({ formats: ['qr_code'] });
+      timer = setInterval(async () => {
+        if (!videoRef.current) return;
+        try {
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0 && !stopped) {
+            stopped = true;
+            setScanning(false);
+            checkInRef.current(codes[0].rawValue);
+          }
+        } catch (detectError) {
+          // Try the next frame
+        }
+      }, SCAN_INTERVAL_MS);
+    };
+
+    start().catch(() => setScanning(false));
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [scanning]);
+
+  const canScan = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+  const qr = checkedIn ? encodeQrCode(checkedIn.qrPayload) : null;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-6 md:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-gray-800">{uiText('checkin.title', language)}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title={uiText('common.close', language)}>
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {step === 'choose' && (
+          <div className="flex flex-col gap-4">
+            <button
+              onClick={() => setStep('consent')}
+              className="px-6 py-5 bg-purple-600 hover:bg-purple-700 text-white text-lg font-semibold rounded-xl touch-manipulation"
+            >
+              {uiText('checkin.newVisitor', language)}
+            </button>
+            <button
+              onClick={() => setStep('returning')}
+              className="px-6 py-5 bg-blue-600 hover:bg-blue-700 text-white text-lg font-semibold rounded-xl touch-manipulation"
+            >
+              {uiText('checkin.returningVisitor', language)}
+            </button>
+          </div>
+        )}
+
+        {step === 'consent' && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-gray-800">{uiText('checkin.consentTitle', language)}</h3>
+            <p className="text-gray-700 leading-relaxed">{uiText('checkin.consent', language, { days: retentionDays })}</p>
+            <div className="flex gap-4">
+              <button
+                onClick={agreeToConsent}
+                disabled={busy}
+                className="flex-1 px-6 py-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 text-white text-lg rounded-xl touch-manipulation"
+              >
+                {uiText('checkin.agree', language)}
+              </button>
+              <button
+                onClick={onClose}
+                className="px-6 py-4 bg-gray-200 hover:bg-gray-300 text-gray-800 text-lg rounded-xl touch-manipulation"
+              >
+                {uiText('checkin.decline', language)}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'details' && (
+          <div className="space-y-4">
+            {FIELDS.map((field) => (
+              <label key={field} className="block">
+                <span className="text-sm font-medium text-gray-700">{uiText(`checkin.field.${field}`, language)}</span>
+                <div className="mt-1 flex gap-2">
+                  <input
+                    value={details[field]}
+                    onChange={(e) => setDetails({ ...details, [field]: e.target.value })}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg text-lg"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => toggleDictation(field)}
+                    disabled={!!listeningField && listeningField !== field}
+                    className={`px-4 rounded-lg text-white ${listeningField === field ? 'bg-red-500' : 'bg-blue-500 hover:bg-blue-600'} disabled:bg-gray-300`}
+                  >
+                    {listeningField === field ? <Square className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+                  </button>
+                </div>
+              </label>
+            ))}
+            {listeningField && <p className="text-sm text-red-600">{uiText('checkin.listening', language)}</p>}
+            <button
+              onClick={confirmDetails}
+              className="w-full px-6 py-4 bg-purple-600 hover:bg-purple-700 text-white text-lg rounded-xl touch-manipulation"
+            >
+              {uiText('checkin.next', language)}
+            </button>
+          </div>
+        )}
+
+        {step === 'confirm' && (
+          <div className="space-y-4">
+            <dl className="space-y-2">
+              {FIELDS.map((field) => (
+                <div key={field} className="flex gap-4">
+                  <dt className="w-40 text-gray-500">{uiText(`checkin.field.${field}`, language)}</dt>
+                  <dd className="text-gray-900">{details[field] || '—'}</dd>
+                </div>
+              ))}
+            </dl>
+            <div className="flex gap-4">
+              <button
+                onClick={register}
+                disabled={busy}
+                className="flex-1 px-6 py-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 text-white text-lg rounded-xl touch-manipulation"
+              >
+                {busy ? uiText('checkin.working', language) : uiText('checkin.register', language)}
+              </button>
+              <button
+                onClick={() => setStep('details')}
+                disabled={busy}
+                className="px-6 py-4 bg-gray-200 hover:bg-gray-300 text-gray-800 text-lg rounded-xl touch-manipulation"
+              >
+                {uiText('checkin.edit', language)}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'returning' && (
+          <div className="space-y-4">
+            {scanning ? (
+              <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+            ) : (
+              canScan && (
+                <button
+                  onClick={() => setScanning(true)}
+                  className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-blue-600 hover:bg-blue-700 text-white text-lg rounded-xl touch-manipulation"
+                >
+                  <Camera className="w-6 h-6" />
+                  {uiText('checkin.scan', language)}
+                </button>
+              )
+            )}
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">{uiText('checkin.codeLabel', language)}</span>
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="EC-XXXXXXXX"
+                className="mt-1 w-full px-4 py-3 border border-gray-300 rounded-lg text-lg font-mono uppercase"
+              />
+            </label>
+            <button
+              onClick={() => checkIn(code)}
+              disabled={busy || !code.trim()}
+              className="w-full px-6 py-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 text-white text-lg rounded-xl touch-manipulation"
+            >
+              {busy ? uiText('checkin.working', language) : uiText('checkin.checkIn', language)}
+            </button>
+          </div>
+        )}
+
+        {step === 'done' && checkedIn && qr && (
+          <div className="flex flex-col items-center space-y-4">
+            <svg
+              viewBox={`0 0 ${qr.size + 8} ${qr.size + 8}`}
+              className="w-56 h-56"
+              shapeRendering="crispEdges"
+              role="img"
+              aria-label={checkedIn.visitorCode}
+            >
+              <rect width="100%" height="100%" fill="#fff" />
+              <path d={qrCodeSvgPath(qr)} fill="#000" />
+            </svg>
+            <p className="text-2xl font-mono font-semibold text-gray-900">{checkedIn.visitorCode}</p>
+            <p className="text-gray-700 text-center">{checkedIn.returning ? uiText('checkin.doneReturning', language) : uiText('checkin.doneNew', language)}</p>
+            <button
+              onClick={onClose}
+              className="px-8 py-3 bg-gray-200 hover:bg-gray-300 text-gray-800 text-lg rounded-xl touch-manipulation"
+            >
+              {uiText('common.close', language)}
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
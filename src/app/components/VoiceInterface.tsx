@@ -2,17 +2,23 @@
 
 import { AudioQueue } from '@/lib/audio-queue';
 import { formatError } from '@/lib/error-messages';
+import { DEFAULT_LANGUAGE, getLanguageConfig, SUPPORTED_LANGUAGES, SupportedLanguage, textJoiner } from '@/lib/languages';
 import { MobileAudioService } from '@/lib/audio/mobile-audio-service';
 import { useAudioInteraction } from '@/lib/audio/audio-interaction-manager';
+import { StreamingRecognizer } from '@/lib/streaming-recognizer';
+import { VoiceActivityDetector } from '@/lib/voice-activity-detector';
 import { VoiceRecorder } from '@/lib/voice-recorder';
+import { VOICE_STREAM_CONTENT_TYPE, readVoiceStream } from '@/lib/voice-stream';
 import { audioStateManager } from '@/lib/audio-state-manager';
+import { uiText } from '@/lib/ui-messages';
+import { createSessionId } from '@/lib/session-id';
 import { AlertCircle, Loader2, Mic, MicOff, Settings, Volume2, VolumeX } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 
 interface VoiceInterfaceProps {
-  onLanguageChange?: (language: 'ja' | 'en') => void;
+  onLanguageChange?: (language: SupportedLanguage) => void;
   layout?: 'vertical' | 'horizontal';
-  language?: 'ja' | 'en';
+  language?: SupportedLanguage;
   autoGreeting?: boolean;
   onVisemeControl?: ((viseme: string, intensity: number) => void) | null;
 }
@@ -20,7 +26,7 @@ interface VoiceInterfaceProps {
 export default function VoiceInterface({ 
   onLanguageChange, 
   layout = 'vertical',
-  language = 'ja',
+  language = DEFAULT_LANGUAGE,
   autoGreeting = false,
   onVisemeControl
 }: VoiceInterfaceProps) {
@@ -28,10 +34,11 @@ export default function VoiceInterface({
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [conversationState, setConversationState] = useState<'idle' | 'listening' | 'processing' | 'speaking'>('idle');
-  const [currentLanguage, setCurrentLanguage] = useState<'ja' | 'en'>(language);
+  const [currentLanguage, setCurrentLanguage] = useState<SupportedLanguage>(language);
   const [volume, setVolumeState] = useState(0.8);
   const [isMuted, setIsMuted] = useState(false);
   const [transcript, setTranscript] = useState('');
+  const [isPartialTranscript, setIsPartialTranscript] = useState(false);
   const [response, setResponse] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -53,6 +60,11 @@ export default function VoiceInterface({
   const audioQueueRef = useRef<AudioQueue | null>(null);
   const mobileAudioServiceRef = useRef<MobileAudioService | null>(null);
   const voiceRecorderRef = useRef<VoiceRecorder | null>(null);
+  const recognizerRef = useRef<StreamingRecognizer | null>(null);
+  const endpointDetectorRef = useRef<VoiceActivityDetector | null>(null);
+  // Aborted on interruption so the rest of a streamed answer is dropped
+  const responseAbortRef = useRef<AbortController | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
   const { ensureAudioContext, isReady: isAudioReady, hasInteraction } = useAudioInteraction();
   
 
@@ -97,6 +109,9 @@ export default function VoiceInterface({
         voiceRecorderRef.current.cleanup();
         voiceRecorderRef.current = null;
       }
+      recognizerRef.current?.abort();
+      endpointDetectorRef.current?.stop();
+      responseAbortRef.current?.abort();
       
       if (audioContextRef.current) {
         audioContextRef.current.close();
@@ -131,9 +146,7 @@ export default function VoiceInterface({
 
   // Perform automatic greeting
   const performAutoGreeting = async () => {
-    const greetingText = language === 'ja' 
-      ? 'はじめまして！何かお手伝いできることはありますか？'
-      : 'Hello there! How can I help you today?';
+    const greetingText = uiText('voice.greeting', language);
     
     try {
       // Wait a bit to ensure audio context can be initialized
@@ -147,7 +160,7 @@ export default function VoiceInterface({
       setConversationState('speaking');
       setResponse(greetingText);
       setIsLoading(true);
-      setLoadingMessage(language === 'ja' ? '挨拶を準備中...' : 'Preparing greeting...');
+      setLoadingMessage(uiText('voice.preparingGreeting', language));
 
       // Generate TTS audio for greeting
       const response = await fetch('/api/voice', {
@@ -159,7 +172,7 @@ export default function VoiceInterface({
           action: 'text_to_speech',
           text: greetingText,
           language: language,
-          sessionId: generateSessionId(),
+          sessionId: getSessionId(),
         }),
       });
 
@@ -178,7 +191,7 @@ export default function VoiceInterface({
 
     } catch (error) {
       console.error('Auto greeting error:', error);
-      setError(language === 'ja' ? '挨拶の再生に失敗しました' : 'Failed to play greeting');
+      setError(uiText('voice.greetingFailed', language));
       setConversationState('idle');
       setIsLoading(false);
       setLoadingMessage('');
@@ -188,6 +201,11 @@ export default function VoiceInterface({
 
   // Start voice recording
   const startListening = async () => {
+    if (voiceRecorderRef.current) {
+      // Already listening, e.g. auto-listen after a barge-in
+      return;
+    }
+
     try {
       setError(null);
       
@@ -220,13 +238,26 @@ export default function VoiceInterface({
       const { VoiceRecorder } = await import('@/lib/voice-recorder');
       
       setIsLoading(true);
-      setLoadingMessage(currentLanguage === 'ja' ? 'マイクにアクセス中...' : 'Accessing microphone...');
+      setLoadingMessage(uiText('voice.accessingMicrophone', currentLanguage));
       
+      // Stream audio while recording for live partial transcripts and endpointing
+      const recognizer = StreamingRecognizer.isSupported()
+        ? new StreamingRecognizer(currentLanguage, {
+            onPartial: (partial) => {
+              setTranscript(partial);
+              setIsPartialTranscript(true);
+              setResponse('');
+            },
+            onEndpoint: () => endUtterance(),
+            onError: (error) => console.warn('[STT] Streaming recognition failed, using full recording:', error),
+          })
+        : null;
+
       // Create and initialize VoiceRecorder instance
       const recorder = new VoiceRecorder(
         (audioBlob: Blob) => {
           // onDataAvailable callback
-          processAudioInput(audioBlob);
+          finishUtterance(audioBlob, recognizer);
         },
         (error: Error) => {
           // onError callback
@@ -237,7 +268,8 @@ export default function VoiceInterface({
           setIsRecording(false);
           setIsListening(false);
           setConversationState('idle');
-        }
+        },
+        recognizer ? { timesliceMs: 250, onChunk: (chunk) => recognizer.sendAudio(chunk) } : {}
       );
       
       // Initialize the recorder (handles iOS-specific requirements)
@@ -251,6 +283,22 @@ export default function VoiceInterface({
       
       // Store recorder reference in component ref
       voiceRecorderRef.current = recorder;
+
+      if (recognizer) {
+        // Audio recorded before the session is ready is queued by the recognizer
+        recognizer.start().catch(error => {
+          console.warn('[STT] Streaming recognition unavailable:', error);
+        });
+        recognizerRef.current = recognizer;
+
+        // Endpointing: stop after trailing silence, even before the recognizer reports it
+        const micStream = recorder.getStream();
+        if (micStream) {
+          const detector = new VoiceActivityDetector({ onSpeechEnd: () => endUtterance() });
+          detector.start(micStream);
+          endpointDetectorRef.current = detector;
+        }
+      }
       
       // Start recording
       recorder.start();
@@ -280,23 +328,58 @@ export default function VoiceInterface({
     }
     
     if (isRecording && voiceRecorderRef.current) {
-      const recorder = voiceRecorderRef.current;
-      recorder.stop();
-      // Cleanup immediately, no setTimeout needed
-      recorder.cleanup();
-      voiceRecorderRef.current = null;
-      
-      setIsRecording(false);
-      setIsListening(false);
-      setConversationState('processing');
+      endUtterance();
     }
   };
 
+  // Stop recording; refs only, since endpointing callbacks hold stale state
+  const endUtterance = () => {
+    endpointDetectorRef.current?.stop();
+    endpointDetectorRef.current = null;
+
+    const recorder = voiceRecorderRef.current;
+    if (!recorder) {
+      return;
+    }
+    recorder.stop();
+    // Cleanup immediately, no setTimeout needed
+    recorder.cleanup();
+    voiceRecorderRef.current = null;
+
+    setIsRecording(false);
+    setIsListening(false);
+    setConversationState('processing');
+  };
+
+  // Use the streamed transcript when there is one; otherwise the server recognises the whole recording
+  const finishUtterance = async (audioBlob: Blob, recognizer: StreamingRecognizer | null) => {
+    if (recognizerRef.current === recognizer) {
+      recognizerRef.current = null;
+    }
+    let streamedTranscript = '';
+    if (recognizer) {
+      setIsLoading(true);
+      setLoadingMessage(uiText('voice.recognizing', currentLanguage));
+      streamedTranscript = await recognizer.finish();
+    }
+    setIsPartialTranscript(false);
+    await processAudioInput(audioBlob, streamedTranscript || undefined);
+  };
+
   // Process audio input
-  const processAudioInput = async (audioBlob: Blob) => {
+  const processAudioInput = async (audioBlob: Blob, recognizedText?: string) => {
+    const abortController = new AbortController();
+    responseAbortRef.current?.abort();
+    responseAbortRef.current = abortController;
+
     try {
       setIsLoading(true);
-      setLoadingMessage(currentLanguage === 'ja' ? '音声を認識中...' : 'Recognizing speech...');
+      setLoadingMessage(recognizedText
+        ? uiText('voice.generatingResponse', currentLanguage)
+        : uiText('voice.recognizing', currentLanguage));
+      if (recognizedText) {
+        setTranscript(recognizedText);
+      }
       const audioBuffer = await audioBlob.arrayBuffer();
       const uint8Array = new Uint8Array(audioBuffer);
       const audioBase64 = btoa(String.fromCharCode.apply(null, Array.from(uint8Array)));
@@ -309,11 +392,21 @@ export default function VoiceInterface({
         body: JSON.stringify({
           action: 'process_voice',
           audioData: audioBase64,
-          sessionId: generateSessionId(),
+          // Already recognised by streaming recognition; the server skips STT
+          text: recognizedText,
+          sessionId: getSessionId(),
           language: currentLanguage, // 重要：言語設定を明示的に指定
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
+      // Streamed chunks start playing while the rest of the answer is generated
+      if (response.ok && response.headers.get('Content-Type')?.includes(VOICE_STREAM_CONTENT_TYPE)) {
+        await playStreamingResponse(response, abortController.signal);
+        return;
+      }
+
       const result = await response.json();
 
       if (result.success) {
@@ -321,7 +414,7 @@ export default function VoiceInterface({
         setResponse(result.response);
         
         // Update loading message for TTS generation
-        setLoadingMessage(currentLanguage === 'ja' ? '音声を生成中...' : 'Generating voice...');
+        setLoadingMessage(uiText('voice.generatingVoice', currentLanguage));
 
         // Play audio response
         console.log('Voice processing result:', {
@@ -340,9 +433,7 @@ export default function VoiceInterface({
           } catch (audioError) {
             console.error('[DEBUG] Audio playback failed:', audioError);
             // Fallback: show manual play button
-            setError(currentLanguage === 'ja' 
-              ? '🔊 音声再生に失敗しました。下のボタンをタップして再生してください。' 
-              : '🔊 Audio playback failed. Tap the button below to play.');
+            setError(uiText('voice.playbackFailedTap', currentLanguage));
             setConversationState('idle');
             setIsLoading(false);
             setLoadingMessage('');
@@ -375,16 +466,187 @@ export default function VoiceInterface({
         setError(result.error || formatError({ code: 'VOICE_PROCESSING_ERROR' }, currentLanguage));
       }
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        return;
+      }
       console.error('Error processing audio:', error);
       setError(formatError(error, currentLanguage));
     } finally {
-      setConversationState('idle');
-      setIsLoading(false);
-      setLoadingMessage('');
+      // After an interruption the visitor already has the turn
+      if (!abortController.signal.aborted) {
+        setConversationState('idle');
+        setIsLoading(false);
+        setLoadingMessage('');
+      }
     }
   };
 
-  // Play streaming audio response
+  // Drive the avatar's mouth from an audio clip's lip-sync analysis
+  const animateLipSync = async (audioBlob: Blob) => {
+    const { measurePerformance } = await import('@/lib/performance-monitor');
+
+    try {
+      console.log('Starting lip-sync analysis for audio blob:', audioBlob.size, 'bytes');
+      
+      // Analyze audio for lip-sync
+      const { LipSyncAnalyzer } = await import('@/lib/lip-sync-analyzer');
+      const analyzer = new LipSyncAnalyzer();
+      const lipSyncData = await measurePerformance(
+        'Lip-sync analysis',
+        () => analyzer.analyzeLipSync(audioBlob)
+      );
+      
+      console.log('Lip-sync analysis complete:', lipSyncData.frames.length, 'frames, duration:', lipSyncData.duration);
+      
+      // Apply lip-sync to character using direct viseme callback
+      if (onVisemeControl) {
+        console.log('Starting lip-sync animation with direct viseme control');
+        
+        // Schedule viseme updates using direct callback
+        let frameIndex = 0;
+        const updateLipSync = () => {
+          if (frameIndex < lipSyncData.frames.length && onVisemeControl) {
+            const frame = lipSyncData.frames[frameIndex];
+            
+            console.log(`Lip-sync frame ${frameIndex}:`, frame.mouthShape, 'intensity:', frame.mouthOpen);
+            
+            // Use direct viseme callback instead of API
+            onVisemeControl(frame.mouthShape, frame.mouthOpen);
+            
+            frameIndex++;
+            setTimeout(updateLipSync, 100); // 10fps for better performance
+          } else {
+            console.log('Lip-sync animation complete or audio stopped');
+            // Reset to closed mouth
+            if (onVisemeControl) {
+              onVisemeControl('X', 0);
+            }
+          }
+        };
+        
+        // Start lip-sync animation immediately since we control playback timing
+        updateLipSync();
+      } else {
+        console.warn('onVisemeControl callback not available - skipping lip-sync');
+      }
+
+      analyzer.dispose();
+    } catch (lipSyncError) {
+      console.warn('Lip-sync analysis failed, continuing with audio playback:', lipSyncError);
+    }
+  };
+
+  // Play streaming audio response: chunks are queued while later ones are still being generated
+  const playStreamingResponse = async (response: Response, signal: AbortSignal) => {
+    await unlockAudio();
+
+    if (!audioQueueRef.current) {
+      audioQueueRef.current = new AudioQueue();
+    }
+    const queue = audioQueueRef.current;
+    queue.clear();
+    queue.setVolume(volume);
+    if (mobileAudioServiceRef.current) {
+      mobileAudioServiceRef.current.stop();
+    }
+
+    let streamComplete = false;
+    let hasAudio = false;
+    let responseText = '';
+    let finalEmotion: string | null = null;
+
+    const handleSpeechEnd = () => {
+      if (signal.aborted) {
+        // Interrupted; the visitor is already speaking
+        return;
+      }
+      setIsSpeaking(false);
+      setConversationState('idle');
+      if (onVisemeControl) {
+        onVisemeControl('X', 0);
+      }
+
+      // Restore emotion expression after lip-sync if needed
+      if (finalEmotion && finalEmotion !== 'neutral') {
+        const emotion = finalEmotion;
+        setTimeout(() => {
+          updateCharacterExpression(emotion);
+        }, 200);
+      }
+
+      if (autoListen && !isMuted) {
+        setTimeout(() => {
+          console.log('Auto-listening after response...');
+          startListening();
+        }, 1000);
+      }
+    };
+
+    queue.setOnItemStart(item => {
+      if (signal.aborted) {
+        return;
+      }
+      setIsSpeaking(true);
+      setConversationState('speaking');
+      if (item.emotion) {
+        updateCharacterExpression(item.emotion);
+      }
+      const audioData = Uint8Array.from(atob(item.audioData), c => c.charCodeAt(0));
+      animateLipSync(new Blob([audioData], { type: 'audio/mp3' })).catch(error => {
+        console.warn('Lip-sync processing error (non-critical):', error);
+      });
+    });
+    // The queue can drain while later chunks are still being synthesised
+    queue.setOnFinished(() => {
+      if (streamComplete) {
+        handleSpeechEnd();
+      }
+    });
+
+    for await (const event of readVoiceStream(response)) {
+      switch (event.type) {
+        case 'transcript':
+          setTranscript(event.transcript);
+          setLoadingMessage(uiText('voice.generatingResponse', currentLanguage));
+          break;
+        case 'chunk':
+          responseText += (responseText ? textJoiner(currentLanguage) : '') + event.text;
+          setResponse(responseText);
+          setIsLoading(false);
+          setLoadingMessage('');
+          if (event.audioBase64 && !isMuted) {
+            hasAudio = true;
+            queue.add({
+              id: `chunk-${event.index}`,
+              audioData: event.audioBase64,
+              text: event.text,
+              emotion: event.emotion,
+            });
+          }
+          break;
+        case 'done':
+          setTranscript(event.transcript);
+          setResponse(event.response);
+          if (event.shouldUpdateCharacter) {
+            if (event.characterAction) {
+              updateCharacter(event.characterAction);
+            }
+            finalEmotion = event.primaryEmotion || event.emotion?.emotion || null;
+            if (finalEmotion) {
+              setCurrentEmotion(finalEmotion);
+            }
+          }
+          break;
+        case 'error':
+          throw new Error(event.error);
+      }
+    }
+
+    streamComplete = true;
+    if (hasAudio && !queue.getIsPlaying() && queue.getQueueSize() === 0) {
+      handleSpeechEnd();
+    }
+  };
 
   // Play audio response
   const playAudioResponse = async (audioBase64: string) => {
@@ -400,7 +662,7 @@ export default function VoiceInterface({
         console.warn('[AUDIO] Audio unlock failed, continuing with standard playback');
       }
       setIsLoading(true);
-      setLoadingMessage(currentLanguage === 'ja' ? '音声を再生準備中...' : 'Preparing audio playback...');
+      setLoadingMessage(uiText('voice.preparingPlayback', currentLanguage));
       setIsSpeaking(true);
       setConversationState('speaking');
 
@@ -428,69 +690,14 @@ export default function VoiceInterface({
         return;
       }
 
-      // Import performance monitor functions
-      const { measurePerformance } = await import('@/lib/performance-monitor');
-
       // Skip lip-sync for very large audio files to improve performance
       const skipLipSync = audioBlob.size > 500000;
       
       // Start lip-sync analysis in background (non-blocking)
-      const lipSyncPromise = (async () => {
-        if (skipLipSync) {
-          console.log('Skipping lip-sync for performance (large file)');
-          return;
-        }
-        
-        try {
-          console.log('Starting lip-sync analysis for audio blob:', audioBlob.size, 'bytes');
-          
-          // Analyze audio for lip-sync
-          const { LipSyncAnalyzer } = await import('@/lib/lip-sync-analyzer');
-          const analyzer = new LipSyncAnalyzer();
-          const lipSyncData = await measurePerformance(
-            'Lip-sync analysis',
-            () => analyzer.analyzeLipSync(audioBlob)
-          );
-          
-          console.log('Lip-sync analysis complete:', lipSyncData.frames.length, 'frames, duration:', lipSyncData.duration);
-          
-          // Apply lip-sync to character using direct viseme callback
-          if (onVisemeControl) {
-            console.log('Starting lip-sync animation with direct viseme control');
-            
-            // Schedule viseme updates using direct callback
-            let frameIndex = 0;
-            const updateLipSync = () => {
-              if (frameIndex < lipSyncData.frames.length && onVisemeControl) {
-                const frame = lipSyncData.frames[frameIndex];
-                
-                console.log(`Lip-sync frame ${frameIndex}:`, frame.mouthShape, 'intensity:', frame.mouthOpen);
-                
-                // Use direct viseme callback instead of API
-                onVisemeControl(frame.mouthShape, frame.mouthOpen);
-                
-                frameIndex++;
-                setTimeout(updateLipSync, 100); // 10fps for better performance
-              } else {
-                console.log('Lip-sync animation complete or audio stopped');
-                // Reset to closed mouth
-                if (onVisemeControl) {
-                  onVisemeControl('X', 0);
-                }
-              }
-            };
-            
-            // Start lip-sync animation immediately since we control playback timing
-            updateLipSync();
-          } else {
-            console.warn('onVisemeControl callback not available - skipping lip-sync');
-          }
-
-          analyzer.dispose();
-        } catch (lipSyncError) {
-          console.warn('Lip-sync analysis failed, continuing with audio playback:', lipSyncError);
-        }
-      })();
+      if (skipLipSync) {
+        console.log('Skipping lip-sync for performance (large file)');
+      }
+      const lipSyncPromise = skipLipSync ? Promise.resolve() : animateLipSync(audioBlob);
 
       // Audio service should already be initialized by useEffect
       
@@ -633,9 +840,7 @@ export default function VoiceInterface({
               
             } catch (retryError) {
               console.error('[AUDIO] Retry playback failed:', retryError);
-              setError(currentLanguage === 'ja' 
-                ? '音声再生に失敗しました。ページを更新してください。' 
-                : 'Audio playback failed. Please refresh the page.');
+              setError(uiText('voice.playbackFailedRefresh', currentLanguage));
             }
             
             // Remove event listeners
@@ -650,9 +855,7 @@ export default function VoiceInterface({
           document.addEventListener('keydown', retryPlayback, { once: true });
           
           // Update UI to show user needs to interact
-          setError(currentLanguage === 'ja' 
-            ? '🔊 音声を再生するには画面をタップしてください' 
-            : '🔊 Tap anywhere to play audio');
+          setError(uiText('voice.tapToPlay', currentLanguage));
           
           // Don't throw the error, just wait for user interaction
           return;
@@ -712,51 +915,121 @@ export default function VoiceInterface({
     }
   };
 
-  // Generate session ID
-  const generateSessionId = () => {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Keep one session per visitor so the server can isolate conversation memory
+  const getSessionId = () => {
+    if (!sessionIdRef.current) {
+      sessionIdRef.current = createSessionId();
+    }
+    return sessionIdRef.current;
+  };
+
+  // Stop the answer that is playing and drop any chunks still streaming in
+  const stopSpeaking = () => {
+    responseAbortRef.current?.abort();
+
+    // Stop current audio via mobile audio service
+    if (mobileAudioServiceRef.current) {
+      mobileAudioServiceRef.current.stop();
+    }
+    
+    // Stop audio queue if streaming
+    if (audioQueueRef.current) {
+      audioQueueRef.current.clear();
+    }
+
+    if (onVisemeControl) {
+      onVisemeControl('X', 0);
+    }
+    setIsSpeaking(false);
+  };
+
+  // Notify backend of interruption; false when interruptions are disabled
+  const notifyInterruption = async (): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/voice', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'handle_interruption',
+          sessionId: getSessionId(),
+        }),
+      });
+      const result = await response.json();
+      return result.interrupted !== false;
+    } catch (error) {
+      console.error('Error handling interruption:', error);
+      return true;
+    }
   };
 
   // Handle interruption
   const handleInterruption = async () => {
     if (isSpeaking) {
-      // Stop current audio via mobile audio service
-      if (mobileAudioServiceRef.current) {
-        mobileAudioServiceRef.current.stop();
-      }
-      
-      // Stop audio queue if streaming
-      if (audioQueueRef.current) {
-        audioQueueRef.current.clear();
-      }
-
-      // Notify backend of interruption
-      try {
-        await fetch('/api/voice', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            action: 'handle_interruption',
-          }),
-        });
-      } catch (error) {
-        console.error('Error handling interruption:', error);
-      }
-
-      setIsSpeaking(false);
+      stopSpeaking();
+      await notifyInterruption();
       setConversationState('idle');
     }
   };
 
-  // Toggle language
+  // Barge-in: the visitor started talking over the answer, so hand them the turn
+  const handleBargeIn = async () => {
+    if (!(await notifyInterruption())) {
+      return;
+    }
+    console.log('[AUDIO] Barge-in detected, listening...');
+    stopSpeaking();
+    startListening();
+  };
+
+  // Watch the microphone while the answer plays so the visitor can interrupt by speaking
+  useEffect(() => {
+    if (!isSpeaking || isMuted || !StreamingRecognizer.isSupported() || !navigator.mediaDevices?.getUserMedia) {
+      return;
+    }
+
+    let cancelled = false;
+    let micStream: MediaStream | null = null;
+    const detector = new VoiceActivityDetector({
+      // Stricter than endpointing so residual echo of the answer is not taken for speech
+      threshold: 0.05,
+      minSpeechMs: 400,
+      onSpeechStart: () => {
+        if (!cancelled) {
+          cancelled = true;
+          handleBargeIn();
+        }
+      },
+    });
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false } })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        micStream = stream;
+        detector.start(stream);
+      })
+      .catch(error => console.warn('[AUDIO] Barge-in detection unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      detector.stop();
+      micStream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isSpeaking, isMuted]);
+
+  // Cycle through the supported languages
+  const nextLanguage = SUPPORTED_LANGUAGES[(SUPPORTED_LANGUAGES.indexOf(currentLanguage) + 1) % SUPPORTED_LANGUAGES.length];
   const toggleLanguage = async () => {
-    const newLanguage = currentLanguage === 'ja' ? 'en' : 'ja';
+    const newLanguage = nextLanguage;
     
     try {
       setIsLoading(true);
-      setLoadingMessage(currentLanguage === 'ja' ? '言語を切り替え中...' : 'Switching language...');
+      setLoadingMessage(uiText('voice.switchingLanguage', currentLanguage));
       const response = await fetch('/api/voice', {
         method: 'POST',
         headers: {
@@ -793,9 +1066,12 @@ export default function VoiceInterface({
         },
         body: JSON.stringify({
           action: 'clear_conversation',
+          sessionId: getSessionId(),
         }),
       });
 
+      // Start a fresh session for the next visitor
+      sessionIdRef.current = null;
       setTranscript('');
       setResponse('');
       setError(null);
@@ -823,10 +1099,10 @@ export default function VoiceInterface({
             )}
             <span className="text-base md:text-lg font-medium text-gray-700 whitespace-nowrap">
               {isLoading && loadingMessage ? loadingMessage :
-                conversationState === 'idle' && (currentLanguage === 'ja' ? '待機中' : 'Ready') ||
-                conversationState === 'listening' && (currentLanguage === 'ja' ? '聞いています...' : 'Listening...') ||
-                conversationState === 'processing' && (currentLanguage === 'ja' ? '処理中...' : 'Processing...') ||
-                conversationState === 'speaking' && (currentLanguage === 'ja' ? '話しています...' : 'Speaking...')
+                conversationState === 'idle' && uiText('voice.state.idle', currentLanguage) ||
+                conversationState === 'listening' && uiText('voice.state.listening', currentLanguage) ||
+                conversationState === 'processing' && uiText('voice.state.processing', currentLanguage) ||
+                conversationState === 'speaking' && uiText('voice.state.speaking', currentLanguage)
               }
             </span>
           </div>
@@ -858,8 +1134,8 @@ export default function VoiceInterface({
                   : 'bg-gradient-to-r from-primary to-secondary hover:from-secondary hover:to-primary text-white shadow-lg hover:shadow-xl hover:scale-105'
               }`}
               title={isLoading && loadingMessage ? loadingMessage : 
-                     isListening ? (currentLanguage === 'ja' ? '停止' : 'Stop') : 
-                     (currentLanguage === 'ja' ? '録音開始' : 'Start recording')}
+                     isListening ? uiText('voice.stop', currentLanguage) : 
+                     uiText('voice.startRecording', currentLanguage)}
             >
               {isLoading && !isListening ? (
                 <Loader2 className="w-7 h-7 md:w-8 md:h-8 animate-spin" />
@@ -875,7 +1151,7 @@ export default function VoiceInterface({
               <button
                 onClick={handleInterruption}
                 className="p-4 md:p-5 rounded-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white shadow-lg transition-smooth transform hover:scale-105 touch-manipulation"
-                title={currentLanguage === 'ja' ? '話を止める' : 'Interrupt'}
+                title={uiText('voice.interrupt', currentLanguage)}
               >
                 <VolumeX className="w-6 h-6 md:w-7 md:h-7" />
               </button>
@@ -902,7 +1178,7 @@ export default function VoiceInterface({
           {!isMuted && (
             <div className="flex items-center space-x-3 flex-1 max-w-xs">
               <label className="text-sm md:text-base text-gray-600 whitespace-nowrap">
-                {currentLanguage === 'ja' ? '音量' : 'Volume'}
+                {uiText('voice.volume', currentLanguage)}
               </label>
               <div className="slider-container flex-1">
                 <div 
@@ -935,9 +1211,9 @@ export default function VoiceInterface({
                     {response}
                   </p>
                 ) : transcript && (
-                  <p className="text-sm text-gray-800 truncate">
-                    <span className="text-xs text-primary font-semibold">
-                      {currentLanguage === 'ja' ? 'あなた: ' : 'You: '}
+                  <p className={`text-sm truncate ${isPartialTranscript ? 'text-gray-500 italic' : 'text-gray-800'}`}>
+                    <span className="text-xs text-primary font-semibold not-italic">
+                      {`${uiText('common.you', currentLanguage)}: `}
                     </span>
                     {transcript}
                   </p>
@@ -958,19 +1234,19 @@ export default function VoiceInterface({
               onClick={toggleLanguage}
               className="btn-primary text-sm px-3 py-1.5"
             >
-              {currentLanguage === 'ja' ? 'EN' : 'JP'}
+              {getLanguageConfig(nextLanguage).flag}
             </button>
             
             <button
               onClick={clearConversation}
               className="btn-secondary text-sm px-3 py-1.5"
             >
-              {currentLanguage === 'ja' ? 'リセット' : 'Clear'}
+              {uiText('common.clear', currentLanguage)}
             </button>
             
             <button
               className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-smooth"
-              title={currentLanguage === 'ja' ? '設定' : 'Settings'}
+              title={uiText('common.settings', currentLanguage)}
             >
               <Settings className="w-4 h-4" />
             </button>
@@ -985,7 +1261,7 @@ export default function VoiceInterface({
             <button
               onClick={() => setError(null)}
               className="ml-auto text-red-500 hover:text-red-700 transition-colors"
-              aria-label={currentLanguage === 'ja' ? 'エラーを閉じる' : 'Close error'}
+              aria-label={uiText('voice.closeError', currentLanguage)}
             >
               ×
             </button>
@@ -1014,10 +1290,10 @@ export default function VoiceInterface({
           )}
           <span className="text-base md:text-lg font-medium text-gray-700">
             {isLoading && loadingMessage ? loadingMessage :
-              conversationState === 'idle' && (currentLanguage === 'ja' ? '待機中' : 'Ready') ||
-              conversationState === 'listening' && (currentLanguage === 'ja' ? '聞いています...' : 'Listening...') ||
-              conversationState === 'processing' && (currentLanguage === 'ja' ? '処理中...' : 'Processing...') ||
-              conversationState === 'speaking' && (currentLanguage === 'ja' ? '話しています...' : 'Speaking...')
+              conversationState === 'idle' && uiText('voice.state.idle', currentLanguage) ||
+              conversationState === 'listening' && uiText('voice.state.listening', currentLanguage) ||
+              conversationState === 'processing' && uiText('voice.state.processing', currentLanguage) ||
+              conversationState === 'speaking' && uiText('voice.state.speaking', currentLanguage)
             }
           </span>
         </div>
@@ -1057,8 +1333,8 @@ export default function VoiceInterface({
               : 'bg-gradient-to-r from-primary to-secondary hover:from-secondary hover:to-primary text-white shadow-lg hover:shadow-xl hover:scale-105'
           }`}
           title={isLoading && loadingMessage ? loadingMessage : 
-                 isListening ? (currentLanguage === 'ja' ? '停止' : 'Stop') : 
-                 (currentLanguage === 'ja' ? '録音開始' : 'Start recording')}
+                 isListening ? uiText('voice.stop', currentLanguage) : 
+                 uiText('voice.startRecording', currentLanguage)}
         >
           {isLoading && !isListening ? (
             <Loader2 className="w-8 h-8 md:w-10 md:h-10 animate-spin" />
@@ -1074,7 +1350,7 @@ export default function VoiceInterface({
           <button
             onClick={handleInterruption}
             className="p-5 md:p-6 rounded-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white shadow-lg transition-smooth transform hover:scale-105 touch-manipulation"
-            title={currentLanguage === 'ja' ? '話を止める' : 'Interrupt'}
+            title={uiText('voice.interrupt', currentLanguage)}
           >
             <VolumeX className="w-7 h-7 md:w-8 md:h-8" />
           </button>
@@ -1102,7 +1378,7 @@ export default function VoiceInterface({
         <div className="mb-4">
           <div className="flex items-center justify-between mb-1">
             <label className="text-sm md:text-base text-gray-600">
-              {currentLanguage === 'ja' ? '音量' : 'Volume'}
+              {uiText('voice.volume', currentLanguage)}
             </label>
             <span className="text-sm md:text-base text-gray-500">
               {Math.round(volume * 100)}%
@@ -1132,9 +1408,9 @@ export default function VoiceInterface({
           {transcript && (
             <div className="mb-2">
               <span className="text-xs text-primary font-semibold">
-                {currentLanguage === 'ja' ? 'あなた:' : 'You:'}
+                {uiText('common.you', currentLanguage)}:
               </span>
-              <p className="text-sm text-gray-800 mt-1">
+              <p className={`text-sm mt-1 ${isPartialTranscript ? 'text-gray-500 italic' : 'text-gray-800'}`}>
                 {transcript}
               </p>
             </div>
@@ -1142,7 +1418,7 @@ export default function VoiceInterface({
           {response && (
             <div>
               <span className="text-xs text-secondary font-semibold">
-                {currentLanguage === 'ja' ? 'AI:' : 'AI:'}
+                AI:
               </span>
               <p className="text-sm text-gray-800 mt-1">{response}</p>
             </div>
@@ -1159,7 +1435,7 @@ export default function VoiceInterface({
             <button
               onClick={() => setError(null)}
               className="text-red-500 hover:text-red-700 transition-colors text-lg leading-none"
-              aria-label={currentLanguage === 'ja' ? 'エラーを閉じる' : 'Close error'}
+              aria-label={uiText('voice.closeError', currentLanguage)}
             >
               ×
             </button>
@@ -1176,19 +1452,19 @@ export default function VoiceInterface({
             onClick={toggleLanguage}
             className="btn-primary flex-1 py-4 md:py-5 text-base md:text-lg touch-manipulation"
           >
-            {currentLanguage === 'ja' ? 'English' : '日本語'}
+            {getLanguageConfig(nextLanguage).name}
           </button>
           
           <button
             onClick={clearConversation}
             className="btn-secondary flex-1 py-4 md:py-5 text-base md:text-lg touch-manipulation"
           >
-            {currentLanguage === 'ja' ? 'リセット' : 'Clear'}
+            {uiText('common.clear', currentLanguage)}
           </button>
           
           <button
             className="p-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-smooth"
-            title={currentLanguage === 'ja' ? '設定' : 'Settings'}
+            title={uiText('common.settings', currentLanguage)}
           >
             <Settings className="w-4 h-4" />
           </button>
@@ -1211,7 +1487,7 @@ export default function VoiceInterface({
               }`} />
             </div>
             <span className="ml-2 text-base md:text-lg text-gray-700">
-              {currentLanguage === 'ja' ? '自動リスニング' : 'Auto-listen'}
+              {uiText('voice.autoListen', currentLanguage)}
             </span>
           </label>
         </div>
@@ -1220,9 +1496,7 @@ export default function VoiceInterface({
       {/* Instructions */}
       <div className="mt-4 text-center">
         <p className="text-sm md:text-base text-gray-500">
-          {currentLanguage === 'ja' 
-            ? 'マイクボタンを押して話しかけてください' 
-            : 'Press the mic button to start talking'
+          {uiText('voice.instructions', currentLanguage)
           }
         </p>
       </div>
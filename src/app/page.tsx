@@ -2,13 +2,25 @@
 
 import { audioStateManager } from '@/lib/audio-state-manager';
 import { preprocessTTS } from '@/utils/tts-preprocess';
-import { MessageSquare, Presentation, Settings, UserPlus, Volume2, VolumeX, X } from 'lucide-react';
+import { DEFAULT_LANGUAGE, getLanguageConfigs, SupportedLanguage } from '@/lib/languages';
+import { uiText } from '@/lib/ui-messages';
+import { createSessionId } from '@/lib/session-id';
+import { BellRing, ClipboardCheck, MessageSquare, Presentation, Settings, UserPlus, Volume2, VolumeX, X } from 'lucide-react';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import BackgroundSelector, { BackgroundOption } from './components/BackgroundSelector';
 import CharacterAvatar from './components/CharacterAvatar';
 import EnvironmentSettings from './components/EnvironmentSettings';
 import MarpViewer from './components/MarpViewer';
-import { EmotionMapping } from '@/lib/emotion-mapping';
+import VisitorCheckIn from './components/VisitorCheckIn';
+import { getPrimaryExpression, isKnownEmotion } from '@/lib/emotion-registry';
+import type { VisemeTimeline } from '@/lib/viseme-timeline';
+
+const ESCALATION_POLL_INTERVAL_MS = 5000;
+// Stop waiting for an acknowledgement after this long; the visitor has likely gone to reception
+const ESCALATION_POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Languages offered on the right of the start screen; the default language has the left side
+const GUEST_LANGUAGES = getLanguageConfigs().filter(config => config.code !== DEFAULT_LANGUAGE);
 
 export default function Home() {
   const [showSlideMode, setShowSlideMode] = useState(false);
@@ -30,7 +42,7 @@ export default function Home() {
   // Audio control state
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(80);
-  const [currentLanguage, setCurrentLanguage] = useState<'ja' | 'en'>('ja');
+  const [currentLanguage, setCurrentLanguage] = useState<SupportedLanguage>(DEFAULT_LANGUAGE);
   const [isVoiceActive, setIsVoiceActive] = useState(false);
   const [voiceRecorder, setVoiceRecorder] = useState<any>(null);
   const [isListening, setIsListening] = useState(false);
@@ -43,6 +55,15 @@ export default function Home() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingMessage, setProcessingMessage] = useState('');
 
+  // Visitor check-in dialog, open in the language of the button pressed
+  const [checkInLanguage, setCheckInLanguage] = useState<SupportedLanguage | null>(null);
+  const [guestLanguage, setGuestLanguage] = useState<SupportedLanguage>(GUEST_LANGUAGES[0]?.code ?? DEFAULT_LANGUAGE);
+
+  // Staff escalation waiting for someone to acknowledge it, and the language it was raised in
+  const [pendingEscalationId, setPendingEscalationId] = useState<string | null>(null);
+  const escalationLanguageRef = useRef<SupportedLanguage>(DEFAULT_LANGUAGE);
+  const lastTranscriptRef = useRef<string>('');
+
   // ボイスウェーブの高さ（scaleY）を一度だけ生成して保持
   const voiceWaveScales = useMemo(() =>
     Array.from({ length: 5 }, () => Math.random() * 0.5 + 0.5),
@@ -50,6 +71,17 @@ export default function Home() {
   );
 
   const prevVolumeRef = useRef<number>(80);
+  // One session per page visit so conversation memory is not shared between visitors
+  const sessionIdRef = useRef<string>('');
+
+  const getSessionId = () => {
+    if (!sessionIdRef.current) {
+      sessionIdRef.current = createSessionId();
+    }
+    return sessionIdRef.current;
+  };
+  // Set once the visitor registers or checks in, so their memory follows them between visits
+  const visitorIdRef = useRef<string | undefined>(undefined);
 
   // Sync audioStateManager when volume or mute changes
   useEffect(() => {
@@ -119,10 +151,10 @@ export default function Home() {
   };
 
   // Handle language-based voice interaction start
-  const handleLanguageVoiceStart = async (language: 'ja' | 'en') => {
+  const handleLanguageVoiceStart = async (language: SupportedLanguage) => {
     setCurrentLanguage(language);
     setIsProcessing(true);
-    setProcessingMessage(language === 'ja' ? '挨拶を準備中...' : 'Preparing greeting...');
+    setProcessingMessage(uiText('voice.preparingGreeting', language));
     
     // Start voice interaction directly with the character
     try {
@@ -178,7 +210,7 @@ export default function Home() {
             action: 'text_to_speech',
             text: cleanText,
             language: language,
-            sessionId: `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+            sessionId: getSessionId()
           })
         });
         
@@ -193,7 +225,7 @@ export default function Home() {
           // Play greeting audio with lip-sync
           setIsProcessing(false);
           setProcessingMessage('');
-          await playAudioWithLipSync(result.audioResponse);
+          await playAudioWithLipSync(result.audioResponse, result.visemes);
         }
       }
 
@@ -249,7 +281,7 @@ export default function Home() {
     } catch (error) {
       // Failed to initialize voice recorder
       setIsInitializingRecorder(false);
-      alert('マイクの初期化に失敗しました。ブラウザの設定でマイクの許可を確認してください。');
+      alert(uiText('home.microphoneFailed', currentLanguage));
       return null;
     }
   };
@@ -260,7 +292,7 @@ export default function Home() {
       setIsListening(false);
       setIsRecording(false);
       setIsProcessing(true);
-      setProcessingMessage(currentLanguage === 'ja' ? '音声を認識中...' : 'Recognizing speech...');
+      setProcessingMessage(uiText('voice.recognizing', currentLanguage));
       
       // First try to get speech-to-text for quick response check
       const audioBuffer = await audioBlob.arrayBuffer();
@@ -281,9 +313,10 @@ export default function Home() {
       
       // Check for quick cached responses
       if (speechResult.success && speechResult.transcript) {
-        setProcessingMessage(currentLanguage === 'ja' ? 'AIが考えています...' : 'AI is thinking...');
+        lastTranscriptRef.current = speechResult.transcript;
+        setProcessingMessage(uiText('home.thinking', currentLanguage));
         const { ResponseCache } = await import('@/lib/response-cache');
-        const { EnhancedEmotionManager } = await import('@/lib/enhanced-emotion-manager');
+        const { EmotionManager } = await import('@/lib/emotion-manager');
         const { ConversationMemory } = await import('@/lib/conversation-memory');
         
         // Speech transcript received
@@ -312,8 +345,7 @@ export default function Home() {
           // Using quick response
           
           // Analyze emotion from the response text
-          const emotionManager = new EnhancedEmotionManager();
-          const emotionAnalysis = emotionManager.analyzeTextEmotion(quickResponse.text, currentLanguage);
+          const emotionAnalysis = EmotionManager.detectEmotion(quickResponse.text, currentLanguage);
           
           // Set emotion with enhanced analysis
           const emotionToUse = quickResponse.emotion || emotionAnalysis.emotion;
@@ -323,8 +355,8 @@ export default function Home() {
           // Processing cached response emotion
           
           if (setExpressionFunction) {
-            // Simple direct emotion to expression mapping
-            const expressionName = EmotionMapping.mapToVRMEmotion(emotionToUse);
+            // Strongest VRM expression of the emotion; unknown names stay neutral
+            const expressionName = isKnownEmotion(emotionToUse) ? getPrimaryExpression(emotionToUse) : 'neutral';
             // Setting character expression
             
             try {
@@ -343,7 +375,7 @@ export default function Home() {
             setProcessingMessage('');
             await playAudioWithLipSync(quickResponse.audioBase64);
           } else {
-            setProcessingMessage(currentLanguage === 'ja' ? '音声を生成中...' : 'Generating voice...');
+            setProcessingMessage(uiText('voice.generatingVoice', currentLanguage));
             // Generate TTS for the quick response
             const ttsResponse = await fetch('/api/voice', {
               method: 'POST',
@@ -371,7 +403,7 @@ export default function Home() {
               
               setIsProcessing(false);
               setProcessingMessage('');
-              await playAudioWithLipSync(ttsResult.audioResponse);
+              await playAudioWithLipSync(ttsResult.audioResponse, ttsResult.visemes);
             }
           }
           
@@ -390,7 +422,7 @@ export default function Home() {
       }
       
       // If no quick response, proceed with full AI processing
-      setProcessingMessage(currentLanguage === 'ja' ? 'AIが応答を生成中...' : 'AI is generating response...');
+      setProcessingMessage(uiText('home.generatingResponse', currentLanguage));
       const response = await fetch('/api/voice', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -398,7 +430,8 @@ export default function Home() {
           action: 'process_voice',
           audioData: audioBase64,
           language: currentLanguage,
-          sessionId: `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+          sessionId: getSessionId(),
+          visitorId: visitorIdRef.current
         })
       });
       
@@ -409,12 +442,11 @@ export default function Home() {
         
         // Enhanced emotion processing
         if (result.responseText) {
-          const { EnhancedEmotionManager } = await import('@/lib/enhanced-emotion-manager');
+          const { EmotionManager } = await import('@/lib/emotion-manager');
           const { ResponseCache } = await import('@/lib/response-cache');
           const { ConversationMemory } = await import('@/lib/conversation-memory');
           
-          const emotionManager = new EnhancedEmotionManager();
-          const emotionAnalysis = emotionManager.analyzeTextEmotion(result.responseText, currentLanguage);
+          const emotionAnalysis = EmotionManager.detectEmotion(result.responseText, currentLanguage);
           
           const emotionToUse = result.primaryEmotion || result.emotion || emotionAnalysis.emotion;
           const intensity = emotionAnalysis.intensity;
@@ -425,8 +457,8 @@ export default function Home() {
           // Processing voice result emotion
           
           if (setExpressionFunction) {
-            // Simple direct emotion to expression mapping
-            const expressionName = EmotionMapping.mapToVRMEmotion(emotionToUse);
+            // Strongest VRM expression of the emotion; unknown names stay neutral
+            const expressionName = isKnownEmotion(emotionToUse) ? getPrimaryExpression(emotionToUse) : 'neutral';
             // Setting character expression
             
             try {
@@ -466,10 +498,10 @@ export default function Home() {
         
         // Play response audio with lip-sync
         if (result.audioResponse) {
-          setProcessingMessage(currentLanguage === 'ja' ? '音声を準備中...' : 'Preparing audio...');
+          setProcessingMessage(uiText('home.preparingAudio', currentLanguage));
           setIsProcessing(false);
           setProcessingMessage('');
-          await playAudioWithLipSync(result.audioResponse);
+          await playAudioWithLipSync(result.audioResponse, result.visemes);
         }
       }
       setIsProcessing(false);
@@ -499,7 +531,7 @@ export default function Home() {
           
           const ttsResult = await ttsResponse.json();
           if (ttsResult.success && ttsResult.audioResponse) {
-            await playAudioWithLipSync(ttsResult.audioResponse);
+            await playAudioWithLipSync(ttsResult.audioResponse, ttsResult.visemes);
           }
         } catch (ttsError) {
           // Error generating TTS response
@@ -589,13 +621,14 @@ export default function Home() {
   };
 
   // Play audio with lip-sync
-  const playAudioWithLipSync = async (audioBase64: string) => {
+  const playAudioWithLipSync = async (audioBase64: string, visemes?: VisemeTimeline | null) => {
     try {
       const { AudioPlaybackService } = await import('@/lib/audio/audio-playback-service');
       
       await AudioPlaybackService.playAudioWithLipSync(audioBase64, {
         volume: volume / 100,
         enableLipSync: !!setVisemeFunction,
+        visemes,
         onVisemeUpdate: setVisemeFunction || undefined,
         onError: (error) => {
           // Audio playback failed
@@ -610,6 +643,101 @@ export default function Home() {
     }
   };
 
+  // Say a tagged message as the guide: expression from its emotion tag, then TTS with lip-sync
+  const speakAsGuide = async (taggedText: string, language: SupportedLanguage) => {
+    const { EmotionTagParser } = await import('@/lib/emotion-tag-parser');
+    const parsed = EmotionTagParser.parseEmotionTags(taggedText);
+    if (parsed.primaryEmotion && setExpressionFunction) {
+      setExpressionFunction(getPrimaryExpression(parsed.primaryEmotion), 0.8);
+    }
+
+    try {
+      const ttsResponse = await fetch('/api/voice', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'text_to_speech',
+          text: preprocessTTS(parsed.cleanText, language),
+          language,
+          emotion: parsed.primaryEmotion
+        })
+      });
+      const ttsResult = await ttsResponse.json();
+      if (ttsResult.success && ttsResult.audioResponse) {
+        await playAudioWithLipSync(ttsResult.audioResponse, ttsResult.visemes);
+      }
+    } catch (error) {
+      // TTS unavailable; the expression still changed
+    }
+  };
+
+  // Hand the visitor over to staff; the avatar reports whether anyone was reached
+  const callStaff = async () => {
+    if (pendingEscalationId) return;
+    setIsProcessing(true);
+    setProcessingMessage(uiText('home.callingStaff', currentLanguage));
+
+    try {
+      const response = await fetch('/api/qa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'escalate_to_staff',
+          question: lastTranscriptRef.current
+            || uiText('home.visitorAskingStaff', currentLanguage),
+          language: currentLanguage,
+          sessionId: getSessionId()
+        })
+      });
+      const result = await response.json();
+
+      setIsProcessing(false);
+      setProcessingMessage('');
+      if (result.message) {
+        await speakAsGuide(result.message, currentLanguage);
+      }
+      if (result.escalationId && result.status === 'open') {
+        escalationLanguageRef.current = currentLanguage;
+        setPendingEscalationId(result.escalationId);
+      }
+    } catch (error) {
+      setIsProcessing(false);
+      setProcessingMessage('');
+    }
+  };
+
+  // The escalation poll outlives renders, so it speaks through the latest speakAsGuide
+  const speakAsGuideRef = useRef(speakAsGuide);
+  useEffect(() => {
+    speakAsGuideRef.current = speakAsGuide;
+  });
+
+  // Poll the escalation until staff acknowledge it, then tell the visitor who is coming
+  useEffect(() => {
+    if (!pendingEscalationId) return;
+
+    const language = escalationLanguageRef.current;
+    const startedAt = Date.now();
+    const interval = setInterval(async () => {
+      if (Date.now() - startedAt > ESCALATION_POLL_TIMEOUT_MS) {
+        setPendingEscalationId(null);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/qa?action=escalation_status&escalationId=${encodeURIComponent(pendingEscalationId)}`);
+        const result = await response.json();
+        if (result.success && result.status !== 'open') {
+          setPendingEscalationId(null);
+          await speakAsGuideRef.current(result.message, language);
+        }
+      } catch (error) {
+        // Try again on the next tick
+      }
+    }, ESCALATION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pendingEscalationId]);
+
   // Pre-generate greetings on app load for faster responses
   useEffect(() => {
     const preGenerateGreetings = async () => {
@@ -655,10 +783,7 @@ export default function Home() {
               
               {/* Sub-message */}
               <p className="text-sm text-gray-600 text-center">
-                {currentLanguage === 'ja' 
-                  ? 'しばらくお待ちください...' 
-                  : 'Please wait a moment...'
-                }
+                {uiText('common.pleaseWait', currentLanguage)}
               </p>
               
               {/* Voice wave animation */}
@@ -680,6 +805,22 @@ export default function Home() {
         </div>
       )}
       
+      {checkInLanguage && (
+        <VisitorCheckIn
+          language={checkInLanguage}
+          onSpeak={speakAsGuide}
+          onCheckedIn={(result) => {
+            visitorIdRef.current = result.visitorId;
+            // Continue in the session opened at check-in so the transcript is the visitor's
+            if (result.conversationSessionId) {
+              sessionIdRef.current = result.conversationSessionId;
+            }
+            setCurrentLanguage(checkInLanguage);
+          }}
+          onClose={() => setCheckInLanguage(null)}
+        />
+      )}
+
       {/* Main Content */}
       <div className="h-screen flex flex-col">
         <div className="flex-1 pt-4">
@@ -690,7 +831,7 @@ export default function Home() {
                 {showSlideMode && (
                   <div className="flex items-center space-x-2 mb-4 px-4 py-3 bg-white/90 backdrop-blur-sm rounded-lg shadow-sm">
                     <MessageSquare className="w-5 h-5 text-primary" />
-                    <h2 className="text-lg font-semibold text-gray-800">AI ガイド</h2>
+                    <h2 className="text-lg font-semibold text-gray-800">{uiText('home.aiGuide', currentLanguage)}</h2>
                   </div>
                 )}
                 <div className="h-[calc(100%-4rem)] relative">
@@ -734,13 +875,13 @@ export default function Home() {
                               <button
                                 onClick={async () => {
                                   await initializeAudioContext();
-                                  handleLanguageVoiceStart('ja');
+                                  handleLanguageVoiceStart(DEFAULT_LANGUAGE);
                                   setIsVoiceActive(true);
                                 }}
                                 className="flex items-center justify-center gap-0 md:gap-4 px-6 md:px-8 py-6 md:py-8 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 min-w-[56px] md:min-w-[320px] touch-manipulation"
                               >
                                 <MessageSquare className="w-6 h-6 md:w-8 md:h-8" />
-                                <span className="hidden md:inline text-lg md:text-xl font-semibold ml-2">日本語で話しかける</span>
+                                <span className="hidden md:inline text-lg md:text-xl font-semibold ml-2">{uiText('home.speak', DEFAULT_LANGUAGE)}</span>
                               </button>
                               <button
                                 onClick={async () => {
@@ -753,7 +894,7 @@ export default function Home() {
                                     // Dispatching auto-start event
                                     // Find MarpViewer and trigger auto-play
                                     const autoPlayEvent = new CustomEvent('autoStartPresentation', { 
-                                      detail: { autoPlay: true, language: 'ja' } 
+                                      detail: { autoPlay: true, language: DEFAULT_LANGUAGE } 
                                     });
                                     window.dispatchEvent(autoPlayEvent);
                                     // Event dispatched
@@ -762,32 +903,55 @@ export default function Home() {
                                 className="flex items-center justify-center gap-4 px-8 py-6 md:py-8 bg-gradient-to-r from-purple-500 to-purple-600 text-white rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 min-w-[280px] md:min-w-[320px] touch-manipulation"
                               >
                                 <UserPlus className="w-7 h-7 md:w-8 md:h-8" />
-                                <span className="text-lg md:text-xl font-semibold">初めての方へ</span>
+                                <span className="text-lg md:text-xl font-semibold">{uiText('home.firstTime', DEFAULT_LANGUAGE)}</span>
+                              </button>
+                              <button
+                                onClick={async () => {
+                                  await initializeAudioContext();
+                                  setCheckInLanguage(DEFAULT_LANGUAGE);
+                                }}
+                                className="flex items-center justify-center gap-4 px-8 py-4 md:py-5 bg-white/90 text-purple-700 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-200 min-w-[280px] md:min-w-[320px] touch-manipulation"
+                              >
+                                <ClipboardCheck className="w-6 h-6 md:w-7 md:h-7" />
+                                <span className="text-lg font-semibold">{uiText('home.checkIn', DEFAULT_LANGUAGE)}</span>
                               </button>
                             </div>
                             
-                            {/* English buttons group - right side */}
+                            {/* Guest language buttons group - right side */}
                             <div className="flex flex-col gap-6 w-full lg:w-auto">
+                              <div className="flex flex-wrap justify-center gap-2">
+                                {GUEST_LANGUAGES.map(config => (
+                                  <button
+                                    key={config.code}
+                                    onClick={() => setGuestLanguage(config.code)}
+                                    className={`px-4 py-2 rounded-full text-base font-semibold shadow transition-all duration-200 touch-manipulation ${
+                                      guestLanguage === config.code ? 'bg-white text-emerald-700' : 'bg-white/40 text-white hover:bg-white/60'
+                                    }`}
+                                  >
+                                    {config.flag} {config.name}
+                                  </button>
+                                ))}
+                              </div>
                               <button
                                 onClick={async () => {
                                   await initializeAudioContext();
-                                  handleLanguageVoiceStart('en');
+                                  handleLanguageVoiceStart(guestLanguage);
                                   setIsVoiceActive(true);
                                 }}
                                 className="flex items-center justify-center gap-4 px-8 py-6 md:py-8 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 min-w-[280px] md:min-w-[320px] touch-manipulation"
                               >
                                 <MessageSquare className="w-7 h-7 md:w-8 md:h-8" />
-                                <span className="text-lg md:text-xl font-semibold">Speak English</span>
+                                <span className="text-lg md:text-xl font-semibold">{uiText('home.speak', guestLanguage)}</span>
                               </button>
                               <button
                                 onClick={async () => {
                                   await initializeAudioContext();
                                   setShowSlideMode(true);
-                                  // Auto-start presentation in English
+                                  // Auto-start presentation in the guest language
                                   setTimeout(() => {
                                     // Find MarpViewer and trigger auto-play
                                     const autoPlayEvent = new CustomEvent('autoStartPresentation', { 
-                                      detail: { autoPlay: true, language: 'en' } 
+                                      detail: { autoPlay: true, language: guestLanguage } 
                                     });
                                     window.dispatchEvent(autoPlayEvent);
                                   }, 100);
@@ -795,7 +959,17 @@ export default function Home() {
                                 className="flex items-center justify-center gap-4 px-8 py-6 md:py-8 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 min-w-[280px] md:min-w-[320px] touch-manipulation"
                               >
                                 <UserPlus className="w-7 h-7 md:w-8 md:h-8" />
-                                <span className="text-lg md:text-xl font-semibold">For first-time users</span>
+                                <span className="text-lg md:text-xl font-semibold">{uiText('home.firstTime', guestLanguage)}</span>
+                              </button>
+                              <button
+                                onClick={async () => {
+                                  await initializeAudioContext();
+                                  setCheckInLanguage(guestLanguage);
+                                }}
+                                className="flex items-center justify-center gap-4 px-8 py-4 md:py-5 bg-white/90 text-blue-700 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-200 min-w-[280px] md:min-w-[320px] touch-manipulation"
+                              >
+                                <ClipboardCheck className="w-6 h-6 md:w-7 md:h-7" />
+                                <span className="text-lg font-semibold">{uiText('home.checkIn', guestLanguage)}</span>
                               </button>
                             </div>
                           </div>
@@ -829,6 +1003,17 @@ export default function Home() {
                                 />
                               </svg>
                             </button>
+                            {/* Call staff button */}
+                            <button
+                              onClick={callStaff}
+                              disabled={!!pendingEscalationId || isProcessing}
+                              className="flex items-center gap-2 px-6 py-3 md:py-4 bg-orange-500 hover:bg-orange-600 disabled:bg-orange-300 text-white text-base md:text-lg rounded-xl transition-colors touch-manipulation"
+                            >
+                              <BellRing className="w-5 h-5" />
+                              {pendingEscalationId
+                                ? uiText('home.staffNotified', currentLanguage)
+                                : uiText('home.callStaff', currentLanguage)}
+                            </button>
                             {/* End conversation button */}
                             <button
                               onClick={() => {
@@ -842,7 +1027,7 @@ export default function Home() {
                               }}
                               className="px-6 py-3 md:py-4 bg-gray-500 hover:bg-gray-600 text-white text-base md:text-lg rounded-xl transition-colors touch-manipulation"
                             >
-                              {currentLanguage === 'ja' ? '会話を終了' : 'End'}
+                              {uiText('home.endConversation', currentLanguage)}
                             </button>
                           </div>
                         )}
@@ -917,6 +1102,7 @@ export default function Home() {
                     </div>
                     <div className="h-[calc(100%-4rem)]">
                       <MarpViewer 
+                        onPresentationEnd={() => setShowSlideMode(false)}
                         onVisemeControl={setVisemeFunction}
                         onExpressionControl={setExpressionFunction}
                         volume={volume}
@@ -3,7 +3,11 @@ import { connpassClient } from '../lib/external-apis/connpass-client';
 import { googleCalendarClient } from '../lib/external-apis/google-calendar-client';
 import { supabaseAdmin } from '../lib/supabase';
 import { knowledgeBaseUtils } from '../lib/knowledge-base-utils';
+import { KnowledgeChangeContext } from '../lib/knowledge-revisions';
 import { v4 as uuidv4 } from 'uuid';
+import { WebsiteKnowledgeSync } from './website-sync';
+
+const CRON_CHANGE: KnowledgeChangeContext = { author: 'knowledge-base-updater', origin: 'cron' };
 
 /**
  * Automated knowledge base updater that syncs external data sources
@@ -126,35 +130,45 @@ export class KnowledgeBaseUpdater {
         // Check if event already exists
         const { data: existing } = await supabaseAdmin
           .from('knowledge_base')
-          .select('id')
+          .select('id, deleted_at')
           .eq('metadata->>event_id', event.event_id.toString())
           .single();
         
+        // Staff moved this event to the trash; keep it there
+        if (existing?.deleted_at) continue;
+
         if (existing) {
           // Update existing entry
           const { error } = await supabaseAdmin
             .from('knowledge_base')
             .update({
               ...knowledgeEntry,
-              content_embedding: await knowledgeBaseUtils.generateEmbedding(knowledgeEntry.content),
+              ...(await knowledgeBaseUtils.generateEmbeddingFields(knowledgeEntry.content)),
               updated_at: new Date().toISOString(),
             })
             .eq('id', existing.id);
           
-          if (!error) updated++;
+          if (!error) {
+            updated++;
+            await knowledgeBaseUtils.recordRevision({ id: existing.id, ...knowledgeEntry }, 'update', CRON_CHANGE);
+          }
         } else {
           // Add new entry
+          const id = uuidv4();
           const { error } = await supabaseAdmin
             .from('knowledge_base')
             .insert({
-              id: uuidv4(),
+              id,
               ...knowledgeEntry,
-              content_embedding: await knowledgeBaseUtils.generateEmbedding(knowledgeEntry.content),
+              ...(await knowledgeBaseUtils.generateEmbeddingFields(knowledgeEntry.content)),
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             });
           
-          if (!error) added++;
+          if (!error) {
+            added++;
+            await knowledgeBaseUtils.recordRevision({ id, ...knowledgeEntry }, 'create', CRON_CHANGE);
+          }
         }
       }
       
@@ -209,35 +223,45 @@ export class KnowledgeBaseUpdater {
         // Check if event already exists
         const { data: existing } = await supabaseAdmin
           .from('knowledge_base')
-          .select('id')
+          .select('id, deleted_at')
           .eq('metadata->>event_id', event.id)
           .single();
         
+        // Staff moved this event to the trash; keep it there
+        if (existing?.deleted_at) continue;
+
         if (existing) {
           // Update existing entry
           const { error } = await supabaseAdmin
             .from('knowledge_base')
             .update({
               ...knowledgeEntry,
-              content_embedding: await knowledgeBaseUtils.generateEmbedding(knowledgeEntry.content),
+              ...(await knowledgeBaseUtils.generateEmbeddingFields(knowledgeEntry.content)),
               updated_at: new Date().toISOString(),
             })
             .eq('id', existing.id);
           
-          if (!error) updated++;
+          if (!error) {
+            updated++;
+            await knowledgeBaseUtils.recordRevision({ id: existing.id, ...knowledgeEntry }, 'update', CRON_CHANGE);
+          }
         } else {
           // Add new entry
+          const id = uuidv4();
           const { error } = await supabaseAdmin
             .from('knowledge_base')
             .insert({
-              id: uuidv4(),
+              id,
               ...knowledgeEntry,
-              content_embedding: await knowledgeBaseUtils.generateEmbedding(knowledgeEntry.content),
+              ...(await knowledgeBaseUtils.generateEmbeddingFields(knowledgeEntry.content)),
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             });
           
-          if (!error) added++;
+          if (!error) {
+            added++;
+            await knowledgeBaseUtils.recordRevision({ id, ...knowledgeEntry }, 'create', CRON_CHANGE);
+          }
         }
       }
       
@@ -252,10 +276,18 @@ export class KnowledgeBaseUpdater {
    * Update knowledge base from website scraping
    */
   private async updateFromWebsite(): Promise<string> {
-    // For now, return a placeholder
-    // In production, this would scrape the Engineer Cafe website
-    // using tools like Puppeteer or Playwright
-    return 'Website scraping not yet implemented';
+    try {
+      const result = await new WebsiteKnowledgeSync().run();
+
+      result.failed.forEach(({ url, error }) => {
+        console.warn(`[updateFromWebsite] ${url}: ${error}`);
+      });
+
+      return `Crawled ${result.pages} pages: saved ${result.saved}, unchanged ${result.unchanged}, retired ${result.retired}, failed ${result.failed.length}`;
+    } catch (error) {
+      console.error('[updateFromWebsite] Error:', error);
+      throw error;
+    }
   }
   
   /**
@@ -325,11 +357,23 @@ export class KnowledgeBaseUpdater {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
-    await supabaseAdmin
+    const { data: expired } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, content, category, subcategory, language, source, metadata')
+      .eq('category', 'events')
+      .lt('metadata->>end_date', thirtyDaysAgo.toISOString());
+
+    const { error } = await supabaseAdmin
       .from('knowledge_base')
       .delete()
       .eq('category', 'events')
       .lt('metadata->>end_date', thirtyDaysAgo.toISOString());
+
+    if (!error) {
+      for (const row of expired || []) {
+        await knowledgeBaseUtils.recordRevision(row, 'delete', CRON_CHANGE);
+      }
+    }
   }
   
   /**
@@ -0,0 +1,318 @@
+import { WebsiteCrawler } from '../lib/external-apis/website-crawler';
+import { knowledgeBaseUtils } from '../lib/knowledge-base-utils';
+import { KnowledgeChangeContext } from '../lib/knowledge-revisions';
+import { supabaseAdmin } from '../lib/supabase';
+import {
+  chunkMarkdown,
+  contentHash,
+  detectContentLanguage,
+  extractMainContent,
+} from '../lib/website-content';
+
+/**
+ * Keeps `knowledge_base` rows with source 'website' in step with the official
+ * site. Each page is stored as chunks sharing the page's URL, validators and
+ * content hash in metadata; unchanged pages are skipped and pages removed
+ * from the site are retired.
+ */
+
+export const DEFAULT_WEBSITE_URLS = ['https://engineercafe.jp/ja/', 'https://engineercafe.jp/en/'];
+
+/** Crawl state of a stored page, read back from its chunks' metadata */
+export interface StoredWebsitePage {
+  url: string;
+  contentHash: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface WebsitePageChunk {
+  content: string;
+  language: 'ja' | 'en';
+  heading: string | null;
+  index: number;
+  hash: string;
+}
+
+export interface WebsitePage extends StoredWebsitePage {
+  title: string;
+  chunks: WebsitePageChunk[];
+}
+
+/** Storage used by WebsiteKnowledgeSync; Supabase in production */
+export interface WebsitePageStore {
+  listPages(): Promise<StoredWebsitePage[]>;
+  /** Replace every chunk of page.url with page.chunks */
+  savePage(page: WebsitePage): Promise<void>;
+  /** Record new validators for a page whose content did not change */
+  touchPage(url: string, validators: { etag: string | null; lastModified: string | null }): Promise<void>;
+  retirePage(url: string): Promise<void>;
+}
+
+export interface WebsiteSyncResult {
+  pages: number;
+  saved: number;
+  unchanged: number;
+  retired: number;
+  failed: Array<{ url: string; error: string }>;
+}
+
+export function getWebsiteCrawlUrls(): string[] {
+  const configured = process.env.WEBSITE_CRAWL_URLS;
+  return configured
+    ? configured.split(',').map(url => url.trim()).filter(Boolean)
+    : DEFAULT_WEBSITE_URLS;
+}
+
+type KnowledgeRow = { id: string; metadata: Record<string, any> | null };
+
+const WEBSITE_SYNC_CHANGE: KnowledgeChangeContext = { author: 'website-sync', origin: 'cron' };
+
+/** Page text for its revision history; rows are replaced on every crawl, so history is keyed by URL */
+function pageSnapshot(url: string, title: string, chunks: Array<{ content: string; language: string }>) {
+  return {
+    content: chunks.map(chunk => chunk.content).join('\n\n'),
+    category: 'website',
+    subcategory: title,
+    language: chunks[0].language,
+    source: 'website',
+    metadata: { url, title },
+  };
+}
+
+export class SupabaseWebsitePageStore implements WebsitePageStore {
+  async listPages(): Promise<StoredWebsitePage[]> {
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, metadata')
+      .eq('source', 'website');
+
+    if (error) throw error;
+
+    const pages = new Map<string, StoredWebsitePage>();
+    for (const row of (data || []) as KnowledgeRow[]) {
+      const metadata = row.metadata || {};
+      if (metadata.url && !pages.has(metadata.url)) {
+        pages.set(metadata.url, {
+          url: metadata.url,
+          contentHash: metadata.content_hash,
+          etag: metadata.etag ?? null,
+          lastModified: metadata.last_modified ?? null,
+        });
+      }
+    }
+    return Array.from(pages.values());
+  }
+
+  async savePage(page: WebsitePage): Promise<void> {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, metadata, content_embedding, embedding_model, embedding_dimensions')
+      .eq('source', 'website')
+      .eq('metadata->>url', page.url);
+
+    if (existingError) throw existingError;
+
+    // Chunks that did not change keep their embedding
+    const currentModel = knowledgeBaseUtils.embeddingModelId;
+    const embeddings = new Map<string, any>();
+    for (const row of existing || []) {
+      if (row.metadata?.chunk_hash && row.embedding_model === currentModel) {
+        embeddings.set(row.metadata.chunk_hash, {
+          content_embedding: row.content_embedding,
+          embedding_model: row.embedding_model,
+          embedding_dimensions: row.embedding_dimensions,
+        });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const rows = [];
+    for (const chunk of page.chunks) {
+      rows.push({
+        content: chunk.content,
+        category: 'website',
+        subcategory: page.title,
+        language: chunk.language,
+        source: 'website',
+        metadata: {
+          source: 'website',
+          url: page.url,
+          title: page.title,
+          heading: chunk.heading,
+          chunk_index: chunk.index,
+          chunk_count: page.chunks.length,
+          chunk_hash: chunk.hash,
+          content_hash: page.contentHash,
+          etag: page.etag,
+          last_modified: page.lastModified,
+          crawled_at: now,
+        },
+        ...(embeddings.get(chunk.hash) || await knowledgeBaseUtils.generateEmbeddingFields(chunk.content)),
+        created_at: now,
+        updated_at: now,
+      });
+    }
+
+    // Insert before deleting so the page never disappears from search mid-update
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin.from('knowledge_base').insert(rows);
+      if (error) throw error;
+    }
+
+    const staleIds = (existing || []).map((row: KnowledgeRow) => row.id);
+    if (staleIds.length > 0) {
+      const { error } = await supabaseAdmin.from('knowledge_base').delete().in('id', staleIds);
+      if (error) throw error;
+    }
+
+    if (page.chunks.length > 0) {
+      await knowledgeBaseUtils.recordRevision(
+        pageSnapshot(page.url, page.title, page.chunks),
+        staleIds.length > 0 ? 'update' : 'create',
+        WEBSITE_SYNC_CHANGE
+      );
+    }
+  }
+
+  async touchPage(url: string, validators: { etag: string | null; lastModified: string | null }): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, metadata')
+      .eq('source', 'website')
+      .eq('metadata->>url', url);
+
+    if (error) throw error;
+
+    for (const row of (data || []) as KnowledgeRow[]) {
+      await supabaseAdmin
+        .from('knowledge_base')
+        .update({
+          metadata: {
+            ...row.metadata,
+            etag: validators.etag,
+            last_modified: validators.lastModified,
+            crawled_at: new Date().toISOString(),
+          },
+        })
+        .eq('id', row.id);
+    }
+  }
+
+  async retirePage(url: string): Promise<void> {
+    const { data: rows, error: rowsError } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('content, language, metadata')
+      .eq('source', 'website')
+      .eq('metadata->>url', url);
+
+    if (rowsError) throw rowsError;
+
+    const { error } = await supabaseAdmin
+      .from('knowledge_base')
+      .delete()
+      .eq('source', 'website')
+      .eq('metadata->>url', url);
+
+    if (error) throw error;
+
+    if (rows && rows.length > 0) {
+      rows.sort((a, b) => (a.metadata?.chunk_index ?? 0) - (b.metadata?.chunk_index ?? 0));
+      await knowledgeBaseUtils.recordRevision(
+        pageSnapshot(url, rows[0].metadata?.title || url, rows),
+        'delete',
+        WEBSITE_SYNC_CHANGE
+      );
+    }
+  }
+}
+
+export class WebsiteKnowledgeSync {
+  constructor(
+    private readonly crawler: WebsiteCrawler = new WebsiteCrawler(),
+    private readonly store: WebsitePageStore = new SupabaseWebsitePageStore()
+  ) {}
+
+  async run(seedUrls: string[] = getWebsiteCrawlUrls()): Promise<WebsiteSyncResult> {
+    const result: WebsiteSyncResult = { pages: 0, saved: 0, unchanged: 0, retired: 0, failed: [] };
+    const known = new Map((await this.store.listPages()).map(page => [page.url, page] as [string, StoredWebsitePage]));
+    const discovery = await this.crawler.discover(seedUrls);
+    result.pages = discovery.urls.length;
+
+    for (const url of discovery.urls) {
+      const stored = known.get(url);
+      const fetched = await this.crawler.fetchPage(url, stored);
+
+      try {
+        switch (fetched.status) {
+          case 'not_modified':
+            result.unchanged++;
+            break;
+
+          case 'gone':
+          case 'disallowed':
+            if (stored) {
+              await this.store.retirePage(url);
+              result.retired++;
+            }
+            break;
+
+          case 'error':
+            result.failed.push({ url, error: fetched.error });
+            break;
+
+          case 'ok': {
+            const page = this.buildPage(url, fetched.html, fetched.etag, fetched.lastModified);
+            if (stored && stored.contentHash === page.contentHash) {
+              await this.store.touchPage(url, { etag: page.etag, lastModified: page.lastModified });
+              result.unchanged++;
+            } else if (page.chunks.length === 0) {
+              result.failed.push({ url, error: 'No content found' });
+            } else {
+              await this.store.savePage(page);
+              result.saved++;
+            }
+            break;
+          }
+        }
+      } catch (error) {
+        result.failed.push({ url, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Pages no longer listed anywhere; only trusted when every sitemap was read
+    if (discovery.complete) {
+      const listed = new Set(discovery.urls);
+      for (const url of Array.from(known.keys())) {
+        if (!listed.has(url)) {
+          try {
+            await this.store.retirePage(url);
+            result.retired++;
+          } catch (error) {
+            result.failed.push({ url, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private buildPage(url: string, html: string, etag: string | null, lastModified: string | null): WebsitePage {
+    const extracted = extractMainContent(html);
+    return {
+      url,
+      title: extracted.title || url,
+      contentHash: contentHash(extracted.markdown),
+      etag,
+      lastModified,
+      chunks: chunkMarkdown(extracted.markdown).map(chunk => ({
+        content: chunk.content,
+        heading: chunk.heading,
+        index: chunk.index,
+        language: detectContentLanguage(chunk.content, extracted.language),
+        hash: contentHash(chunk.content),
+      })),
+    };
+  }
+}
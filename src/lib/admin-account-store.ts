@@ -0,0 +1,357 @@
+import { AdminRole } from './admin-session';
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Persistence for staff accounts, automation API tokens and the admin audit
+ * log. API tokens are stored as SHA-256 hashes; the plain token is shown once
+ * when it is created.
+ */
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: AdminRole;
+  disabled: boolean;
+  /** scrypt hash, see hashPassword() in admin-auth.ts */
+  passwordHash: string;
+  createdAt?: string;
+  lastLoginAt?: string | null;
+}
+
+export interface AdminApiToken {
+  id: string;
+  name: string;
+  tokenHash: string;
+  role: AdminRole;
+  createdBy: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt?: string;
+  lastUsedAt?: string | null;
+}
+
+export type AdminActorType = 'session' | 'api_token' | 'legacy_token' | 'cron';
+
+export interface AdminAuditEntry {
+  id?: string;
+  actor: string;
+  actorType: AdminActorType;
+  role: AdminRole | null;
+  /** e.g. "knowledge.update", "auth.login_failed" */
+  action: string;
+  resource: string | null;
+  details?: Record<string, any> | null;
+  createdAt?: string;
+}
+
+export type NewAdminUser = Omit<AdminUser, 'id' | 'createdAt' | 'lastLoginAt'>;
+export type AdminUserUpdate = Partial<Pick<AdminUser, 'displayName' | 'role' | 'disabled' | 'passwordHash' | 'lastLoginAt'>>;
+export type NewAdminApiToken = Omit<AdminApiToken, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt'>;
+
+/** Duplicate username and similar input problems; the admin API answers 400 */
+export class AdminAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminAccountError';
+  }
+}
+
+export interface AdminAccountStore {
+  getUser(id: string): Promise<AdminUser | null>;
+  findUserByUsername(username: string): Promise<AdminUser | null>;
+  listUsers(): Promise<AdminUser[]>;
+  createUser(user: NewAdminUser): Promise<AdminUser>;
+  updateUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | null>;
+  findApiToken(tokenHash: string): Promise<AdminApiToken | null>;
+  listApiTokens(): Promise<AdminApiToken[]>;
+  createApiToken(token: NewAdminApiToken): Promise<AdminApiToken>;
+  updateApiToken(id: string, updates: { lastUsedAt?: string; revokedAt?: string }): Promise<AdminApiToken | null>;
+  appendAudit(entry: AdminAuditEntry): Promise<void>;
+  listAudit(options?: { limit?: number; actor?: string; action?: string }): Promise<AdminAuditEntry[]>;
+}
+
+function toUser(row: any): AdminUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    disabled: row.disabled,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at,
+  };
+}
+
+function toApiToken(row: any): AdminApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenHash: row.token_hash,
+    role: row.role,
+    createdBy: row.created_by,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/**
+ * admin_users, admin_api_tokens and admin_audit_log tables
+ * (supabase/migrations/20250628000000_add_admin_accounts.sql)
+ */
+export class SupabaseAdminAccountStore implements AdminAccountStore {
+  async getUser(id: string): Promise<AdminUser | null> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toUser(data) : null;
+  }
+
+  async findUserByUsername(username: string): Promise<AdminUser | null> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .select('*')
+      .eq('username', username)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toUser(data) : null;
+  }
+
+  async listUsers(): Promise<AdminUser[]> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .select('*')
+      .order('username');
+
+    if (error) throw error;
+    return (data || []).map(toUser);
+  }
+
+  async createUser(user: NewAdminUser): Promise<AdminUser> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .insert({
+        username: user.username,
+        display_name: user.displayName,
+        role: user.role,
+        disabled: user.disabled,
+        password_hash: user.passwordHash,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new AdminAccountError(`User "${user.username}" already exists`);
+      throw error;
+    }
+    return toUser(data);
+  }
+
+  async updateUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | null> {
+    const row: Record<string, any> = {};
+    if (updates.displayName !== undefined) row.display_name = updates.displayName;
+    if (updates.role !== undefined) row.role = updates.role;
+    if (updates.disabled !== undefined) row.disabled = updates.disabled;
+    if (updates.passwordHash !== undefined) row.password_hash = updates.passwordHash;
+    if (updates.lastLoginAt !== undefined) row.last_login_at = updates.lastLoginAt;
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_users')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toUser(data) : null;
+  }
+
+  async findApiToken(tokenHash: string): Promise<AdminApiToken | null> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_api_tokens')
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toApiToken(data) : null;
+  }
+
+  async listApiTokens(): Promise<AdminApiToken[]> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_api_tokens')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toApiToken);
+  }
+
+  async createApiToken(token: NewAdminApiToken): Promise<AdminApiToken> {
+    const { data, error } = await supabaseAdmin
+      .from('admin_api_tokens')
+      .insert({
+        name: token.name,
+        token_hash: token.tokenHash,
+        role: token.role,
+        created_by: token.createdBy,
+        expires_at: token.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toApiToken(data);
+  }
+
+  async updateApiToken(id: string, updates: { lastUsedAt?: string; revokedAt?: string }): Promise<AdminApiToken | null> {
+    const row: Record<string, any> = {};
+    if (updates.lastUsedAt !== undefined) row.last_used_at = updates.lastUsedAt;
+    if (updates.revokedAt !== undefined) row.revoked_at = updates.revokedAt;
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_api_tokens')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toApiToken(data) : null;
+  }
+
+  async appendAudit(entry: AdminAuditEntry): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        actor: entry.actor,
+        actor_type: entry.actorType,
+        role: entry.role,
+        action: entry.action,
+        resource: entry.resource,
+        details: entry.details ?? null,
+      });
+
+    if (error) throw error;
+  }
+
+  async listAudit(options: { limit?: number; actor?: string; action?: string } = {}): Promise<AdminAuditEntry[]> {
+    let query = supabaseAdmin
+      .from('admin_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.actor) query = query.eq('actor', options.actor);
+    if (options.action) query = query.like('action', `${options.action}%`);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      actor: row.actor,
+      actorType: row.actor_type,
+      role: row.role,
+      action: row.action,
+      resource: row.resource,
+      details: row.details,
+      createdAt: row.created_at,
+    }));
+  }
+}
+
+/** Process-local store for tests and setups without Supabase */
+export class InMemoryAdminAccountStore implements AdminAccountStore {
+  private users = new Map<string, AdminUser>();
+  private tokens = new Map<string, AdminApiToken>();
+  private audit: AdminAuditEntry[] = [];
+  private nextId = 1;
+
+  async getUser(id: string): Promise<AdminUser | null> {
+    return this.users.get(id) || null;
+  }
+
+  async findUserByUsername(username: string): Promise<AdminUser | null> {
+    return Array.from(this.users.values()).find(user => user.username === username) || null;
+  }
+
+  async listUsers(): Promise<AdminUser[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async createUser(user: NewAdminUser): Promise<AdminUser> {
+    if (await this.findUserByUsername(user.username)) {
+      throw new AdminAccountError(`User "${user.username}" already exists`);
+    }
+    const created = { ...user, id: `user-${this.nextId++}`, createdAt: new Date().toISOString(), lastLoginAt: null };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async updateUser(id: string, updates: AdminUserUpdate): Promise<AdminUser | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    const updated = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async findApiToken(tokenHash: string): Promise<AdminApiToken | null> {
+    return Array.from(this.tokens.values()).find(token => token.tokenHash === tokenHash) || null;
+  }
+
+  async listApiTokens(): Promise<AdminApiToken[]> {
+    return Array.from(this.tokens.values());
+  }
+
+  async createApiToken(token: NewAdminApiToken): Promise<AdminApiToken> {
+    const created = {
+      ...token,
+      id: `token-${this.nextId++}`,
+      revokedAt: null,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+    };
+    this.tokens.set(created.id, created);
+    return created;
+  }
+
+  async updateApiToken(id: string, updates: { lastUsedAt?: string; revokedAt?: string }): Promise<AdminApiToken | null> {
+    const token = this.tokens.get(id);
+    if (!token) return null;
+    const updated = { ...token, ...updates };
+    this.tokens.set(id, updated);
+    return updated;
+  }
+
+  async appendAudit(entry: AdminAuditEntry): Promise<void> {
+    this.audit.unshift({ ...entry, createdAt: new Date().toISOString() });
+  }
+
+  async listAudit(options: { limit?: number; actor?: string; action?: string } = {}): Promise<AdminAuditEntry[]> {
+    return this.audit
+      .filter(entry => (!options.actor || entry.actor === options.actor)
+        && (!options.action || entry.action.startsWith(options.action)))
+      .slice(0, options.limit || 50);
+  }
+}
+
+/** Account fields safe to return from the admin API */
+export function publicAdminUser(user: AdminUser) {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+export function publicApiToken(token: AdminApiToken) {
+  const { tokenHash: _tokenHash, ...rest } = token;
+  return rest;
+}
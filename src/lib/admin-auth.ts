@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AdminAccountStore,
+  AdminActorType,
+  AdminUser,
+  SupabaseAdminAccountStore,
+} from './admin-account-store';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  AdminRole,
+  getSessionSecret,
+  hasRole,
+  verifySessionToken,
+} from './admin-session';
+
+/**
+ * Authentication for admin and operational routes. Staff sign in with a
+ * password and get a signed session cookie; automation sends an API token as
+ * a bearer token. Each route states the least role it needs
+ * (viewer < editor < operator < admin).
+ *
+ * ADMIN_API_TOKEN still works as an admin bearer token, with the operator's
+ * name in X-Admin-User, so the first staff accounts can be created with it.
+ */
+
+export interface AdminPrincipal {
+  /** Recorded as the actor in audit logs */
+  actor: string;
+  role: AdminRole;
+  type: AdminActorType;
+  userId?: string;
+  tokenId?: string;
+}
+
+export type AdminAuthResult =
+  | { authorized: true; actor: string; principal: AdminPrincipal }
+  | { authorized: false; response: NextResponse };
+
+const API_TOKEN_PREFIX = 'ecn_';
+
+let accountStore: AdminAccountStore | null = null;
+
+export function getAdminAccountStore(): AdminAccountStore {
+  if (!accountStore) {
+    accountStore = new SupabaseAdminAccountStore();
+  }
+  return accountStore;
+}
+
+function deny(status: 401 | 403 | 503, error: string): AdminAuthResult {
+  return { authorized: false, response: NextResponse.json({ error }, { status }) };
+}
+
+export async function authenticateAdmin(
+  request: NextRequest,
+  requiredRole: AdminRole,
+  store: AdminAccountStore = getAdminAccountStore()
+): Promise<AdminAuthResult> {
+  let principal: AdminPrincipal | null;
+  try {
+    principal = await resolvePrincipal(request, store);
+  } catch (error) {
+    console.error('[AdminAuth] Failed to verify credentials:', error);
+    return deny(503, 'Authentication unavailable');
+  }
+
+  if (!principal) {
+    return deny(401, 'Unauthorized');
+  }
+  if (!hasRole(principal.role, requiredRole)) {
+    return deny(403, `Forbidden: requires ${requiredRole} role`);
+  }
+  return { authorized: true, actor: principal.actor, principal };
+}
+
+/**
+ * Scheduled jobs: the CRON_SECRET bearer token used by Vercel Cron, or any
+ * admin credential with at least `requiredRole`
+ */
+export async function authenticateAutomation(
+  request: NextRequest,
+  requiredRole: AdminRole = 'operator',
+  store: AdminAccountStore = getAdminAccountStore()
+): Promise<AdminAuthResult> {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+  if (cronSecret && authHeader && timingSafeEqualStr(authHeader, `Bearer ${cronSecret}`)) {
+    return { authorized: true, actor: 'cron', principal: { actor: 'cron', role: 'operator', type: 'cron' } };
+  }
+  return authenticateAdmin(request, requiredRole, store);
+}
+
+async function resolvePrincipal(request: NextRequest, store: AdminAccountStore): Promise<AdminPrincipal | null> {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return resolveBearerToken(request, authHeader.slice('Bearer '.length).trim(), store);
+  }
+
+  const secret = getSessionSecret();
+  const session = secret ? await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, secret) : null;
+  if (!session) return null;
+
+  // Disabling an account or changing its role applies to live sessions
+  const user = await store.getUser(session.userId);
+  if (!user || user.disabled) return null;
+  return { actor: user.username, role: user.role, type: 'session', userId: user.id };
+}
+
+async function resolveBearerToken(request: NextRequest, token: string, store: AdminAccountStore): Promise<AdminPrincipal | null> {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (adminToken && timingSafeEqualStr(token, adminToken)) {
+    const actor = request.headers.get('x-admin-user')?.trim().slice(0, 255) || 'admin';
+    return { actor, role: 'admin', type: 'legacy_token' };
+  }
+
+  // Anything not shaped like generateApiToken() output cannot be a stored token
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const record = await store.findApiToken(hashApiToken(token));
+  if (!record || record.revokedAt) return null;
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) return null;
+
+  store.updateApiToken(record.id, { lastUsedAt: new Date().toISOString() }).catch(error => {
+    console.error('[AdminAuth] Failed to record token use:', error);
+  });
+  return { actor: `token:${record.name}`, role: record.role, type: 'api_token', tokenId: record.id };
+}
+
+/**
+ * Append a write operation to admin_audit_log. Failures are logged, never
+ * thrown, so an audit outage does not undo a change that already happened.
+ */
+export async function recordAdminAudit(
+  principal: AdminPrincipal | { actor: string; role: AdminRole | null; type: AdminActorType },
+  action: string,
+  options: { resource?: string | null; details?: Record<string, any> | null } = {},
+  store: AdminAccountStore = getAdminAccountStore()
+): Promise<void> {
+  try {
+    await store.appendAudit({
+      actor: principal.actor,
+      actorType: principal.type,
+      role: principal.role,
+      action,
+      resource: options.resource ?? null,
+      details: options.details ?? null,
+    });
+  } catch (error) {
+    console.error('[AdminAuth] Failed to write audit log:', error);
+  }
+}
+
+const SCRYPT_COST = 16384;
+const SCRYPT_KEY_LENGTH = 64;
+
+/** Stored as scrypt$<cost>$<salt>$<hash> so the cost can be raised later */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH, { N: SCRYPT_COST }).toString('hex');
+  return `scrypt$${SCRYPT_COST}$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, cost, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const candidate = crypto.scryptSync(password, salt, hash.length / 2, { N: parseInt(cost, 10) });
+  return crypto.timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+/** A new API token; only its hash is stored */
+export function generateApiToken(): { token: string; tokenHash: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { token, tokenHash: hashApiToken(token) };
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+let dummyPasswordHash: string | null = null;
+
+/** The account for a username/password pair, or null; a hash is always computed so timing does not reveal usernames */
+export async function verifyStaffLogin(
+  username: string,
+  password: string,
+  store: AdminAccountStore = getAdminAccountStore()
+): Promise<AdminUser | null> {
+  const user = await store.findUserByUsername(username);
+  if (!dummyPasswordHash) dummyPasswordHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+  const valid = verifyPassword(password, user?.passwordHash || dummyPasswordHash);
+  if (!user || !valid || user.disabled) return null;
+
+  return (await store.updateUser(user.id, { lastLoginAt: new Date().toISOString() })) || user;
+}
+
+export function sessionCookieOptions(maxAge: number = ADMIN_SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    // Lax keeps the cookie off cross-site POST/PUT/DELETE requests
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production' || !!process.env.NEXTAUTH_URL?.startsWith('https://'),
+    path: '/',
+    maxAge,
+  };
+}
+
+function timingSafeEqualStr(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
@@ -0,0 +1,91 @@
+/**
+ * Staff roles and signed session cookies. Only Web Crypto is used so the same
+ * code verifies sessions in the Edge middleware and in API routes.
+ */
+
+/** Ordered from least to most privileged; each role includes the ones before it */
+export const ADMIN_ROLES = ['viewer', 'editor', 'operator', 'admin'] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_SESSION_COOKIE = 'ec_admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export interface AdminSessionPayload {
+  userId: string;
+  username: string;
+  role: AdminRole;
+  /** Expiry, seconds since the epoch */
+  exp: number;
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).indexOf(value) !== -1;
+}
+
+export function hasRole(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+/** Signing secret for sessions (NEXTAUTH_SECRET); sessions are disabled without it */
+export function getSessionSecret(): string | null {
+  return process.env.NEXTAUTH_SECRET || null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sign(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data))));
+}
+
+export async function createSessionToken(
+  session: Omit<AdminSessionPayload, 'exp'>,
+  secret: string,
+  ttlSeconds: number = ADMIN_SESSION_TTL_SECONDS
+): Promise<string> {
+  const payload: AdminSessionPayload = { ...session, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${body}.${await sign(body, secret)}`;
+}
+
+/** The session in a cookie value, or null when it is malformed, forged or expired */
+export async function verifySessionToken(token: string | undefined | null, secret: string): Promise<AdminSessionPayload | null> {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = await sign(body, secret);
+  // Compare in constant time; both are base64url of a SHA-256 digest
+  if (expected.length !== signature.length) return null;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  if (diff !== 0) return null;
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    if (!payload.userId || !isAdminRole(payload.role) || typeof payload.exp !== 'number') return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -20,6 +20,7 @@ export class AudioQueue {
   private currentAudioService: MobileAudioService | null = null;
   private volume = 0.8;
   private onFinishedCallback?: () => void;
+  private onItemStartCallback?: (item: AudioQueueItem) => void;
   private isSkipping = false;
 
   constructor() {
@@ -33,6 +34,13 @@ export class AudioQueue {
     this.onFinishedCallback = callback;
   }
 
+  /**
+   * Set callback for when an item starts playing
+   */
+  setOnItemStart(callback: (item: AudioQueueItem) => void): void {
+    this.onItemStartCallback = callback;
+  }
+
   /**
    * Add audio to the queue
    */
@@ -63,6 +71,8 @@ export class AudioQueue {
   clear(): void {
     this.queue = [];
     if (this.currentAudioService) {
+      // Silence the clip that is playing now, e.g. when the visitor interrupts
+      this.currentAudioService.stop();
       this.currentAudioService = null;
     }
     this.isPlaying = false;
@@ -150,6 +160,7 @@ export class AudioQueue {
     });
     
     this.currentAudioService = audioService;
+    this.onItemStartCallback?.(item);
     
     // Play the audio using Web Audio API
     const result = await audioService.playAudio(item.audioData);
@@ -0,0 +1,94 @@
+/**
+ * Playback length of synthesised audio, read from the bytes without
+ * decoding. Covers what the TTS providers return: PCM WAV (local and fake
+ * providers) and MPEG Layer III (Google).
+ */
+
+const MP3_BITRATES_KBPS = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function readUInt32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)) + bytes[offset + 3] * 0x1000000;
+}
+
+function wavDuration(bytes: Uint8Array): number | null {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readAscii(bytes, offset, 4);
+    const size = readUInt32LE(bytes, offset + 4);
+    if (id === 'fmt ') {
+      byteRate = readUInt32LE(bytes, offset + 16);
+    } else if (id === 'data') {
+      // Streamed WAVs may leave the size unset; count what actually arrived
+      const dataSize = Math.min(size, bytes.length - offset - 8);
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/** Skip an ID3v2 tag; its size is a 28-bit synchsafe integer */
+function id3Length(bytes: Uint8Array): number {
+  if (bytes.length < 10 || readAscii(bytes, 0, 3) !== 'ID3') return 0;
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  return 10 + size + ((bytes[5] & 0x10) ? 10 : 0);
+}
+
+/** Sum the frames, so variable bitrate files are measured correctly too */
+function mp3Duration(bytes: Uint8Array): number | null {
+  let offset = id3Length(bytes);
+  let seconds = 0;
+  let frames = 0;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+      offset++;
+      continue;
+    }
+    const version = (bytes[offset + 1] >> 3) & 0x03;
+    const layer = (bytes[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = bytes[offset + 2] >> 4;
+    const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+    const padding = (bytes[offset + 2] >> 1) & 0x01;
+    const sampleRates = MP3_SAMPLE_RATES[version];
+
+    // Only Layer III; anything else is a false sync inside frame data
+    if (layer !== 1 || !sampleRates || sampleRateIndex === 3 || bitrateIndex === 0 || bitrateIndex === 15) {
+      offset++;
+      continue;
+    }
+
+    const sampleRate = sampleRates[sampleRateIndex];
+    const bitrate = (version === 3 ? MP3_BITRATES_KBPS.mpeg1 : MP3_BITRATES_KBPS.mpeg2)[bitrateIndex] * 1000;
+    const samplesPerFrame = version === 3 ? 1152 : 576;
+    const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+    seconds += samplesPerFrame / sampleRate;
+    frames++;
+    offset += frameLength;
+  }
+
+  return frames > 0 ? seconds : null;
+}
+
+/** Duration in seconds, or null when the format is not recognised */
+export function getAudioDuration(bytes: Uint8Array): number | null {
+  if (bytes.length >= 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WAVE') {
+    return wavDuration(bytes);
+  }
+  return mp3Duration(bytes);
+}
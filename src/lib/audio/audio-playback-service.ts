@@ -16,10 +16,13 @@ import {
   type AudioOperationResult
 } from './audio-interfaces';
 import { MobileAudioService } from './mobile-audio-service';
+import { findVisemeFrame } from '../viseme-timeline';
 
 export interface AudioPlaybackOptions {
   volume?: number;
   enableLipSync?: boolean;
+  /** Server-side viseme timeline for this clip; the audio is analysed in the browser only without one */
+  visemes?: LipSyncData | null;
   onVisemeUpdate?: (viseme: string, intensity: number) => void;
   onPlaybackEnd?: () => void;
   onError?: (error: AudioError) => void;
@@ -75,10 +78,12 @@ export class AudioPlaybackService {
       let playbackStartTime = 0;
       let isPlaying = false;
 
-      // Perform lip-sync analysis if enabled
-      let lipSyncData: LipSyncData | null = null;
+      // Prefer the server's timeline; fall back to analysing the audio
+      let lipSyncData: LipSyncData | null = options.enableLipSync && options.visemes?.frames.length
+        ? options.visemes
+        : null;
       
-      if (options.enableLipSync && options.onVisemeUpdate && typeof audioData === 'string') {
+      if (!lipSyncData && options.enableLipSync && options.onVisemeUpdate && typeof audioData === 'string') {
         try {
           // Convert base64 to blob for lip-sync analysis
           const blobResult = await AudioDataProcessor.base64ToBlob(audioData);
@@ -102,12 +107,7 @@ export class AudioPlaybackService {
         }
 
         const currentTime = (performance.now() - playbackStartTime) / 1000;
-        
-        // Find the appropriate frame for current time
-        const frame = lipSyncData.frames.find((f, index) => {
-          const nextFrame = lipSyncData.frames[index + 1];
-          return f.time <= currentTime && (!nextFrame || nextFrame.time > currentTime);
-        });
+        const frame = findVisemeFrame(lipSyncData, currentTime);
 
         if (frame) {
           options.onVisemeUpdate(frame.mouthShape, frame.mouthOpen);
@@ -35,11 +35,19 @@ export class RAGCache {
     return `${prefix}:${hash}`;
   }
   
+  /**
+   * Embedding keys include the provider and model (e.g. 'openai:text-embedding-3-small')
+   * so switching models never serves a vector from another space
+   */
+  private generateEmbeddingKey(text: string, modelId: string): string {
+    return this.generateKey(`embedding:${modelId}`, text);
+  }
+  
   /**
    * Get cached embedding for text
    */
-  async getCachedEmbedding(text: string): Promise<number[] | null> {
-    const key = this.generateKey('embedding', text);
+  async getCachedEmbedding(text: string, modelId: string): Promise<number[] | null> {
+    const key = this.generateEmbeddingKey(text, modelId);
     
     try {
       if (this.isRedisAvailable && this.redis) {
@@ -66,8 +74,8 @@ export class RAGCache {
   /**
    * Cache embedding for text
    */
-  async cacheEmbedding(text: string, embedding: number[], ttl = 86400): Promise<void> {
-    const key = this.generateKey('embedding', text);
+  async cacheEmbedding(text: string, modelId: string, embedding: number[], ttl = 86400): Promise<void> {
+    const key = this.generateEmbeddingKey(text, modelId);
     
     try {
       if (this.isRedisAvailable && this.redis) {
@@ -1,10 +1,13 @@
+import type { EmotionName } from './emotion-registry';
+import type { SupportedLanguage } from './languages';
+
 export interface ConversationEntry {
   id: string;
   timestamp: number;
   userInput: string;
   aiResponse: string;
   emotion: string;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   responseTime: number;
   cached: boolean;
 }
@@ -12,7 +15,7 @@ export interface ConversationEntry {
 export interface ConversationContext {
   recentTopics: string[];
   userPreferences: {
-    preferredLanguage: 'ja' | 'en';
+    preferredLanguage: SupportedLanguage;
     commonEmotions: string[];
     responseStyle: 'formal' | 'casual' | 'technical';
   };
@@ -29,9 +32,9 @@ export interface FAQEntry {
   answer: string;
   keywords: string[];
   category: string;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   audioBase64?: string;
-  emotion: string;
+  emotion: EmotionName;
   useCount: number;
   lastUsed: number;
 }
@@ -147,7 +150,7 @@ export class ConversationMemory {
       keywords: ['プログラマー', 'キャリア', '就職', '学習方法'],
       category: 'career',
       language: 'ja',
-      emotion: 'enthusiastic',
+      emotion: 'excited',
       useCount: 0,
       lastUsed: 0
     },
@@ -158,7 +161,7 @@ export class ConversationMemory {
       keywords: ['programmer', 'career', 'job', 'learning'],
       category: 'career',
       language: 'en',
-      emotion: 'enthusiastic',
+      emotion: 'excited',
       useCount: 0,
       lastUsed: 0
     },
@@ -334,7 +337,7 @@ export class ConversationMemory {
   }
 
   // FAQ検索
-  static searchFAQ(query: string, language: 'ja' | 'en'): FAQEntry | null {
+  static searchFAQ(query: string, language: SupportedLanguage): FAQEntry | null {
     try {
       // カスタムFAQから検索
       const customFAQs = this.getCustomFAQs();
@@ -516,7 +519,7 @@ export class ConversationMemory {
   }
 
   // レコメンド機能：よく使われるFAQを取得
-  static getPopularFAQs(language: 'ja' | 'en', limit: number = 5): FAQEntry[] {
+  static getPopularFAQs(language: SupportedLanguage, limit: number = 5): FAQEntry[] {
     try {
       const allFAQs = [...this.PREDEFINED_FAQ, ...this.getCustomFAQs()];
       return allFAQs
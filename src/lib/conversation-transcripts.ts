@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import { getMostFrequentEmotion } from './emotion-utils';
+import { promptLanguageOf, SupportedLanguage } from './languages';
+
+/**
+ * Conversation summaries and staff-facing transcript exports.
+ * Everything leaving this module is redacted: visitor ids are replaced by a
+ * pseudonym and contact details or self-introductions in message text are
+ * masked, so transcripts can be shared without identifying visitors.
+ */
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt?: string | null;
+  emotion?: string | null;
+}
+
+export interface TranscriptSession {
+  id: string;
+  visitorId?: string | null;
+  language: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  status: string | null;
+  endReason?: string | null;
+  escalated?: boolean;
+  primaryEmotion?: string | null;
+  summary?: string | null;
+}
+
+export interface ConversationSummary {
+  userMessages: number;
+  assistantMessages: number;
+  dominantEmotion: string | null;
+  /** First distinct visitor questions, redacted and shortened */
+  topics: string[];
+}
+
+export type TranscriptFormat = 'json' | 'csv' | 'markdown';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'csv', 'markdown'];
+
+const MAX_TOPICS = 3;
+const MAX_TOPIC_LENGTH = 40;
+
+// Common answers that look like "Xです" but are not names
+const NOT_NAMES = new Set([
+  '大丈夫', '結構', '以上', '了解', '本当', '無料', '有料', '予約', '地下', '今日', '明日', '昨日',
+  '学生', '社会人', '会員', '初心者', 'エンジニア', 'フリーランス', 'デザイナー',
+]);
+
+/** Kanji or katakana that is not a common reply or a count ("2名", "一人", "3階") */
+function maskName(name: string): string | null {
+  return NOT_NAMES.has(name) || /[人名時分回階円日月年歳]$/.test(name) ? null : '[名前]';
+}
+
+const REDACTIONS: Array<[RegExp, string | ((match: string, ...groups: string[]) => string)]> = [
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '[email]'],
+  // Card numbers before phone numbers, which would otherwise swallow them
+  [/\b\d{4}[ -]?\d{4}[ -]?\d{4}[ -]?\d{1,4}\b/g, '[card]'],
+  [/\+?\d[\d\s-]{8,}\d/g, match => {
+    const digits = match.replace(/\D/g, '').length;
+    return digits >= 10 && digits <= 15 ? '[phone]' : match;
+  }],
+  [/〒?\s?\d{3}-\d{4}\b/g, '[postal code]'],
+  // Only capitalised words count as names, so "I'm looking for..." is kept
+  [/\b([Mm]y name is|[Cc]all me|I'm|I am)\s+[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?/g, '$1 [name]'],
+  [/(私の名前は|名前は)([^\s、。！？!?[\]]{1,12}?)(です|と申します|といいます|と言います)/g, '$1[名前]$3'],
+  [/([^\s、。！？!?[\]]{1,12})(と申します|といいます|と言います)/g, '[名前]$2'],
+  // "私は田中です", and a bare "田中です" at the start of a sentence or reply
+  [/(私は|わたしは|僕は|ぼくは)([一-龯々ァ-ヶー]{1,8})(です|でした)/g,
+    (match, intro, name, copula) => maskName(name) ? `${intro}[名前]${copula}` : match],
+  [/(^|[。、！？!?\n]\s*)([一-龯々ァ-ヶー]{1,8})です(?=[。、！？!?\s]|$)/g,
+    (match, start, name) => maskName(name) ? `${start}[名前]です` : match],
+];
+
+/** Mask contact details and self-introduced names in free text */
+export function redactText(text: string): string {
+  return REDACTIONS.reduce(
+    (redacted, [pattern, replacement]) => redacted.replace(pattern, replacement as any),
+    text
+  );
+}
+
+/** Stable, non-reversible stand-in for a visitor id */
+export function pseudonymizeVisitor(visitorId: string): string {
+  const digest = crypto.createHash('sha256').update(visitorId).digest('hex');
+  return `visitor-${digest.slice(0, 10)}`;
+}
+
+export function summarizeMessages(messages: TranscriptMessage[]): ConversationSummary {
+  const userMessages = messages.filter(message => message.role === 'user');
+  const emotions = messages.map(message => message.emotion).filter(Boolean) as string[];
+
+  const topics: string[] = [];
+  for (const message of userMessages) {
+    const topic = redactText(message.content.trim()).slice(0, MAX_TOPIC_LENGTH);
+    if (topic && !topics.includes(topic)) {
+      topics.push(topic);
+    }
+    if (topics.length === MAX_TOPICS) break;
+  }
+
+  return {
+    userMessages: userMessages.length,
+    assistantMessages: messages.filter(message => message.role === 'assistant').length,
+    dominantEmotion: getMostFrequentEmotion(emotions),
+    topics,
+  };
+}
+
+/**
+ * One-line summary. `active` describes a running conversation
+ * (SimplifiedMemorySystem.getSessionSummary); otherwise a closed session,
+ * including the visitor's topics.
+ */
+export function formatConversationSummary(
+  summary: ConversationSummary,
+  language: SupportedLanguage = 'ja',
+  options: { active?: boolean } = {}
+): string {
+  const mood = summary.dominantEmotion || 'neutral';
+
+  if (options.active) {
+    return promptLanguageOf(language) === 'en'
+      ? `Active conversation: ${summary.userMessages} user messages, ${summary.assistantMessages} responses. Mood: ${mood}.`
+      : `アクティブな会話: ユーザー${summary.userMessages}回、応答${summary.assistantMessages}回。雰囲気: ${mood}。`;
+  }
+
+  const topics = summary.topics.length > 0 ? summary.topics.join(' / ') : null;
+  return promptLanguageOf(language) === 'en'
+    ? `Conversation: ${summary.userMessages} visitor messages, ${summary.assistantMessages} responses. Mood: ${mood}.${topics ? ` Topics: ${topics}` : ''}`
+    : `会話: 来館者${summary.userMessages}回、応答${summary.assistantMessages}回。雰囲気: ${mood}。${topics ? `話題: ${topics}` : ''}`;
+}
+
+/** Session metadata safe to show staff: pseudonymous visitor, redacted summary */
+export function redactTranscriptSession(session: TranscriptSession) {
+  return {
+    id: session.id,
+    visitor: session.visitorId ? pseudonymizeVisitor(session.visitorId) : null,
+    language: session.language,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    status: session.status,
+    endReason: session.endReason ?? null,
+    escalated: !!session.escalated,
+    primaryEmotion: session.primaryEmotion ?? null,
+    summary: session.summary ? redactText(session.summary) : null,
+  };
+}
+
+/** Quote a CSV field; a leading = + - @ is escaped so spreadsheets do not run it */
+function csvField(value: string | null | undefined): string {
+  const text = value ?? '';
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+const ROLE_LABELS: Record<TranscriptMessage['role'], string> = {
+  user: 'Visitor',
+  assistant: 'Guide',
+  system: 'System',
+};
+
+export function exportTranscript(
+  session: TranscriptSession,
+  messages: TranscriptMessage[],
+  format: TranscriptFormat
+): { body: string; contentType: string; filename: string } {
+  const redactedSession = redactTranscriptSession(session);
+  const redactedMessages = messages.map(message => ({
+    role: message.role,
+    content: redactText(message.content),
+    emotion: message.emotion ?? null,
+    createdAt: message.createdAt ?? null,
+  }));
+  const filename = `session-${session.id}`;
+
+  switch (format) {
+    case 'csv': {
+      const rows = [
+        ['timestamp', 'role', 'emotion', 'content'].join(','),
+        ...redactedMessages.map(message =>
+          [message.createdAt, message.role, message.emotion, message.content].map(csvField).join(',')
+        ),
+      ];
+      // BOM so spreadsheet apps detect UTF-8 (Japanese text)
+      return { body: `\uFEFF${rows.join('\r\n')}\r\n`, contentType: 'text/csv; charset=utf-8', filename: `${filename}.csv` };
+    }
+
+    case 'markdown': {
+      const lines = [
+        `# Session ${redactedSession.id}`,
+        '',
+        `- Visitor: ${redactedSession.visitor || '—'}`,
+        `- Language: ${redactedSession.language || '—'}`,
+        `- Started: ${redactedSession.startedAt || '—'}`,
+        `- Ended: ${redactedSession.endedAt || '—'}${redactedSession.endReason ? ` (${redactedSession.endReason})` : ''}`,
+        `- Mood: ${redactedSession.primaryEmotion || '—'}`,
+        `- Escalated to staff: ${redactedSession.escalated ? 'yes' : 'no'}`,
+        '',
+      ];
+      if (redactedSession.summary) {
+        lines.push('## Summary', '', redactedSession.summary, '');
+      }
+      lines.push('## Transcript', '');
+      for (const message of redactedMessages) {
+        const time = message.createdAt ? ` (${message.createdAt})` : '';
+        lines.push(`**${ROLE_LABELS[message.role]}**${time}: ${message.content}`, '');
+      }
+      return { body: lines.join('\n'), contentType: 'text/markdown; charset=utf-8', filename: `${filename}.md` };
+    }
+
+    case 'json':
+    default:
+      return {
+        body: JSON.stringify({ session: redactedSession, messages: redactedMessages }, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        filename: `${filename}.json`,
+      };
+  }
+}
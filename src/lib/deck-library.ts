@@ -0,0 +1,219 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { NarrationLoaderTool } from '../mastra/tools/narration-loader';
+import { SUPPORTED_LANGUAGES } from './languages';
+import { SupportedLanguage } from '../mastra/types/config';
+
+/**
+ * Slide deck library. Decks live in src/slides/<language>/<id>.md with
+ * narration in src/slides/narration/<id>-<language>.json; src/slides/decks.json
+ * adds title, description, audience, duration and tags. Decks found on disk
+ * without a manifest entry are still listed, with the id as title, so a new
+ * deck shows up as soon as its files are added.
+ */
+
+export interface DeckManifestEntry {
+  id: string;
+  title: Partial<Record<SupportedLanguage, string>>;
+  description?: Partial<Record<SupportedLanguage, string>>;
+  languages: SupportedLanguage[];
+  audience?: string;
+  durationMinutes?: number;
+  tags?: string[];
+}
+
+export interface DeckManifest {
+  defaultDeck?: string;
+  decks: DeckManifestEntry[];
+}
+
+export interface DeckLanguageStatus {
+  language: SupportedLanguage;
+  hasSlides: boolean;
+  hasNarration: boolean;
+  slideCount: number;
+  /** NarrationLoaderTool.validateNarration errors, plus a slide count mismatch */
+  narrationErrors: string[];
+}
+
+export interface DeckSummary extends DeckManifestEntry {
+  isDefault: boolean;
+  /** False for decks found on disk without a manifest entry */
+  inManifest: boolean;
+  status: DeckLanguageStatus[];
+  /** Languages with slides and valid narration */
+  availableLanguages: SupportedLanguage[];
+}
+
+export interface DeckLibraryOptions {
+  slidesDir?: string;
+}
+
+/** Unknown decks or languages; API routes map this to 400 or 404 */
+export class DeckLibraryError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'DeckLibraryError';
+  }
+}
+
+export const DEFAULT_DECK_ID = 'engineer-cafe';
+export const DECK_LANGUAGES: SupportedLanguage[] = SUPPORTED_LANGUAGES;
+
+const SLIDES_DIR = path.resolve('src/slides');
+const DECK_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+const narrationLoader = new NarrationLoaderTool();
+
+export function isDeckLanguage(value: unknown): value is SupportedLanguage {
+  return DECK_LANGUAGES.includes(value as SupportedLanguage);
+}
+
+/** Number of slides in a Marp markdown file (separators after the front matter) */
+export function countSlides(markdown: string): number {
+  const body = markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+  return body.trim() ? body.split(/^---[ \t]*$/m).length : 0;
+}
+
+/** Title or description in the requested language, falling back to any other */
+export function localizedDeckText(
+  text: Partial<Record<SupportedLanguage, string>> | undefined,
+  language: SupportedLanguage
+): string | undefined {
+  if (!text) return undefined;
+  return text[language] || Object.values(text).find(Boolean);
+}
+
+export async function loadDeckManifest(slidesDir: string = SLIDES_DIR): Promise<DeckManifest> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(slidesDir, 'decks.json'), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { decks: [] };
+    throw error;
+  }
+
+  const manifest = JSON.parse(raw) as DeckManifest;
+  const invalid = (manifest.decks || []).find(deck => !DECK_ID.test(deck.id));
+  if (invalid) {
+    throw new DeckLibraryError(`Invalid deck id in decks.json: ${invalid.id}`);
+  }
+  return { defaultDeck: manifest.defaultDeck, decks: manifest.decks || [] };
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function discoverDeckIds(slidesDir: string): Promise<Map<string, SupportedLanguage[]>> {
+  const found = new Map<string, SupportedLanguage[]>();
+  for (const language of DECK_LANGUAGES) {
+    const files = await fs.readdir(path.join(slidesDir, language)).catch(() => [] as string[]);
+    for (const file of files) {
+      const id = file.replace(/\.md$/, '');
+      if (!file.endsWith('.md') || !DECK_ID.test(id)) continue;
+      found.set(id, [...(found.get(id) || []), language]);
+    }
+  }
+  return found;
+}
+
+async function languageStatus(slidesDir: string, id: string, language: SupportedLanguage): Promise<DeckLanguageStatus> {
+  const markdown = await readOptional(path.join(slidesDir, language, `${id}.md`));
+  const narrationRaw = await readOptional(path.join(slidesDir, 'narration', `${id}-${language}.json`));
+  const slideCount = markdown ? countSlides(markdown) : 0;
+
+  const narrationErrors: string[] = [];
+  if (narrationRaw === null) {
+    narrationErrors.push(`Narration file not found: ${id}-${language}.json`);
+  } else {
+    try {
+      const narration = JSON.parse(narrationRaw);
+      const validation = await narrationLoader.validateNarration(narration);
+      narrationErrors.push(...(validation.validationErrors || []));
+      if (markdown && Array.isArray(narration.slides) && narration.slides.length !== slideCount) {
+        narrationErrors.push(`Narration has ${narration.slides.length} slides, deck has ${slideCount}`);
+      }
+    } catch (error) {
+      narrationErrors.push(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  return {
+    language,
+    hasSlides: markdown !== null,
+    hasNarration: narrationRaw !== null,
+    slideCount,
+    narrationErrors,
+  };
+}
+
+/**
+ * All decks with per-language validation; manifest order first, then decks
+ * found only on disk
+ */
+export async function listDecks(options: DeckLibraryOptions = {}): Promise<DeckSummary[]> {
+  const slidesDir = options.slidesDir || SLIDES_DIR;
+  const manifest = await loadDeckManifest(slidesDir);
+  const discovered = await discoverDeckIds(slidesDir);
+  const defaultDeck = manifest.defaultDeck || DEFAULT_DECK_ID;
+
+  const entries: Array<{ entry: DeckManifestEntry; inManifest: boolean }> = manifest.decks.map(entry => ({ entry, inManifest: true }));
+  const listed = new Set(manifest.decks.map(deck => deck.id));
+  Array.from(discovered.keys()).sort().forEach(id => {
+    if (listed.has(id)) return;
+    entries.push({ entry: { id, title: {}, languages: discovered.get(id)! }, inManifest: false });
+  });
+
+  return Promise.all(entries.map(async ({ entry, inManifest }) => {
+    const status = await Promise.all(entry.languages.map(language => languageStatus(slidesDir, entry.id, language)));
+    return {
+      ...entry,
+      title: Object.keys(entry.title).length > 0 ? entry.title : { [entry.languages[0] || 'ja']: entry.id },
+      isDefault: entry.id === defaultDeck,
+      inManifest,
+      status,
+      availableLanguages: status
+        .filter(item => item.hasSlides && item.narrationErrors.length === 0)
+        .map(item => item.language),
+    };
+  }));
+}
+
+export async function getDeck(id: string, options: DeckLibraryOptions = {}): Promise<DeckSummary> {
+  if (!DECK_ID.test(id)) {
+    throw new DeckLibraryError(`Invalid deck id: ${id}`);
+  }
+  const deck = (await listDecks(options)).find(item => item.id === id);
+  if (!deck) {
+    throw new DeckLibraryError(`Deck not found: ${id}`, 404);
+  }
+  return deck;
+}
+
+/**
+ * A deck that can be presented in the given language; throws when the deck
+ * is unknown or its slides or narration for that language are missing or invalid
+ */
+export async function resolvePresentableDeck(
+  id: string,
+  language: SupportedLanguage,
+  options: DeckLibraryOptions = {}
+): Promise<DeckSummary> {
+  if (!isDeckLanguage(language)) {
+    throw new DeckLibraryError(`Unsupported language: ${language}`);
+  }
+  const deck = await getDeck(id, options);
+  if (!deck.availableLanguages.includes(language)) {
+    const status = deck.status.find(item => item.language === language);
+    const reason = !status ? 'not offered in this language'
+      : !status.hasSlides ? 'slides missing'
+      : status.narrationErrors.join(', ');
+    throw new DeckLibraryError(`Deck ${id} is not available in ${language}: ${reason}`, 404);
+  }
+  return deck;
+}
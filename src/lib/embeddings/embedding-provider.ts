@@ -0,0 +1,120 @@
+/**
+ * Pluggable embedding providers.
+ *
+ * Every knowledge_base row records the model it was embedded with, and the
+ * RAG search only compares a query against rows from the same model, so the
+ * writer (KnowledgeBaseUtils) and the reader (RAGSearchTool) must always
+ * resolve the same provider from config.
+ */
+
+import { GoogleEmbeddingProvider } from './google-embedding-provider';
+import { LocalEmbeddingProvider } from './local-embedding-provider';
+import { OpenAIEmbeddingProvider } from './openai-embedding-provider';
+
+export type EmbeddingProviderName = 'openai' | 'google' | 'local';
+
+export interface EmbeddingProvider {
+  /** Provider family, e.g. 'openai' */
+  readonly provider: EmbeddingProviderName;
+  /** Model name as understood by the provider, e.g. 'text-embedding-3-small' */
+  readonly model: string;
+  /** Length of every vector returned by embed() */
+  readonly dimensions: number;
+
+  embed(text: string): Promise<number[]>;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  dimensions?: number;
+}
+
+/** Provider defaults. 1536 matches the knowledge_base column the app ships with. */
+export const DEFAULT_EMBEDDING_CONFIG: Record<EmbeddingProviderName, Required<Omit<EmbeddingConfig, 'provider'>>> = {
+  openai: { model: 'text-embedding-3-small', dimensions: 1536 },
+  google: { model: 'text-embedding-004', dimensions: 1536 },
+  local: { model: 'hash-v1', dimensions: 1536 },
+};
+
+/**
+ * Identifier stored in knowledge_base.embedding_model, e.g. 'openai:text-embedding-3-small'
+ */
+export function getEmbeddingModelId(provider: Pick<EmbeddingProvider, 'provider' | 'model'>): string {
+  return `${provider.provider}:${provider.model}`;
+}
+
+/**
+ * Read the embedding config from the environment.
+ * EMBEDDING_PROVIDER selects the provider (default: openai); EMBEDDING_MODEL and
+ * EMBEDDING_DIMENSIONS override that provider's defaults.
+ */
+export function getEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const provider = (env.EMBEDDING_PROVIDER || 'openai').toLowerCase();
+  if (!(provider in DEFAULT_EMBEDDING_CONFIG)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider} (expected openai, google or local)`);
+  }
+
+  const dimensions = env.EMBEDDING_DIMENSIONS ? parseInt(env.EMBEDDING_DIMENSIONS, 10) : undefined;
+  if (dimensions !== undefined && (isNaN(dimensions) || dimensions <= 0)) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS: ${env.EMBEDDING_DIMENSIONS}`);
+  }
+
+  return {
+    provider: provider as EmbeddingProviderName,
+    model: env.EMBEDDING_MODEL || undefined,
+    dimensions,
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const defaults = DEFAULT_EMBEDDING_CONFIG[config.provider];
+  const model = config.model || defaults.model;
+  const dimensions = config.dimensions || defaults.dimensions;
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(model, dimensions);
+    case 'google':
+      return new GoogleEmbeddingProvider(model, dimensions);
+    case 'local':
+      return new LocalEmbeddingProvider(model, dimensions);
+    default:
+      throw new Error(`Unsupported embedding provider: ${config.provider}`);
+  }
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * The provider configured for this process. Created lazily so that importing
+ * modules does not require API keys for providers that are never used.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider(getEmbeddingConfig());
+    console.log(`[Embeddings] Using ${getEmbeddingModelId(activeProvider)} (${activeProvider.dimensions} dimensions)`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Stretch a native vector to the configured dimension by repeating it.
+ * Repetition keeps cosine similarity unchanged, which is how 768-dim Google
+ * vectors have always been stored in the 1536-dim column.
+ */
+export function fitToDimensions(embedding: number[], dimensions: number): number[] {
+  if (embedding.length === dimensions) {
+    return embedding;
+  }
+
+  if (embedding.length > 0 && dimensions % embedding.length === 0) {
+    const repeated: number[] = [];
+    for (let i = 0; i < dimensions / embedding.length; i++) {
+      repeated.push(...embedding);
+    }
+    return repeated;
+  }
+
+  throw new Error(`Cannot fit a ${embedding.length}-dim embedding into ${dimensions} dimensions`);
+}
@@ -0,0 +1,25 @@
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { fitToDimensions, type EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Google embeddings (text-embedding-004, 768 native dimensions), repeated up
+ * to the configured dimension when the column is wider.
+ */
+export class GoogleEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'google' as const;
+  private embeddingModel: GenerativeModel;
+
+  constructor(readonly model: string, readonly dimensions: number) {
+    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY is not set');
+    }
+
+    this.embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const result = await this.embeddingModel.embedContent(text);
+    return fitToDimensions(result.embedding.values, this.dimensions);
+  }
+}
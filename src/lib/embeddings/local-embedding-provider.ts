@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import type { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Deterministic feature-hashing embeddings for offline tests and local
+ * development. No network access; identical text always yields the same
+ * vector, and texts sharing words or characters score as similar.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'local' as const;
+
+  constructor(readonly model: string, readonly dimensions: number) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const feature of this.extractFeatures(text)) {
+      const digest = crypto.createHash('sha256').update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+
+  /**
+   * Latin words plus character bigrams, so Japanese text without spaces
+   * still produces overlapping features.
+   */
+  private extractFeatures(text: string): string[] {
+    const normalized = text.normalize('NFKC').toLowerCase();
+    const features: string[] = normalized.match(/[a-z0-9]+/g) || [];
+
+    const compact = normalized.replace(/[\s.,!?;:'"()\[\]、。「」・]+/g, '');
+    for (let i = 0; i < compact.length - 1; i++) {
+      features.push(`bi:${compact.slice(i, i + 2)}`);
+    }
+
+    return features;
+  }
+}
@@ -0,0 +1,41 @@
+import type { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * OpenAI embeddings (text-embedding-3-*). The API shortens vectors natively
+ * via the `dimensions` parameter.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'openai' as const;
+  private apiKey: string;
+
+  constructor(readonly model: string, readonly dimensions: number) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not set');
+    }
+
+    this.apiKey = apiKey;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: text,
+        model: this.model,
+        dimensions: this.dimensions,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.data[0].embedding;
+  }
+}
@@ -1,3 +1,14 @@
+import type { SupportedLanguage } from '../mastra/types/config';
+import {
+  EMOTION_NAMES,
+  EMOTIONS,
+  EmotionName,
+  getPrimaryExpression,
+  isKnownEmotion,
+  resolveEmotion,
+  VRMExpressionName,
+} from './emotion-registry';
+
 /**
  * Emotion Manager for VRM Character Expressions
  * Based on aituber-kit patterns and VRM expression system
@@ -19,73 +30,41 @@ export interface VRMExpressionMapping {
   mouthOverride?: number; // Override for mouth movements (0.0 to 1.0)
 }
 
-export class EmotionManager {
-  // aituber-kit standardized emotions: neutral, happy, sad, angry, relaxed, surprised
-  private static readonly EMOTION_KEYWORDS = {
-    neutral: ['です', 'is', 'ます', 'polite ending', 'について', 'about', '普通', 'normal', '通常', 'usual', '説明', 'explain', '教える', 'teach'],
-    happy: ['嬉しい', 'happy', '楽しい', 'fun', '笑い', 'laugh', '喜び', 'joy', 'ありがとう', 'thank', '素晴らしい', 'wonderful', 'great', 'こんにちは', 'hello', 'はじめまして', 'nice to meet'],
-    sad: ['悲しい', 'sad', '残念', 'sorry', '寂しい', 'lonely', '困った', 'trouble', 'がっかり', 'disappointed', '申し訳', 'apologize'],
-    angry: ['怒り', 'angry', '腹立つ', 'mad', 'イライラ', 'irritated', '許せない', 'unforgivable', 'ムカつく', 'annoying', '問題', 'problem'],
-    relaxed: ['リラックス', 'relax', '落ち着く', 'calm', 'ゆっくり', 'slowly', '平和', 'peaceful', 'のんびり', 'leisurely', '考える', 'think', 'うーん', 'hmm'],
-    surprised: ['驚き', 'surprised', 'びっくり', 'shocked', '信じられない', 'unbelievable', 'まさか', 'no way', 'えっ', 'what', 'すごい', 'amazing']
-  };
-
-  private static readonly VRM_EXPRESSION_MAP: Record<string, VRMExpressionMapping> = {
-    neutral: {
-      primary: 'neutral',
-      weight: 1.0,
-    },
-    happy: {
-      primary: 'happy',
-      weight: 0.8,
-      blinkOverride: 0.2,
-    },
-    sad: {
-      primary: 'sad',
-      weight: 0.9,
-      blinkOverride: 0.4,
-      lookAtOverride: 0.3,
-    },
-    angry: {
-      primary: 'angry',
-      weight: 0.85,
-      blinkOverride: 0.6,
-      lookAtOverride: 0.2,
-    },
-    relaxed: {
-      primary: 'relaxed',
-      weight: 0.7,
-      blinkOverride: 0.3,
-      lookAtOverride: 0.4,
-    },
-    surprised: {
-      primary: 'surprised',
-      weight: 1.0,
-      blinkOverride: 0.8,
-    },
-  };
+// Face rig behaviour per VRM expression preset; the emotion registry decides
+// which presets an emotion blends
+const EXPRESSION_OVERRIDES: Record<VRMExpressionName, Pick<VRMExpressionMapping, 'blinkOverride' | 'lookAtOverride' | 'mouthOverride'>> = {
+  neutral: {},
+  happy: { blinkOverride: 0.2 },
+  sad: { blinkOverride: 0.4, lookAtOverride: 0.3 },
+  angry: { blinkOverride: 0.6, lookAtOverride: 0.2 },
+  relaxed: { blinkOverride: 0.3, lookAtOverride: 0.4 },
+  surprised: { blinkOverride: 0.8 },
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
+export class EmotionManager {
   /**
-   * Detect emotion from text content using keyword analysis
+   * Detect emotion from text content using the registry's keywords; without
+   * a language, keywords of every language count
    */
-  static detectEmotion(text: string, language: 'ja' | 'en' = 'ja'): EmotionData {
+  static detectEmotion(text: string, language?: SupportedLanguage): EmotionData {
     const lowercaseText = text.toLowerCase();
     const emotionScores: Record<string, number> = {};
 
-    // Initialize scores
-    Object.keys(this.EMOTION_KEYWORDS).forEach(emotion => {
+    // Calculate scores based on keyword matches
+    EMOTION_NAMES.forEach(emotion => {
+      const { keywords } = EMOTIONS[emotion];
+      const list = language ? keywords[language] || [] : Object.values(keywords).reduce<string[]>((all, words) => all.concat(words || []), []);
       emotionScores[emotion] = 0;
-    });
 
-    // Calculate scores based on keyword matches
-    Object.entries(this.EMOTION_KEYWORDS).forEach(([emotion, keywords]) => {
-      keywords.forEach(keyword => {
+      list.forEach(keyword => {
         const keywordLower = keyword.toLowerCase();
         if (lowercaseText.includes(keywordLower)) {
           emotionScores[emotion] += 1;
           
           // Boost score for exact matches at word boundaries
-          const wordBoundaryRegex = new RegExp(`\\b${keywordLower}\\b`, 'gi');
+          const wordBoundaryRegex = new RegExp(`\\b${escapeRegExp(keywordLower)}\\b`, 'gi');
           const exactMatches = (lowercaseText.match(wordBoundaryRegex) || []).length;
           emotionScores[emotion] += exactMatches * 0.5;
         }
@@ -93,7 +72,7 @@ export class EmotionManager {
     });
 
     // Find the emotion with the highest score
-    let topEmotion = 'neutral';
+    let topEmotion: EmotionName = 'neutral';
     let maxScore = 0;
     let totalScore = 0;
 
@@ -101,7 +80,7 @@ export class EmotionManager {
       totalScore += score;
       if (score > maxScore) {
         maxScore = score;
-        topEmotion = emotion;
+        topEmotion = emotion as EmotionName;
       }
     });
 
@@ -123,14 +102,18 @@ export class EmotionManager {
    * Map emotion to VRM expression parameters
    */
   static mapEmotionToVRM(emotionData: EmotionData): VRMExpressionMapping {
-    const baseMapping = this.VRM_EXPRESSION_MAP[emotionData.emotion] || this.VRM_EXPRESSION_MAP.neutral;
-    
+    const definition = resolveEmotion(emotionData.emotion) || EMOTIONS.neutral;
+    const [primary, secondary] = (Object.entries(definition.expression) as Array<[VRMExpressionName, number]>)
+      .sort(([, a], [, b]) => b - a);
+
     // Adjust weights based on intensity and confidence
-    const adjustedWeight = baseMapping.weight * emotionData.intensity * emotionData.confidence;
+    const adjustedWeight = primary[1] * emotionData.intensity * emotionData.confidence;
     
     return {
-      ...baseMapping,
+      primary: primary[0],
+      secondary: secondary?.[0],
       weight: Math.max(0.1, Math.min(1.0, adjustedWeight)),
+      ...EXPRESSION_OVERRIDES[primary[0]],
     };
   }
 
@@ -175,7 +158,7 @@ export class EmotionManager {
     interactionType: 'welcome' | 'question' | 'explanation' | 'goodbye' | 'error' | 'thinking',
     intensity: number = 0.8
   ): EmotionData {
-    const emotionMap = {
+    const emotionMap: Record<typeof interactionType, EmotionName> = {
       welcome: 'happy',
       question: 'neutral',
       explanation: 'neutral',
@@ -360,7 +343,7 @@ export class EmotionManager {
       surprised: 600,
     };
 
-    const baseDuration = baseDurations[emotion as keyof typeof baseDurations] || 800;
+    const baseDuration = isKnownEmotion(emotion) ? baseDurations[getPrimaryExpression(emotion)] : 800;
     
     // Adjust duration based on text length but keep within natural ranges
     // Longer text = slight extension, but capped to avoid artificial appearance
@@ -384,16 +367,16 @@ export class EmotionManager {
   }
 
   /**
-   * Get available VRM expressions for the current model
+   * Emotions accepted by setEmotion (canonical registry names)
    */
   static getAvailableExpressions(): string[] {
-    return Object.keys(this.VRM_EXPRESSION_MAP);
+    return [...EMOTION_NAMES];
   }
 
   /**
    * Validate if an emotion is supported
    */
   static isEmotionSupported(emotion: string): boolean {
-    return emotion in this.VRM_EXPRESSION_MAP;
+    return isKnownEmotion(emotion);
   }
 }
\ No newline at end of file
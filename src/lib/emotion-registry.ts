@@ -0,0 +1,320 @@
+import type { SupportedLanguage } from '../mastra/types/config';
+
+/**
+ * The one emotion vocabulary. Emotion tags in LLM output, keyword detection,
+ * TTS prosody and VRM expressions all resolve names through this registry,
+ * so an emotion added here is understood everywhere and a name that is not
+ * here (or an alias of something here) is rejected rather than ignored.
+ *
+ * Kept free of server-only imports; the browser uses it to drive the VRM.
+ */
+
+/** Expression presets every VRM 1.0 model provides */
+export type VRMExpressionName = 'neutral' | 'happy' | 'sad' | 'angry' | 'relaxed' | 'surprised';
+
+export const VRM_EXPRESSIONS: VRMExpressionName[] = ['neutral', 'happy', 'sad', 'angry', 'relaxed', 'surprised'];
+
+export type EmotionName =
+  | 'neutral'
+  | 'happy'
+  | 'excited'
+  | 'confident'
+  | 'gentle'
+  | 'supportive'
+  | 'relaxed'
+  | 'thoughtful'
+  | 'knowledgeable'
+  | 'curious'
+  | 'surprised'
+  | 'confused'
+  | 'apologetic'
+  | 'sad'
+  | 'angry';
+
+/** Prosody applied on top of a voice's base settings */
+export interface EmotionVoiceParams {
+  /** Multiplier for speaking rate */
+  rate: number;
+  /** Semitones added to the base pitch */
+  pitch: number;
+}
+
+export interface EmotionDefinition {
+  name: EmotionName;
+  /** Other names accepted in tags and API calls, e.g. "energetic" for excited */
+  aliases: string[];
+  /** VRM expression weights at full intensity */
+  expression: Partial<Record<VRMExpressionName, number>>;
+  /** TTS prosody; languages without an entry use `default` */
+  voice: { default: EmotionVoiceParams } & Partial<Record<SupportedLanguage, EmotionVoiceParams>>;
+  /** Intensities outside the range are clamped; `default` applies when none is given */
+  intensity: { min: number; max: number; default: number };
+  /** Character animation played with the emotion */
+  animation: string;
+  /** Words that suggest the emotion when a response carries no tag */
+  keywords: Partial<Record<SupportedLanguage, string[]>>;
+}
+
+export class UnknownEmotionError extends Error {
+  constructor(readonly emotion: string) {
+    super(`Unknown emotion: ${emotion}`);
+    this.name = 'UnknownEmotionError';
+  }
+}
+
+// Japanese voices already speak quickly, so the faster emotions speed them up less
+export const EMOTIONS: Record<EmotionName, EmotionDefinition> = {
+  neutral: {
+    name: 'neutral',
+    aliases: ['normal', 'explaining', 'describing', 'speaking'],
+    expression: { neutral: 1 },
+    voice: { default: { rate: 1, pitch: 0 } },
+    intensity: { min: 0, max: 1, default: 1 },
+    animation: 'idle',
+    keywords: {
+      ja: ['です', 'ます', 'について', '普通', '通常', '説明', '教える'],
+      en: ['is', 'about', 'normal', 'usual', 'explain', 'teach'],
+    },
+  },
+  happy: {
+    name: 'happy',
+    aliases: ['joy', 'cheerful', 'pleased', 'greeting', 'welcoming', 'proud', 'warm', 'grateful'],
+    expression: { happy: 0.9, relaxed: 0.2 },
+    voice: { default: { rate: 1, pitch: 0 } },
+    intensity: { min: 0.3, max: 1, default: 0.8 },
+    animation: 'greeting',
+    keywords: {
+      ja: ['嬉しい', '楽しい', '笑い', '喜び', 'ありがとう', '感謝', 'こんにちは', 'はじめまして', 'ようこそ', '♪'],
+      en: ['happy', 'fun', 'laugh', 'joy', 'thank', 'grateful', 'glad', 'hello', 'nice to meet', 'welcome'],
+    },
+  },
+  excited: {
+    name: 'excited',
+    aliases: ['energetic', 'enthusiastic'],
+    expression: { happy: 1, surprised: 0.3 },
+    voice: { default: { rate: 1.1, pitch: 0.3 }, ja: { rate: 1.05, pitch: 0.3 } },
+    intensity: { min: 0.4, max: 1, default: 0.9 },
+    animation: 'greeting',
+    keywords: {
+      ja: ['！！', '素晴らしい', 'やった', '最高', '頑張ろう', 'やりましょう', 'チャレンジ'],
+      en: ['!!', 'awesome', 'fantastic', 'wonderful', "let's go", 'challenge', 'excited'],
+    },
+  },
+  confident: {
+    name: 'confident',
+    aliases: ['determined'],
+    expression: { happy: 0.6, neutral: 0.4 },
+    voice: { default: { rate: 1, pitch: 0.1 } },
+    intensity: { min: 0.3, max: 1, default: 0.8 },
+    animation: 'explaining',
+    keywords: {
+      ja: ['絶対', '間違いなく', '任せて'],
+      en: ['definitely', 'certainly', 'leave it to me'],
+    },
+  },
+  gentle: {
+    name: 'gentle',
+    aliases: ['calm', 'caring', 'soft'],
+    expression: { relaxed: 0.8, happy: 0.3 },
+    voice: { default: { rate: 0.95, pitch: -0.2 } },
+    intensity: { min: 0.2, max: 0.9, default: 0.6 },
+    animation: 'idle',
+    keywords: {
+      ja: ['ゆっくり', 'そっと', 'やさしく', '穏やか', '焦らず'],
+      en: ['gently', 'softly', 'calm', 'peaceful', 'take your time'],
+    },
+  },
+  supportive: {
+    name: 'supportive',
+    aliases: ['encouraging'],
+    expression: { relaxed: 0.6, happy: 0.5 },
+    voice: { default: { rate: 0.95, pitch: -0.1 } },
+    intensity: { min: 0.3, max: 1, default: 0.7 },
+    animation: 'nodding',
+    keywords: {
+      ja: ['大丈夫', '一緒に', '頑張', 'できます', 'きっと'],
+      en: ['together', 'support', 'believe', 'can do', "don't worry"],
+    },
+  },
+  relaxed: {
+    name: 'relaxed',
+    aliases: ['listening', 'attentive', 'shy', 'leisurely'],
+    expression: { relaxed: 1 },
+    voice: { default: { rate: 0.95, pitch: -0.2 } },
+    intensity: { min: 0.2, max: 1, default: 0.6 },
+    animation: 'thinking',
+    keywords: {
+      ja: ['リラックス', '落ち着く', '平和', 'のんびり'],
+      en: ['relax', 'slowly', 'leisurely'],
+    },
+  },
+  thoughtful: {
+    name: 'thoughtful',
+    aliases: ['thinking', 'pondering', 'wondering', 'concerned'],
+    expression: { relaxed: 0.7, neutral: 0.3 },
+    voice: { default: { rate: 0.9, pitch: -0.2 } },
+    intensity: { min: 0.2, max: 0.9, default: 0.6 },
+    animation: 'thinking',
+    keywords: {
+      ja: ['考える', 'うーん', '整理', '複雑'],
+      en: ['think', 'consider', 'hmm', 'complex'],
+    },
+  },
+  knowledgeable: {
+    name: 'knowledgeable',
+    aliases: ['analytical', 'focused', 'teaching'],
+    expression: { neutral: 0.8, happy: 0.2 },
+    voice: { default: { rate: 0.95, pitch: -0.1 } },
+    intensity: { min: 0.3, max: 1, default: 0.7 },
+    animation: 'explaining',
+    keywords: {
+      ja: ['なるほど', '確かに', '理解', '分析'],
+      en: ['understand', 'analyze', 'indeed', 'exactly'],
+    },
+  },
+  curious: {
+    name: 'curious',
+    aliases: ['questioning', 'inquisitive', 'interested'],
+    expression: { surprised: 0.4, happy: 0.3 },
+    voice: { default: { rate: 1, pitch: 0.1 } },
+    intensity: { min: 0.3, max: 1, default: 0.8 },
+    animation: 'greeting',
+    keywords: {
+      ja: ['おもしろい', '興味', 'もっと詳しく', '気になる'],
+      en: ['interesting', 'curious', 'tell me more', 'wonder'],
+    },
+  },
+  surprised: {
+    name: 'surprised',
+    aliases: ['shocked', 'amazed', 'astonished'],
+    expression: { surprised: 1 },
+    voice: { default: { rate: 1.05, pitch: 0.4 }, ja: { rate: 1, pitch: 0.4 } },
+    intensity: { min: 0.3, max: 1, default: 0.8 },
+    animation: 'greeting',
+    keywords: {
+      ja: ['驚き', 'びっくり', '信じられない', 'まさか', 'えっ', 'すごい'],
+      en: ['surprised', 'shocked', 'unbelievable', 'no way', 'amazing', 'wow', 'incredible'],
+    },
+  },
+  confused: {
+    name: 'confused',
+    aliases: ['uncertain', 'puzzled'],
+    expression: { relaxed: 0.5, sad: 0.3 },
+    voice: { default: { rate: 0.9, pitch: 0 } },
+    intensity: { min: 0.2, max: 0.8, default: 0.6 },
+    animation: 'thinking',
+    keywords: {
+      ja: ['わからない', 'よく分から', '困った'],
+      en: ['confused', 'unclear', 'not sure'],
+    },
+  },
+  apologetic: {
+    name: 'apologetic',
+    aliases: ['sorry', 'embarrassed'],
+    expression: { sad: 0.7, relaxed: 0.3 },
+    voice: { default: { rate: 0.9, pitch: -0.3 } },
+    intensity: { min: 0.3, max: 0.9, default: 0.7 },
+    animation: 'bowing',
+    keywords: {
+      ja: ['すみません', 'ごめん', '申し訳'],
+      en: ['sorry', 'apologize', 'my fault'],
+    },
+  },
+  sad: {
+    name: 'sad',
+    aliases: ['disappointed', 'melancholy', 'down', 'worried'],
+    expression: { sad: 1 },
+    voice: { default: { rate: 0.9, pitch: -0.5 } },
+    intensity: { min: 0.3, max: 0.9, default: 0.7 },
+    animation: 'thinking',
+    keywords: {
+      ja: ['悲しい', '残念', '寂しい', 'がっかり'],
+      en: ['sad', 'lonely', 'disappointed', 'unfortunately'],
+    },
+  },
+  angry: {
+    name: 'angry',
+    aliases: ['mad', 'frustrated', 'annoyed'],
+    expression: { angry: 1 },
+    voice: { default: { rate: 1.05, pitch: 0.2 } },
+    intensity: { min: 0.2, max: 0.9, default: 0.9 },
+    animation: 'explaining',
+    keywords: {
+      ja: ['怒り', '腹立つ', 'イライラ', '許せない', 'ムカつく'],
+      en: ['angry', 'mad', 'irritated', 'unforgivable', 'annoying'],
+    },
+  },
+};
+
+export const EMOTION_NAMES = Object.keys(EMOTIONS) as EmotionName[];
+
+const LOOKUP = new Map<string, EmotionDefinition>();
+EMOTION_NAMES.forEach(name => {
+  const definition = EMOTIONS[name];
+  [name, ...definition.aliases].forEach(key => {
+    if (LOOKUP.has(key)) {
+      throw new Error(`Emotion name "${key}" is registered twice`);
+    }
+    LOOKUP.set(key, definition);
+  });
+});
+
+/** Every accepted name: canonical names first, then aliases */
+export function getEmotionVocabulary(): string[] {
+  return [...EMOTION_NAMES, ...EMOTION_NAMES.reduce<string[]>((all, name) => all.concat(EMOTIONS[name].aliases), [])];
+}
+
+/** Definition for a name or alias (case-insensitive); null when unknown */
+export function resolveEmotion(name: string): EmotionDefinition | null {
+  return LOOKUP.get(name.toLowerCase().trim()) || null;
+}
+
+export function isKnownEmotion(name: string): boolean {
+  return resolveEmotion(name) !== null;
+}
+
+/** Like resolveEmotion, but throws UnknownEmotionError */
+export function requireEmotion(name: string): EmotionDefinition {
+  const definition = resolveEmotion(name);
+  if (!definition) throw new UnknownEmotionError(name);
+  return definition;
+}
+
+/** Canonical name and an intensity clamped to the emotion's range */
+export function normalizeEmotion(name: string, intensity?: number): { emotion: EmotionName; intensity: number } {
+  const definition = requireEmotion(name);
+  const { min, max } = definition.intensity;
+  const value = intensity === undefined || isNaN(intensity) ? definition.intensity.default : intensity;
+  return { emotion: definition.name, intensity: Math.max(min, Math.min(max, value)) };
+}
+
+/**
+ * Weights for every VRM expression preset; whatever the emotion does not use
+ * is left to neutral
+ */
+export function getExpressionBlend(name: string, intensity?: number): Record<VRMExpressionName, number> {
+  const normalized = normalizeEmotion(name, intensity);
+  const expression = EMOTIONS[normalized.emotion].expression;
+  const weights = {} as Record<VRMExpressionName, number>;
+
+  VRM_EXPRESSIONS.forEach(preset => {
+    weights[preset] = (expression[preset] || 0) * normalized.intensity;
+  });
+  if (normalized.emotion !== 'neutral') {
+    const used = VRM_EXPRESSIONS.reduce((sum, preset) => (preset === 'neutral' ? sum : sum + weights[preset]), 0);
+    weights.neutral = Math.max(weights.neutral, 1 - Math.min(1, used));
+  }
+  return weights;
+}
+
+/** The strongest VRM expression of an emotion, for callers that set only one */
+export function getPrimaryExpression(name: string): VRMExpressionName {
+  const expression = requireEmotion(name).expression;
+  return VRM_EXPRESSIONS.reduce((best, preset) =>
+    (expression[preset] || 0) > (expression[best] || 0) ? preset : best, 'neutral' as VRMExpressionName);
+}
+
+export function getEmotionVoiceParams(name: string | undefined, language?: SupportedLanguage): EmotionVoiceParams {
+  const definition = (name && resolveEmotion(name)) || EMOTIONS.neutral;
+  return (language && definition.voice[language]) || definition.voice.default;
+}
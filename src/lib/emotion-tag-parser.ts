@@ -1,4 +1,14 @@
-import { EmotionMapping, type SupportedEmotion } from './emotion-mapping';
+import {
+  EMOTION_NAMES,
+  EmotionName,
+  getEmotionVocabulary,
+  getExpressionBlend,
+  normalizeEmotion,
+  resolveEmotion,
+  UnknownEmotionError,
+  VRM_EXPRESSIONS,
+} from './emotion-registry';
+import { SupportedLanguage } from './languages';
 
 /**
  * Emotion Tag Parser for VRM character expression control
@@ -8,13 +18,28 @@ import { EmotionMapping, type SupportedEmotion } from './emotion-mapping';
 export interface ParsedResponse {
   cleanText: string;        // Text with emotion tags removed
   emotions: EmotionTag[];   // Array of detected emotion tags
-  primaryEmotion?: string;  // The most prominent emotion
+  primaryEmotion?: EmotionName;  // The most prominent emotion
+  unknownEmotions: string[];     // Tags that are not in the emotion registry
 }
 
+export type AgentResponseContext = 'welcome' | 'qa' | 'error' | 'success';
+
+const CONTEXT_EMOTIONS: Record<AgentResponseContext, EmotionName> = {
+  welcome: 'happy',
+  qa: 'neutral',
+  error: 'sad',
+  success: 'happy',
+};
+
 export interface EmotionTag {
-  emotion: string;
+  emotion: EmotionName;     // Canonical registry name (aliases resolved)
   position: number;         // Position in original text
-  intensity?: number;       // Optional intensity (0-1)
+  intensity?: number;       // Intensity, clamped to the emotion's range
+}
+
+export interface ParseOptions {
+  /** Throw UnknownEmotionError for the first tag not in the registry */
+  strict?: boolean;
 }
 
 export class EmotionTagParser {
@@ -22,10 +47,11 @@ export class EmotionTagParser {
   /**
    * Parse emotion tags from text
    */
-  static parseEmotionTags(text: string): ParsedResponse {
+  static parseEmotionTags(text: string, options: ParseOptions = {}): ParsedResponse {
     // Regex to match emotion tags: [emotion] or [emotion:intensity]
     const emotionRegex = /\[\/?([a-zA-Z_]+)(?::(\d*\.?\d+))?\]/g;
     const emotions: EmotionTag[] = [];
+    const unknownEmotions: string[] = [];
     let cleanText = text;
     let match;
 
@@ -33,19 +59,18 @@ export class EmotionTagParser {
     while ((match = emotionRegex.exec(text)) !== null) {
       const emotion = match[1].toLowerCase();
       const intensityStr = match[2];
-      const intensity = intensityStr ? parseFloat(intensityStr) : 1.0;
       const position = match.index;
 
-      // Map to VRM expression if supported
-      if (EmotionMapping.isSupportedEmotion(emotion)) {
-        const mappedEmotion = EmotionMapping.mapToVRMEmotion(emotion);
-        emotions.push({
-          emotion: mappedEmotion,
-          position,
-          intensity: Math.max(0, Math.min(1, intensity))
-        });
+      if (resolveEmotion(emotion)) {
+        // Closing tags only end a span
+        if (match[0].startsWith('[/')) continue;
+        const normalized = normalizeEmotion(emotion, intensityStr ? parseFloat(intensityStr) : undefined);
+        emotions.push({ ...normalized, position });
+      } else if (options.strict) {
+        throw new UnknownEmotionError(emotion);
       } else {
         console.warn(`Unknown emotion tag: [${emotion}]`);
+        if (!unknownEmotions.includes(emotion)) unknownEmotions.push(emotion);
       }
     }
 
@@ -55,48 +80,39 @@ export class EmotionTagParser {
     // Remove extra whitespace
     cleanText = cleanText.replace(/\s+/g, ' ').trim();
 
-    // Determine primary emotion (first valid emotion or most intense)
-    let primaryEmotion: string | undefined;
+    // Determine primary emotion (the most intense; the first on ties)
+    let primaryEmotion: EmotionName | undefined;
     if (emotions.length > 0) {
-      // Use the first emotion, or the one with highest intensity
-      const sortedEmotions = emotions.sort((a, b) => (b.intensity || 1) - (a.intensity || 1));
+      const sortedEmotions = [...emotions].sort((a, b) => (b.intensity ?? 1) - (a.intensity ?? 1));
       primaryEmotion = sortedEmotions[0].emotion;
     }
 
     return {
       cleanText,
       emotions,
-      primaryEmotion
+      primaryEmotion,
+      unknownEmotions
     };
   }
 
   /**
-   * Get VRM expression weights for given emotion
+   * Tags in the text that are not in the emotion registry
    */
-  static getExpressionWeights(emotion: string, intensity: number = 1.0): Record<string, number> {
-    const supportedEmotions = EmotionMapping.getSupportedEmotions();
-    const weights: Record<string, number> = {};
-    
-    // Initialize all emotions to 0
-    supportedEmotions.forEach(e => weights[e] = 0);
-
-    const normalizedEmotion = EmotionMapping.mapToVRMEmotion(emotion);
-    const normalizedIntensity = Math.max(0, Math.min(1, intensity));
-
-    if (normalizedEmotion === 'neutral') {
-      weights.neutral = 1;
-    } else {
-      weights[normalizedEmotion] = normalizedIntensity;
-      weights.neutral = 1 - normalizedIntensity;
-    }
+  static findUnknownEmotions(text: string): string[] {
+    return this.parseEmotionTags(text).unknownEmotions;
+  }
 
-    return weights;
+  /**
+   * Get VRM expression weights for given emotion
+   */
+  static getExpressionWeights(emotion: string, intensity?: number): Record<string, number> {
+    return getExpressionBlend(emotion, intensity);
   }
 
   /**
    * Create sample text with emotion tags for testing
    */
-  static createSampleEmotionalText(language: 'ja' | 'en' = 'ja'): string {
+  static createSampleEmotionalText(language: SupportedLanguage = 'ja'): string {
     if (language === 'ja') {
       return '[happy]はじめまして！[neutral]今日はとても良い天気ですね。[relaxed]ところで、何かお手伝いできることはありますか？[/relaxed]';
     } else {
@@ -108,27 +124,34 @@ export class EmotionTagParser {
    * Validate if emotion tag is supported
    */
   static isValidEmotion(emotion: string): boolean {
-    return EmotionMapping.isSupportedEmotion(emotion);
+    return resolveEmotion(emotion) !== null;
   }
 
   /**
-   * Get all supported emotions
+   * Get all accepted tag names, aliases included
    */
   static getSupportedEmotions(): string[] {
-    return EmotionMapping.getAllEmotionAliases();
+    return getEmotionVocabulary();
+  }
+
+  /**
+   * Get canonical emotion names
+   */
+  static getCanonicalEmotions(): EmotionName[] {
+    return [...EMOTION_NAMES];
   }
 
   /**
-   * Get mapped VRM expressions
+   * Get VRM expression presets the emotions blend
    */
   static getVRMExpressions(): string[] {
-    return EmotionMapping.getSupportedEmotions();
+    return [...VRM_EXPRESSIONS];
   }
 
   /**
    * Auto-add emotion tags to AI responses based on content analysis
    */
-  static addEmotionTags(text: string, language: 'ja' | 'en' = 'ja'): string {
+  static addEmotionTags(text: string, language: SupportedLanguage = 'ja'): string {
     // If text already has emotion tags, return as is
     if (text.includes('[') && text.includes(']')) {
       return text;
@@ -171,33 +194,46 @@ export class EmotionTagParser {
   /**
    * Auto-enhance agent responses with appropriate emotion tags
    */
-  static enhanceAgentResponse(response: string, context?: 'welcome' | 'qa' | 'error' | 'success', language: 'ja' | 'en' = 'ja'): string {
+  static enhanceAgentResponse(response: string, context?: AgentResponseContext, language: SupportedLanguage = 'ja'): string {
     // If response already has emotion tags, return as is
     if (response.includes('[') && response.includes(']')) {
       return response;
     }
 
-    let emotion = 'neutral';
-
-    // Context-based emotion selection
-    switch (context) {
-      case 'welcome':
-        emotion = 'happy';
-        break;
-      case 'qa':
-        emotion = 'neutral';
-        break;
-      case 'error':
-        emotion = 'sad';
-        break;
-      case 'success':
-        emotion = 'happy';
-        break;
-      default:
-        // Use content-based detection
-        return this.addEmotionTags(response, language);
+    if (!context) {
+      // Use content-based detection
+      return this.addEmotionTags(response, language);
     }
 
+    const emotion = CONTEXT_EMOTIONS[context];
     return `[${emotion}]${response}[/${emotion}]`;
   }
-}
\ No newline at end of file
+
+  /**
+   * enhanceAgentResponse() for text that arrives in deltas. Whether the model
+   * tagged its answer is decided from the first non-blank character, so an
+   * untagged answer gets its opening tag before the rest of the text.
+   */
+  static async *enhanceAgentStream(deltas: AsyncIterable<string>, context: AgentResponseContext): AsyncGenerator<string> {
+    const emotion = CONTEXT_EMOTIONS[context];
+    let pending = '';
+    let tagged: boolean | null = null;
+
+    for await (const delta of deltas) {
+      if (tagged !== null) {
+        yield delta;
+        continue;
+      }
+      pending += delta;
+      if (!pending.trim()) {
+        continue;
+      }
+      tagged = pending.trimStart().startsWith('[');
+      yield tagged ? pending : `[${emotion}]${pending}`;
+    }
+
+    if (tagged === false) {
+      yield `[/${emotion}]`;
+    }
+  }
+}
@@ -1,108 +1,30 @@
+import { LocalizedText, localize } from './localized-text';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './languages';
+import { UI_MESSAGES, UIMessageKey } from './ui-messages';
+
 /**
- * Bilingual error messages for user-friendly error handling
+ * Localized error messages for user-friendly error handling. The texts live
+ * in ui-messages.json under error.<CODE>.
  */
 
-export interface ErrorMessage {
-  ja: string;
-  en: string;
-}
+export type ErrorMessage = LocalizedText;
 
-export const ERROR_MESSAGES: Record<string, ErrorMessage> = {
-  // Voice Processing Errors
-  MICROPHONE_PERMISSION_DENIED: {
-    ja: 'マイクへのアクセスが拒否されました。ブラウザの設定でマイクへのアクセスを許可してください。',
-    en: 'Microphone access was denied. Please allow microphone access in your browser settings.',
-  },
-  MICROPHONE_NOT_FOUND: {
-    ja: 'マイクが検出されませんでした。マイクが正しく接続されているか確認してください。',
-    en: 'No microphone was detected. Please check that your microphone is properly connected.',
-  },
-  VOICE_PROCESSING_ERROR: {
-    ja: '音声の処理中にエラーが発生しました。もう一度お試しください。',
-    en: 'An error occurred while processing your voice. Please try again.',
-  },
-  SPEECH_RECOGNITION_ERROR: {
-    ja: '音声認識に失敗しました。もう一度はっきりと話してください。',
-    en: 'Speech recognition failed. Please speak clearly and try again.',
-  },
-  
-  // Network Errors
-  NETWORK_ERROR: {
-    ja: 'ネットワーク接続に問題があります。インターネット接続を確認してください。',
-    en: 'There is a network connection problem. Please check your internet connection.',
-  },
-  SERVER_ERROR: {
-    ja: 'サーバーエラーが発生しました。しばらくしてからもう一度お試しください。',
-    en: 'A server error occurred. Please try again later.',
-  },
-  SERVICE_UNAVAILABLE: {
-    ja: 'サービスが一時的に利用できません。しばらくしてからもう一度お試しください。',
-    en: 'Service is temporarily unavailable. Please try again later.',
-  },
-  
-  // Session Errors
-  SESSION_EXPIRED: {
-    ja: 'セッションの有効期限が切れました。ページを更新してください。',
-    en: 'Your session has expired. Please refresh the page.',
-  },
-  SESSION_NOT_FOUND: {
-    ja: 'セッションが見つかりません。ページを更新してください。',
-    en: 'Session not found. Please refresh the page.',
-  },
-  
-  // Character/Model Errors
-  CHARACTER_LOAD_ERROR: {
-    ja: 'キャラクターの読み込みに失敗しました。ページを更新してください。',
-    en: 'Failed to load character. Please refresh the page.',
-  },
-  WEBGL_NOT_SUPPORTED: {
-    ja: 'お使いのブラウザはWebGLをサポートしていません。最新のブラウザをご利用ください。',
-    en: 'Your browser does not support WebGL. Please use a modern browser.',
-  },
-  
-  // Slide Errors
-  SLIDE_NOT_FOUND: {
-    ja: 'スライドが見つかりませんでした。',
-    en: 'Slide not found.',
-  },
-  SLIDE_LOAD_ERROR: {
-    ja: 'スライドの読み込みに失敗しました。',
-    en: 'Failed to load slide.',
-  },
-  
-  // API Errors
-  API_KEY_INVALID: {
-    ja: 'APIキーが無効です。設定を確認してください。',
-    en: 'Invalid API key. Please check your configuration.',
-  },
-  RATE_LIMIT_EXCEEDED: {
-    ja: '利用制限に達しました。しばらくしてからもう一度お試しください。',
-    en: 'Rate limit exceeded. Please try again later.',
-  },
-  
-  // Generic Errors
-  UNKNOWN_ERROR: {
-    ja: '予期しないエラーが発生しました。もう一度お試しください。',
-    en: 'An unexpected error occurred. Please try again.',
-  },
-  NOT_SUPPORTED: {
-    ja: 'この機能はお使いのブラウザではサポートされていません。',
-    en: 'This feature is not supported in your browser.',
-  },
-};
+const ERROR_PREFIX = 'error.';
+
+export const ERROR_MESSAGES: Record<string, ErrorMessage> = Object.fromEntries(
+  (Object.keys(UI_MESSAGES) as UIMessageKey[])
+    .filter(key => key.startsWith(ERROR_PREFIX))
+    .map(key => [key.slice(ERROR_PREFIX.length), UI_MESSAGES[key]])
+);
 
 /**
  * Get error message in specified language
  */
 export function getErrorMessage(
   errorCode: string,
-  language: 'ja' | 'en' = 'ja'
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): string {
-  const message = ERROR_MESSAGES[errorCode];
-  if (!message) {
-    return ERROR_MESSAGES.UNKNOWN_ERROR[language];
-  }
-  return message[language];
+  return localize(ERROR_MESSAGES[errorCode] || ERROR_MESSAGES.UNKNOWN_ERROR, language);
 }
 
 /**
@@ -110,7 +32,7 @@ export function getErrorMessage(
  */
 export function formatError(
   error: any,
-  language: 'ja' | 'en' = 'ja'
+  language: SupportedLanguage = DEFAULT_LANGUAGE
 ): string {
   // Check for known error codes
   if (error.code && ERROR_MESSAGES[error.code]) {
@@ -152,7 +74,7 @@ export function formatError(
  */
 export interface ErrorNotificationProps {
   error: any;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   onClose?: () => void;
   autoClose?: boolean;
   autoCloseDelay?: number;
@@ -0,0 +1,249 @@
+import WebSocket from 'ws';
+import { sendMail, SmtpConfig } from './smtp-client';
+import type { StaffEscalation } from './staff-escalation';
+
+/**
+ * Where staff escalations are delivered. Each channel throws when delivery
+ * fails; StaffEscalationService records the outcome per channel, so one
+ * broken webhook does not stop the others.
+ */
+
+export type EscalationChannelName = 'slack' | 'discord' | 'email' | 'reception' | 'stub';
+
+export const ESCALATION_CHANNEL_NAMES: EscalationChannelName[] = ['slack', 'discord', 'email', 'reception', 'stub'];
+
+export interface EscalationNotification {
+  escalation: StaffEscalation;
+  /** Signed link that acknowledges without signing in; null without a base URL or secret */
+  acknowledgeUrl: string | null;
+}
+
+export interface EscalationChannel {
+  readonly name: EscalationChannelName;
+  send(notification: EscalationNotification): Promise<void>;
+}
+
+const URGENCY_LABELS: Record<StaffEscalation['urgency'], string> = {
+  high: '🔴 緊急度: 高',
+  medium: '🟡 緊急度: 中',
+  low: '🟢 緊急度: 低',
+};
+
+const SPEAKER_LABELS: Record<string, string> = {
+  user: '来館者',
+  assistant: 'ガイド',
+  system: 'システム',
+};
+
+const DISCORD_MAX_LENGTH = 2000;
+const SUBJECT_QUESTION_LENGTH = 40;
+
+/** Staff-facing text shared by every channel */
+export function formatEscalationMessage({ escalation, acknowledgeUrl }: EscalationNotification): string {
+  const lines = [
+    `スタッフ呼び出し（${URGENCY_LABELS[escalation.urgency]}）`,
+    `場所: ${escalation.location}`,
+    `言語: ${escalation.language}`,
+    `質問: ${escalation.question}`,
+  ];
+  if (escalation.transcriptExcerpt.length > 0) {
+    lines.push('直近の会話:');
+    escalation.transcriptExcerpt.forEach(message => {
+      lines.push(`  ${SPEAKER_LABELS[message.role] || message.role}: ${message.content}`);
+    });
+  }
+  if (acknowledgeUrl) {
+    lines.push(`対応する: ${acknowledgeUrl}`);
+  }
+  return lines.join('\n');
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status} ${response.statusText}`);
+  }
+}
+
+/** Slack or Discord incoming webhook */
+export class WebhookChannel implements EscalationChannel {
+  constructor(readonly name: 'slack' | 'discord', private readonly url: string) {}
+
+  async send(notification: EscalationNotification): Promise<void> {
+    const text = formatEscalationMessage(notification);
+    if (this.name === 'slack') {
+      // Link previews would fetch the acknowledge page on the staff's behalf
+      await postJson(this.url, { text, unfurl_links: false });
+    } else {
+      await postJson(this.url, { content: text.slice(0, DISCORD_MAX_LENGTH) });
+    }
+  }
+}
+
+export interface EmailChannelConfig {
+  smtp: SmtpConfig;
+  from: string;
+  to: string[];
+}
+
+export class EmailChannel implements EscalationChannel {
+  readonly name = 'email';
+
+  constructor(
+    private readonly config: EmailChannelConfig,
+    private readonly mailer: typeof sendMail = sendMail
+  ) {}
+
+  async send(notification: EscalationNotification): Promise<void> {
+    const question = notification.escalation.question;
+    const shortQuestion = question.length > SUBJECT_QUESTION_LENGTH
+      ? `${question.slice(0, SUBJECT_QUESTION_LENGTH)}…`
+      : question;
+    await this.mailer(this.config.smtp, {
+      from: this.config.from,
+      to: this.config.to,
+      subject: `[Engineer Cafe] スタッフ呼び出し: ${shortQuestion}`,
+      text: formatEscalationMessage(notification),
+    });
+  }
+}
+
+export interface ReceptionChannelConfig {
+  websocketUrl?: string;
+  apiUrl?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * The reception system: a staff_notification message over its WebSocket and
+ * a POST to its notifications endpoint. Delivery counts when either works.
+ */
+export class ReceptionChannel implements EscalationChannel {
+  readonly name = 'reception';
+
+  constructor(private readonly config: ReceptionChannelConfig) {}
+
+  async send(notification: EscalationNotification): Promise<void> {
+    const { escalation, acknowledgeUrl } = notification;
+    const message = {
+      type: 'staff_notification',
+      message: formatEscalationMessage(notification),
+      urgency: escalation.urgency,
+      escalationId: escalation.id,
+      location: escalation.location,
+      acknowledgeUrl,
+      timestamp: escalation.createdAt,
+      source: 'ai_navigator',
+    };
+
+    const attempts: Array<Promise<void>> = [];
+    if (this.config.websocketUrl) attempts.push(this.sendWebSocket(this.config.websocketUrl, message));
+    if (this.config.apiUrl) attempts.push(postJson(`${this.config.apiUrl}/notifications`, message));
+    if (attempts.length === 0) {
+      throw new Error('Reception WebSocket or API URL not configured');
+    }
+
+    const results = await Promise.all(attempts.map(attempt => attempt.then(() => null, (error: Error) => error)));
+    const errors = results.filter((error): error is Error => error !== null);
+    if (errors.length === attempts.length) {
+      throw new Error(errors.map(error => error.message).join('; '));
+    }
+  }
+
+  private sendWebSocket(url: string, message: object): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const timer = setTimeout(() => {
+        socket.terminate();
+        reject(new Error('Reception WebSocket timed out'));
+      }, this.config.timeoutMs || 5000);
+
+      socket.on('open', () => {
+        socket.send(JSON.stringify(message), error => {
+          clearTimeout(timer);
+          socket.close();
+          if (error) reject(error);
+          else resolve();
+        });
+      });
+      socket.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+}
+
+/** Keeps notifications in memory and logs them; for local development and tests */
+export class StubChannel implements EscalationChannel {
+  readonly name = 'stub';
+  readonly sent: EscalationNotification[] = [];
+
+  constructor(private readonly failWith: string | null = null) {}
+
+  async send(notification: EscalationNotification): Promise<void> {
+    if (this.failWith) throw new Error(this.failWith);
+    this.sent.push(notification);
+    console.log(`[Escalation] ${formatEscalationMessage(notification)}`);
+  }
+}
+
+/**
+ * Channels from the environment. ESCALATION_CHANNELS lists the ones to use;
+ * when it is empty every channel with settings is used. "stub" is only used
+ * when listed.
+ */
+export function createChannelsFromEnv(env: NodeJS.ProcessEnv = process.env): EscalationChannel[] {
+  const listed = (env.ESCALATION_CHANNELS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  const unknown = listed.filter(name => !ESCALATION_CHANNEL_NAMES.includes(name as EscalationChannelName));
+  if (unknown.length > 0) {
+    console.warn(`[Escalation] Ignoring unknown channels: ${unknown.join(', ')}`);
+  }
+
+  const wanted = (name: EscalationChannelName, configured: boolean) => {
+    if (listed.length === 0) return configured;
+    if (!listed.includes(name)) return false;
+    if (!configured) console.warn(`[Escalation] Channel ${name} is listed but not configured`);
+    return configured;
+  };
+
+  const channels: EscalationChannel[] = [];
+  if (wanted('slack', !!env.ESCALATION_SLACK_WEBHOOK_URL)) {
+    channels.push(new WebhookChannel('slack', env.ESCALATION_SLACK_WEBHOOK_URL!));
+  }
+  if (wanted('discord', !!env.ESCALATION_DISCORD_WEBHOOK_URL)) {
+    channels.push(new WebhookChannel('discord', env.ESCALATION_DISCORD_WEBHOOK_URL!));
+  }
+  const emailTo = (env.ESCALATION_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+  if (wanted('email', !!env.SMTP_HOST && !!env.ESCALATION_EMAIL_FROM && emailTo.length > 0)) {
+    channels.push(new EmailChannel({
+      smtp: {
+        host: env.SMTP_HOST!,
+        port: parseInt(env.SMTP_PORT || '587', 10),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+        allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      },
+      from: env.ESCALATION_EMAIL_FROM!,
+      to: emailTo,
+    }));
+  }
+  if (wanted('reception', !!env.WEBSOCKET_URL || !!env.RECEPTION_API_URL)) {
+    channels.push(new ReceptionChannel({
+      websocketUrl: env.WEBSOCKET_URL || undefined,
+      apiUrl: env.RECEPTION_API_URL || undefined,
+    }));
+  }
+  if (listed.includes('stub')) {
+    channels.push(new StubChannel());
+  }
+  return channels;
+}
@@ -0,0 +1,313 @@
+import { decodeEntities } from '../website-content';
+
+/**
+ * Polite crawler for the official Engineer Cafe website: honours robots.txt
+ * (including Crawl-delay), discovers pages from sitemaps, rate limits its
+ * requests and revalidates pages with ETag / Last-Modified.
+ */
+
+export const CRAWLER_USER_AGENT = 'EngineerCafeNavigator/1.0';
+
+export interface WebsiteCrawlerOptions {
+  /** Minimum time between two requests; robots.txt Crawl-delay can raise it */
+  minRequestInterval?: number;
+  maxPages?: number;
+  timeoutMs?: number;
+  userAgent?: string;
+  /** Defaults to the global fetch; tests pass a wrapper to observe requests */
+  fetch?: typeof fetch;
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+export interface PageValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export type PageFetchResult =
+  | { status: 'ok'; url: string; html: string; etag: string | null; lastModified: string | null }
+  | { status: 'not_modified'; url: string }
+  | { status: 'gone'; url: string; httpStatus: number }
+  | { status: 'disallowed'; url: string }
+  | { status: 'error'; url: string; error: string };
+
+export interface DiscoveryResult {
+  urls: string[];
+  /**
+   * True when every origin's sitemap was read. Only then can a known page
+   * missing from `urls` be treated as removed from the site.
+   */
+  complete: boolean;
+}
+
+const MAX_SITEMAP_DEPTH = 2;
+
+/** Parse the robots.txt group that applies to userAgent (falling back to *) */
+export function parseRobotsTxt(text: string, userAgent: string = CRAWLER_USER_AGENT): RobotsRules {
+  const token = userAgent.split('/')[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [], sitemaps } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+    } else if (current && field === 'allow' && value) {
+      current.rules.allow.push(value);
+    } else if (current && field === 'disallow' && value) {
+      current.rules.disallow.push(value);
+    } else if (current && field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+      current.rules.crawlDelay = parseFloat(value);
+    }
+  }
+
+  const group = groups.find(candidate => candidate.agents.some(agent => agent !== '*' && token.includes(agent)))
+    || groups.find(candidate => candidate.agents.includes('*'));
+  return group ? group.rules : { allow: [], disallow: [], sitemaps };
+}
+
+function robotsPatternLength(pattern: string, path: string): number {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path) ? pattern.length : -1;
+}
+
+/** Longest matching rule wins; Allow wins a tie */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) => Math.max(-1, ...patterns.map(pattern => robotsPatternLength(pattern, path)));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+/** <loc> entries of a sitemap or sitemap index */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = (block: string) => (block.match(/<loc>([\s\S]*?)<\/loc>/gi) || [])
+    .map(loc => decodeEntities(loc.replace(/<\/?loc>/gi, '').replace(/<!\[CDATA\[|\]\]>/g, '').trim()));
+
+  return {
+    urls: (xml.match(/<url>[\s\S]*?<\/url>/gi) || []).flatMap(locs),
+    sitemaps: (xml.match(/<sitemap>[\s\S]*?<\/sitemap>/gi) || []).flatMap(locs),
+  };
+}
+
+export class WebsiteCrawler {
+  private readonly minRequestInterval: number;
+  private readonly maxPages: number;
+  private readonly timeoutMs: number;
+  private readonly userAgent: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly robots = new Map<string, RobotsRules>();
+  private lastRequestTime = 0;
+
+  constructor(options: WebsiteCrawlerOptions = {}) {
+    this.minRequestInterval = options.minRequestInterval ?? 1000;
+    this.maxPages = options.maxPages ?? 50;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.userAgent = options.userAgent ?? CRAWLER_USER_AGENT;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Pages to crawl: the seed URLs plus sitemap entries on the same origin
+   * under a seed's directory, minus anything robots.txt disallows.
+   */
+  async discover(seedUrls: string[]): Promise<DiscoveryResult> {
+    const seeds = seedUrls.map(url => new URL(url));
+    const found: string[] = [];
+    let complete = true;
+
+    const origins = Array.from(new Set(seeds.map(seed => seed.origin)));
+    for (const origin of origins) {
+      const rules = await this.getRobots(origin);
+      const sitemapUrls = rules.sitemaps.length > 0 ? rules.sitemaps : [`${origin}/sitemap.xml`];
+      const prefixes = seeds
+        .filter(seed => seed.origin === origin)
+        .map(seed => seed.pathname.slice(0, seed.pathname.lastIndexOf('/') + 1));
+
+      found.push(...seeds.filter(seed => seed.origin === origin).map(seed => seed.href));
+
+      const fromSitemaps = await this.readSitemaps(sitemapUrls, MAX_SITEMAP_DEPTH);
+      if (!fromSitemaps) {
+        complete = false;
+        continue;
+      }
+      for (const url of fromSitemaps) {
+        const parsed = this.normalize(url);
+        if (parsed && parsed.origin === origin && prefixes.some(prefix => parsed.pathname.startsWith(prefix))) {
+          found.push(parsed.href);
+        }
+      }
+    }
+
+    const unique = Array.from(new Set(found));
+    const allowed: string[] = [];
+    for (const url of unique) {
+      if (await this.isAllowed(url)) allowed.push(url);
+    }
+
+    if (allowed.length > this.maxPages) {
+      // A truncated list says nothing about the pages left out
+      return { urls: allowed.slice(0, this.maxPages), complete: false };
+    }
+    return { urls: allowed, complete };
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const parsed = new URL(url);
+    const rules = await this.getRobots(parsed.origin);
+    return isPathAllowed(rules, parsed.pathname + parsed.search);
+  }
+
+  /** Fetch a page, revalidating with the validators from the previous crawl */
+  async fetchPage(url: string, validators: PageValidators = {}): Promise<PageFetchResult> {
+    if (!(await this.isAllowed(url))) {
+      return { status: 'disallowed', url };
+    }
+
+    const headers: Record<string, string> = { Accept: 'text/html' };
+    if (validators.etag) headers['If-None-Match'] = validators.etag;
+    if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+    try {
+      const response = await this.request(url, headers);
+
+      if (response.status === 304) {
+        return { status: 'not_modified', url };
+      }
+      if (response.status === 404 || response.status === 410) {
+        return { status: 'gone', url, httpStatus: response.status };
+      }
+      if (!response.ok) {
+        return { status: 'error', url, error: `HTTP ${response.status}` };
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('html')) {
+        return { status: 'error', url, error: `Not an HTML page: ${contentType}` };
+      }
+
+      return {
+        status: 'ok',
+        url,
+        html: await response.text(),
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      };
+    } catch (error) {
+      return { status: 'error', url, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async getRobots(origin: string): Promise<RobotsRules> {
+    const cached = this.robots.get(origin);
+    if (cached) return cached;
+
+    let rules: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+    try {
+      const response = await this.request(`${origin}/robots.txt`, { Accept: 'text/plain' });
+      if (response.ok) {
+        rules = parseRobotsTxt(await response.text(), this.userAgent);
+      } else if (response.status >= 500) {
+        // Server trouble: assume everything is off limits until the next run
+        rules = { allow: [], disallow: ['/'], sitemaps: [] };
+      }
+    } catch (error) {
+      console.warn(`[WebsiteCrawler] Failed to read robots.txt for ${origin}:`, error);
+      rules = { allow: [], disallow: ['/'], sitemaps: [] };
+    }
+
+    this.robots.set(origin, rules);
+    return rules;
+  }
+
+  /** All page URLs in the given sitemaps, or null when one of them could not be read */
+  private async readSitemaps(sitemapUrls: string[], depth: number): Promise<string[] | null> {
+    const urls: string[] = [];
+    for (const sitemapUrl of sitemapUrls) {
+      try {
+        const response = await this.request(sitemapUrl, { Accept: 'application/xml, text/xml' });
+        if (!response.ok) {
+          console.warn(`[WebsiteCrawler] Sitemap ${sitemapUrl} returned ${response.status}`);
+          return null;
+        }
+
+        const sitemap = parseSitemap(await response.text());
+        urls.push(...sitemap.urls);
+        if (sitemap.sitemaps.length > 0 && depth > 0) {
+          const nested = await this.readSitemaps(sitemap.sitemaps, depth - 1);
+          if (!nested) return null;
+          urls.push(...nested);
+        }
+      } catch (error) {
+        console.warn(`[WebsiteCrawler] Failed to read sitemap ${sitemapUrl}:`, error);
+        return null;
+      }
+    }
+    return urls;
+  }
+
+  private normalize(url: string): URL | null {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed;
+    } catch {
+      return null;
+    }
+  }
+
+  private async request(url: string, headers: Record<string, string>): Promise<Response> {
+    await this.enforceRateLimit(new URL(url).origin);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      return await this.fetchImpl(url, {
+        headers: { ...headers, 'User-Agent': this.userAgent },
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async enforceRateLimit(origin: string): Promise<void> {
+    const crawlDelay = this.robots.get(origin)?.crawlDelay;
+    const interval = Math.max(this.minRequestInterval, crawlDelay ? crawlDelay * 1000 : 0);
+    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
+
+    if (timeSinceLastRequest < interval) {
+      await new Promise(resolve => setTimeout(resolve, interval - timeSinceLastRequest));
+    }
+
+    this.lastRequestTime = Date.now();
+  }
+}
@@ -0,0 +1,717 @@
+import { supabaseAdmin } from './supabase';
+import { DEFAULT_CALENDAR_TIME_ZONE, msToWall, toZonedWallTime, zonedTimeToUtc } from './icalendar';
+import { getJapaneseHoliday, JapaneseHoliday, toDateKey } from './japanese-holidays';
+import { localize, LocalizedText } from './localized-text';
+import type { SupportedLanguage } from '../mastra/types/config';
+import { promptLanguageOf } from './languages';
+
+/**
+ * Opening hours for Engineer Cafe, Saino and the main hall: regular weekly
+ * hours, hours on Japanese public holidays, recurring closures and one-off
+ * exceptions staff add in /admin/hours. The resolver answers whether a
+ * facility is open, closing soon or closed at any moment in Asia/Tokyo.
+ */
+
+/** 'HH:MM' wall-clock times; closes may be 24:00 */
+export interface TimeRange {
+  opens: string;
+  closes: string;
+}
+
+export type ClosureRule =
+  /** The last given weekday (0 = Sunday) of each month; holidayShift moves it to the next working day when that is a holiday */
+  | { type: 'last-weekday'; weekday: number; holidayShift: boolean; reason: LocalizedText }
+  /** Every year from MM-DD to MM-DD, wrapping over New Year when from > to */
+  | { type: 'yearly'; from: string; to: string; reason: LocalizedText };
+
+export interface FacilitySchedule {
+  id: string;
+  name: LocalizedText;
+  /** Hours per weekday, Sunday first; an empty list means closed that day */
+  weekly: TimeRange[][];
+  /** Hours on public holidays; null keeps the weekday's hours */
+  holidayHours: TimeRange[] | null;
+  /** Recurring closures; fixed in code because they follow the facility's bylaws */
+  closures: ClosureRule[];
+  /** Only opens for events, whose hours are added as exceptions */
+  eventOnly: boolean;
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+}
+
+/** The parts of a schedule staff edit in /admin/hours */
+export type FacilityHoursUpdate = Pick<FacilitySchedule, 'weekly' | 'holidayHours' | 'eventOnly'>;
+
+/** Hours for one date that replace everything else; no hours means closed */
+export interface ScheduleException {
+  id: string;
+  facilityId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  hours: TimeRange[];
+  note: LocalizedText;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export type NewScheduleException = Pick<ScheduleException, 'facilityId' | 'date' | 'hours' | 'note'>;
+
+export interface FacilityDay {
+  facilityId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  weekday: number;
+  hours: TimeRange[];
+  open: boolean;
+  /** Where the hours came from */
+  source: 'exception' | 'closure' | 'event-only' | 'holiday' | 'weekly';
+  /** Why the day is closed or has special hours */
+  reason: LocalizedText | null;
+  holiday: JapaneseHoliday | null;
+}
+
+export type FacilityState = 'open' | 'closing-soon' | 'closed';
+
+export interface FacilityStatus {
+  facilityId: string;
+  name: LocalizedText;
+  state: FacilityState;
+  at: string;
+  today: FacilityDay;
+  /** When the current opening ends */
+  closesAt: string | null;
+  minutesUntilClose: number | null;
+  /** Next opening when closed, within 30 days */
+  opensAt: string | null;
+}
+
+/** Bad input or an unknown facility or exception; API routes map this to 400 or 404 */
+export class FacilityScheduleError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'FacilityScheduleError';
+  }
+}
+
+const ENGINEER_CAFE_HOURS: TimeRange[] = [{ opens: '09:00', closes: '22:00' }];
+
+const BUILDING_CLOSURES: ClosureRule[] = [
+  {
+    type: 'last-weekday',
+    weekday: 1,
+    holidayShift: true,
+    reason: { ja: '毎月最終月曜日の休館日', en: 'the monthly closure on the last Monday' },
+  },
+  {
+    type: 'yearly',
+    from: '12-29',
+    to: '01-03',
+    reason: { ja: '年末年始の休館期間', en: 'the New Year holidays' },
+  },
+];
+
+/**
+ * Built-in schedules. Saino and the main hall are in the same building, so
+ * they share its closures; Saino starts from the building's hours until staff
+ * set its own in /admin/hours.
+ */
+export const DEFAULT_FACILITIES: FacilitySchedule[] = [
+  {
+    id: 'engineer-cafe',
+    name: { ja: 'エンジニアカフェ', en: 'Engineer Cafe' },
+    weekly: Array.from({ length: 7 }, () => ENGINEER_CAFE_HOURS),
+    holidayHours: null,
+    closures: BUILDING_CLOSURES,
+    eventOnly: false,
+  },
+  {
+    id: 'saino',
+    name: { ja: 'sainoカフェ', en: 'Saino Cafe' },
+    weekly: Array.from({ length: 7 }, () => ENGINEER_CAFE_HOURS),
+    holidayHours: null,
+    closures: BUILDING_CLOSURES,
+    eventOnly: false,
+  },
+  {
+    id: 'main-hall',
+    name: { ja: 'メインホール', en: 'the main hall' },
+    weekly: Array.from({ length: 7 }, () => []),
+    holidayHours: null,
+    closures: BUILDING_CLOSURES,
+    eventOnly: true,
+  },
+];
+
+/** Which facility a question is about; Engineer Cafe unless it names another */
+export function facilityForQuestion(question: string): string {
+  const text = question.normalize('NFKC').toLowerCase();
+  if (/saino|サイノ|才能|say no/.test(text)) return 'saino';
+  if (/ホール|hall/.test(text)) return 'main-hall';
+  return 'engineer-cafe';
+}
+
+export const CLOSING_SOON_MINUTES = 30;
+
+const EVENT_ONLY_REASON: LocalizedText = { ja: 'イベント開催時のみの利用', en: 'open only for events' };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Minutes after midnight of an 'HH:MM' time */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+function dayMs(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function keyOfMs(ms: number): string {
+  const date = new Date(ms);
+  return toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+/** The instant `minutes` after midnight of a date, in the time zone */
+function instantAt(date: string, minutes: number, timeZone: string): Date {
+  return zonedTimeToUtc(msToWall(dayMs(date) + minutes * MINUTE_MS), timeZone);
+}
+
+export function isValidDateKey(date: string): boolean {
+  return DATE_PATTERN.test(date) && keyOfMs(dayMs(date)) === date;
+}
+
+/**
+ * Check ranges are HH:MM, end after they start and do not overlap; returns
+ * them sorted
+ */
+export function validateTimeRanges(ranges: unknown): TimeRange[] {
+  if (!Array.isArray(ranges)) {
+    throw new FacilityScheduleError('Hours must be a list of { opens, closes } ranges');
+  }
+  const sorted = ranges.map(range => {
+    const { opens, closes } = (range || {}) as Partial<TimeRange>;
+    if (typeof opens !== 'string' || typeof closes !== 'string' || !TIME_PATTERN.test(opens) || !TIME_PATTERN.test(closes)
+      || timeToMinutes(opens) >= timeToMinutes(closes) || timeToMinutes(closes) > 24 * 60) {
+      throw new FacilityScheduleError(`Invalid hours: ${opens}-${closes}. Use HH:MM with the closing time after opening`);
+    }
+    return { opens, closes };
+  }).sort((a, b) => a.opens.localeCompare(b.opens));
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (timeToMinutes(sorted[i].opens) < timeToMinutes(sorted[i - 1].closes)) {
+      throw new FacilityScheduleError(`Hours overlap: ${formatTimeRanges(sorted, 'en')}`);
+    }
+  }
+  return sorted;
+}
+
+export function formatTimeRanges(ranges: TimeRange[], language: SupportedLanguage): string {
+  const time = (value: string) => value.replace(/^0/, '');
+  return ranges
+    .map(range => `${time(range.opens)}${promptLanguageOf(language) === 'ja' ? '〜' : '-'}${time(range.closes)}`)
+    .join(promptLanguageOf(language) === 'ja' ? '、' : ', ');
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): string {
+  const last = Date.UTC(year, month, 0);
+  const offset = (new Date(last).getUTCDay() - weekday + 7) % 7;
+  return keyOfMs(last - offset * DAY_MS);
+}
+
+/** Whether a closure rule closes the facility on a date */
+export function closureApplies(rule: ClosureRule, date: string): boolean {
+  if (rule.type === 'yearly') {
+    const monthDay = date.slice(5);
+    return rule.from <= rule.to
+      ? monthDay >= rule.from && monthDay <= rule.to
+      : monthDay >= rule.from || monthDay <= rule.to;
+  }
+
+  const [year, month] = date.split('-').map(Number);
+  // The previous month's closure can be pushed into this one
+  for (const [y, m] of [[year, month], month === 1 ? [year - 1, 12] : [year, month - 1]]) {
+    let closure = lastWeekdayOfMonth(y, m, rule.weekday);
+    if (rule.holidayShift) {
+      let ms = dayMs(closure);
+      while (getJapaneseHoliday(keyOfMs(ms)) || [0, 6].includes(new Date(ms).getUTCDay())) ms += DAY_MS;
+      closure = keyOfMs(ms);
+    }
+    if (closure === date) return true;
+  }
+  return false;
+}
+
+/**
+ * Hours for one date. An exception wins, then closures, then event-only
+ * facilities stay shut, then holiday hours, then the weekday's hours.
+ */
+export function resolveDay(facility: FacilitySchedule, date: string, exceptions: ScheduleException[] = []): FacilityDay {
+  const weekday = new Date(dayMs(date)).getUTCDay();
+  const holiday = getJapaneseHoliday(date);
+  const day = (hours: TimeRange[], source: FacilityDay['source'], reason: LocalizedText | null): FacilityDay => ({
+    facilityId: facility.id, date, weekday, hours, open: hours.length > 0, source, reason, holiday,
+  });
+
+  const exception = exceptions.find(candidate => candidate.facilityId === facility.id && candidate.date === date);
+  if (exception) return day(exception.hours, 'exception', exception.note);
+
+  const closure = facility.closures.find(rule => closureApplies(rule, date));
+  if (closure) return day([], 'closure', closure.reason);
+  if (facility.eventOnly) return day([], 'event-only', EVENT_ONLY_REASON);
+  if (holiday && facility.holidayHours) return day(facility.holidayHours, 'holiday', holiday.name);
+  return day(facility.weekly[weekday] || [], 'weekly', null);
+}
+
+export interface ResolveStatusOptions {
+  timeZone?: string;
+  closingSoonMinutes?: number;
+}
+
+/** Open, closing soon or closed at a moment, with the closing or next opening time */
+export function resolveStatus(
+  facility: FacilitySchedule,
+  at: Date,
+  exceptions: ScheduleException[] = [],
+  options: ResolveStatusOptions = {}
+): FacilityStatus {
+  const timeZone = options.timeZone || DEFAULT_CALENDAR_TIME_ZONE;
+  const closingSoonMinutes = options.closingSoonMinutes ?? CLOSING_SOON_MINUTES;
+  const wall = toZonedWallTime(at, timeZone);
+  const date = toDateKey(wall.year, wall.month, wall.day);
+  const minutes = wall.hour * 60 + wall.minute + wall.second / 60;
+  const today = resolveDay(facility, date, exceptions);
+  const status = { facilityId: facility.id, name: facility.name, at: at.toISOString(), today };
+
+  const current = today.hours.find(range => timeToMinutes(range.opens) <= minutes && minutes < timeToMinutes(range.closes));
+  if (current) {
+    const minutesUntilClose = Math.ceil(timeToMinutes(current.closes) - minutes);
+    return {
+      ...status,
+      state: minutesUntilClose <= closingSoonMinutes ? 'closing-soon' : 'open',
+      closesAt: instantAt(date, timeToMinutes(current.closes), timeZone).toISOString(),
+      minutesUntilClose,
+      opensAt: null,
+    };
+  }
+
+  let opensAt: string | null = null;
+  for (let offset = 0; offset <= 30 && !opensAt; offset++) {
+    const candidate = offset === 0 ? today : resolveDay(facility, keyOfMs(dayMs(date) + offset * DAY_MS), exceptions);
+    const next = candidate.hours.find(range => offset > 0 || timeToMinutes(range.opens) > minutes);
+    if (next) opensAt = instantAt(candidate.date, timeToMinutes(next.opens), timeZone).toISOString();
+  }
+  return { ...status, state: 'closed', closesAt: null, minutesUntilClose: null, opensAt };
+}
+
+function toException(row: any): ScheduleException {
+  return {
+    id: row.id,
+    facilityId: row.facility_id,
+    date: row.date,
+    hours: row.hours || [],
+    note: row.note || {},
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export interface ScheduleExceptionFilters {
+  facilityId?: string;
+  /** YYYY-MM-DD, inclusive */
+  from?: string;
+  to?: string;
+}
+
+/** Saved hours per facility, applied over DEFAULT_FACILITIES, and exceptions */
+export interface FacilityScheduleStore {
+  listHours(): Promise<Array<FacilityHoursUpdate & { facilityId: string; updatedBy: string | null; updatedAt: string | null }>>;
+  saveHours(facilityId: string, hours: FacilityHoursUpdate, updatedBy: string): Promise<void>;
+  listExceptions(filters: ScheduleExceptionFilters): Promise<ScheduleException[]>;
+  addException(exception: NewScheduleException, createdBy: string): Promise<ScheduleException>;
+  deleteException(id: string): Promise<boolean>;
+}
+
+/**
+ * facility_schedules and facility_schedule_exceptions tables
+ * (supabase/migrations/20250702000000_add_facility_schedules.sql)
+ */
+export class SupabaseFacilityScheduleStore implements FacilityScheduleStore {
+  async listHours() {
+    const { data, error } = await supabaseAdmin
+      .from('facility_schedules')
+      .select('*');
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+      facilityId: row.facility_id,
+      weekly: row.weekly,
+      holidayHours: row.holiday_hours,
+      eventOnly: row.event_only,
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async saveHours(facilityId: string, hours: FacilityHoursUpdate, updatedBy: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('facility_schedules')
+      .upsert({
+        facility_id: facilityId,
+        weekly: hours.weekly,
+        holiday_hours: hours.holidayHours,
+        event_only: hours.eventOnly,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'facility_id' });
+
+    if (error) throw error;
+  }
+
+  async listExceptions(filters: ScheduleExceptionFilters): Promise<ScheduleException[]> {
+    let query = supabaseAdmin
+      .from('facility_schedule_exceptions')
+      .select('*')
+      .order('date', { ascending: true });
+
+    if (filters.facilityId) query = query.eq('facility_id', filters.facilityId);
+    if (filters.from) query = query.gte('date', filters.from);
+    if (filters.to) query = query.lte('date', filters.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toException);
+  }
+
+  async addException(exception: NewScheduleException, createdBy: string): Promise<ScheduleException> {
+    const { data, error } = await supabaseAdmin
+      .from('facility_schedule_exceptions')
+      .insert({
+        facility_id: exception.facilityId,
+        date: exception.date,
+        hours: exception.hours,
+        note: exception.note,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new FacilityScheduleError(`${exception.facilityId} already has an exception on ${exception.date}`, 409);
+      }
+      throw error;
+    }
+    return toException(data);
+  }
+
+  async deleteException(id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('facility_schedule_exceptions')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+}
+
+/** Process-local store for tests */
+export class InMemoryFacilityScheduleStore implements FacilityScheduleStore {
+  private hours = new Map<string, FacilityHoursUpdate & { facilityId: string; updatedBy: string | null; updatedAt: string | null }>();
+  private exceptions: ScheduleException[] = [];
+
+  async listHours() {
+    return Array.from(this.hours.values());
+  }
+
+  async saveHours(facilityId: string, hours: FacilityHoursUpdate, updatedBy: string): Promise<void> {
+    this.hours.set(facilityId, { ...hours, facilityId, updatedBy, updatedAt: new Date().toISOString() });
+  }
+
+  async listExceptions(filters: ScheduleExceptionFilters): Promise<ScheduleException[]> {
+    return this.exceptions
+      .filter(exception => (!filters.facilityId || exception.facilityId === filters.facilityId)
+        && (!filters.from || exception.date >= filters.from)
+        && (!filters.to || exception.date <= filters.to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async addException(exception: NewScheduleException, createdBy: string): Promise<ScheduleException> {
+    if (this.exceptions.some(existing => existing.facilityId === exception.facilityId && existing.date === exception.date)) {
+      throw new FacilityScheduleError(`${exception.facilityId} already has an exception on ${exception.date}`, 409);
+    }
+    const created: ScheduleException = {
+      ...exception,
+      id: `exception-${this.exceptions.length + 1}`,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    };
+    this.exceptions.push(created);
+    return created;
+  }
+
+  async deleteException(id: string): Promise<boolean> {
+    const before = this.exceptions.length;
+    this.exceptions = this.exceptions.filter(exception => exception.id !== id);
+    return this.exceptions.length < before;
+  }
+}
+
+export interface FacilityScheduleServiceOptions {
+  timeZone?: string;
+  now?: () => Date;
+  cacheTtlMs?: number;
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export class FacilityScheduleService {
+  private readonly timeZone: string;
+  private readonly now: () => Date;
+  private readonly cacheTtlMs: number;
+  private cache: { facilities: FacilitySchedule[]; exceptions: ScheduleException[]; loadedAt: number } | null = null;
+
+  constructor(private store: FacilityScheduleStore, options: FacilityScheduleServiceOptions = {}) {
+    this.timeZone = options.timeZone || DEFAULT_CALENDAR_TIME_ZONE;
+    this.now = options.now || (() => new Date());
+    this.cacheTtlMs = options.cacheTtlMs ?? CACHE_TTL_MS;
+  }
+
+  async getFacilities(): Promise<FacilitySchedule[]> {
+    return (await this.load()).facilities;
+  }
+
+  async getFacility(facilityId: string): Promise<FacilitySchedule> {
+    const facility = (await this.getFacilities()).find(candidate => candidate.id === facilityId);
+    if (!facility) {
+      throw new FacilityScheduleError(`Unknown facility: ${facilityId}`, 404);
+    }
+    return facility;
+  }
+
+  /** The date (YYYY-MM-DD) in the facility's time zone */
+  dateOf(at: Date): string {
+    const wall = toZonedWallTime(at, this.timeZone);
+    return toDateKey(wall.year, wall.month, wall.day);
+  }
+
+  async getDay(facilityId: string, date: string): Promise<FacilityDay> {
+    if (!isValidDateKey(date)) {
+      throw new FacilityScheduleError(`Invalid date: ${date}. Use YYYY-MM-DD`);
+    }
+    const facility = await this.getFacility(facilityId);
+    return resolveDay(facility, date, (await this.load()).exceptions);
+  }
+
+  async getStatus(facilityId: string, at: Date = this.now()): Promise<FacilityStatus> {
+    if (isNaN(at.getTime())) {
+      throw new FacilityScheduleError('Invalid time');
+    }
+    const facility = await this.getFacility(facilityId);
+    return resolveStatus(facility, at, (await this.load()).exceptions, { timeZone: this.timeZone });
+  }
+
+  /** Days starting on the date of `from` */
+  async getWeek(facilityId: string, from: Date = this.now(), days: number = 7): Promise<FacilityDay[]> {
+    const facility = await this.getFacility(facilityId);
+    const { exceptions } = await this.load();
+    const start = dayMs(this.dateOf(from));
+    return Array.from({ length: days }, (_, offset) => resolveDay(facility, keyOfMs(start + offset * DAY_MS), exceptions));
+  }
+
+  async updateFacility(facilityId: string, update: FacilityHoursUpdate, updatedBy: string): Promise<FacilitySchedule> {
+    await this.getFacility(facilityId);
+    if (!Array.isArray(update.weekly) || update.weekly.length !== 7) {
+      throw new FacilityScheduleError('weekly must list hours for each day, Sunday first');
+    }
+    const hours: FacilityHoursUpdate = {
+      weekly: update.weekly.map(validateTimeRanges),
+      holidayHours: update.holidayHours === null ? null : validateTimeRanges(update.holidayHours),
+      eventOnly: update.eventOnly === true,
+    };
+
+    await this.store.saveHours(facilityId, hours, updatedBy);
+    this.invalidate();
+    return this.getFacility(facilityId);
+  }
+
+  /** Exceptions from today on unless a period is given; straight from the store so admins see their changes */
+  async listExceptions(filters: ScheduleExceptionFilters = {}): Promise<ScheduleException[]> {
+    return this.store.listExceptions({ from: this.dateOf(this.now()), ...filters });
+  }
+
+  async addException(input: NewScheduleException, createdBy: string): Promise<ScheduleException> {
+    await this.getFacility(input.facilityId);
+    if (typeof input.date !== 'string' || !isValidDateKey(input.date)) {
+      throw new FacilityScheduleError(`Invalid date: ${input.date}. Use YYYY-MM-DD`);
+    }
+    const note = input.note || {};
+    if (!note.ja && !note.en) {
+      throw new FacilityScheduleError('A note (ja or en) saying why is required');
+    }
+
+    const created = await this.store.addException({
+      facilityId: input.facilityId,
+      date: input.date,
+      hours: validateTimeRanges(input.hours || []),
+      note,
+    }, createdBy);
+    this.invalidate();
+    return created;
+  }
+
+  async deleteException(id: string): Promise<void> {
+    if (!(await this.store.deleteException(id))) {
+      throw new FacilityScheduleError('Exception not found', 404);
+    }
+    this.invalidate();
+  }
+
+  /** Drop cached rows so the next read goes to the store */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Schedules with saved hours applied and exceptions from a month back.
+   * Without the store the built-in hours still answer visitors.
+   */
+  private async load(): Promise<{ facilities: FacilitySchedule[]; exceptions: ScheduleException[] }> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtlMs) {
+      return this.cache;
+    }
+
+    try {
+      const [saved, exceptions] = await Promise.all([
+        this.store.listHours(),
+        this.store.listExceptions({ from: keyOfMs(dayMs(this.dateOf(this.now())) - 31 * DAY_MS) }),
+      ]);
+      const facilities = DEFAULT_FACILITIES.map(facility => {
+        const hours = saved.find(row => row.facilityId === facility.id);
+        return hours ? {
+          ...facility,
+          weekly: hours.weekly,
+          holidayHours: hours.holidayHours,
+          eventOnly: hours.eventOnly,
+          updatedBy: hours.updatedBy,
+          updatedAt: hours.updatedAt,
+        } : facility;
+      });
+      this.cache = { facilities, exceptions, loadedAt: Date.now() };
+    } catch (error) {
+      console.error('[FacilitySchedule] Failed to load schedules, using cached/default hours:', error);
+      this.cache = {
+        facilities: this.cache?.facilities || DEFAULT_FACILITIES,
+        exceptions: this.cache?.exceptions || [],
+        loadedAt: Date.now(),
+      };
+    }
+    return this.cache;
+  }
+}
+
+function formatClock(iso: string, language: SupportedLanguage, timeZone: string): string {
+  return new Date(iso).toLocaleTimeString(promptLanguageOf(language) === 'en' ? 'en-US' : 'ja-JP', { timeZone, hour: 'numeric', minute: '2-digit' });
+}
+
+function formatDay(date: string, language: SupportedLanguage): string {
+  return new Date(dayMs(date)).toLocaleDateString(promptLanguageOf(language) === 'en' ? 'en-US' : 'ja-JP', {
+    timeZone: 'UTC', month: 'long', day: 'numeric', weekday: 'short',
+  });
+}
+
+function dateInZone(iso: string, timeZone: string): string {
+  const wall = toZonedWallTime(new Date(iso), timeZone);
+  return toDateKey(wall.year, wall.month, wall.day);
+}
+
+/** When the facility next opens: "at 9:00" today, or with the date */
+function formatOpening(status: FacilityStatus, language: SupportedLanguage, timeZone: string): string {
+  if (!status.opensAt) return '';
+  const sameDay = dateInZone(status.opensAt, timeZone) === status.today.date;
+  const time = formatClock(status.opensAt, language, timeZone);
+  const day = sameDay ? '' : formatDay(dateInZone(status.opensAt, timeZone), language);
+  return promptLanguageOf(language) === 'en'
+    ? `${day ? `${day} at ` : 'at '}${time}`
+    : `${day ? `${day}の` : ''}${time}`;
+}
+
+/** One sentence about the facility right now, for greetings and answers */
+export function facilityStatusMessage(
+  status: FacilityStatus,
+  language: SupportedLanguage,
+  timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+): string {
+  const name = localize(status.name, language);
+  const opening = formatOpening(status, language, timeZone);
+
+  if (status.state !== 'closed') {
+    const closes = formatClock(status.closesAt!, language, timeZone);
+    if (status.state === 'closing-soon') {
+      return promptLanguageOf(language) === 'en'
+        ? `${name} closes at ${closes}, in ${status.minutesUntilClose} minutes.`
+        : `${name}は${closes}に閉まります（あと${status.minutesUntilClose}分です）。`;
+    }
+    return promptLanguageOf(language) === 'en' ? `${name} is open until ${closes}.` : `${name}は${closes}まで開いています。`;
+  }
+
+  const reason = !status.today.open && status.today.reason ? localize(status.today.reason, language) : '';
+  const closed = reason
+    ? (promptLanguageOf(language) === 'en' ? `${name} is closed today for ${reason}.` : `本日の${name}は${reason}のためお休みです。`)
+    : (promptLanguageOf(language) === 'en' ? `${name} is closed right now.` : `${name}は現在閉まっています。`);
+  if (!opening) return closed;
+  return promptLanguageOf(language) === 'en' ? `${closed} It opens ${opening}.` : `${closed}次は${opening}に開きます。`;
+}
+
+/**
+ * Opening hours as context for the LLM: the state right now, the next
+ * seven days with their closures, and the day asked about when it is later
+ */
+export function formatFacilityScheduleForAI(
+  status: FacilityStatus,
+  week: FacilityDay[],
+  language: SupportedLanguage,
+  options: { askedDay?: FacilityDay | null; timeZone?: string } = {}
+): string {
+  const timeZone = options.timeZone || DEFAULT_CALENDAR_TIME_ZONE;
+  const name = localize(status.name, language);
+  const describe = (day: FacilityDay) => {
+    const hours = day.open
+      ? formatTimeRanges(day.hours, language)
+      : (promptLanguageOf(language) === 'en' ? 'closed' : '休み');
+    const notes = [day.reason, day.holiday && day.source !== 'holiday' ? day.holiday.name : null]
+      .filter((note): note is LocalizedText => !!note)
+      .map(note => localize(note, language));
+    return `- ${formatDay(day.date, language)}: ${hours}${notes.length ? (promptLanguageOf(language) === 'en' ? ` (${notes.join('; ')})` : `（${notes.join('、')}）`) : ''}`;
+  };
+
+  const now = new Date(status.at).toLocaleString(promptLanguageOf(language) === 'en' ? 'en-US' : 'ja-JP', {
+    timeZone, month: 'long', day: 'numeric', weekday: 'short', hour: 'numeric', minute: '2-digit',
+  });
+  const lines = [
+    promptLanguageOf(language) === 'en' ? `${name} opening hours (now: ${now}):` : `${name}の営業情報（現在 ${now}）:`,
+    promptLanguageOf(language) === 'en' ? `Now: ${facilityStatusMessage(status, language, timeZone)}` : `現在: ${facilityStatusMessage(status, language, timeZone)}`,
+    promptLanguageOf(language) === 'en' ? 'Next 7 days:' : '今後7日間:',
+    ...week.map(describe),
+  ];
+
+  const asked = options.askedDay;
+  if (asked && !week.some(day => day.date === asked.date)) {
+    lines.push(promptLanguageOf(language) === 'en' ? 'Day asked about:' : '質問された日:', describe(asked));
+  }
+  return lines.join('\n');
+}
+
+let service: FacilityScheduleService | null = null;
+
+export function getFacilityScheduleService(): FacilityScheduleService {
+  if (!service) {
+    service = new FacilityScheduleService(new SupabaseFacilityScheduleStore());
+  }
+  return service;
+}
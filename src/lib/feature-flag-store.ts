@@ -0,0 +1,176 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Persistence for feature flags. Rows are scoped by tenant so several kiosks
+ * or environments can share one Supabase project with their own flag values.
+ */
+
+export type FeatureFlagValue = boolean | number;
+
+/** Serves `value` to visitors whose attribute matches one of `values` */
+export interface FeatureFlagRule {
+  attribute: 'sessionId' | 'visitorId';
+  values: string[];
+  value: FeatureFlagValue;
+}
+
+export interface FeatureFlagRecord {
+  tenant: string;
+  key: string;
+  value: FeatureFlagValue;
+  /** Share of visitors (0-100) that get value; the rest keep the default. null = everyone */
+  rolloutPercentage: number | null;
+  rules: FeatureFlagRule[];
+  description?: string | null;
+  updatedBy?: string | null;
+  updatedAt?: string;
+}
+
+export interface FeatureFlagAuditEntry {
+  id?: string;
+  tenant: string;
+  flagKey: string;
+  action: 'upsert' | 'delete';
+  actor: string;
+  previous: FeatureFlagRecord | null;
+  next: FeatureFlagRecord | null;
+  createdAt?: string;
+}
+
+export interface FeatureFlagStore {
+  list(tenant: string): Promise<FeatureFlagRecord[]>;
+  upsert(record: FeatureFlagRecord): Promise<FeatureFlagRecord>;
+  remove(tenant: string, key: string): Promise<void>;
+  appendAudit(entry: FeatureFlagAuditEntry): Promise<void>;
+  listAudit(tenant: string, options?: { flagKey?: string; limit?: number }): Promise<FeatureFlagAuditEntry[]>;
+}
+
+function toRecord(row: any): FeatureFlagRecord {
+  return {
+    tenant: row.tenant,
+    key: row.key,
+    value: row.value,
+    rolloutPercentage: row.rollout_percentage ?? null,
+    rules: row.rules || [],
+    description: row.description,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * feature_flags and feature_flag_audit_log tables
+ * (supabase/migrations/20250624000000_add_feature_flags.sql)
+ */
+export class SupabaseFeatureFlagStore implements FeatureFlagStore {
+  async list(tenant: string): Promise<FeatureFlagRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('feature_flags')
+      .select('*')
+      .eq('tenant', tenant);
+
+    if (error) throw error;
+    return (data || []).map(toRecord);
+  }
+
+  async upsert(record: FeatureFlagRecord): Promise<FeatureFlagRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('feature_flags')
+      .upsert({
+        tenant: record.tenant,
+        key: record.key,
+        value: record.value,
+        rollout_percentage: record.rolloutPercentage,
+        rules: record.rules,
+        description: record.description ?? null,
+        updated_by: record.updatedBy ?? null,
+      }, { onConflict: 'tenant,key' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toRecord(data);
+  }
+
+  async remove(tenant: string, key: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('feature_flags')
+      .delete()
+      .eq('tenant', tenant)
+      .eq('key', key);
+
+    if (error) throw error;
+  }
+
+  async appendAudit(entry: FeatureFlagAuditEntry): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('feature_flag_audit_log')
+      .insert({
+        tenant: entry.tenant,
+        flag_key: entry.flagKey,
+        action: entry.action,
+        actor: entry.actor,
+        previous: entry.previous,
+        next: entry.next,
+      });
+
+    if (error) throw error;
+  }
+
+  async listAudit(tenant: string, options: { flagKey?: string; limit?: number } = {}): Promise<FeatureFlagAuditEntry[]> {
+    let query = supabaseAdmin
+      .from('feature_flag_audit_log')
+      .select('*')
+      .eq('tenant', tenant)
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.flagKey) {
+      query = query.eq('flag_key', options.flagKey);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      tenant: row.tenant,
+      flagKey: row.flag_key,
+      action: row.action,
+      actor: row.actor,
+      previous: row.previous,
+      next: row.next,
+      createdAt: row.created_at,
+    }));
+  }
+}
+
+/** Process-local store for tests and setups without Supabase */
+export class InMemoryFeatureFlagStore implements FeatureFlagStore {
+  private records = new Map<string, FeatureFlagRecord>();
+  private audit: FeatureFlagAuditEntry[] = [];
+
+  async list(tenant: string): Promise<FeatureFlagRecord[]> {
+    return Array.from(this.records.values()).filter(record => record.tenant === tenant);
+  }
+
+  async upsert(record: FeatureFlagRecord): Promise<FeatureFlagRecord> {
+    const stored = { ...record, updatedAt: new Date().toISOString() };
+    this.records.set(`${record.tenant}:${record.key}`, stored);
+    return stored;
+  }
+
+  async remove(tenant: string, key: string): Promise<void> {
+    this.records.delete(`${tenant}:${key}`);
+  }
+
+  async appendAudit(entry: FeatureFlagAuditEntry): Promise<void> {
+    this.audit.unshift({ ...entry, createdAt: new Date().toISOString() });
+  }
+
+  async listAudit(tenant: string, options: { flagKey?: string; limit?: number } = {}): Promise<FeatureFlagAuditEntry[]> {
+    return this.audit
+      .filter(entry => entry.tenant === tenant && (!options.flagKey || entry.flagKey === options.flagKey))
+      .slice(0, options.limit || 50);
+  }
+}
@@ -1,8 +1,22 @@
 /**
  * Feature flag system for gradual migration and A/B testing
+ *
+ * Values are stored per tenant in Supabase (feature_flags) and fall back to
+ * the FF_* environment variables, so a change made through /api/admin/flags
+ * reaches every instance and survives cold starts. Reads go through a
+ * short-lived cache; every change is written to the audit log.
  */
 
-interface FeatureFlags {
+import {
+  FeatureFlagAuditEntry,
+  FeatureFlagRecord,
+  FeatureFlagRule,
+  FeatureFlagStore,
+  FeatureFlagValue,
+  SupabaseFeatureFlagStore,
+} from './feature-flag-store';
+
+export interface FeatureFlags {
   // RAG system flags
   USE_NEW_EMBEDDINGS: boolean;
   NEW_EMBEDDINGS_PERCENTAGE: number; // 0-100
@@ -21,69 +35,144 @@ interface FeatureFlags {
   MIGRATION_USER_PERCENTAGE: number; // 0-100
 }
 
-class FeatureFlagManager {
+export type FeatureFlagName = keyof FeatureFlags;
+
+export interface FeatureFlagDefinition {
+  type: 'boolean' | 'number';
+  /** Environment variable holding the default value */
+  env: string;
+  default: FeatureFlagValue;
+  description: string;
+  /** Inclusive bounds for number flags */
+  min?: number;
+  max?: number;
+}
+
+export const FEATURE_FLAG_DEFINITIONS: Record<FeatureFlagName, FeatureFlagDefinition> = {
+  USE_NEW_EMBEDDINGS: { type: 'boolean', env: 'FF_USE_NEW_EMBEDDINGS', default: false, description: 'Search with the new embedding pipeline' },
+  NEW_EMBEDDINGS_PERCENTAGE: { type: 'number', env: 'FF_NEW_EMBEDDINGS_PERCENTAGE', default: 0, min: 0, max: 100, description: 'Share of visitors on new embeddings during gradual migration' },
+  USE_PARALLEL_RAG: { type: 'boolean', env: 'FF_USE_PARALLEL_RAG', default: false, description: 'Run old and new RAG side by side for comparison' },
+  USE_CACHED_EXTERNAL_API: { type: 'boolean', env: 'FF_USE_CACHED_EXTERNAL_API', default: true, description: 'Serve external API data from cache' },
+  EXTERNAL_API_TIMEOUT_MS: { type: 'number', env: 'FF_EXTERNAL_API_TIMEOUT_MS', default: 5000, min: 0, description: 'Timeout for external API calls' },
+  ENABLE_PERFORMANCE_LOGGING: { type: 'boolean', env: 'FF_ENABLE_PERFORMANCE_LOGGING', default: true, description: 'Log per-step timings' },
+  ENABLE_QUERY_ANALYTICS: { type: 'boolean', env: 'FF_ENABLE_QUERY_ANALYTICS', default: true, description: 'Record query analytics' },
+  ENABLE_GRADUAL_MIGRATION: { type: 'boolean', env: 'FF_ENABLE_GRADUAL_MIGRATION', default: false, description: 'Roll out new embeddings by NEW_EMBEDDINGS_PERCENTAGE' },
+  MIGRATION_USER_PERCENTAGE: { type: 'number', env: 'FF_MIGRATION_USER_PERCENTAGE', default: 0, min: 0, max: 100, description: 'Share of visitors in the migration cohort' },
+};
+
+/** Who is asking; targeting rules and percentage rollouts match on these */
+export interface FeatureFlagContext {
+  sessionId?: string;
+  visitorId?: string;
+}
+
+/** Admin change to a flag; omitted fields keep their stored value */
+export interface FeatureFlagUpdate {
+  value?: FeatureFlagValue;
+  rolloutPercentage?: number | null;
+  rules?: FeatureFlagRule[];
+  description?: string | null;
+}
+
+/** Flag state for the admin API */
+export interface FeatureFlagState {
+  key: FeatureFlagName;
+  definition: FeatureFlagDefinition;
+  /** Value from the environment, used when nothing is stored */
+  defaultValue: FeatureFlagValue;
+  record: FeatureFlagRecord | null;
+}
+
+/** Invalid flag name or value; the admin API answers 400 */
+export class FeatureFlagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeatureFlagError';
+  }
+}
+
+const CACHE_TTL_MS = 30 * 1000;
+
+export class FeatureFlagManager {
   private static instance: FeatureFlagManager;
-  private flags: FeatureFlags;
+  private defaults: FeatureFlags;
+  private cache: { records: Map<string, FeatureFlagRecord>; loadedAt: number } | null = null;
+  private loading: Promise<Map<string, FeatureFlagRecord>> | null = null;
   private userOverrides: Map<string, Partial<FeatureFlags>> = new Map();
   
-  private constructor() {
-    // Default flags - can be overridden by environment variables
-    this.flags = {
-      USE_NEW_EMBEDDINGS: this.getEnvBoolean('FF_USE_NEW_EMBEDDINGS', false),
-      NEW_EMBEDDINGS_PERCENTAGE: this.getEnvNumber('FF_NEW_EMBEDDINGS_PERCENTAGE', 0),
-      USE_PARALLEL_RAG: this.getEnvBoolean('FF_USE_PARALLEL_RAG', false),
-      
-      USE_CACHED_EXTERNAL_API: this.getEnvBoolean('FF_USE_CACHED_EXTERNAL_API', true),
-      EXTERNAL_API_TIMEOUT_MS: this.getEnvNumber('FF_EXTERNAL_API_TIMEOUT_MS', 5000),
-      
-      ENABLE_PERFORMANCE_LOGGING: this.getEnvBoolean('FF_ENABLE_PERFORMANCE_LOGGING', true),
-      ENABLE_QUERY_ANALYTICS: this.getEnvBoolean('FF_ENABLE_QUERY_ANALYTICS', true),
-      
-      ENABLE_GRADUAL_MIGRATION: this.getEnvBoolean('FF_ENABLE_GRADUAL_MIGRATION', false),
-      MIGRATION_USER_PERCENTAGE: this.getEnvNumber('FF_MIGRATION_USER_PERCENTAGE', 0),
-    };
+  constructor(
+    private readonly store: FeatureFlagStore,
+    readonly tenant: string = 'default',
+    private readonly cacheTtlMs: number = CACHE_TTL_MS
+  ) {
+    // Defaults can be overridden by environment variables
+    const defaults: Record<string, FeatureFlagValue> = {};
+    for (const [key, definition] of Object.entries(FEATURE_FLAG_DEFINITIONS)) {
+      defaults[key] = definition.type === 'boolean'
+        ? this.getEnvBoolean(definition.env, definition.default as boolean)
+        : this.getEnvNumber(definition.env, definition.default as number);
+    }
+    this.defaults = defaults as unknown as FeatureFlags;
   }
   
   static getInstance(): FeatureFlagManager {
     if (!FeatureFlagManager.instance) {
-      FeatureFlagManager.instance = new FeatureFlagManager();
+      FeatureFlagManager.instance = new FeatureFlagManager(
+        new SupabaseFeatureFlagStore(),
+        process.env.FEATURE_FLAGS_TENANT || 'default'
+      );
     }
     return FeatureFlagManager.instance;
   }
   
   /**
-   * Get flag value for a specific user/session
+   * Get flag value for a session/visitor. A plain string is treated as the
+   * visitor id. Targeting rules win over the percentage rollout, which wins
+   * over the stored value; without a stored row the environment default applies.
    */
-  getFlag<K extends keyof FeatureFlags>(
+  async getFlag<K extends FeatureFlagName>(
     flagName: K,
-    userId?: string
-  ): FeatureFlags[K] {
-    // Check user-specific overrides first
-    if (userId && this.userOverrides.has(userId)) {
-      const overrides = this.userOverrides.get(userId)!;
+    context?: FeatureFlagContext | string
+  ): Promise<FeatureFlags[K]> {
+    const target: FeatureFlagContext = typeof context === 'string' ? { visitorId: context } : context || {};
+    const subjectId = target.visitorId || target.sessionId;
+
+    // Check process-local test overrides first
+    if (subjectId && this.userOverrides.has(subjectId)) {
+      const overrides = this.userOverrides.get(subjectId)!;
       if (flagName in overrides) {
         return overrides[flagName] as FeatureFlags[K];
       }
     }
+
+    const records = await this.getRecords();
+    const record = records.get(flagName);
+    if (record) {
+      return this.evaluate(flagName, record, target) as FeatureFlags[K];
+    }
     
-    // For percentage-based flags, determine if user should get the feature
-    if (flagName === 'USE_NEW_EMBEDDINGS' && this.flags.ENABLE_GRADUAL_MIGRATION && userId) {
-      return this.isUserInPercentage(userId, this.flags.NEW_EMBEDDINGS_PERCENTAGE) as FeatureFlags[K];
+    // Legacy rollout configured through ENABLE_GRADUAL_MIGRATION + NEW_EMBEDDINGS_PERCENTAGE
+    if (flagName === 'USE_NEW_EMBEDDINGS' && subjectId) {
+      const flags = this.resolve(records);
+      if (flags.ENABLE_GRADUAL_MIGRATION) {
+        return this.isInPercentage(subjectId, flags.NEW_EMBEDDINGS_PERCENTAGE) as FeatureFlags[K];
+      }
     }
     
-    return this.flags[flagName];
+    return this.defaults[flagName];
   }
   
   /**
-   * Check if a feature is enabled for a user
+   * Check if a feature is enabled for a session/visitor
    */
-  isEnabled(flagName: keyof FeatureFlags, userId?: string): boolean {
-    const value = this.getFlag(flagName, userId);
+  async isEnabled(flagName: FeatureFlagName, context?: FeatureFlagContext | string): Promise<boolean> {
+    const value = await this.getFlag(flagName, context);
     return typeof value === 'boolean' ? value : value > 0;
   }
   
   /**
-   * Set a user-specific override (for testing)
+   * Set a process-local override for one visitor or session (for testing).
+   * Use targeting rules for overrides that should apply everywhere.
    */
   setUserOverride(userId: string, overrides: Partial<FeatureFlags>): void {
     this.userOverrides.set(userId, {
@@ -100,31 +189,200 @@ class FeatureFlagManager {
   }
   
   /**
-   * Update global flags (admin function)
+   * Update global flag values (admin function, rollbacks, alerts)
    */
-  updateFlags(updates: Partial<FeatureFlags>): void {
-    this.flags = {
-      ...this.flags,
-      ...updates,
-    };
+  async updateFlags(updates: Partial<FeatureFlags>, actor: string = 'system'): Promise<void> {
+    for (const [key, value] of Object.entries(updates)) {
+      await this.setFlag(key, { value }, actor);
+    }
   }
   
   /**
-   * Get all current flag values
+   * Get all current global flag values (without per-visitor targeting)
+   */
+  async getAllFlags(): Promise<FeatureFlags> {
+    return this.resolve(await this.getRecords());
+  }
+
+  /**
+   * Definitions, environment defaults and stored rows, read from the store
+   * rather than the cache so admins see their own changes
+   */
+  async listFlags(): Promise<FeatureFlagState[]> {
+    const records = new Map((await this.store.list(this.tenant)).map(record => [record.key, record]));
+    return (Object.keys(FEATURE_FLAG_DEFINITIONS) as FeatureFlagName[]).map(key => ({
+      key,
+      definition: FEATURE_FLAG_DEFINITIONS[key],
+      defaultValue: this.defaults[key],
+      record: records.get(key) || null,
+    }));
+  }
+
+  /**
+   * Create or change a stored flag and record the change in the audit log
    */
-  getAllFlags(): FeatureFlags {
-    return { ...this.flags };
+  async setFlag(key: string, update: FeatureFlagUpdate, actor: string): Promise<FeatureFlagRecord> {
+    const definition = this.getDefinition(key);
+    const previous = (await this.store.list(this.tenant)).find(record => record.key === key) || null;
+
+    const next: FeatureFlagRecord = {
+      tenant: this.tenant,
+      key,
+      value: update.value ?? previous?.value ?? this.defaults[key as FeatureFlagName],
+      rolloutPercentage: update.rolloutPercentage !== undefined ? update.rolloutPercentage : previous?.rolloutPercentage ?? null,
+      rules: update.rules ?? previous?.rules ?? [],
+      description: update.description !== undefined ? update.description : previous?.description ?? null,
+      updatedBy: actor,
+    };
+    this.validate(key, definition, next);
+
+    const stored = await this.store.upsert(next);
+    await this.recordAudit({ tenant: this.tenant, flagKey: key, action: 'upsert', actor, previous, next: stored });
+    this.invalidateCache();
+    console.log(`[FeatureFlags] ${actor} set ${key} (${this.tenant}):`, stored.value);
+    return stored;
+  }
+
+  /**
+   * Remove the stored row so the environment default applies again.
+   * Returns false when nothing was stored.
+   */
+  async deleteFlag(key: string, actor: string): Promise<boolean> {
+    this.getDefinition(key);
+    const previous = (await this.store.list(this.tenant)).find(record => record.key === key) || null;
+    if (!previous) {
+      return false;
+    }
+
+    await this.store.remove(this.tenant, key);
+    await this.recordAudit({ tenant: this.tenant, flagKey: key, action: 'delete', actor, previous, next: null });
+    this.invalidateCache();
+    console.log(`[FeatureFlags] ${actor} reset ${key} (${this.tenant}) to its default`);
+    return true;
+  }
+
+  async getAuditLog(options?: { flagKey?: string; limit?: number }): Promise<FeatureFlagAuditEntry[]> {
+    return this.store.listAudit(this.tenant, options);
+  }
+
+  /** Drop cached rows so the next read goes to the store */
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  private async getRecords(): Promise<Map<string, FeatureFlagRecord>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtlMs) {
+      return this.cache.records;
+    }
+    // Concurrent readers share one load
+    if (!this.loading) {
+      this.loading = this.loadRecords().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadRecords(): Promise<Map<string, FeatureFlagRecord>> {
+    try {
+      const records = new Map((await this.store.list(this.tenant)).map(record => [record.key, record]));
+      this.cache = { records, loadedAt: Date.now() };
+      return records;
+    } catch (error) {
+      // Keep serving the last known values (or the defaults) until the next retry
+      console.error('[FeatureFlags] Failed to load flags, using cached/default values:', error);
+      const records = this.cache?.records || new Map<string, FeatureFlagRecord>();
+      this.cache = { records, loadedAt: Date.now() };
+      return records;
+    }
+  }
+
+  private resolve(records: Map<string, FeatureFlagRecord>): FeatureFlags {
+    const flags: Record<string, FeatureFlagValue> = { ...this.defaults };
+    records.forEach((record, key) => {
+      if (key in flags) {
+        flags[key] = record.value;
+      }
+    });
+    return flags as unknown as FeatureFlags;
+  }
+
+  private evaluate(flagName: FeatureFlagName, record: FeatureFlagRecord, context: FeatureFlagContext): FeatureFlagValue {
+    for (const rule of record.rules) {
+      const attribute = context[rule.attribute];
+      if (attribute && rule.values.includes(attribute)) {
+        return rule.value;
+      }
+    }
+
+    if (record.rolloutPercentage !== null) {
+      const subjectId = context.visitorId || context.sessionId;
+      // Hash per flag so each rollout gets an independent cohort
+      return subjectId && this.isInPercentage(`${flagName}:${subjectId}`, record.rolloutPercentage)
+        ? record.value
+        : this.defaults[flagName];
+    }
+
+    return record.value;
+  }
+
+  private getDefinition(key: string): FeatureFlagDefinition {
+    const definition = FEATURE_FLAG_DEFINITIONS[key as FeatureFlagName];
+    if (!definition) {
+      throw new FeatureFlagError(`Unknown feature flag: ${key}`);
+    }
+    return definition;
+  }
+
+  private validate(key: string, definition: FeatureFlagDefinition, record: FeatureFlagRecord): void {
+    const checkValue = (value: unknown, label: string) => {
+      if (typeof value !== definition.type || (definition.type === 'number' && !Number.isFinite(value))) {
+        throw new FeatureFlagError(`${label} for ${key} must be a ${definition.type}`);
+      }
+      if (typeof value === 'number' && ((definition.min !== undefined && value < definition.min) || (definition.max !== undefined && value > definition.max))) {
+        throw new FeatureFlagError(`${label} for ${key} must be between ${definition.min ?? '-∞'} and ${definition.max ?? '∞'}`);
+      }
+    };
+
+    checkValue(record.value, 'Value');
+
+    const percentage = record.rolloutPercentage;
+    if (percentage !== null && (typeof percentage !== 'number' || !Number.isInteger(percentage) || percentage < 0 || percentage > 100)) {
+      throw new FeatureFlagError('rolloutPercentage must be an integer between 0 and 100, or null');
+    }
+
+    if (!Array.isArray(record.rules)) {
+      throw new FeatureFlagError('rules must be an array');
+    }
+    record.rules.forEach((rule, index) => {
+      if (!rule || (rule.attribute !== 'sessionId' && rule.attribute !== 'visitorId')) {
+        throw new FeatureFlagError(`rules[${index}].attribute must be sessionId or visitorId`);
+      }
+      if (!Array.isArray(rule.values) || rule.values.some(value => typeof value !== 'string')) {
+        throw new FeatureFlagError(`rules[${index}].values must be an array of strings`);
+      }
+      checkValue(rule.value, `rules[${index}].value`);
+    });
+  }
+
+  private async recordAudit(entry: FeatureFlagAuditEntry): Promise<void> {
+    try {
+      await this.store.appendAudit(entry);
+    } catch (error) {
+      // The change itself is already stored; do not report it as failed
+      console.error('[FeatureFlags] Failed to write audit log:', error);
+    }
   }
   
   /**
-   * Determine if a user should be in a percentage rollout
+   * Determine if a visitor should be in a percentage rollout
    */
-  private isUserInPercentage(userId: string, percentage: number): boolean {
+  private isInPercentage(subjectId: string, percentage: number): boolean {
     if (percentage >= 100) return true;
     if (percentage <= 0) return false;
     
     // Simple hash-based distribution
-    const hash = this.hashString(userId);
+    const hash = this.hashString(subjectId);
     const userPercentage = (hash % 100) + 1;
     return userPercentage <= percentage;
   }
@@ -186,7 +444,7 @@ export class RAGExperiment {
       avgSimilarity: number;
     };
   }> {
-    const useNewImplementation = featureFlags.getFlag('USE_NEW_EMBEDDINGS', userId);
+    const useNewImplementation = await featureFlags.getFlag('USE_NEW_EMBEDDINGS', userId);
     const variant = useNewImplementation ? 'treatment' : 'control';
     
     const startTime = Date.now();
@@ -206,7 +464,7 @@ export class RAGExperiment {
       : 0;
     
     // Log experiment results if enabled
-    if (featureFlags.isEnabled('ENABLE_QUERY_ANALYTICS')) {
+    if (await featureFlags.isEnabled('ENABLE_QUERY_ANALYTICS')) {
       await this.logExperimentResult({
         userId,
         variant,
@@ -3,10 +3,19 @@
  * Pre-generated greetings and TTS audio for faster initial responses
  */
 
+import { SUPPORTED_LANGUAGES, SupportedLanguage } from './languages';
+import { uiText } from './ui-messages';
+
+interface GreetingTemplate {
+  text: string;
+  emotion: string;
+  contexts: string[];
+}
+
 export interface CachedGreeting {
   text: string;
   audioBase64?: string;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   emotion: string;
   timestamp: number;
 }
@@ -16,7 +25,7 @@ export class GreetingCache {
   private static readonly CACHE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
 
   // Pre-defined greeting templates
-  private static readonly GREETING_TEMPLATES = {
+  private static readonly GREETING_TEMPLATES: Partial<Record<SupportedLanguage, GreetingTemplate[]>> = {
     ja: [
       {
         text: '[greeting]はじめまして！[happy]エンジニアカフェナビゲーターです。[thinking]何かお手伝いできることはありますか？',
@@ -50,13 +59,76 @@ export class GreetingCache {
         emotion: 'happy',
         contexts: ['welcome', 'general']
       }
+    ],
+    ko: [
+      {
+        text: '[greeting]안녕하세요! [happy]엔지니어 카페 내비게이터예요. [thinking]무엇을 도와드릴까요?',
+        emotion: 'greeting',
+        contexts: ['initial', 'first_visit']
+      },
+      {
+        text: '[happy]다시 만나서 반가워요! [greeting]어서 오세요. [listening]오늘은 어떤 일로 오셨어요?',
+        emotion: 'greeting',
+        contexts: ['return_visit', 'daytime']
+      },
+      {
+        text: '[greeting]엔지니어 카페에 오신 것을 환영해요! [happy]좋은 하루예요. [thinking]궁금한 점이 있으신가요?',
+        emotion: 'happy',
+        contexts: ['welcome', 'general']
+      }
+    ],
+    'zh-CN': [
+      {
+        text: '[greeting]你好！[happy]我是 Engineer Cafe 的导览员。[thinking]有什么可以帮您的吗？',
+        emotion: 'greeting',
+        contexts: ['initial', 'first_visit']
+      },
+      {
+        text: '[happy]很高兴再次见到您！[greeting]欢迎回来。[listening]今天有什么事吗？',
+        emotion: 'greeting',
+        contexts: ['return_visit', 'daytime']
+      },
+      {
+        text: '[greeting]欢迎来到 Engineer Cafe！[happy]今天天气真好。[thinking]有什么想了解的吗？',
+        emotion: 'happy',
+        contexts: ['welcome', 'general']
+      }
+    ],
+    'zh-TW': [
+      {
+        text: '[greeting]您好！[happy]我是 Engineer Cafe 的導覽員。[thinking]有什麼可以幫您的嗎？',
+        emotion: 'greeting',
+        contexts: ['initial', 'first_visit']
+      },
+      {
+        text: '[happy]很高興再次見到您！[greeting]歡迎回來。[listening]今天有什麼事嗎？',
+        emotion: 'greeting',
+        contexts: ['return_visit', 'daytime']
+      },
+      {
+        text: '[greeting]歡迎來到 Engineer Cafe！[happy]今天天氣真好。[thinking]有什麼想了解的嗎？',
+        emotion: 'happy',
+        contexts: ['welcome', 'general']
+      }
     ]
   };
 
+  /**
+   * Templates for a language; one without its own templates greets with
+   * the UI greeting from ui-messages.json
+   */
+  private static templatesFor(language: SupportedLanguage): GreetingTemplate[] {
+    return this.GREETING_TEMPLATES[language] || [{
+      text: `[greeting]${uiText('voice.greeting', language)}`,
+      emotion: 'greeting',
+      contexts: ['initial'],
+    }];
+  }
+
   /**
    * Get a cached greeting or fallback to template
    */
-  static getGreeting(language: 'ja' | 'en', context: string = 'initial'): CachedGreeting {
+  static getGreeting(language: SupportedLanguage, context: string = 'initial'): CachedGreeting {
     const cached = this.getCachedGreetings();
     
     // Try to find a cached greeting for this language and context
@@ -72,7 +144,7 @@ export class GreetingCache {
     }
 
     // Fallback to template
-    const templates = this.GREETING_TEMPLATES[language];
+    const templates = this.templatesFor(language);
     const template = templates.find(t => t.contexts.includes(context)) || templates[0];
     
     console.log('[GreetingCache] Using template greeting');
@@ -97,11 +169,11 @@ export class GreetingCache {
       // Add new greeting
       validGreetings.push(greeting);
       
-      // Keep only the most recent 20 greetings per language
-      const jaGreetings = validGreetings.filter(g => g.language === 'ja').slice(-10);
-      const enGreetings = validGreetings.filter(g => g.language === 'en').slice(-10);
-      
-      const finalGreetings = [...jaGreetings, ...enGreetings];
+      // Keep only the most recent 10 greetings per language
+      const finalGreetings = SUPPORTED_LANGUAGES.reduce<CachedGreeting[]>(
+        (kept, code) => kept.concat(validGreetings.filter(g => g.language === code).slice(-10)),
+        []
+      );
       
       localStorage.setItem(this.CACHE_KEY, JSON.stringify(finalGreetings));
       console.log('[GreetingCache] Cached greeting:', greeting.text.substring(0, 50) + '...');
@@ -143,13 +215,13 @@ export class GreetingCache {
   }
 
   /**
-   * Pre-generate greetings for both languages
+   * Pre-generate greetings for every supported language
    */
   static async preGenerateGreetings(): Promise<void> {
     console.log('[GreetingCache] Pre-generating greetings...');
     
-    for (const language of ['ja', 'en'] as const) {
-      for (const template of this.GREETING_TEMPLATES[language]) {
+    for (const language of SUPPORTED_LANGUAGES) {
+      for (const template of this.templatesFor(language)) {
         try {
           // Generate TTS for this greeting
           const response = await fetch('/api/voice', {
@@ -196,16 +268,18 @@ export class GreetingCache {
    */
   static getCacheStats(): {
     totalCached: number;
-    japaneseGreetings: number;
-    englishGreetings: number;
+    byLanguage: Partial<Record<SupportedLanguage, number>>;
     withAudio: number;
   } {
     const cached = this.getCachedGreetings();
+    const byLanguage: Partial<Record<SupportedLanguage, number>> = {};
+    for (const greeting of cached) {
+      byLanguage[greeting.language] = (byLanguage[greeting.language] || 0) + 1;
+    }
     
     return {
       totalCached: cached.length,
-      japaneseGreetings: cached.filter(g => g.language === 'ja').length,
-      englishGreetings: cached.filter(g => g.language === 'en').length,
+      byLanguage,
       withAudio: cached.filter(g => g.audioBase64).length
     };
   }
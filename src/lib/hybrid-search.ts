@@ -0,0 +1,129 @@
+/**
+ * Helpers for hybrid (keyword + vector) knowledge base retrieval
+ */
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface FusionWeights {
+  vector: number;
+  keyword: number;
+}
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = { vector: 1, keyword: 1 };
+
+/** Standard RRF constant; larger values flatten the advantage of top ranks */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Tokenize text the same way as the kb_search_tokens() SQL function:
+ * Latin words and numbers stay whole ("saino", "b1"), runs of Japanese
+ * characters become overlapping bigrams ("営業時間" → 営業, 業時, 時間).
+ */
+export function tokenizeForKeywordSearch(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const tokens: string[] = normalized.match(/[a-z0-9]+/g) || [];
+
+  const segments = normalized.match(/[^a-z0-9\s!-/:-@[-`{-~、。「」『』（）・！？]+/g) || [];
+  for (const segment of segments) {
+    if (segment.length === 1) {
+      tokens.push(segment);
+      continue;
+    }
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.push(segment.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Share of a query's significant tokens a keyword hit must contain. Every
+ * query bigram is OR-ed together in the full-text match, so without a floor
+ * almost any question matches some entry.
+ */
+export const MIN_KEYWORD_COVERAGE = 0.5;
+
+const HIRAGANA_ONLY = /^[\u3040-\u309f]+$/;
+
+/**
+ * The tokens that carry meaning: hiragana-only bigrams ("につ", "いて") come
+ * from particles and verb endings that nearly every entry shares. A query made
+ * only of hiragana keeps all its tokens.
+ */
+export function significantKeywordTokens(tokens: string[]): string[] {
+  const significant = tokens.filter(token => !HIRAGANA_ONLY.test(token));
+  return significant.length > 0 ? significant : tokens;
+}
+
+/** Share of the query's distinct significant tokens found in the content (0-1) */
+export function keywordCoverage(query: string, content: string): number {
+  const queryTokens = significantKeywordTokens(Array.from(new Set(tokenizeForKeywordSearch(query))));
+  if (queryTokens.length === 0) {
+    return 0;
+  }
+
+  const contentTokens = new Set(tokenizeForKeywordSearch(content));
+  return queryTokens.filter(token => contentTokens.has(token)).length / queryTokens.length;
+}
+
+/**
+ * Keyword relevance used when the search_knowledge_base_keyword RPC is not
+ * available: share of query tokens found in the content, plus a bonus when
+ * the whole query appears verbatim.
+ */
+export function scoreKeywordMatch(query: string, content: string): number {
+  const coverage = keywordCoverage(query, content);
+  if (coverage === 0) {
+    return 0;
+  }
+
+  const exactBonus = content.normalize('NFKC').toLowerCase()
+    .includes(query.normalize('NFKC').toLowerCase().trim()) ? 1 : 0;
+
+  return coverage + exactBonus;
+}
+
+/**
+ * Drop results below the threshold. Vector hits are measured by cosine
+ * similarity and keyword hits by query-token coverage, so a keyword-only hit
+ * (similarity 0) has to match enough of the question to count.
+ */
+export function applyRelevanceThreshold<T extends { content: string; similarity: number }>(
+  results: T[],
+  query: string,
+  threshold: number
+): T[] {
+  return results.filter(item =>
+    item.similarity >= threshold || scoreKeywordMatch(query, item.content) >= threshold
+  );
+}
+
+/**
+ * Reciprocal-rank fusion: each leg contributes weight / (k + rank) for every
+ * item it returned, so items found by both legs rise to the top without
+ * having to compare cosine similarities with text-search ranks.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  legs: Array<{ name: keyof FusionWeights; results: T[] }>,
+  weights: FusionWeights = DEFAULT_FUSION_WEIGHTS,
+  k: number = DEFAULT_RRF_K
+): Array<{ item: T; score: number; retrievedBy: Array<keyof FusionWeights> }> {
+  const fused = new Map<string, { item: T; score: number; retrievedBy: Array<keyof FusionWeights> }>();
+
+  for (const leg of legs) {
+    const weight = weights[leg.name];
+    leg.results.forEach((item, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(item.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.retrievedBy.push(leg.name);
+      } else {
+        fused.set(item.id, { item, score: contribution, retrievedBy: [leg.name] });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
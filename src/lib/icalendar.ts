@@ -0,0 +1,584 @@
+/**
+ * iCalendar (RFC 5545) parsing and recurrence expansion for the calendar
+ * tool. Covers what Google Calendar and booking systems export: folded
+ * lines, TZID-qualified and all-day times, RRULE/RDATE/EXDATE, moved or
+ * cancelled instances (RECURRENCE-ID) and cancelled events. Time zones are
+ * resolved with Intl, so VTIMEZONE blocks are not needed.
+ */
+
+export const DEFAULT_CALENDAR_TIME_ZONE = 'Asia/Tokyo';
+
+/** Wall-clock time in some time zone; month is 1-12 */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface ICalDate {
+  wall: WallTime;
+  /** IANA zone, or 'UTC' for times ending in Z */
+  timeZone: string;
+  allDay: boolean;
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: ICalDate;
+  /** Weekdays (0 = Sunday) with an optional ordinal, e.g. 2TU or -1FR */
+  byDay: Array<{ weekday: number; ordinal?: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: string;
+  start: ICalDate;
+  end?: ICalDate;
+  /** DURATION in ms, used when DTEND is missing */
+  duration?: number;
+  rrule?: RecurrenceRule;
+  rdates: ICalDate[];
+  exdates: ICalDate[];
+  recurrenceId?: ICalDate;
+}
+
+export interface ICalendar {
+  name?: string;
+  /** X-WR-TIMEZONE, used for floating times */
+  timeZone: string;
+  events: ICalEvent[];
+}
+
+export interface CalendarEventInstance {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'confirmed' | 'tentative';
+  recurring: boolean;
+  /** Name of the calendar the event came from */
+  calendar?: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on recurrence periods walked, against runaway rules */
+const MAX_RECURRENCE_PERIODS = 5000;
+
+// Some exporters use Windows zone names
+const TIME_ZONE_ALIASES: Record<string, string> = {
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'UTC': 'UTC',
+  'GMT': 'UTC',
+};
+
+// ---------------------------------------------------------------------------
+// Time zones
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** IANA name for a TZID, falling back when Intl does not know it */
+export function resolveTimeZone(tzid: string | undefined, fallback: string = DEFAULT_CALENDAR_TIME_ZONE): string {
+  if (!tzid) return fallback;
+  const name = TIME_ZONE_ALIASES[tzid] || tzid.replace(/^\/+/, '');
+  try {
+    formatterFor(name);
+    return name;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Wall-clock time of an instant in a time zone */
+export function toZonedWallTime(date: Date, timeZone: string): WallTime & { weekday: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  const wall = {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+  return { ...wall, weekday: new Date(wallToMs(wall)).getUTCDay() };
+}
+
+/** Treat a wall time as if it were UTC; handy for calendar arithmetic */
+export function wallToMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+export function msToWall(ms: number): WallTime {
+  const date = new Date(ms);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+/** The instant at which the wall clock in timeZone shows `wall` */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const guess = wallToMs(wall);
+  if (timeZone === 'UTC') return new Date(guess);
+
+  const offsetAt = (ms: number) => wallToMs(toZonedWallTime(new Date(ms), timeZone)) - ms;
+  const firstOffset = offsetAt(guess);
+  const candidate = guess - firstOffset;
+  // Around DST changes the offset at the result can differ from the guess
+  const secondOffset = offsetAt(candidate);
+  return new Date(secondOffset === firstOffset ? candidate : guess - secondOffset);
+}
+
+function toInstant(date: ICalDate): Date {
+  return zonedTimeToUtc(date.allDay ? { ...date.wall, hour: 0, minute: 0, second: 0 } : date.wall, date.timeZone);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseDateValue(value: string, params: Record<string, string>, defaultTimeZone: string): ICalDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const allDay = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    wall: {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: allDay ? 0 : parseInt(match[4], 10),
+      minute: allDay ? 0 : parseInt(match[5], 10),
+      second: allDay || !match[6] ? 0 : parseInt(match[6], 10),
+    },
+    timeZone: match[7] ? 'UTC' : resolveTimeZone(params.TZID, defaultTimeZone),
+    allDay,
+  };
+}
+
+function parseDateList(line: ContentLine, defaultTimeZone: string): ICalDate[] {
+  return line.value
+    .split(',')
+    .map(value => parseDateValue(value, line.params, defaultTimeZone))
+    .filter((date): date is ICalDate => date !== null);
+}
+
+/** ISO 8601 duration as used by DURATION, e.g. PT1H30M or P1D */
+export function parseDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * DAY_MS)
+    + parseInt(hours || '0', 10) * 3600000
+    + parseInt(minutes || '0', 10) * 60000
+    + parseInt(seconds || '0', 10) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRecurrenceRule(value: string, defaultTimeZone: string): RecurrenceRule | undefined {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue;
+  }
+
+  const freq = parts.FREQ as RecurrenceRule['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return undefined;
+
+  const numbers = (list?: string) => (list ? list.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n)) : []);
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, {}, defaultTimeZone) || undefined : undefined,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : [])
+      .map(day => day.match(/^([+-]?\d+)?([A-Z]{2})$/))
+      .filter((match): match is RegExpMatchArray => !!match && WEEKDAYS.includes(match[2]))
+      .map(match => ({ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1], 10) : undefined })),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+  };
+}
+
+export function parseICalendar(text: string): ICalendar {
+  const lines = unfold(text).map(parseContentLine).filter((line): line is ContentLine => line !== null);
+  const calendarTimeZone = resolveTimeZone(lines.find(line => line.name === 'X-WR-TIMEZONE')?.value.trim());
+  const name = lines.find(line => line.name === 'X-WR-CALNAME')?.value;
+
+  const events: ICalEvent[] = [];
+  let current: Partial<ICalEvent> | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value === 'VEVENT') {
+      current = { rdates: [], exdates: [] };
+      continue;
+    }
+    if (!current) continue;
+
+    // Skip VALARM and other components nested in the event
+    if (line.name === 'BEGIN') {
+      nestedDepth++;
+      continue;
+    }
+    if (line.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    if (line.name === 'END' && line.value === 'VEVENT') {
+      if (current.start) {
+        events.push({
+          uid: current.uid || `${current.summary || 'event'}-${wallToMs(current.start.wall)}`,
+          summary: current.summary || '',
+          ...current,
+        } as ICalEvent);
+      }
+      current = null;
+      continue;
+    }
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(line.value);
+        break;
+      case 'URL':
+        current.url = line.value;
+        break;
+      case 'STATUS':
+        current.status = line.value.toUpperCase();
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(line.value, line.params, calendarTimeZone) || undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(line.value, line.params, calendarTimeZone) || undefined;
+        break;
+      case 'DURATION':
+        current.duration = parseDuration(line.value);
+        break;
+      case 'RRULE':
+        current.rrule = parseRecurrenceRule(line.value, calendarTimeZone);
+        break;
+      case 'RDATE':
+        current.rdates!.push(...parseDateList(line, calendarTimeZone));
+        break;
+      case 'EXDATE':
+        current.exdates!.push(...parseDateList(line, calendarTimeZone));
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(line.value, line.params, calendarTimeZone) || undefined;
+        break;
+    }
+  }
+
+  return { name, timeZone: calendarTimeZone, events };
+}
+
+// ---------------------------------------------------------------------------
+// Recurrence expansion
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Days of a month matching BYDAY, honouring ordinals such as 2TU or -1FR */
+function monthDaysByWeekday(year: number, month: number, byDay: RecurrenceRule['byDay']): number[] {
+  const days: number[] = [];
+  const length = daysInMonth(year, month);
+  for (const { weekday, ordinal } of byDay) {
+    const matching: number[] = [];
+    for (let day = 1; day <= length; day++) {
+      if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) matching.push(day);
+    }
+    if (ordinal === undefined) {
+      days.push(...matching);
+    } else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day !== undefined) days.push(day);
+    }
+  }
+  return days;
+}
+
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map(day => (day < 0 ? length + day + 1 : day)).filter(day => day >= 1 && day <= length);
+    if (rule.byDay.length > 0) {
+      const weekdays = rule.byDay.map(day => day.weekday);
+      days = days.filter(day => weekdays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay()));
+    }
+  } else if (rule.byDay.length > 0) {
+    days = monthDaysByWeekday(year, month, rule.byDay);
+  } else {
+    days = startDay <= length ? [startDay] : [];
+  }
+  return days;
+}
+
+function applySetPos<T>(values: T[], bySetPos: number[]): T[] {
+  if (bySetPos.length === 0) return values;
+  return bySetPos
+    .map(pos => (pos > 0 ? values[pos - 1] : values[values.length + pos]))
+    .filter((value): value is T => value !== undefined);
+}
+
+/** Candidate start days (wall time, as ms) of one recurrence period */
+function periodCandidates(rule: RecurrenceRule, start: WallTime, period: number): number[] {
+  const time = (ms: number) => ms + ((start.hour * 60 + start.minute) * 60 + start.second) * 1000;
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const inMonths = (ms: number) => rule.byMonth.length === 0 || rule.byMonth.includes(new Date(ms).getUTCMonth() + 1);
+  let days: number[] = [];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + period * rule.interval * DAY_MS;
+      const date = new Date(day);
+      const matchesWeekday = rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === date.getUTCDay());
+      const matchesMonthDay = rule.byMonthDay.length === 0 || rule.byMonthDay.includes(date.getUTCDate());
+      days = matchesWeekday && matchesMonthDay ? [day] : [];
+      break;
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO, the default)
+      const weekStart = startDay - ((new Date(startDay).getUTCDay() + 6) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [new Date(startDay).getUTCDay()];
+      days = weekdays.map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS).sort((a, b) => a - b);
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.month - 1 + period * rule.interval;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      days = monthDays(year, month, rule, start.day).sort((a, b) => a - b).map(day => Date.UTC(year, month - 1, day));
+      break;
+    }
+    case 'YEARLY': {
+      const year = start.year + period * rule.interval;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month];
+      for (const month of months) {
+        days.push(...monthDays(year, month, rule, start.day).map(day => Date.UTC(year, month - 1, day)));
+      }
+      days.sort((a, b) => a - b);
+      break;
+    }
+  }
+
+  return applySetPos(days.filter(inMonths), rule.bySetPos).map(time);
+}
+
+const sameInstant = (a: ICalDate, b: ICalDate) => toInstant(a).getTime() === toInstant(b).getTime();
+
+/**
+ * First period worth generating for a window starting at `from`. Rules with
+ * COUNT are walked from the start, since earlier instances use up the count.
+ */
+function firstPeriod(rule: RecurrenceRule, start: WallTime, from: Date): number {
+  if (rule.count !== undefined) return 0;
+  const target = msToWall(from.getTime());
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  let period: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      period = (from.getTime() - startDay) / (rule.interval * DAY_MS);
+      break;
+    case 'WEEKLY':
+      period = (from.getTime() - startDay) / (rule.interval * 7 * DAY_MS);
+      break;
+    case 'MONTHLY':
+      period = ((target.year - start.year) * 12 + target.month - start.month) / rule.interval;
+      break;
+    case 'YEARLY':
+      period = (target.year - start.year) / rule.interval;
+      break;
+  }
+  // One period of slack for time zone offsets
+  return Math.max(0, Math.floor(period) - 1);
+}
+
+/** Start times of a recurring event that begin no later than `until` */
+function recurrenceStarts(event: ICalEvent, from: Date, until: Date): ICalDate[] {
+  const rule = event.rrule!;
+  // DTSTART is always the first instance
+  const starts: ICalDate[] = [{ ...event.start }];
+  const dtstart = wallToMs(event.start.wall);
+  const ruleEnd = rule.until ? toInstant(rule.until).getTime() : Infinity;
+  const first = firstPeriod(rule, event.start.wall, from);
+  let generated = 1;
+
+  for (let period = first; period < first + MAX_RECURRENCE_PERIODS; period++) {
+    for (const candidate of periodCandidates(rule, event.start.wall, period)) {
+      if (candidate <= dtstart) continue;
+      const date: ICalDate = { ...event.start, wall: msToWall(candidate) };
+      const instant = toInstant(date).getTime();
+      if (instant > ruleEnd || instant > until.getTime()) return starts;
+      if (rule.count !== undefined && generated >= rule.count) return starts;
+      starts.push(date);
+      generated++;
+    }
+  }
+  return starts;
+}
+
+function eventDuration(event: ICalEvent): number {
+  if (event.end) return toInstant(event.end).getTime() - toInstant(event.start).getTime();
+  if (event.duration !== undefined) return event.duration;
+  return event.start.allDay ? DAY_MS : 0;
+}
+
+function toInstance(event: ICalEvent, start: ICalDate, recurring: boolean): CalendarEventInstance {
+  const startDate = toInstant(start);
+  return {
+    uid: event.uid,
+    summary: event.summary,
+    start: startDate,
+    end: new Date(startDate.getTime() + eventDuration(event)),
+    allDay: start.allDay,
+    description: event.description,
+    location: event.location,
+    url: event.url,
+    status: event.status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+    recurring,
+  };
+}
+
+/**
+ * Event instances overlapping [from, to), sorted by start. Recurring events
+ * are expanded; excluded, cancelled and moved instances are applied.
+ */
+export function expandEvents(calendar: ICalendar, from: Date, to: Date): CalendarEventInstance[] {
+  const overrides = new Map<string, ICalEvent[]>();
+  const masters: ICalEvent[] = [];
+  for (const event of calendar.events) {
+    if (event.recurrenceId) {
+      overrides.set(event.uid, [...(overrides.get(event.uid) || []), event]);
+    } else {
+      masters.push(event);
+    }
+  }
+
+  const instances: CalendarEventInstance[] = [];
+  for (const event of masters) {
+    if (event.status === 'CANCELLED') continue;
+
+    const recurring = !!event.rrule || event.rdates.length > 0;
+    const eventOverrides = overrides.get(event.uid) || [];
+    // Expand a little past the window so instances moved into it are still matched
+    const duration = eventDuration(event);
+    const starts = event.rrule
+      ? recurrenceStarts(event, new Date(from.getTime() - duration), new Date(to.getTime() + duration))
+      : [event.start];
+    starts.push(...event.rdates);
+
+    for (const start of starts) {
+      if (event.exdates.some(exdate => sameInstant(exdate, start))) continue;
+      if (eventOverrides.some(override => sameInstant(override.recurrenceId!, start))) continue;
+      instances.push(toInstance(event, start, recurring));
+    }
+  }
+
+  // Moved or edited instances; cancelled ones are simply dropped
+  for (const eventOverrides of Array.from(overrides.values())) {
+    for (const override of eventOverrides) {
+      if (override.status !== 'CANCELLED') {
+        instances.push(toInstance(override, override.start, true));
+      }
+    }
+  }
+
+  const overlapsWindow = (instance: CalendarEventInstance) => instance.end.getTime() > instance.start.getTime()
+    ? instance.end.getTime() > from.getTime() && instance.start.getTime() < to.getTime()
+    : instance.start.getTime() >= from.getTime() && instance.start.getTime() < to.getTime();
+
+  return instances
+    .filter(overlapsWindow)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
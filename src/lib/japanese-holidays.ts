@@ -0,0 +1,114 @@
+import type { LocalizedText } from './localized-text';
+
+/**
+ * Japanese public holidays (国民の祝日) computed from the rules of the Holiday
+ * Act as they stand since 2020, including the 2020/2021 Olympic moves,
+ * substitute holidays (振替休日) and citizens' holidays (国民の休日). The
+ * equinox formulas hold until 2099.
+ */
+
+export interface JapaneseHoliday {
+  /** YYYY-MM-DD */
+  date: string;
+  name: LocalizedText;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Day of the month of the nth Monday */
+function nthMonday(year: number, month: number, n: number): number {
+  const first = weekdayOf(year, month, 1);
+  return 1 + ((8 - first) % 7) + (n - 1) * 7;
+}
+
+function vernalEquinox(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function autumnalEquinox(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+// Holidays moved around the Tokyo Olympics
+const OLYMPIC_DATES: Record<number, { marine: [number, number]; sports: [number, number]; mountain: [number, number] }> = {
+  2020: { marine: [7, 23], sports: [7, 24], mountain: [8, 10] },
+  2021: { marine: [7, 22], sports: [7, 23], mountain: [8, 8] },
+};
+
+const cache = new Map<number, JapaneseHoliday[]>();
+
+export function getJapaneseHolidays(year: number): JapaneseHoliday[] {
+  const cached = cache.get(year);
+  if (cached) return cached;
+
+  const olympic = OLYMPIC_DATES[year];
+  const fixed: Array<[number, number, string, string]> = [
+    [1, 1, '元日', "New Year's Day"],
+    [1, nthMonday(year, 1, 2), '成人の日', 'Coming of Age Day'],
+    [2, 11, '建国記念の日', 'National Foundation Day'],
+    [2, 23, '天皇誕生日', "Emperor's Birthday"],
+    [3, vernalEquinox(year), '春分の日', 'Vernal Equinox Day'],
+    [4, 29, '昭和の日', 'Showa Day'],
+    [5, 3, '憲法記念日', 'Constitution Memorial Day'],
+    [5, 4, 'みどりの日', 'Greenery Day'],
+    [5, 5, 'こどもの日', "Children's Day"],
+    [...(olympic ? olympic.marine : [7, nthMonday(year, 7, 3)] as [number, number]), '海の日', 'Marine Day'],
+    [...(olympic ? olympic.mountain : [8, 11] as [number, number]), '山の日', 'Mountain Day'],
+    [9, nthMonday(year, 9, 3), '敬老の日', 'Respect for the Aged Day'],
+    [9, autumnalEquinox(year), '秋分の日', 'Autumnal Equinox Day'],
+    [...(olympic ? olympic.sports : [10, nthMonday(year, 10, 2)] as [number, number]), 'スポーツの日', 'Sports Day'],
+    [11, 3, '文化の日', 'Culture Day'],
+    [11, 23, '勤労感謝の日', 'Labour Thanksgiving Day'],
+  ];
+
+  const holidays = new Map<string, LocalizedText>();
+  for (const [month, day, ja, en] of fixed) {
+    holidays.set(toDateKey(year, month, day), { ja, en });
+  }
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const keyOf = (ms: number) => {
+    const date = new Date(ms);
+    return toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  };
+
+  // A weekday between two holidays is a holiday too
+  for (let ms = Date.UTC(year, 0, 2); ms < Date.UTC(year, 11, 31); ms += dayMs) {
+    const key = keyOf(ms);
+    if (!holidays.has(key) && new Date(ms).getUTCDay() !== 0
+      && holidays.has(keyOf(ms - dayMs)) && holidays.has(keyOf(ms + dayMs))) {
+      holidays.set(key, { ja: '国民の休日', en: "Citizens' Holiday" });
+    }
+  }
+
+  // A holiday on Sunday moves the day off to the next day that is not a holiday
+  for (const key of Array.from(holidays.keys())) {
+    const [y, m, d] = key.split('-').map(Number);
+    if (weekdayOf(y, m, d) !== 0) continue;
+    let ms = Date.UTC(y, m - 1, d) + dayMs;
+    while (holidays.has(keyOf(ms))) ms += dayMs;
+    if (new Date(ms).getUTCFullYear() === year) {
+      holidays.set(keyOf(ms), { ja: '振替休日', en: 'Substitute Holiday' });
+    }
+  }
+
+  const result = Array.from(holidays.entries())
+    .map(([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  cache.set(year, result);
+  return result;
+}
+
+/** The holiday on a YYYY-MM-DD date, or null */
+export function getJapaneseHoliday(date: string): JapaneseHoliday | null {
+  const year = parseInt(date.slice(0, 4), 10);
+  return getJapaneseHolidays(year).find(holiday => holiday.date === date) || null;
+}
@@ -1,4 +1,17 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import crypto from 'crypto';
+import { EmbeddingProvider, getEmbeddingModelId, getEmbeddingProvider } from './embeddings/embedding-provider';
+import { chunkKnowledgeDocument, KnowledgeChunk } from './knowledge-chunker';
+import {
+  belongsToHistory,
+  historyKey,
+  KnowledgeChangeContext,
+  KnowledgeRevision,
+  KnowledgeRevisionAction,
+  KnowledgeRevisionStore,
+  KnowledgeSnapshot,
+  SupabaseKnowledgeRevisionStore,
+  SYSTEM_CHANGE,
+} from './knowledge-revisions';
 import { supabaseAdmin } from './supabase';
 import { SupportedLanguage } from '../mastra/types/config';
 
@@ -11,18 +24,64 @@ export interface KnowledgeBaseEntry {
   metadata?: Record<string, any>;
 }
 
-export class KnowledgeBaseUtils {
-  private genAI: GoogleGenerativeAI;
-  private embeddingModel: any;
+export interface KnowledgeBaseRow {
+  id: string;
+  content: string;
+  category?: string;
+  subcategory?: string;
+  language: SupportedLanguage;
+  source?: string;
+  metadata: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+  /** Set while the entry is in the trash */
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
 
-  constructor() {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY is not set');
-    }
-    
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.embeddingModel = this.genAI.getGenerativeModel({ model: 'text-embedding-004' });
+const ROW_COLUMNS = 'id, content, category, subcategory, language, source, metadata, created_at, updated_at, deleted_at, deleted_by';
+
+export interface EmbeddingFields {
+  content_embedding: number[];
+  embedding_model: string;
+  embedding_dimensions: number;
+}
+
+/**
+ * Documents longer than one chunk are stored as a parent row holding the full
+ * text (not embedded, not searched) plus one embedded row per chunk whose
+ * metadata links back with parent_id and chunk_index.
+ */
+const CHUNK_METADATA_KEYS = ['chunked', 'chunk_count', 'chunk_index', 'parent_id', 'heading', 'chunk_hash', 'document_key'];
+
+function documentMetadata(metadata: Record<string, any> = {}): Record<string, any> {
+  const result = { ...metadata };
+  for (const key of CHUNK_METADATA_KEYS) {
+    if (key !== 'document_key') delete result[key];
+  }
+  return result;
+}
+
+function chunkHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Deleting an entry moves it and its chunks to the trash (deleted_at set);
+ * trashed rows are left out of search and listings until restored or purged.
+ * Every change is recorded in knowledge_base_revisions with its author and
+ * origin, see src/lib/knowledge-revisions.ts.
+ */
+export class KnowledgeBaseUtils {
+  private embeddingProvider: EmbeddingProvider;
+  private revisions: KnowledgeRevisionStore;
+
+  constructor(
+    embeddingProvider: EmbeddingProvider = getEmbeddingProvider(),
+    revisions: KnowledgeRevisionStore = new SupabaseKnowledgeRevisionStore()
+  ) {
+    this.embeddingProvider = embeddingProvider;
+    this.revisions = revisions;
   }
 
   /**
@@ -36,6 +95,8 @@ export class KnowledgeBaseUtils {
         .eq('content', entry.content)
         .eq('language', entry.language)
         .eq('source', entry.source || '')
+        .is('metadata->>parent_id', null)
+        .is('deleted_at', null)
         .limit(1)
         .single();
 
@@ -54,10 +115,55 @@ export class KnowledgeBaseUtils {
   }
 
   /**
-   * Add a single entry to the knowledge base with automatic duplicate checking
+   * Find the stored document an entry replaces, by metadata.document_key
+   * (e.g. the markdown file it was imported from)
    */
-  async addEntry(entry: KnowledgeBaseEntry): Promise<{ id: string; success: boolean; error?: string; isDuplicate?: boolean }> {
+  private async findDocument(entry: KnowledgeBaseEntry): Promise<{ id: string; content: string; deleted_at: string | null } | null> {
+    const documentKey = entry.metadata?.document_key;
+    if (!documentKey) return null;
+
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, content, deleted_at')
+      .eq('metadata->>document_key', documentKey)
+      .eq('language', entry.language)
+      .is('metadata->>parent_id', null)
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+    return data || null;
+  }
+
+  /**
+   * Add a single entry to the knowledge base with automatic duplicate checking.
+   * Long content is split into chunks; an entry whose metadata.document_key
+   * matches a stored document replaces that document's chunks, unless an
+   * editor moved that document to the trash.
+   */
+  async addEntry(entry: KnowledgeBaseEntry, context: KnowledgeChangeContext = SYSTEM_CHANGE): Promise<{
+    id: string;
+    success: boolean;
+    error?: string;
+    isDuplicate?: boolean;
+    isUpdate?: boolean;
+  }> {
     try {
+      const existingDocument = await this.findDocument(entry);
+      if (existingDocument) {
+        if (existingDocument.deleted_at) {
+          console.log(`⏭️ ${entry.metadata?.document_key} is in the trash, not re-adding it`);
+          return { id: existingDocument.id, success: true, isDuplicate: true };
+        }
+        if (existingDocument.content === entry.content) {
+          return { id: existingDocument.id, success: true, isDuplicate: true };
+        }
+        const result = await this.updateEntry(existingDocument.id, entry, context);
+        return { id: existingDocument.id, ...result, isUpdate: result.success };
+      }
+
       // Check for duplicates first
       const duplicateCheck = await this.checkDuplicate(entry);
       
@@ -69,21 +175,21 @@ export class KnowledgeBaseUtils {
           isDuplicate: true 
         };
       }
-      
-      // Generate embedding for the content
-      const embedding = await this.generateEmbedding(entry.content);
 
-      // Insert into database
+      const chunks = this.chunkEntry(entry);
+      const metadata = documentMetadata(entry.metadata);
+
+      // Insert into database; a chunked document's own row is not embedded
       const { data, error } = await supabaseAdmin
         .from('knowledge_base')
         .insert({
           content: entry.content,
-          content_embedding: embedding,
+          ...(chunks.length > 1 ? {} : await this.generateEmbeddingFields(entry.content)),
           category: entry.category,
           subcategory: entry.subcategory,
           language: entry.language,
           source: entry.source,
-          metadata: entry.metadata || {},
+          metadata: chunks.length > 1 ? { ...metadata, chunked: true, chunk_count: chunks.length } : metadata,
         })
         .select('id')
         .single();
@@ -92,6 +198,11 @@ export class KnowledgeBaseUtils {
         throw error;
       }
 
+      if (chunks.length > 1) {
+        await this.saveChunks(data.id, entry, chunks);
+      }
+
+      await this.recordRevision({ id: data.id, ...entry }, 'create', context);
       return { id: data.id, success: true, isDuplicate: false };
     } catch (error) {
       console.error('❌ Failed to add knowledge base entry:', error);
@@ -106,22 +217,26 @@ export class KnowledgeBaseUtils {
   /**
    * Add multiple entries to the knowledge base in batch with duplicate tracking
    */
-  async addEntries(entries: KnowledgeBaseEntry[]): Promise<{
+  async addEntries(entries: KnowledgeBaseEntry[], context: KnowledgeChangeContext = SYSTEM_CHANGE): Promise<{
     successful: number;
     failed: number;
     duplicates: number;
+    updated: number;
     errors: Array<{ index: number; error: string }>;
   }> {
     let successful = 0;
     let failed = 0;
     let duplicates = 0;
+    let updated = 0;
     const errors: Array<{ index: number; error: string }> = [];
 
     for (let i = 0; i < entries.length; i++) {
-      const result = await this.addEntry(entries[i]);
+      const result = await this.addEntry(entries[i], context);
       if (result.success) {
         if (result.isDuplicate) {
           duplicates++;
+        } else if (result.isUpdate) {
+          updated++;
         } else {
           successful++;
         }
@@ -131,19 +246,97 @@ export class KnowledgeBaseUtils {
       }
     }
 
-    return { successful, failed, duplicates, errors };
+    return { successful, failed, duplicates, updated, errors };
+  }
+
+  /** Chunks an entry would be stored as; one chunk means a single row */
+  private chunkEntry(entry: KnowledgeBaseEntry): KnowledgeChunk[] {
+    return chunkKnowledgeDocument(entry.content, {
+      title: entry.metadata?.title || entry.subcategory,
+    });
+  }
+
+  /**
+   * Replace the chunk rows of a document. Chunks whose text did not change
+   * keep their embedding; new rows are inserted before the old ones are
+   * deleted so the document never disappears from search mid-update.
+   */
+  private async saveChunks(parentId: string, entry: KnowledgeBaseEntry, chunks: KnowledgeChunk[]): Promise<void> {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id, metadata, content_embedding, embedding_model, embedding_dimensions')
+      .eq('metadata->>parent_id', parentId);
+
+    if (existingError) throw existingError;
+
+    const currentModel = this.embeddingModelId;
+    const embeddings = new Map<string, EmbeddingFields>();
+    for (const row of existing || []) {
+      if (row.metadata?.chunk_hash && row.embedding_model === currentModel) {
+        embeddings.set(row.metadata.chunk_hash, {
+          content_embedding: row.content_embedding,
+          embedding_model: row.embedding_model,
+          embedding_dimensions: row.embedding_dimensions,
+        });
+      }
+    }
+
+    const metadata = documentMetadata(entry.metadata);
+    delete metadata.document_key;
+    const rows = [];
+    for (const chunk of chunks) {
+      const hash = chunkHash(chunk.content);
+      rows.push({
+        content: chunk.content,
+        category: entry.category,
+        subcategory: entry.subcategory,
+        language: entry.language,
+        source: entry.source,
+        metadata: {
+          ...metadata,
+          parent_id: parentId,
+          chunk_index: chunk.index,
+          chunk_count: chunks.length,
+          heading: chunk.heading,
+          chunk_hash: hash,
+        },
+        ...(embeddings.get(hash) || await this.generateEmbeddingFields(chunk.content)),
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin.from('knowledge_base').insert(rows);
+      if (error) throw error;
+    }
+
+    await this.deleteChunks((existing || []).map((row: { id: string }) => row.id));
+  }
+
+  private async deleteChunks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabaseAdmin.from('knowledge_base').delete().in('id', ids);
+    if (error) throw error;
   }
 
   /**
-   * Update the embedding for existing entries that have content but no embedding
+   * Update the embedding for existing entries that have content but no embedding,
+   * or whose embedding came from a different model than the configured one
    */
   async updateMissingEmbeddings(): Promise<{ updated: number; failed: number }> {
     try {
-      // Get entries without embeddings
+      const modelId = getEmbeddingModelId(this.embeddingProvider);
+
+      // Get entries without a current embedding
       const { data: entries, error } = await supabaseAdmin
         .from('knowledge_base')
-        .select('id, content')
-        .is('content_embedding', null);
+        .select('id, content, metadata')
+        .or([
+          'content_embedding.is.null',
+          'embedding_model.is.null',
+          `embedding_model.neq."${modelId}"`,
+          `embedding_dimensions.neq.${this.embeddingProvider.dimensions}`,
+        ].join(','))
+        .is('deleted_at', null);
 
       if (error) {
         throw error;
@@ -153,12 +346,15 @@ export class KnowledgeBaseUtils {
       let failed = 0;
 
       for (const entry of entries || []) {
+        // A chunked document is searched through its chunks
+        if (entry.metadata?.chunked) continue;
+
         try {
-          const embedding = await this.generateEmbedding(entry.content);
+          const embeddingFields = await this.generateEmbeddingFields(entry.content);
           
           const { error: updateError } = await supabaseAdmin
             .from('knowledge_base')
-            .update({ content_embedding: embedding })
+            .update(embeddingFields)
             .eq('id', entry.id);
 
           if (updateError) {
@@ -191,7 +387,8 @@ export class KnowledgeBaseUtils {
     let query = supabaseAdmin
       .from('knowledge_base')
       .select('id, content, subcategory, metadata')
-      .eq('category', category);
+      .eq('category', category)
+      .is('deleted_at', null);
 
     if (language) {
       query = query.eq('language', language);
@@ -208,7 +405,8 @@ export class KnowledgeBaseUtils {
   }
 
   /**
-   * Get all entries with filtering and pagination
+   * Get all entries with filtering and pagination; `trash` lists deleted
+   * entries instead, most recently deleted first
    */
   async getAll(options: {
     page?: number;
@@ -216,18 +414,9 @@ export class KnowledgeBaseUtils {
     language?: SupportedLanguage;
     category?: string;
     search?: string;
+    trash?: boolean;
   } = {}): Promise<{
-    data: Array<{
-      id: string;
-      content: string;
-      category?: string;
-      subcategory?: string;
-      language: SupportedLanguage;
-      source?: string;
-      metadata: Record<string, any>;
-      created_at: string;
-      updated_at: string;
-    }>;
+    data: KnowledgeBaseRow[];
     total: number;
     page: number;
     limit: number;
@@ -239,7 +428,10 @@ export class KnowledgeBaseUtils {
 
       let query = supabaseAdmin
         .from('knowledge_base')
-        .select('id, content, category, subcategory, language, source, metadata, created_at, updated_at', { count: 'exact' });
+        .select(ROW_COLUMNS, { count: 'exact' })
+        .is('metadata->>parent_id', null); // Chunks are edited through their document
+
+      query = options.trash ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
 
       // Apply filters
       if (options.language) {
@@ -256,7 +448,7 @@ export class KnowledgeBaseUtils {
       query = query.range(offset, offset + limit - 1);
 
       // Order by updated_at descending
-      query = query.order('updated_at', { ascending: false });
+      query = query.order(options.trash ? 'deleted_at' : 'updated_at', { ascending: false });
 
       const { data, error, count } = await query;
 
@@ -282,23 +474,13 @@ export class KnowledgeBaseUtils {
   }
 
   /**
-   * Get a single entry by ID
+   * Get a single entry by ID, including entries in the trash
    */
-  async getById(id: string): Promise<{
-    id: string;
-    content: string;
-    category?: string;
-    subcategory?: string;
-    language: SupportedLanguage;
-    source?: string;
-    metadata: Record<string, any>;
-    created_at: string;
-    updated_at: string;
-  } | null> {
+  async getById(id: string): Promise<KnowledgeBaseRow | null> {
     try {
       const { data, error } = await supabaseAdmin
         .from('knowledge_base')
-        .select('id, content, category, subcategory, language, source, metadata, created_at, updated_at')
+        .select(ROW_COLUMNS)
         .eq('id', id)
         .single();
 
@@ -316,21 +498,104 @@ export class KnowledgeBaseUtils {
   /**
    * Update an existing entry
    */
-  async updateEntry(id: string, updates: Partial<KnowledgeBaseEntry>): Promise<{ success: boolean; error?: string }> {
+  async updateEntry(
+    id: string,
+    updates: Partial<KnowledgeBaseEntry>,
+    context: KnowledgeChangeContext = SYSTEM_CHANGE
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.applyUpdate(id, updates, context, 'update');
+  }
+
+  /**
+   * Put an entry back to what a revision from its history says; the rollback
+   * is itself recorded as a new revision
+   */
+  async rollbackEntry(
+    id: string,
+    revisionId: string,
+    context: KnowledgeChangeContext = SYSTEM_CHANGE
+  ): Promise<{ success: boolean; error?: string }> {
     try {
-      const updateData: any = {};
-      
-      // Copy simple fields
-      if (updates.category !== undefined) updateData.category = updates.category;
-      if (updates.subcategory !== undefined) updateData.subcategory = updates.subcategory;
-      if (updates.language !== undefined) updateData.language = updates.language;
-      if (updates.source !== undefined) updateData.source = updates.source;
-      if (updates.metadata !== undefined) updateData.metadata = updates.metadata;
-
-      // If content is being updated, regenerate embedding
-      if (updates.content !== undefined) {
-        updateData.content = updates.content;
-        updateData.content_embedding = await this.generateEmbedding(updates.content);
+      const [current, revision] = await Promise.all([this.getById(id), this.revisions.get(revisionId)]);
+      if (!current) {
+        throw new Error('Entry not found');
+      }
+      if (!revision || !belongsToHistory(revision, historyKey(current))) {
+        throw new Error('Revision not found for this entry');
+      }
+
+      return await this.applyUpdate(id, {
+        content: revision.content,
+        category: revision.category ?? undefined,
+        subcategory: revision.subcategory ?? undefined,
+        language: revision.language as SupportedLanguage,
+        source: revision.source ?? undefined,
+        metadata: revision.metadata,
+      }, context, 'rollback', revision.id);
+    } catch (error) {
+      console.error('Failed to roll back entry:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async applyUpdate(
+    id: string,
+    updates: Partial<KnowledgeBaseEntry>,
+    context: KnowledgeChangeContext,
+    action: KnowledgeRevisionAction,
+    restoredFrom: string | null = null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const current = await this.getById(id);
+      if (!current) {
+        throw new Error('Entry not found');
+      }
+      if (current.deleted_at) {
+        throw new Error('Entry is in the trash; restore it before editing');
+      }
+
+      // A single chunk is edited in place; everything else goes through its document
+      if (current.metadata?.parent_id) {
+        const result = await this.updateChunk(id, updates);
+        await this.recordRevision({
+          ...current,
+          content: updates.content ?? current.content,
+          metadata: updates.metadata ?? current.metadata,
+        }, action, context, restoredFrom);
+        return result;
+      }
+
+      const entry: KnowledgeBaseEntry = {
+        content: updates.content ?? current.content,
+        category: updates.category ?? current.category,
+        subcategory: updates.subcategory ?? current.subcategory,
+        language: updates.language ?? current.language,
+        source: updates.source ?? current.source,
+        metadata: documentMetadata(updates.metadata ?? current.metadata),
+      };
+      const chunks = this.chunkEntry(entry);
+
+      const updateData: any = {
+        category: entry.category,
+        subcategory: entry.subcategory,
+        language: entry.language,
+        source: entry.source,
+        content: entry.content,
+        metadata: chunks.length > 1 ? { ...entry.metadata, chunked: true, chunk_count: chunks.length } : entry.metadata,
+      };
+
+      if (chunks.length > 1) {
+        Object.assign(updateData, { content_embedding: null, embedding_model: null, embedding_dimensions: null });
+      } else if (updates.content !== undefined || current.metadata?.chunked) {
+        // If content is being updated, regenerate embedding
+        Object.assign(updateData, await this.generateEmbeddingFields(entry.content));
+      }
+
+      if (chunks.length > 1) {
+        await this.saveChunks(id, entry, chunks);
       }
 
       const { error } = await supabaseAdmin
@@ -342,6 +607,12 @@ export class KnowledgeBaseUtils {
         throw error;
       }
 
+      // Document became short enough for a single row
+      if (chunks.length <= 1 && current.metadata?.chunked) {
+        await this.deleteChunks(await this.getChunkIds(id));
+      }
+
+      await this.recordRevision({ id, ...entry }, action, context, restoredFrom);
       return { success: true };
     } catch (error) {
       console.error('Failed to update entry:', error);
@@ -352,11 +623,98 @@ export class KnowledgeBaseUtils {
     }
   }
 
+  private async updateChunk(id: string, updates: Partial<KnowledgeBaseEntry>): Promise<{ success: boolean; error?: string }> {
+    const updateData: any = {};
+    if (updates.metadata !== undefined) updateData.metadata = updates.metadata;
+    if (updates.content !== undefined) {
+      updateData.content = updates.content;
+      Object.assign(updateData, await this.generateEmbeddingFields(updates.content));
+    }
+
+    const { error } = await supabaseAdmin
+      .from('knowledge_base')
+      .update(updateData)
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+    return { success: true };
+  }
+
+  private async getChunkIds(parentId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base')
+      .select('id')
+      .eq('metadata->>parent_id', parentId);
+
+    if (error) throw error;
+    return (data || []).map((row: { id: string }) => row.id);
+  }
+
+  /**
+   * Move an entry and its chunks to the trash
+   */
+  async deleteEntry(id: string, context: KnowledgeChangeContext = SYSTEM_CHANGE): Promise<boolean> {
+    try {
+      const current = await this.getById(id);
+      if (!current) {
+        throw new Error('Entry not found');
+      }
+      if (current.deleted_at) {
+        return true;
+      }
+
+      await this.setDeleted(id, { deleted_at: new Date().toISOString(), deleted_by: context.author });
+      await this.recordRevision(current, 'delete', context);
+      return true;
+    } catch (error) {
+      console.error('Failed to delete knowledge base entry:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Take an entry and its chunks back out of the trash
+   */
+  async restoreEntry(id: string, context: KnowledgeChangeContext = SYSTEM_CHANGE): Promise<{ success: boolean; error?: string }> {
+    try {
+      const current = await this.getById(id);
+      if (!current) {
+        throw new Error('Entry not found');
+      }
+      if (!current.deleted_at) {
+        return { success: true };
+      }
+
+      await this.setDeleted(id, { deleted_at: null, deleted_by: null });
+      await this.recordRevision(current, 'restore', context);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to restore knowledge base entry:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
-   * Delete an entry from the knowledge base
+   * Permanently remove an entry that is in the trash, with its chunks.
+   * Its revisions are kept.
    */
-  async deleteEntry(id: string): Promise<boolean> {
+  async purgeEntry(id: string): Promise<{ success: boolean; error?: string }> {
     try {
+      const current = await this.getById(id);
+      if (!current) {
+        throw new Error('Entry not found');
+      }
+      if (!current.deleted_at) {
+        throw new Error('Only entries in the trash can be deleted permanently');
+      }
+
+      await this.deleteChunks(await this.getChunkIds(id));
+
       const { error } = await supabaseAdmin
         .from('knowledge_base')
         .delete()
@@ -366,10 +724,71 @@ export class KnowledgeBaseUtils {
         throw error;
       }
 
-      return true;
+      return { success: true };
     } catch (error) {
-      console.error('Failed to delete knowledge base entry:', error);
-      return false;
+      console.error('Failed to purge knowledge base entry:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async setDeleted(id: string, fields: { deleted_at: string | null; deleted_by: string | null }): Promise<void> {
+    const { error: chunkError } = await supabaseAdmin
+      .from('knowledge_base')
+      .update(fields)
+      .eq('metadata->>parent_id', id);
+
+    if (chunkError) throw chunkError;
+
+    const { error } = await supabaseAdmin
+      .from('knowledge_base')
+      .update(fields)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * An entry's revisions, newest first. Documents re-created under a new id
+   * (markdown imports, website pages) share history through their document key.
+   */
+  async getRevisions(id: string, limit: number = 50): Promise<KnowledgeRevision[]> {
+    const current = await this.getById(id);
+    if (!current) return [];
+    return this.revisions.list(historyKey(current), limit);
+  }
+
+  /**
+   * Snapshot a document into its revision history. Failures are logged, not
+   * thrown, so a history outage does not fail a change that already happened.
+   */
+  async recordRevision(
+    snapshot: KnowledgeSnapshot,
+    action: KnowledgeRevisionAction,
+    context: KnowledgeChangeContext = SYSTEM_CHANGE,
+    restoredFrom: string | null = null
+  ): Promise<void> {
+    const key = historyKey(snapshot);
+    try {
+      await this.revisions.append({
+        entryId: key.entryId,
+        documentKey: key.documentKey,
+        action,
+        content: snapshot.content,
+        category: snapshot.category ?? null,
+        subcategory: snapshot.subcategory ?? null,
+        language: snapshot.language,
+        source: snapshot.source ?? null,
+        metadata: documentMetadata(snapshot.metadata || {}),
+        author: context.author,
+        origin: context.origin,
+        embeddingModel: this.embeddingModelId,
+        restoredFrom,
+      });
+    } catch (error) {
+      console.error(`Failed to record ${action} revision for ${key.entryId || key.documentKey}:`, error);
     }
   }
 
@@ -443,29 +862,33 @@ export class KnowledgeBaseUtils {
 
   /**
    * Generate embedding for text (public method for external use)
-   * Uses consistent padding method across the application
+   * Uses the configured embedding provider, same as RAG search queries
    */
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const result = await this.embeddingModel.embedContent(text);
-      const embedding = result.embedding.values;
-      
-      // Google text-embedding-004 returns 768 dimensions, but database expects 1536
-      // Use consistent padding method: duplicate the embedding to reach 1536 dimensions
-      if (embedding.length === 768) {
-        const paddedEmbedding = [
-          ...embedding,
-          ...embedding // Duplicate the embedding to reach 1536 total (768 * 2)
-        ];
-        return paddedEmbedding;
-      }
-      
-      return embedding;
+      return await this.embeddingProvider.embed(text);
     } catch (error) {
       console.error('Embedding generation error:', error);
       throw new Error('Failed to generate embedding');
     }
   }
+
+  /** Model id recorded in embedding_model for new embeddings */
+  get embeddingModelId(): string {
+    return getEmbeddingModelId(this.embeddingProvider);
+  }
+
+  /**
+   * Embedding plus the model it was produced with, ready to spread into a
+   * knowledge_base insert or update
+   */
+  async generateEmbeddingFields(text: string): Promise<EmbeddingFields> {
+    return {
+      content_embedding: await this.generateEmbedding(text),
+      embedding_model: getEmbeddingModelId(this.embeddingProvider),
+      embedding_dimensions: this.embeddingProvider.dimensions,
+    };
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,323 @@
+/**
+ * Structure-aware chunking for knowledge base documents.
+ *
+ * Markdown is split into sections by heading, and each section is packed into
+ * chunks under a token budget without breaking lists, tables or code blocks
+ * unless they are too large on their own (tables then repeat their header).
+ * Consecutive prose chunks of a section overlap by a few sentences. Every
+ * chunk starts with its heading breadcrumb so it can be embedded on its own.
+ */
+
+export interface KnowledgeChunk {
+  /** Breadcrumb line followed by the chunk body; this is what gets embedded */
+  content: string;
+  /** Heading breadcrumb, e.g. "Facilities > Meeting rooms" */
+  heading: string | null;
+  index: number;
+  tokens: number;
+}
+
+export interface ChunkOptions {
+  /** Token budget per chunk, breadcrumb included */
+  maxTokens?: number;
+  /** Tokens of trailing prose repeated at the start of the next chunk */
+  overlapTokens?: number;
+  /** Document title, used as the root of the breadcrumb */
+  title?: string;
+}
+
+export const DEFAULT_CHUNK_TOKENS = 350;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 50;
+
+// Shorter matches between chunks are more likely coincidence than overlap
+const MIN_MERGE_OVERLAP = 8;
+
+type BlockKind = 'paragraph' | 'list' | 'table' | 'code';
+
+interface Block {
+  kind: BlockKind;
+  lines: string[];
+}
+
+interface Section {
+  path: string[];
+  blocks: Block[];
+}
+
+/** A piece of a block small enough to fit in one chunk */
+interface Piece {
+  text: string;
+  tokens: number;
+  /** Separator placed before this piece when it follows another in a chunk */
+  join: string;
+  /** Prose can be repeated as overlap; tables and code are not */
+  prose: boolean;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+/;
+const CJK = /[\u3000-\u303f\u3040-\u309f\u30a0-\u30ff\u4e00-\u9faf\u3400-\u4dbf\uff00-\uffef]/g;
+
+/**
+ * Rough token count: one per Japanese character, one per four characters of
+ * other text. Close enough to budget chunks for the embedding models in use.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(CJK) || []).length;
+  const other = text.replace(CJK, '').replace(/\s+/g, ' ').trim().length;
+  return cjk + Math.ceil(other / 4);
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^。！？.!?\n]+[。！？.!?]*\s*|\n/g) || [text];
+}
+
+function parseSections(markdown: string): Section[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const sections: Section[] = [];
+  const path: string[] = [];
+  let section: Section = { path: [], blocks: [] };
+  let i = 0;
+
+  const startsBlock = (line: string) =>
+    HEADING.test(line) || FENCE.test(line) || TABLE_ROW.test(line) || LIST_ITEM.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      if (section.blocks.length > 0) sections.push(section);
+      const level = heading[1].length;
+      path.length = Math.min(path.length, level - 1);
+      path[level - 1] = heading[2].trim();
+      section = { path: path.filter(Boolean), blocks: [] };
+      i++;
+      continue;
+    }
+
+    const block: Block = { kind: 'paragraph', lines: [line] };
+    i++;
+
+    if (FENCE.test(line)) {
+      block.kind = 'code';
+      const fence = line.trim().slice(0, 3);
+      while (i < lines.length) {
+        block.lines.push(lines[i]);
+        if (lines[i++].trim().startsWith(fence)) break;
+      }
+    } else if (TABLE_ROW.test(line)) {
+      block.kind = 'table';
+      while (i < lines.length && TABLE_ROW.test(lines[i])) block.lines.push(lines[i++]);
+    } else if (LIST_ITEM.test(line)) {
+      block.kind = 'list';
+      while (i < lines.length) {
+        const next = lines[i];
+        if (LIST_ITEM.test(next) || /^\s{2,}\S/.test(next)) {
+          block.lines.push(next);
+          i++;
+        } else if (!next.trim() && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1])) {
+          // Loose list: blank line between items
+          i++;
+        } else {
+          break;
+        }
+      }
+    } else {
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) block.lines.push(lines[i++]);
+    }
+
+    section.blocks.push(block);
+  }
+
+  if (section.blocks.length > 0) sections.push(section);
+  return sections;
+}
+
+/** Split text that is too long even as a single sentence */
+function hardSplit(text: string, budget: number): string[] {
+  const charsPerToken = text.length / Math.max(estimateTokens(text), 1);
+  const size = Math.max(Math.floor(budget * charsPerToken), 1);
+  const parts: string[] = [];
+  for (let start = 0; start < text.length; start += size) {
+    parts.push(text.slice(start, start + size));
+  }
+  return parts;
+}
+
+function proseToPieces(text: string, budget: number, join: string): Piece[] {
+  const tokens = estimateTokens(text);
+  if (tokens <= budget) return [{ text, tokens, join, prose: true }];
+
+  const pieces: Piece[] = [];
+  for (const sentence of splitSentences(text)) {
+    for (const part of estimateTokens(sentence) > budget ? hardSplit(sentence, budget) : [sentence]) {
+      pieces.push({ text: part, tokens: estimateTokens(part), join: pieces.length === 0 ? join : '', prose: true });
+    }
+  }
+  return pieces;
+}
+
+/** Tables and code blocks split by line, each part keeping the header or fence */
+function framedPieces(frameStart: string[], body: string[], frameEnd: string[], budget: number): Piece[] {
+  const frameTokens = estimateTokens([...frameStart, ...frameEnd].join('\n'));
+  const pieces: Piece[] = [];
+  let rows: string[] = [];
+
+  const flush = () => {
+    if (rows.length === 0) return;
+    const text = [...frameStart, ...rows, ...frameEnd].join('\n');
+    pieces.push({ text, tokens: estimateTokens(text), join: '\n\n', prose: false });
+    rows = [];
+  };
+
+  for (const row of body) {
+    if (rows.length > 0 && estimateTokens(rows.join('\n')) + estimateTokens(row) + frameTokens > budget) flush();
+    rows.push(row);
+  }
+  flush();
+  return pieces;
+}
+
+function blockToPieces(block: Block, budget: number): Piece[] {
+  const text = block.lines.join('\n');
+  const tokens = estimateTokens(text);
+
+  if (block.kind === 'paragraph') {
+    return proseToPieces(text, budget, '\n\n');
+  }
+  if (tokens <= budget) {
+    return [{ text, tokens, join: '\n\n', prose: block.kind !== 'table' && block.kind !== 'code' }];
+  }
+
+  if (block.kind === 'table') {
+    const headerRows = block.lines.length > 1 && TABLE_SEPARATOR.test(block.lines[1]) ? 2 : 0;
+    return framedPieces(block.lines.slice(0, headerRows), block.lines.slice(headerRows), [], budget);
+  }
+
+  if (block.kind === 'code') {
+    const closed = block.lines.length > 1 && FENCE.test(block.lines[block.lines.length - 1]);
+    return framedPieces(
+      [block.lines[0]],
+      block.lines.slice(1, closed ? -1 : undefined),
+      closed ? [block.lines[block.lines.length - 1]] : [],
+      budget
+    );
+  }
+
+  // Lists split between top-level items; nested lines stay with their item
+  const indent = (block.lines[0].match(LIST_ITEM)?.[1] || '').length;
+  const items: string[] = [];
+  for (const line of block.lines) {
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length <= indent) {
+      items.push(line);
+    } else if (items.length > 0) {
+      items[items.length - 1] += `\n${line}`;
+    } else {
+      items.push(line);
+    }
+  }
+
+  const pieces: Piece[] = [];
+  items.forEach((item, index) => {
+    const join = index === 0 ? '\n\n' : '\n';
+    pieces.push(...proseToPieces(item, budget, join));
+  });
+  return pieces;
+}
+
+/** Trailing sentences of a piece that fit in the overlap budget */
+function overlapTail(piece: Piece, overlapTokens: number): string {
+  if (!piece.prose || overlapTokens <= 0) return '';
+  const sentences = splitSentences(piece.text);
+  let tail = '';
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = sentences[i] + tail;
+    if (estimateTokens(candidate) > overlapTokens) break;
+    tail = candidate;
+  }
+  return tail.replace(/^\s+/, '');
+}
+
+export function chunkKnowledgeDocument(markdown: string, options: ChunkOptions = {}): KnowledgeChunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNK_TOKENS;
+  const overlapTokens = Math.min(options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS, Math.floor(maxTokens / 3));
+  const title = options.title?.trim();
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const section of parseSections(markdown)) {
+    const path = title && section.path[0] !== title ? [title, ...section.path] : section.path;
+    const heading = path.length > 0 ? path.join(' > ') : null;
+    const prefix = heading ? `${heading}\n\n` : '';
+    const budget = Math.max(maxTokens - estimateTokens(prefix), Math.floor(maxTokens / 2));
+
+    let body = '';
+    let hasNewContent = false;
+    let lastPiece: Piece | null = null;
+
+    const flush = () => {
+      if (!hasNewContent) return;
+      const content = `${prefix}${body}`;
+      chunks.push({ content, heading, index: chunks.length, tokens: estimateTokens(content) });
+
+      const carry = lastPiece ? overlapTail(lastPiece, overlapTokens) : '';
+      body = carry;
+      hasNewContent = false;
+    };
+
+    for (const block of section.blocks) {
+      for (const piece of blockToPieces(block, budget)) {
+        if (body && estimateTokens(body) + piece.tokens > budget) {
+          flush();
+          // Drop the overlap when it would push the piece over budget
+          if (body && estimateTokens(body) + piece.tokens > budget) body = '';
+        }
+        body = body ? `${body}${piece.join}${piece.text}` : piece.text;
+        hasNewContent = true;
+        lastPiece = piece;
+      }
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+/**
+ * Join neighbouring chunks of one document back into readable text: the
+ * breadcrumb is kept once and the overlap between chunks is removed.
+ */
+export function mergeChunkContents(chunks: Array<{ content: string; heading?: string | null }>): string {
+  let merged = '';
+  let lastHeading: string | null | undefined;
+
+  for (const chunk of chunks) {
+    const prefix = chunk.heading ? `${chunk.heading}\n\n` : '';
+    let body = prefix && chunk.content.startsWith(prefix) ? chunk.content.slice(prefix.length) : chunk.content;
+
+    if (merged && chunk.heading === lastHeading) {
+      // Longest start of this chunk that repeats the end of the previous one
+      for (let length = Math.min(body.length, merged.length); length >= MIN_MERGE_OVERLAP; length--) {
+        if (merged.endsWith(body.slice(0, length))) {
+          body = body.slice(length).replace(/^\s+/, '');
+          break;
+        }
+      }
+      merged += body ? `\n${body}` : '';
+    } else {
+      merged += `${merged ? '\n\n' : ''}${prefix}${body}`;
+    }
+    lastHeading = chunk.heading;
+  }
+
+  return merged;
+}
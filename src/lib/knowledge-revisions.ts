@@ -0,0 +1,184 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Revision history of knowledge base documents. Every create, update, delete,
+ * restore and rollback stores a full snapshot of the document, so an editor
+ * can see what an entry said before and put it back.
+ *
+ * A document's history is found by its row id or, for documents that are
+ * re-created under a new id (markdown imports, website pages), by a stable
+ * document key.
+ */
+
+export type KnowledgeRevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'rollback';
+
+/** What made the change; imports and the cron updater tag their own revisions */
+export type KnowledgeRevisionOrigin = 'admin' | 'cron' | 'import' | 'system';
+
+export interface KnowledgeChangeContext {
+  /** Staff username, API token name or script name */
+  author: string;
+  origin: KnowledgeRevisionOrigin;
+}
+
+export const SYSTEM_CHANGE: KnowledgeChangeContext = { author: 'system', origin: 'system' };
+
+export interface KnowledgeRevision {
+  id: string;
+  entryId: string | null;
+  documentKey: string | null;
+  action: KnowledgeRevisionAction;
+  content: string;
+  category: string | null;
+  subcategory: string | null;
+  language: string;
+  source: string | null;
+  metadata: Record<string, any>;
+  author: string;
+  origin: KnowledgeRevisionOrigin;
+  /** Model that embedded the document when the revision was written */
+  embeddingModel: string | null;
+  /** Revision a rollback copied */
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+export type NewKnowledgeRevision = Omit<KnowledgeRevision, 'id' | 'createdAt'>;
+
+/** Row fields a revision snapshots */
+export interface KnowledgeSnapshot {
+  id?: string | null;
+  content: string;
+  category?: string | null;
+  subcategory?: string | null;
+  language: string;
+  source?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface KnowledgeHistoryKey {
+  entryId: string | null;
+  documentKey: string | null;
+}
+
+/**
+ * How a document's revisions are looked up: its id plus metadata.document_key,
+ * or the page URL for website rows, which are replaced on every crawl
+ */
+export function historyKey(snapshot: KnowledgeSnapshot): KnowledgeHistoryKey {
+  const metadata = snapshot.metadata || {};
+  const documentKey = metadata.document_key
+    || (snapshot.source === 'website' && metadata.url ? `website:${metadata.url}` : null);
+  return { entryId: snapshot.id || null, documentKey };
+}
+
+export function belongsToHistory(revision: KnowledgeRevision, key: KnowledgeHistoryKey): boolean {
+  return (!!key.entryId && revision.entryId === key.entryId)
+    || (!!key.documentKey && revision.documentKey === key.documentKey);
+}
+
+export interface KnowledgeRevisionStore {
+  append(revision: NewKnowledgeRevision): Promise<KnowledgeRevision>;
+  get(id: string): Promise<KnowledgeRevision | null>;
+  /** Newest first */
+  list(key: KnowledgeHistoryKey, limit?: number): Promise<KnowledgeRevision[]>;
+}
+
+function toRevision(row: any): KnowledgeRevision {
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    documentKey: row.document_key,
+    action: row.action,
+    content: row.content,
+    category: row.category,
+    subcategory: row.subcategory,
+    language: row.language,
+    source: row.source,
+    metadata: row.metadata || {},
+    author: row.author,
+    origin: row.origin,
+    embeddingModel: row.embedding_model,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * knowledge_base_revisions table
+ * (supabase/migrations/20250629000000_add_knowledge_base_revisions.sql)
+ */
+export class SupabaseKnowledgeRevisionStore implements KnowledgeRevisionStore {
+  async append(revision: NewKnowledgeRevision): Promise<KnowledgeRevision> {
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base_revisions')
+      .insert({
+        entry_id: revision.entryId,
+        document_key: revision.documentKey,
+        action: revision.action,
+        content: revision.content,
+        category: revision.category,
+        subcategory: revision.subcategory,
+        language: revision.language,
+        source: revision.source,
+        metadata: revision.metadata,
+        author: revision.author,
+        origin: revision.origin,
+        embedding_model: revision.embeddingModel,
+        restored_from: revision.restoredFrom,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toRevision(data);
+  }
+
+  async get(id: string): Promise<KnowledgeRevision | null> {
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base_revisions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRevision(data) : null;
+  }
+
+  async list(key: KnowledgeHistoryKey, limit: number = 50): Promise<KnowledgeRevision[]> {
+    const filters = [];
+    if (key.entryId) filters.push(`entry_id.eq.${key.entryId}`);
+    if (key.documentKey) filters.push(`document_key.eq."${key.documentKey.replace(/"/g, '\\"')}"`);
+    if (filters.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+      .from('knowledge_base_revisions')
+      .select('*')
+      .or(filters.join(','))
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toRevision);
+  }
+}
+
+/** Process-local store for tests */
+export class InMemoryKnowledgeRevisionStore implements KnowledgeRevisionStore {
+  private revisions: KnowledgeRevision[] = [];
+  private nextId = 1;
+
+  async append(revision: NewKnowledgeRevision): Promise<KnowledgeRevision> {
+    const created = { ...revision, id: `revision-${this.nextId++}`, createdAt: new Date().toISOString() };
+    this.revisions.unshift(created);
+    return created;
+  }
+
+  async get(id: string): Promise<KnowledgeRevision | null> {
+    return this.revisions.find(revision => revision.id === id) || null;
+  }
+
+  async list(key: KnowledgeHistoryKey, limit: number = 50): Promise<KnowledgeRevision[]> {
+    return this.revisions.filter(revision => belongsToHistory(revision, key)).slice(0, limit);
+  }
+}
@@ -0,0 +1,188 @@
+import registry from './languages.json';
+
+/**
+ * Languages the navigator speaks. Everything that differs per language —
+ * names, speech and voice settings, fallback order, detection hints, which
+ * prompt templates to use — lives in languages.json, so adding a language is
+ * a data change: an entry there, its strings in ui-messages.json, and its
+ * slides and narration. Safe to import from the browser.
+ */
+
+export type SupportedLanguage = keyof typeof registry.languages;
+
+/** Languages the built-in prompts and server-side texts are written in */
+export type PromptLanguage = 'ja' | 'en';
+
+export interface LanguageVoice {
+  /** Google TTS language code, e.g. cmn-TW */
+  languageCode: string;
+  /** Google TTS voice */
+  name: string;
+  gender: 'female' | 'male' | 'neutral';
+  speakingRate: number;
+  pitch: number;
+  volumeGainDb: number;
+  /** Command template for the on-device provider (see local-voice-provider.ts) */
+  localCommand: string;
+}
+
+export interface LanguageConfig {
+  code: SupportedLanguage;
+  /** Native name, shown in the language selector */
+  name: string;
+  englishName: string;
+  flag: string;
+  /** BCP 47 locale for dates and numbers */
+  locale: string;
+  /** Other tags that mean this language, e.g. zh-Hant for zh-TW */
+  aliases: string[];
+  /** Template set for prompts; languages without their own templates reuse English */
+  promptLanguage: PromptLanguage;
+  /** Appended to prompts so the model answers in this language */
+  answerInstruction: string;
+  /** Tried in order for missing translations and knowledge base entries */
+  fallbacks: SupportedLanguage[];
+  /** Whether words are separated by spaces, when joining transcript and response chunks */
+  wordSpacing: boolean;
+  speech: {
+    /** Google Speech-to-Text language code */
+    recognition: string;
+    /** whisper.cpp language */
+    whisper: string;
+  };
+  voice: LanguageVoice;
+  detection: {
+    /** What a visitor might type to ask for the language */
+    names: string[];
+    /** Text matching this is never scored for the language, e.g. kana for Chinese */
+    excludes?: string;
+    /** Character classes scored per match; the highest total wins */
+    patterns: Array<{ pattern: string; weight: number }>;
+  };
+}
+
+export interface LanguageDetection {
+  language: SupportedLanguage;
+  confidence: number;
+  scores: Partial<Record<SupportedLanguage, number>>;
+}
+
+const LANGUAGES = registry.languages as unknown as Record<SupportedLanguage, Omit<LanguageConfig, 'code'>>;
+
+/** In registry order; typed as a tuple for z.enum */
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as [SupportedLanguage, ...SupportedLanguage[]];
+
+export const DEFAULT_LANGUAGE = registry.defaultLanguage as SupportedLanguage;
+
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+export function getLanguageConfig(language: SupportedLanguage): LanguageConfig {
+  return { code: language, ...(LANGUAGES[language] || LANGUAGES[DEFAULT_LANGUAGE]) };
+}
+
+export function getLanguageConfigs(): LanguageConfig[] {
+  return SUPPORTED_LANGUAGES.map(getLanguageConfig);
+}
+
+/**
+ * The supported language for a code, locale or alias (ko-KR, zh_Hant, EN),
+ * falling back to the first language with the same primary subtag; null
+ * when nothing matches
+ */
+export function parseLanguage(value: unknown): SupportedLanguage | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const tag = value.trim().replace(/_/g, '-').toLowerCase();
+
+  const exact = SUPPORTED_LANGUAGES.find(code => {
+    const config = LANGUAGES[code];
+    return [code, config.locale, config.speech.recognition, ...config.aliases]
+      .some(candidate => candidate.toLowerCase() === tag);
+  });
+  if (exact) return exact;
+
+  const primary = tag.split('-')[0];
+  return SUPPORTED_LANGUAGES.find(code => code.toLowerCase().split('-')[0] === primary) || null;
+}
+
+export function promptLanguageOf(language: SupportedLanguage): PromptLanguage {
+  return getLanguageConfig(language).promptLanguage;
+}
+
+/**
+ * The prompt with the instruction to answer in the language, for languages
+ * that reuse another language's templates
+ */
+export function withAnswerInstruction(prompt: string, language: SupportedLanguage): string {
+  const config = getLanguageConfig(language);
+  return config.promptLanguage === language ? prompt : `${prompt}\n\n${config.answerInstruction}`;
+}
+
+/** The language itself, its fallbacks, then the default language */
+export function languageFallbackChain(language: SupportedLanguage): SupportedLanguage[] {
+  const chain = [language, ...getLanguageConfig(language).fallbacks, DEFAULT_LANGUAGE];
+  return chain.filter((code, index) => isSupportedLanguage(code) && chain.indexOf(code) === index);
+}
+
+/** What goes between streamed chunks of text: a space, or nothing for ja / zh */
+export function textJoiner(language: SupportedLanguage): string {
+  return getLanguageConfig(language).wordSpacing ? ' ' : '';
+}
+
+/** Suffix for per-language environment variables, e.g. ZH_TW in VOICE_PROVIDER_ZH_TW */
+export function languageEnvSuffix(language: SupportedLanguage): string {
+  return language.toUpperCase().replace(/-/g, '_');
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function countMatches(text: string, pattern: string): number {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, 'g');
+    compiledPatterns.set(pattern, regex);
+  }
+  return (text.match(regex) || []).length;
+}
+
+function scoreText(text: string, detection: LanguageConfig['detection']): number {
+  if (detection.excludes && countMatches(text, detection.excludes) > 0) return 0;
+  return detection.patterns.reduce((sum, { pattern, weight }) => sum + countMatches(text, pattern) * weight, 0);
+}
+
+/**
+ * Guess the language of typed or transcribed text from the registry's
+ * detection patterns. Ties go to the language listed first, so kanji-only
+ * text stays Japanese; a language name on its own ("한국어", "English")
+ * is a request for that language.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const input = (text || '').trim();
+  const named = SUPPORTED_LANGUAGES.find(code =>
+    LANGUAGES[code].detection.names.some(name => name.toLowerCase() === input.toLowerCase())
+  );
+  if (named) {
+    return { language: named, confidence: 0.99, scores: { [named]: 1 } };
+  }
+
+  const scores: Partial<Record<SupportedLanguage, number>> = {};
+  let best: SupportedLanguage = DEFAULT_LANGUAGE;
+  let bestScore = 0;
+  let total = 0;
+
+  for (const code of SUPPORTED_LANGUAGES) {
+    const score = scoreText(input, LANGUAGES[code].detection);
+    scores[code] = score;
+    total += score;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+
+  if (bestScore === 0) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0.5, scores };
+  }
+  return { language: best, confidence: Math.min(0.95, 0.5 + (bestScore / total) * 0.45), scores };
+}
@@ -0,0 +1,11 @@
+import { languageFallbackChain, SupportedLanguage } from './languages';
+
+/** Text shown to visitors, per language; missing languages follow the language's fallbacks */
+export type LocalizedText = Partial<Record<SupportedLanguage, string>>;
+
+export function localize(text: LocalizedText, language: SupportedLanguage): string {
+  for (const code of languageFallbackChain(language)) {
+    if (text[code]) return text[code]!;
+  }
+  return Object.values(text).find(Boolean) || '';
+}
@@ -0,0 +1,325 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Export of Marp decks (src/slides/<language>/<deck>.md) to PDF, PPTX and
+ * per-slide PNG images through @marp-team/marp-cli, which drives a local
+ * Chrome/Edge (CHROME_PATH overrides the browser it finds).
+ *
+ * Each export is rendered into its own directory under the cache, keyed by a
+ * hash of the prepared markdown and options, so repeated requests (and the
+ * slide thumbnails in MarpViewer) reuse earlier output until the deck or its
+ * narration changes.
+ */
+
+export type MarpExportFormat = 'pdf' | 'png' | 'pptx';
+
+export const MARP_EXPORT_FORMATS: MarpExportFormat[] = ['pdf', 'png', 'pptx'];
+
+export const MARP_EXPORT_CONTENT_TYPES: Record<MarpExportFormat, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/** Invalid export requests; API routes map this to 400 (404 for missing decks) */
+export class MarpExportError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'MarpExportError';
+  }
+}
+
+export interface MarpExportRequest {
+  deck: string;
+  language: string;
+  format: MarpExportFormat;
+  /** Embed each slide's narration as speaker notes (PDF notes, PPTX notes) */
+  includeNotes?: boolean;
+}
+
+export interface MarpExportResult {
+  key: string;
+  format: MarpExportFormat;
+  /** Absolute paths; one per slide for 'png' */
+  files: string[];
+  cached: boolean;
+}
+
+export type MarpExportJobStatus = 'running' | 'done' | 'failed';
+
+export interface MarpExportJob {
+  id: string;
+  request: MarpExportRequest;
+  status: MarpExportJobStatus;
+  result?: MarpExportResult;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+/** Runs marp-cli with the given arguments and resolves to its exit code */
+export type MarpCliRunner = (argv: string[]) => Promise<number>;
+
+export interface MarpExportOptions {
+  runner?: MarpCliRunner;
+  cacheDir?: string;
+  slidesDir?: string;
+  publicDir?: string;
+}
+
+const SLIDES_DIR = path.resolve('src/slides');
+const PUBLIC_DIR = path.resolve('public');
+const DECK_NAME = /^[a-z0-9][a-z0-9-]*$/;
+const LANGUAGE_CODE = /^[a-z]{2}(-[A-Za-z]{2,4})?$/;
+
+export function getExportCacheDir(): string {
+  return process.env.MARP_EXPORT_CACHE_DIR || path.join(os.tmpdir(), 'engineer-cafe-marp-exports');
+}
+
+export function isMarpExportFormat(value: unknown): value is MarpExportFormat {
+  return MARP_EXPORT_FORMATS.includes(value as MarpExportFormat);
+}
+
+/**
+ * Accept either deck + language or the `<language>/<deck>` slideFile form the
+ * slide APIs already use
+ */
+export function parseDeckReference(input: { deck?: string; language?: string; slideFile?: string }): { deck: string; language: string } {
+  if (input.slideFile && input.slideFile.includes('/')) {
+    const [language, deck] = input.slideFile.replace(/\.md$/, '').split('/');
+    return { deck, language };
+  }
+  return { deck: (input.deck || input.slideFile || '').replace(/\.md$/, ''), language: input.language || 'ja' };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Paths of a deck and its narration; throws MarpExportError for bad names
+ * and missing decks
+ */
+export async function resolveDeck(deck: string, language: string, slidesDir: string = SLIDES_DIR) {
+  if (!DECK_NAME.test(deck)) {
+    throw new MarpExportError(`Invalid deck name: ${deck}`);
+  }
+  if (!LANGUAGE_CODE.test(language)) {
+    throw new MarpExportError(`Invalid language: ${language}`);
+  }
+
+  const markdownPath = path.join(slidesDir, language, `${deck}.md`);
+  if (!(await exists(markdownPath))) {
+    throw new MarpExportError(`Deck not found: ${language}/${deck}`, 404);
+  }
+
+  return {
+    markdownPath,
+    narrationPath: path.join(slidesDir, 'narration', `${deck}-${language}.json`),
+  };
+}
+
+/**
+ * Append each slide's `auto` narration as a presenter-note comment. The text
+ * is kept from parsing as a Marp directive (`key: value`) by replacing the
+ * space after ASCII colons with a no-break space, and `-->` cannot close the
+ * comment early.
+ */
+export function withSpeakerNotes(
+  markdown: string,
+  narration: { slides?: Array<{ slideNumber: number; narration?: { auto?: string } }> }
+): string {
+  const frontmatter = markdown.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/);
+  const head = frontmatter ? frontmatter[0] : '';
+  const body = markdown.slice(head.length);
+
+  const notes = new Map<number, string>();
+  for (const slide of narration.slides || []) {
+    if (slide.narration?.auto) notes.set(slide.slideNumber, slide.narration.auto);
+  }
+
+  const slides = body.split(/^---[ \t]*$/m).map((slide, index) => {
+    const note = notes.get(index + 1);
+    if (!note) return slide;
+    const safe = note.replace(/-->/g, '--\u200b>').replace(/: /g, ':\u00a0');
+    return `${slide.replace(/\s+$/, '')}\n\n<!--\n${safe}\n-->\n\n`;
+  });
+
+  return head + slides.join('---');
+}
+
+/**
+ * Decks reference site assets by absolute URL (/assets/..., /backgrounds/...);
+ * point those at the files under public/ so the headless browser can load them
+ */
+export function localizeAssetUrls(markdown: string, publicDir: string = PUBLIC_DIR): string {
+  return markdown.replace(/\]\(\/(?!\/)([^)\s]+)\)/g, (_match, url: string) =>
+    `](${path.join(publicDir, decodeURI(url)).split(path.sep).join('/')})`);
+}
+
+export const runMarpCli: MarpCliRunner = async (argv) => {
+  const { marpCli } = await import('@marp-team/marp-cli');
+  return marpCli(argv);
+};
+
+/** Options every render needs: local assets, inline HTML and the repo's themes */
+export function commonMarpArguments(themesDir: string = path.join(SLIDES_DIR, 'themes')): string[] {
+  return ['--allow-local-files', '--html', '--theme-set', themesDir];
+}
+
+function exportArguments(inputPath: string, outputDir: string, request: MarpExportRequest, themesDir: string): string[] {
+  const common = commonMarpArguments(themesDir);
+
+  switch (request.format) {
+    case 'pdf':
+      return [inputPath, '--pdf', ...(request.includeNotes ? ['--pdf-notes'] : []), '-o', path.join(outputDir, 'deck.pdf'), ...common];
+    case 'pptx':
+      return [inputPath, '--pptx', '-o', path.join(outputDir, 'deck.pptx'), ...common];
+    case 'png':
+      // Writes deck.001.png, deck.002.png, ...
+      return [inputPath, '--images', 'png', '-o', path.join(outputDir, 'deck.png'), ...common];
+  }
+}
+
+async function listOutputFiles(outputDir: string, format: MarpExportFormat): Promise<string[]> {
+  const names = await fs.readdir(outputDir);
+  const files = format === 'png'
+    ? names.filter(name => /^deck\.\d+\.png$/.test(name)).sort()
+    : names.filter(name => name === `deck.${format}`);
+  return files.map(name => path.join(outputDir, name));
+}
+
+// Concurrent requests for the same export (e.g. a page of thumbnails) share one render
+const inflight = new Map<string, Promise<MarpExportResult>>();
+
+export async function exportDeck(request: MarpExportRequest, options: MarpExportOptions = {}): Promise<MarpExportResult> {
+  if (!isMarpExportFormat(request.format)) {
+    throw new MarpExportError(`Unsupported export format: ${request.format}`);
+  }
+
+  const slidesDir = options.slidesDir || SLIDES_DIR;
+  const { markdownPath, narrationPath } = await resolveDeck(request.deck, request.language, slidesDir);
+
+  let source = await fs.readFile(markdownPath, 'utf-8');
+  if (request.includeNotes && (await exists(narrationPath))) {
+    source = withSpeakerNotes(source, JSON.parse(await fs.readFile(narrationPath, 'utf-8')));
+  }
+  source = localizeAssetUrls(source, options.publicDir || PUBLIC_DIR);
+
+  const themesDir = path.join(slidesDir, 'themes');
+  const key = crypto.createHash('sha256')
+    .update(JSON.stringify({ source, format: request.format, notes: !!request.includeNotes }))
+    .digest('hex')
+    .slice(0, 16);
+  const outputDir = path.join(options.cacheDir || getExportCacheDir(), `${request.deck}-${request.language}-${key}`);
+
+  const existing = inflight.get(outputDir);
+  if (existing) return existing;
+
+  const render = (async (): Promise<MarpExportResult> => {
+    const manifestPath = path.join(outputDir, 'manifest.json');
+    if (await exists(manifestPath)) {
+      const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+      return { key, format: request.format, files: manifest.files.map((name: string) => path.join(outputDir, name)), cached: true };
+    }
+
+    await fs.mkdir(outputDir, { recursive: true });
+    const inputPath = path.join(outputDir, 'deck.md');
+    await fs.writeFile(inputPath, source, 'utf-8');
+
+    const exitCode = await (options.runner || runMarpCli)(exportArguments(inputPath, outputDir, request, themesDir));
+    const files = await listOutputFiles(outputDir, request.format);
+    if (exitCode !== 0 || files.length === 0) {
+      throw new Error(`marp-cli ${request.format} export of ${request.language}/${request.deck} failed (exit code ${exitCode})`);
+    }
+
+    // Written last, so a failed or interrupted render is retried next time
+    await fs.writeFile(manifestPath, JSON.stringify({ files: files.map(file => path.basename(file)) }), 'utf-8');
+    return { key, format: request.format, files, cached: false };
+  })();
+
+  inflight.set(outputDir, render);
+  try {
+    return await render;
+  } finally {
+    inflight.delete(outputDir);
+  }
+}
+
+/**
+ * PNG of one slide, rendering the whole deck's images on first use
+ */
+export async function getSlideThumbnail(
+  deck: string,
+  language: string,
+  slideNumber: number,
+  options: MarpExportOptions = {}
+): Promise<string> {
+  const result = await exportDeck({ deck, language, format: 'png' }, options);
+  const file = result.files[slideNumber - 1];
+  if (!file) {
+    throw new MarpExportError(`Slide ${slideNumber} not found in ${language}/${deck}`, 404);
+  }
+  return file;
+}
+
+// Process-local; a job ID is only valid on the instance that started it
+const jobs = new Map<string, MarpExportJob>();
+const settled = new WeakMap<MarpExportJob, Promise<void>>();
+const MAX_JOBS = 100;
+
+/**
+ * Start an export in the background; poll getExportJob for the result
+ */
+export function startExportJob(request: MarpExportRequest, options: MarpExportOptions = {}): MarpExportJob {
+  const job: MarpExportJob = {
+    id: crypto.randomUUID(),
+    request,
+    status: 'running',
+    createdAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+
+  // Forget the oldest jobs; their files stay in the cache
+  if (jobs.size > MAX_JOBS) {
+    const oldest = jobs.keys().next().value;
+    if (oldest) jobs.delete(oldest);
+  }
+
+  const finished = exportDeck(request, options).then(
+    result => {
+      job.status = 'done';
+      job.result = result;
+      job.finishedAt = new Date().toISOString();
+    },
+    error => {
+      console.error(`[MarpExport] Job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.finishedAt = new Date().toISOString();
+    }
+  );
+  settled.set(job, finished);
+
+  return job;
+}
+
+/**
+ * Resolves once the job has finished, successfully or not; serverless routes
+ * hand this to `after()` so the render is not cut off with the response
+ */
+export function whenExportJobSettled(job: MarpExportJob): Promise<void> {
+  return settled.get(job) || Promise.resolve();
+}
+
+export function getExportJob(id: string): MarpExportJob | null {
+  return jobs.get(id) || null;
+}
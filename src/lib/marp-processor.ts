@@ -2,6 +2,8 @@ import { Marp } from '@marp-team/marp-core';
 import fs from 'fs/promises';
 import path from 'path';
 import matter from 'gray-matter';
+import os from 'os';
+import { commonMarpArguments, localizeAssetUrls, runMarpCli } from './marp-export';
 
 export interface MarpSlide {
   slideNumber: number;
@@ -313,9 +315,23 @@ export class MarpProcessor {
       theme?: string;
     } = {}
   ): Promise<void> {
-    // Note: This would require a PDF generation library like Puppeteer
-    // For now, this is a placeholder implementation
-    throw new Error('PDF export not implemented yet');
+    // Rendered by marp-cli in a headless browser (see src/lib/marp-export.ts)
+    const { data, content } = matter(markdown);
+    if (options.theme) data.theme = options.theme;
+    if (options.format && options.format !== 'A4') data.size = options.format;
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'engineer-cafe-marp-pdf-'));
+    try {
+      const inputPath = path.join(workDir, 'deck.md');
+      await fs.writeFile(inputPath, localizeAssetUrls(matter.stringify(content, data)), 'utf-8');
+
+      const exitCode = await runMarpCli([inputPath, '--pdf', '-o', path.resolve(outputPath), ...commonMarpArguments()]);
+      if (exitCode !== 0) {
+        throw new Error(`marp-cli exited with code ${exitCode}`);
+      }
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
   }
 
   async createSlideNavigation(result: ProcessedMarp): Promise<string> {
@@ -1,6 +1,9 @@
 import { supabaseAdmin } from '../supabase';
 import { ragMetrics } from './rag-metrics';
 
+/** Largest drop (absolute, 0-1 scale) in a quality metric before the gate fails */
+export const DEFAULT_QUALITY_TOLERANCE = 0.05;
+
 /**
  * Performance baseline collector for tracking system metrics over time
  */
@@ -30,11 +33,13 @@ export class PerformanceBaseline {
       externalAPIPerformance,
       systemResources,
       knowledgeBaseStats,
+      quality,
     ] = await Promise.all([
       this.collectRAGPerformance(oneHourAgo, timestamp),
       this.collectExternalAPIPerformance(oneHourAgo, timestamp),
       this.collectSystemResources(),
       this.collectKnowledgeBaseStats(),
+      this.collectRAGQuality(),
     ]);
     
     const baseline: BaselineMetrics = {
@@ -43,6 +48,7 @@ export class PerformanceBaseline {
       externalAPIs: externalAPIPerformance,
       system: systemResources,
       knowledgeBase: knowledgeBaseStats,
+      quality,
     };
     
     // Store baseline
@@ -191,6 +197,22 @@ export class PerformanceBaseline {
     };
   }
   
+  /**
+   * Retrieval and answer quality from the latest passing evaluation run
+   * (pnpm eval:rag), if any
+   */
+  private async collectRAGQuality(): Promise<RAGQualityMetrics | null> {
+    const { data } = await supabaseAdmin
+      .from('rag_evaluation_runs')
+      .select('metrics')
+      .eq('passed', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    return data?.metrics || null;
+  }
+  
   /**
    * Store baseline metrics
    */
@@ -290,6 +312,33 @@ export class PerformanceBaseline {
     return comparison;
   }
   
+  /**
+   * Compare evaluation metrics against the most recent baseline recorded for
+   * the same dataset version, k, retrieval mode and LLM. Passes with a note
+   * when no such baseline exists.
+   */
+  async checkQualityRegression(
+    current: RAGQualityMetrics,
+    tolerance: number = DEFAULT_QUALITY_TOLERANCE
+  ): Promise<QualityGateResult> {
+    const { data, error } = await supabaseAdmin
+      .from('performance_baselines')
+      .select('metrics')
+      .eq('metrics->quality->>datasetVersion', current.datasetVersion)
+      .eq('metrics->quality->>k', String(current.k))
+      .eq('metrics->quality->>mode', current.mode)
+      .eq('metrics->quality->>llm', current.llm)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(`Failed to load quality baseline: ${error.message}`);
+    }
+    
+    return compareQuality(data?.metrics?.quality || null, current, tolerance);
+  }
+  
   /**
    * Generate recommendation based on comparison
    */
@@ -312,6 +361,11 @@ export class PerformanceBaseline {
       }
     }
     
+    // Check retrieval/answer quality
+    if (baseline.quality && current.quality) {
+      issues.push(...compareQuality(baseline.quality, current.quality).regressions);
+    }
+    
     if (issues.length === 0) {
       return 'System performance is within normal parameters';
     }
@@ -320,6 +374,63 @@ export class PerformanceBaseline {
   }
 }
 
+/** Everything besides the knowledge base that a quality measurement depends on */
+const QUALITY_KEY = ['datasetVersion', 'k', 'mode', 'llm'] as const;
+
+function describeQualityKey(metrics: RAGQualityMetrics): string {
+  return `dataset ${metrics.datasetVersion}, k=${metrics.k}, mode=${metrics.mode ?? 'unknown'}, llm=${metrics.llm ?? 'unknown'}`;
+}
+
+/**
+ * Compare two quality measurements; each metric may drop by at most
+ * `tolerance` before it counts as a regression. Measurements that differ in
+ * dataset version, k, retrieval mode or LLM are not comparable and pass with
+ * a note.
+ */
+export function compareQuality(
+  baseline: RAGQualityMetrics | null,
+  current: RAGQualityMetrics,
+  tolerance: number = DEFAULT_QUALITY_TOLERANCE
+): QualityGateResult {
+  if (!baseline) {
+    return {
+      passed: true,
+      baseline: null,
+      regressions: [],
+      notes: [`No comparable quality baseline for ${describeQualityKey(current)}`],
+    };
+  }
+  
+  if (QUALITY_KEY.some(field => baseline[field] !== current[field])) {
+    return {
+      passed: true,
+      baseline: null,
+      regressions: [],
+      notes: [`No comparable quality baseline: baseline has ${describeQualityKey(baseline)}, this run ${describeQualityKey(current)}`],
+    };
+  }
+  
+  const regressions: string[] = [];
+  const notes: string[] = [];
+  const metrics: Array<[string, number | null, number | null]> = [
+    [`recall@${current.k}`, baseline.recallAtK, current.recallAtK],
+    ['MRR', baseline.mrr, current.mrr],
+    ['fact coverage', baseline.factCoverage, current.factCoverage],
+  ];
+  
+  for (const [name, before, after] of metrics) {
+    if (before === null || after === null) {
+      if (before !== null) notes.push(`${name} was not measured in this run`);
+      continue;
+    }
+    if (after < before - tolerance) {
+      regressions.push(`${name} dropped from ${before.toFixed(3)} to ${after.toFixed(3)}`);
+    }
+  }
+  
+  return { passed: regressions.length === 0, baseline, regressions, notes };
+}
+
 // Type definitions
 interface BaselineMetrics {
   timestamp: string;
@@ -327,6 +438,29 @@ interface BaselineMetrics {
   externalAPIs: ExternalAPIMetrics;
   system: SystemResourceMetrics;
   knowledgeBase: KnowledgeBaseMetrics;
+  quality?: RAGQualityMetrics | null;
+}
+
+/** Aggregate scores from a golden dataset evaluation run (0-1 scale) */
+export interface RAGQualityMetrics {
+  datasetVersion: string;
+  k: number;
+  /** Retrieval mode; missing on baselines recorded before it was tracked */
+  mode?: 'vector' | 'keyword' | 'hybrid';
+  /** LLM behind the answers, e.g. 'stub' or 'gemini'; 'none' for retrieval-only runs */
+  llm?: string;
+  questionCount: number;
+  recallAtK: number;
+  mrr: number;
+  /** Share of expected facts found in answers; null when answers were not evaluated */
+  factCoverage: number | null;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  baseline: RAGQualityMetrics | null;
+  regressions: string[];
+  notes: string[];
 }
 
 interface RAGPerformanceMetrics {
@@ -0,0 +1,61 @@
+/**
+ * Sliding-window rate limiting for endpoints that need no login but cost
+ * something per call (staff notifications, headless Chrome). Counts live in
+ * process memory, so every server instance limits on its own; that bounds a
+ * single client hammering the kiosk endpoints, not a distributed flood.
+ */
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+// Forget idle keys once the map grows past this
+const SWEEP_THRESHOLD = 1000;
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly rateLimit: RateLimit) {}
+
+  /** Record a call for `key`; false (and nothing recorded) when the key is at its limit */
+  take(key: string, now: number = Date.now()): boolean {
+    const recent = this.recentHits(key, now);
+    if (recent.length >= this.rateLimit.limit) {
+      this.hits.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > SWEEP_THRESHOLD) this.sweep(now);
+    return true;
+  }
+
+  /** Whether `key` could make another call right now, without recording one */
+  allows(key: string, now: number = Date.now()): boolean {
+    return this.recentHits(key, now).length < this.rateLimit.limit;
+  }
+
+  private recentHits(key: string, now: number): number[] {
+    return (this.hits.get(key) || []).filter(at => at > now - this.rateLimit.windowMs);
+  }
+
+  private sweep(now: number) {
+    this.hits.forEach((_, key) => {
+      if (this.recentHits(key, now).length === 0) this.hits.delete(key);
+    });
+  }
+}
+
+/**
+ * The caller's address as reported by the proxy in front of the app
+ * (Vercel sets x-forwarded-for); null when the request did not pass one
+ */
+export function clientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0].trim();
+    if (first) return first;
+  }
+  return request.headers.get('x-real-ip') || null;
+}
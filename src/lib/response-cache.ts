@@ -1,16 +1,19 @@
+import type { EmotionName } from './emotion-registry';
+import type { SupportedLanguage } from './languages';
+
 export interface CachedResponse {
   id: string;
   text: string;
   audioBase64?: string;
   emotion: string;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   timestamp: number;
   useCount: number;
   category: 'greeting' | 'common' | 'technical' | 'emotion' | 'question';
 }
 
 export interface EmotionalVariation {
-  emotion: string;
+  emotion: EmotionName;
   text: string;
   audioBase64?: string;
   intensity: number;
@@ -23,22 +26,20 @@ export class ResponseCache {
   private static readonly MAX_TEXT_LENGTH = 200; // Limit text length for caching
 
   // 定型文のテンプレート（感情バリエーション付き）
-  private static readonly PREDEFINED_RESPONSES: Record<string, {
-    ja: EmotionalVariation[];
-    en: EmotionalVariation[];
-  }> = {
+  // 定型文のない言語はクイック応答を使わず、AIが直接回答する
+  private static readonly PREDEFINED_RESPONSES: Record<string, Partial<Record<SupportedLanguage, EmotionalVariation[]>>> = {
     greeting: {
       ja: [
         { emotion: 'happy', text: 'こんにちは！今日も素晴らしい一日ですね♪', intensity: 0.8 },
         { emotion: 'excited', text: 'いらっしゃいませ！エンジニアカフェへようこそ！！', intensity: 0.9 },
         { emotion: 'gentle', text: 'こんにちは。ゆっくりしていってくださいね。', intensity: 0.6 },
-        { emotion: 'energetic', text: 'よっ！今日もプログラミング頑張ろうね！', intensity: 0.85 }
+        { emotion: 'excited', text: 'よっ！今日もプログラミング頑張ろうね！', intensity: 0.85 }
       ],
       en: [
         { emotion: 'happy', text: 'Hello! What a wonderful day it is♪', intensity: 0.8 },
         { emotion: 'excited', text: 'Welcome to Engineer Cafe!!', intensity: 0.9 },
         { emotion: 'gentle', text: 'Hello. Please take your time and relax.', intensity: 0.6 },
-        { emotion: 'energetic', text: 'Hey! Let\'s code hard today!', intensity: 0.85 }
+        { emotion: 'excited', text: 'Hey! Let\'s code hard today!', intensity: 0.85 }
       ]
     },
     encouragement: {
@@ -60,13 +61,13 @@ export class ResponseCache {
         { emotion: 'knowledgeable', text: 'プログラミングの質問ですね！詳しく聞かせてください。', intensity: 0.7 },
         { emotion: 'excited', text: 'コーディングの話、大好きです！何を作ってるんですか？', intensity: 0.8 },
         { emotion: 'supportive', text: 'エラーで困ってるんですね。一緒に解決しましょう！', intensity: 0.75 },
-        { emotion: 'analytical', text: 'なるほど、そのアプローチは興味深いですね。', intensity: 0.6 }
+        { emotion: 'knowledgeable', text: 'なるほど、そのアプローチは興味深いですね。', intensity: 0.6 }
       ],
       en: [
         { emotion: 'knowledgeable', text: 'A programming question! Please tell me more details.', intensity: 0.7 },
         { emotion: 'excited', text: 'I love talking about coding! What are you building?', intensity: 0.8 },
         { emotion: 'supportive', text: 'Having trouble with an error? Let\'s solve it together!', intensity: 0.75 },
-        { emotion: 'analytical', text: 'I see, that\'s an interesting approach.', intensity: 0.6 }
+        { emotion: 'knowledgeable', text: 'I see, that\'s an interesting approach.', intensity: 0.6 }
       ]
     },
     confusion: {
@@ -85,21 +86,21 @@ export class ResponseCache {
     },
     goodbye: {
       ja: [
-        { emotion: 'warm', text: 'また来てくださいね！お疲れさまでした♪', intensity: 0.8 },
-        { emotion: 'grateful', text: 'ありがとうございました！良い一日を！', intensity: 0.7 },
+        { emotion: 'happy', text: 'また来てくださいね！お疲れさまでした♪', intensity: 0.8 },
+        { emotion: 'happy', text: 'ありがとうございました！良い一日を！', intensity: 0.7 },
         { emotion: 'excited', text: 'また一緒にプログラミングしましょう！', intensity: 0.8 },
         { emotion: 'gentle', text: 'お疲れさまでした。ゆっくり休んでくださいね。', intensity: 0.6 }
       ],
       en: [
-        { emotion: 'warm', text: 'Please come back again! Great job today♪', intensity: 0.8 },
-        { emotion: 'grateful', text: 'Thank you so much! Have a wonderful day!', intensity: 0.7 },
+        { emotion: 'happy', text: 'Please come back again! Great job today♪', intensity: 0.8 },
+        { emotion: 'happy', text: 'Thank you so much! Have a wonderful day!', intensity: 0.7 },
         { emotion: 'excited', text: 'Let\'s code together again soon!', intensity: 0.8 },
         { emotion: 'gentle', text: 'Well done today. Please get some rest.', intensity: 0.6 }
       ]
     }
   };
 
-  static getCacheKey(text: string, language: 'ja' | 'en'): string {
+  static getCacheKey(text: string, language: SupportedLanguage): string {
     const normalizedText = text.toLowerCase().trim();
     
     // Don't cache very long texts to prevent storage overflow
@@ -171,7 +172,7 @@ export class ResponseCache {
     }
   }
 
-  static getCachedResponse(text: string, language: 'ja' | 'en'): CachedResponse | null {
+  static getCachedResponse(text: string, language: SupportedLanguage): CachedResponse | null {
     try {
       const cacheKey = this.getCacheKey(text, language);
       if (!cacheKey) return null;
@@ -215,7 +216,7 @@ export class ResponseCache {
 
   static getPredefinedResponse(
     category: keyof typeof ResponseCache.PREDEFINED_RESPONSES,
-    language: 'ja' | 'en',
+    language: SupportedLanguage,
     preferredEmotion?: string
   ): EmotionalVariation | null {
     const responses = this.PREDEFINED_RESPONSES[category]?.[language];
@@ -233,12 +234,12 @@ export class ResponseCache {
 
   static getResponseByKeywords(
     text: string, 
-    language: 'ja' | 'en'
+    language: SupportedLanguage
   ): { category: string; response: EmotionalVariation } | null {
     const normalizedText = text.toLowerCase();
     
     // Keyword patterns for different categories
-    const patterns = {
+    const patterns: Record<string, Partial<Record<SupportedLanguage, string[]>>> = {
       greeting: {
         ja: ['こんにちは', 'おはよう', 'こんばんは', 'はじめまして', 'よろしく'],
         en: ['hello', 'hi', 'good morning', 'good evening', 'nice to meet']
@@ -277,7 +278,7 @@ export class ResponseCache {
 
   static async getQuickResponse(
     text: string,
-    language: 'ja' | 'en',
+    language: SupportedLanguage,
     preferredEmotion?: string
   ): Promise<{ text: string; emotion: string; audioBase64?: string; cached: boolean } | null> {
     // First check local cache
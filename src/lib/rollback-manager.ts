@@ -38,7 +38,7 @@ export class RollbackManager {
         id: `snapshot-${Date.now()}`,
         name,
         timestamp: new Date().toISOString(),
-        feature_flags: featureFlags.getAllFlags(),
+        feature_flags: await featureFlags.getAllFlags(),
         metadata: {
           ...safeMetadata,
           node_env: process.env.NODE_ENV,
@@ -81,8 +81,8 @@ export class RollbackManager {
         throw new Error(`Snapshot not found: ${snapshotId}`);
       }
       
-      // Restore feature flags
-      featureFlags.updateFlags(snapshot.feature_flags);
+      // Restore feature flags (persisted, so every instance picks them up)
+      await featureFlags.updateFlags(snapshot.feature_flags, `rollback:${snapshotId}`);
       
       // Log rollback
       await this.logRollback(snapshotId, 'manual');
@@ -145,13 +145,13 @@ export class RollbackManager {
     console.warn('[RollbackManager] EMERGENCY SHUTDOWN INITIATED');
     
     // Disable all experimental features
-    featureFlags.updateFlags({
+    await featureFlags.updateFlags({
       USE_NEW_EMBEDDINGS: false,
       NEW_EMBEDDINGS_PERCENTAGE: 0,
       USE_PARALLEL_RAG: false,
       ENABLE_GRADUAL_MIGRATION: false,
       MIGRATION_USER_PERCENTAGE: 0,
-    });
+    }, 'emergency_shutdown');
     
     // Log emergency action
     await this.logRollback('emergency', 'emergency_shutdown', {
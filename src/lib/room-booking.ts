@@ -0,0 +1,779 @@
+import crypto from 'crypto';
+import { calendar_v3, google } from 'googleapis';
+import { FacilityScheduleService, getFacilityScheduleService, timeToMinutes } from './facility-schedule';
+import { DEFAULT_CALENDAR_TIME_ZONE, msToWall, toZonedWallTime, wallToMs, zonedTimeToUtc } from './icalendar';
+import { localize, LocalizedText } from './localized-text';
+import { getRoom, Room, RoomFloor, ROOMS } from './rooms';
+import { resolveCalendarWindow } from '../mastra/tools/calendar-service';
+import type { SupportedLanguage } from '../mastra/types/config';
+import { promptLanguageOf } from './languages';
+
+/**
+ * Room availability and provisional reservations. Bookings live behind a
+ * BookingAdapter (one Google Calendar per room in production); the service
+ * applies the room rules and the building's opening hours from
+ * facility-schedule.ts, and reservations made at the kiosk stay provisional
+ * until staff confirm them in /admin/room-bookings.
+ */
+
+export type RoomBookingStatus = 'provisional' | 'confirmed' | 'cancelled';
+
+export const ROOM_BOOKING_STATUSES: RoomBookingStatus[] = ['provisional', 'confirmed', 'cancelled'];
+
+export interface RoomBooking {
+  id: string;
+  roomId: string;
+  start: string;
+  end: string;
+  status: RoomBookingStatus;
+  /** Unknown for bookings made outside the kiosk */
+  partySize: number | null;
+  /** Number the visitor gives at reception; null for bookings made elsewhere */
+  reference: string | null;
+  visitorId: string | null;
+  sessionId: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export type NewRoomBooking = Pick<
+  RoomBooking,
+  'roomId' | 'start' | 'end' | 'partySize' | 'reference' | 'visitorId' | 'sessionId'
+>;
+
+export interface RoomBookingFilters {
+  roomId?: string;
+  status?: RoomBookingStatus;
+  /** Bookings overlapping [from, to) */
+  from: Date;
+  to: Date;
+}
+
+export interface BookingAdapter {
+  /** Whether the room's bookings can be looked up at all */
+  hasRoom(roomId: string): boolean;
+  list(filters: RoomBookingFilters): Promise<RoomBooking[]>;
+  get(id: string): Promise<RoomBooking | null>;
+  create(booking: NewRoomBooking): Promise<RoomBooking>;
+  updateStatus(id: string, status: RoomBookingStatus, decidedBy: string): Promise<RoomBooking | null>;
+}
+
+/** Bad input, an unknown booking or a taken slot; API routes map this to 400, 404, 409 or 503 */
+export class RoomBookingError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'RoomBookingError';
+  }
+}
+
+export type RoomUnavailableReason =
+  | 'booked'
+  | 'not-bookable'
+  | 'capacity'
+  | 'min-party'
+  | 'same-day'
+  | 'too-long'
+  | 'no-calendar';
+
+/** Why nothing can be booked at the requested time */
+export type FacilityBlock = 'closed' | 'outside-hours' | 'past';
+
+export interface RoomStatus {
+  room: Room;
+  available: boolean;
+  reason?: RoomUnavailableReason;
+}
+
+export interface RoomAvailability {
+  start: string;
+  end: string;
+  partySize: number | null;
+  blockedBy: FacilityBlock | null;
+  /** Why the facility is closed that day, from its schedule */
+  closure: LocalizedText | null;
+  rooms: RoomStatus[];
+}
+
+export interface RoomAvailabilityRequest {
+  start: Date;
+  durationMinutes?: number;
+  partySize?: number | null;
+  roomId?: string | null;
+  floor?: RoomFloor | null;
+}
+
+export interface RoomReservationRequest {
+  roomId: string;
+  start: Date;
+  durationMinutes?: number;
+  partySize: number;
+  visitorId?: string | null;
+  sessionId?: string | null;
+}
+
+export const DEFAULT_BOOKING_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Room calendars from ROOM_CALENDAR_IDS, comma-separated roomId=calendarId
+ * pairs (e.g. 2f-meeting-room-1=abc@group.calendar.google.com)
+ */
+export function getRoomCalendarIds(): Record<string, string> {
+  const ids: Record<string, string> = {};
+  for (const entry of (process.env.ROOM_CALENDAR_IDS || '').split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const roomId = entry.slice(0, separator).trim();
+    const calendarId = entry.slice(separator + 1).trim();
+    if (calendarId && getRoom(roomId)) {
+      ids[roomId] = calendarId;
+    }
+  }
+  return ids;
+}
+
+function generateReference(): string {
+  return String(crypto.randomInt(1000, 10000));
+}
+
+function overlaps(booking: RoomBooking, from: Date, to: Date): boolean {
+  return new Date(booking.start) < to && new Date(booking.end) > from;
+}
+
+/** Private extended properties written on events the kiosk creates */
+type BookingProperties = Record<string, string>;
+
+/**
+ * One Google Calendar per room. Events staff add by hand count as confirmed
+ * bookings; kiosk reservations are tentative events carrying their details
+ * in private extended properties, and cancelling one cancels the event.
+ * Authenticates with the service account in GOOGLE_ROOM_BOOKING_CREDENTIALS,
+ * which needs write access to each room calendar.
+ */
+export class GoogleCalendarBookingAdapter implements BookingAdapter {
+  private calendar: calendar_v3.Calendar | null = null;
+
+  constructor(
+    private calendarIds: Record<string, string> = getRoomCalendarIds(),
+    private timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+  ) {}
+
+  hasRoom(roomId: string): boolean {
+    return !!this.calendarIds[roomId];
+  }
+
+  async list(filters: RoomBookingFilters): Promise<RoomBooking[]> {
+    const roomIds = Object.keys(this.calendarIds).filter(roomId => !filters.roomId || roomId === filters.roomId);
+    const bookings: RoomBooking[] = [];
+
+    for (const roomId of roomIds) {
+      const response = await this.getCalendar().events.list({
+        calendarId: this.calendarIds[roomId],
+        timeMin: filters.from.toISOString(),
+        timeMax: filters.to.toISOString(),
+        singleEvents: true,
+        orderBy: 'startTime',
+        maxResults: 250,
+      });
+      for (const event of response.data.items || []) {
+        const booking = this.toBooking(roomId, event);
+        if (booking && (!filters.status || booking.status === filters.status)) {
+          bookings.push(booking);
+        }
+      }
+    }
+
+    return bookings.sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  async get(id: string): Promise<RoomBooking | null> {
+    const target = this.parseId(id);
+    const event = target ? await this.fetchEvent(target) : null;
+    return target && event ? this.toBooking(target.roomId, event) : null;
+  }
+
+  async create(booking: NewRoomBooking): Promise<RoomBooking> {
+    const calendarId = this.calendarIds[booking.roomId];
+    if (!calendarId) {
+      throw new RoomBookingError(`No calendar configured for room ${booking.roomId}`, 503);
+    }
+
+    const properties: BookingProperties = {
+      engineerCafeBooking: 'true',
+      bookingStatus: 'provisional',
+      partySize: String(booking.partySize ?? ''),
+      reference: booking.reference || '',
+      visitorId: booking.visitorId || '',
+      sessionId: booking.sessionId || '',
+    };
+    const response = await this.getCalendar().events.insert({
+      calendarId,
+      requestBody: {
+        summary: this.summary('provisional', properties),
+        description: 'Provisional reservation from the kiosk. Confirm or cancel it in /admin/room-bookings.',
+        start: { dateTime: booking.start, timeZone: this.timeZone },
+        end: { dateTime: booking.end, timeZone: this.timeZone },
+        status: 'tentative',
+        extendedProperties: { private: properties },
+      },
+    });
+
+    const created = this.toBooking(booking.roomId, response.data);
+    if (!created) {
+      throw new Error('Google Calendar returned an unusable event');
+    }
+    return created;
+  }
+
+  async updateStatus(id: string, status: RoomBookingStatus, decidedBy: string): Promise<RoomBooking | null> {
+    const target = this.parseId(id);
+    const current = target ? await this.fetchEvent(target) : null;
+    if (!target || !current) return null;
+
+    const properties: BookingProperties = {
+      ...(current.extendedProperties?.private || {}),
+      bookingStatus: status,
+      decidedBy,
+      decidedAt: new Date().toISOString(),
+    };
+    const response = await this.getCalendar().events.patch({
+      calendarId: target.calendarId,
+      eventId: target.eventId,
+      requestBody: {
+        summary: this.summary(status, properties),
+        status: status === 'provisional' ? 'tentative' : status,
+        extendedProperties: { private: properties },
+      },
+    });
+
+    return this.toBooking(target.roomId, response.data);
+  }
+
+  private getCalendar(): calendar_v3.Calendar {
+    if (!this.calendar) {
+      const credentials = process.env.GOOGLE_ROOM_BOOKING_CREDENTIALS;
+      if (!credentials) {
+        throw new RoomBookingError('Room booking calendar credentials are not configured', 503);
+      }
+      const auth = new google.auth.GoogleAuth({
+        credentials: JSON.parse(credentials),
+        scopes: ['https://www.googleapis.com/auth/calendar.events'],
+      });
+      this.calendar = google.calendar({ version: 'v3', auth });
+    }
+    return this.calendar;
+  }
+
+  private async fetchEvent(target: { calendarId: string; eventId: string }): Promise<calendar_v3.Schema$Event | null> {
+    try {
+      const response = await this.getCalendar().events.get({ calendarId: target.calendarId, eventId: target.eventId });
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 404) return null;
+      throw error;
+    }
+  }
+
+  private summary(status: RoomBookingStatus, properties: BookingProperties): string {
+    const party = properties.partySize ? `（${properties.partySize}名）` : '';
+    const label = status === 'provisional' ? '仮予約' : status === 'cancelled' ? '取消' : '予約';
+    return `${label} #${properties.reference || '----'}${party}`;
+  }
+
+  /** Booking ids are roomId:eventId so a booking can be found without searching every calendar */
+  private parseId(id: string): { roomId: string; calendarId: string; eventId: string } | null {
+    const separator = id.indexOf(':');
+    if (separator <= 0) return null;
+    const roomId = id.slice(0, separator);
+    const calendarId = this.calendarIds[roomId];
+    return calendarId ? { roomId, calendarId, eventId: id.slice(separator + 1) } : null;
+  }
+
+  private toInstant(time: calendar_v3.Schema$EventDateTime | undefined): string | null {
+    if (time?.dateTime) return new Date(time.dateTime).toISOString();
+    const date = time?.date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!date) return null;
+    // All-day events block the whole day
+    const wall = { year: +date[1], month: +date[2], day: +date[3], hour: 0, minute: 0, second: 0 };
+    return zonedTimeToUtc(wall, this.timeZone).toISOString();
+  }
+
+  private toBooking(roomId: string, event: calendar_v3.Schema$Event): RoomBooking | null {
+    const start = this.toInstant(event.start);
+    const end = this.toInstant(event.end);
+    if (!event.id || !start || !end) return null;
+
+    const properties: BookingProperties = event.extendedProperties?.private || {};
+    const ours = properties.engineerCafeBooking === 'true';
+    const status: RoomBookingStatus = event.status === 'cancelled'
+      ? 'cancelled'
+      : ours && properties.bookingStatus === 'provisional' ? 'provisional' : 'confirmed';
+
+    return {
+      id: `${roomId}:${event.id}`,
+      roomId,
+      start,
+      end,
+      status,
+      partySize: ours && properties.partySize ? parseInt(properties.partySize, 10) : null,
+      reference: ours && properties.reference ? properties.reference : null,
+      visitorId: properties.visitorId || null,
+      sessionId: properties.sessionId || null,
+      decidedBy: properties.decidedBy || null,
+      decidedAt: properties.decidedAt || null,
+      createdAt: event.created || start,
+    };
+  }
+}
+
+/** Process-local bookings for tests; pass roomIds to leave the others without a calendar */
+export class InMemoryBookingAdapter implements BookingAdapter {
+  bookings: RoomBooking[] = [];
+
+  constructor(private roomIds?: string[]) {}
+
+  hasRoom(roomId: string): boolean {
+    return !this.roomIds || this.roomIds.includes(roomId);
+  }
+
+  async list(filters: RoomBookingFilters): Promise<RoomBooking[]> {
+    return this.bookings
+      .filter(booking => (!filters.roomId || booking.roomId === filters.roomId)
+        && (!filters.status || booking.status === filters.status)
+        && overlaps(booking, filters.from, filters.to))
+      .sort((a, b) => a.start.localeCompare(b.start))
+      .map(booking => ({ ...booking }));
+  }
+
+  async get(id: string): Promise<RoomBooking | null> {
+    const found = this.bookings.find(booking => booking.id === id);
+    return found ? { ...found } : null;
+  }
+
+  async create(booking: NewRoomBooking): Promise<RoomBooking> {
+    const created: RoomBooking = {
+      ...booking,
+      id: `booking-${this.bookings.length + 1}`,
+      status: 'provisional',
+      decidedBy: null,
+      decidedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.bookings.push(created);
+    return { ...created };
+  }
+
+  async updateStatus(id: string, status: RoomBookingStatus, decidedBy: string): Promise<RoomBooking | null> {
+    const found = this.bookings.find(booking => booking.id === id);
+    if (!found) return null;
+    found.status = status;
+    found.decidedBy = decidedBy;
+    found.decidedAt = new Date().toISOString();
+    return { ...found };
+  }
+}
+
+export interface RoomBookingServiceOptions {
+  timeZone?: string;
+  now?: () => Date;
+  /** Opening hours and closures of the building the rooms are in */
+  schedule?: FacilityScheduleService;
+}
+
+/** The rooms follow the building's schedule */
+const ROOM_FACILITY_ID = 'engineer-cafe';
+
+export class RoomBookingService {
+  private readonly timeZone: string;
+  private readonly now: () => Date;
+  private readonly schedule: FacilityScheduleService;
+
+  constructor(private adapter: BookingAdapter, options: RoomBookingServiceOptions = {}) {
+    this.timeZone = options.timeZone || DEFAULT_CALENDAR_TIME_ZONE;
+    this.now = options.now || (() => new Date());
+    this.schedule = options.schedule || getFacilityScheduleService();
+  }
+
+  /**
+   * Which rooms are free for the whole period. Rooms that cannot take the
+   * party or the booking say why; nothing is free when the facility is
+   * closed, the period runs outside opening hours or has already started.
+   */
+  async checkAvailability(request: RoomAvailabilityRequest): Promise<RoomAvailability> {
+    const durationMinutes = request.durationMinutes || DEFAULT_BOOKING_MINUTES;
+    const partySize = request.partySize ?? null;
+    if (isNaN(request.start.getTime()) || durationMinutes <= 0 || (partySize !== null && partySize < 1)) {
+      throw new RoomBookingError('start, durationMinutes and partySize must be valid');
+    }
+
+    const start = request.start;
+    const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+    const rooms = ROOMS.filter(room => (!request.roomId || room.id === request.roomId)
+      && (!request.floor || room.floor === request.floor));
+    if (request.roomId && rooms.length === 0) {
+      throw new RoomBookingError(`Unknown room: ${request.roomId}`, 404);
+    }
+
+    const block = await this.facilityBlock(start, end);
+    const availability: RoomAvailability = {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      partySize,
+      blockedBy: block?.reason || null,
+      closure: block?.closure || null,
+      rooms: [],
+    };
+
+    const today = toZonedWallTime(this.now(), this.timeZone);
+    const startWall = toZonedWallTime(start, this.timeZone);
+    const sameDay = today.year === startWall.year && today.month === startWall.month && today.day === startWall.day;
+
+    const checked = rooms.filter(room => room.bookable && this.adapter.hasRoom(room.id));
+    const booked = new Set<string>();
+    if (!availability.blockedBy && checked.length > 0) {
+      const bookings = await this.adapter.list({ roomId: request.roomId || undefined, from: start, to: end });
+      bookings
+        .filter(booking => booking.status !== 'cancelled')
+        .forEach(booking => booked.add(booking.roomId));
+    }
+
+    for (const room of rooms) {
+      let reason: RoomUnavailableReason | undefined;
+      if (!room.bookable) reason = 'not-bookable';
+      else if (partySize !== null && partySize > room.capacity) reason = 'capacity';
+      else if (partySize !== null && partySize < room.minPartySize) reason = 'min-party';
+      else if (room.maxMinutes && durationMinutes > room.maxMinutes) reason = 'too-long';
+      else if (!room.sameDayBooking && sameDay) reason = 'same-day';
+      else if (!this.adapter.hasRoom(room.id)) reason = 'no-calendar';
+      else if (booked.has(room.id)) reason = 'booked';
+
+      availability.rooms.push(reason || availability.blockedBy
+        ? { room, available: false, ...(reason ? { reason } : {}) }
+        : { room, available: true });
+    }
+
+    return availability;
+  }
+
+  /**
+   * Hold a room until staff confirm it. Fails with 409 when the room is not
+   * free for the party at that time.
+   */
+  async reserve(request: RoomReservationRequest): Promise<RoomBooking> {
+    if (!Number.isInteger(request.partySize) || request.partySize < 1) {
+      throw new RoomBookingError('partySize must be a positive integer');
+    }
+
+    const availability = await this.checkAvailability({ ...request, floor: null });
+    if (availability.blockedBy) {
+      throw new RoomBookingError(`The facility is not available at that time (${availability.blockedBy})`, 409);
+    }
+    const status = availability.rooms[0];
+    if (!status.available) {
+      throw new RoomBookingError(`${status.room.id} cannot be reserved (${status.reason})`, 409);
+    }
+
+    return this.adapter.create({
+      roomId: request.roomId,
+      start: availability.start,
+      end: availability.end,
+      partySize: request.partySize,
+      reference: generateReference(),
+      visitorId: request.visitorId || null,
+      sessionId: request.sessionId || null,
+    });
+  }
+
+  /** Bookings from a day ago to 60 days ahead unless a period is given */
+  async list(filters: Partial<RoomBookingFilters> = {}): Promise<RoomBooking[]> {
+    const now = this.now().getTime();
+    return this.adapter.list({
+      ...filters,
+      from: filters.from || new Date(now - DAY_MS),
+      to: filters.to || new Date(now + 60 * DAY_MS),
+    });
+  }
+
+  async confirm(id: string, decidedBy: string): Promise<RoomBooking> {
+    return this.decide(id, 'confirmed', decidedBy);
+  }
+
+  async cancel(id: string, decidedBy: string): Promise<RoomBooking> {
+    return this.decide(id, 'cancelled', decidedBy);
+  }
+
+  private async decide(id: string, status: RoomBookingStatus, decidedBy: string): Promise<RoomBooking> {
+    const booking = await this.adapter.get(id);
+    if (!booking) {
+      throw new RoomBookingError('Booking not found', 404);
+    }
+    if (booking.status !== 'provisional') {
+      throw new RoomBookingError(`Booking is already ${booking.status}`, 409);
+    }
+
+    const updated = await this.adapter.updateStatus(id, status, decidedBy);
+    if (!updated) {
+      throw new RoomBookingError('Booking not found', 404);
+    }
+    return updated;
+  }
+
+  private async facilityBlock(start: Date, end: Date): Promise<{ reason: FacilityBlock; closure?: LocalizedText } | null> {
+    if (start.getTime() < this.now().getTime() - 5 * MINUTE_MS) {
+      return { reason: 'past' };
+    }
+
+    const day = await this.schedule.getDay(ROOM_FACILITY_ID, this.schedule.dateOf(start));
+    if (!day.open) {
+      return { reason: 'closed', ...(day.reason ? { closure: day.reason } : {}) };
+    }
+
+    // The whole booking has to fit in one opening period
+    const startWall = toZonedWallTime(start, this.timeZone);
+    const midnight = wallToMs({ ...startWall, hour: 0, minute: 0, second: 0 });
+    const startMinutes = startWall.hour * 60 + startWall.minute;
+    const endMinutes = (wallToMs(toZonedWallTime(end, this.timeZone)) - midnight) / MINUTE_MS;
+    const fits = day.hours.some(range => timeToMinutes(range.opens) <= startMinutes && endMinutes <= timeToMinutes(range.closes));
+    return fits ? null : { reason: 'outside-hours' };
+  }
+}
+
+/** What a room question asks for, read from the visitor's words */
+export interface RoomRequest {
+  start: Date;
+  durationMinutes: number;
+  partySize: number | null;
+  floor: RoomFloor | null;
+  roomId: string | null;
+  /** Whether the question named a time; otherwise start is now or the day's opening */
+  timeGiven: boolean;
+}
+
+/** Engineer Cafe opens at 9:00, so a bare "3時" / "at 3" means the afternoon */
+const OPENING_MINUTES = 9 * 60;
+
+const KANJI_NUMBERS: Record<string, number> = {
+  '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9, '十': 10,
+};
+
+function parseTimeOfDay(text: string): { hour: number; minute: number } | null {
+  const clock = text.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/);
+  const english = text.match(/(\d{1,2})\s*(am|pm)\b/) || text.match(/\bat (\d{1,2})\b(?!\s*(?:people|persons?|人|名))/);
+  const japanese = text.match(/(午前|午後)?\s*(\d{1,2})\s*時(?!間)\s*(半|(\d{1,2})\s*分)?/);
+
+  let hour: number;
+  let minute = 0;
+  let marker: string | undefined;
+  if (clock) {
+    hour = parseInt(clock[1], 10);
+    minute = parseInt(clock[2], 10);
+    marker = clock[3];
+  } else if (japanese) {
+    hour = parseInt(japanese[2], 10);
+    minute = japanese[3] === '半' ? 30 : japanese[4] ? parseInt(japanese[4], 10) : 0;
+    marker = japanese[1] === '午後' ? 'pm' : japanese[1] === '午前' ? 'am' : undefined;
+  } else if (english) {
+    hour = parseInt(english[1], 10);
+    marker = english[2];
+  } else {
+    return null;
+  }
+
+  if (marker === 'pm' && hour < 12) hour += 12;
+  else if (marker === 'am' && hour === 12) hour = 0;
+  else if (!marker && hour * 60 < OPENING_MINUTES) hour += 12;
+
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+function parsePartySize(text: string): number | null {
+  const match = text.match(/(\d+|[一二三四五六七八九十])\s*(?:人|名)/)
+    || text.match(/(\d+)\s*(?:people|persons?|of us)\b/)
+    || text.match(/\bfor (\d+)\b(?!\s*(?:hours?|hrs?|h|minutes?|mins?|am|pm|:|時))/);
+  if (match) {
+    return KANJI_NUMBERS[match[1]] || parseInt(match[1], 10);
+  }
+  if (/ふたり/.test(text)) return 2;
+  if (/ひとり/.test(text)) return 1;
+  return null;
+}
+
+function parseDuration(text: string): number | null {
+  const japanese = text.match(/(\d+(?:\.\d+)?)\s*時間(半)?/);
+  if (japanese) return Math.round(parseFloat(japanese[1]) * 60) + (japanese[2] ? 30 : 0);
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?)\b/);
+  if (hours) return Math.round(parseFloat(hours[1]) * 60);
+  const minutes = text.match(/(\d+)\s*(?:分間|minutes?|mins?)\b/);
+  return minutes ? parseInt(minutes[1], 10) : null;
+}
+
+/**
+ * Read the day, time, party size, length, floor and room from a question
+ * such as "is a room free at 3pm for 4 people" or 明日15時から2時間4人で.
+ * Without a day the time is today, or tomorrow once it has passed.
+ */
+export function parseRoomRequest(
+  question: string,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+): RoomRequest {
+  const text = question.normalize('NFKC').toLowerCase();
+  const window = resolveCalendarWindow(text, now, timeZone);
+  const time = parseTimeOfDay(text);
+
+  let start: Date;
+  if (time) {
+    const day = toZonedWallTime(window?.start || now, timeZone);
+    start = zonedTimeToUtc({ ...day, hour: time.hour, minute: time.minute, second: 0 }, timeZone);
+    if (!window && start < now) {
+      start = zonedTimeToUtc(msToWall(wallToMs({ ...day, hour: time.hour, minute: time.minute, second: 0 }) + DAY_MS), timeZone);
+    }
+  } else {
+    const from = window && window.start > now ? window.start : now;
+    const wall = toZonedWallTime(from, timeZone);
+    start = wall.hour * 60 + wall.minute < OPENING_MINUTES
+      ? zonedTimeToUtc({ ...wall, hour: OPENING_MINUTES / 60, minute: 0, second: 0 }, timeZone)
+      : new Date(Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS);
+  }
+
+  const room = ROOMS.find(candidate => [...candidate.aliases, ...Object.values(candidate.name)]
+    .some(alias => alias && text.includes(alias.normalize('NFKC').toLowerCase())));
+  const floor: RoomFloor | null = room
+    ? room.floor
+    : /2階|二階|2f\b|2nd floor|second floor/.test(text) ? '2F'
+    : /地下|basement|\bb1\b/.test(text) ? 'B1'
+    : null;
+
+  return {
+    start,
+    durationMinutes: parseDuration(text) || DEFAULT_BOOKING_MINUTES,
+    partySize: parsePartySize(text),
+    floor,
+    roomId: room?.id || null,
+    timeGiven: !!time,
+  };
+}
+
+const REASON_TEXT: Record<RoomUnavailableReason | FacilityBlock, { ja: string; en: string }> = {
+  'booked': { ja: 'その時間は予約が入っています', en: 'already booked at that time' },
+  'not-bookable': { ja: '予約不可（先着順）です', en: 'first come, first served (no reservations)' },
+  'capacity': { ja: '定員を超えています', en: 'too small for the group' },
+  'min-party': { ja: '人数が足りません', en: 'needs a larger group' },
+  'same-day': { ja: '当日予約はできません', en: 'cannot be booked on the same day' },
+  'too-long': { ja: '一度に予約できる時間を超えています', en: 'longer than a single booking allows' },
+  'no-calendar': { ja: '空き状況をお調べできません（受付でご確認ください）', en: 'availability unknown here; please ask at reception' },
+  'closed': { ja: '休館日です', en: 'closed that day' },
+  'outside-hours': { ja: '営業時間外です', en: 'outside opening hours' },
+  'past': { ja: 'すでに過ぎた時間です', en: 'already in the past' },
+};
+
+function reasonText(
+  reason: RoomUnavailableReason | FacilityBlock,
+  language: SupportedLanguage,
+  closure: LocalizedText | null = null
+): string {
+  if (reason === 'closed' && closure) {
+    return promptLanguageOf(language) === 'en' ? `closed (${localize(closure, language)})` : `休館日（${localize(closure, language)}）です`;
+  }
+  return promptLanguageOf(language) === 'en' ? REASON_TEXT[reason].en : REASON_TEXT[reason].ja;
+}
+
+function formatPeriod(availability: Pick<RoomAvailability, 'start' | 'end'>, language: SupportedLanguage, timeZone: string): string {
+  const locale = promptLanguageOf(language) === 'en' ? 'en-US' : 'ja-JP';
+  const start = new Date(availability.start).toLocaleString(locale, {
+    timeZone, month: 'long', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit',
+  });
+  const end = new Date(availability.end).toLocaleTimeString(locale, { timeZone, hour: '2-digit', minute: '2-digit' });
+  return promptLanguageOf(language) === 'en' ? `${start} - ${end}` : `${start}〜${end}`;
+}
+
+/**
+ * Availability as context for the LLM: the period asked about, then each
+ * room with its capacity, equipment and rules and whether it is free
+ */
+export function formatRoomAvailabilityForAI(
+  availability: RoomAvailability,
+  language: SupportedLanguage,
+  timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+): string {
+  const period = formatPeriod(availability, language, timeZone);
+  const party = availability.partySize
+    ? (promptLanguageOf(language) === 'en' ? ` for ${availability.partySize} people` : `、${availability.partySize}名`)
+    : '';
+  const lines = [promptLanguageOf(language) === 'en' ? `Room availability ${period}${party}:` : `${period}${party}の部屋の空き状況:`];
+
+  if (availability.blockedBy) {
+    lines.push(promptLanguageOf(language) === 'en'
+      ? `No room can be used: ${reasonText(availability.blockedBy, language, availability.closure)}.`
+      : `この時間はどの部屋も利用できません: ${reasonText(availability.blockedBy, language, availability.closure)}。`);
+  }
+
+  for (const { room, available, reason } of availability.rooms) {
+    const equipment = room.equipment.map(item => localize(item, language)).join(promptLanguageOf(language) === 'en' ? ', ' : '・');
+    const rules = room.rules.map(rule => localize(rule, language)).join(promptLanguageOf(language) === 'en' ? '; ' : '。');
+    const state = available
+      ? (promptLanguageOf(language) === 'en' ? 'free' : '空いています')
+      : reason ? reasonText(reason, language) : (promptLanguageOf(language) === 'en' ? 'unavailable' : '利用できません');
+    lines.push(promptLanguageOf(language) === 'en'
+      ? `- ${localize(room.name, language)} (up to ${room.capacity} people; ${equipment}; ${rules}): ${state}`
+      : `- ${localize(room.name, language)}（定員${room.capacity}名、${equipment}。${rules}）: ${state}`);
+  }
+
+  if (availability.rooms.some(status => status.available)) {
+    lines.push(promptLanguageOf(language) === 'en'
+      ? 'A free room can be provisionally reserved here; reception staff then confirm it.'
+      : '空いている部屋はここで仮予約でき、受付スタッフが確認して確定します。');
+  }
+  return lines.join('\n');
+}
+
+/** What the avatar says after a provisional reservation */
+export function roomReservationMessage(
+  booking: RoomBooking,
+  language: SupportedLanguage,
+  timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+): string {
+  const room = getRoom(booking.roomId);
+  const name = room ? localize(room.name, language) : booking.roomId;
+  const period = formatPeriod(booking, language, timeZone);
+  return promptLanguageOf(language) === 'en'
+    ? `[happy]I've provisionally reserved ${name} for ${period}. Your reservation number is ${booking.reference}; reception staff will confirm it.[/happy]`
+    : `[happy]${name}を${period}で仮予約しました。予約番号は${booking.reference}です。受付スタッフが確認して確定します。[/happy]`;
+}
+
+/** Why a reservation could not be made, naming the room when there was one */
+export function roomUnavailableMessage(
+  availability: RoomAvailability,
+  roomId: string | null,
+  language: SupportedLanguage
+): string {
+  const status = roomId ? availability.rooms.find(candidate => candidate.room.id === roomId) : undefined;
+  const reason = availability.blockedBy || status?.reason;
+  const text = reason ? reasonText(reason, language, availability.closure) : '';
+  if (status && reason) {
+    const name = localize(status.room.name, language);
+    return promptLanguageOf(language) === 'en'
+      ? `[sad]Sorry, ${name} can't be reserved then: ${text}.[/sad]`
+      : `[sad]申し訳ありません、${name}はその時間ご予約できません。${text}。[/sad]`;
+  }
+  if (reason) {
+    return promptLanguageOf(language) === 'en'
+      ? `[sad]Sorry, no room can be reserved then: ${text}.[/sad]`
+      : `[sad]申し訳ありません、その時間はご予約できません。${text}。[/sad]`;
+  }
+  return promptLanguageOf(language) === 'en'
+    ? '[sad]Sorry, no room is free for that time and group size.[/sad]'
+    : '[sad]申し訳ありません、その時間と人数で空いている部屋はありません。[/sad]';
+}
+
+let service: RoomBookingService | null = null;
+
+export function getRoomBookingService(): RoomBookingService {
+  if (!service) {
+    service = new RoomBookingService(new GoogleCalendarBookingAdapter());
+  }
+  return service;
+}
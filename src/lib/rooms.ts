@@ -0,0 +1,161 @@
+import type { LocalizedText } from './localized-text';
+
+/**
+ * The rooms visitors ask about: the paid 2F meeting rooms managed by the city
+ * and the free B1 spaces that are part of Engineer Cafe
+ */
+
+export type RoomFloor = '2F' | 'B1';
+
+export interface Room {
+  id: string;
+  name: LocalizedText;
+  floor: RoomFloor;
+  /** Most people the room holds */
+  capacity: number;
+  /** Fewest people the room can be booked for */
+  minPartySize: number;
+  equipment: LocalizedText[];
+  rules: LocalizedText[];
+  /** Rooms that are first come, first served cannot be reserved */
+  bookable: boolean;
+  paid: boolean;
+  /** Longest single booking, when limited */
+  maxMinutes?: number;
+  /** Whether a booking may start on the day it is made */
+  sameDayBooking: boolean;
+  /** Extra words visitors use for the room, matched after NFKC + lowercase */
+  aliases: string[];
+}
+
+export const ROOMS: Room[] = [
+  {
+    id: '2f-meeting-room-1',
+    name: { ja: '2階 会議室1', en: '2F Meeting Room 1' },
+    floor: '2F',
+    capacity: 20,
+    minPartySize: 1,
+    equipment: [
+      { ja: 'プロジェクター', en: 'projector' },
+      { ja: 'ホワイトボード', en: 'whiteboard' },
+      { ja: 'Web会議システム', en: 'video conferencing' },
+    ],
+    rules: [
+      { ja: '福岡市が管理する有料の会議室です（会員1時間1,000円、非会員1時間2,000円）', en: 'Paid room managed by Fukuoka City (¥1,000/hour for members, ¥2,000/hour otherwise)' },
+    ],
+    bookable: true,
+    paid: true,
+    sameDayBooking: true,
+    aliases: ['会議室1', 'room 1', 'meeting room 1'],
+  },
+  {
+    id: '2f-meeting-room-2',
+    name: { ja: '2階 会議室2', en: '2F Meeting Room 2' },
+    floor: '2F',
+    capacity: 12,
+    minPartySize: 1,
+    equipment: [
+      { ja: 'プロジェクター', en: 'projector' },
+      { ja: 'ホワイトボード', en: 'whiteboard' },
+      { ja: 'Web会議システム', en: 'video conferencing' },
+    ],
+    rules: [
+      { ja: '福岡市が管理する有料の会議室です（会員1時間1,000円、非会員1時間2,000円）', en: 'Paid room managed by Fukuoka City (¥1,000/hour for members, ¥2,000/hour otherwise)' },
+    ],
+    bookable: true,
+    paid: true,
+    sameDayBooking: true,
+    aliases: ['会議室2', 'room 2', 'meeting room 2'],
+  },
+  {
+    id: '2f-meeting-room-3',
+    name: { ja: '2階 会議室3', en: '2F Meeting Room 3' },
+    floor: '2F',
+    capacity: 8,
+    minPartySize: 1,
+    equipment: [
+      { ja: 'モニター', en: 'monitor' },
+      { ja: 'ホワイトボード', en: 'whiteboard' },
+      { ja: 'Web会議システム', en: 'video conferencing' },
+    ],
+    rules: [
+      { ja: '福岡市が管理する有料の会議室です（会員1時間1,000円、非会員1時間2,000円）', en: 'Paid room managed by Fukuoka City (¥1,000/hour for members, ¥2,000/hour otherwise)' },
+    ],
+    bookable: true,
+    paid: true,
+    sameDayBooking: true,
+    aliases: ['会議室3', 'room 3', 'meeting room 3'],
+  },
+  {
+    id: 'b1-mtg-space',
+    name: { ja: '地下 MTGスペース', en: 'B1 MTG Space' },
+    floor: 'B1',
+    capacity: 8,
+    minPartySize: 2,
+    equipment: [
+      { ja: 'モニター', en: 'monitor' },
+      { ja: 'ホワイトボード', en: 'whiteboard' },
+    ],
+    rules: [
+      { ja: '2名以上で利用できます', en: 'For groups of two or more' },
+      { ja: '2時間区切りで、当日予約はできません', en: 'Booked in blocks of up to 2 hours, not on the same day' },
+    ],
+    bookable: true,
+    paid: false,
+    maxMinutes: 120,
+    sameDayBooking: false,
+    aliases: ['mtgスペース', 'mtg space', 'ミーティングスペース', 'meeting space'],
+  },
+  {
+    id: 'b1-makers-space',
+    name: { ja: '地下 Makersスペース', en: 'B1 Makers Space' },
+    floor: 'B1',
+    capacity: 6,
+    minPartySize: 1,
+    equipment: [
+      { ja: '3Dプリンタ', en: '3D printers' },
+      { ja: 'レーザーカッター', en: 'laser cutter' },
+    ],
+    rules: [
+      { ja: '初めての方はホームページから初回講習を申し込んでください', en: 'First-time users must take the introductory training, booked on the website' },
+      { ja: '当日予約はできません', en: 'No same-day bookings' },
+    ],
+    bookable: true,
+    paid: false,
+    sameDayBooking: false,
+    aliases: ['makers', 'メイカーズ', 'メイカースペース', 'ものづくり'],
+  },
+  {
+    id: 'b1-focus-space',
+    name: { ja: '地下 集中スペース', en: 'B1 Focus Space' },
+    floor: 'B1',
+    capacity: 6,
+    minPartySize: 1,
+    equipment: [{ ja: '個人ブース6席', en: 'six individual booths' }],
+    rules: [{ ja: '予約不可、おしゃべり禁止の集中作業エリアです', en: 'No reservations; a quiet area with no talking' }],
+    bookable: false,
+    paid: false,
+    sameDayBooking: true,
+    aliases: ['集中スペース', 'focus space', 'ブース'],
+  },
+  {
+    id: 'b1-under-space',
+    name: { ja: '地下 アンダースペース', en: 'B1 Under Space' },
+    floor: 'B1',
+    capacity: 20,
+    minPartySize: 1,
+    equipment: [
+      { ja: '拡張モニター', en: 'extra monitors' },
+      { ja: '防音室1室', en: 'one soundproof booth' },
+    ],
+    rules: [{ ja: '予約不可、1階と同じフリーアドレスです', en: 'No reservations; free seating like the 1st floor' }],
+    bookable: false,
+    paid: false,
+    sameDayBooking: true,
+    aliases: ['アンダースペース', 'underスペース', 'under space'],
+  },
+];
+
+export function getRoom(id: string): Room | undefined {
+  return ROOMS.find(room => room.id === id);
+}
@@ -0,0 +1,17 @@
+/**
+ * Conversation session ids chosen by the visitor's device. They are UUIDs so
+ * the server can open the session's transcript under the same id (see
+ * ConversationManager.ensureSession), and unguessable so one visitor cannot
+ * address another's session.
+ */
+export function createSessionId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is missing outside secure contexts (kiosk on plain http)
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -1,6 +1,8 @@
 import { RAGSearchTool, KnowledgeSearchResult } from "@/mastra/tools/rag-search";
 import { supabaseAdmin } from "./supabase";
+import { TranscriptMessage, formatConversationSummary, summarizeMessages } from "./conversation-transcripts";
 import { getMostFrequentEmotion } from "./emotion-utils";
+import { promptLanguageOf, SupportedLanguage } from "./languages";
 
 /**
  * Simplified memory system using existing Supabase infrastructure
@@ -9,17 +11,237 @@ import { getMostFrequentEmotion } from "./emotion-utils";
 export interface MemoryConfig {
   ttlSeconds?: number;
   maxEntries?: number;
+  store?: ShortTermMemoryStore;
+}
+
+/**
+ * Identifies whose conversation a memory entry belongs to.
+ * Entries are only visible to callers presenting the same scope. Readers
+ * accept null for requests without a session, which have no history.
+ */
+export interface MemoryScope {
+  sessionId: string;
+  visitorId?: string;
+}
+
+export interface ShortTermMemoryEntry {
+  key: string;
+  value: any;
+}
+
+export interface ShortTermMemoryStore {
+  insert(agentName: string, key: string, value: any, expiresAt: string): Promise<void>;
+  /** Unexpired entries whose key starts with `keyPrefix`, oldest first */
+  listActive(agentName: string, keyPrefix: string): Promise<ShortTermMemoryEntry[]>;
+  deleteByPrefix(agentName: string, keyPrefix: string): Promise<void>;
+  deleteExpired(agentName: string): Promise<void>;
+  /** Add a timestamp to the index entry, keeping the newest `maxEntries` */
+  appendToIndex(agentName: string, indexKey: string, timestamp: number, maxEntries: number, expiresAt: string): Promise<void>;
+}
+
+/**
+ * Escape LIKE wildcards so session IDs containing '_' or '%' match literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * agent_memory table
+ */
+export class SupabaseShortTermMemoryStore implements ShortTermMemoryStore {
+  async insert(agentName: string, key: string, value: any, expiresAt: string): Promise<void> {
+    await supabaseAdmin
+      .from('agent_memory')
+      .insert({
+        agent_name: agentName,
+        key,
+        value,
+        expires_at: expiresAt,
+      });
+  }
+
+  async listActive(agentName: string, keyPrefix: string): Promise<ShortTermMemoryEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('agent_memory')
+      .select('*')
+      .eq('agent_name', agentName)
+      .like('key', `${escapeLikePattern(keyPrefix)}%`)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(item => ({ key: item.key, value: item.value }));
+  }
+
+  async deleteByPrefix(agentName: string, keyPrefix: string): Promise<void> {
+    await supabaseAdmin
+      .from('agent_memory')
+      .delete()
+      .eq('agent_name', agentName)
+      .like('key', `${escapeLikePattern(keyPrefix)}%`);
+  }
+
+  async deleteExpired(agentName: string): Promise<void> {
+    await supabaseAdmin
+      .from('agent_memory')
+      .delete()
+      .eq('agent_name', agentName)
+      .lt('expires_at', new Date().toISOString());
+  }
+
+  /**
+   * Update message index for efficient retrieval using atomic operations
+   */
+  async appendToIndex(agentName: string, indexKey: string, timestamp: number, maxEntries: number, expiresAt: string): Promise<void> {
+    try {
+      // Use a PostgreSQL function call for atomic array operations
+      const { error } = await supabaseAdmin.rpc('update_message_index_atomic', {
+        p_agent_name: agentName,
+        p_index_key: indexKey,
+        p_new_timestamp: timestamp,
+        p_max_entries: maxEntries,
+        p_expires_at: expiresAt
+      });
+
+      if (error) {
+        // Fallback to optimistic concurrency control if RPC function doesn't exist
+        console.warn('[SimplifiedMemory] RPC function not available, using fallback approach');
+        await this.appendToIndexFallback(agentName, indexKey, timestamp, maxEntries, expiresAt);
+      }
+    } catch (error) {
+      console.error('[SimplifiedMemory] Error updating message index:', error);
+      // Try fallback approach
+      try {
+        await this.appendToIndexFallback(agentName, indexKey, timestamp, maxEntries, expiresAt);
+      } catch (fallbackError) {
+        console.error('[SimplifiedMemory] Fallback also failed:', fallbackError);
+      }
+    }
+  }
+
+  /**
+   * Fallback method using optimistic concurrency control
+   */
+  private async appendToIndexFallback(agentName: string, indexKey: string, timestamp: number, maxEntries: number, expiresAt: string): Promise<void> {
+    const maxRetries = 3;
+    let retryCount = 0;
+
+    while (retryCount < maxRetries) {
+      try {
+        // Get current index with version info
+        const { data: currentData } = await supabaseAdmin
+          .from('agent_memory')
+          .select('value, created_at')
+          .eq('agent_name', agentName)
+          .eq('key', indexKey)
+          .single();
+
+        const currentIndex = currentData?.value?.timestamps || [];
+        const currentVersion = currentData?.created_at;
+
+        // Prepare updated index
+        const updatedIndex = [...currentIndex, timestamp]
+          .sort((a, b) => b - a) // Most recent first
+          .slice(0, maxEntries); // Keep only latest entries
+
+        if (currentData) {
+          // Update existing record with version check
+          const { error } = await supabaseAdmin
+            .from('agent_memory')
+            .update({
+              value: { timestamps: updatedIndex },
+              expires_at: expiresAt,
+              updated_at: new Date().toISOString()
+            })
+            .eq('agent_name', agentName)
+            .eq('key', indexKey)
+            .eq('created_at', currentVersion);
+
+          if (error) {
+            throw error;
+          }
+        } else {
+          // Insert new record
+          const { error } = await supabaseAdmin
+            .from('agent_memory')
+            .insert({
+              agent_name: agentName,
+              key: indexKey,
+              value: { timestamps: updatedIndex },
+              expires_at: expiresAt,
+            });
+
+          if (error) {
+            throw error;
+          }
+        }
+
+        // Success - exit retry loop
+        return;
+      } catch (error) {
+        retryCount++;
+        if (retryCount >= maxRetries) {
+          throw error;
+        }
+        // Exponential backoff with jitter
+        const delay = Math.random() * (50 * Math.pow(2, retryCount));
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+export class InMemoryShortTermMemoryStore implements ShortTermMemoryStore {
+  private entries: Array<ShortTermMemoryEntry & { agentName: string; expiresAt: string }> = [];
+
+  async insert(agentName: string, key: string, value: any, expiresAt: string): Promise<void> {
+    this.entries.push({ agentName, key, value, expiresAt });
+  }
+
+  async listActive(agentName: string, keyPrefix: string): Promise<ShortTermMemoryEntry[]> {
+    const now = new Date().toISOString();
+    return this.entries
+      .filter(entry => entry.agentName === agentName && entry.key.startsWith(keyPrefix) && entry.expiresAt > now)
+      .map(({ key, value }) => ({ key, value }));
+  }
+
+  async deleteByPrefix(agentName: string, keyPrefix: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.agentName !== agentName || !entry.key.startsWith(keyPrefix));
+  }
+
+  async deleteExpired(agentName: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.entries = this.entries.filter(entry => entry.agentName !== agentName || entry.expiresAt >= now);
+  }
+
+  async appendToIndex(agentName: string, indexKey: string, timestamp: number, maxEntries: number, expiresAt: string): Promise<void> {
+    const current = this.entries.find(entry => entry.agentName === agentName && entry.key === indexKey);
+    const timestamps = [...(current?.value.timestamps || []), timestamp]
+      .sort((a, b) => b - a)
+      .slice(0, maxEntries);
+    if (current) {
+      current.value = { timestamps };
+      current.expiresAt = expiresAt;
+    } else {
+      this.entries.push({ agentName, key: indexKey, value: { timestamps }, expiresAt });
+    }
+  }
 }
 
 export class SimplifiedMemorySystem {
   private ragTool: RAGSearchTool;
   private agentName: string;
+  private store: ShortTermMemoryStore;
   private readonly TTL_SECONDS: number;
   private readonly MAX_ENTRIES: number;
 
   constructor(agentName: string, config: MemoryConfig = {}) {
     this.agentName = agentName;
     this.ragTool = new RAGSearchTool();
+    this.store = config.store ?? new SupabaseShortTermMemoryStore();
     this.TTL_SECONDS = config.ttlSeconds ?? 180; // 3 minutes default
     this.MAX_ENTRIES = config.maxEntries ?? 100; // Increased from 30 to 100
   }
@@ -28,12 +250,12 @@ export class SimplifiedMemorySystem {
    * Store a conversation turn in short-term memory using existing agent_memory table
    */
   async addMessage(
+    scope: MemoryScope,
     role: 'user' | 'assistant',
     content: string,
     metadata?: {
       emotion?: string;
       confidence?: number;
-      sessionId?: string;
     }
   ): Promise<void> {
     try {
@@ -44,23 +266,18 @@ export class SimplifiedMemorySystem {
         timestamp,
         emotion: metadata?.emotion,
         confidence: metadata?.confidence,
-        sessionId: metadata?.sessionId,
+        sessionId: scope.sessionId,
+        visitorId: scope.visitorId,
       };
 
       // Store in agent_memory table with TTL
       const expiresAt = new Date(timestamp + this.TTL_SECONDS * 1000).toISOString();
       
-      await supabaseAdmin
-        .from('agent_memory')
-        .insert({
-          agent_name: this.agentName,
-          key: `message_${timestamp}`,
-          value: messageData,
-          expires_at: expiresAt,
-        });
+      const prefix = this.getScopePrefix(scope);
+      await this.store.insert(this.agentName, `${prefix}message_${timestamp}`, messageData, expiresAt);
 
       // Update message index for efficient retrieval
-      await this.updateMessageIndex(timestamp);
+      await this.store.appendToIndex(this.agentName, `${prefix}message_index`, timestamp, this.MAX_ENTRIES, expiresAt);
 
       console.log(`[SimplifiedMemory] Stored ${role} message with 3-minute TTL`);
     } catch (error) {
@@ -73,10 +290,11 @@ export class SimplifiedMemorySystem {
    * Get comprehensive context combining conversation history and knowledge base
    */
   async getContext(
+    scope: MemoryScope | null,
     userMessage: string,
     options?: {
       includeKnowledgeBase?: boolean;
-      language?: 'ja' | 'en';
+      language?: SupportedLanguage;
     }
   ): Promise<{
     recentMessages: Array<{ role: string; content: string; metadata?: any }>;
@@ -90,7 +308,7 @@ export class SimplifiedMemorySystem {
       } = options || {};
 
       // Get recent messages from agent_memory table (within 3-minute window)
-      const recentMessages = await this.getRecentMessages();
+      const recentMessages = await this.getRecentMessages(scope);
 
       // Search knowledge base using existing RAG system
       let knowledgeResults: KnowledgeSearchResult[] = [];
@@ -129,7 +347,7 @@ export class SimplifiedMemorySystem {
       return {
         recentMessages: [],
         knowledgeResults: [],
-        contextString: language === 'en' ? 'No conversation context available.' : '会話履歴がありません。',
+        contextString: promptLanguageOf(language) === 'en' ? 'No conversation context available.' : '会話履歴がありません。',
       };
     }
   }
@@ -137,9 +355,9 @@ export class SimplifiedMemorySystem {
   /**
    * Check if conversation is active (within 3-minute window)
    */
-  async isConversationActive(): Promise<boolean> {
+  async isConversationActive(scope: MemoryScope | null): Promise<boolean> {
     try {
-      const recentMessages = await this.getRecentMessages();
+      const recentMessages = await this.getRecentMessages(scope);
       return recentMessages.length > 0;
     } catch (error) {
       console.error('[SimplifiedMemory] Error checking conversation activity:', error);
@@ -150,47 +368,40 @@ export class SimplifiedMemorySystem {
   /**
    * Get conversation summary
    */
-  async getSessionSummary(language: 'ja' | 'en' = 'ja'): Promise<string> {
+  async getSessionSummary(scope: MemoryScope | null, language: SupportedLanguage = 'ja'): Promise<string> {
     try {
-      const recentMessages = await this.getRecentMessages();
-      const userMessages = recentMessages.filter(m => m.role === 'user').length;
-      const assistantMessages = recentMessages.filter(m => m.role === 'assistant').length;
-
-      if (userMessages === 0 && assistantMessages === 0) {
-        return language === 'en' 
+      const recentMessages = await this.getRecentMessages(scope);
+      const summary = summarizeMessages(recentMessages.map(m => ({
+        role: m.role as TranscriptMessage['role'],
+        content: m.content,
+        emotion: m.metadata?.emotion,
+      })));
+
+      if (summary.userMessages === 0 && summary.assistantMessages === 0) {
+        return promptLanguageOf(language) === 'en' 
           ? 'No active conversation.' 
           : 'アクティブな会話はありません。';
       }
 
-      // Extract dominant emotion from recent messages
-      const emotions = recentMessages
-        .map(m => m.metadata?.emotion)
-        .filter(Boolean) as string[];
-      
-      const dominantEmotion = getMostFrequentEmotion(emotions) || 'neutral';
-
-      if (language === 'en') {
-        return `Active conversation: ${userMessages} user messages, ${assistantMessages} responses. Mood: ${dominantEmotion}.`;
-      } else {
-        return `アクティブな会話: ユーザー${userMessages}回、応答${assistantMessages}回。雰囲気: ${dominantEmotion}。`;
-      }
+      return formatConversationSummary(summary, language, { active: true });
     } catch (error) {
       console.error('[SimplifiedMemory] Error getting session summary:', error);
-      return language === 'en' ? 'Error getting summary.' : 'サマリー取得エラー。';
+      return promptLanguageOf(language) === 'en' ? 'Error getting summary.' : 'サマリー取得エラー。';
     }
   }
 
   /**
    * Clean up expired entries automatically handled by Supabase TTL
+   * When a scope is given only that session's entries are removed, expired or not
    */
-  async cleanup(): Promise<void> {
+  async cleanup(scope?: MemoryScope): Promise<void> {
     try {
-      // Remove expired entries manually if needed
-      await supabaseAdmin
-        .from('agent_memory')
-        .delete()
-        .eq('agent_name', this.agentName)
-        .lt('expires_at', new Date().toISOString());
+      if (scope) {
+        await this.store.deleteByPrefix(this.agentName, this.getScopePrefix(scope));
+      } else {
+        // Remove expired entries manually if needed
+        await this.store.deleteExpired(this.agentName);
+      }
       
       console.log('[SimplifiedMemory] Cleanup completed');
     } catch (error) {
@@ -201,7 +412,7 @@ export class SimplifiedMemorySystem {
   /**
    * Get memory statistics
    */
-  async getMemoryStats(): Promise<{
+  async getMemoryStats(scope: MemoryScope | null): Promise<{
     activeTurns: number;
     oldestTurn: number | null;
     newestTurn: number | null;
@@ -209,7 +420,7 @@ export class SimplifiedMemorySystem {
     timeSpan: number; // in minutes
   }> {
     try {
-      const recentMessages = await this.getRecentMessages();
+      const recentMessages = await this.getRecentMessages(scope);
       
       if (recentMessages.length === 0) {
         return {
@@ -257,28 +468,22 @@ export class SimplifiedMemorySystem {
   /**
    * Get recent messages from agent_memory within 3-minute window
    */
-  private async getRecentMessages(): Promise<Array<{ role: string; content: string; metadata?: any }>> {
+  private async getRecentMessages(scope: MemoryScope | null): Promise<Array<{ role: string; content: string; metadata?: any }>> {
+    if (!scope) {
+      return [];
+    }
     try {
-      const { data, error } = await supabaseAdmin
-        .from('agent_memory')
-        .select('*')
-        .eq('agent_name', this.agentName)
-        .like('key', 'message_%')
-        .gt('expires_at', new Date().toISOString())
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('[SimplifiedMemory] Error fetching recent messages:', error);
-        return [];
-      }
+      const prefix = this.getScopePrefix(scope);
+      const entries = await this.store.listActive(this.agentName, `${prefix}message`);
 
-      return (data || []).map(item => ({
+      return entries.filter(item => item.key !== `${prefix}message_index`).map(item => ({
         role: item.value.role,
         content: item.value.content,
         metadata: {
           emotion: item.value.emotion,
           confidence: item.value.confidence,
           sessionId: item.value.sessionId,
+          visitorId: item.value.visitorId,
           timestamp: item.value.timestamp,
         },
       }));
@@ -289,126 +494,34 @@ export class SimplifiedMemorySystem {
   }
 
   /**
-   * Update message index for efficient retrieval using atomic operations
+   * Build the key prefix that isolates one session's entries from another's
    */
-  private async updateMessageIndex(newTimestamp: number): Promise<void> {
-    try {
-      const expiresAt = new Date(Date.now() + this.TTL_SECONDS * 1000).toISOString();
-      
-      // Use a PostgreSQL function call for atomic array operations
-      const { error } = await supabaseAdmin.rpc('update_message_index_atomic', {
-        p_agent_name: this.agentName,
-        p_new_timestamp: newTimestamp,
-        p_max_entries: this.MAX_ENTRIES,
-        p_expires_at: expiresAt
-      });
-
-      if (error) {
-        // Fallback to optimistic concurrency control if RPC function doesn't exist
-        console.warn('[SimplifiedMemory] RPC function not available, using fallback approach');
-        await this.updateMessageIndexFallback(newTimestamp);
-      }
-    } catch (error) {
-      console.error('[SimplifiedMemory] Error updating message index:', error);
-      // Try fallback approach
-      try {
-        await this.updateMessageIndexFallback(newTimestamp);
-      } catch (fallbackError) {
-        console.error('[SimplifiedMemory] Fallback also failed:', fallbackError);
-      }
-    }
-  }
-
-  /**
-   * Fallback method using optimistic concurrency control
-   */
-  private async updateMessageIndexFallback(newTimestamp: number): Promise<void> {
-    const maxRetries = 3;
-    let retryCount = 0;
-
-    while (retryCount < maxRetries) {
-      try {
-        const expiresAt = new Date(Date.now() + this.TTL_SECONDS * 1000).toISOString();
-        
-        // Get current index with version info
-        const { data: currentData } = await supabaseAdmin
-          .from('agent_memory')
-          .select('value, created_at')
-          .eq('agent_name', this.agentName)
-          .eq('key', 'message_index')
-          .single();
-
-        const currentIndex = currentData?.value?.timestamps || [];
-        const currentVersion = currentData?.created_at;
-        
-        // Prepare updated index
-        const updatedIndex = [...currentIndex, newTimestamp]
-          .sort((a, b) => b - a) // Most recent first
-          .slice(0, this.MAX_ENTRIES); // Keep only latest entries
-
-        if (currentData) {
-          // Update existing record with version check
-          const { error } = await supabaseAdmin
-            .from('agent_memory')
-            .update({
-              value: { timestamps: updatedIndex },
-              expires_at: expiresAt,
-              updated_at: new Date().toISOString()
-            })
-            .eq('agent_name', this.agentName)
-            .eq('key', 'message_index')
-            .eq('created_at', currentVersion);
-
-          if (error) {
-            throw error;
-          }
-        } else {
-          // Insert new record
-          const { error } = await supabaseAdmin
-            .from('agent_memory')
-            .insert({
-              agent_name: this.agentName,
-              key: 'message_index',
-              value: { timestamps: updatedIndex },
-              expires_at: expiresAt,
-            });
-
-          if (error) {
-            throw error;
-          }
-        }
-
-        // Success - exit retry loop
-        return;
-      } catch (error) {
-        retryCount++;
-        if (retryCount >= maxRetries) {
-          throw error;
-        }
-        // Exponential backoff with jitter
-        const delay = Math.random() * (50 * Math.pow(2, retryCount));
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+  private getScopePrefix(scope: MemoryScope): string {
+    if (!scope.sessionId) {
+      throw new Error('Memory scope requires a sessionId');
     }
+    return scope.visitorId
+      ? `visitor:${scope.visitorId}:session:${scope.sessionId}:`
+      : `session:${scope.sessionId}:`;
   }
 
   private buildComprehensiveContext(
     recentMessages: Array<{ role: string; content: string; metadata?: any }>,
     knowledgeResults: KnowledgeSearchResult[],
-    language: 'ja' | 'en'
+    language: SupportedLanguage
   ): string {
     const lines: string[] = [];
 
     // Add recent conversation context (3-minute window)
     if (recentMessages.length > 0) {
-      const recentHeader = language === 'en' 
+      const recentHeader = promptLanguageOf(language) === 'en' 
         ? 'Recent conversation (last 3 minutes):' 
         : '最近の会話履歴（直近3分）:';
       
       lines.push(recentHeader);
       
       recentMessages.forEach(msg => {
-        const roleLabel = language === 'en' 
+        const roleLabel = promptLanguageOf(language) === 'en' 
           ? (msg.role === 'user' ? 'User' : 'Assistant')
           : (msg.role === 'user' ? 'ユーザー' : 'アシスタント');
         
@@ -421,7 +534,7 @@ export class SimplifiedMemorySystem {
     if (knowledgeResults.length > 0) {
       lines.push(''); // Empty line separator
       
-      const knowledgeHeader = language === 'en' 
+      const knowledgeHeader = promptLanguageOf(language) === 'en' 
         ? 'Relevant Engineer Cafe information:' 
         : '関連するエンジニアカフェ情報:';
       
@@ -436,7 +549,7 @@ export class SimplifiedMemorySystem {
     }
 
     return lines.length > 0 ? lines.join('\n') : 
-      (language === 'en' ? 'No conversation context.' : '会話履歴がありません。');
+      (promptLanguageOf(language) === 'en' ? 'No conversation context.' : '会話履歴がありません。');
   }
 
 }
@@ -1,10 +1,11 @@
 import fs from 'fs';
 import path from 'path';
+import { SupportedLanguage } from './languages';
 
 /**
  * Load a slide deck and its narration in the selected language.
  */
-export function loadSlides(lang: 'ja' | 'en', deckName = 'engineer-cafe') {
+export function loadSlides(lang: SupportedLanguage, deckName = 'engineer-cafe') {
   const base = path.resolve(
     __dirname,
     '..',
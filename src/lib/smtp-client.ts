@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+/**
+ * Minimal SMTP client for plain-text notification mails: implicit TLS or
+ * STARTTLS when the server offers it, AUTH PLAIN, one message per
+ * connection. Enough for a relay such as Gmail or SES; anything richer
+ * (attachments, pooling) is out of scope. Credentials are only sent over
+ * TLS, so a server (or anyone on the path) that drops STARTTLS from the
+ * EHLO reply gets an error instead of the password.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /**
+   * Send AUTH over an unencrypted connection when STARTTLS is not offered.
+   * Only for a relay on localhost or a trusted network.
+   */
+  allowInsecureAuth?: boolean;
+  /** Applies to connecting (including the TLS handshake) and to each reply */
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+class SmtpConnection {
+  private socket: SmtpSocket | null = null;
+  private buffer = '';
+  private partial: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: SmtpSocket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: SmtpSocket): void {
+    if (this.socket) {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('error');
+      this.socket.removeAllListeners('close');
+    }
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.partial.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.partial };
+        this.partial = [];
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.waiters.splice(0).forEach(waiter => waiter.reject(error));
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async expect(codes: number[], verb: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (codes.indexOf(reply.code) === -1) {
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /** Send a command; errors name only the verb so credentials never reach logs */
+  command(line: string, codes: number[], verb: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(codes, verb);
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket as net.Socket;
+    const secure = tls.connect({ socket: plain, servername: serverName(host) });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  end(): void {
+    this.socket?.end();
+  }
+}
+
+/** SNI takes host names only; IP addresses are left out */
+function serverName(host: string): string | undefined {
+  return net.isIP(host) ? undefined : host;
+}
+
+function connect(config: SmtpConfig): Promise<SmtpSocket> {
+  const timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+  return new Promise((resolve, reject) => {
+    const connected = () => {
+      clearTimeout(deadline);
+      resolve(socket);
+    };
+    const socket: SmtpSocket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: serverName(config.host) }, connected)
+      : net.connect({ host: config.host, port: config.port }, connected);
+    const deadline = setTimeout(() => socket.destroy(new Error('SMTP connect timeout')), timeoutMs);
+    socket.once('error', error => {
+      clearTimeout(deadline);
+      reject(error);
+    });
+  });
+}
+
+/** RFC 2047 encoded word, so Japanese subjects survive */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = message.from.split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const socket = await connect(config);
+  const connection = new SmtpConnection(socket);
+  socket.setTimeout(config.timeoutMs || DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+
+  try {
+    const hostname = os.hostname() || 'localhost';
+    await connection.expect([220], 'greeting');
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+    let encrypted = !!config.secure;
+
+    if (!encrypted && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.command('STARTTLS', [220]);
+      await connection.startTls(config.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new Error('SMTP server did not offer STARTTLS; refusing to send credentials unencrypted');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    // Base64 bodies never contain a lone "." line, so no dot-stuffing is needed
+    await connection.command(`${buildMimeMessage(message)}\r\n.`, [250], 'message');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.end();
+  }
+}
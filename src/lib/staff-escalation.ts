@@ -0,0 +1,452 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { redactText, TranscriptMessage } from './conversation-transcripts';
+import { ConversationManager } from './supabase-memory';
+import { createChannelsFromEnv, EscalationChannel, EscalationChannelName } from './escalation-channels';
+import type { SupportedLanguage } from '../mastra/types/config';
+import { promptLanguageOf } from './languages';
+import { RateLimit, RateLimiter } from './rate-limit';
+
+/**
+ * Handing a visitor over to staff. An escalation is stored first, then sent
+ * to every configured channel (Slack or Discord webhook, email, the reception
+ * system); staff acknowledge it from a signed link in the notification or
+ * from /admin/escalations, and the kiosk polls the status so the avatar can
+ * tell the visitor that someone is actually on the way.
+ */
+
+export type EscalationUrgency = 'low' | 'medium' | 'high';
+
+export type EscalationStatus = 'open' | 'acknowledged' | 'resolved';
+
+/** How the acknowledgement arrived */
+export type AcknowledgeVia = 'link' | 'admin';
+
+export interface EscalationDelivery {
+  channel: EscalationChannelName;
+  delivered: boolean;
+  error?: string;
+  at: string;
+}
+
+export interface StaffEscalation {
+  id: string;
+  /** Conversation session the visitor was in, when known */
+  sessionId: string | null;
+  question: string;
+  /** Last turns of the conversation, redacted */
+  transcriptExcerpt: TranscriptMessage[];
+  language: SupportedLanguage;
+  urgency: EscalationUrgency;
+  /** Kiosk the visitor is standing at (KIOSK_LOCATION) */
+  location: string;
+  status: EscalationStatus;
+  deliveries: EscalationDelivery[];
+  acknowledgedBy: string | null;
+  acknowledgedVia: AcknowledgeVia | null;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export type NewStaffEscalation = Pick<
+  StaffEscalation,
+  'sessionId' | 'question' | 'transcriptExcerpt' | 'language' | 'urgency' | 'location'
+>;
+
+export type StaffEscalationUpdate = Partial<Pick<
+  StaffEscalation,
+  'status' | 'deliveries' | 'acknowledgedBy' | 'acknowledgedVia' | 'acknowledgedAt' | 'resolvedAt'
+>>;
+
+export interface EscalationListFilters {
+  status?: EscalationStatus;
+  sessionId?: string;
+  limit?: number;
+}
+
+export interface EscalationRequest {
+  question: string;
+  language: SupportedLanguage;
+  urgency?: EscalationUrgency;
+  sessionId?: string | null;
+  /** Address of the visitor's device, for rate limiting */
+  clientIp?: string | null;
+}
+
+/** Bad input, an unknown escalation or too many requests; API routes map this to 400, 404 or 429 */
+export class EscalationError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'EscalationError';
+  }
+}
+
+export const ESCALATION_URGENCIES: EscalationUrgency[] = ['low', 'medium', 'high'];
+export const ESCALATION_STATUSES: EscalationStatus[] = ['open', 'acknowledged', 'resolved'];
+
+/** How long the acknowledge link in a notification stays valid */
+export const ACKNOWLEDGE_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+const TRANSCRIPT_EXCERPT_MESSAGES = 6;
+const TRANSCRIPT_EXCERPT_LENGTH = 200;
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_NAME_LENGTH = 100;
+
+/** Escalations one device or conversation may raise before being refused */
+export const DEFAULT_ESCALATION_RATE_LIMIT: RateLimit = { limit: 3, windowMs: 10 * 60 * 1000 };
+
+// Words that mean the visitor should not wait in a queue
+const HIGH_URGENCY = /緊急|救急|けが|怪我|具合が悪|倒れ|火事|emergency|ambulance|injur|hurt|fire|unwell/i;
+
+export function isEscalationUrgency(value: unknown): value is EscalationUrgency {
+  return ESCALATION_URGENCIES.includes(value as EscalationUrgency);
+}
+
+export function inferUrgency(question: string): EscalationUrgency {
+  return HIGH_URGENCY.test(question) ? 'high' : 'medium';
+}
+
+export function getKioskLocation(): string {
+  return process.env.KIOSK_LOCATION || 'Engineer Cafe';
+}
+
+export interface EscalationStore {
+  create(escalation: NewStaffEscalation): Promise<StaffEscalation>;
+  get(id: string): Promise<StaffEscalation | null>;
+  /** Null when `onlyIfStatus` is given and the escalation has moved on from it */
+  update(id: string, update: StaffEscalationUpdate, onlyIfStatus?: EscalationStatus): Promise<StaffEscalation | null>;
+  /** Newest first */
+  list(filters?: EscalationListFilters): Promise<StaffEscalation[]>;
+}
+
+function toEscalation(row: any): StaffEscalation {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    question: row.question,
+    transcriptExcerpt: row.transcript_excerpt || [],
+    language: row.language,
+    urgency: row.urgency,
+    location: row.location,
+    status: row.status,
+    deliveries: row.deliveries || [],
+    acknowledgedBy: row.acknowledged_by,
+    acknowledgedVia: row.acknowledged_via,
+    acknowledgedAt: row.acknowledged_at,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * staff_escalations table
+ * (supabase/migrations/20250630000000_add_staff_escalations.sql)
+ */
+export class SupabaseEscalationStore implements EscalationStore {
+  async create(escalation: NewStaffEscalation): Promise<StaffEscalation> {
+    const { data, error } = await supabaseAdmin
+      .from('staff_escalations')
+      .insert({
+        session_id: escalation.sessionId,
+        question: escalation.question,
+        transcript_excerpt: escalation.transcriptExcerpt,
+        language: escalation.language,
+        urgency: escalation.urgency,
+        location: escalation.location,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toEscalation(data);
+  }
+
+  async get(id: string): Promise<StaffEscalation | null> {
+    const { data, error } = await supabaseAdmin
+      .from('staff_escalations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toEscalation(data) : null;
+  }
+
+  async update(id: string, update: StaffEscalationUpdate, onlyIfStatus?: EscalationStatus): Promise<StaffEscalation | null> {
+    const row: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (update.status !== undefined) row.status = update.status;
+    if (update.deliveries !== undefined) row.deliveries = update.deliveries;
+    if (update.acknowledgedBy !== undefined) row.acknowledged_by = update.acknowledgedBy;
+    if (update.acknowledgedVia !== undefined) row.acknowledged_via = update.acknowledgedVia;
+    if (update.acknowledgedAt !== undefined) row.acknowledged_at = update.acknowledgedAt;
+    if (update.resolvedAt !== undefined) row.resolved_at = update.resolvedAt;
+
+    let query = supabaseAdmin
+      .from('staff_escalations')
+      .update(row)
+      .eq('id', id);
+    if (onlyIfStatus) query = query.eq('status', onlyIfStatus);
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) throw error;
+    return data ? toEscalation(data) : null;
+  }
+
+  async list(filters: EscalationListFilters = {}): Promise<StaffEscalation[]> {
+    let query = supabaseAdmin
+      .from('staff_escalations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.sessionId) query = query.eq('session_id', filters.sessionId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toEscalation);
+  }
+}
+
+/** Process-local store for tests */
+export class InMemoryEscalationStore implements EscalationStore {
+  private escalations: StaffEscalation[] = [];
+  private nextId = 1;
+
+  async create(escalation: NewStaffEscalation): Promise<StaffEscalation> {
+    const created: StaffEscalation = {
+      ...escalation,
+      id: `escalation-${this.nextId++}`,
+      status: 'open',
+      deliveries: [],
+      acknowledgedBy: null,
+      acknowledgedVia: null,
+      acknowledgedAt: null,
+      resolvedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.escalations.unshift(created);
+    return { ...created };
+  }
+
+  async get(id: string): Promise<StaffEscalation | null> {
+    const found = this.escalations.find(escalation => escalation.id === id);
+    return found ? { ...found } : null;
+  }
+
+  async update(id: string, update: StaffEscalationUpdate, onlyIfStatus?: EscalationStatus): Promise<StaffEscalation | null> {
+    const index = this.escalations.findIndex(escalation => escalation.id === id);
+    if (index === -1 || (onlyIfStatus && this.escalations[index].status !== onlyIfStatus)) return null;
+    this.escalations[index] = { ...this.escalations[index], ...update };
+    return { ...this.escalations[index] };
+  }
+
+  async list(filters: EscalationListFilters = {}): Promise<StaffEscalation[]> {
+    return this.escalations
+      .filter(escalation => !filters.status || escalation.status === filters.status)
+      .filter(escalation => !filters.sessionId || escalation.sessionId === filters.sessionId)
+      .slice(0, filters.limit || 50);
+  }
+}
+
+function signLink(id: string, expires: number, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`escalation-ack:${id}:${expires}`).digest('base64url');
+}
+
+export interface StaffEscalationOptions {
+  /** Public URL of this app for acknowledge links (NEXTAUTH_URL) */
+  baseUrl?: string | null;
+  /** Signs acknowledge links (NEXTAUTH_SECRET); links are left out without it */
+  linkSecret?: string | null;
+  location?: string;
+  /** Recent conversation turns of a session, oldest first */
+  loadTranscript?: (sessionId: string) => Promise<TranscriptMessage[]>;
+  /** Per device address and per conversation session */
+  rateLimit?: RateLimit;
+}
+
+export class StaffEscalationService {
+  private readonly limiter: RateLimiter;
+
+  constructor(
+    private readonly store: EscalationStore,
+    private readonly channels: EscalationChannel[],
+    private readonly options: StaffEscalationOptions = {}
+  ) {
+    this.limiter = new RateLimiter(options.rateLimit || DEFAULT_ESCALATION_RATE_LIMIT);
+  }
+
+  /**
+   * Store an escalation and send it to every channel. Channel failures are
+   * recorded on the escalation, not thrown; a store failure is thrown, since
+   * nobody could acknowledge an escalation that was never saved.
+   *
+   * The endpoint behind this needs no login, so a session that already has
+   * an open escalation gets that one back without notifying staff again,
+   * and each device and session may only raise a few per window (429).
+   */
+  async escalate(request: EscalationRequest): Promise<StaffEscalation> {
+    const question = request.question.trim().slice(0, MAX_QUESTION_LENGTH);
+    if (!question) {
+      throw new EscalationError('Question text required for escalation');
+    }
+    if (request.urgency !== undefined && !isEscalationUrgency(request.urgency)) {
+      throw new EscalationError(`Invalid urgency: ${request.urgency}`);
+    }
+
+    if (request.sessionId) {
+      const [open] = await this.store.list({ sessionId: request.sessionId, status: 'open', limit: 1 });
+      if (open) return open;
+    }
+
+    const limitKeys = [
+      request.clientIp ? `ip:${request.clientIp}` : null,
+      request.sessionId ? `session:${request.sessionId}` : null,
+    ].filter((key): key is string => !!key);
+    if (!limitKeys.every(key => this.limiter.allows(key))) {
+      throw new EscalationError('Too many escalation requests; please ask at the reception desk', 429);
+    }
+    limitKeys.forEach(key => this.limiter.take(key));
+
+    const escalation = await this.store.create({
+      sessionId: request.sessionId || null,
+      question: redactText(question),
+      transcriptExcerpt: await this.transcriptExcerpt(request.sessionId),
+      language: request.language,
+      urgency: request.urgency || inferUrgency(question),
+      location: this.options.location || getKioskLocation(),
+    });
+
+    const acknowledgeUrl = this.acknowledgeUrl(escalation.id);
+    const deliveries = await Promise.all(this.channels.map(async (channel): Promise<EscalationDelivery> => {
+      try {
+        await channel.send({ escalation, acknowledgeUrl });
+        return { channel: channel.name, delivered: true, at: new Date().toISOString() };
+      } catch (error) {
+        console.error(`[Escalation] ${channel.name} delivery failed:`, error);
+        return {
+          channel: channel.name,
+          delivered: false,
+          error: error instanceof Error ? error.message : 'Delivery failed',
+          at: new Date().toISOString(),
+        };
+      }
+    }));
+
+    return (await this.store.update(escalation.id, { deliveries })) || escalation;
+  }
+
+  async get(id: string): Promise<StaffEscalation> {
+    const escalation = await this.store.get(id);
+    if (!escalation) {
+      throw new EscalationError(`Escalation not found: ${id}`, 404);
+    }
+    return escalation;
+  }
+
+  list(filters: EscalationListFilters = {}): Promise<StaffEscalation[]> {
+    return this.store.list(filters);
+  }
+
+  /** First acknowledgement wins; acknowledging again returns the escalation unchanged */
+  async acknowledge(id: string, by: string, via: AcknowledgeVia): Promise<StaffEscalation> {
+    const name = by.trim().slice(0, MAX_NAME_LENGTH);
+    if (!name) {
+      throw new EscalationError('Staff name required to acknowledge');
+    }
+
+    const escalation = await this.get(id);
+    if (escalation.status !== 'open') return escalation;
+
+    const acknowledged = await this.store.update(id, {
+      status: 'acknowledged',
+      acknowledgedBy: name,
+      acknowledgedVia: via,
+      acknowledgedAt: new Date().toISOString(),
+    }, 'open');
+    // Someone else acknowledged in between
+    return acknowledged || this.get(id);
+  }
+
+  /** Close an escalation; one that nobody acknowledged is acknowledged by the same person */
+  async resolve(id: string, by: string): Promise<StaffEscalation> {
+    const escalation = await this.acknowledge(id, by, 'admin');
+    if (escalation.status === 'resolved') return escalation;
+    return (await this.store.update(id, { status: 'resolved', resolvedAt: new Date().toISOString() }, 'acknowledged'))
+      || this.get(id);
+  }
+
+  acknowledgeUrl(id: string, now: number = Date.now()): string | null {
+    const { baseUrl, linkSecret } = this.options;
+    if (!baseUrl || !linkSecret) return null;
+    const expires = Math.floor(now / 1000) + ACKNOWLEDGE_LINK_TTL_SECONDS;
+    const query = new URLSearchParams({ expires: String(expires), signature: signLink(id, expires, linkSecret) });
+    return `${baseUrl.replace(/\/$/, '')}/api/escalations/${encodeURIComponent(id)}/acknowledge?${query}`;
+  }
+
+  /** Whether an acknowledge link's signature matches and it has not expired */
+  verifyAcknowledgeLink(id: string, expires: string | null, signature: string | null, now: number = Date.now()): boolean {
+    const { linkSecret } = this.options;
+    const expiresAt = Number(expires);
+    if (!linkSecret || !signature || !Number.isFinite(expiresAt)) return false;
+    if (expiresAt <= Math.floor(now / 1000)) return false;
+
+    const expected = Buffer.from(signLink(id, expiresAt, linkSecret));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private async transcriptExcerpt(sessionId: string | null | undefined): Promise<TranscriptMessage[]> {
+    if (!sessionId || !this.options.loadTranscript) return [];
+    try {
+      const messages = await this.options.loadTranscript(sessionId);
+      return messages.slice(-TRANSCRIPT_EXCERPT_MESSAGES).map(message => ({
+        role: message.role,
+        content: redactText(message.content).slice(0, TRANSCRIPT_EXCERPT_LENGTH),
+        createdAt: message.createdAt || null,
+      }));
+    } catch (error) {
+      // Staff still get the question without the conversation around it
+      console.error('[Escalation] Failed to load transcript excerpt:', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * What the avatar says about an escalation: whether staff were reached, and
+ * once acknowledged, who is coming
+ */
+export function visitorEscalationMessage(escalation: StaffEscalation | null, language: SupportedLanguage): string {
+  const en = promptLanguageOf(language) === 'en';
+  if (escalation && escalation.status !== 'open') {
+    const name = escalation.acknowledgedBy;
+    return en
+      ? `[happy]Good news: ${name ? `${name} from our staff` : 'a staff member'} is on the way. Please wait here a moment.[/happy]`
+      : `[happy]お待たせしました。${name ? `スタッフの${name}が` : 'スタッフが'}まもなく参りますので、こちらで少々お待ちください。[/happy]`;
+  }
+  if (escalation && escalation.deliveries.some(delivery => delivery.delivered)) {
+    return en
+      ? "[supportive]I've notified our staff about your inquiry. I'll let you know as soon as someone is on the way.[/supportive]"
+      : '[supportive]スタッフに連絡しました。対応するスタッフが決まりましたらお知らせしますので、少々お待ちください。[/supportive]';
+  }
+  return en
+    ? "[apologetic]I'm sorry, I couldn't reach our staff right now. Please ask at the reception desk.[/apologetic]"
+    : '[apologetic]申し訳ありません、ただいまスタッフに連絡できませんでした。お手数ですが受付までお声がけください。[/apologetic]';
+}
+
+let service: StaffEscalationService | null = null;
+
+export function getStaffEscalationService(): StaffEscalationService {
+  if (!service) {
+    service = new StaffEscalationService(new SupabaseEscalationStore(), createChannelsFromEnv(), {
+      baseUrl: process.env.NEXTAUTH_URL || null,
+      linkSecret: process.env.NEXTAUTH_SECRET || null,
+      loadTranscript: async sessionId => {
+        const rows = await ConversationManager.getHistory(sessionId, TRANSCRIPT_EXCERPT_MESSAGES);
+        return rows.map((row: any) => ({ role: row.role, content: row.content, createdAt: row.created_at }));
+      },
+    });
+  }
+  return service;
+}
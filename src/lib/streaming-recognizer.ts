@@ -0,0 +1,160 @@
+/**
+ * Browser side of streaming recognition (/api/voice/stream)
+ * Opens a session whose response streams partial and final transcripts, then
+ * posts recorder timeslices to it in order while the visitor is speaking.
+ */
+
+import { SupportedLanguage, textJoiner } from './languages';
+import { VoiceRecorder } from './voice-recorder';
+import { RecognitionStreamEvent, VOICE_STREAM_CONTENT_TYPE, readVoiceStream } from './voice-stream';
+
+const STREAM_URL = '/api/voice/stream';
+/** How long to wait for the final transcript after the audio ends */
+const FINAL_TIMEOUT_MS = 5000;
+
+export interface StreamingRecognizerCallbacks {
+  /** Interim transcript; each one replaces the previous */
+  onPartial?: (transcript: string) => void;
+  /** The recogniser heard the visitor stop speaking */
+  onEndpoint?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export class StreamingRecognizer {
+  private streamId: string | null = null;
+  private finals: string[] = [];
+  /** Audio posts chain onto this so frames arrive in recording order */
+  private sending: Promise<void> = Promise.resolve();
+  private events: Promise<void> = Promise.resolve();
+  private audioEnded = false;
+  private abortController = new AbortController();
+
+  constructor(
+    private readonly language: SupportedLanguage,
+    private readonly callbacks: StreamingRecognizerCallbacks = {}
+  ) {}
+
+  /**
+   * Streaming needs fetch streams and a WebM/Opus recorder, the format the
+   * Google recogniser decodes incrementally (iOS records MP4)
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && typeof ReadableStream !== 'undefined'
+      && typeof MediaRecorder !== 'undefined'
+      && MediaRecorder.isTypeSupported('audio/webm;codecs=opus');
+  }
+
+  /**
+   * Open the session. Audio sent before it is ready is queued, so recording
+   * can start at the same time.
+   */
+  start(): Promise<void> {
+    const opened = this.open();
+    this.sending = opened.catch(() => {});
+    return opened;
+  }
+
+  sendAudio(chunk: Blob): void {
+    this.sending = this.sending.then(async () => {
+      if (!this.streamId || this.audioEnded) return;
+
+      const audioData = VoiceRecorder.arrayBufferToBase64(await chunk.arrayBuffer());
+      const response = await fetch(STREAM_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'audio', streamId: this.streamId, audioData }),
+        signal: this.abortController.signal,
+      });
+      if (response.status === 410) {
+        // Session ended on the server (endpoint or idle timeout)
+        this.audioEnded = true;
+      }
+    }).catch(error => {
+      console.warn('[StreamingRecognizer] Failed to send audio:', error);
+    });
+  }
+
+  /**
+   * Stop sending audio and wait for the final transcript. Returns '' when
+   * nothing was recognised or the session failed, so callers can fall back
+   * to recognising the whole recording.
+   */
+  async finish(): Promise<string> {
+    await this.sending;
+    if (this.streamId && !this.audioEnded) {
+      this.audioEnded = true;
+      await fetch(STREAM_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'end', streamId: this.streamId }),
+        signal: this.abortController.signal,
+      }).catch(error => console.warn('[StreamingRecognizer] Failed to end audio:', error));
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        console.warn('[StreamingRecognizer] Timed out waiting for the final transcript');
+        resolve();
+      }, FINAL_TIMEOUT_MS);
+    });
+    await Promise.race([this.events, timeout]);
+    clearTimeout(timer);
+    this.abort();
+
+    return this.finals.join(textJoiner(this.language)).trim();
+  }
+
+  /** Drop the session without waiting for results */
+  abort(): void {
+    this.audioEnded = true;
+    this.abortController.abort();
+  }
+
+  private async open(): Promise<void> {
+    const response = await fetch(STREAM_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'start', language: this.language }),
+      signal: this.abortController.signal,
+    });
+    if (!response.ok || !response.headers.get('Content-Type')?.includes(VOICE_STREAM_CONTENT_TYPE)) {
+      throw new Error(`Streaming recognition unavailable (${response.status})`);
+    }
+
+    const events = readVoiceStream<RecognitionStreamEvent>(response);
+    const first = await events.next();
+    if (first.done || first.value.type !== 'ready') {
+      throw new Error(first.done || first.value.type !== 'error' ? 'Streaming recognition closed' : first.value.error);
+    }
+    this.streamId = first.value.streamId;
+    this.events = this.consume(events);
+  }
+
+  private async consume(events: AsyncGenerator<RecognitionStreamEvent>): Promise<void> {
+    try {
+      for await (const event of events) {
+        switch (event.type) {
+          case 'partial':
+            this.callbacks.onPartial?.(this.finals.concat(event.transcript).join(textJoiner(this.language)));
+            break;
+          case 'final':
+            this.finals.push(event.transcript);
+            this.callbacks.onPartial?.(this.finals.join(textJoiner(this.language)));
+            break;
+          case 'endpoint':
+            this.audioEnded = true;
+            this.callbacks.onEndpoint?.();
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      }
+    } catch (error) {
+      if (!this.abortController.signal.aborted) {
+        this.callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+}
@@ -1,5 +1,12 @@
 import { supabaseAdmin } from '@/lib/supabase';
 import { Database } from '@/types/supabase';
+import {
+  TranscriptMessage,
+  TranscriptSession,
+  formatConversationSummary,
+  summarizeMessages,
+} from '@/lib/conversation-transcripts';
+import { promptLanguageOf, SupportedLanguage } from '@/lib/languages';
 
 type AgentMemoryRow = Database['public']['Tables']['agent_memory']['Row'];
 type AgentMemoryInsert = Database['public']['Tables']['agent_memory']['Insert'];
@@ -103,11 +110,43 @@ export class SupabaseMemoryAdapter {
   }
 }
 
+export type SessionEndReason = 'ended' | 'idle' | 'replaced';
+
+/** Filters for browsing sessions; dates compare against started_at */
+export interface SessionListFilters {
+  from?: string;
+  to?: string;
+  language?: SupportedLanguage;
+  emotion?: string;
+  escalated?: boolean;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+type ConversationSessionRow = Database['public']['Tables']['conversation_sessions']['Row'];
+type ConversationHistoryRow = Database['public']['Tables']['conversation_history']['Row'];
+
+/** Sessions without activity for this long are closed out (SESSION_IDLE_TIMEOUT_MS) */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function getSessionIdleTimeoutMs(): number {
+  const configured = parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || '', 10);
+  return configured > 0 ? configured : DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+}
+
+const CONVERSATION_SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** conversation_sessions ids are UUIDs; anything else cannot refer to one */
+export function isConversationSessionId(value: unknown): value is string {
+  return typeof value === 'string' && CONVERSATION_SESSION_ID.test(value);
+}
+
 // Conversation session management
 export class ConversationManager {
   static async createSession(
     visitorId?: string,
-    language: 'ja' | 'en' = 'ja'
+    language: SupportedLanguage = 'ja'
   ): Promise<string> {
     const { data, error } = await supabaseAdmin
       .from('conversation_sessions')
@@ -124,11 +163,43 @@ export class ConversationManager {
     return data.id;
   }
 
+  /**
+   * Open a session under the id the visitor's device chose, or reopen it if
+   * it was closed as idle; the summary is rebuilt when it closes again
+   */
+  static async ensureSession(
+    sessionId: string,
+    visitorId?: string,
+    language: SupportedLanguage = 'ja'
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('conversation_sessions')
+      .upsert({
+        id: sessionId,
+        visitor_id: visitorId,
+        language,
+        mode: 'welcome',
+        status: 'active',
+      }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw error;
+
+    const { error: reopenError } = await supabaseAdmin
+      .from('conversation_sessions')
+      .update({ status: 'active', ended_at: null, end_reason: null })
+      .eq('id', sessionId)
+      .eq('status', 'completed')
+      .eq('end_reason', 'idle');
+
+    if (reopenError) throw reopenError;
+  }
+
   static async addToHistory(
     sessionId: string,
     role: 'user' | 'assistant' | 'system',
     content: string,
-    audioUrl?: string
+    audioUrl?: string,
+    metadata?: { emotion?: string }
   ): Promise<void> {
     const { error } = await supabaseAdmin
       .from('conversation_history')
@@ -137,9 +208,21 @@ export class ConversationManager {
         role,
         content,
         audio_url: audioUrl,
+        metadata: metadata || {},
       });
 
     if (error) throw error;
+    await ConversationManager.touchSession(sessionId);
+  }
+
+  /** Record activity so the session is not closed as idle */
+  static async touchSession(sessionId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('conversation_sessions')
+      .update({ last_activity_at: new Date().toISOString() })
+      .eq('id', sessionId);
+
+    if (error) throw error;
   }
 
   static async getHistory(sessionId: string, limit: number = 10) {
@@ -154,15 +237,136 @@ export class ConversationManager {
     return data?.reverse() || [];
   }
 
-  static async endSession(sessionId: string): Promise<void> {
+  /**
+   * Close a session with a generated summary of its transcript.
+   * Unknown sessions and those that are already closed are left untouched.
+   */
+  static async endSession(sessionId: string, reason: SessionEndReason = 'ended'): Promise<void> {
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('conversation_sessions')
+      .select('language, status')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) throw sessionError;
+    if (!session || session.status !== 'active') return;
+
+    const { messages } = await ConversationManager.getTranscript(sessionId);
+    const summary = summarizeMessages(messages);
+
     const { error } = await supabaseAdmin
       .from('conversation_sessions')
       .update({
         ended_at: new Date().toISOString(),
         status: 'completed',
+        end_reason: reason,
+        summary: formatConversationSummary(summary, promptLanguageOf(session.language)),
+        primary_emotion: summary.dominantEmotion,
+        message_count: messages.length,
       })
-      .eq('id', sessionId);
+      .eq('id', sessionId)
+      .eq('status', 'active');
 
     if (error) throw error;
   }
+
+  /** Flag a session whose visitor was handed over to staff; false when there is no such session */
+  static async markEscalated(sessionId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('conversation_sessions')
+      .update({ escalated: true })
+      .eq('id', sessionId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Close every active session idle for longer than idleTimeoutMs.
+   * Returns the ids of the sessions that were closed.
+   */
+  static async closeIdleSessions(idleTimeoutMs: number = getSessionIdleTimeoutMs()): Promise<string[]> {
+    const cutoff = new Date(Date.now() - idleTimeoutMs).toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('conversation_sessions')
+      .select('id')
+      .eq('status', 'active')
+      .lt('last_activity_at', cutoff);
+
+    if (error) throw error;
+
+    const closed: string[] = [];
+    for (const { id } of data || []) {
+      try {
+        await ConversationManager.endSession(id, 'idle');
+        closed.push(id);
+      } catch (closeError) {
+        console.error(`[ConversationManager] Failed to close idle session ${id}:`, closeError);
+      }
+    }
+    return closed;
+  }
+
+  static async listSessions(filters: SessionListFilters = {}): Promise<{ sessions: ConversationSessionRow[]; total: number }> {
+    const limit = Math.min(filters.limit || 50, 200);
+    const offset = filters.offset || 0;
+
+    let query = supabaseAdmin
+      .from('conversation_sessions')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.from) query = query.gte('started_at', filters.from);
+    if (filters.to) query = query.lte('started_at', filters.to);
+    if (filters.language) query = query.eq('language', filters.language);
+    if (filters.emotion) query = query.eq('primary_emotion', filters.emotion);
+    if (filters.escalated !== undefined) query = query.eq('escalated', filters.escalated);
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+    return { sessions: data || [], total: count || 0 };
+  }
+
+  /** A session and its full history in transcript form (unredacted) */
+  static async getTranscript(sessionId: string): Promise<{ session: TranscriptSession; messages: TranscriptMessage[] }> {
+    const [{ data: session, error: sessionError }, { data: history, error: historyError }] = await Promise.all([
+      supabaseAdmin.from('conversation_sessions').select('*').eq('id', sessionId).single(),
+      supabaseAdmin
+        .from('conversation_history')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (sessionError) throw sessionError;
+    if (historyError) throw historyError;
+
+    return {
+      session: toTranscriptSession(session),
+      messages: (history || []).map((row: ConversationHistoryRow) => ({
+        role: (row.role || 'system') as TranscriptMessage['role'],
+        content: row.content,
+        createdAt: row.created_at,
+        emotion: (row.metadata as { emotion?: string } | null)?.emotion ?? null,
+      })),
+    };
+  }
+}
+
+export function toTranscriptSession(row: ConversationSessionRow): TranscriptSession {
+  return {
+    id: row.id,
+    visitorId: row.visitor_id,
+    language: row.language,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    status: row.status,
+    endReason: row.end_reason,
+    escalated: row.escalated,
+    primaryEmotion: row.primary_emotion,
+    summary: row.summary,
+  };
 }
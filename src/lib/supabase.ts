@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { SupportedLanguage } from './languages'
 
 // Database types (後で supabase gen types typescript で生成可能)
 export interface Database {
@@ -8,12 +9,18 @@ export interface Database {
         Row: {
           id: string
           visitor_id: string | null
-          language: 'ja' | 'en'
+          language: SupportedLanguage
           mode: string
           started_at: string
           ended_at: string | null
           status: string
           metadata: Record<string, any>
+          last_activity_at: string | null
+          end_reason: string | null
+          summary: string | null
+          primary_emotion: string | null
+          message_count: number
+          escalated: boolean
           created_at: string
           updated_at: string
         }
@@ -38,9 +45,11 @@ export interface Database {
           id: string
           content: string
           content_embedding: number[] | null
+          embedding_model: string | null
+          embedding_dimensions: number | null
           category: string | null
           subcategory: string | null
-          language: 'ja' | 'en'
+          language: SupportedLanguage
           source: string | null
           metadata: Record<string, any>
           created_at: string
@@ -1,3 +1,6 @@
+import { EmotionName, getEmotionVocabulary, resolveEmotion } from './emotion-registry';
+import { DEFAULT_LANGUAGE, getLanguageConfig, SupportedLanguage } from './languages';
+
 /**
  * Text chunking utility for streaming TTS
  * Splits text into natural sentence breaks for smoother voice output
@@ -7,15 +10,18 @@ export interface TextChunk {
   text: string;
   index: number;
   isLast: boolean;
-  emotion?: string;
+  emotion?: EmotionName;
 }
 
+// Opening tags of every registered emotion and alias
+const EMOTION_TAG_SOURCE = `\\[(${getEmotionVocabulary().join('|')})\\]`;
+
 export class TextChunker {
-  // Japanese sentence endings
+  // Sentence endings for languages written without spaces (Japanese, Chinese)
   private static readonly JP_SENTENCE_ENDINGS = ['。', '！', '？', '…', '♪', '～', '\n'];
-  private static readonly JP_CLAUSE_ENDINGS = ['、', 'ね', 'よ', 'から', 'けど', 'が', 'で', 'し'];
+  private static readonly JP_CLAUSE_ENDINGS = ['、', '，', '；', 'ね', 'よ', 'から', 'けど', 'が', 'で', 'し'];
   
-  // English sentence endings
+  // Sentence endings for languages written with spaces (English, Korean)
   private static readonly EN_SENTENCE_ENDINGS = ['.', '!', '?', '...', '\n'];
   private static readonly EN_CLAUSE_ENDINGS = [',', ';', ':', ' and ', ' but ', ' so '];
   
@@ -26,10 +32,10 @@ export class TextChunker {
   /**
    * Split text into chunks suitable for streaming TTS
    */
-  static chunkText(text: string, language: 'ja' | 'en' = 'ja'): TextChunk[] {
+  static chunkText(text: string, language: SupportedLanguage = DEFAULT_LANGUAGE): TextChunk[] {
     // Remove emotion tags first but remember their positions
-    const emotionPattern = /\[(happy|sad|angry|surprised|neutral|relaxed|excited|gentle|supportive|confused|apologetic|curious|thoughtful|warm|grateful|knowledgeable|analytical|energetic|confident)\]/g;
-    const emotions: { originalPosition: number; cleanPosition: number; emotion: string }[] = [];
+    const emotionPattern = new RegExp(EMOTION_TAG_SOURCE, 'g');
+    const emotions: { originalPosition: number; cleanPosition: number; emotion: EmotionName }[] = [];
 
     // 感情タグを見つけて、クリーンテキストでの位置を計算
     let cleanOffset = 0;
@@ -45,7 +51,7 @@ export class TextChunker {
         emotions.push({
           originalPosition: matchIndex,
           cleanPosition: matchIndex - cleanOffset,
-          emotion: match[1]
+          emotion: resolveEmotion(match[1])!.name
         });
         cleanOffset += match[0].length;
       }
@@ -55,12 +61,13 @@ export class TextChunker {
     const cleanText = text.replace(emotionPattern, '');
     
     const chunks: TextChunk[] = [];
-    const sentenceEndings = language === 'ja' ? this.JP_SENTENCE_ENDINGS : this.EN_SENTENCE_ENDINGS;
-    const clauseEndings = language === 'ja' ? this.JP_CLAUSE_ENDINGS : this.EN_CLAUSE_ENDINGS;
+    const spaced = getLanguageConfig(language).wordSpacing;
+    const sentenceEndings = spaced ? this.EN_SENTENCE_ENDINGS : this.JP_SENTENCE_ENDINGS;
+    const clauseEndings = spaced ? this.EN_CLAUSE_ENDINGS : this.JP_CLAUSE_ENDINGS;
     
     let currentChunk = '';
     let chunkStart = 0;
-    let currentEmotion: string | undefined;
+    let currentEmotion: EmotionName | undefined;
     let emotionIdx = 0;
     // emotions配列はcleanPosition順に並んでいる前提
     for (let i = 0; i < cleanText.length; i++) {
@@ -84,11 +91,7 @@ export class TextChunker {
       // Priority 2: Clause endings (if chunk is getting long)
       else if (currentChunk.length > this.MIN_CHUNK_SIZE) {
         for (const ending of clauseEndings) {
-          if (language === 'ja' && cleanText.slice(i - ending.length + 1, i + 1) === ending) {
-            shouldSplit = true;
-            splitPriority = 2;
-            break;
-          } else if (language === 'en' && cleanText.slice(i - ending.length + 1, i + 1) === ending) {
+          if (cleanText.slice(i - ending.length + 1, i + 1) === ending) {
             shouldSplit = true;
             splitPriority = 2;
             break;
@@ -100,8 +103,8 @@ export class TextChunker {
         shouldSplit = true;
         splitPriority = 1;
         
-        // Try to find a word boundary for English
-        if (language === 'en') {
+        // Try to find a word boundary for languages written with spaces
+        if (spaced) {
           const lastSpace = currentChunk.lastIndexOf(' ');
           if (lastSpace > this.MIN_CHUNK_SIZE) {
             // チャンクを単語境界で分割
@@ -160,11 +163,11 @@ export class TextChunker {
   /**
    * Estimate speaking duration for a chunk (rough approximation)
    */
-  static estimateDuration(text: string, language: 'ja' | 'en' = 'ja'): number {
+  static estimateDuration(text: string, language: SupportedLanguage = DEFAULT_LANGUAGE): number {
     // Rough estimates: 
-    // Japanese: ~6 characters per second
-    // English: ~15 characters per second (including spaces)
-    const charsPerSecond = language === 'ja' ? 6 : 15;
+    // Japanese / Chinese: ~6 characters per second
+    // English / Korean: ~15 characters per second (including spaces)
+    const charsPerSecond = getLanguageConfig(language).wordSpacing ? 15 : 6;
     return (text.length / charsPerSecond) * 1000; // Return in milliseconds
   }
 
@@ -174,4 +177,43 @@ export class TextChunker {
   static needsChunking(text: string, threshold: number = 50): boolean {
     return text.length > threshold;
   }
-}
\ No newline at end of file
+}
+/**
+ * Incremental chunker for text that arrives token by token (LLM streaming).
+ * Each push returns the chunks that can no longer change; the trailing,
+ * possibly unfinished chunk is held back until more text or flush() arrives.
+ */
+export class StreamingTextChunker {
+  private buffer = '';
+  private emitted = 0;
+
+  constructor(private readonly language: SupportedLanguage = DEFAULT_LANGUAGE) {}
+
+  push(delta: string): TextChunk[] {
+    this.buffer += delta;
+    // A tag cut off mid-way would otherwise be chunked as spoken text
+    const chunks = this.chunkBuffer(this.buffer.replace(/\[[^\]]*$/, ''));
+    // Everything before the last chunk is terminated by a split point already
+    const ready = chunks.slice(this.emitted, -1).map(chunk => ({ ...chunk, isLast: false }));
+    this.emitted += ready.length;
+    return ready;
+  }
+
+  flush(): TextChunk[] {
+    const remaining = this.chunkBuffer(this.buffer).slice(this.emitted);
+    this.emitted += remaining.length;
+    return remaining;
+  }
+
+  /** Full text received so far, including emotion tags */
+  getText(): string {
+    return this.buffer;
+  }
+
+  private chunkBuffer(buffer: string): TextChunk[] {
+    const text = buffer
+      .replace(/\[\/[a-z]+\]/g, '')          // Closing tags carry no new emotion
+      .replace(/\[([a-z]+):[\d.]+\]/g, '[$1]');  // Intensity is not used for chunking
+    return TextChunker.chunkText(text, this.language);
+  }
+}
@@ -0,0 +1,128 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLanguageConfig, promptLanguageOf, SupportedLanguage } from './languages';
+
+/**
+ * Machine translation for visitor queries and short texts, e.g. to search
+ * the ja/en knowledge base for a Korean question. The Cloud Translation API
+ * is used when GOOGLE_TRANSLATE_API_KEY is set, Gemini otherwise.
+ */
+
+export interface Translator {
+  readonly name: string;
+  /** from is detected when omitted */
+  translate(text: string, to: SupportedLanguage, from?: SupportedLanguage): Promise<string>;
+}
+
+const TRANSLATE_ENDPOINT = 'https://translation.googleapis.com/language/translate/v2';
+
+export class GoogleTranslateTranslator implements Translator {
+  readonly name = 'google-translate';
+
+  constructor(private readonly apiKey: string) {}
+
+  async translate(text: string, to: SupportedLanguage, from?: SupportedLanguage): Promise<string> {
+    const response = await fetch(`${TRANSLATE_ENDPOINT}?key=${encodeURIComponent(this.apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // Registry codes are the tags the API expects (ko, zh-CN, zh-TW)
+      body: JSON.stringify({ q: text, target: to, source: from, format: 'text' }),
+    });
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status}`);
+    }
+    const result = await response.json();
+    const translated = result.data?.translations?.[0]?.translatedText;
+    if (typeof translated !== 'string') {
+      throw new Error('No translation in response');
+    }
+    return translated;
+  }
+}
+
+export class GeminiTranslator implements Translator {
+  readonly name = 'gemini';
+  private model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>;
+
+  constructor(apiKey: string, model = process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp') {
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+
+  async translate(text: string, to: SupportedLanguage, from?: SupportedLanguage): Promise<string> {
+    const source = from ? ` from ${getLanguageConfig(from).englishName}` : '';
+    const result = await this.model.generateContent(
+      `Translate the following text${source} into ${getLanguageConfig(to).englishName}. ` +
+      `Keep proper nouns such as Engineer Cafe and Saino, and tags such as [happy], as they are. Reply with the translation only.\n\n${text}`
+    );
+    const translated = result.response.text().trim();
+    if (!translated) {
+      throw new Error('Empty translation');
+    }
+    return translated;
+  }
+}
+
+/** Translator from the environment; null when no translation backend is configured */
+export function createTranslator(env: NodeJS.ProcessEnv = process.env): Translator | null {
+  if (env.GOOGLE_TRANSLATE_API_KEY) {
+    return new GoogleTranslateTranslator(env.GOOGLE_TRANSLATE_API_KEY);
+  }
+  const geminiKey = env.GOOGLE_GENERATIVE_AI_API_KEY || env.GEMINI_API_KEY;
+  return geminiKey ? new GeminiTranslator(geminiKey) : null;
+}
+
+const CACHE_LIMIT = 500;
+
+/**
+ * Caches translations and never throws: when translation fails or is not
+ * configured the caller gets null and keeps the original text
+ */
+export class TranslationService {
+  private cache = new Map<string, string>();
+
+  constructor(private readonly translator: Translator | null) {}
+
+  get available(): boolean {
+    return this.translator !== null;
+  }
+
+  async translate(text: string, to: SupportedLanguage, from?: SupportedLanguage): Promise<string | null> {
+    if (!this.translator || !text.trim() || from === to) {
+      return from === to ? text : null;
+    }
+
+    const key = `${from || 'auto'}:${to}:${text}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    try {
+      const translated = await this.translator.translate(text, to, from);
+      if (this.cache.size >= CACHE_LIMIT) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+      this.cache.set(key, translated);
+      return translated;
+    } catch (error) {
+      console.error(`[Translation] ${this.translator.name} failed (${from || 'auto'} -> ${to}):`, error);
+      return null;
+    }
+  }
+}
+
+let translationService: TranslationService | null = null;
+
+export function getTranslationService(): TranslationService {
+  if (!translationService) {
+    translationService = new TranslationService(createTranslator());
+  }
+  return translationService;
+}
+
+/**
+ * A fixed server-side text, written in the language's prompt language, in the
+ * visitor's language; the text as written when it cannot be translated
+ */
+export async function translateForVisitor(text: string, language: SupportedLanguage): Promise<string> {
+  const source = promptLanguageOf(language);
+  if (source === language) return text;
+  return (await getTranslationService().translate(text, language, source)) || text;
+}
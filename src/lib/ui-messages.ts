@@ -0,0 +1,24 @@
+import catalog from './ui-messages.json';
+import { LocalizedText, localize } from './localized-text';
+import { SupportedLanguage } from './languages';
+
+/**
+ * Visitor-facing strings of the kiosk UI, keyed by id. Missing translations
+ * follow the language's fallbacks, so a new language can be added before
+ * every string is translated.
+ */
+
+export type UIMessageKey = keyof typeof catalog;
+
+export const UI_MESSAGES = catalog as Record<UIMessageKey, LocalizedText>;
+
+/** The message in the language, with {name} placeholders filled from vars */
+export function uiText(
+  key: UIMessageKey,
+  language: SupportedLanguage,
+  vars: Record<string, string | number> = {}
+): string {
+  return localize(UI_MESSAGES[key], language).replace(/\{(\w+)\}/g, (match, name) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
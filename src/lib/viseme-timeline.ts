@@ -0,0 +1,289 @@
+/**
+ * Viseme timelines for TTS clips: which mouth shape the avatar shows when,
+ * produced on the server next to the audio so the mouth follows the vowels
+ * actually spoken instead of the loudness of the waveform.
+ *
+ * Text is turned into a sequence of mouth shapes (one per kana mora, one per
+ * English vowel group) and spread over the clip's duration. When the TTS
+ * engine reports SSML <mark> timepoints, each marked segment is pinned to
+ * its real start time and only the shapes inside it are interpolated.
+ */
+
+import type { LipSyncData, LipSyncFrame } from './lip-sync-analyzer';
+
+export type MouthShape = LipSyncFrame['mouthShape'];
+
+/** 'ssml-marks': segment times reported by the TTS engine; 'text': spread evenly over the clip */
+export type VisemeSource = 'ssml-marks' | 'text';
+
+export interface VisemeTimeline extends LipSyncData {
+  source: VisemeSource;
+}
+
+interface Phone {
+  shape: MouthShape;
+  open: number;
+  /** Relative duration; a mora is 1 */
+  weight: number;
+}
+
+const OPENNESS: Record<MouthShape, number> = {
+  A: 1.0,
+  O: 0.8,
+  E: 0.7,
+  I: 0.5,
+  U: 0.45,
+  Closed: 0,
+};
+
+// Share of a mora spent on the vowel before the mouth narrows for the next consonant
+const VOWEL_HOLD = 0.7;
+const CONSONANT_OPEN = 0.3;
+
+const HIRAGANA_VOWELS: Array<[MouthShape, string]> = [
+  ['A', 'あかさたなはまやらわがざだばぱ'],
+  ['I', 'いきしちにひみりゐぎじぢびぴ'],
+  ['U', 'うくすつぬふむゆるぐずづぶぷゔ'],
+  ['E', 'えけせてねへめれゑげぜでべぺ'],
+  ['O', 'おこそとのほもよろをごぞどぼぽ'],
+];
+
+// Small kana fold into the mora before them: きゃ is one "A" mora
+const SMALL_KANA: Record<string, MouthShape> = {
+  'ぁ': 'A', 'ゃ': 'A', 'ゎ': 'A',
+  'ぃ': 'I',
+  'ぅ': 'U', 'ゅ': 'U',
+  'ぇ': 'E',
+  'ぉ': 'O', 'ょ': 'O',
+};
+
+const KANA_SHAPES: Record<string, MouthShape> = {};
+HIRAGANA_VOWELS.forEach(([shape, kana]) => {
+  kana.split('').forEach(char => { KANA_SHAPES[char] = shape; });
+});
+
+const ENGLISH_VOWEL_GROUPS: Record<string, MouthShape> = {
+  oo: 'U', ew: 'U', ue: 'U',
+  ee: 'I', ea: 'I', ie: 'I', ey: 'I',
+  ai: 'E', ay: 'E',
+  ou: 'O', ow: 'O', oa: 'O', au: 'O', aw: 'O', oi: 'O', oy: 'O',
+};
+
+const ENGLISH_VOWELS: Record<string, MouthShape> = { a: 'A', e: 'E', i: 'I', o: 'O', u: 'U', y: 'I' };
+
+const SHORT_PAUSE = /[、，,:;：；・]/;
+const LONG_PAUSE = /[。．.!?！？\n]/;
+
+/** Katakana shares the hiragana table, 0x60 code points higher */
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
+
+function isKanji(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3400 && code <= 0x4dbf) || char === '々';
+}
+
+function isKana(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code >= 0x3041 && code <= 0x309f) || (code >= 0x30a0 && code <= 0x30ff);
+}
+
+function mora(shape: MouthShape, weight: number = 1): Phone {
+  return { shape, open: OPENNESS[shape], weight };
+}
+
+function pause(weight: number): Phone {
+  return { shape: 'Closed', open: 0, weight };
+}
+
+function englishWordPhones(word: string): Phone[] {
+  const lower = word.toLowerCase();
+  const groups: Array<{ text: string; index: number }> = [];
+  const pattern = /[aeiouy]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(lower)) !== null) {
+    // Word-initial y is a consonant ("yes")
+    const text = match.index === 0 && match[0].charAt(0) === 'y' && match[0].length > 1 ? match[0].slice(1) : match[0];
+    groups.push({ text, index: match.index + match[0].length - text.length });
+  }
+  // Silent final e ("make")
+  if (groups.length > 1 && groups[groups.length - 1].text === 'e' && /[^aeiouy]e$/.test(lower)) {
+    groups.pop();
+  }
+  if (groups.length === 0) {
+    // Acronyms and consonant-only tokens still move the mouth once
+    return [mora('E')];
+  }
+
+  const phones: Phone[] = [];
+  groups.forEach(group => {
+    // Lips close for b, m and p before a vowel
+    if (/[bmp]/.test(lower.charAt(group.index - 1))) {
+      phones.push(pause(0.3));
+    }
+    const shape = ENGLISH_VOWEL_GROUPS[group.text.slice(0, 2)] || ENGLISH_VOWELS[group.text.charAt(0)];
+    phones.push(mora(shape));
+  });
+  return phones;
+}
+
+/**
+ * Mouth shapes for a piece of spoken text. Kanji and digits have no reading
+ * without a dictionary, so each counts as two half-open moras.
+ */
+function textToPhones(text: string): Phone[] {
+  const phones: Phone[] = [];
+  const chars = text.split('');
+  let i = 0;
+
+  while (i < chars.length) {
+    const char = chars[i];
+
+    if (/[A-Za-z]/.test(char)) {
+      let word = '';
+      while (i < chars.length && /[A-Za-z']/.test(chars[i])) word += chars[i++];
+      phones.push(...englishWordPhones(word));
+      continue;
+    }
+    i++;
+
+    const hiragana = toHiragana(char);
+    const last = phones[phones.length - 1];
+    if (SMALL_KANA[hiragana] && last && last.shape !== 'Closed') {
+      last.shape = SMALL_KANA[hiragana];
+      last.open = OPENNESS[last.shape];
+    } else if (KANA_SHAPES[hiragana] || SMALL_KANA[hiragana]) {
+      phones.push(mora(KANA_SHAPES[hiragana] || SMALL_KANA[hiragana]));
+    } else if (hiragana === 'ん' || hiragana === 'っ') {
+      // Nasal and geminate moras keep their length with the mouth nearly shut
+      phones.push(pause(1));
+    } else if (char === 'ー' || char === '〜') {
+      phones.push(last && last.shape !== 'Closed' ? { ...last } : pause(1));
+    } else if (isKanji(char) || /[0-9０-９]/.test(char)) {
+      phones.push({ shape: 'A', open: 0.6, weight: 1 }, { shape: 'E', open: 0.5, weight: 1 });
+    } else if (isKana(char)) {
+      // Iteration marks and other rare kana
+      phones.push(last ? { ...last } : mora('A'));
+    } else if (LONG_PAUSE.test(char)) {
+      phones.push(pause(3));
+    } else if (SHORT_PAUSE.test(char)) {
+      phones.push(pause(2));
+    } else if (/\s/.test(char)) {
+      phones.push(pause(0.3));
+    }
+  }
+
+  return phones;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Lay phones out between start and end, appending keyframes */
+function layOut(phones: Phone[], start: number, end: number, frames: LipSyncFrame[]): void {
+  const totalWeight = phones.reduce((sum, phone) => sum + phone.weight, 0);
+  if (totalWeight === 0 || end <= start) return;
+
+  const secondsPerWeight = (end - start) / totalWeight;
+  let time = start;
+  phones.forEach(phone => {
+    const length = phone.weight * secondsPerWeight;
+    frames.push({ time: round(time), volume: phone.open, mouthOpen: phone.open, mouthShape: phone.shape });
+    if (phone.shape !== 'Closed') {
+      // Narrow towards the next consonant, so repeated vowels still read as separate moras
+      const open = phone.open * CONSONANT_OPEN;
+      frames.push({ time: round(time + length * VOWEL_HOLD), volume: open, mouthOpen: open, mouthShape: phone.shape });
+    }
+    time += length;
+  });
+}
+
+function finish(frames: LipSyncFrame[], duration: number, source: VisemeSource): VisemeTimeline {
+  frames.push({ time: round(duration), volume: 0, mouthOpen: 0, mouthShape: 'Closed' });
+  return { frames, duration, source };
+}
+
+/** Spread the text's mouth shapes evenly over a clip of the given length */
+export function buildVisemeTimeline(text: string, duration: number): VisemeTimeline {
+  const frames: LipSyncFrame[] = [];
+  layOut(textToPhones(text), 0, duration, frames);
+  return finish(frames, duration, 'text');
+}
+
+/**
+ * Pieces of text to put an SSML <mark> before. Breaks only where a word
+ * boundary is certain (spaces, punctuation, kana followed by kanji), since
+ * a mark inside a word can change how the engine reads it.
+ */
+export function splitIntoMarkSegments(text: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  const chars = text.split('');
+
+  chars.forEach((char, index) => {
+    const previous = chars[index - 1];
+    const startsWord = current.length > 0 && (
+      (/\s/.test(previous) && !/\s/.test(char))
+      || ((SHORT_PAUSE.test(previous) || LONG_PAUSE.test(previous)) && !SHORT_PAUSE.test(char) && !LONG_PAUSE.test(char))
+      || (isKana(previous) && isKanji(char))
+    );
+    if (startsWord) {
+      segments.push(current);
+      current = '';
+    }
+    current += char;
+  });
+  if (current) segments.push(current);
+  return segments;
+}
+
+/**
+ * Timeline from marked segments. startTimes[i] is when segment i starts
+ * (seconds); a segment without a reported time is merged into the one
+ * before it.
+ */
+export function buildVisemeTimelineFromMarks(
+  segments: string[],
+  startTimes: Array<number | undefined>,
+  duration: number
+): VisemeTimeline {
+  const timed: Array<{ text: string; start: number }> = [];
+  segments.forEach((text, index) => {
+    const start = startTimes[index];
+    if (start !== undefined && Number.isFinite(start) && (timed.length === 0 || start >= timed[timed.length - 1].start)) {
+      timed.push({ text, start: Math.min(start, duration) });
+    } else if (timed.length > 0) {
+      timed[timed.length - 1].text += text;
+    } else {
+      timed.push({ text, start: 0 });
+    }
+  });
+
+  const frames: LipSyncFrame[] = [];
+  timed.forEach((segment, index) => {
+    const end = index + 1 < timed.length ? timed[index + 1].start : duration;
+    layOut(textToPhones(segment.text), segment.start, end, frames);
+  });
+  return finish(frames, duration, 'ssml-marks');
+}
+
+/** Frame showing at a playback time; frames are sorted by time */
+export function findVisemeFrame(timeline: LipSyncData, time: number): LipSyncFrame | null {
+  const { frames } = timeline;
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (frames[middle].time <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found === -1 ? null : frames[found];
+}
@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase';
+import { ConversationManager } from './supabase-memory';
+import { getKioskLocation } from './staff-escalation';
+import type { SupportedLanguage } from '../mastra/types/config';
+import { promptLanguageOf } from './languages';
+
+/**
+ * First-visit registration at the kiosk. A visitor who agrees to the consent
+ * notice gives their name, affiliation and purpose (by voice or touch, read
+ * back for confirmation), is stored in the visitors table and gets a visitor
+ * code with a QR code for next time. Returning visitors check in with that
+ * code. Each registration or check-in starts a conversation session linked
+ * to the visitor and produces the arrival notice sent to reception.
+ *
+ * Visitors not seen for VISITOR_RETENTION_DAYS are deleted by
+ * /api/cron/purge-visitors.
+ */
+
+export interface Visitor {
+  id: string;
+  /** Shown under the QR code, e.g. EC-7K2M9QXA */
+  visitorCode: string;
+  name: string;
+  affiliation: string | null;
+  purpose: string | null;
+  language: SupportedLanguage;
+  /** Version of the consent notice the visitor agreed to */
+  consentVersion: string;
+  consentedAt: string;
+  visitCount: number;
+  firstVisitAt: string;
+  lastVisitAt: string;
+}
+
+export type NewVisitor = Pick<
+  Visitor,
+  'visitorCode' | 'name' | 'affiliation' | 'purpose' | 'language' | 'consentVersion' | 'consentedAt'
+>;
+
+export interface VisitorDetails {
+  name: string;
+  affiliation?: string | null;
+  purpose?: string | null;
+}
+
+export interface VisitorRegistrationRequest extends VisitorDetails {
+  language: SupportedLanguage;
+  /** The visitor agreed to the current consent notice */
+  consent: boolean;
+}
+
+export interface VisitorCheckInRequest {
+  /** Visitor code as typed, or the scanned QR payload */
+  code: string;
+  language: SupportedLanguage;
+  /** Agreement to the current notice, needed when the visitor agreed to an older one */
+  consent?: boolean;
+}
+
+/** What reception receives through ReceptionSystemWebSocket.notifyVisitorArrival */
+export interface VisitorArrival {
+  visitorId: string;
+  visitorCode: string;
+  name: string;
+  affiliation: string | null;
+  purpose: string | null;
+  language: SupportedLanguage;
+  returning: boolean;
+  visitCount: number;
+  location: string;
+  arrivedAt: string;
+}
+
+export interface VisitorCheckInResult {
+  visitor: Visitor;
+  returning: boolean;
+  /** conversation_sessions row linked to the visitor; null when it could not be created */
+  conversationSessionId: string | null;
+  arrival: VisitorArrival;
+}
+
+export interface VisitorListFilters {
+  /** Matches name, affiliation or visitor code */
+  search?: string;
+  limit?: number;
+}
+
+/**
+ * Bad input, missing consent or an unknown visitor; API routes map this to
+ * 400, 409 (consent needs renewing) or 404
+ */
+export class VisitorError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'VisitorError';
+  }
+}
+
+/** Bump when the consent notice text changes; returning visitors are asked again */
+export const VISITOR_CONSENT_VERSION = '2025-07';
+
+export const DEFAULT_VISITOR_RETENTION_DAYS = 365;
+
+/** Prefix of the QR payload, so other QR codes held up to the camera are ignored */
+export const VISITOR_QR_PREFIX = 'engineercafe:visitor:';
+
+const CODE_PREFIX = 'EC-';
+const CODE_LENGTH = 8;
+// Crockford base32: no I, L, O or U to misread
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_ATTEMPTS = 5;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_AFFILIATION_LENGTH = 200;
+const MAX_PURPOSE_LENGTH = 500;
+
+export function getVisitorRetentionDays(): number {
+  const days = Number(process.env.VISITOR_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? Math.floor(days) : DEFAULT_VISITOR_RETENTION_DAYS;
+}
+
+export function generateVisitorCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET.charAt(bytes[i] % CODE_ALPHABET.length);
+  return CODE_PREFIX + code;
+}
+
+export function visitorQrPayload(visitorCode: string): string {
+  return VISITOR_QR_PREFIX + visitorCode;
+}
+
+/**
+ * Normalise a typed code or scanned QR payload to EC-XXXXXXXX. Case, spaces,
+ * a missing prefix and the letters Crockford base32 leaves out (O for 0,
+ * I and L for 1) are tolerated; anything else is null.
+ */
+export function parseVisitorCode(input: string): string | null {
+  let code = input.trim();
+  if (code.toLowerCase().indexOf(VISITOR_QR_PREFIX) === 0) {
+    code = code.slice(VISITOR_QR_PREFIX.length);
+  }
+  code = code.toUpperCase().replace(/[\s-]/g, '');
+  if (code.indexOf('EC') === 0 && code.length === CODE_LENGTH + 2) code = code.slice(2);
+  code = code.replace(/O/g, '0').replace(/[IL]/g, '1');
+
+  if (code.length !== CODE_LENGTH) return null;
+  for (let i = 0; i < code.length; i++) {
+    if (CODE_ALPHABET.indexOf(code.charAt(i)) === -1) return null;
+  }
+  return CODE_PREFIX + code;
+}
+
+function cleanField(value: string | null | undefined, maxLength: number): string | null {
+  const cleaned = (value || '').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+  return cleaned || null;
+}
+
+export interface VisitorStore {
+  /** Null when the visitor code is already taken */
+  create(visitor: NewVisitor): Promise<Visitor | null>;
+  get(id: string): Promise<Visitor | null>;
+  findByCode(visitorCode: string): Promise<Visitor | null>;
+  /** Count a visit, and record renewed consent when given */
+  recordVisit(id: string, at: string, consent?: { version: string; at: string }): Promise<Visitor | null>;
+  /** Most recently seen first */
+  list(filters?: VisitorListFilters): Promise<Visitor[]>;
+  delete(id: string): Promise<boolean>;
+  /** Delete visitors last seen before the cutoff; returns how many */
+  deleteNotSeenSince(cutoff: string): Promise<number>;
+  /** Start a conversation session with conversation_sessions.visitor_id set */
+  startConversation(visitorId: string, language: SupportedLanguage): Promise<string>;
+}
+
+function toVisitor(row: any): Visitor {
+  return {
+    id: row.id,
+    visitorCode: row.visitor_code,
+    name: row.name,
+    affiliation: row.affiliation,
+    purpose: row.purpose,
+    language: row.language,
+    consentVersion: row.consent_version,
+    consentedAt: row.consented_at,
+    visitCount: row.visit_count,
+    firstVisitAt: row.first_visit_at,
+    lastVisitAt: row.last_visit_at,
+  };
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * visitors table
+ * (supabase/migrations/20250701000000_add_visitors.sql)
+ */
+export class SupabaseVisitorStore implements VisitorStore {
+  async create(visitor: NewVisitor): Promise<Visitor | null> {
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .insert({
+        visitor_code: visitor.visitorCode,
+        name: visitor.name,
+        affiliation: visitor.affiliation,
+        purpose: visitor.purpose,
+        language: visitor.language,
+        consent_version: visitor.consentVersion,
+        consented_at: visitor.consentedAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return null;
+      throw error;
+    }
+    return toVisitor(data);
+  }
+
+  async get(id: string): Promise<Visitor | null> {
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toVisitor(data) : null;
+  }
+
+  async findByCode(visitorCode: string): Promise<Visitor | null> {
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .select('*')
+      .eq('visitor_code', visitorCode)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toVisitor(data) : null;
+  }
+
+  async recordVisit(id: string, at: string, consent?: { version: string; at: string }): Promise<Visitor | null> {
+    const visitor = await this.get(id);
+    if (!visitor) return null;
+
+    const row: Record<string, any> = {
+      visit_count: visitor.visitCount + 1,
+      last_visit_at: at,
+      updated_at: new Date().toISOString(),
+    };
+    if (consent) {
+      row.consent_version = consent.version;
+      row.consented_at = consent.at;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toVisitor(data) : null;
+  }
+
+  async list(filters: VisitorListFilters = {}): Promise<Visitor[]> {
+    let query = supabaseAdmin
+      .from('visitors')
+      .select('*')
+      .order('last_visit_at', { ascending: false })
+      .limit(filters.limit || 50);
+    const search = (filters.search || '').replace(/[%_,()]/g, '').trim();
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,affiliation.ilike.%${search}%,visitor_code.ilike.%${search}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toVisitor);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async deleteNotSeenSince(cutoff: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('visitors')
+      .delete()
+      .lt('last_visit_at', cutoff)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  startConversation(visitorId: string, language: SupportedLanguage): Promise<string> {
+    return ConversationManager.createSession(visitorId, language);
+  }
+}
+
+/** Process-local store for tests */
+export class InMemoryVisitorStore implements VisitorStore {
+  private visitors: Visitor[] = [];
+  /** Conversation session id to visitor id */
+  readonly conversations = new Map<string, string>();
+  private nextId = 1;
+
+  async create(visitor: NewVisitor): Promise<Visitor | null> {
+    if (this.visitors.some(existing => existing.visitorCode === visitor.visitorCode)) return null;
+    const now = new Date().toISOString();
+    const created: Visitor = {
+      ...visitor,
+      id: `visitor-${this.nextId++}`,
+      visitCount: 1,
+      firstVisitAt: now,
+      lastVisitAt: now,
+    };
+    this.visitors.push(created);
+    return { ...created };
+  }
+
+  async get(id: string): Promise<Visitor | null> {
+    const found = this.visitors.find(visitor => visitor.id === id);
+    return found ? { ...found } : null;
+  }
+
+  async findByCode(visitorCode: string): Promise<Visitor | null> {
+    const found = this.visitors.find(visitor => visitor.visitorCode === visitorCode);
+    return found ? { ...found } : null;
+  }
+
+  async recordVisit(id: string, at: string, consent?: { version: string; at: string }): Promise<Visitor | null> {
+    const found = this.visitors.find(visitor => visitor.id === id);
+    if (!found) return null;
+    found.visitCount++;
+    found.lastVisitAt = at;
+    if (consent) {
+      found.consentVersion = consent.version;
+      found.consentedAt = consent.at;
+    }
+    return { ...found };
+  }
+
+  async list(filters: VisitorListFilters = {}): Promise<Visitor[]> {
+    const search = (filters.search || '').toLowerCase();
+    return this.visitors
+      .filter(visitor => !search || [visitor.name, visitor.affiliation || '', visitor.visitorCode]
+        .some(field => field.toLowerCase().includes(search)))
+      .sort((a, b) => b.lastVisitAt.localeCompare(a.lastVisitAt))
+      .slice(0, filters.limit || 50);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = this.visitors.length;
+    this.visitors = this.visitors.filter(visitor => visitor.id !== id);
+    return this.visitors.length < before;
+  }
+
+  async deleteNotSeenSince(cutoff: string): Promise<number> {
+    const before = this.visitors.length;
+    this.visitors = this.visitors.filter(visitor => visitor.lastVisitAt >= cutoff);
+    return before - this.visitors.length;
+  }
+
+  async startConversation(visitorId: string): Promise<string> {
+    const id = `conversation-${this.conversations.size + 1}`;
+    this.conversations.set(id, visitorId);
+    return id;
+  }
+}
+
+export interface VisitorRegistrationOptions {
+  retentionDays?: number;
+  location?: string;
+}
+
+export class VisitorRegistrationService {
+  constructor(
+    private readonly store: VisitorStore,
+    private readonly options: VisitorRegistrationOptions = {}
+  ) {}
+
+  get retentionDays(): number {
+    return this.options.retentionDays || getVisitorRetentionDays();
+  }
+
+  async register(request: VisitorRegistrationRequest): Promise<VisitorCheckInResult> {
+    if (request.consent !== true) {
+      throw new VisitorError('Consent to the visitor data notice is required to register');
+    }
+    const details = validateVisitorDetails(request);
+    const now = new Date().toISOString();
+
+    let visitor: Visitor | null = null;
+    for (let attempt = 0; attempt < CODE_ATTEMPTS && !visitor; attempt++) {
+      visitor = await this.store.create({
+        ...details,
+        visitorCode: generateVisitorCode(),
+        language: request.language,
+        consentVersion: VISITOR_CONSENT_VERSION,
+        consentedAt: now,
+      });
+    }
+    if (!visitor) {
+      throw new Error('Could not allocate a unique visitor code');
+    }
+
+    return this.arrive(visitor, false, request.language);
+  }
+
+  /**
+   * Check in a returning visitor. A visitor who agreed to an older consent
+   * notice gets a 409 until they agree to the current one.
+   */
+  async checkIn(request: VisitorCheckInRequest): Promise<VisitorCheckInResult> {
+    const code = parseVisitorCode(request.code || '');
+    if (!code) {
+      throw new VisitorError('Invalid visitor code');
+    }
+    const visitor = await this.store.findByCode(code);
+    if (!visitor) {
+      throw new VisitorError(`Visitor not found: ${code}`, 404);
+    }
+
+    const outdated = visitor.consentVersion !== VISITOR_CONSENT_VERSION;
+    if (outdated && request.consent !== true) {
+      throw new VisitorError('Consent to the current visitor data notice is required', 409);
+    }
+
+    const now = new Date().toISOString();
+    const visited = await this.store.recordVisit(
+      visitor.id,
+      now,
+      outdated ? { version: VISITOR_CONSENT_VERSION, at: now } : undefined
+    );
+    if (!visited) {
+      // Deleted between lookup and update
+      throw new VisitorError(`Visitor not found: ${code}`, 404);
+    }
+    return this.arrive(visited, true, request.language);
+  }
+
+  list(filters: VisitorListFilters = {}): Promise<Visitor[]> {
+    return this.store.list(filters);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.store.delete(id))) {
+      throw new VisitorError(`Visitor not found: ${id}`, 404);
+    }
+  }
+
+  /** Delete visitors not seen within the retention period */
+  purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000);
+    return this.store.deleteNotSeenSince(cutoff.toISOString());
+  }
+
+  private async arrive(visitor: Visitor, returning: boolean, language: SupportedLanguage): Promise<VisitorCheckInResult> {
+    let conversationSessionId: string | null = null;
+    try {
+      conversationSessionId = await this.store.startConversation(visitor.id, language);
+    } catch (error) {
+      // The visitor is registered either way; only the session link is missing
+      console.error('[Visitors] Failed to start a conversation session:', error);
+    }
+
+    return {
+      visitor,
+      returning,
+      conversationSessionId,
+      arrival: {
+        visitorId: visitor.id,
+        visitorCode: visitor.visitorCode,
+        name: visitor.name,
+        affiliation: visitor.affiliation,
+        purpose: visitor.purpose,
+        language,
+        returning,
+        visitCount: visitor.visitCount,
+        location: this.options.location || getKioskLocation(),
+        arrivedAt: visitor.lastVisitAt,
+      },
+    };
+  }
+}
+
+/** Trimmed details; a name is required */
+export function validateVisitorDetails(details: VisitorDetails): Pick<Visitor, 'name' | 'affiliation' | 'purpose'> {
+  const name = cleanField(details.name, MAX_NAME_LENGTH);
+  if (!name) {
+    throw new VisitorError('Visitor name is required');
+  }
+  return {
+    name,
+    affiliation: cleanField(details.affiliation, MAX_AFFILIATION_LENGTH),
+    purpose: cleanField(details.purpose, MAX_PURPOSE_LENGTH),
+  };
+}
+
+/** What the avatar reads back before the visitor confirms their details */
+export function visitorReadBackMessage(details: VisitorDetails, language: SupportedLanguage): string {
+  const affiliation = cleanField(details.affiliation, MAX_AFFILIATION_LENGTH);
+  const purpose = cleanField(details.purpose, MAX_PURPOSE_LENGTH);
+  if (promptLanguageOf(language) === 'en') {
+    return `[neutral]Let me confirm. Your name is ${details.name.trim()}`
+      + (affiliation ? `, from ${affiliation}` : '')
+      + (purpose ? `, and you are here for ${purpose}` : '')
+      + '. Is that correct?[/neutral]';
+  }
+  return `[neutral]確認します。お名前は${details.name.trim()}様`
+    + (affiliation ? `、ご所属は${affiliation}` : '')
+    + (purpose ? `、ご用件は${purpose}` : '')
+    + 'ですね。よろしいですか？[/neutral]';
+}
+
+/** What the avatar says once the visitor is registered or checked in */
+export function visitorWelcomeMessage(result: Pick<VisitorCheckInResult, 'visitor' | 'returning'>, language: SupportedLanguage): string {
+  const { visitor, returning } = result;
+  if (promptLanguageOf(language) === 'en') {
+    return returning
+      ? `[happy]Welcome back, ${visitor.name}! I've let reception know you're here.[/happy]`
+      : `[happy]Thank you, ${visitor.name}, you're registered. Please keep the QR code on screen for your next visit; I've let reception know you're here.[/happy]`;
+  }
+  return returning
+    ? `[happy]${visitor.name}様、おかえりなさい！受付にご来館をお知らせしました。[/happy]`
+    : `[happy]${visitor.name}様、ご登録ありがとうございます。次回は画面のQRコードでチェックインできます。受付にご来館をお知らせしました。[/happy]`;
+}
+
+let service: VisitorRegistrationService | null = null;
+
+export function getVisitorRegistrationService(): VisitorRegistrationService {
+  if (!service) {
+    service = new VisitorRegistrationService(new SupabaseVisitorStore());
+  }
+  return service;
+}
@@ -0,0 +1,98 @@
+/**
+ * Energy-based voice activity detection on a microphone stream
+ * Used for endpointing (stop recording after trailing silence) and barge-in
+ * (detect the visitor speaking over the character's answer).
+ */
+
+export interface VoiceActivityOptions {
+  /** RMS level (0-1) treated as speech */
+  threshold?: number;
+  /** Speech must last this long before onSpeechStart fires */
+  minSpeechMs?: number;
+  /** Silence after speech that fires onSpeechEnd */
+  silenceMs?: number;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+const DEFAULT_OPTIONS = {
+  threshold: 0.02,
+  minSpeechMs: 250,
+  silenceMs: 1200,
+};
+
+const POLL_INTERVAL_MS = 50;
+
+export class VoiceActivityDetector {
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private speaking = false;
+  private speechStartedAt: number | null = null;
+  private lastSpeechAt = 0;
+  private options: VoiceActivityOptions & typeof DEFAULT_OPTIONS;
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(stream: MediaStream): void {
+    this.stop();
+
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    const analyser = this.audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    this.source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    this.timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      this.update(Math.sqrt(sum / samples.length), Date.now());
+    }, POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.speaking = false;
+    this.speechStartedAt = null;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  private update(level: number, now: number): void {
+    if (level >= this.options.threshold) {
+      this.lastSpeechAt = now;
+      if (this.speechStartedAt === null) {
+        this.speechStartedAt = now;
+      }
+      if (!this.speaking && now - this.speechStartedAt >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.options.onSpeechStart?.();
+      }
+      return;
+    }
+
+    if (this.speaking && now - this.lastSpeechAt >= this.options.silenceMs) {
+      this.speaking = false;
+      this.speechStartedAt = null;
+      this.options.onSpeechEnd?.();
+    } else if (!this.speaking && now - this.lastSpeechAt >= POLL_INTERVAL_MS * 2) {
+      // A short blip that never became speech
+      this.speechStartedAt = null;
+    }
+  }
+}
@@ -6,7 +6,8 @@ export class VoiceRecorder {
 
   constructor(
     private onDataAvailable: (audioBlob: Blob) => void,
-    private onError: (error: Error) => void
+    private onError: (error: Error) => void,
+    private options: StreamingRecordingOptions = {}
   ) {}
 
   async initialize(): Promise<void> {
@@ -102,6 +103,7 @@ export class VoiceRecorder {
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           this.audioChunks.push(event.data);
+          this.options.onChunk?.(event.data);
         }
       };
 
@@ -140,7 +142,7 @@ export class VoiceRecorder {
 
     try {
       this.audioChunks = [];
-      this.mediaRecorder.start();
+      this.mediaRecorder.start(this.options.timesliceMs);
       this.isRecording = true;
     } catch (error) {
       this.isRecording = false;
@@ -198,7 +200,7 @@ export class VoiceRecorder {
       this.stream = null;
     }
 
-    this.audioChunks = [];
+    // Chunks are left for the pending onstop; start() resets them
     this.isRecording = false;
   }
 
@@ -217,6 +219,15 @@ export class VoiceRecorder {
     return this.mediaRecorder !== null && this.stream !== null;
   }
 
+  /** Microphone stream, e.g. for voice activity detection while recording */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  getMimeType(): string {
+    return this.mediaRecorder?.mimeType || '';
+  }
+
   private getSupportedMimeType(): string {
     // Check if we're on iOS
     const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream;
@@ -350,6 +361,13 @@ export interface RecordingOptions {
   mimeType?: string;
 }
 
+export interface StreamingRecordingOptions {
+  /** Emit audio every timesliceMs while recording instead of only on stop */
+  timesliceMs?: number;
+  /** Called with each timeslice; the first chunk carries the container header */
+  onChunk?: (chunk: Blob) => void;
+}
+
 export interface AnalysisResult {
   level: number;
   duration: number;
@@ -0,0 +1,117 @@
+/**
+ * Streaming voice responses (/api/voice with stream: true) and streaming
+ * recognition (/api/voice/stream).
+ * The server writes one JSON event per line (NDJSON); clients read them with
+ * readVoiceStream() and enqueue each chunk's audio as soon as it arrives.
+ */
+
+import type { EmotionData } from './emotion-manager';
+import type { VisemeTimeline } from './viseme-timeline';
+
+export const VOICE_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/** One sentence-sized piece of the answer with its synthesised audio */
+export interface VoiceStreamChunk {
+  text: string;
+  emotion: string;
+  /** MP3 audio; missing when TTS failed for this chunk */
+  audioBase64?: string;
+  /** Mouth shapes for this chunk's audio */
+  visemes?: VisemeTimeline;
+  index: number;
+  isLast: boolean;
+}
+
+export type VoiceStreamEvent =
+  | { type: 'transcript'; transcript: string }
+  | ({ type: 'chunk' } & VoiceStreamChunk)
+  | {
+      type: 'done';
+      transcript: string;
+      response: string;
+      shouldUpdateCharacter: boolean;
+      characterAction?: string;
+      emotion?: EmotionData;
+      primaryEmotion?: string;
+      sessionId?: string | null;
+    }
+  | { type: 'error'; error: string };
+
+/**
+ * Events of a streaming recognition session. Partials replace each other;
+ * endpoint means the recogniser heard the visitor stop speaking and the
+ * client should stop sending audio.
+ */
+export type RecognitionStreamEvent =
+  | { type: 'ready'; streamId: string }
+  | { type: 'partial'; transcript: string }
+  | { type: 'final'; transcript: string; confidence?: number }
+  | { type: 'endpoint' }
+  | { type: 'error'; error: string };
+
+/**
+ * Serialize agent events into an NDJSON body. Errors thrown by the generator
+ * become a final error event since the HTTP status has already been sent.
+ */
+export function createVoiceStreamBody<T extends { type: string } = VoiceStreamEvent>(
+  events: AsyncIterable<T>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+  const encode = (event: T | { type: 'error'; error: string }) => encoder.encode(JSON.stringify(event) + '\n');
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encode(value));
+        }
+      } catch (error) {
+        console.error('[VoiceStream] Streaming response failed:', error);
+        controller.enqueue(encode({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client went away; stop generating further chunks
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Parse an NDJSON voice stream into events as lines arrive
+ */
+export async function* readVoiceStream<T = VoiceStreamEvent>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as T;
+      }
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer) as T;
+  }
+}
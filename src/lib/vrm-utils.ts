@@ -704,9 +704,9 @@ export class VRMBlendShapeController {
   }
 
   /**
-   * Apply lip-sync frame data
+   * Apply lip-sync frame data, from a server viseme timeline or the audio analyzer
    */
-  applyLipSyncFrame(frame: import('./lip-sync-analyzer').LipSyncFrame): void {
+  applyLipSyncFrame(frame: Pick<import('./lip-sync-analyzer').LipSyncFrame, 'mouthShape' | 'mouthOpen'>): void {
     const vrmViseme = VRMUtils.visemeMapping[frame.mouthShape as keyof typeof VRMUtils.visemeMapping] || 'neutral';
     
     this.setViseme(vrmViseme, frame.mouthOpen);
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+
+/**
+ * Turns official website pages into knowledge base text: main content
+ * extraction, HTML to markdown, chunking by heading and language detection.
+ * Regex based on purpose; the site is server-rendered and we only need text.
+ */
+
+export interface ExtractedPage {
+  title: string;
+  /** <html lang>, when it is ja or en */
+  language: 'ja' | 'en' | null;
+  markdown: string;
+}
+
+export interface MarkdownChunk {
+  content: string;
+  /** Heading path of the section, e.g. "Facilities > Meeting rooms" */
+  heading: string | null;
+  index: number;
+}
+
+const DEFAULT_MAX_CHUNK_CHARS = 1000;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  yen: '¥',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCharCode(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, '');
+
+function tableToMarkdown(table: string): string {
+  const rows = (table.match(/<tr[\s\S]*?<\/tr>/gi) || []).map(row =>
+    (row.match(/<t[hd][^>]*>[\s\S]*?<\/t[hd]>/gi) || []).map(cell =>
+      decodeEntities(stripTags(cell)).replace(/\|/g, '\\|').trim()
+    )
+  ).filter(cells => cells.length > 0);
+
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(cells => cells.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+  return ['', line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line), ''].join('\n');
+}
+
+/** Extract the main content of a page as markdown, without navigation chrome */
+export function extractMainContent(html: string): ExtractedPage {
+  const lang = html.match(/<html[^>]*\blang=["']?([a-z]{2})/i)?.[1].toLowerCase();
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|iframe|form|button)\b[\s\S]*?<\/\1>/gi, '');
+
+  // Prefer <main>, then <article>, then <body>
+  body = body.match(/<main\b[^>]*>([\s\S]*)<\/main>/i)?.[1]
+    ?? body.match(/<article\b[^>]*>([\s\S]*)<\/article>/i)?.[1]
+    ?? body.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1]
+    ?? body;
+
+  body = body
+    .replace(/<(nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<table\b[\s\S]*?<\/table>/gi, table => `\n\n${tableToMarkdown(table)}\n\n`)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(text).trim()}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|ul|ol|dl|dt|dd|blockquote|figure|figcaption|pre)\b[^>]*>/gi, '\n\n');
+
+  const markdown = decodeEntities(stripTags(body))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => line !== '-')
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const firstHeading = markdown.match(/^#{1,6} (.+)$/m)?.[1];
+  return {
+    title: decodeEntities(stripTags(titleTag || '')).replace(/\s+/g, ' ').trim() || firstHeading || '',
+    language: lang === 'ja' || lang === 'en' ? lang : null,
+    markdown,
+  };
+}
+
+/** Split long text at sentence ends, falling back to a hard cut */
+function splitLongText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^。！？.!?]+[。！？.!?]*\s*/g) || [text];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+    while (current.length > maxChars) {
+      parts.push(current.slice(0, maxChars).trim());
+      current = current.slice(maxChars);
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Split markdown into chunks of at most maxChars, one heading section at a
+ * time. Each chunk starts with its heading path so it stands on its own.
+ */
+export function chunkMarkdown(markdown: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): MarkdownChunk[] {
+  const sections: Array<{ heading: string | null; paragraphs: string[] }> = [];
+  const path: string[] = [];
+  let current: { heading: string | null; paragraphs: string[] } = { heading: null, paragraphs: [] };
+
+  for (const block of markdown.split(/\n{2,}/)) {
+    const heading = block.match(/^(#{1,6}) (.+)$/);
+    if (heading) {
+      if (current.paragraphs.length > 0) sections.push(current);
+      path.length = Math.min(path.length, heading[1].length - 1);
+      path[heading[1].length - 1] = heading[2].trim();
+      current = { heading: path.filter(Boolean).join(' > '), paragraphs: [] };
+    } else if (block.trim()) {
+      current.paragraphs.push(block.trim());
+    }
+  }
+  if (current.paragraphs.length > 0) sections.push(current);
+
+  const chunks: MarkdownChunk[] = [];
+  for (const section of sections) {
+    const prefix = section.heading ? `${section.heading}\n\n` : '';
+    const budget = Math.max(maxChars - prefix.length, 200);
+    let buffer = '';
+
+    const flush = () => {
+      if (buffer) {
+        chunks.push({ content: `${prefix}${buffer}`, heading: section.heading, index: chunks.length });
+        buffer = '';
+      }
+    };
+
+    for (const paragraph of section.paragraphs) {
+      for (const part of paragraph.length > budget ? splitLongText(paragraph, budget) : [paragraph]) {
+        if (buffer && buffer.length + part.length + 2 > budget) flush();
+        buffer = buffer ? `${buffer}\n\n${part}` : part;
+      }
+    }
+    flush();
+  }
+  return chunks;
+}
+
+/**
+ * Japanese or English by share of Japanese characters among letters.
+ * Mixed text (product names in Japanese prose, a Japanese name in English)
+ * falls back to the page language when it is known.
+ */
+export function detectContentLanguage(text: string, fallback: 'ja' | 'en' | null = null): 'ja' | 'en' {
+  const japanese = (text.match(/[\u3040-\u309f\u30a0-\u30ff\u4e00-\u9faf\u3400-\u4dbf]/g) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  if (japanese + latin === 0) return fallback || 'ja';
+
+  const share = japanese / (japanese + latin);
+  if (share >= 0.5) return 'ja';
+  if (share <= 0.1) return 'en';
+  return fallback || (share >= 0.25 ? 'ja' : 'en');
+}
+
+export function contentHash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
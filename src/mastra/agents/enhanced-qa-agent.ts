@@ -2,14 +2,42 @@ import { Agent } from '@mastra/core/agent';
 import { EmotionTagParser } from '../../lib/emotion-tag-parser';
 import { ragSearchTool } from '../tools/rag-search';
 import { GeneralWebSearchTool } from '../tools/general-web-search';
+import { formatEventsForAI, resolveCalendarWindow } from '../tools/calendar-service';
 import { SupportedLanguage } from '../types/config';
-import { SimplifiedMemorySystem } from '@/lib/simplified-memory';
+import { MemoryScope, SimplifiedMemorySystem } from '@/lib/simplified-memory';
 import { ClarificationUtils } from '@/lib/clarification-utils';
+import {
+  facilityForQuestion,
+  formatFacilityScheduleForAI,
+  getFacilityScheduleService,
+} from '@/lib/facility-schedule';
+import {
+  formatRoomAvailabilityForAI,
+  getRoomBookingService,
+  parseRoomRequest,
+  RoomRequest,
+  roomReservationMessage,
+  roomUnavailableMessage,
+} from '@/lib/room-booking';
+import {
+  EscalationError,
+  EscalationUrgency,
+  getStaffEscalationService,
+  StaffEscalation,
+  visitorEscalationMessage,
+} from '@/lib/staff-escalation';
+import { IntentClassifier, QuestionRouter, RouteDecision, loadRoutingConfig } from '../routing/question-router';
+import { DEFAULT_LANGUAGE, promptLanguageOf, withAnswerInstruction } from '@/lib/languages';
+import { translateForVisitor } from '@/lib/translation';
+import { localize } from '@/lib/localized-text';
 
 export class EnhancedQAAgent extends Agent {
   private memory: any;
   private simplifiedMemory: SimplifiedMemorySystem;
   private _tools: Map<string, any> = new Map();
+  private router: QuestionRouter;
+  /** Last room availability asked about, per memory session */
+  private lastRoomRequests = new Map<string, RoomRequest>();
 
   constructor(config: any) {
     super({
@@ -27,6 +55,7 @@ export class EnhancedQAAgent extends Agent {
       this.memory.set('language', 'ja');
     }
     this.simplifiedMemory = new SimplifiedMemorySystem('EnhancedQAAgent');
+    this.router = new QuestionRouter(undefined, this.classifyIntent);
   }
 
   // Method to add tools to this agent
@@ -44,9 +73,64 @@ export class EnhancedQAAgent extends Agent {
     console.log(`[EnhancedQAAgent] Language set to: ${language}`);
   }
 
-  async answerQuestion(question: string, requestLanguage?: SupportedLanguage): Promise<string> {
+  async answerQuestion(question: string, requestLanguage?: SupportedLanguage, scope?: MemoryScope): Promise<string> {
+    const prepared = await this.prepareAnswer(question, requestLanguage, scope);
+    if ('answer' in prepared) {
+      return translateForVisitor(prepared.answer, this.memory.get('language') || DEFAULT_LANGUAGE);
+    }
+
+    const response = await this.generate([
+      { role: 'user', content: prepared.prompt }
+    ]);
+    
+    await this.rememberExchange(prepared.memoryScope, question, response.text);
+    
+    // Auto-enhance response with emotion tags
+    return EmotionTagParser.enhanceAgentResponse(response.text, 'qa', prepared.language);
+  }
+
+  /**
+   * Streaming variant of answerQuestion. Returns the answer directly when no
+   * generation is needed (clarifications), otherwise the model's text deltas
+   * with emotion tags added.
+   * The exchange is stored in memory once the stream has been consumed.
+   */
+  async streamAnswer(question: string, requestLanguage?: SupportedLanguage, scope?: MemoryScope): Promise<string | AsyncIterable<string>> {
+    const prepared = await this.prepareAnswer(question, requestLanguage, scope);
+    if ('answer' in prepared) {
+      return translateForVisitor(prepared.answer, this.memory.get('language') || DEFAULT_LANGUAGE);
+    }
+
+    const result = await this.stream([
+      { role: 'user', content: prepared.prompt }
+    ]);
+    const rememberExchange = this.rememberExchange.bind(this);
+
+    const deltas = (async function* () {
+      let text = '';
+      for await (const delta of result.textStream) {
+        text += delta;
+        yield delta;
+      }
+      await rememberExchange(prepared.memoryScope, question, text);
+    })();
+
+    // Same emotion tagging as answerQuestion, applied as the text streams
+    return EmotionTagParser.enhanceAgentStream(deltas, 'qa');
+  }
+
+  /**
+   * Route the question, gather context and build the LLM prompt
+   */
+  private async prepareAnswer(
+    question: string,
+    requestLanguage?: SupportedLanguage,
+    scope?: MemoryScope
+  ): Promise<{ answer: string } | { prompt: string; language: SupportedLanguage; memoryScope: MemoryScope | null }> {
     // Use the provided language or fall back to memory/default
     const language: SupportedLanguage = requestLanguage || this.memory.get('language') || 'ja';
+    // Without a session there is no conversation memory to read or extend
+    const memoryScope = scope?.sessionId ? scope : null;
     
     // Update memory with the current language to keep it synchronized
     if (requestLanguage) {
@@ -54,7 +138,7 @@ export class EnhancedQAAgent extends Agent {
     }
     
     // Get conversation context first
-    const memoryContext = await this.simplifiedMemory.getContext(question, {
+    const memoryContext = await this.simplifiedMemory.getContext(memoryScope, question, {
       includeKnowledgeBase: false, // We'll handle knowledge search separately
       language: language
     });
@@ -63,29 +147,44 @@ export class EnhancedQAAgent extends Agent {
     const previousSpecificRequest = this.extractPreviousSpecificRequest(memoryContext.recentMessages);
     console.log('[EnhancedQAAgent] Previous specific request:', previousSpecificRequest);
     
-    // Check if the question is about calendar/events or facility information
-    const category = await this.categorizeQuestion(question);
+    // Route the question to calendar, knowledge base, web search or clarification
+    const route = await this.routeQuestion(question);
+    const category = route.intent;
     console.log('[EnhancedQAAgent] Question:', question);
-    console.log('[EnhancedQAAgent] Detected category:', category);
+    console.log('[EnhancedQAAgent] Detected category:', category, {
+      confidence: route.confidence,
+      source: route.source,
+      rule: route.matchedRule?.id,
+    });
     console.log('[EnhancedQAAgent] Memory context available:', memoryContext.recentMessages.length > 0);
     
     let context = '';
     
-    // Use appropriate tool based on category
-    if (category === 'calendar' || category === 'events') {
+    // Use appropriate tool based on the route handler
+    if (route.handler.type === 'calendar') {
       console.log('[EnhancedQAAgent] Using Calendar context');
-      context = await this.getCalendarContext(question);
-    } else if (category === 'facility-info') {
+      context = await this.getCalendarContext(question, language);
+    } else if (route.handler.type === 'rooms') {
+      console.log('[EnhancedQAAgent] Using room availability');
+      const rooms = await this.getRoomContext(question, language, memoryScope, route.handler.reserve === true);
+      if (typeof rooms !== 'string') {
+        return rooms;
+      }
+      context = rooms;
+    } else if (route.handler.type === 'hours') {
+      console.log('[EnhancedQAAgent] Using facility schedule');
+      context = await this.getHoursContext(question, language, route.handler.facility);
+    } else if (route.handler.type === 'rag' && route.handler.checkFollowUp === false) {
       console.log('[EnhancedQAAgent] Using RAG search for facility info');
       context = await this.searchKnowledgeBase(question);
       
       // Check if the result is a clarification message (starts with [curious])
       if (context.startsWith('[curious]')) {
-        return context;
+        return { answer: context };
       }
     } else {
       // Check if this is a contextual response (answering a clarification)
-      const isContextual = await this.isContextualResponse(question);
+      const isContextual = await this.isContextualResponse(question, memoryScope);
       
       if (isContextual) {
         console.log('[EnhancedQAAgent] Contextual response detected - combining with knowledge search');
@@ -117,7 +216,7 @@ export class EnhancedQAAgent extends Agent {
         context = memoryContext.recentMessages.length > 0 
           ? 'Recent conversation history is available' 
           : 'No recent conversation history available';
-      } else if (GeneralWebSearchTool.shouldUseWebSearch(question, category)) {
+      } else if (route.handler.type === 'web-search' || GeneralWebSearchTool.shouldUseWebSearch(question, category)) {
         console.log('[EnhancedQAAgent] Using web search for general query');
         context = await this.performWebSearch(question);
       } else {
@@ -127,7 +226,7 @@ export class EnhancedQAAgent extends Agent {
         
         // Check if the result is a clarification message (contains question patterns)
         if (ClarificationUtils.isClarificationMessage(context)) {
-          return context;
+          return { answer: context };
         }
         
         // If RAG search returns irrelevant results, fallback to web search
@@ -144,19 +243,19 @@ export class EnhancedQAAgent extends Agent {
     
     // Special handling for memory-related questions and contextual responses
     const isMemoryQuestion = this.isMemoryRelatedQuestion(question);
-    const isContextual = await this.isContextualResponse(question);
+    const isContextual = await this.isContextualResponse(question, memoryScope);
     
     let prompt;
     
     if (isMemoryQuestion || isContextual) {
       if (isContextual) {
         // For contextual responses, understand the original question from conversation history
-        prompt = language === 'en'
+        prompt = promptLanguageOf(language) === 'en'
           ? `The user is responding to a clarification question. Look at the conversation history to understand what they originally asked, then provide the specific information they need: ${question}\nConversation History: ${conversationContext}\nContext: ${fullContext}\nCombine their clarification with their original question to provide the right answer. Focus on what they specifically chose and their original question.`
           : `ユーザーは明確化の質問に答えています。会話履歴から元の質問を理解し、必要な具体的情報を提供してください: ${question}\n会話履歴: ${conversationContext}\n文脈: ${fullContext}\n明確化の回答と元の質問を組み合わせて適切な答えを提供してください。ユーザーが選択した内容と元の質問に焦点を当ててください。`;
       } else {
         // Standard memory question handling
-        prompt = language === 'en'
+        prompt = promptLanguageOf(language) === 'en'
           ? `The user is asking about previous conversation. Use the conversation history to answer: ${question}\nConversation History: ${conversationContext}\nIf there is recent conversation history, reference what was discussed. If not, explain that you don't have previous conversation context.`
           : `ユーザーは過去の会話について質問しています。会話履歴を使って答えてください: ${question}\n会話履歴: ${conversationContext}\n最近の会話履歴がある場合は、何について話したかを参照してください。ない場合は、過去の会話の文脈がないことを説明してください。`;
       }
@@ -173,56 +272,56 @@ export class EnhancedQAAgent extends Agent {
         if (isFollowUp && previousSpecificRequest) {
           // If following up with a previous specific request (e.g., hours), focus on that
           const requestTypePrompt = previousSpecificRequest === 'hours' 
-            ? (language === 'en' ? 'operating hours' : '営業時間')
+            ? (promptLanguageOf(language) === 'en' ? 'operating hours' : '営業時間')
             : previousSpecificRequest === 'price'
-            ? (language === 'en' ? 'pricing information' : '料金情報')
+            ? (promptLanguageOf(language) === 'en' ? 'pricing information' : '料金情報')
             : previousSpecificRequest === 'location'
-            ? (language === 'en' ? 'location information' : '場所情報')
+            ? (promptLanguageOf(language) === 'en' ? 'location information' : '場所情報')
             : previousSpecificRequest === 'booking'
-            ? (language === 'en' ? 'reservation/booking information' : '予約情報')
+            ? (promptLanguageOf(language) === 'en' ? 'reservation/booking information' : '予約情報')
             : previousSpecificRequest === 'facility'
-            ? (language === 'en' ? 'facility/equipment information' : '設備情報')
+            ? (promptLanguageOf(language) === 'en' ? 'facility/equipment information' : '設備情報')
             : previousSpecificRequest === 'access'
-            ? (language === 'en' ? 'access/directions' : 'アクセス方法')
-            : (language === 'en' ? 'requested information' : '要求された情報');
+            ? (promptLanguageOf(language) === 'en' ? 'access/directions' : 'アクセス方法')
+            : (promptLanguageOf(language) === 'en' ? 'requested information' : '要求された情報');
             
-          prompt = language === 'en'
+          prompt = promptLanguageOf(language) === 'en'
             ? `The user previously asked about ${requestTypePrompt} and is now asking about a specific option. Give ONLY the ${requestTypePrompt} for what they're asking about: ${question}\nContext: ${fullContext}\n\nIMPORTANT: Answer with ONLY the ${requestTypePrompt}. Do not include any other information. Maximum 1 sentence. Speak naturally in conversational tone, not like reading a table or list.`
             : `ユーザーは以前${requestTypePrompt}について尋ね、今は特定の選択肢について聞いています。聞かれているものの${requestTypePrompt}のみを答えてください: ${question}\n文脈: ${fullContext}\n\n重要：${requestTypePrompt}のみを答えてください。他の情報は含めないでください。最大1文。表や箇条書きを読み上げるのではなく、自然な会話調で答えてください。`;
         } else if (isFollowUp) {
-          prompt = language === 'en'
+          prompt = promptLanguageOf(language) === 'en'
             ? `The user is asking a follow-up question about another option. Give a brief, direct answer focusing only on what they asked about: ${question}\nContext: ${fullContext}\n\nIMPORTANT: Keep your response extremely brief (1 sentence). Only state the key information they need.`
             : `ユーザーは別の選択肢についてフォローアップの質問をしています。聞かれたことだけに焦点を当てて、簡潔で直接的な答えを提供してください: ${question}\n文脈: ${fullContext}\n\n重要：極めて簡潔に（1文で）回答してください。必要な主要情報のみを述べてください。`;
         } else {
-          prompt = language === 'en'
+          prompt = promptLanguageOf(language) === 'en'
             ? `Extract ONLY the specific information requested from the knowledge provided. Ignore unrelated information even if it's in the same document: ${question}\nContext: ${fullContext}\n\nIMPORTANT: Answer ONLY what was asked. Do not include additional details, explanations, or unrelated information. Keep response to 1 sentence maximum. Convert lists or tables into natural conversational language. Do not use markdown formatting or bullet points.`
             : `提供された知識から、質問された特定の情報のみを抽出してください。同じ文書内にあっても関連のない情報は無視してください: ${question}\n文脈: ${fullContext}\n\n重要：質問されたことのみに答えてください。追加の詳細、説明、関連のない情報は含めないでください。回答は最大1文にしてください。リストや表は自然な会話調の言葉に変換してください。マークダウン形式や箇条書きは使用しないでください。`;
         }
       } else {
-        prompt = language === 'en'
+        prompt = promptLanguageOf(language) === 'en'
           ? `Answer the question using the conversation history and knowledge provided. Reference previous conversation when relevant: ${question}\nContext: ${fullContext}\nProvide ONLY the requested information. Keep it to 1-2 sentences maximum. Use natural conversational language, not lists or formal documentation style.`
           : `会話履歴と提供された知識を使って質問に答えてください。関連する場合は以前の会話を参照してください: ${question}\n文脈: ${fullContext}\n聞かれた情報のみを答え、余計な説明は不要です。最大1-2文で答えてください。リストや形式的な文書スタイルではなく、自然な会話調の言葉を使用してください。`;
       }
     }
     
-    const response = await this.generate([
-      { role: 'user', content: prompt }
-    ]);
-    
+    return { prompt: withAnswerInstruction(prompt, language), language, memoryScope };
+  }
+
+  private async rememberExchange(memoryScope: MemoryScope | null, question: string, answer: string): Promise<void> {
+    if (!memoryScope) {
+      return;
+    }
     // Store the Q&A interaction in memory with error handling
     try {
-      await this.simplifiedMemory.addMessage('user', question);
-      await this.simplifiedMemory.addMessage('assistant', response.text);
+      await this.simplifiedMemory.addMessage(memoryScope, 'user', question);
+      await this.simplifiedMemory.addMessage(memoryScope, 'assistant', answer);
     } catch (error) {
       console.error('[EnhancedQAAgent] Failed to store conversation in memory:', error);
       // Continue execution even if memory storage fails
     }
-    
-    // Auto-enhance response with emotion tags
-    return EmotionTagParser.enhanceAgentResponse(response.text, 'qa', language);
   }
 
-  private async getCalendarContext(query: string): Promise<string> {
+  private async getCalendarContext(query: string, language: SupportedLanguage = 'ja'): Promise<string> {
     console.log('[EnhancedQAAgent] Getting calendar context for query:', query);
     const calendarTool = this._tools.get('calendarService');
     console.log('[EnhancedQAAgent] Calendar tool available:', !!calendarTool);
@@ -231,15 +330,16 @@ export class EnhancedQAAgent extends Agent {
     }
 
     try {
-      console.log('[EnhancedQAAgent] Calling calendar tool...');
-      const result = await calendarTool.execute({
-        daysAhead: 30,
-        maxEvents: 10,
-      });
-      console.log('[EnhancedQAAgent] Calendar result:', result);
+      // "What's on next Tuesday evening" asks about that evening only
+      const window = resolveCalendarWindow(query);
+      console.log('[EnhancedQAAgent] Calling calendar tool...', window);
+      const result = await calendarTool.execute(window
+        ? { from: window.start.toISOString(), to: window.end.toISOString(), maxEvents: 20 }
+        : { daysAhead: 30, maxEvents: 10 });
+      console.log('[EnhancedQAAgent] Calendar result:', result.success, result.events?.length);
 
-      if (result.success && result.events) {
-        return result.events;
+      if (result.success) {
+        return formatEventsForAI(result.events, language, { window, daysAhead: 30 });
       } else {
         return 'Unable to fetch calendar events at this time.';
       }
@@ -249,6 +349,92 @@ export class EnhancedQAAgent extends Agent {
     }
   }
 
+  /**
+   * Room availability as LLM context. A reservation request is answered
+   * directly: it holds the room named, or the first free one, for the time
+   * and group size given, falling back to the availability asked about last
+   * in the session ("yes, book it"). Unscoped requests have no previous one.
+   */
+  private async getRoomContext(
+    query: string,
+    language: SupportedLanguage,
+    memoryScope: MemoryScope | null,
+    reserve: boolean
+  ): Promise<string | { answer: string }> {
+    const service = getRoomBookingService();
+    const parsed = parseRoomRequest(query);
+    const previous = memoryScope ? this.lastRoomRequests.get(memoryScope.sessionId) : undefined;
+    const request: RoomRequest = reserve && previous ? {
+      ...(parsed.timeGiven ? parsed : previous),
+      partySize: parsed.partySize ?? previous.partySize,
+      roomId: parsed.roomId || previous.roomId,
+      floor: parsed.floor || previous.floor,
+    } : parsed;
+
+    try {
+      const availability = await service.checkAvailability(request);
+      if (!reserve) {
+        if (memoryScope) {
+          this.lastRoomRequests.set(memoryScope.sessionId, request);
+        }
+        // Sessions are short; keep the map from growing without bound
+        if (this.lastRoomRequests.size > 100) {
+          this.lastRoomRequests.delete(this.lastRoomRequests.keys().next().value!);
+        }
+        return formatRoomAvailabilityForAI(availability, language);
+      }
+
+      const free = availability.rooms.find(status => status.available
+        && (!request.roomId || status.room.id === request.roomId));
+      if (!free) {
+        return { answer: roomUnavailableMessage(availability, request.roomId, language) };
+      }
+
+      const booking = await service.reserve({
+        roomId: free.room.id,
+        start: request.start,
+        durationMinutes: request.durationMinutes,
+        partySize: request.partySize ?? free.room.minPartySize,
+        visitorId: memoryScope?.visitorId,
+        sessionId: memoryScope?.sessionId,
+      });
+      if (memoryScope) {
+        this.lastRoomRequests.delete(memoryScope.sessionId);
+      }
+      return { answer: roomReservationMessage(booking, language) };
+    } catch (error) {
+      console.error('[EnhancedQAAgent] Room booking error:', error);
+      if (reserve) {
+        return {
+          answer: promptLanguageOf(language) === 'en'
+            ? '[sad]Sorry, I could not make the reservation. Please ask at reception.[/sad]'
+            : '[sad]申し訳ありません、仮予約できませんでした。受付でお尋ねください。[/sad]',
+        };
+      }
+      // Without the booking calendars, answer from the knowledge base
+      return this.searchKnowledgeBase(query, language);
+    }
+  }
+
+  /**
+   * Opening hours from the facility schedule: whether it is open, closing
+   * soon or closed right now, the coming week, and the day asked about
+   */
+  private async getHoursContext(query: string, language: SupportedLanguage, facilityId?: string): Promise<string> {
+    try {
+      const service = getFacilityScheduleService();
+      const facility = facilityId || facilityForQuestion(query);
+      const now = new Date();
+      const window = resolveCalendarWindow(query, now);
+      const [status, week] = await Promise.all([service.getStatus(facility, now), service.getWeek(facility, now)]);
+      const askedDay = window ? await service.getDay(facility, service.dateOf(window.start)) : null;
+      return formatFacilityScheduleForAI(status, week, language, { askedDay });
+    } catch (error) {
+      console.error('[EnhancedQAAgent] Facility schedule error:', error);
+      return this.searchKnowledgeBase(query, language);
+    }
+  }
+
   private async getFacilityContext(query: string): Promise<string> {
     const webSearchTool = this._tools.get('engineerCafeWebSearch');
     if (!webSearchTool) {
@@ -327,28 +513,17 @@ Official X/Twitter: https://x.com/EngineerCafeJP
     
     console.log('[EnhancedQAAgent] Normalized query:', normalizedQuery);
     
-    const category = await this.categorizeQuestion(normalizedQuery);
+    const route = await this.routeQuestion(normalizedQuery);
+    const category = route.intent;
     console.log('[EnhancedQAAgent] Categorized as:', category);
     
     try {
       const ragTool = this._tools.get('ragSearch') || ragSearchTool;
       console.log('[EnhancedQAAgent] Using RAG tool:', !!ragTool);
       
-      if (category === 'cafe-clarification-needed') {
-        const clarificationMessage = currentLanguage === 'en'
-          ? "Are you asking about Engineer Cafe (the coworking space) or Saino Cafe (the attached cafe & bar)?"
-          : "コワーキングスペースのエンジニアカフェのことですか、それとも併設のカフェ＆バーのsainoカフェのことですか？";
-        
-        console.log('[EnhancedQAAgent] Returning clarification message');
-        return clarificationMessage;
-      }
-      
-      if (category === 'meeting-room-clarification-needed') {
-        const clarificationMessage = currentLanguage === 'en'
-          ? "Are you asking about the basement workspace (free, part of Engineer Cafe) or the 2F meeting rooms (paid, city-managed)?"
-          : "地下の無料ワークスペース（エンジニアカフェの一部）のことですか、それとも2階の有料会議室（市の管理）のことですか？";
-        
-        console.log('[EnhancedQAAgent] Returning meeting room clarification message');
+      if (route.handler.type === 'clarification') {
+        const clarificationMessage = localize(route.handler.message, currentLanguage);
+        console.log('[EnhancedQAAgent] Returning clarification message for', category);
         return clarificationMessage;
       }
       
@@ -417,7 +592,8 @@ Official X/Twitter: https://x.com/EngineerCafeJP
       console.log('[EnhancedQAAgent] Calling RAG search with query:', searchQuery);
       
       // Use multi-language search to get the best results regardless of language
-      const context = await ragTool.searchKnowledgeBaseMultiLang(searchQuery, language);
+      const ragCategory = route.handler.type === 'rag' ? route.handler.category : undefined;
+      const context = await ragTool.searchKnowledgeBaseMultiLang(searchQuery, language, ragCategory);
       console.log('[EnhancedQAAgent] Multi-language RAG search result length:', context ? context.length : 0);
       
       if (!context) {
@@ -430,7 +606,7 @@ Official X/Twitter: https://x.com/EngineerCafeJP
             en: `Engineer Cafe is a public coworking space for IT engineers operated by Fukuoka City. It was established to support the local tech community by providing free workspace, meeting rooms, and networking opportunities for engineers and tech professionals in the Tenjin area.`,
             ja: `エンジニアカフェは、福岡市が運営するITエンジニア向けの公共コワーキングスペースです。地域のテックコミュニティを支援するため、天神エリアのエンジニアや技術者に無料のワークスペース、会議室、ネットワーキングの機会を提供することを目的として設立されました。`
           };
-          return historyContext[currentLanguage] || historyContext.ja;
+          return historyContext[promptLanguageOf(currentLanguage)] || historyContext.ja;
         }
         
         console.log('[EnhancedQAAgent] Returning default context');
@@ -440,7 +616,7 @@ Official X/Twitter: https://x.com/EngineerCafeJP
           ja: `申し訳ございませんが、その件について具体的な情報が見つかりませんでした。
                 エンジニアカフェは福岡のITエンジニア向け9:00〜22:00営業のコワーキングスペースです。`
         };
-        return defaultContext[currentLanguage] || defaultContext.ja;
+        return defaultContext[promptLanguageOf(currentLanguage)] || defaultContext.ja;
       }
       
       console.log('[EnhancedQAAgent] Returning RAG context:', context.substring(0, 100) + '...');
@@ -455,150 +631,86 @@ Official X/Twitter: https://x.com/EngineerCafeJP
               高速インターネット、プライベート会議室、コーヒーサービス、イベントスペースを完備。
               施設は完全無料でご利用いただけます。`
       };
-      return sampleContext[currentLanguage] || sampleContext.ja;
+      return sampleContext[promptLanguageOf(currentLanguage)] || sampleContext.ja;
     }
   }
 
   async categorizeQuestion(question: string): Promise<string> {
-    const lowerQuestion = question.toLowerCase();
-    const normalizedQuestion = lowerQuestion
-      .replace(/coffee say no/g, 'saino')
-      .replace(/才能/g, 'saino')
-      .replace(/say no/g, 'saino')
-      // Common speech recognition errors for "engineer cafe"
-      .replace(/engineer confess/g, 'engineer cafe')
-      .replace(/engineer conference/g, 'engineer cafe')
-      .replace(/engineer campus/g, 'engineer cafe');
-    
-    // Calendar/Events
-    if (normalizedQuestion.includes('カレンダー') || normalizedQuestion.includes('calendar') ||
-        normalizedQuestion.includes('イベント') || normalizedQuestion.includes('event') ||
-        normalizedQuestion.includes('予定') || normalizedQuestion.includes('schedule') ||
-        normalizedQuestion.includes('今日') || normalizedQuestion.includes('today') ||
-        normalizedQuestion.includes('明日') || normalizedQuestion.includes('tomorrow') ||
-        normalizedQuestion.includes('今週') || normalizedQuestion.includes('this week') ||
-        normalizedQuestion.includes('直近') || normalizedQuestion.includes('upcoming') ||
-        normalizedQuestion.includes('何月') || normalizedQuestion.includes('何日')) {
-      console.log('[EnhancedQAAgent] Detected calendar/event keywords');
-      return 'calendar';
-    }
-    
-    // Engineer Cafe specific (highest priority - check space variations)
-    if (normalizedQuestion.includes('エンジニアカフェ') || 
-        normalizedQuestion.includes('エンジニア カフェ') ||
-        normalizedQuestion.includes('engineer cafe') || 
-        normalizedQuestion.includes('engineer カフェ')) {
-      console.log('[EnhancedQAAgent] Detected Engineer Cafe specific query');
-      return 'facility-info';
-    }
-    
-    // History-related questions
-    if (normalizedQuestion.includes('history') || normalizedQuestion.includes('歴史') ||
-        normalizedQuestion.includes('background') || normalizedQuestion.includes('started') ||
-        normalizedQuestion.includes('founded') || normalizedQuestion.includes('established') ||
-        normalizedQuestion.includes('開設') || normalizedQuestion.includes('設立') ||
-        normalizedQuestion.includes('始まり') || normalizedQuestion.includes('創立')) {
-      console.log('[EnhancedQAAgent] Detected history-related query');
-      return 'facility-info';
-    }
-    
-    // Meeting room ambiguity check (before general facility-info)
-    const meetingRoomKeywords = ['会議室', 'meeting room', 'ミーティング', 'mtg'];
-    const hasMeetingRoom = meetingRoomKeywords.some(keyword => normalizedQuestion.includes(keyword));
-    const hasSpecificFloor = normalizedQuestion.includes('2階') || normalizedQuestion.includes('2f') || 
-                            normalizedQuestion.includes('地下') || normalizedQuestion.includes('basement') ||
-                            normalizedQuestion.includes('under');
-    
-    // Check for basement/underground space queries specifically
-    const basementKeywords = ['地下', 'basement', 'under space', 'underスペース', 'under スペース', 'b1'];
-    const hasBasementKeyword = basementKeywords.some(keyword => normalizedQuestion.includes(keyword));
-    
-    if (hasBasementKeyword) {
-      console.log('[EnhancedQAAgent] Detected basement space query');
-      return 'facility-info'; // Handle as facility info with basement context
-    }
-    
-    if (hasMeetingRoom && !hasSpecificFloor) {
-      console.log('[EnhancedQAAgent] Detected ambiguous meeting room query - needs clarification');
-      return 'meeting-room-clarification-needed';
-    }
+    const route = await this.routeQuestion(question);
+    return route.intent;
+  }
 
-    // Saino Cafe specific (併設カフェも含む)
-    // More specific Saino Cafe detection to reduce false positives
-    if ((normalizedQuestion.includes('サイノ') || normalizedQuestion.includes('saino')) ||
-        ((normalizedQuestion.includes('併設') || normalizedQuestion.includes('併設されてる')) &&
-         (normalizedQuestion.includes('カフェ') || normalizedQuestion.includes('cafe') || normalizedQuestion.includes('bar')))) {
-      console.log('[EnhancedQAAgent] Detected Saino Cafe specific query');
-      return 'saino-cafe';
-    }
-    
-    // General facility information
-    if (normalizedQuestion.includes('施設') || normalizedQuestion.includes('facility') ||
-        normalizedQuestion.includes('福岡市') || normalizedQuestion.includes('fukuoka') ||
-        normalizedQuestion.includes('公式') || normalizedQuestion.includes('official') ||
-        normalizedQuestion.includes('twitter') || normalizedQuestion.includes('x.com') ||
-        normalizedQuestion.includes('会議室') || normalizedQuestion.includes('meeting room') ||
-        normalizedQuestion.includes('受付') || normalizedQuestion.includes('reception') ||
-        normalizedQuestion.includes('フロア') || normalizedQuestion.includes('floor') ||
-        normalizedQuestion.includes('どこ') || normalizedQuestion.includes('where') ||
-        normalizedQuestion.includes('場所') || normalizedQuestion.includes('location') ||
-        normalizedQuestion.includes('階') || normalizedQuestion.includes('回') ||
-        normalizedQuestion.includes('部屋') || normalizedQuestion.includes('room')) {
-      console.log('[EnhancedQAAgent] Detected facility/location query');
-      return 'facility-info';
+  /**
+   * Route a question using the configured routing rules (file or database)
+   */
+  async routeQuestion(question: string): Promise<RouteDecision> {
+    this.router.updateConfig(await loadRoutingConfig());
+    const route = await this.router.route(question);
+    if (route.matchedRule) {
+      console.log(`[EnhancedQAAgent] Route rule ${route.matchedRule.id} matched:`, route.matchedRule.matched);
     }
-    
-    // Ambiguous cafe queries - ask for clarification when unclear
-    if (normalizedQuestion.includes('カフェ') || normalizedQuestion.includes('cafe')) {
-      // If it contains working/facility keywords (but not saino-specific), assume Engineer Cafe
-      if (normalizedQuestion.includes('コワーキング') || normalizedQuestion.includes('作業') || 
-          normalizedQuestion.includes('無料') || normalizedQuestion.includes('利用')) {
-        console.log('[EnhancedQAAgent] Cafe query with facility keywords, assuming Engineer Cafe');
-        return 'facility-info';
-      }
-      // For time-related queries without specific context, ask for clarification
-      if (normalizedQuestion.includes('営業時間') || normalizedQuestion.includes('時間')) {
-        console.log('[EnhancedQAAgent] Ambiguous time query for cafe, requesting clarification');
-        return 'cafe-clarification-needed';
-      }
-      // Otherwise ask for clarification
-      console.log('[EnhancedQAAgent] Ambiguous cafe query, requesting clarification');
-      return 'cafe-clarification-needed';
+    return route;
+  }
+
+  /**
+   * LLM fallback for questions no routing rule matches (enabled via llmFallback)
+   */
+  private classifyIntent: IntentClassifier = async (question, intents) => {
+    const intentList = intents
+      .map(({ intent, description }) => `- ${intent}${description ? `: ${description}` : ''}`)
+      .join('\n');
+    const prompt = `Classify the visitor question for the Engineer Cafe guide into exactly one intent.
+Intents:
+${intentList}
+
+Question: ${question}
+
+Reply with JSON only: {"intent": "<intent>", "confidence": <0-1>}`;
+
+    const response = await this.generate([{ role: 'user', content: prompt }]);
+    const match = response.text.match(/\{[\s\S]*\}/);
+    if (!match) {
+      return null;
     }
-    
-    // Other categories
-    if (lowerQuestion.includes('料金') || lowerQuestion.includes('price')) {
-      return 'pricing';
-    } else if (lowerQuestion.includes('設備') || lowerQuestion.includes('facility')) {
-      return 'facilities';
-    } else if (lowerQuestion.includes('アクセス') || lowerQuestion.includes('access')) {
-      return 'access';
-    } else if (lowerQuestion.includes('時間') || lowerQuestion.includes('営業') || 
-               lowerQuestion.includes('hours') || lowerQuestion.includes('open')) {
-      return 'hours';
-    } else {
-      return 'general';
+
+    const parsed = JSON.parse(match[0]);
+    if (typeof parsed.intent !== 'string' || typeof parsed.confidence !== 'number') {
+      return null;
     }
-  }
+    return { intent: parsed.intent, confidence: parsed.confidence };
+  };
 
   async provideFallbackResponse(): Promise<string> {
     const language: SupportedLanguage = this.memory.get('language') || 'ja';
     
-    const fallback = language === 'en'
+    const fallback = promptLanguageOf(language) === 'en'
       ? "[sad]I don't have specific information about that. Would you like me to connect you with our staff for detailed assistance?[/sad]"
       : "[sad]その件について詳しい情報がございません。スタッフにお繋ぎしてより詳しくご案内させていただきましょうか？[/sad]";
     
-    return fallback;
+    return translateForVisitor(fallback, language);
   }
 
-  async escalateToStaff(_question: string): Promise<string> {
+  /**
+   * Store an escalation and notify staff through the configured channels.
+   * The message tells the visitor whether staff were actually reached;
+   * escalation is null when it could not even be saved. A rate-limited
+   * request is rethrown as its EscalationError (429) for the route to answer.
+   */
+  async escalateToStaff(
+    question: string,
+    options: { sessionId?: string | null; urgency?: EscalationUrgency; clientIp?: string | null } = {}
+  ): Promise<{ message: string; escalation: StaffEscalation | null }> {
     const language: SupportedLanguage = this.memory.get('language') || 'ja';
-    
-    const message = language === 'en'
-      ? "[happy]I've notified our staff about your inquiry. Someone will be with you shortly to provide detailed assistance.[/happy]"
-      : "[happy]スタッフにご連絡いたしました。詳しいご案内のため、まもなくスタッフがお伺いいたします。[/happy]";
-    
-    return message;
+
+    let escalation: StaffEscalation | null = null;
+    try {
+      escalation = await getStaffEscalationService().escalate({ question, language, ...options });
+    } catch (error) {
+      if (error instanceof EscalationError && error.status === 429) throw error;
+      console.error('[EnhancedQAAgent] Failed to escalate to staff:', error);
+    }
+
+    return { message: await translateForVisitor(visitorEscalationMessage(escalation, language), language), escalation };
   }
 
   private async isIrrelevantResult(context: string, question: string): Promise<boolean> {
@@ -616,7 +728,7 @@ Official X/Twitter: https://x.com/EngineerCafeJP
     try {
       const language: SupportedLanguage = this.memory.get('language') || 'ja';
       
-      const relevancePrompt = language === 'en'
+      const relevancePrompt = promptLanguageOf(language) === 'en'
         ? `Based ONLY on the following information, can you clearly answer this question: "${question}"?
 
 Information:
@@ -671,14 +783,14 @@ ${context}
         return result.text;
       } else {
         console.log('[EnhancedQAAgent] Web search failed:', result.error);
-        return language === 'ja' 
+        return promptLanguageOf(language) === 'ja' 
           ? 'インターネット検索で情報を見つけることができませんでした。'
           : 'Unable to find information through web search.';
       }
     } catch (error) {
       console.error('[EnhancedQAAgent] Web search error:', error);
       const language: SupportedLanguage = this.memory.get('language') || 'ja';
-      return language === 'ja' 
+      return promptLanguageOf(language) === 'ja' 
         ? 'インターネット検索でエラーが発生しました。'
         : 'Error occurred during web search.';
     }
@@ -770,7 +882,7 @@ ${context}
     return userMessages[userMessages.length - 1]?.content || null;
   }
 
-  private async isContextualResponse(question: string): Promise<boolean> {
+  private async isContextualResponse(question: string, scope: MemoryScope | null): Promise<boolean> {
     const normalizedQuestion = question.toLowerCase().trim();
     
     // Enhanced contextual response detection
@@ -805,7 +917,7 @@ ${context}
     
     // Check recent conversation history for clarification questions
     try {
-      const memoryContext = await this.simplifiedMemory.getContext(question, {
+      const memoryContext = await this.simplifiedMemory.getContext(scope, question, {
         includeKnowledgeBase: false, // Only look at conversation history
         language: this.memory.get('language') || 'ja'
       });
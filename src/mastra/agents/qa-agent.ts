@@ -3,6 +3,8 @@ import { EmotionTagParser } from '../../lib/emotion-tag-parser';
 import { ragSearchTool } from '../tools/rag-search';
 import { SupportedLanguage } from '../types/config';
 import { SupabaseMemoryAdapter } from '@/lib/supabase-memory';
+import { promptLanguageOf, withAnswerInstruction } from '../../lib/languages';
+import { translateForVisitor } from '../../lib/translation';
 
 export class QAAgent extends Agent {
   private memory: any;
@@ -39,12 +41,12 @@ export class QAAgent extends Agent {
     // Get context from RAG
     const context = await this.searchKnowledgeBase(question);
     
-    const prompt = language === 'en'
+    const prompt = promptLanguageOf(language) === 'en'
       ? `Answer ONLY the specific question asked: ${question}\nContext: ${context}\nProvide ONLY the requested information. Do not add extra details or explanations. Keep it to 1-2 sentences maximum.`
       : `聞かれたことだけに答えてください: ${question}\n参考情報: ${context}\n聞かれた情報のみを答え、余計な説明は不要です。最大1-2文で答えてください。`;
     
     const response = await this.generate([
-      { role: 'user', content: prompt }
+      { role: 'user', content: withAnswerInstruction(prompt, language) }
     ]);
     
     // Auto-enhance response with emotion tags
@@ -70,12 +72,12 @@ export class QAAgent extends Agent {
       
       // Handle ambiguous cafe queries with clarification
       if (category === 'cafe-clarification-needed') {
-        const clarificationMessage = language === 'en'
+        const clarificationMessage = promptLanguageOf(language) === 'en'
           ? "[curious]I'd be happy to help! Are you asking about:\n1. **Engineer Cafe** (the coworking space) - hours, facilities, usage\n2. **Saino Cafe** (the attached cafe & bar) - menu, hours, prices\n\nPlease let me know which one you're interested in![/curious]"
           : "[curious]お手伝いさせていただきます！どちらについてお聞きでしょうか：\n1. **エンジニアカフェ**（コワーキングスペース）- 営業時間、設備、利用方法\n2. **サイノカフェ**（併設のカフェ＆バー）- メニュー、営業時間、料金\n\nお聞かせください！[/curious]";
         
         console.log('[QAAgent] Requesting clarification for ambiguous cafe query');
-        return clarificationMessage;
+        return translateForVisitor(clarificationMessage, language);
       }
       
       // For cafe queries, always use lower threshold and specific category
@@ -163,7 +165,7 @@ export class QAAgent extends Agent {
           ja: `申し訳ございませんが、その件について具体的な情報が見つかりませんでした。
                 エンジニアカフェは福岡のITエンジニア向け9:00〜22:00営業のコワーキングスペースです。`
         };
-        return defaultContext[language];
+        return defaultContext[promptLanguageOf(language)];
       }
       
       return context;
@@ -178,7 +180,7 @@ export class QAAgent extends Agent {
               高速インターネット、プライベート会議室、コーヒーサービス、イベントスペースを完備。
               施設は完全無料でご利用いただけます。`
       };
-      return sampleContext[language];
+      return sampleContext[promptLanguageOf(language)];
     }
   }
 
@@ -233,11 +235,11 @@ export class QAAgent extends Agent {
   async provideFallbackResponse(): Promise<string> {
     const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
     
-    const fallback = language === 'en'
+    const fallback = promptLanguageOf(language) === 'en'
       ? "[sad]I don't have specific information about that. Would you like me to connect you with our staff for detailed assistance?[/sad]"
       : "[sad]その件について詳しい情報がございません。スタッフにお繋ぎしてより詳しくご案内させていただきましょうか？[/sad]";
     
-    return fallback;
+    return translateForVisitor(fallback, language);
   }
 
   async escalateToStaff(_question: string): Promise<string> {
@@ -245,10 +247,10 @@ export class QAAgent extends Agent {
     
     // TODO: Implement staff notification system
     
-    const message = language === 'en'
+    const message = promptLanguageOf(language) === 'en'
       ? "[happy]I've notified our staff about your inquiry. Someone will be with you shortly to provide detailed assistance.[/happy]"
       : "[happy]スタッフにご連絡いたしました。詳しいご案内のため、まもなくスタッフがお伺いいたします。[/happy]";
     
-    return message;
+    return translateForVisitor(message, language);
   }
 }
@@ -1,14 +1,25 @@
 import { EmotionData, EmotionManager } from '@/lib/emotion-manager';
 import { EmotionTagParser } from '@/lib/emotion-tag-parser';
 import { endPerformance, logPerformanceSummary, startPerformance } from '@/lib/performance-monitor';
-import { ConversationManager, SupabaseMemoryAdapter } from '@/lib/supabase-memory';
-import { SimplifiedMemorySystem } from '@/lib/simplified-memory';
-import { TextChunker } from '@/lib/text-chunker';
+import {
+  ConversationManager,
+  SessionEndReason,
+  SupabaseMemoryAdapter,
+  getSessionIdleTimeoutMs,
+  isConversationSessionId,
+} from '@/lib/supabase-memory';
+import { MemoryScope, SimplifiedMemorySystem } from '@/lib/simplified-memory';
+import { StreamingTextChunker, TextChunk, TextChunker } from '@/lib/text-chunker';
+import type { VisemeTimeline } from '@/lib/viseme-timeline';
+import { VoiceStreamChunk, VoiceStreamEvent } from '@/lib/voice-stream';
 import { ClarificationUtils } from '@/lib/clarification-utils';
 import { getEngineerCafeNavigator } from '@/mastra';
 import { Agent } from '@mastra/core/agent';
 import { SupportedLanguage } from '../types/config';
 import { EnhancedQAAgent } from './enhanced-qa-agent';
+import { VoiceProvider } from '../voice/voice-provider';
+import { getLanguageConfig, promptLanguageOf } from '@/lib/languages';
+import { translateForVisitor } from '@/lib/translation';
 
 /**
  * RealtimeAgent handles real-time voice interactions with contextual memory
@@ -22,7 +33,7 @@ export class RealtimeAgent extends Agent {
   private interruptionEnabled: boolean = true;
   
   /** Voice service for STT/TTS operations */
-  private voiceService: any;
+  private voiceService: VoiceProvider;
   
   /** Legacy memory adapter (deprecated) */
   private supabaseMemory: SupabaseMemoryAdapter;
@@ -30,8 +41,8 @@ export class RealtimeAgent extends Agent {
   /** New simplified memory system with 3-minute TTL */
   private simplifiedMemory: SimplifiedMemorySystem;
   
-  /** Current active session ID */
-  private currentSessionId: string | null = null;
+  /** Closes each session after SESSION_IDLE_TIMEOUT_MS without activity, by session ID */
+  private idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
   
   /** Tool registry for this agent */
   private _tools: Map<string, any> = new Map();
@@ -49,7 +60,7 @@ export class RealtimeAgent extends Agent {
       .replace(/engineer campus/gi, 'engineer cafe');
   }
 
-  constructor(config: any, voiceService?: any) {
+  constructor(config: any, voiceService: VoiceProvider) {
     super({
       name: 'RealtimeAgent',
       model: config.llm.model,
@@ -95,10 +106,20 @@ export class RealtimeAgent extends Agent {
     this._tools.set(name, tool);
   }
 
-  async processTextInput(text: string): Promise<{
+  /**
+   * Resolve the short-term memory scope for a request
+   * The agent is shared by every visitor, so only the request's own session
+   * counts; without one short-term memory is neither read nor written.
+   */
+  private resolveMemoryScope(scope?: MemoryScope): MemoryScope | null {
+    return scope?.sessionId ? scope : null;
+  }
+
+  async processTextInput(text: string, scope?: MemoryScope): Promise<{
     response: string;
     rawResponse?: string;
     audioResponse?: ArrayBuffer;
+    visemes?: VisemeTimeline;
     shouldUpdateCharacter: boolean;
     characterAction?: string;
     emotion?: EmotionData;
@@ -106,6 +127,7 @@ export class RealtimeAgent extends Agent {
     primaryEmotion?: string;
   }> {
     const performanceSteps: Record<string, number> = {};
+    const memoryScope = this.resolveMemoryScope(scope);
     
     try {
       this.conversationState = 'processing';
@@ -120,7 +142,7 @@ export class RealtimeAgent extends Agent {
 
       // Generate response with emotion tags
       startPerformance('AI Response Generation (Text)');
-      const rawResponse = await this.generateResponse(text);
+      const rawResponse = await this.generateResponse(text, memoryScope ?? undefined);
       performanceSteps['AI Response Generation'] = endPerformance('AI Response Generation (Text)');
       
       // Parse emotion tags from response
@@ -143,23 +165,23 @@ export class RealtimeAgent extends Agent {
       // Store conversation turn with emotion (both long-term and short-term)
       // Store conversation in memory systems
       // TODO: Migration in progress - currently using both systems for compatibility
-      await this.storeConversationTurn(text, cleanResponse, emotion);
+      await this.storeConversationTurn(text, cleanResponse, emotion, memoryScope);
       
       // Primary memory storage using SimplifiedMemorySystem
-      try {
-        await this.simplifiedMemory.addMessage('user', text, {
-          emotion: emotion?.emotion,
-          confidence: emotion?.confidence,
-          sessionId: this.currentSessionId || undefined,
-        });
-        await this.simplifiedMemory.addMessage('assistant', cleanResponse, {
-          emotion: emotion?.emotion,
-          confidence: emotion?.confidence,
-          sessionId: this.currentSessionId || undefined,
-        });
-      } catch (error) {
-        console.error('[RealtimeAgent] Failed to store in SimplifiedMemorySystem:', error);
-        // Fallback to legacy system if SimplifiedMemorySystem fails
+      if (memoryScope) {
+        try {
+          await this.simplifiedMemory.addMessage(memoryScope, 'user', text, {
+            emotion: emotion?.emotion,
+            confidence: emotion?.confidence,
+          });
+          await this.simplifiedMemory.addMessage(memoryScope, 'assistant', cleanResponse, {
+            emotion: emotion?.emotion,
+            confidence: emotion?.confidence,
+          });
+        } catch (error) {
+          console.error('[RealtimeAgent] Failed to store in SimplifiedMemorySystem:', error);
+          // Fallback to legacy system if SimplifiedMemorySystem fails
+        }
       }
       
       // Generate TTS audio for the response
@@ -173,6 +195,7 @@ export class RealtimeAgent extends Agent {
       }
       
       let audioResponse: ArrayBuffer | undefined;
+      let visemes: VisemeTimeline | undefined;
       try {
         const ttsResult = await this.voiceService.textToSpeech(cleanedForTTS, language, emotion?.emotion);
         
@@ -180,6 +203,7 @@ export class RealtimeAgent extends Agent {
           // Convert base64 to ArrayBuffer
           const audioData = Uint8Array.from(atob(ttsResult.audioBase64), c => c.charCodeAt(0));
           audioResponse = audioData.buffer;
+          visemes = ttsResult.visemes;
         }
       } catch (ttsError) {
         console.error('TTS generation failed:', ttsError);
@@ -198,6 +222,7 @@ export class RealtimeAgent extends Agent {
         response: cleanResponse,
         rawResponse: rawResponse,
         audioResponse,
+        visemes,
         shouldUpdateCharacter: true,
         characterAction,
         emotion,
@@ -223,13 +248,15 @@ export class RealtimeAgent extends Agent {
    * 
    * @param audioBuffer Raw audio data
    * @param language Target language (ja/en)
+   * @param scope Visitor session whose short-term memory is used
    * @returns Complete response with audio and emotion data
    */
-  async processVoiceInput(audioBuffer: ArrayBuffer, language?: SupportedLanguage): Promise<{
+  async processVoiceInput(audioBuffer: ArrayBuffer, language?: SupportedLanguage, scope?: MemoryScope): Promise<{
     transcript: string;
     response: string;
     rawResponse?: string;
     audioResponse: ArrayBuffer;
+    visemes?: VisemeTimeline;
     shouldUpdateCharacter: boolean;
     characterAction?: string;
     emotion?: EmotionData;
@@ -239,6 +266,7 @@ export class RealtimeAgent extends Agent {
     error?: string;
   }> {
     const performanceSteps: Record<string, number> = {};
+    const memoryScope = this.resolveMemoryScope(scope);
     
     try {
       this.conversationState = 'processing';
@@ -288,14 +316,14 @@ export class RealtimeAgent extends Agent {
         
         // Convert clarification to speech
         let clarificationAudio: ArrayBuffer;
+        let clarificationVisemes: VisemeTimeline | undefined;
         try {
           const ttsResult = await this.voiceService.textToSpeech(clarificationResponse, currentLang);
-          if (ttsResult.success && ttsResult.audioBuffer && ttsResult.audioBuffer instanceof ArrayBuffer) {
-            clarificationAudio = ttsResult.audioBuffer;
-          } else if (ttsResult.success && ttsResult.audioBase64) {
+          if (ttsResult.success && ttsResult.audioBase64) {
             // Convert base64 to ArrayBuffer if available
             const audioData = Uint8Array.from(atob(ttsResult.audioBase64), c => c.charCodeAt(0));
             clarificationAudio = audioData.buffer;
+            clarificationVisemes = ttsResult.visemes;
           } else {
             console.warn('[RealtimeAgent] TTS for clarification succeeded but no valid audio data:', ttsResult);
             clarificationAudio = new ArrayBuffer(0);
@@ -310,6 +338,7 @@ export class RealtimeAgent extends Agent {
           transcript: result.transcript || '',
           response: clarificationResponse,
           audioResponse: clarificationAudio,
+          visemes: clarificationVisemes,
           shouldUpdateCharacter: true,
           characterAction: 'thinking',
           emotion: {
@@ -322,11 +351,11 @@ export class RealtimeAgent extends Agent {
         };
       }
       
-      const transcript = result.transcript;
+      const transcript = result.transcript as string;
 
       // Generate response with emotion tags
       startPerformance('AI Response Generation');
-      const rawResponse = await this.generateResponse(transcript);
+      const rawResponse = await this.generateResponse(transcript, memoryScope ?? undefined);
       performanceSteps['AI Response Generation'] = endPerformance('AI Response Generation');
       
       // Parse emotion tags from response
@@ -364,24 +393,24 @@ export class RealtimeAgent extends Agent {
       
       // Store conversation in memory systems (async, non-blocking)
       // TODO: Migration in progress - currently using both systems for compatibility
-      this.storeConversationTurn(transcript, cleanResponse, emotion).catch(console.error);
+      this.storeConversationTurn(transcript, cleanResponse, emotion, memoryScope).catch(console.error);
       
       // Primary memory storage using SimplifiedMemorySystem
-      this.simplifiedMemory.addMessage('user', transcript, {
-        emotion: emotion?.emotion,
-        confidence: emotion?.confidence,
-        sessionId: this.currentSessionId || undefined,
-      }).catch((error) => {
-        console.error('[RealtimeAgent] Failed to store user message in SimplifiedMemorySystem:', error);
-      });
+      if (memoryScope) {
+        this.simplifiedMemory.addMessage(memoryScope, 'user', transcript, {
+          emotion: emotion?.emotion,
+          confidence: emotion?.confidence,
+        }).catch((error) => {
+          console.error('[RealtimeAgent] Failed to store user message in SimplifiedMemorySystem:', error);
+        });
       
-      this.simplifiedMemory.addMessage('assistant', cleanResponse, {
-        emotion: emotion?.emotion,
-        confidence: emotion?.confidence,
-        sessionId: this.currentSessionId || undefined,
-      }).catch((error) => {
-        console.error('[RealtimeAgent] Failed to store assistant message in SimplifiedMemorySystem:', error);
-      });
+        this.simplifiedMemory.addMessage(memoryScope, 'assistant', cleanResponse, {
+          emotion: emotion?.emotion,
+          confidence: emotion?.confidence,
+        }).catch((error) => {
+          console.error('[RealtimeAgent] Failed to store assistant message in SimplifiedMemorySystem:', error);
+        });
+      }
       
       // Convert CLEAN response to speech (without emotion tags and markdown)
       startPerformance('Text-to-Speech');
@@ -441,6 +470,7 @@ export class RealtimeAgent extends Agent {
         response: cleanResponse,  // Return clean response without emotion tags
         rawResponse,              // Include raw response with emotion tags for debugging
         audioResponse,
+        visemes: ttsResult.visemes,
         shouldUpdateCharacter: true,
         characterAction,
         emotion,
@@ -459,7 +489,8 @@ export class RealtimeAgent extends Agent {
     }
   }
 
-  async generateResponse(input: string): Promise<string> {
+  async generateResponse(input: string, scope?: MemoryScope): Promise<string> {
+    const memoryScope = this.resolveMemoryScope(scope);
     let language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
     
     if (process.env.NODE_ENV !== 'production') {
@@ -489,7 +520,7 @@ export class RealtimeAgent extends Agent {
             console.log('[RealtimeAgent] Input normalized from:', input, 'to:', normalizedInput);
           }
         }
-        const qaAnswer: string = await qaAgent.answerQuestion(normalizedInput, language);
+        const qaAnswer: string = await qaAgent.answerQuestion(normalizedInput, language, memoryScope ?? undefined);
         if (process.env.NODE_ENV !== 'production') {
           console.log('[RealtimeAgent] QA agent response:', qaAnswer ? qaAnswer.substring(0, 200) + '...' : 'null/empty');
         }
@@ -549,13 +580,13 @@ export class RealtimeAgent extends Agent {
     const normalizedInput = this.normalizeInput(input);
     
     // Get comprehensive context using SimplifiedMemorySystem
-    const memoryContext = await this.simplifiedMemory.getContext(normalizedInput, {
+    const memoryContext = await this.simplifiedMemory.getContext(memoryScope, normalizedInput, {
       includeKnowledgeBase: true,
-      language: language as 'ja' | 'en'
+      language: language as SupportedLanguage
     });
     
     // Check if conversation is still active
-    const isActiveConversation = await this.simplifiedMemory.isConversationActive();
+    const isActiveConversation = await this.simplifiedMemory.isConversationActive(memoryScope);
     
     // Build context-aware prompt with comprehensive memory
     const prompt = this.buildContextualPrompt(normalizedInput, language, memoryContext, isActiveConversation);
@@ -570,19 +601,12 @@ export class RealtimeAgent extends Agent {
     const primaryEmotion = parsedResponse.emotions?.[0]?.emotion || 'neutral';
     
     // Store conversation in SimplifiedMemorySystem (use original input for accurate conversation history)
-    await this.simplifiedMemory.addMessage('user', input, {
-      sessionId: this.currentSessionId || undefined
-    });
-    
-    await this.simplifiedMemory.addMessage('assistant', responseText, {
-      emotion: primaryEmotion,
-      sessionId: this.currentSessionId || undefined
-    });
-    
-    // Legacy: Also store in conversation session for compatibility
-    if (this.currentSessionId) {
-      await ConversationManager.addToHistory(this.currentSessionId, 'user', input);
-      await ConversationManager.addToHistory(this.currentSessionId, 'assistant', responseText);
+    if (memoryScope) {
+      await this.simplifiedMemory.addMessage(memoryScope, 'user', input);
+      
+      await this.simplifiedMemory.addMessage(memoryScope, 'assistant', responseText, {
+        emotion: primaryEmotion,
+      });
     }
     
     return responseText;
@@ -671,30 +695,30 @@ export class RealtimeAgent extends Agent {
       case 'no_transcript':
       case 'too_short':
       case 'gibberish':
-        clarification = language === 'en'
+        clarification = promptLanguageOf(language) === 'en'
           ? "I'm sorry, I didn't catch that clearly. Could you please repeat what you said?"
           : "すみません、よく聞き取れませんでした。もう一度お話しいただけますか？";
         break;
         
       case 'low_confidence':
-        clarification = language === 'en'
+        clarification = promptLanguageOf(language) === 'en'
           ? "I think I heard something, but I'm not quite sure. Could you please speak a bit more clearly?"
           : "少し聞こえましたが、はっきりしませんでした。もう少しはっきりお話しいただけますか？";
         break;
         
       case 'user_unclear':
-        clarification = language === 'en'
+        clarification = promptLanguageOf(language) === 'en'
           ? "No problem! Please take your time and let me know what you'd like to ask."
           : "大丈夫です！ゆっくりで構いませんので、何をお聞きになりたいか教えてください。";
         break;
         
       default:
-        clarification = language === 'en'
+        clarification = promptLanguageOf(language) === 'en'
           ? "I'm sorry, could you please repeat that?"
           : "すみません、もう一度お願いします。";
     }
     
-    return clarification;
+    return translateForVisitor(clarification, language);
   }
 
   private cleanTextForTTS(text: string): string {
@@ -720,9 +744,9 @@ export class RealtimeAgent extends Agent {
     // Check for history-related questions
     const isHistoryQuestion = /history|歴史|background|started|founded|established|開設|設立|始まり|創立/i.test(input);
     
-    let systemPrompt = language === 'en'
+    let systemPrompt = promptLanguageOf(language) === 'en'
       ? `You're an Engineer Cafe assistant. Use the provided conversation history and knowledge base to give contextual responses. 
-         Respond briefly in English with emotion tags: [happy], [neutral], [excited], [relaxed]. 
+         Respond briefly in ${getLanguageConfig(language).englishName} with emotion tags: [happy], [neutral], [excited], [relaxed]. 
          Example: "[happy] How can I help?" Keep responses short and natural.`
       : `エンジニアカフェのアシスタントです。提供された会話履歴と知識ベースを使用して文脈のある回答をしてください。
          感情タグ付きで簡潔に日本語で応答: [happy], [neutral], [excited], [relaxed]
@@ -730,7 +754,7 @@ export class RealtimeAgent extends Agent {
 
     // Add specific context for history questions
     if (isHistoryQuestion) {
-      const historyContext = language === 'en'
+      const historyContext = promptLanguageOf(language) === 'en'
         ? `\n\nEngineer Cafe is a public coworking space for IT engineers operated by Fukuoka City. It was established to support the local tech community by providing free workspace, meeting rooms, and networking opportunities. The facility is located in Tenjin, Fukuoka and serves as a hub for engineers and tech professionals.`
         : `\n\nエンジニアカフェは、福岡市が運営するITエンジニア向けの公共コワーキングスペースです。地域のテックコミュニティを支援するため、無料のワークスペース、会議室、ネットワーキングの機会を提供することを目的として設立されました。福岡天神に位置し、エンジニアや技術者のハブとして機能しています。`;
       
@@ -744,8 +768,8 @@ export class RealtimeAgent extends Agent {
     }
 
     const conversationStatus = isActiveConversation 
-      ? (language === 'en' ? ' (Continuing conversation)' : ' (会話継続中)')
-      : (language === 'en' ? ' (New conversation)' : ' (新しい会話)');
+      ? (promptLanguageOf(language) === 'en' ? ' (Continuing conversation)' : ' (会話継続中)')
+      : (promptLanguageOf(language) === 'en' ? ' (New conversation)' : ' (新しい会話)');
 
     return `${systemPrompt}${conversationStatus}\n${contextSection}User: ${input}\nAssistant:`;
   }
@@ -802,7 +826,16 @@ export class RealtimeAgent extends Agent {
     }
   }
 
-  private async storeConversationTurn(userInput: string, aiResponse: string, emotion?: EmotionData): Promise<void> {
+  /**
+   * Record a turn in the legacy history and, for a request with a
+   * conversation session, in that session's transcript for staff
+   */
+  private async storeConversationTurn(
+    userInput: string,
+    aiResponse: string,
+    emotion: EmotionData | undefined,
+    scope: MemoryScope | null
+  ): Promise<void> {
     try {
       // Get existing history
       const history = await this.supabaseMemory.get('conversationHistory') as any[] || [];
@@ -829,7 +862,7 @@ export class RealtimeAgent extends Agent {
           intensity: emotion.intensity,
           confidence: emotion.confidence,
         } : null,
-        sessionId: this.currentSessionId,
+        sessionId: scope?.sessionId ?? null,
       };
       
       // Store in a separate key for detailed conversation data
@@ -840,18 +873,59 @@ export class RealtimeAgent extends Agent {
       const recentDetailedHistory = detailedHistory.slice(-20);
       await this.supabaseMemory.set('detailedConversationHistory', recentDetailedHistory);
       
+      // Session transcript for staff (conversation_history)
+      if (scope && isConversationSessionId(scope.sessionId)) {
+        const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
+        await ConversationManager.ensureSession(scope.sessionId, scope.visitorId, language);
+        await ConversationManager.addToHistory(scope.sessionId, 'user', userInput);
+        await ConversationManager.addToHistory(scope.sessionId, 'assistant', aiResponse, undefined, {
+          emotion: emotion?.emotion,
+        });
+        this.scheduleIdleClose(scope.sessionId);
+      }
+      
       console.log('Stored conversation turn with emotion:', emotion?.emotion);
     } catch (error) {
       console.error('Error storing conversation turn:', error);
     }
   }
 
-  async handleInterruption(): Promise<void> {
-    if (this.conversationState === 'speaking' && this.interruptionEnabled) {
+  /**
+   * (Re)start the idle timer for a session. Serverless instances may not
+   * live long enough to fire it; /api/cron/close-idle-sessions closes those
+   * sessions instead.
+   */
+  private scheduleIdleClose(sessionId: string): void {
+    const existing = this.idleTimers.get(sessionId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(sessionId);
+      console.log(`[RealtimeAgent] Closing idle session ${sessionId}`);
+      ConversationManager.endSession(sessionId, 'idle').catch(error => {
+        console.error('[RealtimeAgent] Failed to close idle session:', error);
+      });
+    }, getSessionIdleTimeoutMs());
+    // Do not keep the process alive just for this timer
+    timer.unref?.();
+    this.idleTimers.set(sessionId, timer);
+  }
+
+  /**
+   * Barge-in: the visitor started speaking while the answer was playing.
+   * Playback is stopped in the browser, which keeps playing after a streamed
+   * answer has been generated, so a response still in 'processing' counts as
+   * speaking too. Returns false when interruptions are disabled.
+   */
+  async handleInterruption(): Promise<boolean> {
+    if (!this.interruptionEnabled) {
+      return false;
+    }
+    if (this.conversationState === 'speaking' || this.conversationState === 'processing') {
       this.conversationState = 'listening';
-      // TODO: Stop current audio playback
-      // TODO: Reset character to listening state
     }
+    return true;
   }
 
   async setConversationState(state: typeof this.conversationState): Promise<void> {
@@ -868,10 +942,10 @@ export class RealtimeAgent extends Agent {
     await this.supabaseMemory.store('interruptionEnabled', enabled);
   }
 
-  async clearConversationHistory(): Promise<void> {
+  async clearConversationHistory(scope?: MemoryScope): Promise<void> {
     await this.supabaseMemory.store('conversationHistory', []);
-    // Also clear short-term memory
-    await this.simplifiedMemory.cleanup();
+    // Also clear short-term memory for the session (or expired entries when unscoped)
+    await this.simplifiedMemory.cleanup(scope);
   }
 
   async getConversationSummary(): Promise<string> {
@@ -879,11 +953,11 @@ export class RealtimeAgent extends Agent {
     const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
     
     if (history.length === 0) {
-      return language === 'en' ? 'No conversation yet.' : 'まだ会話がありません。';
+      return promptLanguageOf(language) === 'en' ? 'No conversation yet.' : 'まだ会話がありません。';
     }
 
     // Generate summary of conversation
-    const summaryPrompt = language === 'en'
+    const summaryPrompt = promptLanguageOf(language) === 'en'
       ? `Summarize this conversation briefly:\n${history.map((h: any) => `${h.role}: ${h.content}`).join('\n')}`
       : `この会話を簡潔にまとめてください:\n${history.map((h: any) => `${h.role}: ${h.content}`).join('\n')}`;
 
@@ -894,7 +968,7 @@ export class RealtimeAgent extends Agent {
   }
 
   // Short-term memory management methods
-  async getShortTermMemoryStats(): Promise<{
+  async getShortTermMemoryStats(scope?: MemoryScope): Promise<{
     activeTurns: number;
     oldestTurn: number | null;
     newestTurn: number | null;
@@ -902,9 +976,10 @@ export class RealtimeAgent extends Agent {
     timeSpan: number;
     sessionSummary: string;
   }> {
+    const memoryScope = this.resolveMemoryScope(scope);
     const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
-    const sessionSummary = await this.simplifiedMemory.getSessionSummary(language);
-    const stats = await this.simplifiedMemory.getMemoryStats();
+    const sessionSummary = await this.simplifiedMemory.getSessionSummary(memoryScope, language);
+    const stats = await this.simplifiedMemory.getMemoryStats(memoryScope);
     
     return {
       ...stats,
@@ -912,8 +987,8 @@ export class RealtimeAgent extends Agent {
     };
   }
 
-  async isConversationActive(): Promise<boolean> {
-    return await this.simplifiedMemory.isConversationActive();
+  async isConversationActive(scope?: MemoryScope): Promise<boolean> {
+    return await this.simplifiedMemory.isConversationActive(this.resolveMemoryScope(scope));
   }
 
   async promoteToLongTermMemory(key: string, data: any, reason: string): Promise<void> {
@@ -934,35 +1009,47 @@ export class RealtimeAgent extends Agent {
     }
   }
 
-  async cleanupShortTermMemory(): Promise<void> {
-    await this.simplifiedMemory.cleanup();
+  async cleanupShortTermMemory(scope?: MemoryScope): Promise<void> {
+    await this.simplifiedMemory.cleanup(scope);
   }
 
   // Session management methods
-  async startSession(visitorId?: string, language: 'ja' | 'en' = 'ja'): Promise<string> {
-    this.currentSessionId = await ConversationManager.createSession(visitorId, language);
-    await this.supabaseMemory.store('currentSessionId', this.currentSessionId);
+  /**
+   * Open a new session. The agent is shared by every visitor, so only
+   * `replaceSessionId`, the caller's own previous session, is closed.
+   */
+  async startSession(
+    visitorId?: string,
+    language: SupportedLanguage = 'ja',
+    replaceSessionId?: string | null
+  ): Promise<string> {
+    if (isConversationSessionId(replaceSessionId)) {
+      await this.endSession(replaceSessionId, 'replaced');
+    }
+    const sessionId = await ConversationManager.createSession(visitorId, language);
     await this.supabaseMemory.store('language', language);
-    return this.currentSessionId;
+    this.scheduleIdleClose(sessionId);
+    return sessionId;
   }
 
-  async endSession(): Promise<void> {
-    if (this.currentSessionId) {
-      await ConversationManager.endSession(this.currentSessionId);
-      await this.supabaseMemory.delete('currentSessionId');
-      this.currentSessionId = null;
+  /**
+   * Close a session; the stored session gets a summary of its transcript
+   * (see ConversationManager.endSession)
+   */
+  async endSession(sessionId: string, reason: SessionEndReason = 'ended'): Promise<void> {
+    const timer = this.idleTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(sessionId);
     }
-  }
-
-  getCurrentSessionId(): string | null {
-    return this.currentSessionId;
+    await ConversationManager.endSession(sessionId, reason);
   }
 
   /**
    * Set the current language for this agent
    * Updates both memory systems and voice service
    */
-  async setLanguage(language: 'ja' | 'en'): Promise<void> {
+  async setLanguage(language: SupportedLanguage): Promise<void> {
     // Store in legacy memory system
     await this.supabaseMemory.store('language', language);
     
@@ -970,14 +1057,14 @@ export class RealtimeAgent extends Agent {
     await this.supabaseMemory.store('currentLanguage', language);
     
     // Update voice service language
-    if (this.voiceService) {
+    if (this.voiceService?.setLanguage) {
       this.voiceService.setLanguage(language);
     }
     
     console.log(`[RealtimeAgent] Language set to: ${language}`);
   }
 
-  async generateTTSAudio(text: string): Promise<ArrayBuffer> {
+  async generateTTSAudio(text: string): Promise<{ audio: ArrayBuffer; visemes?: VisemeTimeline }> {
     if (!this.voiceService) {
       throw new Error('Voice service not available');
     }
@@ -994,7 +1081,7 @@ export class RealtimeAgent extends Agent {
       
       // Convert base64 to ArrayBuffer
       const audioData = Uint8Array.from(atob(result.audioBase64), c => c.charCodeAt(0));
-      return audioData.buffer;
+      return { audio: audioData.buffer, visemes: result.visemes };
     } catch (error) {
       console.error('Error generating TTS audio:', error);
       throw error;
@@ -1094,7 +1181,7 @@ export class RealtimeAgent extends Agent {
   }
 
   // Process text input with streaming TTS support
-  async processTextInputStreaming(input: string): Promise<{
+  async processTextInputStreaming(input: string, scope?: MemoryScope): Promise<{
     transcript: string;
     response: string;
     rawResponse?: string;
@@ -1118,7 +1205,7 @@ export class RealtimeAgent extends Agent {
       
       // Generate response with emotion tags
       startPerformance('AI Response Generation');
-      const rawResponse = await this.generateResponse(input);
+      const rawResponse = await this.generateResponse(input, scope);
       performanceSteps['AI Response Generation'] = endPerformance('AI Response Generation');
       
       // Parse emotion tags from response
@@ -1150,7 +1237,7 @@ export class RealtimeAgent extends Agent {
       // Store emotion and conversation turn
       await this.supabaseMemory.set('currentEmotion', emotion);
       await this.supabaseMemory.set('emotionTags', parsedResponse.emotions);
-      await this.storeConversationTurn(input, cleanResponse, emotion);
+      await this.storeConversationTurn(input, cleanResponse, emotion, this.resolveMemoryScope(scope));
       
       // Determine character action
       const characterAction = this.determineCharacterAction(cleanResponse, emotion);
@@ -1185,6 +1272,226 @@ export class RealtimeAgent extends Agent {
     }
   }
 
+  /**
+   * Streaming text pipeline: LLM tokens are cut into sentence-sized chunks as
+   * they arrive and each chunk is synthesised and yielded immediately, so the
+   * client can start playback before the whole answer exists.
+   * Ends with a done event carrying the same metadata as processTextInput.
+   */
+  async *streamTextInput(text: string, scope?: MemoryScope): AsyncGenerator<VoiceStreamEvent> {
+    const memoryScope = this.resolveMemoryScope(scope);
+    this.conversationState = 'processing';
+
+    if (!text.trim()) {
+      this.conversationState = 'idle';
+      yield { type: 'done', transcript: text, response: '', shouldUpdateCharacter: false };
+      return;
+    }
+
+    try {
+      const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
+      const chunker = new StreamingTextChunker(language);
+      let lastEmotion = 'neutral';
+
+      startPerformance('Streaming Response');
+      for await (const delta of this.streamResponseText(text, memoryScope)) {
+        for (const chunk of chunker.push(delta)) {
+          lastEmotion = chunk.emotion || lastEmotion;
+          yield { type: 'chunk', ...(await this.synthesizeChunk(chunk, language, lastEmotion)) };
+        }
+      }
+      for (const chunk of chunker.flush()) {
+        lastEmotion = chunk.emotion || lastEmotion;
+        yield { type: 'chunk', ...(await this.synthesizeChunk(chunk, language, lastEmotion)) };
+      }
+      logPerformanceSummary({ 'Streaming Response': endPerformance('Streaming Response') });
+
+      const rawResponse = chunker.getText();
+      const parsedResponse = EmotionTagParser.parseEmotionTags(rawResponse);
+      const cleanResponse = parsedResponse.cleanText;
+
+      let emotion: EmotionData;
+      if (parsedResponse.primaryEmotion) {
+        emotion = {
+          emotion: parsedResponse.primaryEmotion,
+          intensity: parsedResponse.emotions[0]?.intensity || 0.8,
+          confidence: 0.9,
+          duration: 3000
+        };
+      } else {
+        const conversationHistory = await this.getRecentConversationHistory();
+        emotion = EmotionManager.detectConversationEmotion(text, cleanResponse, conversationHistory);
+      }
+
+      await this.supabaseMemory.set('currentEmotion', emotion);
+      await this.supabaseMemory.set('emotionTags', parsedResponse.emotions);
+      await this.storeConversationTurn(text, cleanResponse, emotion, memoryScope);
+
+      if (memoryScope) {
+        try {
+          await this.simplifiedMemory.addMessage(memoryScope, 'user', text, {
+            emotion: emotion.emotion,
+            confidence: emotion.confidence,
+          });
+          await this.simplifiedMemory.addMessage(memoryScope, 'assistant', cleanResponse, {
+            emotion: emotion.emotion,
+            confidence: emotion.confidence,
+          });
+        } catch (error) {
+          console.error('[RealtimeAgent] Failed to store in SimplifiedMemorySystem:', error);
+        }
+      }
+
+      this.conversationState = 'speaking';
+
+      yield {
+        type: 'done',
+        transcript: text,
+        response: cleanResponse,
+        shouldUpdateCharacter: true,
+        characterAction: this.determineCharacterAction(cleanResponse, emotion),
+        emotion,
+        primaryEmotion: parsedResponse.primaryEmotion,
+        sessionId: memoryScope?.sessionId ?? null,
+      };
+    } catch (error) {
+      this.conversationState = 'idle';
+      console.error('Error streaming text input:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming voice pipeline: STT first (reported as a transcript event),
+   * then the same chunk stream as streamTextInput
+   */
+  async *streamVoiceInput(audioBuffer: ArrayBuffer, language?: SupportedLanguage, scope?: MemoryScope): AsyncGenerator<VoiceStreamEvent> {
+    this.conversationState = 'processing';
+
+    const currentLang = language || await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
+    if (language) {
+      await this.supabaseMemory.store('language', language);
+    }
+
+    startPerformance('Speech-to-Text');
+    const result = await this.speechToText(audioBuffer, currentLang);
+    endPerformance('Speech-to-Text');
+
+    const qualityCheck = this.checkSpeechQuality(result);
+    if (!qualityCheck.isValid) {
+      console.log('[RealtimeAgent] STT quality check failed:', {
+        reason: qualityCheck.reason,
+        confidence: qualityCheck.confidence,
+        transcript: result.transcript,
+      });
+
+      const clarificationResponse = await this.generateClarificationRequest(qualityCheck, currentLang);
+      yield { type: 'transcript', transcript: result.transcript || '' };
+      yield {
+        type: 'chunk',
+        ...(await this.synthesizeChunk({ text: clarificationResponse, index: 0, isLast: true }, currentLang, 'curious')),
+      };
+
+      this.conversationState = 'idle';
+      yield {
+        type: 'done',
+        transcript: result.transcript || '',
+        response: clarificationResponse,
+        shouldUpdateCharacter: true,
+        characterAction: 'thinking',
+        emotion: { emotion: 'curious', intensity: 0.8, confidence: 0.9, duration: 3000 },
+        primaryEmotion: 'curious',
+        sessionId: scope?.sessionId || null,
+      };
+      return;
+    }
+
+    const transcript = result.transcript as string;
+    yield { type: 'transcript', transcript };
+    yield* this.streamTextInput(transcript, scope);
+  }
+
+  /**
+   * Answer text for streaming: token deltas from the QA agent, or the whole
+   * generateResponse() answer in one piece when the QA agent cannot stream
+   */
+  private async *streamResponseText(input: string, scope: MemoryScope | null): AsyncGenerator<string> {
+    let streamed = false;
+
+    try {
+      const navigator = getEngineerCafeNavigator(this.config);
+      const qaAgent = navigator.getAgent('qa') as EnhancedQAAgent | undefined;
+
+      if (qaAgent?.streamAnswer) {
+        const language = await this.supabaseMemory.get('language') as SupportedLanguage || 'ja';
+        await qaAgent.setLanguage(language);
+
+        const answer = await qaAgent.streamAnswer(this.normalizeInput(input), language, scope ?? undefined);
+        if (typeof answer === 'string') {
+          if (answer.trim()) {
+            // Answered without generation, e.g. a clarification question
+            yield ClarificationUtils.isClarificationMessage(answer) ? `[curious]${answer}[/curious]` : answer;
+            return;
+          }
+        } else {
+          for await (const delta of answer) {
+            streamed = true;
+            yield delta;
+          }
+          if (streamed) {
+            return;
+          }
+        }
+      }
+    } catch (error) {
+      // Part of the answer has been spoken already, so it cannot be replaced
+      if (streamed) {
+        throw error;
+      }
+      console.error('[RealtimeAgent] QA-agent streaming failed, using full response:', error);
+    }
+
+    yield await this.generateResponse(input, scope ?? undefined);
+  }
+
+  /**
+   * TTS for one streamed chunk. A failed chunk keeps its text so the client
+   * can still show it; playback simply skips it.
+   */
+  private async synthesizeChunk(chunk: TextChunk, language: SupportedLanguage, emotion: string): Promise<VoiceStreamChunk> {
+    const streamChunk: VoiceStreamChunk = {
+      text: chunk.text,
+      emotion,
+      index: chunk.index,
+      isLast: chunk.isLast,
+    };
+
+    const cleanedForTTS = this.cleanTextForTTS(chunk.text);
+    if (!cleanedForTTS || !this.voiceService) {
+      return streamChunk;
+    }
+
+    try {
+      if (this.voiceService.setSpeakerByEmotion) {
+        this.voiceService.setSpeakerByEmotion(emotion);
+      }
+      const start = Date.now();
+      const result = await this.voiceService.textToSpeech(cleanedForTTS, language, emotion);
+      console.log(`[Streaming TTS] Chunk ${chunk.index} generated in ${Date.now() - start}ms with emotion: ${emotion}`);
+
+      if (result.success && result.audioBase64) {
+        streamChunk.audioBase64 = result.audioBase64;
+        streamChunk.visemes = result.visemes;
+      } else {
+        console.error(`[Streaming TTS] Chunk ${chunk.index} failed:`, result.error);
+      }
+    } catch (error) {
+      console.error(`[Streaming TTS] Chunk ${chunk.index} failed:`, error);
+    }
+
+    return streamChunk;
+  }
+
   // Speech to text only method (for quick transcription)
   async speechToText(audioBuffer: ArrayBuffer, language: SupportedLanguage = 'ja'): Promise<{
     success: boolean;
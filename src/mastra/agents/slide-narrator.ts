@@ -1,11 +1,59 @@
 import { Agent } from '@mastra/core/agent';
 import { z } from 'zod';
 import { SupportedLanguage, SlideNarration } from '../types/config';
+import { promptLanguageOf } from '../../lib/languages';
+
+export type AutoPlayState = 'stopped' | 'playing' | 'paused';
+
+/** What auto-play does after the last slide: start over, or hand back to the welcome screen */
+export type AutoPlayEndBehavior = 'loop' | 'welcome';
+
+export interface AutoPlayOptions {
+  /** How long the client waits on a slide whose audio cannot be played */
+  interval?: number;
+  endBehavior?: AutoPlayEndBehavior;
+}
+
+export interface AutoPlayStatus {
+  state: AutoPlayState;
+  pauseReason: 'question' | null;
+  currentSlide: number;
+  totalSlides: number;
+  stepId: number;
+  interval: number;
+  endBehavior: AutoPlayEndBehavior;
+}
+
+/**
+ * One thing for the client to play. The client reports back with the stepId
+ * once the audio has finished and receives the next step; reports for an old
+ * step (after a pause, stop or a second client) are ignored.
+ */
+export interface AutoPlayStep {
+  stepId: number;
+  type: 'slide' | 'end';
+  slideNumber: number;
+  /** Slide narration, or the closing line for an 'end' step */
+  narration: string;
+  /** transitions.next of the previous slide, spoken before the narration */
+  transitionMessage?: string;
+  audioBuffer?: ArrayBuffer;
+  characterAction?: string;
+  /** Set on 'end' steps */
+  endAction?: AutoPlayEndBehavior;
+}
+
+const DEFAULT_AUTO_PLAY_INTERVAL = 30000;
 
 export class SlideNarrator extends Agent {
   private currentSlide: number = 1;
   private totalSlides: number = 0;
   private autoPlay: boolean = false;
+  private autoPlayState: AutoPlayState = 'stopped';
+  private pauseReason: 'question' | null = null;
+  private autoPlayStepId: number = 0;
+  private autoPlayInterval: number = DEFAULT_AUTO_PLAY_INTERVAL;
+  private endBehavior: AutoPlayEndBehavior = 'welcome';
   private narrationData: any = null;
   private memory: any;
   private _tools: Map<string, any> = new Map();
@@ -71,7 +119,7 @@ export class SlideNarrator extends Agent {
     }
   }
 
-  async narrateSlide(slideNumber?: number): Promise<{
+  async narrateSlide(slideNumber?: number, lead?: string): Promise<{
     narration: string;
     slideNumber: number;
     audioBuffer: ArrayBuffer;
@@ -90,24 +138,8 @@ export class SlideNarrator extends Agent {
 
     const narration = slideData.narration.auto;
     
-    // Convert narration to speech
-    const voiceService = this._tools.get('voiceService');
-    // Get language from memory
-    let language: SupportedLanguage = 'ja';
-    if (this.memory && typeof this.memory.get === 'function') {
-      language = await this.memory.get('language') as SupportedLanguage || 'ja';
-    } else if (this.memory instanceof Map) {
-      language = this.memory.get('language') as SupportedLanguage || 'ja';
-    }
-    const ttsResult = await voiceService.textToSpeech(narration, language);
-    
-    if (!ttsResult.success || !ttsResult.audioBase64) {
-      throw new Error(`Text-to-Speech failed: ${ttsResult.error}`);
-    }
-    
-    // Convert base64 to ArrayBuffer
-    const buffer = Buffer.from(ttsResult.audioBase64, 'base64');
-    const audioBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    // Convert narration to speech, leading with the transition line if any
+    const audioBuffer = await this.synthesize(lead ? `${lead} ${narration}` : narration);
     
     // Update current slide
     this.currentSlide = targetSlide;
@@ -145,7 +177,7 @@ export class SlideNarrator extends Agent {
       } else if (this.memory instanceof Map) {
         language = this.memory.get('language') as SupportedLanguage || 'ja';
       }
-      const message = language === 'en' 
+      const message = promptLanguageOf(language) === 'en' 
         ? "This is the last slide. Would you like to go back to the beginning or ask any questions?"
         : "最後のスライドです。最初に戻りますか、それとも何かご質問はございますか？";
       
@@ -188,7 +220,7 @@ export class SlideNarrator extends Agent {
       } else if (this.memory instanceof Map) {
         language = this.memory.get('language') as SupportedLanguage || 'ja';
       }
-      const message = language === 'en' 
+      const message = promptLanguageOf(language) === 'en' 
         ? "This is the first slide. Would you like to continue forward?"
         : "最初のスライドです。先に進みますか？";
       
@@ -241,6 +273,14 @@ export class SlideNarrator extends Agent {
       throw new Error('No narration data loaded');
     }
 
+    // Hold the presentation while the visitor's question is answered;
+    // resumeAutoPlay picks it up again on the same slide
+    if (this.autoPlayState === 'playing') {
+      this.autoPlayState = 'paused';
+      this.pauseReason = 'question';
+      await this.remember('autoPlayState', this.autoPlayState);
+    }
+
     const currentSlideData = this.narrationData.slides.find((s: any) => s.slideNumber === this.currentSlide);
     // Get language from memory
     let language: SupportedLanguage = 'ja';
@@ -264,7 +304,7 @@ export class SlideNarrator extends Agent {
 
     // Generate dynamic response based on slide content
     const slideContext = currentSlideData ? JSON.stringify(currentSlideData) : '';
-    const prompt = language === 'en'
+    const prompt = promptLanguageOf(language) === 'en'
       ? `Answer this question about slide ${this.currentSlide}: ${question}\nSlide context: ${slideContext}`
       : `スライド${this.currentSlide}について以下の質問に答えてください: ${question}\nスライドの内容: ${slideContext}`;
     
@@ -305,46 +345,159 @@ export class SlideNarrator extends Agent {
     };
   }
 
-  async setAutoPlay(enabled: boolean, interval?: number): Promise<void> {
+  async setAutoPlay(enabled: boolean, options: AutoPlayOptions = {}): Promise<void> {
     this.autoPlay = enabled;
+    if (options.interval && options.interval > 0) {
+      this.autoPlayInterval = options.interval;
+    }
+    if (options.endBehavior) {
+      this.endBehavior = options.endBehavior;
+    }
+    if (!enabled) {
+      this.autoPlayState = 'stopped';
+      this.pauseReason = null;
+    }
+
     // Store autoPlay settings in memory
-    if (this.memory && typeof this.memory.store === 'function') {
-      await this.memory.store('autoPlay', enabled);
-      if (enabled && interval) {
-        await this.memory.store('autoPlayInterval', interval);
-      }
-    } else if (this.memory instanceof Map) {
-      this.memory.set('autoPlay', enabled);
-      if (enabled && interval) {
-        this.memory.set('autoPlayInterval', interval);
-      }
+    await this.remember('autoPlay', enabled);
+    await this.remember('autoPlayInterval', this.autoPlayInterval);
+    await this.remember('autoPlayState', this.autoPlayState);
+  }
+
+  /**
+   * Start narrating from `fromSlide` (default: the current slide) and return
+   * the first step. Later steps come from completeAutoPlayStep.
+   */
+  async startAutoPlay(fromSlide?: number): Promise<AutoPlayStep | null> {
+    if (!this.autoPlay || !this.narrationData) {
+      return null;
     }
+
+    this.autoPlayState = 'playing';
+    this.pauseReason = null;
+    await this.remember('autoPlayState', this.autoPlayState);
+
+    const slide = fromSlide && fromSlide >= 1 && fromSlide <= this.totalSlides ? fromSlide : this.currentSlide;
+    return this.slideStep(slide);
   }
 
-  async startAutoPlay(): Promise<void> {
-    if (!this.autoPlay) {
-      return;
+  /**
+   * The client finished playing `stepId`: move to the next slide, speaking
+   * the current slide's transitions.next line first, or finish the deck.
+   * Returns null when auto-play is not running or the step is stale.
+   */
+  async completeAutoPlayStep(stepId: number): Promise<AutoPlayStep | null> {
+    if (this.autoPlayState !== 'playing' || stepId !== this.autoPlayStepId) {
+      return null;
     }
 
-    // Get autoPlay interval from memory
-    let interval = 30000; // 30 seconds default
-    if (this.memory && typeof this.memory.get === 'function') {
-      interval = await this.memory.get('autoPlayInterval') || 30000;
-    } else if (this.memory instanceof Map) {
-      interval = this.memory.get('autoPlayInterval') || 30000;
+    const slideData = this.narrationData?.slides?.find((s: any) => s.slideNumber === this.currentSlide);
+    const transitionMessage = slideData?.transitions?.next || undefined;
+
+    if (this.currentSlide < this.totalSlides) {
+      return this.slideStep(this.currentSlide + 1, transitionMessage);
     }
-    
-    // TODO: Implement auto-advance logic with timing
-    // This would automatically advance slides after the specified interval
+
+    if (this.endBehavior === 'loop') {
+      return this.slideStep(1, transitionMessage);
+    }
+
+    // End of the deck: say goodbye and hand back to the welcome screen
+    this.autoPlayState = 'stopped';
+    this.autoPlay = false;
+    await this.remember('autoPlay', false);
+    await this.remember('autoPlayState', this.autoPlayState);
+
+    const language = await this.getLanguage();
+    const closing = promptLanguageOf(language) === 'en'
+      ? 'That is the end of the presentation. Thank you for watching!'
+      : 'プレゼンテーションは以上です。ご覧いただきありがとうございました。';
+    let audioBuffer: ArrayBuffer | undefined;
+    try {
+      audioBuffer = await this.synthesize(closing);
+    } catch (error) {
+      console.error('Failed to synthesize closing message:', error);
+    }
+
+    return {
+      stepId: ++this.autoPlayStepId,
+      type: 'end',
+      slideNumber: this.currentSlide,
+      narration: closing,
+      audioBuffer,
+      endAction: 'welcome',
+    };
+  }
+
+  /**
+   * Continue after a question; the interrupted slide is narrated again
+   */
+  async resumeAutoPlay(): Promise<AutoPlayStep | null> {
+    if (this.autoPlayState !== 'paused') {
+      return null;
+    }
+    return this.startAutoPlay(this.currentSlide);
   }
 
   async stopAutoPlay(): Promise<void> {
     this.autoPlay = false;
+    this.autoPlayState = 'stopped';
+    this.pauseReason = null;
     // Store autoPlay setting in memory
+    await this.remember('autoPlay', false);
+    await this.remember('autoPlayState', this.autoPlayState);
+  }
+
+  getAutoPlayStatus(): AutoPlayStatus {
+    return {
+      state: this.autoPlayState,
+      pauseReason: this.pauseReason,
+      currentSlide: this.currentSlide,
+      totalSlides: this.totalSlides,
+      stepId: this.autoPlayStepId,
+      interval: this.autoPlayInterval,
+      endBehavior: this.endBehavior,
+    };
+  }
+
+  private async slideStep(slideNumber: number, transitionMessage?: string): Promise<AutoPlayStep> {
+    const result = await this.narrateSlide(slideNumber, transitionMessage);
+    return {
+      stepId: ++this.autoPlayStepId,
+      type: 'slide',
+      slideNumber: result.slideNumber,
+      narration: result.narration,
+      transitionMessage,
+      audioBuffer: result.audioBuffer,
+      characterAction: result.characterAction,
+    };
+  }
+
+  private async synthesize(text: string): Promise<ArrayBuffer> {
+    const voiceService = this._tools.get('voiceService');
+    const ttsResult = await voiceService.textToSpeech(text, await this.getLanguage());
+
+    if (!ttsResult.success || !ttsResult.audioBase64) {
+      throw new Error(`Text-to-Speech failed: ${ttsResult.error}`);
+    }
+
+    // Convert base64 to ArrayBuffer
+    const buffer = Buffer.from(ttsResult.audioBase64, 'base64');
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  }
+
+  private async getLanguage(): Promise<SupportedLanguage> {
+    if (this.memory && typeof this.memory.get === 'function') {
+      return await this.memory.get('language') as SupportedLanguage || 'ja';
+    }
+    return 'ja';
+  }
+
+  private async remember(key: string, value: unknown): Promise<void> {
     if (this.memory && typeof this.memory.store === 'function') {
-      await this.memory.store('autoPlay', false);
+      await this.memory.store(key, value);
     } else if (this.memory instanceof Map) {
-      this.memory.set('autoPlay', false);
+      this.memory.set(key, value);
     }
   }
 }
@@ -1,5 +1,9 @@
 import { Agent } from '@mastra/core/agent';
 import { SupportedLanguage } from '../types/config';
+import { facilityStatusMessage, getFacilityScheduleService } from '../../lib/facility-schedule';
+import { DEFAULT_LANGUAGE, detectLanguage, promptLanguageOf, withAnswerInstruction } from '../../lib/languages';
+import { translateForVisitor } from '../../lib/translation';
+import { uiText } from '../../lib/ui-messages';
 
 export class WelcomeAgent extends Agent {
   private memory: any;
@@ -12,7 +16,7 @@ export class WelcomeAgent extends Agent {
       instructions: `You are a friendly welcome agent for Engineer Cafe in Fukuoka.
         Your role is to:
         1. Greet new visitors warmly
-        2. Detect their preferred language (Japanese or English)
+        2. Detect their preferred language
         3. Guide them through slide presentation about Engineer Cafe services
         4. Respond to questions about the presentation content
         5. Direct them to registration or Q&A as needed
@@ -29,27 +33,42 @@ export class WelcomeAgent extends Agent {
     this._tools.set(name, tool);
   }
 
-  async welcome(language?: SupportedLanguage): Promise<string> {
-    const welcomeMessage = language === 'en' 
-      ? "[happy]Welcome to Engineer Cafe! I'm here to guide you through our services. Would you like to start with our presentation?[/happy]"
-      : "[happy]エンジニアカフェへようこそ！サービスのご案内をさせていただきます。プレゼンテーションから始めませんか？[/happy]";
+  async welcome(requestLanguage?: SupportedLanguage): Promise<string> {
+    const language = requestLanguage || DEFAULT_LANGUAGE;
+    const notice = await this.facilityNotice(language);
+    const welcomeMessage = promptLanguageOf(language) === 'en' 
+      ? `[happy]Welcome to Engineer Cafe! ${notice}I'm here to guide you through our services. Would you like to start with our presentation?[/happy]`
+      : `[happy]エンジニアカフェへようこそ！${notice}サービスのご案内をさせていただきます。プレゼンテーションから始めませんか？[/happy]`;
     
     // Store language preference in memory
-    await this.memory.store('language', language || 'ja');
+    await this.memory.store('language', language);
     
-    return welcomeMessage;
+    return translateForVisitor(welcomeMessage, language);
+  }
+
+  /**
+   * A sentence for the greeting when Engineer Cafe is closing soon or closed,
+   * e.g. for the New Year holidays; nothing while it is open as usual
+   */
+  private async facilityNotice(language: SupportedLanguage): Promise<string> {
+    try {
+      const status = await getFacilityScheduleService().getStatus('engineer-cafe');
+      if (status.state === 'open') return '';
+      const message = facilityStatusMessage(status, language);
+      return promptLanguageOf(language) === 'en' ? `${message} ` : message;
+    } catch (error) {
+      console.error('[WelcomeAgent] Failed to resolve opening hours:', error);
+      return '';
+    }
   }
 
   async handleLanguageSelection(userInput: string): Promise<{ language: SupportedLanguage; response: string }> {
     // Simple language detection based on input
-    const isEnglish = /^(english|en|yes|hi|hello)/i.test(userInput.trim());
-    const language: SupportedLanguage = isEnglish ? 'en' : 'ja';
+    const language = detectLanguage(userInput).language;
     
     await this.memory.store('language', language);
     
-    const response = language === 'en'
-      ? "[happy]Great! I'll assist you in English. Let's begin with our service overview.[/happy]"
-      : "[happy]ありがとうございます！日本語でご案内いたします。サービス概要から始めましょう。[/happy]";
+    const response = `[happy]${uiText('language.greeting', language)}[/happy]`;
     
     return { language, response };
   }
@@ -58,12 +77,12 @@ export class WelcomeAgent extends Agent {
     const language = await this.memory.get('language') as SupportedLanguage || 'ja';
     
     // Use the agent's reasoning to answer questions about slide content
-    const prompt = language === 'en'
+    const prompt = promptLanguageOf(language) === 'en'
       ? `Answer this question about slide ${slideNumber} of Engineer Cafe presentation: ${question}`
       : `エンジニアカフェのプレゼンテーション${slideNumber}枚目のスライドについての質問に答えてください: ${question}`;
     
     const response = await this.generate([
-      { role: 'user', content: prompt }
+      { role: 'user', content: withAnswerInstruction(prompt, language) }
     ]);
     return response.text;
   }
@@ -71,20 +90,20 @@ export class WelcomeAgent extends Agent {
   async transitionToQA(): Promise<string> {
     const language = await this.memory.get('language') as SupportedLanguage || 'ja';
     
-    const message = language === 'en'
+    const message = promptLanguageOf(language) === 'en'
       ? "[neutral]I'd be happy to answer any specific questions you have about Engineer Cafe. What would you like to know?[/neutral]"
       : "[neutral]エンジニアカフェについて、どのようなご質問がございますか？お気軽にお聞きください。[/neutral]";
     
-    return message;
+    return translateForVisitor(message, language);
   }
 
   async transitionToRegistration(): Promise<string> {
     const language = await this.memory.get('language') as SupportedLanguage || 'ja';
     
-    const message = language === 'en'
-      ? "[happy]Great! Let me guide you through the registration process. First, you'll need to create an account...[/happy]"
-      : "[happy]ありがとうございます！新規登録のご案内をいたします。まず、アカウントの作成から始めましょう...[/happy]";
+    const message = promptLanguageOf(language) === 'en'
+      ? "[happy]Great! Please tap \"Visitor check-in\" on the screen. After you agree to how we use your details, tell me your name, affiliation and purpose of visit, and you'll get a QR code for next time.[/happy]"
+      : "[happy]ありがとうございます！画面の「来館受付」を押してください。個人情報の取り扱いにご同意いただいたあと、お名前・ご所属・ご用件を伺い、次回用のQRコードをお渡しします。[/happy]";
     
-    return message;
+    return translateForVisitor(message, language);
   }
 }
@@ -0,0 +1,260 @@
+import { RAGQualityMetrics } from '../../lib/monitoring/performance-baseline';
+import { supabaseAdmin } from '../../lib/supabase';
+import { KnowledgeSearchResult } from '../tools/rag-search';
+import { SupportedLanguage } from '../types/config';
+import goldenDataset from './rag-golden-dataset.json';
+
+/**
+ * Retrieval and answer quality evaluation against a versioned golden dataset.
+ * Each question lists the knowledge base entries that should be retrieved and
+ * the facts a good answer contains; runs report recall@k, MRR and fact
+ * coverage so changes to search or prompting can be gated on quality.
+ */
+
+/** Matches a knowledge_base row by id, or by category/subcategory when no id is given */
+export interface RelevanceTarget {
+  id?: string;
+  category?: string;
+  subcategory?: string;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  language: SupportedLanguage;
+  question: string;
+  relevant: RelevanceTarget[];
+  /** Each fact is a list of acceptable phrasings; any one of them counts */
+  facts?: string[][];
+}
+
+export interface GoldenDataset {
+  version: string;
+  description?: string;
+  questions: GoldenQuestion[];
+}
+
+export const DEFAULT_GOLDEN_DATASET = goldenDataset as GoldenDataset;
+
+/** The part of RAGSearchTool the evaluator needs */
+export interface EvaluationSearch {
+  execute(params: {
+    query: string;
+    language?: SupportedLanguage;
+    limit?: number;
+    threshold?: number;
+    mode?: 'vector' | 'keyword' | 'hybrid';
+  }): Promise<{ success: boolean; results: KnowledgeSearchResult[]; message?: string }>;
+}
+
+export type EvaluationAnswerer = (question: GoldenQuestion) => Promise<string>;
+
+export interface EvaluationOptions {
+  /** Cut-off for recall@k; also the search limit (default 5) */
+  k?: number;
+  threshold?: number;
+  mode?: 'vector' | 'keyword' | 'hybrid';
+  /** Generates answers for fact coverage; retrieval only when omitted */
+  answer?: EvaluationAnswerer;
+  /** LLM behind `answer`, e.g. 'stub' or 'gemini'; runs are only compared with the same LLM */
+  llm?: string;
+  /** Free-form labels stored with the run, e.g. the LLM mode */
+  labels?: Record<string, string | number | boolean>;
+}
+
+export interface QuestionEvaluation {
+  id: string;
+  language: SupportedLanguage;
+  question: string;
+  retrieved: Array<{ id: string; category?: string; subcategory?: string; title?: string; score: number }>;
+  recallAtK: number;
+  reciprocalRank: number;
+  answer?: string;
+  factCoverage?: number;
+  missingFacts?: string[];
+  error?: string;
+}
+
+export interface RAGEvaluationRun {
+  datasetVersion: string;
+  startedAt: string;
+  durationMs: number;
+  options: { k: number; threshold: number; mode: string; answers: boolean; labels?: EvaluationOptions['labels'] };
+  metrics: RAGQualityMetrics;
+  results: QuestionEvaluation[];
+}
+
+export function isRelevant(result: Pick<KnowledgeSearchResult, 'id' | 'category' | 'subcategory'>, target: RelevanceTarget): boolean {
+  if (target.id) {
+    return result.id === target.id;
+  }
+  return (target.category === undefined || result.category === target.category)
+    && (target.subcategory === undefined || result.subcategory === target.subcategory);
+}
+
+/** Share of relevance targets found within the top k results */
+export function recallAtK(results: KnowledgeSearchResult[], targets: RelevanceTarget[], k: number): number {
+  if (targets.length === 0) return 1;
+  const topK = results.slice(0, k);
+  const found = targets.filter(target => topK.some(result => isRelevant(result, target)));
+  return found.length / targets.length;
+}
+
+/** 1/rank of the first relevant result, 0 when none was retrieved */
+export function reciprocalRank(results: KnowledgeSearchResult[], targets: RelevanceTarget[]): number {
+  const index = results.findIndex(result => targets.some(target => isRelevant(result, target)));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Which expected facts appear in the answer (case-insensitive substring match) */
+export function factCoverage(answer: string, facts: string[][]): { coverage: number; missing: string[] } {
+  if (facts.length === 0) return { coverage: 1, missing: [] };
+  const normalized = normalizeForMatch(answer);
+  const missing = facts
+    .filter(alternatives => !alternatives.some(fact => normalized.includes(normalizeForMatch(fact))))
+    .map(alternatives => alternatives[0]);
+  return { coverage: (facts.length - missing.length) / facts.length, missing };
+}
+
+const average = (values: number[]) => values.length > 0
+  ? values.reduce((sum, value) => sum + value, 0) / values.length
+  : 0;
+
+export class RAGEvaluator {
+  constructor(private readonly search: EvaluationSearch) {}
+
+  async run(dataset: GoldenDataset = DEFAULT_GOLDEN_DATASET, options: EvaluationOptions = {}): Promise<RAGEvaluationRun> {
+    const { k = 5, threshold = 0.5, mode = 'hybrid', answer } = options;
+    const startedAt = new Date();
+    const results: QuestionEvaluation[] = [];
+
+    // Sequential on purpose: keeps embedding/LLM rate limits predictable
+    for (const question of dataset.questions) {
+      results.push(await this.evaluateQuestion(question, { k, threshold, mode, answer }));
+    }
+
+    const answered = results.filter(result => result.factCoverage !== undefined);
+
+    return {
+      datasetVersion: dataset.version,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      options: { k, threshold, mode, answers: !!answer, labels: options.labels },
+      metrics: {
+        datasetVersion: dataset.version,
+        k,
+        mode,
+        llm: answer ? options.llm ?? 'unknown' : 'none',
+        questionCount: results.length,
+        recallAtK: average(results.map(result => result.recallAtK)),
+        mrr: average(results.map(result => result.reciprocalRank)),
+        factCoverage: answer ? average(answered.map(result => result.factCoverage!)) : null,
+      },
+      results,
+    };
+  }
+
+  private async evaluateQuestion(
+    question: GoldenQuestion,
+    options: { k: number; threshold: number; mode: 'vector' | 'keyword' | 'hybrid'; answer?: EvaluationAnswerer }
+  ): Promise<QuestionEvaluation> {
+    const evaluation: QuestionEvaluation = {
+      id: question.id,
+      language: question.language,
+      question: question.question,
+      retrieved: [],
+      recallAtK: 0,
+      reciprocalRank: 0,
+    };
+
+    // A failed search or answer scores zero rather than aborting the run
+    try {
+      const search = await this.search.execute({
+        query: question.question,
+        language: question.language,
+        limit: options.k,
+        threshold: options.threshold,
+        mode: options.mode,
+      });
+      if (!search.success) {
+        throw new Error(search.message || 'Search failed');
+      }
+
+      evaluation.retrieved = search.results.map(result => ({
+        id: result.id,
+        category: result.category,
+        subcategory: result.subcategory,
+        title: result.title || result.metadata?.title,
+        score: result.score ?? result.similarity,
+      }));
+      evaluation.recallAtK = recallAtK(search.results, question.relevant, options.k);
+      evaluation.reciprocalRank = reciprocalRank(search.results, question.relevant);
+    } catch (error) {
+      evaluation.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (options.answer) {
+      try {
+        evaluation.answer = await options.answer(question);
+        const { coverage, missing } = factCoverage(evaluation.answer, question.facts || []);
+        evaluation.factCoverage = coverage;
+        evaluation.missingFacts = missing;
+      } catch (error) {
+        evaluation.factCoverage = 0;
+        evaluation.missingFacts = (question.facts || []).map(alternatives => alternatives[0]);
+        evaluation.error = [evaluation.error, error instanceof Error ? error.message : String(error)]
+          .filter(Boolean)
+          .join('; ');
+      }
+    }
+
+    return evaluation;
+  }
+}
+
+/**
+ * Stand-in for the LLM behind an agent's generate(): answers relevance checks
+ * with YES, declines intent classification and otherwise echoes the prompt's
+ * context, so fact coverage measures what reached the prompt without API calls.
+ */
+export function stubAgentGenerate(agent: { generate: (...args: any[]) => Promise<any> }): void {
+  agent.generate = async (messages: Array<{ content: string }> | string) => {
+    const prompt = typeof messages === 'string' ? messages : messages.map(message => message.content).join('\n');
+
+    if (prompt.includes('Reply with JSON only')) {
+      return { text: '' };
+    }
+    if (prompt.includes('"YES" or "NO"') || prompt.includes('「はい」または「いいえ」')) {
+      return { text: 'YES' };
+    }
+
+    const markers = ['Context: ', '文脈: '];
+    const index = Math.max(...markers.map(marker => {
+      const position = prompt.lastIndexOf(marker);
+      return position === -1 ? -1 : position + marker.length;
+    }));
+    return { text: index === -1 ? prompt : prompt.slice(index) };
+  };
+}
+
+/** Store a run in rag_evaluation_runs; the latest run feeds PerformanceBaseline */
+export async function storeEvaluationRun(run: RAGEvaluationRun, passed: boolean): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('rag_evaluation_runs')
+    .insert({
+      dataset_version: run.datasetVersion,
+      metrics: run.metrics,
+      options: run.options,
+      results: run.results,
+      passed,
+      duration_ms: run.durationMs,
+      created_at: run.startedAt,
+    });
+
+  if (error) {
+    throw new Error(`Failed to store evaluation run: ${error.message}`);
+  }
+}
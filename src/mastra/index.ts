@@ -1,7 +1,7 @@
 import { Mastra } from '@mastra/core';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { Config } from './types/config';
-import { GoogleCloudVoiceSimple } from './voice/google-cloud-voice-simple';
+import { VoiceProvider, createVoiceService } from './voice/voice-provider';
 import { WelcomeAgent } from './agents/welcome-agent';
 import { EnhancedQAAgent } from './agents/enhanced-qa-agent';
 import { RealtimeAgent } from './agents/realtime-agent';
@@ -27,7 +27,7 @@ export class EngineerCafeNavigator {
   private config: Config;
   private agents: Map<string, any> = new Map();
   private tools: Map<string, any> = new Map();
-  private voiceService!: GoogleCloudVoiceSimple;
+  private voiceService!: VoiceProvider;
 
   constructor(config: Config) {
     this.config = config;
@@ -41,8 +41,8 @@ export class EngineerCafeNavigator {
   }
 
   private initializeServices() {
-    // Initialize Google Cloud Voice Service
-    this.voiceService = new GoogleCloudVoiceSimple();
+    // STT/TTS providers per language (VOICE_PROVIDER, VOICE_PROVIDER_JA, ...)
+    this.voiceService = createVoiceService();
   }
 
   private initializeAgents() {
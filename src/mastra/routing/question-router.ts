@@ -0,0 +1,342 @@
+import { supabaseAdmin } from '../../lib/supabase';
+import { SupportedLanguage } from '../types/config';
+import defaultRoutes from './question-routes.json';
+
+/**
+ * What the QA agent should do with a routed question
+ */
+export type RouteHandler =
+  | { type: 'calendar' }
+  /** checkFollowUp: false answers straight from RAG without follow-up/memory checks */
+  | { type: 'rag'; category?: string; checkFollowUp?: boolean }
+  | { type: 'web-search' }
+  /** Room availability; reserve: true also makes a provisional reservation */
+  | { type: 'rooms'; reserve?: boolean }
+  /** Opening hours from the facility schedule; facility defaults to Engineer Cafe */
+  | { type: 'hours'; facility?: string }
+  | { type: 'clarification'; message: Partial<Record<SupportedLanguage, string>> };
+
+export interface RoutingRule {
+  id: string;
+  intent: string;
+  description?: string;
+  /** Higher priority rules win when several match */
+  priority: number;
+  handler: RouteHandler;
+  /** Any keyword (from any language) matches the rule */
+  keywords?: Partial<Record<SupportedLanguage, string[]>>;
+  /** Regular expressions tested against the normalized question */
+  patterns?: string[];
+  /** Every group must contribute at least one match */
+  requires?: string[][];
+  /** Any match vetoes the rule */
+  excludes?: string[];
+  /** Base confidence when the rule matches (default 0.8) */
+  confidence?: number;
+  enabled?: boolean;
+}
+
+export interface RoutingConfig {
+  version: number;
+  defaultIntent: string;
+  defaultHandler: RouteHandler;
+  normalizations: Array<{ pattern: string; replacement: string }>;
+  rules: RoutingRule[];
+  llmFallback?: { enabled: boolean; minConfidence: number };
+}
+
+export interface RouteDecision {
+  intent: string;
+  handler: RouteHandler;
+  confidence: number;
+  source: 'rule' | 'llm' | 'default';
+  matchedRule?: { id: string; matched: string[] };
+  normalizedQuestion: string;
+}
+
+/**
+ * Optional classifier consulted when no rule matches
+ */
+export type IntentClassifier = (
+  question: string,
+  intents: Array<{ intent: string; description?: string }>
+) => Promise<{ intent: string; confidence: number } | null>;
+
+const DEFAULT_RULE_CONFIDENCE = 0.8;
+const DEFAULT_ROUTE_CONFIDENCE = 0.3;
+const RULES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_ROUTING_CONFIG = defaultRoutes as RoutingConfig;
+
+/** A rule with its patterns compiled once when the config is loaded */
+interface CompiledRule {
+  rule: RoutingRule;
+  patterns: RegExp[];
+}
+
+/**
+ * Data-driven question router. Intents, keywords, priorities and handlers come
+ * from question-routes.json or the question_routes table, so new topics do not
+ * need code changes.
+ */
+export class QuestionRouter {
+  private config: RoutingConfig;
+  private rules: CompiledRule[];
+  private classifier?: IntentClassifier;
+
+  constructor(config: RoutingConfig = DEFAULT_ROUTING_CONFIG, classifier?: IntentClassifier) {
+    this.config = config;
+    this.rules = QuestionRouter.compileRules(config.rules);
+    this.classifier = classifier;
+  }
+
+  /**
+   * Enabled rules by descending priority; rules with an invalid pattern are
+   * skipped
+   */
+  private static compileRules(rules: RoutingRule[]): CompiledRule[] {
+    const compiled: CompiledRule[] = [];
+    for (const rule of rules) {
+      if (rule.enabled === false) {
+        continue;
+      }
+      const patterns = compilePatterns(rule);
+      if (patterns) {
+        compiled.push({ rule, patterns });
+      }
+    }
+    return compiled.sort((a, b) => b.rule.priority - a.rule.priority);
+  }
+
+  setClassifier(classifier?: IntentClassifier) {
+    this.classifier = classifier;
+  }
+
+  /**
+   * Replace the active config, e.g. after loading rules from the database
+   */
+  updateConfig(config: RoutingConfig) {
+    if (config === this.config) {
+      return;
+    }
+    this.config = config;
+    this.rules = QuestionRouter.compileRules(config.rules);
+  }
+
+  getIntents(): Array<{ intent: string; description?: string }> {
+    const seen = new Map<string, string | undefined>();
+    for (const { rule } of this.rules) {
+      if (!seen.has(rule.intent)) {
+        seen.set(rule.intent, rule.description);
+      }
+    }
+    seen.set(this.config.defaultIntent, seen.get(this.config.defaultIntent) || 'Anything else');
+    return Array.from(seen.entries()).map(([intent, description]) => ({ intent, description }));
+  }
+
+  normalize(question: string): string {
+    let normalized = question.normalize('NFKC').toLowerCase();
+    for (const { pattern, replacement } of this.config.normalizations) {
+      normalized = normalized.split(pattern.toLowerCase()).join(replacement);
+    }
+    return normalized;
+  }
+
+  async route(question: string): Promise<RouteDecision> {
+    const normalizedQuestion = this.normalize(question);
+
+    let best: { rule: RoutingRule; matched: string[] } | null = null;
+    for (const compiled of this.rules) {
+      const { rule } = compiled;
+      // Rules are sorted by priority; only equal-priority rules can still compete
+      if (best && rule.priority < best.rule.priority) {
+        break;
+      }
+      const matched = this.matchRule(compiled, normalizedQuestion);
+      if (matched && (!best || matched.length > best.matched.length)) {
+        best = { rule, matched };
+      }
+    }
+
+    if (best) {
+      const base = best.rule.confidence ?? DEFAULT_RULE_CONFIDENCE;
+      return {
+        intent: best.rule.intent,
+        handler: best.rule.handler,
+        confidence: Math.min(0.99, base + 0.05 * (best.matched.length - 1)),
+        source: 'rule',
+        matchedRule: { id: best.rule.id, matched: best.matched },
+        normalizedQuestion,
+      };
+    }
+
+    const llmDecision = await this.classifyWithLLM(question, normalizedQuestion);
+    if (llmDecision) {
+      return llmDecision;
+    }
+
+    return {
+      intent: this.config.defaultIntent,
+      handler: this.config.defaultHandler,
+      confidence: DEFAULT_ROUTE_CONFIDENCE,
+      source: 'default',
+      normalizedQuestion,
+    };
+  }
+
+  /**
+   * Returns the matched terms, or null when the rule does not apply
+   */
+  private matchRule({ rule, patterns }: CompiledRule, text: string): string[] | null {
+    if (rule.excludes?.some(term => matchesTerm(text, term))) {
+      return null;
+    }
+
+    const matched: string[] = [];
+    const keywords = Object.values(rule.keywords || {}).flat() as string[];
+
+    keywords.filter(term => matchesTerm(text, term)).forEach(term => matched.push(term));
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        matched.push(match[0]);
+      }
+    }
+
+    // Rules with keywords/patterns need at least one of them
+    if ((keywords.length > 0 || patterns.length > 0) && matched.length === 0) {
+      return null;
+    }
+
+    for (const group of rule.requires || []) {
+      const groupMatch = group.find(term => matchesTerm(text, term));
+      if (!groupMatch) {
+        return null;
+      }
+      matched.push(groupMatch);
+    }
+
+    return matched.length > 0 ? matched : null;
+  }
+
+  private async classifyWithLLM(question: string, normalizedQuestion: string): Promise<RouteDecision | null> {
+    const fallback = this.config.llmFallback;
+    if (!fallback?.enabled || !this.classifier) {
+      return null;
+    }
+
+    try {
+      const result = await this.classifier(question, this.getIntents());
+      if (!result || result.confidence < fallback.minConfidence) {
+        return null;
+      }
+
+      const rule = this.rules.find(({ rule }) => rule.intent === result.intent)?.rule;
+      if (!rule && result.intent !== this.config.defaultIntent) {
+        console.warn('[QuestionRouter] Classifier returned unknown intent:', result.intent);
+        return null;
+      }
+
+      return {
+        intent: result.intent,
+        handler: rule?.handler || this.config.defaultHandler,
+        confidence: result.confidence,
+        source: 'llm',
+        normalizedQuestion,
+      };
+    } catch (error) {
+      console.error('[QuestionRouter] LLM classification failed:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Latin terms match at a word start ("event" matches "events" but not
+ * "prevent"); Japanese terms match anywhere since there are no spaces
+ */
+function matchesTerm(text: string, term: string): boolean {
+  const normalizedTerm = term.normalize('NFKC').toLowerCase();
+  if (/^[a-z0-9 .'&-]+$/.test(normalizedTerm)) {
+    const escaped = normalizedTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}`).test(text);
+  }
+  return text.includes(normalizedTerm);
+}
+
+/**
+ * Compile a rule's patterns, or log and return null when one of them is not a
+ * valid regular expression
+ */
+function compilePatterns(rule: RoutingRule): RegExp[] | null {
+  try {
+    return (rule.patterns || []).map(pattern => new RegExp(pattern, 'i'));
+  } catch (error) {
+    console.warn(
+      `[QuestionRouter] Skipping rule ${rule.id}: invalid pattern:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+let cachedDatabaseConfig: { config: RoutingConfig; loadedAt: number } | null = null;
+
+/**
+ * Load routing rules. With QUESTION_ROUTES_SOURCE=database the enabled rows of
+ * question_routes replace the rules from question-routes.json; normalizations
+ * and defaults always come from the file. Falls back to the file on any error.
+ */
+export async function loadRoutingConfig(): Promise<RoutingConfig> {
+  if (process.env.QUESTION_ROUTES_SOURCE !== 'database') {
+    return DEFAULT_ROUTING_CONFIG;
+  }
+
+  if (cachedDatabaseConfig && Date.now() - cachedDatabaseConfig.loadedAt < RULES_CACHE_TTL_MS) {
+    return cachedDatabaseConfig.config;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('question_routes')
+      .select('*')
+      .eq('enabled', true);
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      console.warn('[QuestionRouter] question_routes is empty, using question-routes.json');
+      return DEFAULT_ROUTING_CONFIG;
+    }
+
+    const rules: RoutingRule[] = data.map((row: any) => ({
+      id: row.id,
+      intent: row.intent,
+      description: row.description || undefined,
+      priority: row.priority,
+      handler: row.handler,
+      keywords: row.keywords || undefined,
+      patterns: row.patterns || undefined,
+      requires: row.requires || undefined,
+      excludes: row.excludes || undefined,
+      confidence: row.confidence ?? undefined,
+    }));
+
+    // Rows with a pattern that does not compile are logged and dropped
+    const validRules = rules.filter(rule => compilePatterns(rule) !== null);
+    if (validRules.length === 0) {
+      console.warn('[QuestionRouter] No valid rules in question_routes, using question-routes.json');
+      return DEFAULT_ROUTING_CONFIG;
+    }
+
+    const config: RoutingConfig = { ...DEFAULT_ROUTING_CONFIG, rules: validRules };
+
+    cachedDatabaseConfig = { config, loadedAt: Date.now() };
+    return config;
+  } catch (error) {
+    console.error('[QuestionRouter] Failed to load question_routes, using question-routes.json:', error);
+    return DEFAULT_ROUTING_CONFIG;
+  }
+}
@@ -1,214 +1,289 @@
 import { z } from 'zod';
+import {
+  CalendarEventInstance,
+  DEFAULT_CALENDAR_TIME_ZONE,
+  expandEvents,
+  ICalendar,
+  msToWall,
+  parseICalendar,
+  toZonedWallTime,
+  zonedTimeToUtc,
+} from '../../lib/icalendar';
+import { SupportedLanguage } from '../types/config';
+import { promptLanguageOf } from '../../lib/languages';
 
-interface CalendarEvent {
-  summary: string;
-  dtstart: Date;
-  dtend?: Date;
-  description?: string;
-  location?: string;
+export interface CalendarSource {
+  name: string;
+  url: string;
+}
+
+/** A time range asked about, e.g. "next Tuesday evening" */
+export interface CalendarWindow {
+  start: Date;
+  end: Date;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Calendars to merge: CALENDAR_ICAL_URLS as comma-separated name=url pairs
+ * (e.g. saino=https://...,meeting-rooms=https://...), plus
+ * GOOGLE_CALENDAR_ICAL_URL as "engineer-cafe".
+ */
+export function getCalendarSources(): CalendarSource[] {
+  const sources: CalendarSource[] = [];
+  if (process.env.GOOGLE_CALENDAR_ICAL_URL) {
+    sources.push({ name: 'engineer-cafe', url: process.env.GOOGLE_CALENDAR_ICAL_URL });
+  }
+  for (const entry of (process.env.CALENDAR_ICAL_URLS || '').split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const source = { name: entry.slice(0, separator).trim(), url: entry.slice(separator + 1).trim() };
+    if (source.url && !sources.some(existing => existing.url === source.url)) {
+      sources.push(source);
+    }
+  }
+  return sources;
+}
+
+const EN_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const JA_WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Checked in order; the first match sets the time of day
+const TIMES_OF_DAY: Array<[RegExp, number, number]> = [
+  [/午前|朝|morning/, 6, 12],
+  [/午後|昼|afternoon/, 12, 18],
+  [/夕方|夜|晩|evening|tonight|night/, 17, 24],
+];
+
+/**
+ * The time range a question refers to, in the calendar time zone, or null
+ * when it names no day. "next Tuesday" / 来週の火曜日 is the Tuesday of next
+ * week; a bare weekday is its next occurrence, today included.
+ */
+export function resolveCalendarWindow(
+  query: string,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_CALENDAR_TIME_ZONE
+): CalendarWindow | null {
+  const text = query.toLowerCase();
+  const current = toZonedWallTime(now, timeZone);
+  const today = Date.UTC(current.year, current.month - 1, current.day);
+  const mondayThisWeek = today - ((current.weekday + 6) % 7) * DAY_MS;
+  const nextWeek = /来週|next week/.test(text);
+
+  let days: [number, number] | null = null;
+
+  const jaWeekday = text.match(/([日月火水木金土])曜/);
+  const enWeekday = text.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  const weekday = jaWeekday ? JA_WEEKDAYS.indexOf(jaWeekday[1]) : enWeekday ? EN_WEEKDAYS.indexOf(enWeekday[1]) : -1;
+  const explicitDate = text.match(/(\d{1,2})月(\d{1,2})日/) || text.match(/\b(\d{1,2})\/(\d{1,2})\b/);
+
+  if (explicitDate) {
+    const month = parseInt(explicitDate[1], 10);
+    const day = parseInt(explicitDate[2], 10);
+    let date = Date.UTC(current.year, month - 1, day);
+    // A date already past refers to next year
+    if (date < today) date = Date.UTC(current.year + 1, month - 1, day);
+    days = [date, date + DAY_MS];
+  } else if (/明後日|あさって|day after tomorrow/.test(text)) {
+    days = [today + 2 * DAY_MS, today + 3 * DAY_MS];
+  } else if (/明日|あした|tomorrow/.test(text)) {
+    days = [today + DAY_MS, today + 2 * DAY_MS];
+  } else if (/今日|本日|今夜|今晩|today|tonight/.test(text)) {
+    days = [today, today + DAY_MS];
+  } else if (weekday !== -1) {
+    const isNext = nextWeek || new RegExp(`next ${EN_WEEKDAYS[weekday]}`).test(text);
+    const date = isNext
+      ? mondayThisWeek + 7 * DAY_MS + ((weekday + 6) % 7) * DAY_MS
+      : today + ((weekday - current.weekday + 7) % 7) * DAY_MS;
+    days = [date, date + DAY_MS];
+  } else if (/週末|weekend/.test(text)) {
+    const saturday = mondayThisWeek + 5 * DAY_MS;
+    days = [Math.max(today, saturday), mondayThisWeek + 7 * DAY_MS];
+  } else if (nextWeek) {
+    days = [mondayThisWeek + 7 * DAY_MS, mondayThisWeek + 14 * DAY_MS];
+  } else if (/今週|this week/.test(text)) {
+    days = [today, mondayThisWeek + 7 * DAY_MS];
+  } else if (/来月|next month/.test(text)) {
+    days = [Date.UTC(current.year, current.month, 1), Date.UTC(current.year, current.month + 1, 1)];
+  } else if (/今月|this month/.test(text)) {
+    days = [today, Date.UTC(current.year, current.month, 1)];
+  }
+
+  const timeOfDay = TIMES_OF_DAY.find(([pattern]) => pattern.test(text));
+  if (!days && timeOfDay) {
+    days = [today, today + DAY_MS];
+  }
+  if (!days) return null;
+
+  const [startDay, endDay] = days;
+  const single = endDay - startDay === DAY_MS;
+  const start = single && timeOfDay ? startDay + timeOfDay[1] * HOUR_MS : startDay;
+  const end = single && timeOfDay ? startDay + timeOfDay[2] * HOUR_MS : endDay;
+
+  return {
+    start: zonedTimeToUtc(msToWall(start), timeZone),
+    end: zonedTimeToUtc(msToWall(end), timeZone),
+  };
+}
+
+function formatDateTime(date: Date, language: SupportedLanguage, timeZone: string, withTime: boolean): string {
+  return date.toLocaleString(promptLanguageOf(language) === 'en' ? 'en-US' : 'ja-JP', {
+    timeZone,
+    year: 'numeric',
+    month: promptLanguageOf(language) === 'en' ? 'short' : '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' } : {}),
+  });
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+}
+
+function formatEvent(event: CalendarEventInstance, language: SupportedLanguage, timeZone: string): string {
+  let when: string;
+  if (event.allDay) {
+    const lastDay = new Date(event.end.getTime() - DAY_MS);
+    when = formatDateTime(event.start, language, timeZone, false)
+      + (lastDay.getTime() > event.start.getTime() ? ` – ${formatDateTime(lastDay, language, timeZone, false)}` : '')
+      + (promptLanguageOf(language) === 'en' ? ' (all day)' : '（終日）');
+  } else {
+    const sameDay = toZonedWallTime(event.start, timeZone).day === toZonedWallTime(event.end, timeZone).day
+      && event.end.getTime() - event.start.getTime() < DAY_MS;
+    when = `${formatDateTime(event.start, language, timeZone, true)} – `
+      + (sameDay ? formatTime(event.end, timeZone) : formatDateTime(event.end, language, timeZone, true));
+  }
+
+  let line = `**${event.summary}**: ${when}`;
+  if (event.location) line += ` (Location: ${event.location})`;
+  if (event.calendar) line += ` [${event.calendar}]`;
+  if (event.status === 'tentative') line += ' (tentative)';
+  if (event.description) {
+    const description = event.description.replace(/\s+/g, ' ').trim();
+    line += ` - ${description.length > 200 ? `${description.slice(0, 200)}…` : description}`;
+  }
+  return line;
+}
+
+/** Calendar context for the QA prompt */
+export function formatEventsForAI(
+  events: CalendarEventInstance[],
+  language: SupportedLanguage = 'ja',
+  options: { window?: CalendarWindow | null; daysAhead?: number; timeZone?: string } = {}
+): string {
+  const timeZone = options.timeZone || DEFAULT_CALENDAR_TIME_ZONE;
+  const range = options.window
+    ? `${formatDateTime(options.window.start, language, timeZone, true)} – ${formatDateTime(new Date(options.window.end.getTime() - 1), language, timeZone, true)}`
+    : null;
+
+  if (events.length === 0) {
+    return range
+      ? `## Calendar Events (${range}):\nNo events are scheduled in this period.`
+      : `## Upcoming Calendar Events:\nNo upcoming events in the next ${options.daysAhead ?? 30} days.`;
+  }
+
+  const heading = range ? `## Calendar Events (${range}):` : '## Upcoming Calendar Events:';
+  return `${heading}\n${events.map(event => `- ${formatEvent(event, language, timeZone)}`).join('\n')}`;
 }
 
 export class CalendarServiceTool {
   name = 'calendar-service';
-  description = 'Fetch and parse calendar events from iCal format';
+  description = 'Fetch calendar events from iCal feeds, with recurring events expanded';
 
   schema = z.object({
-    icalUrl: z.string().optional().describe('iCal calendar URL'),
-    useProxy: z.boolean().optional().default(true).describe('Use proxy API to avoid CORS'),
+    icalUrl: z.string().optional().describe('iCal calendar URL; defaults to the configured calendars'),
     daysAhead: z.number().optional().default(30).describe('Number of days to look ahead'),
     maxEvents: z.number().optional().default(10).describe('Maximum number of events to return'),
+    from: z.string().optional().describe('Start of the period (ISO 8601); defaults to now'),
+    to: z.string().optional().describe('End of the period (ISO 8601); defaults to from + daysAhead'),
   });
 
-  private isDevelopment(): boolean {
-    return process.env.NODE_ENV === 'development';
-  }
+  private cache = new Map<string, { fetchedAt: number; calendar: ICalendar }>();
 
-  async execute(params: z.infer<typeof this.schema>): Promise<{
+  async execute(params: z.input<typeof this.schema>): Promise<{
     success: boolean;
-    events: string;
+    events: CalendarEventInstance[];
+    failedCalendars?: string[];
     error?: string;
   }> {
     try {
-      const { icalUrl = process.env.GOOGLE_CALENDAR_ICAL_URL, useProxy, daysAhead, maxEvents } = params;
+      const { icalUrl, daysAhead, maxEvents, from, to } = this.schema.parse(params);
+      const sources = icalUrl ? [{ name: 'calendar', url: icalUrl }] : getCalendarSources();
 
-      if (!icalUrl) {
+      if (sources.length === 0) {
         return {
           success: false,
-          events: '',
+          events: [],
           error: 'Calendar URL not configured',
         };
       }
 
-      // Always try to fetch real data first
-      console.log('[CalendarService] Fetching calendar from:', icalUrl);
-      
-      let events;
-      try {
-        events = await this.fetchCalendarData(icalUrl, useProxy, daysAhead, maxEvents);
-      } catch (error) {
-        console.error('[CalendarService] Failed to fetch real data, using mock:', error);
-        // Fallback to mock data if real fetch fails
-        if (this.isDevelopment()) {
-          return {
-            success: true,
-            events: this.getMockCalendarData(),
-          };
+      const start = from ? new Date(from) : new Date();
+      const end = to ? new Date(to) : new Date(start.getTime() + daysAhead * DAY_MS);
+
+      const results = await Promise.allSettled(sources.map(source => this.getCalendar(source.url)));
+      const failedCalendars: string[] = [];
+      const events: CalendarEventInstance[] = [];
+      const seen = new Set<string>();
+
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(`[CalendarService] Failed to fetch ${sources[index].name}:`, result.reason);
+          failedCalendars.push(sources[index].name);
+          return;
         }
-        throw error;
+        for (const event of expandEvents(result.value, start, end)) {
+          // The same event can be shared between calendars
+          const key = `${event.uid}|${event.start.getTime()}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          events.push({ ...event, calendar: sources.length > 1 ? sources[index].name : undefined });
+        }
+      });
+
+      if (failedCalendars.length === sources.length) {
+        return {
+          success: false,
+          events: [],
+          failedCalendars,
+          error: 'Failed to fetch calendar data',
+        };
       }
-      
+
       return {
         success: true,
-        events,
+        events: events.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, maxEvents),
+        ...(failedCalendars.length > 0 ? { failedCalendars } : {}),
       };
     } catch (error) {
       console.error('Calendar service error:', error);
       return {
         success: false,
-        events: '',
+        events: [],
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
-  private async fetchCalendarData(
-    icalUrl: string, 
-    useProxy: boolean,
-    daysAhead: number,
-    maxEvents: number
-  ): Promise<string> {
-    try {
-      // Use proxy API in production to avoid CORS issues
-      const url = useProxy ? '/api/calendar' : icalUrl;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch calendar: ${response.status}`);
-      }
-      
-      // Handle potential encoding issues
-      const arrayBuffer = await response.arrayBuffer();
-      const decoder = new TextDecoder('utf-8');
-      let icalContent = decoder.decode(arrayBuffer);
-      
-      const events = this.parseICalContent(icalContent);
-      
-      // Sort events by date and get upcoming events
-      const now = new Date();
-      const futureDate = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000);
-      
-      const upcomingEvents = events
-        .filter(event => {
-          if (!event.dtstart || isNaN(event.dtstart.getTime())) {
-            return false;
-          }
-          return event.dtstart >= now && event.dtstart <= futureDate;
-        })
-        .sort((a, b) => a.dtstart.getTime() - b.dtstart.getTime())
-        .slice(0, maxEvents);
-      
-      if (upcomingEvents.length === 0) {
-        return `## Upcoming Calendar Events:\nNo upcoming events in the next ${daysAhead} days.`;
-      }
-      
-      const formattedEvents = upcomingEvents.map(this.formatEventForAI).join('\n- ');
-      
-      return `## Upcoming Calendar Events:\n- ${formattedEvents}`;
-      
-    } catch (error) {
-      console.error('Error fetching calendar data:', error);
-      return "## Calendar Information:\nUnable to fetch calendar data at this time.";
+  private async getCalendar(url: string): Promise<ICalendar> {
+    const cached = this.cache.get(url);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.calendar;
     }
-  }
 
-  private parseICalDate(dateStr: string): Date {
-    // Handle both YYYYMMDDTHHMMSSZ and YYYYMMDD formats
-    if (dateStr.length === 8) {
-      // YYYYMMDD format (all-day event)
-      const year = parseInt(dateStr.substr(0, 4));
-      const month = parseInt(dateStr.substr(4, 2)) - 1; // Month is 0-indexed
-      const day = parseInt(dateStr.substr(6, 2));
-      return new Date(year, month, day);
-    } else if ((dateStr.length === 15 || dateStr.length === 16) && dateStr.endsWith('Z')) {
-      // YYYYMMDDTHHMMSSZ format
-      const year = parseInt(dateStr.substr(0, 4));
-      const month = parseInt(dateStr.substr(4, 2)) - 1;
-      const day = parseInt(dateStr.substr(6, 2));
-      const hour = parseInt(dateStr.substr(9, 2));
-      const minute = parseInt(dateStr.substr(11, 2));
-      const second = parseInt(dateStr.substr(13, 2));
-      return new Date(Date.UTC(year, month, day, hour, minute, second));
+    const response = await fetch(url, { headers: { Accept: 'text/calendar' } });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch calendar: ${response.status}`);
     }
-    // Fallback to default parsing
-    return new Date(dateStr);
-  }
 
-  private parseICalContent(icalContent: string): CalendarEvent[] {
-    const events: CalendarEvent[] = [];
-    const lines = icalContent.split('\n').map(line => line.trim());
-    
-    let currentEvent: Partial<CalendarEvent> = {};
-    let inEvent = false;
-    
-    for (const line of lines) {
-      if (line === 'BEGIN:VEVENT') {
-        inEvent = true;
-        currentEvent = {};
-      } else if (line === 'END:VEVENT' && inEvent) {
-        if (currentEvent.summary && currentEvent.dtstart) {
-          events.push(currentEvent as CalendarEvent);
-        }
-        inEvent = false;
-      } else if (inEvent) {
-        if (line.startsWith('SUMMARY:')) {
-          currentEvent.summary = line.substring(8);
-        } else if (line.startsWith('DTSTART:') || line.startsWith('DTSTART;')) {
-          const dateValue = line.split(':')[1];
-          currentEvent.dtstart = this.parseICalDate(dateValue);
-        } else if (line.startsWith('DTEND:') || line.startsWith('DTEND;')) {
-          const dateValue = line.split(':')[1];
-          currentEvent.dtend = this.parseICalDate(dateValue);
-        } else if (line.startsWith('DESCRIPTION:')) {
-          currentEvent.description = line.substring(12);
-        } else if (line.startsWith('LOCATION:')) {
-          currentEvent.location = line.substring(9);
-        }
-      }
-    }
-    
-    return events;
+    // Decode explicitly; some feeds send no charset
+    const calendar = parseICalendar(new TextDecoder('utf-8').decode(await response.arrayBuffer()));
+    this.cache.set(url, { fetchedAt: Date.now(), calendar });
+    return calendar;
   }
-
-  private formatEventForAI(event: CalendarEvent): string {
-    const startDate = event.dtstart.toLocaleDateString();
-    const startTime = event.dtstart.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    
-    let eventStr = `**${event.summary}**: ${startDate}`;
-    
-    // Only add time if it's not an all-day event
-    if (event.dtstart.getHours() !== 0 || event.dtstart.getMinutes() !== 0) {
-      eventStr += ` at ${startTime}`;
-    }
-    
-    if (event.location) {
-      eventStr += ` (Location: ${event.location})`;
-    }
-    
-    if (event.description) {
-      eventStr += ` - ${event.description}`;
-    }
-    
-    return eventStr;
-  }
-
-  private getMockCalendarData(): string {
-    return `## Upcoming Calendar Events (Development Mock Data):
-- **エンジニアカフェ技術勉強会**: 2025年6月15日 at 19:00 - LT大会とネットワーキング
-- **AIワークショップ**: 2025年6月18日 at 14:00 - 最新のAI技術を学ぶハンズオン
-- **福岡IT交流会**: 2025年6月20日 at 18:30 - 地域エンジニアとの交流
-- **オープンデータ活用セミナー**: 2025年6月22日 at 13:00 - 福岡市のオープンデータ活用方法
-- **スタートアップピッチイベント**: 2025年6月25日 at 17:00 - 福岡発スタートアップの発表会
-
-*Note: This is mock data for development. In production, real calendar events will be displayed.`;
-  }
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { EmotionManager, EmotionData } from '@/lib/emotion-manager';
-import { EmotionMapping } from '@/lib/emotion-mapping';
+import { resolveEmotion, VRM_EXPRESSIONS } from '@/lib/emotion-registry';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, SupportedLanguage } from '@/lib/languages';
 
 export class CharacterControlTool {
   name = 'character-control';
@@ -39,7 +40,7 @@ export class CharacterControlTool {
     transition: z.boolean().optional().default(true).describe('Whether to use smooth transitions'),
     emotion: z.string().optional().describe('Emotion name for expression mapping'),
     text: z.string().optional().describe('Text content for emotion detection'),
-    language: z.enum(['ja', 'en']).optional().default('ja').describe('Language for emotion detection'),
+    language: z.enum(SUPPORTED_LANGUAGES).optional().default(DEFAULT_LANGUAGE).describe('Language for emotion detection'),
     viseme: z.string().optional().describe('Viseme name for lip-sync (A, I, U, E, O, Closed)'),
     intensity: z.number().optional().describe('Intensity of viseme or expression (0-1)'),
     audioBlob: z.any().optional().describe('Audio blob for lip-sync analysis'),
@@ -104,8 +105,8 @@ export class CharacterControlTool {
     error?: string;
   }> {
     try {
-      // Validate expression name using centralized emotion mapping
-      const supportedEmotions = EmotionMapping.getSupportedEmotions();
+      // Validate expression name against the VRM presets in the emotion registry
+      const supportedEmotions: string[] = VRM_EXPRESSIONS;
       const additionalExpressions = ['thinking', 'speaking', 'listening', 'greeting', 'explaining'];
       const validExpressions = [...supportedEmotions, ...additionalExpressions];
 
@@ -408,10 +409,11 @@ export class CharacterControlTool {
         };
       }
 
-      // Create emotion data with default values
+      // Create emotion data with default values, under the canonical name
+      const definition = resolveEmotion(emotion)!;
       const emotionData: EmotionData = {
-        emotion,
-        intensity: 0.8,
+        emotion: definition.name,
+        intensity: definition.intensity.default,
         confidence: 0.9,
         duration: 2000,
       };
@@ -438,7 +440,7 @@ export class CharacterControlTool {
     }
   }
 
-  private async detectEmotion(text: string, language: 'ja' | 'en' = 'ja'): Promise<{
+  private async detectEmotion(text: string, language: SupportedLanguage = DEFAULT_LANGUAGE): Promise<{
     success: boolean;
     result?: any;
     error?: string;
@@ -468,20 +470,7 @@ export class CharacterControlTool {
   }
 
   private getAnimationForEmotion(emotion: string): string {
-    const emotionAnimationMap: Record<string, string> = {
-      'happy': 'greeting',
-      'sad': 'thinking',
-      'angry': 'explaining',
-      'curious': 'greeting',
-      'thinking': 'thinking',
-      'explaining': 'explaining',
-      'greeting': 'greeting',
-      'speaking': 'explaining',
-      'listening': 'idle',
-      'neutral': 'idle',
-    };
-
-    return emotionAnimationMap[emotion] || 'idle';
+    return resolveEmotion(emotion)?.animation || 'idle';
   }
 
   private async startLipSync(audioBlob?: any): Promise<{
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { DEFAULT_LANGUAGE, parseLanguage, promptLanguageOf, withAnswerInstruction } from '../../lib/languages';
 
 export interface FacilityURL {
   url: string;
@@ -69,7 +70,8 @@ export class EngineerCafeWebSearchTool {
       prompt = `${defaultContext}\n\n${prompt}`;
 
       // System instruction
-      const systemInstruction = language === 'ja' 
+      const responseLanguage = parseLanguage(language) || DEFAULT_LANGUAGE;
+      const systemInstruction = withAnswerInstruction(promptLanguageOf(responseLanguage) === 'ja' 
         ? `あなたは福岡市エンジニアカフェのAIアシスタントです。エンジニアカフェは福岡市が運営する公共施設です。
            提供された情報とGoogle検索を使って質問に答えてください。
            エンジニアカフェ公式サイト（https://engineercafe.jp）とX（https://x.com/EngineerCafeJP）の情報を優先的に参照してください。
@@ -77,7 +79,7 @@ export class EngineerCafeWebSearchTool {
         : `You are an AI assistant for Engineer Cafe Fukuoka. Engineer Cafe is a public facility operated by Fukuoka City.
            Answer questions using provided information and Google search when needed.
            Prioritize information from the official website (https://engineercafe.jp) and X/Twitter (https://x.com/EngineerCafeJP).
-           Keep responses brief - typically 1-2 sentences.`;
+           Keep responses brief - typically 1-2 sentences.`, responseLanguage);
 
       // Create the request with Google Search tool enabled
       const result = await this.model.generateContent({
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import WebSocket from 'ws';
+import { getRoomBookingService } from '@/lib/room-booking';
+import { getStaffEscalationService } from '@/lib/staff-escalation';
 
 export class ExternalApiTool {
   name = 'external-api';
@@ -128,7 +130,7 @@ export class ExternalApiTool {
         case 'getEventInfo':
           return await this.getEventInfo();
         case 'checkRoomAvailability':
-          return await this.checkRoomAvailability();
+          return await this.checkRoomAvailability(params.data);
         case 'logVisitorActivity':
           return await this.logVisitorActivity(params.data);
         case 'sendRemoteMessage':
@@ -221,32 +223,16 @@ export class ExternalApiTool {
     result?: any;
     error?: string;
   }> {
-    try {
-      const notification = {
-        type: 'staff_notification',
-        message,
-        urgency: urgency || 'medium',
-        timestamp: new Date().toISOString(),
-        source: 'ai_navigator',
-      };
-
-      // Send via WebSocket if available
-      if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
-        this.websocket.send(JSON.stringify(notification));
-      }
-
-      // Also send via Reception API if available
-      if (this.config.receptionApiUrl) {
-        await this.callReceptionApi('notifications', notification);
-      }
+    // Stored and delivered like any other escalation, so staff can acknowledge it;
+    // the reception WebSocket and API are one of its channels
+    const escalation = await getStaffEscalationService().escalate({ question: message, language: 'ja', urgency });
+    const notificationSent = escalation.deliveries.some(delivery => delivery.delivered);
 
-      return {
-        success: true,
-        result: { notificationSent: true },
-      };
-    } catch (error) {
-      throw error;
-    }
+    return {
+      success: notificationSent,
+      result: { notificationSent, escalationId: escalation.id, deliveries: escalation.deliveries },
+      error: notificationSent ? undefined : 'No notification channel delivered the message',
+    };
   }
 
   private async getEventInfo(): Promise<{
@@ -290,35 +276,38 @@ export class ExternalApiTool {
     }
   }
 
-  private async checkRoomAvailability(): Promise<{
+  private async checkRoomAvailability(data?: {
+    start?: string;
+    durationMinutes?: number;
+    partySize?: number;
+    roomId?: string;
+    floor?: '2F' | 'B1';
+  }): Promise<{
     success: boolean;
     result?: any;
     error?: string;
   }> {
-    try {
-      // Check meeting room availability
-      const result = await this.callReceptionApi('rooms/availability');
+    // Room rules, opening hours and the room booking calendars
+    const availability = await getRoomBookingService().checkAvailability({
+      start: data?.start ? new Date(data.start) : new Date(),
+      durationMinutes: data?.durationMinutes,
+      partySize: data?.partySize,
+      roomId: data?.roomId,
+      floor: data?.floor,
+    });
+    const availableRooms = availability.rooms.filter(status => status.available);
+    const occupiedRooms = availability.rooms.filter(status => !status.available);
 
-      if (!result.success) {
-        return result;
-      }
-
-      const rooms = result.result?.rooms || [];
-      const availableRooms = rooms.filter((room: any) => room.available);
-      const occupiedRooms = rooms.filter((room: any) => !room.available);
-
-      return {
-        success: true,
-        result: {
-          availableRooms,
-          occupiedRooms,
-          totalRooms: rooms.length,
-          availabilityRate: rooms.length > 0 ? (availableRooms.length / rooms.length * 100) : 0,
-        },
-      };
-    } catch (error) {
-      throw error;
-    }
+    return {
+      success: true,
+      result: {
+        ...availability,
+        availableRooms,
+        occupiedRooms,
+        totalRooms: availability.rooms.length,
+        availabilityRate: availability.rooms.length > 0 ? (availableRooms.length / availability.rooms.length * 100) : 0,
+      },
+    };
   }
 
   private async logVisitorActivity(data: any): Promise<{
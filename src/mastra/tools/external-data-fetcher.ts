@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { withRetry } from '../../lib/retry-utils';
+import { FacilityState, getFacilityScheduleService } from '../../lib/facility-schedule';
+import { localize } from '../../lib/localized-text';
+import { DEFAULT_LANGUAGE, promptLanguageOf, SUPPORTED_LANGUAGES, SupportedLanguage } from '../../lib/languages';
 
 // Cache configuration
 const CACHE_DURATION = {
@@ -35,8 +38,13 @@ interface EventData {
 
 interface FacilityStatus {
   isOpen: boolean;
-  openingTime: string;
-  closingTime: string;
+  state: FacilityState;
+  /** Today's first opening and last closing time; null when closed all day */
+  openingTime: string | null;
+  closingTime: string | null;
+  /** Why Engineer Cafe is closed or has special hours today */
+  closure: string | null;
+  nextOpening: string | null;
   currentOccupancy: number;
   maxOccupancy: number;
   availableResources: {
@@ -70,7 +78,7 @@ export class ExternalDataFetcherTool {
       'getLatestAnnouncements',
       'searchEvents'
     ]),
-    language: z.enum(['ja', 'en']).optional().default('ja'),
+    language: z.enum(SUPPORTED_LANGUAGES).optional().default(DEFAULT_LANGUAGE),
     searchQuery: z.string().optional().describe('Search query for events'),
     dateRange: z.object({
       start: z.string().optional().describe('Start date in ISO format'),
@@ -201,7 +209,7 @@ export class ExternalDataFetcherTool {
         title: event.title,
         titleEn: this.translateTitle(event.title, params.language),
         description: event.description || event.catch || '',
-        descriptionEn: params.language === 'en' ? this.translateDescription(event.description || event.catch || '') : undefined,
+        descriptionEn: promptLanguageOf(params.language) === 'en' ? this.translateDescription(event.description || event.catch || '') : undefined,
         startTime: new Date(event.started_at),
         endTime: new Date(event.ended_at),
         location: event.place || event.address || 'オンライン',
@@ -321,7 +329,7 @@ export class ExternalDataFetcherTool {
     }
   }
 
-  private async fetchWebsiteContent(language: 'ja' | 'en'): Promise<{
+  private async fetchWebsiteContent(language: SupportedLanguage): Promise<{
     success: boolean;
     data?: any;
     error?: string;
@@ -337,10 +345,10 @@ export class ExternalDataFetcherTool {
       // For now, return structured content about Engineer Cafe
       // In production, this would scrape the actual website
       const content = {
-        about: language === 'ja' 
+        about: promptLanguageOf(language) === 'ja' 
           ? 'エンジニアカフェは、エンジニアやクリエイターが集まり、交流し、新しいアイデアを生み出す場所です。'
           : 'Engineer Cafe is a place where engineers and creators gather, interact, and generate new ideas.',
-        facilities: language === 'ja' ? [
+        facilities: promptLanguageOf(language) === 'ja' ? [
           { name: 'コワーキングスペース', description: '快適な作業環境で集中して開発ができます。' },
           { name: '3Dプリンター', description: '最新の3Dプリンターでプロトタイプを作成できます。' },
           { name: 'レーザーカッター', description: '精密な加工が可能なレーザーカッターを利用できます。' },
@@ -354,12 +362,12 @@ export class ExternalDataFetcherTool {
         openingHours: {
           weekdays: '10:00 - 22:00',
           weekends: '10:00 - 20:00',
-          holidays: language === 'ja' ? '休館日あり' : 'Closed on some holidays',
+          holidays: promptLanguageOf(language) === 'ja' ? '休館日あり' : 'Closed on some holidays',
         },
         contact: {
           email: 'info@engineer-cafe.jp',
           phone: '096-xxx-xxxx',
-          address: language === 'ja' 
+          address: promptLanguageOf(language) === 'ja' 
             ? '熊本県熊本市中央区xxx'
             : 'Chuo-ku, Kumamoto City, Kumamoto Prefecture',
         },
@@ -378,7 +386,7 @@ export class ExternalDataFetcherTool {
     }
   }
 
-  private async getFacilityStatus(language: 'ja' | 'en'): Promise<{
+  private async getFacilityStatus(language: SupportedLanguage): Promise<{
     success: boolean;
     data?: FacilityStatus;
     error?: string;
@@ -391,19 +399,17 @@ export class ExternalDataFetcherTool {
     }
 
     try {
-      // Mock facility status - in production, this would connect to the actual facility management system
-      const now = new Date();
-      const hour = now.getHours();
-      const isWeekend = now.getDay() === 0 || now.getDay() === 6;
-      
-      const openingTime = '10:00';
-      const closingTime = isWeekend ? '20:00' : '22:00';
-      const isOpen = hour >= 10 && hour < (isWeekend ? 20 : 22);
+      // Opening hours come from the facility schedule; occupancy is still mocked
+      const schedule = await getFacilityScheduleService().getStatus('engineer-cafe');
+      const hours = schedule.today.hours;
 
       const status: FacilityStatus = {
-        isOpen,
-        openingTime,
-        closingTime,
+        isOpen: schedule.state !== 'closed',
+        state: schedule.state,
+        openingTime: hours.length > 0 ? hours[0].opens : null,
+        closingTime: hours.length > 0 ? hours[hours.length - 1].closes : null,
+        closure: schedule.today.reason ? localize(schedule.today.reason, language) : null,
+        nextOpening: schedule.opensAt,
         currentOccupancy: Math.floor(Math.random() * 50) + 20,
         maxOccupancy: 100,
         availableResources: {
@@ -415,7 +421,7 @@ export class ExternalDataFetcherTool {
         announcements: [
           {
             id: 'ann_1',
-            message: language === 'ja' 
+            message: promptLanguageOf(language) === 'ja' 
               ? '本日18時より、AI勉強会を開催します。' 
               : 'AI study group will be held at 6 PM today.',
             messageEn: 'AI study group will be held at 6 PM today.',
@@ -438,7 +444,7 @@ export class ExternalDataFetcherTool {
     }
   }
 
-  private async getLatestAnnouncements(language: 'ja' | 'en'): Promise<{
+  private async getLatestAnnouncements(language: SupportedLanguage): Promise<{
     success: boolean;
     data?: any[];
     error?: string;
@@ -547,8 +553,8 @@ export class ExternalDataFetcherTool {
     return 'meetup'; // Default
   }
 
-  private translateTitle(title: string, targetLang: 'ja' | 'en'): string | undefined {
-    if (targetLang === 'ja') return undefined;
+  private translateTitle(title: string, targetLang: SupportedLanguage): string | undefined {
+    if (promptLanguageOf(targetLang) === 'ja') return undefined;
     
     // Simple translation mapping for common terms
     const translations: Record<string, string> = {
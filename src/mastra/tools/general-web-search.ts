@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { DEFAULT_LANGUAGE, parseLanguage, promptLanguageOf, withAnswerInstruction } from '../../lib/languages';
 
 export interface Source {
   uri: string;
@@ -58,13 +59,14 @@ export class GeneralWebSearchTool {
       }
 
       // System instruction for general web search
-      const systemInstruction = language === 'ja' 
+      const responseLanguage = parseLanguage(language) || DEFAULT_LANGUAGE;
+      const systemInstruction = withAnswerInstruction(promptLanguageOf(responseLanguage) === 'ja' 
         ? `あなたは親切なAIアシスタントです。質問に対してGoogle検索を使って最新で正確な情報を提供してください。
            回答は簡潔で分かりやすく、1-2文程度でお願いします。
            情報源がある場合は信頼できるソースを優先してください。`
         : `You are a helpful AI assistant. Use Google search to provide current and accurate information for questions.
            Keep responses brief and clear - typically 1-2 sentences.
-           Prioritize reliable sources when available.`;
+           Prioritize reliable sources when available.`, responseLanguage);
 
       // Create the request with Google Search tool enabled
       const result = await this.model.generateContent({
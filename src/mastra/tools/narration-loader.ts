@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { z } from 'zod';
+import { getLanguageConfig, SUPPORTED_LANGUAGES } from '../../lib/languages';
 import { NarrationConfig, SupportedLanguage } from '../types/config';
 
 export class NarrationLoaderTool {
@@ -9,7 +10,7 @@ export class NarrationLoaderTool {
 
   schema = z.object({
     slideFile: z.string().describe('Slide file name (without extension)'),
-    language: z.enum(['ja', 'en']).describe('Language for narration'),
+    language: z.enum(SUPPORTED_LANGUAGES).describe('Language for narration'),
     action: z.enum(['load', 'save', 'validate']).default('load'),
     narrationData: z.any().optional().describe('Narration data for save action'),
   });
@@ -125,7 +126,7 @@ export class NarrationLoaderTool {
     }
   }
 
-  private async validateNarration(narrationData: any): Promise<{
+  async validateNarration(narrationData: any): Promise<{
     success: boolean;
     validationErrors?: string[];
   }> {
@@ -254,9 +255,9 @@ export class NarrationLoaderTool {
       
       for (const file of files) {
         if (file.endsWith('.json')) {
-          const match = file.match(/^(.+)-(ja|en)\.json$/);
-          if (match) {
-            const [, slideFile, language] = match;
+          const language = SUPPORTED_LANGUAGES.find(code => file.endsWith(`-${code}.json`));
+          if (language) {
+            const slideFile = file.slice(0, -`-${language}.json`.length);
             try {
               const narrationPath = path.resolve(narrationDir, file);
               const content = await fs.readFile(narrationPath, 'utf-8');
@@ -264,7 +265,7 @@ export class NarrationLoaderTool {
               
               narrations.push({
                 slideFile,
-                language: language as SupportedLanguage,
+                language,
                 metadata: data.metadata,
               });
             } catch (error) {
@@ -303,7 +304,7 @@ export class NarrationLoaderTool {
         metadata: {
           title: `${baseFileName} Narration`,
           language,
-          speaker: language === 'ja' ? 'ja-JP-Neural2-B' : 'en-US-Neural2-F',
+          speaker: getLanguageConfig(language).voice.name,
           version: '1.0',
         },
         slides: Array.from({ length: slideCount }, (_, index) => ({
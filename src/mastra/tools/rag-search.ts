@@ -1,5 +1,20 @@
 import { z } from 'zod';
+import { ragCache } from '../../lib/cache/rag-cache';
+import { EmbeddingProvider, getEmbeddingModelId, getEmbeddingProvider } from '../../lib/embeddings/embedding-provider';
+import {
+  DEFAULT_FUSION_WEIGHTS,
+  DEFAULT_RRF_K,
+  FusionWeights,
+  MIN_KEYWORD_COVERAGE,
+  SearchMode,
+  applyRelevanceThreshold,
+  reciprocalRankFusion,
+  scoreKeywordMatch,
+} from '../../lib/hybrid-search';
+import { mergeChunkContents } from '../../lib/knowledge-chunker';
+import { DEFAULT_LANGUAGE, languageFallbackChain, SUPPORTED_LANGUAGES } from '../../lib/languages';
 import { supabaseAdmin } from '../../lib/supabase';
+import { getTranslationService } from '../../lib/translation';
 import { SupportedLanguage } from '../types/config';
 
 // Types for the knowledge base search results
@@ -12,80 +27,90 @@ export interface KnowledgeSearchResult {
   category?: string;
   subcategory?: string;
   language: SupportedLanguage;
+  /** Keyword relevance from the full-text leg, when it matched */
+  keywordScore?: number;
+  /** Ranking score: fused RRF score in hybrid mode, otherwise the leg's own score */
+  score?: number;
+  retrievedBy?: Array<'vector' | 'keyword'>;
+  /** The chunk merged with its neighbouring chunks, when neighbours were requested */
+  context?: string;
+}
+
+interface ChunkRow {
+  id: string;
+  content: string;
+  metadata: Record<string, any> | null;
 }
 
 export class RAGSearchTool {
   name = 'rag-search';
-  description = 'Search the Engineer Cafe knowledge base using semantic similarity';
+  description = 'Search the Engineer Cafe knowledge base using semantic similarity and keyword matching';
   
-  private openaiApiKey: string;
+  private embeddingProvider: EmbeddingProvider;
   
   schema = z.object({
     query: z.string().describe('The search query to find relevant information'),
-    language: z.enum(['ja', 'en']).optional().describe('Language for the search (defaults to ja)'),
+    language: z.enum(SUPPORTED_LANGUAGES).optional().describe(`Language for the search (defaults to ${DEFAULT_LANGUAGE})`),
     category: z.string().optional().describe('Filter by specific category'),
     limit: z.number().min(1).max(10).optional().default(5).describe('Maximum number of results to return'),
-    threshold: z.number().min(0).max(1).optional().default(0.5).describe('Minimum similarity threshold'),
+    threshold: z.number().min(0).max(1).optional().default(0.5).describe('Minimum similarity (vector hits) or query-token coverage (keyword hits)'),
+    mode: z.enum(['vector', 'keyword', 'hybrid']).optional().default('hybrid')
+      .describe('Retrieval mode: embeddings only, full-text only, or both fused (default)'),
+    weights: z.object({
+      vector: z.number().min(0),
+      keyword: z.number().min(0),
+    }).optional().describe('Per-leg weights for reciprocal-rank fusion in hybrid mode'),
+    rrfK: z.number().min(1).optional().describe(`Reciprocal-rank fusion constant (defaults to ${DEFAULT_RRF_K})`),
+    includeNeighbors: z.number().min(0).max(3).optional().default(0)
+      .describe('Chunks before and after each chunked result to merge into its context'),
+    crossLingual: z.boolean().optional().default(true)
+      .describe('When nothing matches in the language, translate the query and search its fallback languages'),
   });
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-    
-    this.openaiApiKey = apiKey;
+  constructor(embeddingProvider: EmbeddingProvider = getEmbeddingProvider()) {
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  /**
+   * Identifier of the model queries are embedded with; only rows embedded by
+   * the same model are searched
+   */
+  get embeddingModelId(): string {
+    return getEmbeddingModelId(this.embeddingProvider);
   }
 
-  async execute(params: z.infer<typeof this.schema>): Promise<{
+  async execute(params: z.input<typeof this.schema>): Promise<{
     success: boolean;
     results: KnowledgeSearchResult[];
     message?: string;
   }> {
-    const { query, language = 'ja', category, limit = 5, threshold = 0.5 } = params;
+    const { query, language = DEFAULT_LANGUAGE, crossLingual = true } = params;
 
     try {
-      // Generate embedding for the query
-      const embedding = await this.generateEmbedding(query);
-      
-      // Search the knowledge base
-      const results = await this.performKnowledgeBaseSearch({
-        embedding,
-        language,
-        category,
-        limit,
-        threshold,
-      });
-
-      // Sort by metadata.importance (critical>high>medium>low>undefined) then similarity
-      const importanceRank = (imp?: string) => {
-        switch ((imp || '').toLowerCase()) {
-          case 'critical': return 4;
-          case 'high': return 3;
-          case 'medium': return 2;
-          case 'low': return 1;
-          default: return 0;
+      let results = await this.searchLanguage(query, language, params);
+      let searchedLanguage = language;
+
+      // No native entry: search the fallback languages with the query translated into each
+      const translation = getTranslationService();
+      if (results.length === 0 && crossLingual && translation.available) {
+        for (const fallback of languageFallbackChain(language).slice(1)) {
+          const translated = await translation.translate(query, fallback, language);
+          if (!translated) continue;
+
+          results = await this.searchLanguage(translated, fallback, params);
+          if (results.length > 0) {
+            console.log(`[RAGSearchTool] No ${language} results; found ${results.length} in ${fallback} for "${translated}"`);
+            searchedLanguage = fallback;
+            break;
+          }
         }
-      };
-
-      const sorted = results.sort((a,b)=>{
-        const diffImp = importanceRank(b.metadata?.importance) - importanceRank(a.metadata?.importance);
-        if (diffImp !== 0) return diffImp;
-
-        // Boost if content directly includes the query string
-        const queryLower = query.toLowerCase();
-        const aContains = a.content.toLowerCase().includes(queryLower) ? 1 : 0;
-        const bContains = b.content.toLowerCase().includes(queryLower) ? 1 : 0;
-        if (aContains !== bContains) return bContains - aContains; // prefer inclusion
-
-        return b.similarity - a.similarity;
-      });
+      }
 
       return {
         success: true,
-        results: sorted,
-        message: results.length > 0 
-          ? `Found ${results.length} relevant results` 
+        results,
+        message: results.length > 0
+          ? `Found ${results.length} relevant results${searchedLanguage !== language ? ` (${searchedLanguage})` : ''}`
           : 'No matching results found',
       };
     } catch (error) {
@@ -98,32 +123,197 @@ export class RAGSearchTool {
     }
   }
 
+  /**
+   * Retrieve, rank and attach context for entries in one language
+   */
+  private async searchLanguage(
+    query: string,
+    language: SupportedLanguage,
+    params: z.input<typeof this.schema>
+  ): Promise<KnowledgeSearchResult[]> {
+    const {
+      category,
+      limit = 5,
+      threshold = 0.5,
+      mode = 'hybrid',
+      weights = DEFAULT_FUSION_WEIGHTS,
+      rrfK = DEFAULT_RRF_K,
+      includeNeighbors = 0,
+    } = params;
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      mode !== 'keyword' ? this.searchVector(query, { language, category, limit, threshold }) : [],
+      mode !== 'vector' ? this.performKeywordSearch({ query, language, category, limit }) : [],
+    ]);
+
+    const results = applyRelevanceThreshold(
+      this.combineResults(mode, vectorResults, keywordResults, weights, rrfK),
+      query,
+      threshold
+    ).slice(0, limit);
+
+    // Sort by metadata.importance (critical>high>medium>low>undefined) then score
+    const importanceRank = (imp?: string) => {
+      switch ((imp || '').toLowerCase()) {
+        case 'critical': return 4;
+        case 'high': return 3;
+        case 'medium': return 2;
+        case 'low': return 1;
+        default: return 0;
+      }
+    };
+
+    const sorted = results.sort((a,b)=>{
+      const diffImp = importanceRank(b.metadata?.importance) - importanceRank(a.metadata?.importance);
+      if (diffImp !== 0) return diffImp;
+
+      // Vector-only search has no keyword leg, so keep the plain inclusion boost
+      if (mode === 'vector') {
+        const queryLower = query.toLowerCase();
+        const aContains = a.content.toLowerCase().includes(queryLower) ? 1 : 0;
+        const bContains = b.content.toLowerCase().includes(queryLower) ? 1 : 0;
+        if (aContains !== bContains) return bContains - aContains; // prefer inclusion
+      }
+
+      return (b.score ?? b.similarity) - (a.score ?? a.similarity);
+    });
+
+    if (includeNeighbors > 0) {
+      await this.attachNeighborContext(sorted, includeNeighbors);
+    }
+
+    return sorted;
+  }
+
+  private async searchVector(query: string, options: {
+    language: SupportedLanguage;
+    category?: string;
+    limit: number;
+    threshold: number;
+  }): Promise<KnowledgeSearchResult[]> {
+    const embedding = await this.generateEmbedding(query);
+    const results = await this.performKnowledgeBaseSearch({ embedding, ...options });
+    return results.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Merge the retrieval legs. Each leg is already ordered best-first.
+   */
+  private combineResults(
+    mode: SearchMode,
+    vectorResults: KnowledgeSearchResult[],
+    keywordResults: KnowledgeSearchResult[],
+    weights: FusionWeights,
+    rrfK: number
+  ): KnowledgeSearchResult[] {
+    if (mode === 'vector') {
+      return vectorResults.map(item => ({ ...item, score: item.similarity, retrievedBy: ['vector'] }));
+    }
+    if (mode === 'keyword') {
+      return keywordResults.map(item => ({ ...item, score: item.keywordScore, retrievedBy: ['keyword'] }));
+    }
+
+    const keywordById = new Map(keywordResults.map(item => [item.id, item]));
+    const vectorById = new Map(vectorResults.map(item => [item.id, item]));
+
+    return reciprocalRankFusion(
+      [
+        { name: 'vector', results: vectorResults },
+        { name: 'keyword', results: keywordResults },
+      ],
+      weights,
+      rrfK
+    ).map(({ item, score, retrievedBy }) => ({
+      ...item,
+      // Keep both leg scores visible for comparison
+      similarity: vectorById.get(item.id)?.similarity ?? 0,
+      keywordScore: keywordById.get(item.id)?.keywordScore,
+      score,
+      retrievedBy,
+    }));
+  }
+
+  /**
+   * Results that are chunks of a longer document (imported documents link by
+   * parent_id, website pages by url) get the surrounding chunks merged into
+   * `context`. A failed lookup leaves the chunk on its own.
+   */
+  private async attachNeighborContext(results: KnowledgeSearchResult[], radius: number): Promise<void> {
+    const groups = new Map<string, Promise<ChunkRow[]>>();
+
+    await Promise.all(results.map(async result => {
+      const metadata = result.metadata || {};
+      const index = Number(metadata.chunk_index);
+      if (!Number.isFinite(index) || !(metadata.chunk_count > 1)) return;
+
+      const key = metadata.parent_id ? `parent:${metadata.parent_id}` : metadata.url ? `url:${metadata.url}` : null;
+      if (!key) return;
+
+      if (!groups.has(key)) {
+        groups.set(key, this.fetchDocumentChunks(metadata));
+      }
+
+      try {
+        const neighbors = (await groups.get(key)!)
+          .filter(row => Math.abs(Number(row.metadata?.chunk_index) - index) <= radius)
+          .sort((a, b) => Number(a.metadata?.chunk_index) - Number(b.metadata?.chunk_index));
+
+        if (neighbors.length > 1) {
+          result.context = mergeChunkContents(neighbors.map(row => ({
+            content: row.content,
+            heading: row.metadata?.heading ?? null,
+          })));
+        }
+      } catch (error) {
+        console.error('Neighbor chunk lookup error:', error);
+      }
+    }));
+  }
+
+  private async fetchDocumentChunks(metadata: Record<string, any>): Promise<ChunkRow[]> {
+    let query = supabaseAdmin
+      .from('knowledge_base')
+      .select('id, content, metadata')
+      .is('deleted_at', null);
+
+    query = metadata.parent_id
+      ? query.eq('metadata->>parent_id', metadata.parent_id)
+      : query.eq('source', 'website').eq('metadata->>url', metadata.url);
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+    return data || [];
+  }
+
   private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          input: text,
-          model: 'text-embedding-3-small', // 1536 dimensions
-        }),
-      });
+    const modelId = this.embeddingModelId;
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+    try {
+      const cached = await ragCache.getCachedEmbedding(text, modelId);
+      if (cached) {
+        return cached;
       }
 
-      const data = await response.json();
-      return data.data[0].embedding;
+      const embedding = await this.embeddingProvider.embed(text);
+      await ragCache.cacheEmbedding(text, modelId, embedding);
+      return embedding;
     } catch (error) {
       console.error('Embedding generation error:', error);
       throw new Error('Failed to generate embedding for the query');
     }
   }
 
+  /**
+   * Rows embedded by another model (or before models were recorded) live in a
+   * different vector space; comparing against them yields meaningless scores
+   */
+  private isSearchableRow(item: { embedding_model?: string | null; embedding_dimensions?: number | null }): boolean {
+    return item.embedding_model === this.embeddingModelId &&
+      item.embedding_dimensions === this.embeddingProvider.dimensions;
+  }
+
   private async performKnowledgeBaseSearch(params: {
     embedding: number[];
     language: SupportedLanguage;
@@ -139,6 +329,7 @@ export class RAGSearchTool {
         query_embedding: embedding,
         similarity_threshold: threshold,
         match_count: limit * 3, // Get more results to filter by language/category
+        embedding_model_filter: this.embeddingModelId,
       });
 
       if (error) {
@@ -148,6 +339,9 @@ export class RAGSearchTool {
 
       // Filter results by language and category
       let filteredData = data || [];
+
+      // Never trust scores from another embedding space
+      filteredData = filteredData.filter((item: any) => this.isSearchableRow(item));
       
       // Filter by language
       filteredData = filteredData.filter((item: any) => item.language === language);
@@ -190,7 +384,10 @@ export class RAGSearchTool {
       let query = supabaseAdmin
         .from('knowledge_base')
         .select('*')
-        .eq('language', language);
+        .eq('language', language)
+        .eq('embedding_model', this.embeddingModelId)
+        .eq('embedding_dimensions', this.embeddingProvider.dimensions)
+        .is('deleted_at', null);
 
       if (category) {
         query = query.eq('category', category);
@@ -224,6 +421,10 @@ export class RAGSearchTool {
           continue;
         }
 
+        if (!this.isSearchableRow(item) || itemEmbedding.length !== embedding.length) {
+          continue;
+        }
+
         // Calculate cosine similarity
         const similarity = this.cosineSimilarity(embedding, itemEmbedding);
         
@@ -251,6 +452,92 @@ export class RAGSearchTool {
     }
   }
 
+  /**
+   * Full-text leg: bigram/word tsvector match, ranked with trigram similarity,
+   * which catches exact facility terms ("Saino", "B1", room names) that
+   * embeddings blur. Hits must cover MIN_KEYWORD_COVERAGE of the query tokens.
+   */
+  private async performKeywordSearch(params: {
+    query: string;
+    language: SupportedLanguage;
+    category?: string;
+    limit: number;
+  }): Promise<KnowledgeSearchResult[]> {
+    const { query, language, category, limit } = params;
+
+    try {
+      const { data, error } = await supabaseAdmin.rpc('search_knowledge_base_keyword', {
+        query_text: query,
+        match_count: limit * 3,
+        language_filter: language,
+        category_filter: category || null,
+        min_coverage: MIN_KEYWORD_COVERAGE,
+      });
+
+      if (error) {
+        // Fallback to scoring in the application if the RPC function doesn't exist
+        return await this.fallbackKeywordSearch(params);
+      }
+
+      return (data || []).map((item: any) => ({
+        id: item.id,
+        title: item.metadata?.title || item.subcategory || item.category || 'Untitled',
+        content: item.content,
+        metadata: item.metadata || {},
+        similarity: 0,
+        keywordScore: item.rank || 0,
+        category: item.category,
+        subcategory: item.subcategory,
+        language: item.language,
+      }));
+    } catch (error) {
+      console.error('Keyword search error:', error);
+      throw new Error('Failed to perform keyword search');
+    }
+  }
+
+  private async fallbackKeywordSearch(params: {
+    query: string;
+    language: SupportedLanguage;
+    category?: string;
+    limit: number;
+  }): Promise<KnowledgeSearchResult[]> {
+    const { query, language, category, limit } = params;
+
+    let dbQuery = supabaseAdmin
+      .from('knowledge_base')
+      .select('id, content, category, subcategory, language, metadata')
+      .eq('language', language)
+      .is('deleted_at', null);
+
+    if (category) {
+      dbQuery = dbQuery.eq('category', category);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || [])
+      .map((item: any) => ({
+        id: item.id,
+        title: item.metadata?.title || item.subcategory || item.category || 'Untitled',
+        content: item.content,
+        metadata: item.metadata || {},
+        similarity: 0,
+        keywordScore: scoreKeywordMatch(query, item.content),
+        category: item.category,
+        subcategory: item.subcategory,
+        language: item.language,
+      }))
+      // A chunked document is searched through its chunks
+      .filter(item => item.keywordScore >= MIN_KEYWORD_COVERAGE && !item.metadata.chunked)
+      .sort((a, b) => b.keywordScore - a.keywordScore)
+      .slice(0, limit * 3);
+  }
+
   private cosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
       throw new Error('Vectors must have the same length');
@@ -277,14 +564,15 @@ export class RAGSearchTool {
   }
 
   // Helper method to search and format results for agent use
-  async searchKnowledgeBase(query: string, language: SupportedLanguage = 'ja'): Promise<string> {
+  async searchKnowledgeBase(query: string, language: SupportedLanguage = DEFAULT_LANGUAGE): Promise<string> {
     console.log('[RAGSearchTool] searchKnowledgeBase called with:', { query, language });
     
     const result = await this.execute({
       query,
       language,
       limit: 5,
-      threshold: 0.3,  // Lower threshold for more results with OpenAI embeddings
+      threshold: 0.3,  // Lower threshold for more results
+      includeNeighbors: 1,
     });
 
     console.log('[RAGSearchTool] Search result:', {
@@ -307,7 +595,7 @@ export class RAGSearchTool {
         contentLength: item.content.length,
         category: item.category
       });
-      return `[${title}]\n${item.content}`;
+      return `[${title}]\n${item.context ?? item.content}`;
     });
 
     const finalContext = contextParts.join('\n\n');
@@ -315,23 +603,32 @@ export class RAGSearchTool {
     return finalContext;
   }
 
-  // Multi-language search: search both languages and combine results
-  async searchKnowledgeBaseMultiLang(query: string, primaryLanguage: SupportedLanguage = 'ja'): Promise<string> {
-    console.log('[RAGSearchTool] searchKnowledgeBaseMultiLang called with:', { query, primaryLanguage });
-    
+  // Multi-language search: search the language and its first fallback, and combine results
+  async searchKnowledgeBaseMultiLang(query: string, primaryLanguage: SupportedLanguage = DEFAULT_LANGUAGE, category?: string): Promise<string> {
+    console.log('[RAGSearchTool] searchKnowledgeBaseMultiLang called with:', { query, primaryLanguage, category });
+
+    const secondaryLanguage = languageFallbackChain(primaryLanguage)[1] || primaryLanguage;
+    const secondaryQuery = await getTranslationService().translate(query, secondaryLanguage, primaryLanguage) || query;
+
     // Search both languages in parallel
     const [primaryResult, secondaryResult] = await Promise.all([
       this.execute({
         query,
         language: primaryLanguage,
+        category,
         limit: 3,
         threshold: 0.3,
+        includeNeighbors: 1,
+        // The secondary search already covers the fallback
+        crossLingual: false,
       }),
       this.execute({
-        query,
-        language: primaryLanguage === 'ja' ? 'en' : 'ja',
+        query: secondaryQuery,
+        language: secondaryLanguage,
+        category,
         limit: 2,
         threshold: 0.3,
+        includeNeighbors: 1,
       })
     ]);
 
@@ -364,7 +661,7 @@ export class RAGSearchTool {
         contentLength: item.content.length,
         category: item.category
       });
-      return `[${title}]\n${item.content}`;
+      return `[${title}]\n${item.context ?? item.content}`;
     });
 
     const finalContext = contextParts.join('\n\n');
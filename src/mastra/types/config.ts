@@ -1,3 +1,5 @@
+import type { SupportedLanguage } from '../../lib/languages';
+
 export interface Config {
   googleCloud: {
     projectId: string;
@@ -29,7 +31,7 @@ export interface SlideConfig {
   title: string;
   slideCount: number;
   currentSlide: number;
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   autoPlay: boolean;
   transitions: boolean;
 }
@@ -58,7 +60,7 @@ export interface SlideNarration {
 }
 
 export interface VoiceSettings {
-  language: 'ja' | 'en';
+  language: SupportedLanguage;
   speaker: string;
   speed: number;
   pitch: number;
@@ -80,6 +82,7 @@ export interface ExternalIntegration {
   messageTypes: string[];
 }
 
-export type SupportedLanguage = 'ja' | 'en';
+// The language list is data; see src/lib/languages.json
+export type { SupportedLanguage };
 export type AgentType = 'welcome' | 'qa' | 'realtime' | 'narrator';
 export type ToolType = 'slideControl' | 'marpRenderer' | 'narrationLoader' | 'characterControl' | 'externalApi' | 'languageSwitch' | 'pageTransition';
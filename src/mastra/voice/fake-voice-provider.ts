@@ -0,0 +1,105 @@
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '../../lib/languages';
+import { SupportedLanguage } from '../types/config';
+import {
+  SpeechToTextResult,
+  StreamingRecognitionResult,
+  TextToSpeechResult,
+  VoiceInfo,
+  VoiceProvider,
+} from './voice-provider';
+
+const DEFAULT_TRANSCRIPTS: Partial<Record<SupportedLanguage, string>> = {
+  ja: 'エンジニアカフェについて教えてください',
+  en: 'Tell me about Engineer Cafe',
+  ko: '엔지니어 카페에 대해 알려주세요',
+  'zh-CN': '请介绍一下工程师咖啡馆',
+  'zh-TW': '請介紹一下工程師咖啡館',
+};
+
+/**
+ * Canned STT/TTS for tests and offline demos. Recognition always returns
+ * the configured transcript and synthesis returns a short silent WAV, so
+ * /api/voice can be exercised without network access.
+ */
+export class FakeVoiceProvider implements VoiceProvider {
+  readonly name = 'fake' as const;
+  /** Every call made, for assertions in tests */
+  readonly calls: Array<{ method: 'speechToText' | 'textToSpeech'; language: SupportedLanguage; text?: string; emotion?: string }> = [];
+  private transcripts: Partial<Record<SupportedLanguage, string>>;
+  private emotion?: string;
+
+  constructor(transcripts: Partial<Record<SupportedLanguage, string>> = {}) {
+    this.transcripts = {
+      ...DEFAULT_TRANSCRIPTS,
+      ...(process.env.FAKE_VOICE_TRANSCRIPT
+        ? Object.fromEntries(SUPPORTED_LANGUAGES.map(language => [language, process.env.FAKE_VOICE_TRANSCRIPT]))
+        : {}),
+      ...transcripts,
+    };
+  }
+
+  async speechToText(_audioBase64: string, language: SupportedLanguage = DEFAULT_LANGUAGE): Promise<SpeechToTextResult> {
+    this.calls.push({ method: 'speechToText', language });
+    return { success: true, transcript: this.transcriptFor(language), confidence: 0.99 };
+  }
+
+  async textToSpeech(text: string, language: SupportedLanguage = DEFAULT_LANGUAGE, emotion?: string): Promise<TextToSpeechResult> {
+    this.calls.push({ method: 'textToSpeech', language, text, emotion: emotion || this.emotion });
+    this.emotion = undefined;
+    return { success: true, audioBase64: createSilentWav(200).toString('base64'), mimeType: 'audio/wav' };
+  }
+
+  async *streamingSpeechToText(
+    audio: AsyncIterable<Uint8Array>,
+    language: SupportedLanguage = DEFAULT_LANGUAGE
+  ): AsyncIterable<StreamingRecognitionResult> {
+    // Drain the input, then report the canned transcript word by word
+    for await (const _chunk of audio) {
+      // Audio content is ignored
+    }
+    const transcript = this.transcriptFor(language);
+    const words = transcript.split(' ');
+    for (let i = 1; i < words.length; i++) {
+      yield { transcript: words.slice(0, i).join(' '), isFinal: false };
+    }
+    yield { transcript, isFinal: true, confidence: 0.99 };
+  }
+
+  private transcriptFor(language: SupportedLanguage): string {
+    return this.transcripts[language] ?? this.transcripts[DEFAULT_LANGUAGE] ?? '';
+  }
+
+  getVoices(language?: SupportedLanguage): VoiceInfo[] {
+    const voices: VoiceInfo[] = SUPPORTED_LANGUAGES.map(code => ({ id: `fake-${code}`, language: code, provider: 'fake' }));
+    return language ? voices.filter(voice => voice.language === language) : voices;
+  }
+
+  setSpeakerByEmotion(emotion: string): void {
+    this.emotion = emotion;
+  }
+}
+
+/**
+ * 16 kHz mono 16-bit PCM WAV containing silence
+ */
+export function createSilentWav(durationMs: number): Buffer {
+  const sampleRate = 16000;
+  const dataSize = Math.round((sampleRate * durationMs) / 1000) * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);            // fmt chunk size
+  wav.writeUInt16LE(1, 20);             // PCM
+  wav.writeUInt16LE(1, 22);             // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  wav.writeUInt16LE(2, 32);             // block align
+  wav.writeUInt16LE(16, 34);            // bits per sample
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+
+  return wav;
+}
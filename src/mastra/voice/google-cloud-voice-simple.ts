@@ -3,48 +3,78 @@
  * Handles speech-to-text and text-to-speech operations
  */
 
+import { SpeechClient } from '@google-cloud/speech';
 import { GoogleAuth } from 'google-auth-library';
 import * as fs from 'fs';
+import { getAudioDuration } from '../../lib/audio/audio-duration';
+import {
+  DEFAULT_LANGUAGE,
+  getLanguageConfig,
+  getLanguageConfigs,
+  parseLanguage,
+} from '../../lib/languages';
+import { buildVisemeTimelineFromMarks, splitIntoMarkSegments, VisemeTimeline } from '../../lib/viseme-timeline';
+import { SupportedLanguage } from '../types/config';
+import {
+  SpeechToTextResult,
+  StreamingRecognitionResult,
+  TextToSpeechResult,
+  VoiceInfo,
+  VoiceProvider,
+  getEmotionVoiceParams,
+} from './voice-provider';
 
 interface VoiceSettings {
-  language: string;
+  language: SupportedLanguage;
   speaker: string;
   speed: number;
   pitch: number;
   volumeGainDb: number;
 }
 
-interface SpeechToTextResult {
-  success: boolean;
-  transcript?: string;
-  confidence?: number;
-  error?: string;
+interface TtsTimepoint {
+  markName: string;
+  timeSeconds: number;
 }
 
-interface TextToSpeechResult {
-  success: boolean;
-  audioBase64?: string;
-  error?: string;
+function escapeSsml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
 }
 
-// 感情ごとの音声パラメータ調整マップ（クラス外に定義）
-const EMOTION_VOICE_PARAMS: Record<string, { speed: number; pitch: number; volumeGainDb: number; speaker: string; adjust?: (settings: VoiceSettings) => void }> = {
-  // 日本語
-  'ja:excited':   { speed: 1.3 * 1.1, pitch: 2.5 + 0.3, volumeGainDb: 2.0, speaker: 'ja-JP-Wavenet-B' },
-  'ja:sad':       { speed: 1.3 * 0.9, pitch: 2.5 - 0.5, volumeGainDb: 2.0, speaker: 'ja-JP-Wavenet-B' },
-  'ja:angry':     { speed: 1.3 * 1.05, pitch: 2.5 + 0.2, volumeGainDb: 2.0, speaker: 'ja-JP-Wavenet-B' },
-  'ja:calm':      { speed: 1.3 * 0.95, pitch: 2.5 - 0.2, volumeGainDb: 2.0, speaker: 'ja-JP-Wavenet-B' },
-  'ja:happy':     { speed: 1.3, pitch: 2.5, volumeGainDb: 2.0, speaker: 'ja-JP-Wavenet-B' },
-  // 英語
-  'en:excited':   { speed: 1.05 * 1.1, pitch: 0.3 + 0.3, volumeGainDb: 2.5, speaker: 'en-GB-Standard-F' },
-  'en:sad':       { speed: 1.05 * 0.9, pitch: 0.3 - 0.5, volumeGainDb: 2.5, speaker: 'en-GB-Standard-F' },
-  'en:angry':     { speed: 1.05 * 1.05, pitch: 0.3 + 0.2, volumeGainDb: 2.5, speaker: 'en-GB-Standard-F' },
-  'en:calm':      { speed: 1.05 * 0.95, pitch: 0.3 - 0.2, volumeGainDb: 2.5, speaker: 'en-GB-Standard-F' },
-  'en:happy':     { speed: 1.05, pitch: 0.3, volumeGainDb: 2.5, speaker: 'en-GB-Standard-F' },
-};
+/** A <mark> before every segment; the engine reports when each one is reached */
+function toMarkedSsml(segments: string[]): string {
+  return `<speak>${segments.map((segment, index) => `<mark name="v${index}"/>${escapeSsml(segment)}`).join('')}</speak>`;
+}
+
+const VOICES: VoiceInfo[] = getLanguageConfigs().map(config => ({
+  id: config.voice.name,
+  language: config.code,
+  provider: 'google',
+  gender: config.voice.gender,
+}));
+
+/** The language's voice from the registry, as the settings synthesis starts from */
+function baseVoiceSettings(language: SupportedLanguage): VoiceSettings {
+  const { voice } = getLanguageConfig(language);
+  return {
+    language,
+    speaker: voice.name,
+    speed: voice.speakingRate,
+    pitch: voice.pitch,
+    volumeGainDb: voice.volumeGainDb,
+  };
+}
 
-export class GoogleCloudVoiceSimple {
+export class GoogleCloudVoiceSimple implements VoiceProvider {
+  readonly name = 'google' as const;
   private auth: GoogleAuth;
+  private authOptions: any;
+  private speechClient: SpeechClient | null = null;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
   private currentSettings: VoiceSettings;
@@ -89,16 +119,11 @@ export class GoogleCloudVoiceSimple {
       }
     }
     
+    this.authOptions = authOptions;
     this.auth = new GoogleAuth(authOptions);
     
     // Default settings
-    this.currentSettings = {
-      language: 'ja',
-      speaker: 'ja-JP-Wavenet-B',
-      speed: 1.3,
-      pitch: 2.5,
-      volumeGainDb: 2.0
-    };
+    this.currentSettings = baseVoiceSettings(DEFAULT_LANGUAGE);
   }
 
   async getAccessToken(): Promise<string> {
@@ -130,7 +155,7 @@ export class GoogleCloudVoiceSimple {
     }
   }
 
-  async speechToText(audioBase64: string, language: string = 'ja'): Promise<SpeechToTextResult> {
+  async speechToText(audioBase64: string, language: string = DEFAULT_LANGUAGE): Promise<SpeechToTextResult> {
     try {
       const accessToken = await this.getAccessToken();
       const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
@@ -139,7 +164,7 @@ export class GoogleCloudVoiceSimple {
         throw new Error('GOOGLE_CLOUD_PROJECT_ID is not configured');
       }
 
-      const languageCode = language === 'ja' ? 'ja-JP' : 'en-US';
+      const languageCode = getLanguageConfig(parseLanguage(language) || DEFAULT_LANGUAGE).speech.recognition;
       
       const response = await fetch(
         `https://speech.googleapis.com/v1/speech:recognize`,
@@ -218,7 +243,74 @@ export class GoogleCloudVoiceSimple {
     }
   }
 
-  async textToSpeech(text: string, language: string = 'ja', emotion?: string): Promise<TextToSpeechResult> {
+  /**
+   * Streaming recognition over gRPC (the REST API has no streaming endpoint).
+   * Audio is the browser's WebM/Opus recording in timeslice chunks. Runs in
+   * single-utterance mode, so Google closes the stream once the visitor stops
+   * speaking and reports it as endOfUtterance.
+   */
+  async *streamingSpeechToText(
+    audio: AsyncIterable<Uint8Array>,
+    language: SupportedLanguage = DEFAULT_LANGUAGE
+  ): AsyncIterable<StreamingRecognitionResult> {
+    if (!this.speechClient) {
+      this.speechClient = new SpeechClient({
+        keyFilename: this.authOptions.keyFile,
+        credentials: this.authOptions.credentials,
+        projectId: this.authOptions.projectId,
+      });
+    }
+
+    const recognizeStream = this.speechClient.streamingRecognize({
+      config: {
+        encoding: 'WEBM_OPUS',
+        sampleRateHertz: 48000,
+        languageCode: getLanguageConfig(language).speech.recognition,
+        model: 'latest_short',
+        enableAutomaticPunctuation: true,
+        audioChannelCount: 1,
+      },
+      interimResults: true,
+      singleUtterance: true,
+    });
+
+    // Feed audio in the background while results are read below
+    let utteranceEnded = false;
+    const pump = (async () => {
+      for await (const chunk of audio) {
+        if (utteranceEnded || recognizeStream.destroyed) break;
+        recognizeStream.write(Buffer.from(chunk));
+      }
+      if (!recognizeStream.destroyed) recognizeStream.end();
+    })().catch(error => recognizeStream.destroy(error));
+
+    try {
+      for await (const response of recognizeStream) {
+        if (response.speechEventType === 'END_OF_SINGLE_UTTERANCE') {
+          utteranceEnded = true;
+          yield { transcript: '', isFinal: false, endOfUtterance: true };
+          continue;
+        }
+
+        const result = response.results?.[0];
+        const alternative = result?.alternatives?.[0];
+        if (!alternative?.transcript) continue;
+
+        yield {
+          transcript: alternative.transcript.trim(),
+          isFinal: !!result.isFinal,
+          confidence: result.isFinal ? alternative.confidence || 0 : undefined,
+        };
+      }
+    } finally {
+      // The pump stops at its next chunk; the caller ends the audio input
+      utteranceEnded = true;
+      recognizeStream.destroy();
+      void pump;
+    }
+  }
+
+  async textToSpeech(text: string, language: string = DEFAULT_LANGUAGE, emotion?: string): Promise<TextToSpeechResult> {
     try {
       const accessToken = await this.getAccessToken();
       
@@ -227,11 +319,13 @@ export class GoogleCloudVoiceSimple {
       
       // Apply emotion if provided
       if (emotion) {
-        this.setSpeakerByEmotion(emotion as any);
+        this.setSpeakerByEmotion(emotion);
       }
       
+      // Timepoints for SSML marks are only available on v1beta1
+      const segments = splitIntoMarkSegments(text);
       const response = await fetch(
-        'https://texttospeech.googleapis.com/v1/text:synthesize',
+        'https://texttospeech.googleapis.com/v1beta1/text:synthesize',
         {
           method: 'POST',
           headers: {
@@ -239,9 +333,10 @@ export class GoogleCloudVoiceSimple {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            input: { text },
+            input: { ssml: toMarkedSsml(segments) },
+            enableTimePointing: ['SSML_MARK'],
             voice: {
-              languageCode: this.currentSettings.language === 'ja' ? 'ja-JP' : 'en-GB',
+              languageCode: getLanguageConfig(this.currentSettings.language).voice.languageCode,
               name: this.currentSettings.speaker
             },
             audioConfig: {
@@ -277,7 +372,8 @@ export class GoogleCloudVoiceSimple {
         console.log(`Text-to-Speech successful for: "${text.substring(0, 50)}..."`);
         return {
           success: true,
-          audioBase64: result.audioContent
+          audioBase64: result.audioContent,
+          visemes: this.visemesFromTimepoints(segments, result.timepoints, result.audioContent)
         };
       } else {
         console.error('[GoogleCloudVoice] No audio content in TTS response');
@@ -295,6 +391,18 @@ export class GoogleCloudVoiceSimple {
     }
   }
 
+  private visemesFromTimepoints(
+    segments: string[],
+    timepoints: TtsTimepoint[] | undefined,
+    audioContent: string
+  ): VisemeTimeline | undefined {
+    const duration = getAudioDuration(Buffer.from(audioContent, 'base64'));
+    if (!duration || !timepoints || timepoints.length === 0) return undefined;
+
+    const times = new Map(timepoints.map(point => [point.markName, point.timeSeconds] as [string, number]));
+    return buildVisemeTimelineFromMarks(segments, segments.map((_, index) => times.get(`v${index}`)), duration);
+  }
+
   /**
    * Public method to set language (called by RealtimeAgent)
    */
@@ -303,36 +411,20 @@ export class GoogleCloudVoiceSimple {
   }
 
   private setLanguageSettings(language: string): void {
-    this.currentSettings.language = language;
-    
-    if (language === 'ja') {
-      this.currentSettings.speaker = 'ja-JP-Wavenet-B';
-      this.currentSettings.speed = 1.3;
-      this.currentSettings.pitch = 2.5;
-      this.currentSettings.volumeGainDb = 2.0;
-    } else {
-      this.currentSettings.speaker = 'en-GB-Standard-F';
-      this.currentSettings.speed = 1.05;
-      this.currentSettings.pitch = 0.3;
-      this.currentSettings.volumeGainDb = 2.5;
-    }
+    this.currentSettings = baseVoiceSettings(parseLanguage(language) || DEFAULT_LANGUAGE);
   }
 
-  setSpeakerByEmotion(emotion: 'happy' | 'sad' | 'excited' | 'calm' | 'angry') {
-    // 言語ごとに感情パラメータを外部マップから参照
-    const lang = this.currentSettings.language === 'ja' ? 'ja' : 'en';
-    const key = `${lang}:${emotion}`;
-    const params = EMOTION_VOICE_PARAMS[key] || EMOTION_VOICE_PARAMS[`${lang}:happy`];
-    this.currentSettings.speaker = params.speaker;
-    this.currentSettings.speed = params.speed;
-    this.currentSettings.pitch = params.pitch;
-    this.currentSettings.volumeGainDb = params.volumeGainDb;
+  setSpeakerByEmotion(emotion: string) {
+    // Emotion prosody is relative to the language's base voice settings
+    this.setLanguageSettings(this.currentSettings.language);
+    const params = getEmotionVoiceParams(emotion, this.currentSettings.language);
+    this.currentSettings.speed *= params.rate;
+    this.currentSettings.pitch += params.pitch;
     
     console.log(`[Voice] Using base voice settings for emotion "${emotion}" (${this.currentSettings.language})`);
   }
 
-  // Stub for streaming - not implemented in simple version
-  async *streamingSpeechToText(audioStream: ReadableStream<Uint8Array>): AsyncIterable<string> {
-    throw new Error('Streaming not supported in simple implementation');
+  getVoices(language?: SupportedLanguage): VoiceInfo[] {
+    return language ? VOICES.filter(voice => voice.language === language) : VOICES;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  DEFAULT_LANGUAGE,
+  getLanguageConfig,
+  languageEnvSuffix,
+  SUPPORTED_LANGUAGES,
+} from '../../lib/languages';
+import { SupportedLanguage } from '../types/config';
+import {
+  SpeechToTextResult,
+  TextToSpeechResult,
+  VoiceInfo,
+  VoiceProvider,
+  getEmotionVoiceParams,
+} from './voice-provider';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Command templates, split on whitespace and run without a shell.
+ * Placeholders: {input} {output} {model} {language} {speed} {wpm}
+ */
+export interface LocalVoiceConfig {
+  /** Converts the browser recording to 16 kHz mono WAV for the recogniser */
+  convertCommand: string;
+  sttCommand: string;
+  sttModel: string;
+  ttsCommands: Record<SupportedLanguage, string>;
+  timeoutMs: number;
+}
+
+export const DEFAULT_LOCAL_VOICE_CONFIG: LocalVoiceConfig = {
+  convertCommand: 'ffmpeg -loglevel error -y -i {input} -ar 16000 -ac 1 {output}',
+  // whisper.cpp prints the transcript to stdout
+  sttCommand: 'whisper-cli -m {model} -l {language} -nt -np -f {input}',
+  sttModel: 'models/ggml-base.bin',
+  // Per-language commands live in the language registry (voice.localCommand)
+  ttsCommands: Object.fromEntries(
+    SUPPORTED_LANGUAGES.map(language => [language, getLanguageConfig(language).voice.localCommand])
+  ) as Record<SupportedLanguage, string>,
+  timeoutMs: 30000,
+};
+
+/**
+ * Read overrides from LOCAL_STT_COMMAND, LOCAL_STT_MODEL, LOCAL_AUDIO_CONVERT_COMMAND
+ * and LOCAL_TTS_COMMAND_<LANGUAGE>, e.g. LOCAL_TTS_COMMAND_JA or LOCAL_TTS_COMMAND_ZH_TW
+ */
+export function getLocalVoiceConfig(env: NodeJS.ProcessEnv = process.env): LocalVoiceConfig {
+  const defaults = DEFAULT_LOCAL_VOICE_CONFIG;
+  return {
+    convertCommand: env.LOCAL_AUDIO_CONVERT_COMMAND || defaults.convertCommand,
+    sttCommand: env.LOCAL_STT_COMMAND || defaults.sttCommand,
+    sttModel: env.LOCAL_STT_MODEL || defaults.sttModel,
+    ttsCommands: Object.fromEntries(
+      SUPPORTED_LANGUAGES.map(language => [
+        language,
+        env[`LOCAL_TTS_COMMAND_${languageEnvSuffix(language)}`] || defaults.ttsCommands[language],
+      ])
+    ) as Record<SupportedLanguage, string>,
+    timeoutMs: defaults.timeoutMs,
+  };
+}
+
+/**
+ * On-device STT/TTS (whisper.cpp, Open JTalk, eSpeak NG by default) so the
+ * kiosk keeps working without network access. Audio is exchanged through
+ * temporary files; synthesised audio is WAV.
+ */
+export class LocalVoiceProvider implements VoiceProvider {
+  readonly name = 'local' as const;
+  private emotion?: string;
+
+  constructor(private readonly config: LocalVoiceConfig = getLocalVoiceConfig()) {}
+
+  async speechToText(audioBase64: string, language: SupportedLanguage = DEFAULT_LANGUAGE): Promise<SpeechToTextResult> {
+    return this.withTempDir(async dir => {
+      const recording = path.join(dir, 'input.webm');
+      const wav = path.join(dir, 'input.wav');
+      await fs.writeFile(recording, Buffer.from(audioBase64, 'base64'));
+
+      await this.run(this.config.convertCommand, { input: recording, output: wav });
+      const { stdout } = await this.run(this.config.sttCommand, {
+        input: wav,
+        model: this.config.sttModel,
+        language: getLanguageConfig(language).speech.whisper,
+      });
+
+      const transcript = stdout.replace(/\s+/g, ' ').trim();
+      if (!transcript) {
+        return { success: false, error: 'No transcription results' };
+      }
+      // whisper.cpp does not report a confidence; treat a transcript as reliable
+      return { success: true, transcript, confidence: 0.9 };
+    });
+  }
+
+  async textToSpeech(text: string, language: SupportedLanguage = DEFAULT_LANGUAGE, emotion?: string): Promise<TextToSpeechResult> {
+    const params = getEmotionVoiceParams(emotion || this.emotion, language);
+    this.emotion = undefined;
+
+    return this.withTempDir(async dir => {
+      const input = path.join(dir, 'input.txt');
+      const output = path.join(dir, 'output.wav');
+      await fs.writeFile(input, text, 'utf8');
+
+      await this.run(this.config.ttsCommands[language] || this.config.ttsCommands[DEFAULT_LANGUAGE], {
+        input,
+        output,
+        speed: params.rate.toFixed(2),
+        wpm: String(Math.round(175 * params.rate)),
+      });
+
+      const audio = await fs.readFile(output);
+      return { success: true, audioBase64: audio.toString('base64'), mimeType: 'audio/wav' };
+    });
+  }
+
+  getVoices(language?: SupportedLanguage): VoiceInfo[] {
+    // The voice is named after the synthesiser in the language's command
+    const voices: VoiceInfo[] = SUPPORTED_LANGUAGES.map(code => ({
+      id: `${this.config.ttsCommands[code].split(/\s+/)[0]}:${code}`,
+      language: code,
+      provider: 'local',
+    }));
+    return language ? voices.filter(voice => voice.language === language) : voices;
+  }
+
+  setSpeakerByEmotion(emotion: string): void {
+    this.emotion = emotion;
+  }
+
+  private async run(template: string, values: Record<string, string>) {
+    const [command, ...args] = template
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(part => part.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match));
+
+    return execFileAsync(command, args, { timeout: this.config.timeoutMs, maxBuffer: 10 * 1024 * 1024 });
+  }
+
+  private async withTempDir<T extends { success: boolean; error?: string }>(
+    work: (dir: string) => Promise<T>
+  ): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'engineer-cafe-voice-'));
+    try {
+      return await work(dir);
+    } catch (error) {
+      console.error('[LocalVoice] Command failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' } as T;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Streaming recognition sessions for /api/voice/stream.
+ *
+ * Route handlers cannot upgrade to WebSocket, so one request opens a session
+ * and streams recognition events back while the browser posts audio frames
+ * to it by id. Sessions live in this process's memory, which requires a
+ * single long-running server (the kiosk deployment); clients fall back to
+ * whole-utterance recognition when a session cannot be opened.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { RecognitionStreamEvent } from '@/lib/voice-stream';
+import { SupportedLanguage } from '../types/config';
+import { VoiceProvider } from './voice-provider';
+
+/** Sessions without audio for this long are closed */
+const IDLE_TIMEOUT_MS = 15000;
+
+/**
+ * Push-based audio source for streamingSpeechToText; frames posted by the
+ * browser are buffered until the recogniser pulls them
+ */
+export class AudioInputQueue implements AsyncIterable<Uint8Array> {
+  private chunks: Uint8Array[] = [];
+  private ended = false;
+  private waiting: (() => void) | null = null;
+
+  push(chunk: Uint8Array): void {
+    if (this.ended) return;
+    this.chunks.push(chunk);
+    this.wake();
+  }
+
+  end(): void {
+    this.ended = true;
+    this.wake();
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    while (true) {
+      const chunk = this.chunks.shift();
+      if (chunk) {
+        yield chunk;
+      } else if (this.ended) {
+        return;
+      } else {
+        await new Promise<void>(resolve => {
+          this.waiting = resolve;
+        });
+      }
+    }
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+}
+
+interface RecognitionSession {
+  audio: AudioInputQueue;
+  idleTimer: ReturnType<typeof setTimeout>;
+}
+
+export class RecognitionSessionRegistry {
+  private sessions = new Map<string, RecognitionSession>();
+
+  constructor(private readonly idleTimeoutMs: number = IDLE_TIMEOUT_MS) {}
+
+  /**
+   * Open a session and return its events: ready (with the id to post audio
+   * to), partials, the final transcript, and endpoint when the recogniser
+   * detected the end of speech. The session closes when the events end or
+   * the consumer stops reading.
+   */
+  async *open(voiceService: VoiceProvider, language: SupportedLanguage): AsyncGenerator<RecognitionStreamEvent> {
+    if (!voiceService.streamingSpeechToText) {
+      throw new Error('Streaming recognition is not available');
+    }
+
+    const streamId = uuidv4();
+    const audio = new AudioInputQueue();
+    this.sessions.set(streamId, { audio, idleTimer: this.startIdleTimer(streamId) });
+
+    try {
+      yield { type: 'ready', streamId };
+
+      let lastPartial = '';
+      for await (const result of voiceService.streamingSpeechToText(audio, language)) {
+        if (result.endOfUtterance) {
+          // Further audio is not recognised; the client stops recording
+          audio.end();
+          yield { type: 'endpoint' };
+        } else if (result.isFinal) {
+          yield { type: 'final', transcript: result.transcript, confidence: result.confidence };
+        } else if (result.transcript !== lastPartial) {
+          lastPartial = result.transcript;
+          yield { type: 'partial', transcript: result.transcript };
+        }
+      }
+    } finally {
+      this.close(streamId);
+    }
+  }
+
+  /** Returns false when the session is unknown or already ended */
+  pushAudio(streamId: string, chunk: Uint8Array): boolean {
+    const session = this.sessions.get(streamId);
+    if (!session || session.audio.isEnded()) {
+      return false;
+    }
+    session.audio.push(chunk);
+    clearTimeout(session.idleTimer);
+    session.idleTimer = this.startIdleTimer(streamId);
+    return true;
+  }
+
+  /** The client stopped recording; the recogniser finalises what it has */
+  end(streamId: string): boolean {
+    const session = this.sessions.get(streamId);
+    if (!session) {
+      return false;
+    }
+    session.audio.end();
+    return true;
+  }
+
+  size(): number {
+    return this.sessions.size;
+  }
+
+  private close(streamId: string): void {
+    const session = this.sessions.get(streamId);
+    if (session) {
+      clearTimeout(session.idleTimer);
+      session.audio.end();
+      this.sessions.delete(streamId);
+    }
+  }
+
+  private startIdleTimer(streamId: string) {
+    return setTimeout(() => {
+      console.warn(`[Voice] Recognition session ${streamId} idle, ending audio`);
+      this.sessions.get(streamId)?.audio.end();
+    }, this.idleTimeoutMs);
+  }
+}
+
+export const recognitionSessions = new RecognitionSessionRegistry();
@@ -0,0 +1,136 @@
+import { getAudioDuration } from '../../lib/audio/audio-duration';
+import { DEFAULT_LANGUAGE, parseLanguage, SUPPORTED_LANGUAGES } from '../../lib/languages';
+import { buildVisemeTimeline } from '../../lib/viseme-timeline';
+import { SupportedLanguage } from '../types/config';
+import type {
+  SpeechToTextResult,
+  StreamingRecognitionResult,
+  TextToSpeechResult,
+  VoiceInfo,
+  VoiceProvider,
+  VoiceProviderConfig,
+  VoiceProviderName,
+} from './voice-provider';
+
+/**
+ * Dispatches each call to the provider configured for its language, retrying
+ * failed calls on the fallback provider
+ */
+export class RoutedVoiceProvider implements VoiceProvider {
+  private providers = new Map<VoiceProviderName, VoiceProvider>();
+  private language: SupportedLanguage = DEFAULT_LANGUAGE;
+  private pendingEmotion?: string;
+
+  constructor(
+    private readonly config: VoiceProviderConfig,
+    private readonly factory: (name: VoiceProviderName) => VoiceProvider
+  ) {}
+
+  /** Name of the primary provider for the current language */
+  get name(): VoiceProviderName {
+    return this.getProviderName(this.language);
+  }
+
+  getProviderName(language: SupportedLanguage): VoiceProviderName {
+    return this.config.languages[language] || this.config.provider;
+  }
+
+  async speechToText(audioBase64: string, language: SupportedLanguage = this.language): Promise<SpeechToTextResult> {
+    return this.withFallback(language, 'STT', provider => provider.speechToText(audioBase64, language));
+  }
+
+  async textToSpeech(text: string, language: SupportedLanguage = this.language, emotion?: string): Promise<TextToSpeechResult> {
+    const effectiveEmotion = emotion || this.pendingEmotion;
+    this.pendingEmotion = undefined;
+    const result = await this.withFallback(language, 'TTS', provider => provider.textToSpeech(text, language, effectiveEmotion));
+    return result.success ? withVisemes(result, text) : result;
+  }
+
+  /**
+   * Providers without streaming recognition get the whole recording once the
+   * audio ends and report a single final result, so callers can always stream
+   */
+  async *streamingSpeechToText(
+    audio: AsyncIterable<Uint8Array>,
+    language: SupportedLanguage = this.language
+  ): AsyncIterable<StreamingRecognitionResult> {
+    const provider = this.getProvider(this.getProviderName(language));
+    if (provider.streamingSpeechToText) {
+      yield* provider.streamingSpeechToText(audio, language);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of audio) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const result = await this.speechToText(Buffer.concat(chunks).toString('base64'), language);
+    if (!result.success) {
+      throw new Error(result.error || 'Speech recognition failed');
+    }
+    yield { transcript: result.transcript || '', isFinal: true, confidence: result.confidence };
+  }
+
+  getVoices(language?: SupportedLanguage): VoiceInfo[] {
+    const languages: SupportedLanguage[] = language ? [language] : SUPPORTED_LANGUAGES;
+    return languages.flatMap(lang => this.getProvider(this.getProviderName(lang)).getVoices(lang));
+  }
+
+  /** Language for calls that do not pass one; providers get it per call */
+  setLanguage(language: string): void {
+    this.language = parseLanguage(language) || DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Emotion is applied to the next textToSpeech call, whichever provider
+   * ends up serving it
+   */
+  setSpeakerByEmotion(emotion: string): void {
+    this.pendingEmotion = emotion;
+  }
+
+  private getProvider(name: VoiceProviderName): VoiceProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.factory(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  private async withFallback<T extends { success: boolean; error?: string }>(
+    language: SupportedLanguage,
+    operation: string,
+    call: (provider: VoiceProvider) => Promise<T>
+  ): Promise<T> {
+    const attempt = async (name: VoiceProviderName): Promise<T> => {
+      try {
+        return await call(this.getProvider(name));
+      } catch (error) {
+        // Constructors throw too, e.g. Google without credentials
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' } as T;
+      }
+    };
+
+    const primaryName = this.getProviderName(language);
+    const result = await attempt(primaryName);
+
+    const fallbackName = this.config.fallback;
+    if (result.success || !fallbackName || fallbackName === primaryName) {
+      return result;
+    }
+
+    console.warn(`[Voice] ${operation} failed on ${primaryName} (${result.error}), retrying with ${fallbackName}`);
+    return attempt(fallbackName);
+  }
+}
+
+/**
+ * Providers without engine timing get a timeline spread over the clip's
+ * length; when the length cannot be read the client analyses the audio
+ */
+function withVisemes(result: TextToSpeechResult, text: string): TextToSpeechResult {
+  if (result.visemes || !result.audioBase64) return result;
+  const duration = getAudioDuration(Buffer.from(result.audioBase64, 'base64'));
+  return duration ? { ...result, visemes: buildVisemeTimeline(text, duration) } : result;
+}
@@ -0,0 +1,143 @@
+/**
+ * Pluggable speech providers (STT/TTS).
+ *
+ * The navigator builds one RoutedVoiceProvider from config; it picks the
+ * provider for each language and can fail over to a second provider, so the
+ * kiosk keeps talking during a cloud outage. The fake provider lets tests
+ * exercise /api/voice without network access.
+ */
+
+import { languageEnvSuffix, SUPPORTED_LANGUAGES } from '../../lib/languages';
+import type { VisemeTimeline } from '../../lib/viseme-timeline';
+import { SupportedLanguage } from '../types/config';
+import { FakeVoiceProvider } from './fake-voice-provider';
+import { GoogleCloudVoiceSimple } from './google-cloud-voice-simple';
+import { LocalVoiceProvider } from './local-voice-provider';
+import { RoutedVoiceProvider } from './routed-voice-provider';
+
+export type VoiceProviderName = 'google' | 'local' | 'fake';
+
+export const VOICE_PROVIDER_NAMES: VoiceProviderName[] = ['google', 'local', 'fake'];
+
+export interface SpeechToTextResult {
+  success: boolean;
+  transcript?: string;
+  confidence?: number;
+  error?: string;
+}
+
+export interface TextToSpeechResult {
+  success: boolean;
+  audioBase64?: string;
+  /** Encoding of audioBase64; providers without a value return MP3 */
+  mimeType?: string;
+  /** Mouth shapes over the clip; providers with engine timing fill it, the router derives it from the text otherwise */
+  visemes?: VisemeTimeline;
+  error?: string;
+}
+
+/** Partial or final result from streaming recognition */
+export interface StreamingRecognitionResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence?: number;
+  /** The recogniser detected the end of speech; no further audio is needed */
+  endOfUtterance?: boolean;
+}
+
+export interface VoiceInfo {
+  id: string;
+  language: SupportedLanguage;
+  provider: VoiceProviderName;
+  gender?: 'female' | 'male' | 'neutral';
+}
+
+// Emotion prosody lives in the shared emotion registry
+export { getEmotionVoiceParams } from '../../lib/emotion-registry';
+export type { EmotionVoiceParams } from '../../lib/emotion-registry';
+
+export interface VoiceProvider {
+  readonly name: VoiceProviderName;
+
+  /** audioBase64 is the browser recording (WebM/Opus) */
+  speechToText(audioBase64: string, language: SupportedLanguage): Promise<SpeechToTextResult>;
+  textToSpeech(text: string, language: SupportedLanguage, emotion?: string): Promise<TextToSpeechResult>;
+  /** Only implemented by providers that can recognise while audio is still arriving */
+  streamingSpeechToText?(
+    audio: AsyncIterable<Uint8Array>,
+    language: SupportedLanguage
+  ): AsyncIterable<StreamingRecognitionResult>;
+  getVoices(language?: SupportedLanguage): VoiceInfo[];
+
+  /** Default language for calls that do not pass one */
+  setLanguage?(language: string): void;
+  /** Apply emotion prosody to the next synthesis */
+  setSpeakerByEmotion?(emotion: string): void;
+}
+
+export interface VoiceProviderConfig {
+  /** Provider for languages without their own entry */
+  provider: VoiceProviderName;
+  languages: Partial<Record<SupportedLanguage, VoiceProviderName>>;
+  /** Tried when the primary provider fails */
+  fallback?: VoiceProviderName;
+}
+
+function parseProviderName(value: string, variable: string): VoiceProviderName {
+  const name = value.toLowerCase();
+  if (!VOICE_PROVIDER_NAMES.includes(name as VoiceProviderName)) {
+    throw new Error(`Unknown ${variable}: ${value} (expected ${VOICE_PROVIDER_NAMES.join(', ')})`);
+  }
+  return name as VoiceProviderName;
+}
+
+/**
+ * Read the voice config from the environment.
+ * VOICE_PROVIDER selects the default provider (default: google),
+ * VOICE_PROVIDER_<LANGUAGE> (VOICE_PROVIDER_JA, VOICE_PROVIDER_ZH_TW, ...) override it per language and
+ * VOICE_FALLBACK_PROVIDER is used when the primary provider fails.
+ */
+export function getVoiceProviderConfig(env: NodeJS.ProcessEnv = process.env): VoiceProviderConfig {
+  const languages: VoiceProviderConfig['languages'] = {};
+  for (const language of SUPPORTED_LANGUAGES) {
+    const variable = `VOICE_PROVIDER_${languageEnvSuffix(language)}`;
+    if (env[variable]) {
+      languages[language] = parseProviderName(env[variable]!, variable);
+    }
+  }
+
+  return {
+    provider: parseProviderName(env.VOICE_PROVIDER || 'google', 'VOICE_PROVIDER'),
+    languages,
+    fallback: env.VOICE_FALLBACK_PROVIDER
+      ? parseProviderName(env.VOICE_FALLBACK_PROVIDER, 'VOICE_FALLBACK_PROVIDER')
+      : undefined,
+  };
+}
+
+export function createVoiceProvider(name: VoiceProviderName): VoiceProvider {
+  switch (name) {
+    case 'google':
+      return new GoogleCloudVoiceSimple();
+    case 'local':
+      return new LocalVoiceProvider();
+    case 'fake':
+      return new FakeVoiceProvider();
+    default:
+      throw new Error(`Unsupported voice provider: ${name}`);
+  }
+}
+
+/**
+ * Voice service for the navigator: routes each call to the configured
+ * provider for its language. Providers are created on first use, so a
+ * local-only setup never needs Google credentials.
+ */
+export function createVoiceService(config: VoiceProviderConfig = getVoiceProviderConfig()): VoiceProvider {
+  console.log('[Voice] Providers:', {
+    default: config.provider,
+    ...config.languages,
+    fallback: config.fallback || 'none',
+  });
+  return new RoutedVoiceProvider(config, createVoiceProvider);
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  AdminRole,
+  getSessionSecret,
+  hasRole,
+  verifySessionToken,
+} from '@/lib/admin-session';
+
+/**
+ * Staff pages under /admin need a signed session cookie. API routes check
+ * credentials themselves with authenticateAdmin(), which also accepts API
+ * tokens and re-reads the account, so only pages are gated here.
+ */
+
+// Pages that need more than the viewer role; the first matching prefix wins
+const PAGE_ROLES: Array<[string, AdminRole]> = [
+  ['/admin/access', 'admin'],
+  ['/admin/sessions', 'operator'],
+  ['/admin/escalations', 'operator'],
+  ['/admin/visitors', 'operator'],
+  ['/admin/room-bookings', 'operator'],
+];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (pathname === '/admin/login') {
+    return NextResponse.next();
+  }
+
+  const secret = getSessionSecret();
+  const session = secret ? await verifySessionToken(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, secret) : null;
+
+  if (!session) {
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const required = PAGE_ROLES.find(([prefix]) => pathname.startsWith(prefix))?.[1] || 'viewer';
+  if (!hasRole(session.role, required)) {
+    return new NextResponse('Forbidden', { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+};
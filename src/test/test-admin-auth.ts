@@ -0,0 +1,154 @@
+import { NextRequest } from 'next/server';
+import { InMemoryAdminAccountStore } from '../lib/admin-account-store';
+import {
+  authenticateAdmin,
+  authenticateAutomation,
+  generateApiToken,
+  hashPassword,
+  recordAdminAudit,
+  verifyPassword,
+  verifyStaffLogin,
+} from '../lib/admin-auth';
+import {
+  ADMIN_SESSION_COOKIE,
+  createSessionToken,
+  hasRole,
+  verifySessionToken,
+} from '../lib/admin-session';
+
+/**
+ * Admin authentication: signed session cookies, role hierarchy, password
+ * hashing, API tokens (revoked/expired), the ADMIN_API_TOKEN bootstrap token,
+ * CRON_SECRET for scheduled jobs and the audit log.
+ * Run: npx tsx src/test/test-admin-auth.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const SECRET = 'test-session-secret';
+
+function request(headers: Record<string, string> = {}, cookie?: string) {
+  const req = new NextRequest('http://localhost/api/admin/knowledge', { headers });
+  if (cookie) req.cookies.set(ADMIN_SESSION_COOKIE, cookie);
+  return req;
+}
+
+async function main() {
+  console.log('Admin Auth Test');
+  console.log('='.repeat(50));
+
+  process.env.NEXTAUTH_SECRET = SECRET;
+  delete process.env.ADMIN_API_TOKEN;
+  delete process.env.CRON_SECRET;
+  const store = new InMemoryAdminAccountStore();
+
+  // Roles
+  check('admin includes editor', hasRole('admin', 'editor'));
+  check('editor does not include operator', !hasRole('editor', 'operator'));
+  check('viewer includes viewer', hasRole('viewer', 'viewer'));
+
+  // Session tokens
+  const token = await createSessionToken({ userId: 'user-1', username: 'tanaka', role: 'editor' }, SECRET);
+  const session = await verifySessionToken(token, SECRET);
+  check('verifies own session', session?.username === 'tanaka' && session.role === 'editor');
+  check('rejects other secret', (await verifySessionToken(token, 'other-secret')) === null);
+  const [body, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ ...session, role: 'admin' })).toString('base64url');
+  check('rejects tampered payload', (await verifySessionToken(`${forged}.${signature}`, SECRET)) === null);
+  check('rejects missing signature', (await verifySessionToken(body, SECRET)) === null);
+  const expired = await createSessionToken({ userId: 'user-1', username: 'tanaka', role: 'editor' }, SECRET, -1);
+  check('rejects expired session', (await verifySessionToken(expired, SECRET)) === null);
+
+  // Passwords
+  const hash = hashPassword('correct-horse-battery');
+  check('password hash is salted', hash !== hashPassword('correct-horse-battery') && hash.startsWith('scrypt$'));
+  check('verifies right password', verifyPassword('correct-horse-battery', hash));
+  check('rejects wrong password', !verifyPassword('wrong-password', hash));
+
+  const editor = await store.createUser({
+    username: 'tanaka', displayName: '田中', role: 'editor', disabled: false, passwordHash: hash,
+  });
+  check('staff login with password', (await verifyStaffLogin('tanaka', 'correct-horse-battery', store))?.id === editor.id);
+  check('staff login records time', !!(await store.getUser(editor.id))?.lastLoginAt);
+  check('staff login rejects wrong password', (await verifyStaffLogin('tanaka', 'nope', store)) === null);
+  check('staff login rejects unknown user', (await verifyStaffLogin('suzuki', 'correct-horse-battery', store)) === null);
+
+  // Session cookie on a route
+  const cookie = await createSessionToken({ userId: editor.id, username: 'tanaka', role: 'editor' }, SECRET);
+  const asEditor = await authenticateAdmin(request({}, cookie), 'editor', store);
+  check('session grants editor', asEditor.authorized && asEditor.principal.type === 'session' && asEditor.actor === 'tanaka');
+  const needsOperator = await authenticateAdmin(request({}, cookie), 'operator', store);
+  check('session lacks operator', !needsOperator.authorized && needsOperator.response.status === 403);
+  check('no credentials is 401', await authenticateAdmin(request(), 'viewer', store).then(
+    result => !result.authorized && result.response.status === 401));
+
+  // Role changes apply to live sessions; the cookie still says editor
+  await store.updateUser(editor.id, { role: 'viewer' });
+  const demoted = await authenticateAdmin(request({}, cookie), 'editor', store);
+  check('demotion applies to live session', !demoted.authorized && demoted.response.status === 403);
+  await store.updateUser(editor.id, { role: 'editor', disabled: true });
+  const disabled = await authenticateAdmin(request({}, cookie), 'viewer', store);
+  check('disabled account is 401', !disabled.authorized && disabled.response.status === 401);
+  check('disabled account cannot log in', (await verifyStaffLogin('tanaka', 'correct-horse-battery', store)) === null);
+
+  // API tokens
+  const issued = generateApiToken();
+  const record = await store.createApiToken({
+    name: 'slide-import', tokenHash: issued.tokenHash, role: 'operator', createdBy: 'admin', expiresAt: null,
+  });
+  check('token stored as hash', issued.token.startsWith('ecn_') && issued.tokenHash !== issued.token);
+  const asToken = await authenticateAdmin(request({ Authorization: `Bearer ${issued.token}` }), 'operator', store);
+  check('api token grants its role', asToken.authorized && asToken.actor === 'token:slide-import');
+  const tokenTooWeak = await authenticateAdmin(request({ Authorization: `Bearer ${issued.token}` }), 'admin', store);
+  check('api token limited to its role', !tokenTooWeak.authorized && tokenTooWeak.response.status === 403);
+  await new Promise(resolve => setImmediate(resolve));
+  check('api token use recorded', !!(await store.findApiToken(issued.tokenHash))?.lastUsedAt);
+
+  await store.updateApiToken(record.id, { revokedAt: new Date().toISOString() });
+  const revoked = await authenticateAdmin(request({ Authorization: `Bearer ${issued.token}` }), 'viewer', store);
+  check('revoked token is 401', !revoked.authorized && revoked.response.status === 401);
+
+  const expiring = generateApiToken();
+  await store.createApiToken({
+    name: 'old', tokenHash: expiring.tokenHash, role: 'viewer', createdBy: 'admin',
+    expiresAt: new Date(Date.now() - 1000).toISOString(),
+  });
+  const expiredToken = await authenticateAdmin(request({ Authorization: `Bearer ${expiring.token}` }), 'viewer', store);
+  check('expired token is 401', !expiredToken.authorized && expiredToken.response.status === 401);
+
+  // Bootstrap token and cron secret
+  process.env.ADMIN_API_TOKEN = 'bootstrap-token';
+  const legacy = await authenticateAdmin(
+    request({ Authorization: 'Bearer bootstrap-token', 'X-Admin-User': 'sato' }), 'admin', store);
+  check('ADMIN_API_TOKEN is admin', legacy.authorized && legacy.actor === 'sato' && legacy.principal.type === 'legacy_token');
+
+  process.env.CRON_SECRET = 'cron-secret';
+  const cron = await authenticateAutomation(request({ Authorization: 'Bearer cron-secret' }), 'operator', store);
+  check('CRON_SECRET runs jobs', cron.authorized && cron.principal.type === 'cron');
+  const cronOnAdmin = await authenticateAdmin(request({ Authorization: 'Bearer cron-secret' }), 'viewer', store);
+  check('CRON_SECRET is not an admin credential', !cronOnAdmin.authorized);
+
+  // Audit log
+  if (asToken.authorized) {
+    await recordAdminAudit(asToken.principal, 'knowledge.update', { resource: 'kb-1', details: { fields: ['content'] } }, store);
+  }
+  await recordAdminAudit({ actor: 'tanaka', role: null, type: 'session' }, 'auth.login_failed', {}, store);
+  const audit = await store.listAudit({ action: 'knowledge.' });
+  check('audit records write', audit.length === 1 && audit[0].actor === 'token:slide-import'
+    && audit[0].role === 'operator' && audit[0].resource === 'kb-1');
+  check('audit filters by actor', (await store.listAudit({ actor: 'tanaka' }))[0]?.action === 'auth.login_failed');
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
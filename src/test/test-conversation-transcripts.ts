@@ -0,0 +1,146 @@
+import { NextRequest } from 'next/server';
+import {
+  exportTranscript,
+  formatConversationSummary,
+  pseudonymizeVisitor,
+  redactText,
+  summarizeMessages,
+  TranscriptMessage,
+  TranscriptSession,
+} from '../lib/conversation-transcripts';
+import { createSessionId } from '../lib/session-id';
+
+/**
+ * Offline checks for session summaries, transcript redaction and exports,
+ * device session ids, and the admin sessions API authentication.
+ * Run: npx tsx src/test/test-conversation-transcripts.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const SESSION: TranscriptSession = {
+  id: 'session-1',
+  visitorId: 'kiosk-visitor-42',
+  language: 'ja',
+  startedAt: '2025-06-26T10:00:00Z',
+  endedAt: '2025-06-26T10:07:00Z',
+  status: 'completed',
+  endReason: 'idle',
+  escalated: true,
+  primaryEmotion: 'happy',
+  summary: '会話: 来館者2回。話題: 山田と申します',
+};
+
+const MESSAGES: TranscriptMessage[] = [
+  { role: 'user', content: '山田と申します。営業時間は？', createdAt: '2025-06-26T10:00:05Z', emotion: 'neutral' },
+  { role: 'assistant', content: '9:00から22:00までです。', createdAt: '2025-06-26T10:00:07Z', emotion: 'happy' },
+  { role: 'user', content: '=HYPERLINK("x") call 090-1234-5678', createdAt: '2025-06-26T10:01:00Z' },
+  { role: 'assistant', content: 'Reply to "taro@example.com"', createdAt: '2025-06-26T10:01:02Z', emotion: 'happy' },
+];
+
+async function main() {
+  console.log('Conversation Transcript Test');
+  console.log('='.repeat(50));
+
+  // Redaction
+  check('masks email', redactText('mail me at taro.yamada@example.co.jp') === 'mail me at [email]');
+  check('masks phone numbers', redactText('電話は090-1234-5678です') === '電話は[phone]です');
+  check('masks card numbers', redactText('card 4111 1111 1111 1111') === 'card [card]');
+  check('masks postal code', redactText('〒810-0001 福岡市') === '[postal code] 福岡市');
+  check('masks English self-introduction', redactText('Hi, my name is John Smith.') === 'Hi, my name is [name].');
+  check('keeps lowercase phrases', redactText("I'm looking for a meeting room") === "I'm looking for a meeting room");
+  check('masks Japanese self-introduction', redactText('私の名前は田中です') === '私の名前は[名前]です');
+  check('masks と申します', redactText('山田と申します') === '[名前]と申します');
+  check('masks 私は…です', redactText('私は田中です') === '私は[名前]です', redactText('私は田中です'));
+  check('masks a bare name reply', redactText('田中です') === '[名前]です' && redactText('はい、田中太郎です。') === 'はい、[名前]です。',
+    redactText('はい、田中太郎です。'));
+  check('masks a name opening a later sentence', redactText('こんにちは。タナカです！') === 'こんにちは。[名前]です！');
+  const replies = ['大丈夫です', '私は学生です', '2名です', '二人です', '3階です', '9時からです', '会議室は地下です'];
+  check('keeps common replies and counts', replies.every(text => redactText(text) === text), replies.map(redactText).join(','));
+  check('keeps times and short numbers', redactText('9:00-22:00, 3F, 2名') === '9:00-22:00, 3F, 2名');
+  check('redaction is idempotent', redactText(redactText('山田と申します')) === '[名前]と申します');
+
+  // Pseudonyms
+  const pseudonym = pseudonymizeVisitor('kiosk-visitor-42');
+  check('pseudonym is stable', pseudonym === pseudonymizeVisitor('kiosk-visitor-42'));
+  check('pseudonym hides the id', /^visitor-[0-9a-f]{10}$/.test(pseudonym) && !pseudonym.includes('42'), pseudonym);
+
+  // Summaries
+  const summary = summarizeMessages(MESSAGES);
+  check('counts messages by role', summary.userMessages === 2 && summary.assistantMessages === 2);
+  check('picks dominant emotion', summary.dominantEmotion === 'happy');
+  check('topics are redacted', summary.topics[0].startsWith('[名前]と申します') && !summary.topics.join().includes('山田'));
+  check('active summary wording is unchanged',
+    formatConversationSummary(summary, 'en', { active: true })
+      === 'Active conversation: 2 user messages, 2 responses. Mood: happy.');
+  const closed = formatConversationSummary(summary, 'ja');
+  check('closed summary lists topics', closed.startsWith('会話: 来館者2回、応答2回。雰囲気: happy。話題: '), closed);
+  check('empty conversation is neutral',
+    formatConversationSummary(summarizeMessages([]), 'en') === 'Conversation: 0 visitor messages, 0 responses. Mood: neutral.');
+
+  // Exports
+  const json = exportTranscript(SESSION, MESSAGES, 'json');
+  const parsed = JSON.parse(json.body);
+  check('json filename', json.filename === 'session-session-1.json');
+  check('json pseudonymizes visitor', parsed.session.visitor === pseudonym && !json.body.includes('kiosk-visitor-42'));
+  check('json redacts messages and summary',
+    !json.body.includes('山田') && !json.body.includes('090-1234-5678') && !json.body.includes('taro@example.com'));
+  check('json keeps session metadata', parsed.session.endReason === 'idle' && parsed.session.escalated === true);
+
+  const csv = exportTranscript(SESSION, MESSAGES, 'csv');
+  const csvLines = csv.body.split('\r\n');
+  check('csv starts with BOM', csv.body.charCodeAt(0) === 0xfeff);
+  check('csv header', csvLines[0] === '\uFEFFtimestamp,role,emotion,content');
+  check('csv escapes formulas', csvLines[3].includes(`"'=HYPERLINK(""x"") call [phone]"`), csvLines[3]);
+  check('csv quotes embedded quotes', csvLines[4].includes('"Reply to ""[email]"""'), csvLines[4]);
+  check('csv content type', csv.contentType.startsWith('text/csv'));
+
+  const markdown = exportTranscript(SESSION, MESSAGES, 'markdown');
+  check('markdown header', markdown.body.startsWith('# Session session-1') && markdown.filename.endsWith('.md'));
+  check('markdown metadata', markdown.body.includes(`- Visitor: ${pseudonym}`)
+    && markdown.body.includes('(idle)') && markdown.body.includes('- Escalated to staff: yes'));
+  check('markdown transcript', markdown.body.includes('**Visitor** (2025-06-26T10:00:05Z): [名前]と申します。営業時間は？'));
+
+  // Session ids from visitors' devices
+  const { isConversationSessionId } = await import('../lib/supabase-memory');
+  const deviceIds = [createSessionId(), createSessionId()];
+  check('device session ids can open a session', deviceIds.every(id => isConversationSessionId(id)), deviceIds.join(', '));
+  check('device session ids are unique', deviceIds[0] !== deviceIds[1]);
+  check('legacy session ids cannot', !isConversationSessionId('session_1719400000000_abc123def')
+    && !isConversationSessionId(undefined));
+
+  // Admin API stays closed without the token
+  process.env.ADMIN_API_TOKEN = 'test-admin-token';
+  const { GET: listSessions } = await import('../app/api/admin/sessions/route');
+  const { GET: getSession } = await import('../app/api/admin/sessions/[id]/route');
+  const unauthorized = await listSessions(new NextRequest('http://localhost/api/admin/sessions'));
+  check('list requires admin token', unauthorized.status === 401, String(unauthorized.status));
+  const wrongToken = await getSession(
+    new NextRequest('http://localhost/api/admin/sessions/session-1?format=csv', {
+      headers: { Authorization: 'Bearer wrong' },
+    }),
+    { params: Promise.resolve({ id: 'session-1' }) }
+  );
+  check('export rejects wrong token', wrongToken.status === 401, String(wrongToken.status));
+  const badFormat = await getSession(
+    new NextRequest('http://localhost/api/admin/sessions/session-1?format=pdf', {
+      headers: { Authorization: 'Bearer test-admin-token' },
+    }),
+    { params: Promise.resolve({ id: 'session-1' }) }
+  );
+  check('export rejects unknown format', badFormat.status === 400, String(badFormat.status));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  countSlides,
+  DeckLibraryError,
+  getDeck,
+  listDecks,
+  localizedDeckText,
+  resolvePresentableDeck,
+} from '../lib/deck-library';
+
+/**
+ * Slide deck library: manifest metadata, decks found on disk without a
+ * manifest entry, per-language narration validation and slide count checks,
+ * and the errors behind /api/slides select_deck.
+ * Run: npx tsx src/test/test-deck-library.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const deckMarkdown = (titles: string[]) =>
+  ['---', 'marp: true', '---', '', titles.map(title => `# ${title}\n`).join('\n---\n\n')].join('\n');
+
+const narration = (language: string, count: number) => ({
+  metadata: { title: 'Deck', language, speaker: 'guide', version: '1.0' },
+  slides: Array.from({ length: count }, (_, index) => ({
+    slideNumber: index + 1,
+    narration: { auto: `Slide ${index + 1}`, onEnter: 'Enter', onDemand: {} },
+    transitions: { next: null, previous: null },
+  })),
+});
+
+async function writeDeck(slidesDir: string, id: string, language: string, slides: number, narrationSlides: number | null) {
+  await fs.mkdir(path.join(slidesDir, language), { recursive: true });
+  await fs.writeFile(
+    path.join(slidesDir, language, `${id}.md`),
+    deckMarkdown(Array.from({ length: slides }, (_, index) => `Slide ${index + 1}`))
+  );
+  if (narrationSlides !== null) {
+    await fs.writeFile(
+      path.join(slidesDir, 'narration', `${id}-${language}.json`),
+      JSON.stringify(narration(language, narrationSlides))
+    );
+  }
+}
+
+async function statusOf(promise: Promise<unknown>) {
+  return promise.then(() => 200, error => (error instanceof DeckLibraryError ? error.status : 500));
+}
+
+async function main() {
+  console.log('Deck Library Test');
+  console.log('='.repeat(50));
+
+  check('slides counted after front matter', countSlides(deckMarkdown(['A', 'B', 'C'])) === 3);
+  check('empty deck has no slides', countSlides('---\nmarp: true\n---\n') === 0);
+  check('title falls back to other language', localizedDeckText({ ja: '案内' }, 'en') === '案内');
+
+  const slidesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'deck-library-test-'));
+  await fs.mkdir(path.join(slidesDir, 'narration'), { recursive: true });
+  await fs.writeFile(path.join(slidesDir, 'decks.json'), JSON.stringify({
+    defaultDeck: 'guide',
+    decks: [{
+      id: 'guide',
+      title: { ja: '施設案内', en: 'Facility guide' },
+      languages: ['ja', 'en'],
+      audience: 'visitors',
+      durationMinutes: 5,
+      tags: ['facility'],
+    }],
+  }));
+  await writeDeck(slidesDir, 'guide', 'ja', 2, 2);
+  await writeDeck(slidesDir, 'guide', 'en', 2, 3);
+  await writeDeck(slidesDir, 'hackathon', 'ja', 1, 1);
+  await writeDeck(slidesDir, 'draft', 'en', 1, null);
+  await writeDeck(slidesDir, 'broken', 'ja', 1, null);
+  await fs.writeFile(path.join(slidesDir, 'narration', 'broken-ja.json'), '{');
+
+  const decks = await listDecks({ slidesDir });
+  check('manifest decks first, then discovered', decks.map(deck => deck.id).join(',') === 'guide,broken,draft,hackathon');
+
+  const guide = decks[0];
+  check('manifest metadata kept', guide.audience === 'visitors' && guide.durationMinutes === 5 && guide.tags?.[0] === 'facility');
+  check('default deck flagged', guide.isDefault && !decks[1].isDefault);
+  check('valid language available', guide.availableLanguages.join(',') === 'ja');
+  const enStatus = guide.status.find(item => item.language === 'en');
+  check('slide count mismatch reported', !!enStatus?.narrationErrors.some(error => error.includes('3 slides, deck has 2')));
+
+  const hackathon = decks.find(deck => deck.id === 'hackathon');
+  check('discovered deck listed', !!hackathon && !hackathon.inManifest && hackathon.title.ja === 'hackathon');
+  check('discovered deck available', hackathon?.availableLanguages.join(',') === 'ja');
+
+  const draft = decks.find(deck => deck.id === 'draft');
+  check('missing narration reported', !!draft?.status[0].narrationErrors[0]?.includes('not found') && draft.availableLanguages.length === 0);
+  const broken = decks.find(deck => deck.id === 'broken');
+  check('unparseable narration reported', !!broken?.status[0].narrationErrors[0]?.startsWith('Invalid JSON'));
+
+  await fs.writeFile(
+    path.join(slidesDir, 'narration', 'hackathon-ja.json'),
+    JSON.stringify({ ...narration('ja', 1), metadata: { title: 'Deck', language: 'ja' } })
+  );
+  const invalid = await getDeck('hackathon', { slidesDir });
+  check('validateNarration errors surfaced', invalid.status[0].narrationErrors.includes('Missing metadata.speaker'));
+
+  check('presentable deck resolved', (await resolvePresentableDeck('guide', 'ja', { slidesDir })).id === 'guide');
+  check('invalid language version is 404', (await statusOf(resolvePresentableDeck('guide', 'en', { slidesDir }))) === 404);
+  check('unknown deck is 404', (await statusOf(getDeck('missing', { slidesDir }))) === 404);
+  check('bad deck id is 400', (await statusOf(getDeck('../guide', { slidesDir }))) === 400);
+
+  await fs.rm(slidesDir, { recursive: true, force: true });
+
+  // The decks shipped with the repo
+  const shipped = await getDeck('engineer-cafe');
+  check('engineer-cafe deck presentable in every language',
+    shipped.isDefault && shipped.availableLanguages.join(',') === 'ja,en,ko,zh-CN,zh-TW',
+    shipped.status.map(item => item.narrationErrors.join('; ')).filter(Boolean).join(' | '));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+import { RAGCache } from '../lib/cache/rag-cache';
+import {
+  createEmbeddingProvider,
+  fitToDimensions,
+  getEmbeddingConfig,
+  getEmbeddingModelId,
+} from '../lib/embeddings/embedding-provider';
+
+/**
+ * Offline checks for the embedding provider layer: config resolution, the
+ * deterministic local provider, dimension fitting and per-model cache keys.
+ * Run: npx tsx src/test/test-embedding-provider.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+async function main() {
+  console.log('Embedding Provider Test');
+  console.log('='.repeat(50));
+
+  // Config resolution
+  const defaults = getEmbeddingConfig({} as NodeJS.ProcessEnv);
+  check('defaults to openai', defaults.provider === 'openai');
+  const overridden = getEmbeddingConfig({
+    EMBEDDING_PROVIDER: 'Google',
+    EMBEDDING_DIMENSIONS: '768',
+  } as unknown as NodeJS.ProcessEnv);
+  check('reads provider and dimensions', overridden.provider === 'google' && overridden.dimensions === 768);
+  let rejected = false;
+  try {
+    getEmbeddingConfig({ EMBEDDING_PROVIDER: 'cohere' } as unknown as NodeJS.ProcessEnv);
+  } catch {
+    rejected = true;
+  }
+  check('rejects unknown provider', rejected);
+
+  // Local provider
+  const local = createEmbeddingProvider({ provider: 'local', dimensions: 256 });
+  check('model id includes provider', getEmbeddingModelId(local) === 'local:hash-v1', getEmbeddingModelId(local));
+
+  const hours = await local.embed('エンジニアカフェの営業時間');
+  const hoursAgain = await local.embed('エンジニアカフェの営業時間');
+  const related = await local.embed('営業時間は何時から？');
+  const unrelated = await local.embed('Saino cafe menu');
+  check('vector has configured dimensions', hours.length === 256, `got ${hours.length}`);
+  check('embedding is deterministic', cosine(hours, hoursAgain) > 0.9999);
+  check('related text scores higher than unrelated',
+    cosine(hours, related) > cosine(hours, unrelated),
+    `${cosine(hours, related).toFixed(3)} vs ${cosine(hours, unrelated).toFixed(3)}`);
+
+  // Dimension fitting
+  check('repeats to a multiple', fitToDimensions([1, 2], 6).join(',') === '1,2,1,2,1,2');
+  let mismatch = false;
+  try {
+    fitToDimensions([1, 2, 3], 4);
+  } catch {
+    mismatch = true;
+  }
+  check('refuses non-multiple dimensions', mismatch);
+
+  // Cache keys are per model
+  const cache = new RAGCache();
+  await cache.cacheEmbedding('営業時間', 'local:hash-v1', hours);
+  const sameModel = await cache.getCachedEmbedding('営業時間', 'local:hash-v1');
+  const otherModel = await cache.getCachedEmbedding('営業時間', 'openai:text-embedding-3-small');
+  check('cache hit for same model', sameModel !== null);
+  check('cache miss for other model', otherModel === null);
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import {
+  EMOTION_NAMES,
+  getEmotionVocabulary,
+  getEmotionVoiceParams,
+  getExpressionBlend,
+  getPrimaryExpression,
+  isKnownEmotion,
+  normalizeEmotion,
+  resolveEmotion,
+  UnknownEmotionError,
+} from '../lib/emotion-registry';
+import { EmotionManager } from '../lib/emotion-manager';
+import { EmotionTagParser } from '../lib/emotion-tag-parser';
+import { TextChunker } from '../lib/text-chunker';
+
+/**
+ * Emotion registry: aliases resolved to canonical names, unknown tags
+ * rejected, intensities clamped, VRM expression blends and per-language
+ * voice parameters, as seen through the tag parser, text chunker and
+ * emotion manager.
+ * Run: npx tsx src/test/test-emotion-registry.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+function main() {
+  console.log('Emotion Registry Test');
+  console.log('='.repeat(50));
+
+  // Names and aliases
+  check('alias resolves to canonical name', resolveEmotion('energetic')?.name === 'excited');
+  check('lookup is case-insensitive', resolveEmotion(' Sorry ')?.name === 'apologetic');
+  check('unknown name not resolved', resolveEmotion('sleepy') === null && !isKnownEmotion('sleepy'));
+  const vocabulary = getEmotionVocabulary();
+  check('vocabulary lists names before aliases',
+    vocabulary.slice(0, EMOTION_NAMES.length).join() === EMOTION_NAMES.join() && vocabulary.includes('warm'));
+
+  // Intensity and expressions
+  check('intensity clamped to range', normalizeEmotion('gentle', 1).intensity === 0.9);
+  check('default intensity applied', normalizeEmotion('happy').intensity === 0.8);
+  let thrown: unknown = null;
+  try {
+    normalizeEmotion('sleepy');
+  } catch (error) {
+    thrown = error;
+  }
+  check('unknown emotion throws', thrown instanceof UnknownEmotionError && (thrown as UnknownEmotionError).emotion === 'sleepy');
+
+  const blend = getExpressionBlend('excited', 1);
+  check('blend weights at full intensity', blend.happy === 1 && Math.abs(blend.surprised - 0.3) < 1e-9 && blend.sad === 0);
+  const soft = getExpressionBlend('sad', 0.5);
+  check('unused weight left to neutral', soft.sad === 0.5 && soft.neutral === 0.5);
+  check('primary expression of alias', getPrimaryExpression('caring') === 'relaxed');
+
+  // Voice
+  check('language-specific prosody', getEmotionVoiceParams('excited', 'ja').rate === 1.05);
+  check('default prosody for other languages', getEmotionVoiceParams('excited', 'en').rate === 1.1);
+  check('unknown emotion speaks neutrally', getEmotionVoiceParams('sleepy').rate === 1 && getEmotionVoiceParams(undefined).pitch === 0);
+
+  // Tag parser
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  const parsed = EmotionTagParser.parseEmotionTags('[energetic:2]Welcome! [sleepy]Bye. [/energetic]');
+  console.warn = originalWarn;
+  check('tag alias parsed as canonical emotion', parsed.primaryEmotion === 'excited' && parsed.emotions.length === 1);
+  check('tag intensity clamped', parsed.emotions[0]?.intensity === 1);
+  check('unknown tag reported and stripped', parsed.unknownEmotions.join() === 'sleepy' && parsed.cleanText === 'Welcome! Bye.');
+  let strictError: unknown = null;
+  try {
+    EmotionTagParser.parseEmotionTags('[sleepy]Bye.', { strict: true });
+  } catch (error) {
+    strictError = error;
+  }
+  check('strict parse rejects unknown tag', strictError instanceof UnknownEmotionError);
+
+  // Text chunker
+  const chunks = TextChunker.chunkText('[grateful]ありがとうございます。今日はよろしくお願いします。', 'ja');
+  check('chunk carries canonical emotion', chunks.length > 0 && chunks.every(chunk => chunk.emotion === 'happy'),
+    chunks.map(chunk => chunk.emotion).join(','));
+  check('chunk text has no tag', chunks.every(chunk => !chunk.text.includes('[')));
+
+  // Emotion manager
+  const detected = EmotionManager.detectEmotion('Sorry, that is my fault.', 'en');
+  check('keywords detect emotion', detected.emotion === 'apologetic');
+  check('language limits keywords', EmotionManager.detectEmotion('すみません', 'en').emotion === 'neutral');
+  const mapping = EmotionManager.mapEmotionToVRM({ emotion: 'worried', intensity: 1, confidence: 1 });
+  check('alias mapped to its VRM blend', mapping.primary === 'sad' && mapping.weight === 1 && mapping.blinkOverride === 0.4);
+  check('supported emotions from registry', EmotionManager.isEmotionSupported('teaching') && !EmotionManager.isEmotionSupported('sleepy'));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,164 @@
+import {
+  closureApplies,
+  DEFAULT_FACILITIES,
+  facilityForQuestion,
+  FacilityScheduleError,
+  FacilityScheduleService,
+  facilityStatusMessage,
+  formatFacilityScheduleForAI,
+  InMemoryFacilityScheduleStore,
+  validateTimeRanges,
+} from '../lib/facility-schedule';
+import { getJapaneseHoliday, getJapaneseHolidays } from '../lib/japanese-holidays';
+
+/**
+ * Facility schedule: Japanese public holidays (equinoxes, Happy Mondays,
+ * substitute and citizens' holidays), the last-Monday and New Year closures,
+ * exceptions staff add, open / closing-soon / closed at any moment in Tokyo,
+ * and what the avatar says about it.
+ * Run: npx tsx src/test/test-facility-schedule.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function expectScheduleError(promise: Promise<unknown>, status: number): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof FacilityScheduleError && error.status === status;
+  }
+}
+
+/** Wall-clock time in Japan */
+const jst = (iso: string) => new Date(`${iso}+09:00`);
+
+async function main() {
+  console.log('Facility Schedule Test');
+  console.log('='.repeat(50));
+
+  // Public holidays
+  const holidays2025 = getJapaneseHolidays(2025).map(holiday => holiday.date);
+  check('2025 has 19 holidays including substitutes', holidays2025.length === 19, String(holidays2025.length));
+  check('equinoxes', holidays2025.includes('2025-03-20') && holidays2025.includes('2025-09-23'));
+  check('Happy Monday holidays', ['2025-01-13', '2025-07-21', '2025-09-15', '2025-10-13'].every(date => holidays2025.includes(date)));
+  check('Sunday holiday moves to Monday', getJapaneseHoliday('2025-02-24')?.name.ja === '振替休日');
+  check('substitute after Golden Week skips holidays', getJapaneseHoliday('2025-05-06')?.name.ja === '振替休日');
+  check("citizens' holiday between two holidays", getJapaneseHoliday('2026-09-22')?.name.ja === '国民の休日');
+  check('Olympic year moves', !!getJapaneseHoliday('2021-07-22') && !!getJapaneseHoliday('2021-08-09') && !getJapaneseHoliday('2021-07-19'));
+  check('ordinary day is not a holiday', getJapaneseHoliday('2025-07-02') === null);
+
+  // Closures
+  const [lastMonday, yearEnd] = DEFAULT_FACILITIES[0].closures;
+  check('last Monday of the month closed', closureApplies(lastMonday, '2025-07-28') && !closureApplies(lastMonday, '2025-07-21'));
+  // 2025-11-24 is the substitute for Labour Thanksgiving Day
+  check('closure on a holiday moves to the next weekday',
+    !closureApplies(lastMonday, '2025-11-24') && closureApplies(lastMonday, '2025-11-25'));
+  check('New Year closure wraps the year',
+    closureApplies(yearEnd, '2025-12-29') && closureApplies(yearEnd, '2026-01-03') && !closureApplies(yearEnd, '2026-01-04'));
+
+  // Hours validation
+  check('ranges sorted', validateTimeRanges([{ opens: '14:00', closes: '22:00' }, { opens: '09:00', closes: '12:00' }])[0].opens === '09:00');
+  let rejected = 0;
+  for (const ranges of [[{ opens: '22:00', closes: '09:00' }], [{ opens: '9:00', closes: '12:00' }], [{ opens: '09:00', closes: '13:00' }, { opens: '12:00', closes: '15:00' }]]) {
+    try {
+      validateTimeRanges(ranges);
+    } catch (error) {
+      if (error instanceof FacilityScheduleError) rejected++;
+    }
+  }
+  check('backwards, malformed and overlapping hours rejected', rejected === 3);
+
+  // Status at a moment
+  let now = jst('2025-07-02T10:00:00');
+  const service = new FacilityScheduleService(new InMemoryFacilityScheduleStore(), { now: () => now, cacheTtlMs: 0 });
+  const open = await service.getStatus('engineer-cafe');
+  check('open during the day', open.state === 'open' && open.closesAt === jst('2025-07-02T22:00:00').toISOString() && open.minutesUntilClose === 720);
+  const soon = await service.getStatus('engineer-cafe', jst('2025-07-02T21:30:00'));
+  check('closing soon in the last 30 minutes', soon.state === 'closing-soon' && soon.minutesUntilClose === 30);
+  const night = await service.getStatus('engineer-cafe', jst('2025-07-02T22:00:00'));
+  check('closed after hours, opens next morning', night.state === 'closed' && night.opensAt === jst('2025-07-03T09:00:00').toISOString());
+  const early = await service.getStatus('engineer-cafe', jst('2025-07-03T07:00:00'));
+  check('closed before opening, opens the same day', early.opensAt === jst('2025-07-03T09:00:00').toISOString());
+  const closureDay = await service.getStatus('engineer-cafe', jst('2025-07-28T12:00:00'));
+  check('closed on the closure day with its reason',
+    closureDay.state === 'closed' && closureDay.today.source === 'closure' && closureDay.opensAt === jst('2025-07-29T09:00:00').toISOString());
+  const newYear = await service.getStatus('engineer-cafe', jst('2025-12-31T12:00:00'));
+  check('New Year closure reopens on Jan 4', newYear.opensAt === jst('2026-01-04T09:00:00').toISOString());
+  check('main hall only opens for events', (await service.getStatus('main-hall')).today.source === 'event-only');
+  check('unknown facility is 404', await expectScheduleError(service.getStatus('rooftop'), 404));
+
+  // Staff edits
+  await service.updateFacility('saino', {
+    weekly: [[], ...Array.from({ length: 6 }, () => [{ opens: '11:00', closes: '21:00' }])],
+    holidayHours: [{ opens: '12:00', closes: '18:00' }],
+    eventOnly: false,
+  }, 'staff');
+  check('weekly hours saved', (await service.getDay('saino', '2025-07-06')).open === false
+    && (await service.getDay('saino', '2025-07-02')).hours[0].opens === '11:00');
+  const marineDay = await service.getDay('saino', '2025-07-21');
+  check('holiday hours apply on holidays', marineDay.source === 'holiday' && marineDay.hours[0].closes === '18:00' && marineDay.reason?.ja === '海の日');
+  check('weekly needs seven days',
+    await expectScheduleError(service.updateFacility('saino', { weekly: [], holidayHours: null, eventOnly: false }, 'staff'), 400));
+
+  const maintenance = await service.addException({
+    facilityId: 'engineer-cafe',
+    date: '2025-07-10',
+    hours: [],
+    note: { ja: '設備点検', en: 'maintenance' },
+  }, 'staff');
+  check('special closure', !(await service.getDay('engineer-cafe', '2025-07-10')).open);
+  await service.addException({
+    facilityId: 'main-hall',
+    date: '2025-07-12',
+    hours: [{ opens: '13:00', closes: '17:00' }],
+    note: { ja: 'ハッカソン', en: 'hackathon' },
+  }, 'staff');
+  check('event hours open the main hall', (await service.getStatus('main-hall', jst('2025-07-12T16:45:00'))).state === 'closing-soon');
+  check('one exception per day', await expectScheduleError(service.addException({
+    facilityId: 'engineer-cafe', date: '2025-07-10', hours: [], note: { ja: '重複' },
+  }, 'staff'), 409));
+  check('exception needs a reason',
+    await expectScheduleError(service.addException({ facilityId: 'engineer-cafe', date: '2025-07-11', hours: [], note: {} }, 'staff'), 400));
+  check('invalid date rejected',
+    await expectScheduleError(service.addException({ facilityId: 'engineer-cafe', date: '2025-02-30', hours: [], note: { ja: 'x' } }, 'staff'), 400));
+  check('upcoming exceptions listed', (await service.listExceptions()).length === 2);
+  await service.deleteException(maintenance.id);
+  check('deleted exception reopens the day', (await service.getDay('engineer-cafe', '2025-07-10')).open);
+  check('deleting twice is 404', await expectScheduleError(service.deleteException(maintenance.id), 404));
+
+  // What the avatar says
+  check('closing soon message', facilityStatusMessage(soon, 'en') === 'Engineer Cafe closes at 10:00 PM, in 30 minutes.', facilityStatusMessage(soon, 'en'));
+  check('closed message gives reason and next opening',
+    facilityStatusMessage(newYear, 'ja').includes('年末年始の休館期間のためお休みです') && facilityStatusMessage(newYear, 'ja').includes('1月4日'));
+  now = jst('2025-07-26T10:00:00');
+  const week = await service.getWeek('engineer-cafe');
+  const context = formatFacilityScheduleForAI(await service.getStatus('engineer-cafe'), week, 'en');
+  check('context lists the week with closures', week.length === 7 && context.includes('closed (the monthly closure on the last Monday)'));
+  check('context marks holidays', formatFacilityScheduleForAI(await service.getStatus('engineer-cafe', jst('2025-07-20T10:00:00')),
+    await service.getWeek('engineer-cafe', jst('2025-07-20T10:00:00')), 'ja').includes('海の日'));
+
+  // Which facility a question is about
+  check('facility from the question',
+    facilityForQuestion('sainoは何時まで？') === 'saino'
+      && facilityForQuestion('ホールは使えますか') === 'main-hall'
+      && facilityForQuestion('今日は開いてる？') === 'engineer-cafe');
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server';
+import { FeatureFlagStore, InMemoryFeatureFlagStore } from '../lib/feature-flag-store';
+import { FeatureFlagError, FeatureFlagManager } from '../lib/feature-flags';
+
+/**
+ * Offline checks for the feature flag service: environment defaults,
+ * persistence across instances, targeting rules, percentage rollouts,
+ * cache expiry, the audit log and admin API authentication.
+ * Run: npx tsx src/test/test-feature-flags.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function rejects(action: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await action();
+    return false;
+  } catch (error) {
+    return error instanceof FeatureFlagError;
+  }
+}
+
+async function main() {
+  console.log('Feature Flags Test');
+  console.log('='.repeat(50));
+
+  process.env.FF_EXTERNAL_API_TIMEOUT_MS = '7000';
+  const store = new InMemoryFeatureFlagStore();
+  const admin = new FeatureFlagManager(store, 'kiosk-a', 0);
+
+  // Environment defaults
+  check('env default applies', (await admin.getFlag('EXTERNAL_API_TIMEOUT_MS')) === 7000);
+  check('built-in default applies', (await admin.getFlag('USE_CACHED_EXTERNAL_API')) === true);
+
+  // Persistence shared through the store
+  await admin.setFlag('USE_PARALLEL_RAG', { value: true }, 'tanaka');
+  const otherInstance = new FeatureFlagManager(store, 'kiosk-a', 0);
+  check('stored value reaches other instances', (await otherInstance.getFlag('USE_PARALLEL_RAG')) === true);
+  const otherTenant = new FeatureFlagManager(store, 'kiosk-b', 0);
+  check('tenants are isolated', (await otherTenant.getFlag('USE_PARALLEL_RAG')) === false);
+
+  // Targeting rules win over the stored value
+  await admin.setFlag('USE_PARALLEL_RAG', {
+    rules: [{ attribute: 'sessionId', values: ['session_opt_out'], value: false }],
+  }, 'tanaka');
+  check('rule matches session', (await admin.getFlag('USE_PARALLEL_RAG', { sessionId: 'session_opt_out' })) === false);
+  check('other sessions get stored value', (await admin.getFlag('USE_PARALLEL_RAG', { sessionId: 'session_other' })) === true);
+
+  // Percentage rollout is deterministic per visitor
+  await admin.setFlag('USE_NEW_EMBEDDINGS', { value: true, rolloutPercentage: 30 }, 'tanaka');
+  const visitors = Array.from({ length: 1000 }, (_, i) => `visitor_${i}`);
+  const enabled = [];
+  for (const visitorId of visitors) {
+    if (await admin.isEnabled('USE_NEW_EMBEDDINGS', visitorId)) enabled.push(visitorId);
+  }
+  check('rollout reaches roughly 30%', enabled.length > 200 && enabled.length < 400, `${enabled.length}/1000`);
+  const repeat = await admin.isEnabled('USE_NEW_EMBEDDINGS', { visitorId: enabled[0] });
+  check('rollout is stable per visitor', repeat === true);
+  check('rollout without an id keeps default', (await admin.getFlag('USE_NEW_EMBEDDINGS')) === false);
+
+  // Cached reads until the TTL expires
+  const cached = new FeatureFlagManager(store, 'kiosk-a', 60 * 1000);
+  await cached.getFlag('ENABLE_QUERY_ANALYTICS');
+  await admin.setFlag('ENABLE_QUERY_ANALYTICS', { value: false }, 'suzuki');
+  check('cache serves previous value', (await cached.getFlag('ENABLE_QUERY_ANALYTICS')) === true);
+  cached.invalidateCache();
+  check('invalidated cache reads store', (await cached.getFlag('ENABLE_QUERY_ANALYTICS')) === false);
+
+  // Store outages keep the last known values
+  const failing: FeatureFlagStore = Object.create(store);
+  failing.list = async () => { throw new Error('offline'); };
+  const resilient = new FeatureFlagManager(failing, 'kiosk-a', 0);
+  check('store outage falls back to defaults', (await resilient.getFlag('ENABLE_QUERY_ANALYTICS')) === true);
+
+  // Audit log and reset
+  check('delete resets to default', await admin.deleteFlag('ENABLE_QUERY_ANALYTICS', 'suzuki'));
+  check('nothing to delete twice', !(await admin.deleteFlag('ENABLE_QUERY_ANALYTICS', 'suzuki')));
+  const audit = await admin.getAuditLog({ flagKey: 'ENABLE_QUERY_ANALYTICS' });
+  check('audit records who changed what',
+    audit.length === 2 && audit[0].action === 'delete' && audit[0].actor === 'suzuki' && audit[1].next?.value === false,
+    JSON.stringify(audit.map(entry => [entry.action, entry.actor])));
+  check('bulk updates are audited', await admin.updateFlags({ EXTERNAL_API_TIMEOUT_MS: 3000 }, 'alert:test').then(async () =>
+    (await admin.getAuditLog({ limit: 1 }))[0].actor === 'alert:test'));
+
+  // Validation
+  check('rejects unknown flag', await rejects(() => admin.setFlag('NOT_A_FLAG', { value: true }, 'tanaka')));
+  check('rejects wrong type', await rejects(() => admin.setFlag('USE_PARALLEL_RAG', { value: 1 }, 'tanaka')));
+  check('rejects out-of-range number', await rejects(() => admin.setFlag('MIGRATION_USER_PERCENTAGE', { value: 150 }, 'tanaka')));
+  check('rejects bad rollout', await rejects(() => admin.setFlag('USE_PARALLEL_RAG', { rolloutPercentage: 101 }, 'tanaka')));
+  check('rejects bad rule', await rejects(() => admin.setFlag('USE_PARALLEL_RAG', {
+    rules: [{ attribute: 'ip' as 'sessionId', values: ['1.2.3.4'], value: true }],
+  }, 'tanaka')));
+
+  // Admin API authentication
+  const { GET } = await import('../app/api/admin/flags/route');
+  delete process.env.ADMIN_API_TOKEN;
+  const closed = await GET(new NextRequest('http://localhost/api/admin/flags', {
+    headers: { Authorization: 'Bearer anything' },
+  }));
+  check('admin API closed without token', closed.status === 401);
+  process.env.ADMIN_API_TOKEN = 'secret';
+  const wrong = await GET(new NextRequest('http://localhost/api/admin/flags', {
+    headers: { Authorization: 'Bearer wrong' },
+  }));
+  check('admin API rejects wrong token', wrong.status === 401);
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+import {
+  applyRelevanceThreshold,
+  keywordCoverage,
+  MIN_KEYWORD_COVERAGE,
+  reciprocalRankFusion,
+  scoreKeywordMatch,
+  significantKeywordTokens,
+  tokenizeForKeywordSearch,
+} from '../lib/hybrid-search';
+
+/**
+ * Hybrid retrieval helpers: keyword tokenization (mirrors kb_search_tokens()),
+ * keyword scoring and the coverage floor, reciprocal-rank fusion, and the
+ * threshold applied to the fused list so keyword-only hits cannot pass on a
+ * single shared bigram.
+ * Run: npx tsx src/test/test-hybrid-search.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const sameList = (a: string[], b: string[]) => a.join('|') === b.join('|');
+
+function main() {
+  console.log('🔎 Hybrid search helpers');
+  console.log('='.repeat(50));
+
+  // Tokenization
+  check('Japanese runs become bigrams',
+    sameList(tokenizeForKeywordSearch('営業時間'), ['営業', '業時', '時間']),
+    tokenizeForKeywordSearch('営業時間').join(','));
+  check('Latin words and numbers stay whole, lowercased',
+    sameList(tokenizeForKeywordSearch('Saino B1'), ['saino', 'b1']));
+  check('full-width text is normalized',
+    sameList(tokenizeForKeywordSearch('ＳＡＩＮＯ'), ['saino']));
+  check('mixed text keeps words and bigrams',
+    sameList(tokenizeForKeywordSearch('Sainoの営業'), ['saino', 'の営', '営業']),
+    tokenizeForKeywordSearch('Sainoの営業').join(','));
+  check('punctuation splits Japanese runs',
+    sameList(tokenizeForKeywordSearch('地下、会議室'), ['地下', '会議', '議室']),
+    tokenizeForKeywordSearch('地下、会議室').join(','));
+  check('single character segment is kept', sameList(tokenizeForKeywordSearch('x 駅'), ['x', '駅']));
+  check('empty and punctuation-only input give no tokens',
+    tokenizeForKeywordSearch('').length === 0 && tokenizeForKeywordSearch('！？。').length === 0);
+
+  // Significant tokens
+  check('particle bigrams are not significant',
+    sameList(significantKeywordTokens(tokenizeForKeywordSearch('駐車場について')), ['駐車', '車場', '場に']),
+    significantKeywordTokens(tokenizeForKeywordSearch('駐車場について')).join(','));
+  check('hiragana-only query keeps its tokens',
+    sameList(significantKeywordTokens(['おは', 'はよ']), ['おは', 'はよ']));
+
+  // Coverage and scoring
+  const content = 'エンジニアカフェの営業時間は9:00から22:00までです。';
+  check('full coverage', keywordCoverage('営業時間', content) === 1);
+  check('partial coverage', Math.abs(keywordCoverage('営業日', content) - 0.5) < 1e-9,
+    String(keywordCoverage('営業日', content)));
+  check('no shared tokens', keywordCoverage('駐車場', content) === 0);
+  check('empty query has no coverage', keywordCoverage('', content) === 0);
+  check('verbatim query gets the exact bonus', scoreKeywordMatch('営業時間', content) === 2);
+  check('partial match has no bonus', Math.abs(scoreKeywordMatch('営業日', content) - 0.5) < 1e-9);
+  check('unrelated content scores 0', scoreKeywordMatch('駐車場はありますか', content) === 0);
+  check('matching is case-insensitive', scoreKeywordMatch('SAINO', 'saino cafe & bar') === 2);
+
+  // Particles alone no longer count as a match
+  const question = '駐車場について教えて';
+  const unrelated = 'Wi-Fiについてはスタッフに聞いて教えてもらってください。';
+  check('shared particles stay under the coverage floor',
+    keywordCoverage(question, unrelated) < MIN_KEYWORD_COVERAGE,
+    keywordCoverage(question, unrelated).toFixed(2));
+  check('relevant content reaches the coverage floor',
+    keywordCoverage(question, '駐車場について：専用の駐車場はありません。') >= MIN_KEYWORD_COVERAGE);
+
+  // Threshold on the fused list
+  const fused = [
+    { id: 'vector-hit', content: 'Coworking space on the first floor', similarity: 0.82 },
+    { id: 'keyword-hit', content: '駐車場について：専用の駐車場はありません。', similarity: 0 },
+    { id: 'particle-hit', content: unrelated, similarity: 0 },
+    { id: 'weak-vector', content: 'Something else entirely', similarity: 0.2 },
+  ];
+  const kept = applyRelevanceThreshold(fused, question, 0.5).map(item => item.id);
+  check('threshold keeps strong vector and keyword hits',
+    sameList(kept, ['vector-hit', 'keyword-hit']), kept.join(','));
+  check('higher threshold drops partial keyword coverage',
+    applyRelevanceThreshold(
+      [{ id: 'partial', content: content, similarity: 0 }],
+      '営業日',
+      0.7
+    ).length === 0);
+  check('nothing relevant leaves an empty list',
+    applyRelevanceThreshold(fused.slice(2), question, 0.5).length === 0);
+
+  // Reciprocal-rank fusion
+  const a = { id: 'a' };
+  const b = { id: 'b' };
+  const c = { id: 'c' };
+  const rrf = reciprocalRankFusion([
+    { name: 'vector', results: [a, b] },
+    { name: 'keyword', results: [b, c] },
+  ]);
+  check('item found by both legs ranks first', rrf[0].item.id === 'b', rrf.map(r => r.item.id).join(','));
+  check('both legs recorded', sameList(rrf[0].retrievedBy, ['vector', 'keyword']));
+  check('fused score is the sum of 1/(k + rank)', Math.abs(rrf[0].score - (1 / 62 + 1 / 61)) < 1e-12);
+  check('every item appears once', rrf.length === 3);
+
+  const weighted = reciprocalRankFusion(
+    [
+      { name: 'vector', results: [a] },
+      { name: 'keyword', results: [c] },
+    ],
+    { vector: 1, keyword: 2 }
+  );
+  check('leg weights change the order', weighted[0].item.id === 'c');
+
+  const smallK = reciprocalRankFusion([{ name: 'vector', results: [a, b] }], { vector: 1, keyword: 1 }, 1);
+  check('k controls the top-rank advantage', Math.abs(smallK[0].score - 0.5) < 1e-12 && Math.abs(smallK[1].score - 1 / 3) < 1e-12);
+  check('no legs give no results', reciprocalRankFusion([]).length === 0);
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,215 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { expandEvents, parseDuration, parseICalendar, zonedTimeToUtc } from '../lib/icalendar';
+import { CalendarServiceTool, formatEventsForAI, resolveCalendarWindow } from '../mastra/tools/calendar-service';
+
+/**
+ * iCalendar parsing, recurrence expansion in Asia/Tokyo, query windows and
+ * merging calendars in CalendarServiceTool (against a local fixture server).
+ * Run: npx tsx src/test/test-icalendar.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const ics = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'X-WR-CALNAME:Engineer Cafe',
+  'X-WR-TIMEZONE:Asia/Tokyo',
+  ...events,
+  'END:VCALENDAR',
+].join('\r\n');
+
+// 2025-07-01 is a Tuesday
+const ENGINEER_CAFE = ics(
+  [
+    'BEGIN:VEVENT',
+    'UID:meetup@engineercafe',
+    'SUMMARY:もくもく会',
+    'DTSTART;TZID=Asia/Tokyo:20250701T190000',
+    'DTEND;TZID=Asia/Tokyo:20250701T210000',
+    'RRULE:FREQ=WEEKLY;BYDAY=TU;UNTIL=20250731T235959Z',
+    'EXDATE;TZID=Asia/Tokyo:20250715T190000',
+    'LOCATION:1F Open space',
+    'DESCRIPTION:Bring your own project\\, everyone welcome.\\nFree.',
+    'BEGIN:VALARM',
+    'TRIGGER:-PT15M',
+    'ACTION:DISPLAY',
+    'END:VALARM',
+    'END:VEVENT',
+  ].join('\r\n'),
+  [
+    'BEGIN:VEVENT',
+    'UID:meetup@engineercafe',
+    'RECURRENCE-ID;TZID=Asia/Tokyo:20250708T190000',
+    'SUMMARY:もくもく会（時間変更）',
+    'DTSTART;TZID=Asia/Tokyo:20250708T200000',
+    'DTEND;TZID=Asia/Tokyo:20250708T220000',
+    'END:VEVENT',
+  ].join('\r\n'),
+  [
+    'BEGIN:VEVENT',
+    'UID:meetup@engineercafe',
+    'RECURRENCE-ID;TZID=Asia/Tokyo:20250722T190000',
+    'SUMMARY:もくもく会',
+    'STATUS:CANCELLED',
+    'DTSTART;TZID=Asia/Tokyo:20250722T190000',
+    'END:VEVENT',
+  ].join('\r\n'),
+  [
+    'BEGIN:VEVENT',
+    'UID:closed@engineercafe',
+    'SUMMARY:休館日',
+    'DTSTART;VALUE=DATE:20250728',
+    'DTEND;VALUE=DATE:20250729',
+    'RRULE:FREQ=MONTHLY;BYDAY=-1MO',
+    'END:VEVENT',
+  ].join('\r\n'),
+  [
+    'BEGIN:VEVENT',
+    'UID:lt@engineercafe',
+    'SUMMARY:LT Night with a very long title that is folded',
+    '  across lines',
+    'DTSTART:20250702T100000Z',
+    'DURATION:PT1H30M',
+    'END:VEVENT',
+  ].join('\r\n'),
+  [
+    'BEGIN:VEVENT',
+    'UID:cancelled@engineercafe',
+    'SUMMARY:Cancelled workshop',
+    'STATUS:CANCELLED',
+    'DTSTART;TZID=Asia/Tokyo:20250703T140000',
+    'DTEND;TZID=Asia/Tokyo:20250703T160000',
+    'END:VEVENT',
+  ].join('\r\n'),
+);
+
+const SAINO = ics([
+  'BEGIN:VEVENT',
+  'UID:saino-1',
+  'SUMMARY:Saino coffee tasting',
+  'DTSTART;TZID=Asia/Tokyo:20250701T180000',
+  'DTEND;TZID=Asia/Tokyo:20250701T190000',
+  'END:VEVENT',
+].join('\r\n'));
+
+const tokyo = (iso: string) => new Date(`${iso}+09:00`);
+const times = (events: Array<{ start: Date }>) => events.map(event => event.start.toISOString()).join(',');
+
+async function main() {
+  console.log('iCalendar Test');
+  console.log('='.repeat(50));
+
+  // Time zones and durations
+  check('TZID time converts to UTC',
+    zonedTimeToUtc({ year: 2025, month: 7, day: 1, hour: 19, minute: 0, second: 0 }, 'Asia/Tokyo').toISOString() === '2025-07-01T10:00:00.000Z');
+  check('DST zones resolve the right offset',
+    zonedTimeToUtc({ year: 2025, month: 7, day: 1, hour: 12, minute: 0, second: 0 }, 'America/New_York').toISOString() === '2025-07-01T16:00:00.000Z');
+  check('parses durations', parseDuration('PT1H30M') === 5400000 && parseDuration('P1D') === 86400000);
+
+  // Parsing
+  const calendar = parseICalendar(ENGINEER_CAFE);
+  check('reads calendar name and zone', calendar.name === 'Engineer Cafe' && calendar.timeZone === 'Asia/Tokyo');
+  const lt = calendar.events.find(event => event.uid === 'lt@engineercafe')!;
+  check('unfolds long lines', lt.summary === 'LT Night with a very long title that is folded across lines', lt.summary);
+  const meetup = calendar.events.find(event => event.uid === 'meetup@engineercafe' && !event.recurrenceId)!;
+  check('unescapes text', meetup.description === 'Bring your own project, everyone welcome.\nFree.');
+  check('ignores nested alarms', meetup.summary === 'もくもく会' && calendar.events.length === 6);
+
+  // Expansion
+  const july = expandEvents(calendar, tokyo('2025-07-01T00:00:00'), tokyo('2025-08-01T00:00:00'));
+  const meetups = july.filter(event => event.uid === 'meetup@engineercafe');
+  check('expands weekly rule with exclusions, overrides and cancellations',
+    times(meetups) === ['2025-07-01T10:00:00.000Z', '2025-07-08T11:00:00.000Z', '2025-07-29T10:00:00.000Z'].join(','),
+    times(meetups));
+  check('moved instance keeps its new title', meetups[1].summary === 'もくもく会（時間変更）' && meetups[1].recurring);
+  check('instance end follows duration', meetups[0].end.toISOString() === '2025-07-01T12:00:00.000Z');
+
+  const closed = july.filter(event => event.uid === 'closed@engineercafe');
+  check('all-day event starts at Tokyo midnight', closed.length === 1 && closed[0].allDay
+    && closed[0].start.toISOString() === '2025-07-27T15:00:00.000Z', times(closed));
+  const autumn = expandEvents(calendar, tokyo('2025-09-01T00:00:00'), tokyo('2025-11-01T00:00:00'))
+    .filter(event => event.uid === 'closed@engineercafe');
+  check('last Monday of the month', times(autumn) === '2025-09-28T15:00:00.000Z,2025-10-26T15:00:00.000Z', times(autumn));
+  const years = expandEvents(calendar, tokyo('2030-01-01T00:00:00'), tokyo('2030-02-01T00:00:00'))
+    .filter(event => event.uid === 'closed@engineercafe');
+  check('expands far into the future', times(years) === '2030-01-27T15:00:00.000Z', times(years));
+
+  check('UTC event with DURATION', july.some(event => event.uid === 'lt@engineercafe'
+    && event.end.getTime() - event.start.getTime() === 5400000));
+  check('drops cancelled events', !july.some(event => event.uid === 'cancelled@engineercafe'));
+  const counted = parseICalendar(ics([
+    'BEGIN:VEVENT',
+    'UID:daily',
+    'SUMMARY:Daily',
+    'DTSTART;TZID=Asia/Tokyo:20250701T090000',
+    'RRULE:FREQ=DAILY;COUNT=3',
+    'END:VEVENT',
+  ].join('\r\n')));
+  check('COUNT limits instances', expandEvents(counted, tokyo('2025-06-01T00:00:00'), tokyo('2025-08-01T00:00:00')).length === 3);
+
+  // Query windows (Friday 2025-06-27 15:00 JST)
+  const now = tokyo('2025-06-27T15:00:00');
+  const nextTuesdayEvening = resolveCalendarWindow("What's on next Tuesday evening?", now)!;
+  check('next Tuesday evening', nextTuesdayEvening.start.toISOString() === tokyo('2025-07-01T17:00:00').toISOString()
+    && nextTuesdayEvening.end.toISOString() === tokyo('2025-07-02T00:00:00').toISOString(),
+    `${nextTuesdayEvening.start.toISOString()} - ${nextTuesdayEvening.end.toISOString()}`);
+  const jaTuesday = resolveCalendarWindow('来週の火曜日の夜は何がありますか？', now)!;
+  check('来週の火曜日の夜', jaTuesday.start.getTime() === nextTuesdayEvening.start.getTime());
+  const tomorrow = resolveCalendarWindow('明日のイベントは？', now)!;
+  check('明日', tomorrow.start.toISOString() === tokyo('2025-06-28T00:00:00').toISOString());
+  const friday = resolveCalendarWindow('Anything on Friday?', now)!;
+  check('bare weekday includes today', friday.start.toISOString() === tokyo('2025-06-27T00:00:00').toISOString());
+  const nextWeek = resolveCalendarWindow('来週のイベント', now)!;
+  check('来週 is Monday to Monday', nextWeek.start.toISOString() === tokyo('2025-06-30T00:00:00').toISOString()
+    && nextWeek.end.toISOString() === tokyo('2025-07-07T00:00:00').toISOString());
+  const explicit = resolveCalendarWindow('7月8日は？', now)!;
+  check('explicit date', explicit.start.toISOString() === tokyo('2025-07-08T00:00:00').toISOString());
+  check('no window without a day', resolveCalendarWindow('Any upcoming events?', now) === null);
+  check('月 alone is not Monday', resolveCalendarWindow('今月のイベント', now)!.end.toISOString() === tokyo('2025-07-01T00:00:00').toISOString());
+
+  // Tool: merge calendars from a fixture server
+  const feeds: Record<string, string> = { '/engineer-cafe.ics': ENGINEER_CAFE, '/saino.ics': SAINO };
+  const server = http.createServer((req, res) => {
+    const feed = feeds[req.url || ''];
+    res.writeHead(feed ? 200 : 404, { 'Content-Type': 'text/calendar' });
+    res.end(feed || 'not found');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  process.env.GOOGLE_CALENDAR_ICAL_URL = `${base}/engineer-cafe.ics`;
+  process.env.CALENDAR_ICAL_URLS = `saino=${base}/saino.ics,meeting-rooms=${base}/missing.ics`;
+  const tool = new CalendarServiceTool();
+  const result = await tool.execute({
+    from: nextTuesdayEvening.start.toISOString(),
+    to: nextTuesdayEvening.end.toISOString(),
+  });
+  check('merges calendars and reports failures', result.success && result.failedCalendars?.join() === 'meeting-rooms',
+    JSON.stringify(result.failedCalendars));
+  check('returns structured events in the window',
+    result.events.map(event => `${event.calendar}:${event.summary}`).join() === 'saino:Saino coffee tasting,engineer-cafe:もくもく会',
+    result.events.map(event => event.summary).join());
+
+  const context = formatEventsForAI(result.events, 'en', { window: nextTuesdayEvening });
+  check('formats times in Tokyo', context.includes('**もくもく会**: Tue, Jul 01, 2025, 19:00 – 21:00'), context);
+  const empty = formatEventsForAI([], 'ja', { window: tomorrow });
+  check('empty window says so', empty.includes('No events are scheduled in this period.'));
+
+  server.close();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { chunkKnowledgeDocument, estimateTokens, mergeChunkContents } from '../lib/knowledge-chunker';
+
+/**
+ * Structure-aware knowledge chunking: heading breadcrumbs, token budget,
+ * lists/tables/code kept intact or split with their header, prose overlap
+ * and merging neighbouring chunks back together.
+ * Run: npx tsx src/test/test-knowledge-chunker.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const BOOKING_TEXT = Array.from({ length: 12 }, (_, i) =>
+  `会議室${i + 1}は受付で予約できます。当日の空き状況はスタッフにお尋ねください。`).join('');
+
+const FACILITY_GUIDE = `# 施設案内
+
+エンジニアカフェは福岡市のエンジニア支援拠点です。
+
+## 営業時間
+
+- 平日: 9:00〜22:00
+- 土日祝: 9:00〜22:00
+- 休館日: 毎月最終月曜日
+
+## 会議室
+
+| 部屋 | 定員 | 料金 |
+| --- | --- | --- |
+${Array.from({ length: 40 }, (_, i) => `| 会議室${i + 1} | ${4 + (i % 6)}名 | 無料 |`).join('\n')}
+
+### 予約方法
+
+${BOOKING_TEXT}
+`;
+
+const CODE_DOC = `# Wi-Fi setup
+
+\`\`\`
+${Array.from({ length: 60 }, (_, i) => `step ${i + 1}: connect to EngineerCafe-${i}`).join('\n')}
+\`\`\`
+`;
+
+function main() {
+  console.log('Knowledge Chunker Test');
+  console.log('='.repeat(50));
+
+  check('counts Japanese per character', estimateTokens('営業時間') === 4);
+  check('counts other text per four characters', estimateTokens('open daily') === 3);
+
+  const chunks = chunkKnowledgeDocument(FACILITY_GUIDE, { maxTokens: 200, overlapTokens: 40, title: 'エンジニアカフェ' });
+
+  check('every chunk within budget', chunks.every(chunk => chunk.tokens <= 200),
+    chunks.map(chunk => chunk.tokens).join(','));
+  check('indexes chunks in order', chunks.every((chunk, index) => chunk.index === index));
+  check('prefixes title breadcrumb', chunks[0].heading === 'エンジニアカフェ > 施設案内'
+    && chunks[0].content.startsWith('エンジニアカフェ > 施設案内\n\n'), chunks[0].heading || '');
+
+  const hours = chunks.filter(chunk => chunk.heading?.endsWith('営業時間'));
+  check('keeps a short list in one chunk', hours.length === 1 && hours[0].content.includes('- 平日: 9:00〜22:00\n- 土日祝'));
+
+  const rooms = chunks.filter(chunk => chunk.heading === 'エンジニアカフェ > 施設案内 > 会議室');
+  check('splits a large table', rooms.length > 1, `${rooms.length} chunks`);
+  check('repeats the table header', rooms.every(chunk => chunk.content.includes('| 部屋 | 定員 | 料金 |\n| --- | --- | --- |\n| 会議室')));
+  check('loses no table rows', rooms.map(chunk => chunk.content).join('\n').split('\n').filter(line => line.startsWith('| 会議室')).length === 40);
+
+  const booking = chunks.filter(chunk => chunk.heading === 'エンジニアカフェ > 施設案内 > 会議室 > 予約方法');
+  check('nested heading breadcrumb', booking.length > 1, `${booking.length} chunks`);
+  const firstBody = booking[0].content.split('\n\n').slice(1).join('\n\n');
+  const secondBody = booking[1].content.split('\n\n').slice(1).join('\n\n');
+  const lastSentence = firstBody.match(/[^。]+。$/)?.[0] || '';
+  check('prose chunks overlap', lastSentence.length > 0 && secondBody.startsWith(lastSentence), secondBody.slice(0, 40));
+
+  const merged = mergeChunkContents(booking);
+  check('merging removes breadcrumb repeats and overlap',
+    merged.replace(/\s/g, '') === `エンジニアカフェ>施設案内>会議室>予約方法${BOOKING_TEXT}`, merged.slice(0, 80));
+
+  const code = chunkKnowledgeDocument(CODE_DOC, { maxTokens: 150 });
+  check('splits code blocks keeping fences', code.length > 1
+    && code.every(chunk => /\n```\n[\s\S]*\n```$/.test(chunk.content)), `${code.length} chunks`);
+
+  const short = chunkKnowledgeDocument('Engineer Cafe is open from 9:00 to 22:00.', { title: 'Hours' });
+  check('short documents stay one chunk', short.length === 1 && short[0].content === 'Hours\n\nEngineer Cafe is open from 9:00 to 22:00.');
+  check('title equal to first heading is not repeated',
+    chunkKnowledgeDocument('# Hours\n\nOpen daily.', { title: 'Hours' })[0].heading === 'Hours');
+
+  const english = chunkKnowledgeDocument(`# Access\n\n${'Take the subway to Tenjin station and walk five minutes north. '.repeat(30)}`, { maxTokens: 120 });
+  check('english prose splits between sentences', english.length > 1
+    && english.every(chunk => /\.\s*$/.test(chunk.content)), english.map(chunk => chunk.tokens).join(','));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,109 @@
+import { LocalEmbeddingProvider } from '../lib/embeddings/local-embedding-provider';
+import { KnowledgeBaseUtils } from '../lib/knowledge-base-utils';
+import {
+  belongsToHistory,
+  historyKey,
+  InMemoryKnowledgeRevisionStore,
+  KnowledgeRevisionStore,
+} from '../lib/knowledge-revisions';
+import { diffLines } from '../lib/line-diff';
+
+/**
+ * Knowledge base revision history: history keys for re-created documents,
+ * snapshots tagged with author, origin and embedding model, history that
+ * survives a failing store, and the line diff behind the admin history view.
+ * Run: npx tsx src/test/test-knowledge-revisions.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function main() {
+  console.log('Knowledge Revisions Test');
+  console.log('='.repeat(50));
+
+  // History keys
+  const markdownKey = historyKey({
+    id: 'kb-1', content: '# 営業時間', language: 'ja', metadata: { document_key: 'facility/hours.md' },
+  });
+  check('markdown document keyed by document_key',
+    markdownKey.entryId === 'kb-1' && markdownKey.documentKey === 'facility/hours.md');
+  const pageKey = historyKey({
+    id: 'kb-2', content: 'Access', language: 'en', source: 'website', metadata: { url: 'https://engineercafe.jp/access' },
+  });
+  check('website page keyed by URL', pageKey.documentKey === 'website:https://engineercafe.jp/access');
+  check('plain entry keyed by id only',
+    historyKey({ id: 'kb-3', content: 'x', language: 'ja', metadata: {} }).documentKey === null);
+
+  // Snapshots through KnowledgeBaseUtils
+  const store = new InMemoryKnowledgeRevisionStore();
+  const utils = new KnowledgeBaseUtils(new LocalEmbeddingProvider('local-hash', 64), store);
+
+  await utils.recordRevision({
+    id: 'page-old', content: 'Open 9:00-22:00', language: 'en', source: 'website',
+    metadata: { url: 'https://engineercafe.jp/access', chunk_index: 0, parent_id: 'p', title: 'Access' },
+  }, 'create', { author: 'website-sync', origin: 'cron' });
+  await utils.recordRevision({
+    id: 'page-new', content: 'Open 9:00-21:00', language: 'en', source: 'website',
+    metadata: { url: 'https://engineercafe.jp/access', title: 'Access' },
+  }, 'update', { author: 'website-sync', origin: 'cron' });
+  await utils.recordRevision({
+    id: 'kb-9', content: 'Other', language: 'en', metadata: {},
+  }, 'create', { author: 'tanaka', origin: 'admin' });
+
+  const pageHistory = await store.list(historyKey({
+    id: 'page-new', content: '', language: 'en', source: 'website', metadata: { url: 'https://engineercafe.jp/access' },
+  }));
+  check('history spans re-created rows', pageHistory.length === 2, `got ${pageHistory.length}`);
+  check('history is newest first', pageHistory[0]?.action === 'update' && pageHistory[1]?.action === 'create');
+  check('revision tagged with author and origin',
+    pageHistory[0]?.author === 'website-sync' && pageHistory[0]?.origin === 'cron');
+  check('revision records embedding model', pageHistory[0]?.embeddingModel === 'local:local-hash');
+  check('chunk bookkeeping dropped from snapshot',
+    pageHistory[1]?.metadata.chunk_index === undefined && pageHistory[1]?.metadata.title === 'Access');
+  check('other entries excluded', !pageHistory.some(revision => revision.entryId === 'kb-9'));
+  check('belongsToHistory matches by id',
+    belongsToHistory((await store.list({ entryId: 'kb-9', documentKey: null }))[0], { entryId: 'kb-9', documentKey: null }));
+
+  // A failing history store must not fail the change itself
+  const failingStore: KnowledgeRevisionStore = {
+    append: async () => { throw new Error('history unavailable'); },
+    get: async () => null,
+    list: async () => [],
+  };
+  const failingUtils = new KnowledgeBaseUtils(new LocalEmbeddingProvider('local-hash', 64), failingStore);
+  const originalError = console.error;
+  console.error = () => {};
+  const recorded = await failingUtils.recordRevision({ id: 'kb-1', content: 'x', language: 'ja' }, 'delete')
+    .then(() => true, () => false);
+  console.error = originalError;
+  check('recordRevision never throws', recorded);
+
+  // Line diff
+  const before = ['# 営業時間', '平日 9:00〜22:00', '土日 9:00〜22:00', '休館日: 最終月曜'].join('\n');
+  const after = ['# 営業時間', '平日 9:00〜21:00', '土日 9:00〜22:00', '休館日: 最終月曜', '年末年始は休館'].join('\n');
+  const diff = diffLines(before, after);
+  check('unchanged lines kept', diff.filter(line => line.type === 'same').length === 3);
+  check('changed line removed and added',
+    diff.some(line => line.type === 'removed' && line.text === '平日 9:00〜22:00')
+    && diff.some(line => line.type === 'added' && line.text === '平日 9:00〜21:00'));
+  check('appended line added', diff[diff.length - 1]?.type === 'added' && diff[diff.length - 1]?.text === '年末年始は休館');
+  check('diff preserves order', diff.map(line => line.text).join('|')
+    === '# 営業時間|平日 9:00〜22:00|平日 9:00〜21:00|土日 9:00〜22:00|休館日: 最終月曜|年末年始は休館');
+  check('identical text has no changes', diffLines(before, before).every(line => line.type === 'same'));
+  check('empty before is all added',
+    diffLines('', 'a\nb').filter(line => line.type === 'added').map(line => line.text).join(',') === 'a,b');
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_LANGUAGE,
+  detectLanguage,
+  getLanguageConfig,
+  languageEnvSuffix,
+  languageFallbackChain,
+  parseLanguage,
+  promptLanguageOf,
+  SUPPORTED_LANGUAGES,
+  textJoiner,
+  withAnswerInstruction,
+} from '../lib/languages';
+import { UI_MESSAGES, uiText } from '../lib/ui-messages';
+import { localize } from '../lib/localized-text';
+import { TranslationService, Translator } from '../lib/translation';
+import decks from '../slides/decks.json';
+
+/**
+ * Language registry: detection of ja / en / ko / zh-CN / zh-TW text, codes
+ * and aliases, fallback chains, answer instructions for languages that share
+ * another language's prompts, UI string coverage, slide and narration files
+ * for every deck language, and the translation cache.
+ * Run: npx tsx src/test/test-languages.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+class FakeTranslator implements Translator {
+  readonly name = 'fake';
+  calls = 0;
+
+  constructor(private readonly fail = false) {}
+
+  async translate(text: string, to: string): Promise<string> {
+    this.calls++;
+    if (this.fail) throw new Error('translation backend down');
+    return `[${to}] ${text}`;
+  }
+}
+
+async function main() {
+  console.log('🌐 Language registry');
+  console.log('='.repeat(50));
+
+  check('registry has ja, en, ko, zh-CN and zh-TW',
+    ['ja', 'en', 'ko', 'zh-CN', 'zh-TW'].every(code => (SUPPORTED_LANGUAGES as string[]).includes(code)));
+  check('default language is Japanese', DEFAULT_LANGUAGE === 'ja');
+
+  // Detection
+  const detections: Array<[string, string]> = [
+    ['エンジニアカフェの営業時間は？', 'ja'],
+    ['今日', 'ja'],
+    ['What are the opening hours?', 'en'],
+    ['영업시간이 어떻게 되나요?', 'ko'],
+    ['营业时间是几点？', 'zh-CN'],
+    ['營業時間是幾點？', 'zh-TW'],
+    ['这里有会议室吗', 'zh-CN'],
+    ['這裡有會議室嗎', 'zh-TW'],
+  ];
+  for (const [text, expected] of detections) {
+    const detected = detectLanguage(text).language;
+    check(`detects ${expected}: ${text}`, detected === expected, detected);
+  }
+  check('language name alone selects it', detectLanguage('한국어').language === 'ko'
+    && detectLanguage('繁體中文').language === 'zh-TW'
+    && detectLanguage('English').language === 'en');
+  check('empty text falls back to the default language', detectLanguage('').language === DEFAULT_LANGUAGE);
+
+  // Codes and aliases
+  check('parses locales and aliases',
+    parseLanguage('ko-KR') === 'ko'
+      && parseLanguage('zh_Hant') === 'zh-TW'
+      && parseLanguage('zh-Hans') === 'zh-CN'
+      && parseLanguage('cmn-Hant-TW') === 'zh-TW'
+      && parseLanguage('EN') === 'en');
+  check('unknown region falls back to the primary subtag', parseLanguage('en-AU') === 'en' && parseLanguage('ko-KP') === 'ko');
+  check('unsupported values are null', parseLanguage('fr') === null && parseLanguage('') === null && parseLanguage(42) === null);
+
+  // Fallbacks and prompts
+  check('ko falls back to en then ja', languageFallbackChain('ko').join(',') === 'ko,en,ja');
+  check('zh-CN tries zh-TW first', languageFallbackChain('zh-CN').join(',') === 'zh-CN,zh-TW,en,ja');
+  check('ja chain has no duplicates', languageFallbackChain('ja').join(',') === 'ja,en');
+  check('ko and zh reuse English prompts', promptLanguageOf('ko') === 'en' && promptLanguageOf('zh-TW') === 'en');
+  check('ja and en keep their own prompts', withAnswerInstruction('prompt', 'ja') === 'prompt'
+    && withAnswerInstruction('prompt', 'en') === 'prompt');
+  check('ko prompt asks for a Korean answer', withAnswerInstruction('prompt', 'ko').startsWith('prompt\n\n')
+    && withAnswerInstruction('prompt', 'ko').includes('Korean'));
+  check('no spaces between ja / zh chunks', textJoiner('ja') === '' && textJoiner('zh-CN') === ''
+    && textJoiner('en') === ' ' && textJoiner('ko') === ' ');
+  check('env suffix', languageEnvSuffix('zh-TW') === 'ZH_TW' && languageEnvSuffix('ko') === 'KO');
+
+  for (const code of SUPPORTED_LANGUAGES) {
+    const config = getLanguageConfig(code);
+    check(`${code} has voice and speech settings`,
+      Boolean(config.voice.languageCode && config.voice.name && config.speech.recognition && config.speech.whisper));
+  }
+
+  // UI strings
+  const keys = Object.keys(UI_MESSAGES) as Array<keyof typeof UI_MESSAGES>;
+  for (const code of SUPPORTED_LANGUAGES) {
+    const missing = keys.filter(key => !UI_MESSAGES[key][code]);
+    check(`UI strings translated into ${code}`, missing.length === 0, missing.slice(0, 5).join(', '));
+  }
+  check('placeholders are filled', uiText('slides.duration', 'ko', { minutes: 5 }) === '5분'
+    && uiText('slides.duration', 'zh-TW', { minutes: 5 }) === '5分鐘');
+  check('missing translation follows the fallbacks',
+    localize({ en: 'Hello', ja: 'こんにちは' }, 'ko') === 'Hello'
+      && localize({ 'zh-TW': '你好', ja: 'こんにちは' }, 'zh-CN') === '你好'
+      && localize({ ja: 'こんにちは' }, 'ko') === 'こんにちは');
+
+  // Slides and narration
+  const slidesDir = path.join(process.cwd(), 'src/slides');
+  for (const deck of decks.decks) {
+    for (const code of deck.languages) {
+      const slideFile = path.join(slidesDir, code, `${deck.id}.md`);
+      const narrationFile = path.join(slidesDir, 'narration', `${deck.id}-${code}.json`);
+      const hasSlides = fs.existsSync(slideFile);
+      let narrationOk = false;
+      if (fs.existsSync(narrationFile)) {
+        const narration = JSON.parse(fs.readFileSync(narrationFile, 'utf8'));
+        narrationOk = narration.metadata.language === code && Boolean(narration.metadata.speaker)
+          && narration.slides.every((slide: { narration: { auto?: string } }) => Boolean(slide.narration.auto));
+      }
+      check(`${deck.id} has ${code} slides and narration`, hasSlides && narrationOk);
+    }
+  }
+
+  // Translation
+  const translator = new FakeTranslator();
+  const service = new TranslationService(translator);
+  check('translation available with a backend', service.available);
+  check('translates', await service.translate('営業時間', 'en', 'ja') === '[en] 営業時間');
+  await service.translate('営業時間', 'en', 'ja');
+  check('repeated translation is cached', translator.calls === 1, `${translator.calls} calls`);
+  check('same language is returned as is', await service.translate('hello', 'en', 'en') === 'hello' && translator.calls === 1);
+
+  const failing = new TranslationService(new FakeTranslator(true));
+  check('backend failure gives null', await failing.translate('hello', 'ko', 'en') === null);
+
+  const unconfigured = new TranslationService(null);
+  check('no backend: unavailable and null', !unconfigured.available && await unconfigured.translate('hello', 'ko', 'en') === null);
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
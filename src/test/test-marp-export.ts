@@ -0,0 +1,171 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  exportDeck,
+  getExportJob,
+  getSlideThumbnail,
+  localizeAssetUrls,
+  MarpCliRunner,
+  MarpExportError,
+  parseDeckReference,
+  resolveDeck,
+  startExportJob,
+  whenExportJobSettled,
+  withSpeakerNotes,
+} from '../lib/marp-export';
+
+/**
+ * Marp deck export: narration as speaker notes, asset URLs pointed at
+ * public/, deck validation, cached renders keyed by content, per-slide
+ * thumbnails and background export jobs. marp-cli is replaced by a runner
+ * that writes the files it would produce.
+ * Run: npx tsx src/test/test-marp-export.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const DECK = [
+  '---',
+  'marp: true',
+  'theme: engineer-cafe',
+  '---',
+  '',
+  '# Engineer Cafe',
+  '![bg](/assets/images/logo.png)',
+  '',
+  '---',
+  '',
+  '# 料金',
+  '',
+].join('\n');
+
+const NARRATION = {
+  slides: [
+    { slideNumber: 1, narration: { auto: 'ようこそ。Note: 詳しくは --> 受付へ' } },
+    { slideNumber: 2, narration: { auto: '利用は無料です。' } },
+  ],
+};
+
+function outputOf(argv: string[]): string {
+  return argv[argv.indexOf('-o') + 1];
+}
+
+function createRunner(calls: string[][], exitCode = 0): MarpCliRunner {
+  return async (argv) => {
+    calls.push(argv);
+    const output = outputOf(argv);
+    if (argv.includes('--images')) {
+      await fs.writeFile(output.replace(/\.png$/, '.001.png'), 'png-1');
+      await fs.writeFile(output.replace(/\.png$/, '.002.png'), 'png-2');
+    } else {
+      await fs.writeFile(output, 'file');
+    }
+    return exitCode;
+  };
+}
+
+async function main() {
+  console.log('Marp Export Test');
+  console.log('='.repeat(50));
+
+  // Speaker notes
+  const noted = withSpeakerNotes(DECK, NARRATION);
+  check('frontmatter preserved', noted.startsWith('---\nmarp: true\ntheme: engineer-cafe\n---\n'));
+  check('note added per slide', (noted.match(/<!--\n/g) || []).length === 2);
+  check('note cannot close comment early', !noted.includes('--> 受付') && noted.includes('--\u200b> 受付'));
+  check('note not parsed as directive', !noted.includes('Note: ') && noted.includes('Note:\u00a0'));
+  check('slide count unchanged', noted.split(/^---[ \t]*$/m).length === DECK.split(/^---[ \t]*$/m).length);
+
+  // Asset URLs and deck references
+  const localized = localizeAssetUrls('![bg](/assets/images/logo.png) [x](https://example.com/a) [y](//cdn/a)', '/srv/public');
+  check('absolute asset URL points at public/', localized.includes('](/srv/public/assets/images/logo.png)'));
+  check('external URLs untouched', localized.includes('](https://example.com/a)') && localized.includes('](//cdn/a)'));
+  const fromSlideFile = parseDeckReference({ slideFile: 'en/engineer-cafe.md' });
+  check('slideFile parsed', fromSlideFile.deck === 'engineer-cafe' && fromSlideFile.language === 'en');
+  check('language defaults to ja', parseDeckReference({ deck: 'engineer-cafe' }).language === 'ja');
+
+  // Deck validation
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'marp-export-test-'));
+  const slidesDir = path.join(root, 'slides');
+  const cacheDir = path.join(root, 'cache');
+  await fs.mkdir(path.join(slidesDir, 'ja'), { recursive: true });
+  await fs.mkdir(path.join(slidesDir, 'narration'), { recursive: true });
+  await fs.writeFile(path.join(slidesDir, 'ja', 'engineer-cafe.md'), DECK);
+  await fs.writeFile(path.join(slidesDir, 'narration', 'engineer-cafe-ja.json'), JSON.stringify(NARRATION));
+
+  const statusOf = (promise: Promise<unknown>) =>
+    promise.then(() => 200, (error) => (error instanceof MarpExportError ? error.status : 500));
+  check('path traversal rejected', (await statusOf(resolveDeck('../secrets', 'ja', slidesDir))) === 400);
+  check('bad language rejected', (await statusOf(resolveDeck('engineer-cafe', 'ja/..', slidesDir))) === 400);
+  check('missing deck is 404', (await statusOf(resolveDeck('unknown', 'ja', slidesDir))) === 404);
+
+  // Rendering and cache reuse
+  const calls: string[][] = [];
+  const options = { runner: createRunner(calls), slidesDir, cacheDir, publicDir: '/srv/public' };
+  const pdf = await exportDeck({ deck: 'engineer-cafe', language: 'ja', format: 'pdf', includeNotes: true }, options);
+  check('pdf rendered', !pdf.cached && pdf.files.length === 1 && pdf.files[0].endsWith('deck.pdf'));
+  check('pdf notes requested', calls[0]?.includes('--pdf-notes') === true);
+  check('themes passed to marp-cli', calls[0]?.includes('--theme-set') === true);
+  const rendered = await fs.readFile(path.join(path.dirname(pdf.files[0]), 'deck.md'), 'utf-8');
+  check('rendered markdown has notes and local assets',
+    rendered.includes('利用は無料です。') && rendered.includes('/srv/public/assets/images/logo.png'));
+
+  const again = await exportDeck({ deck: 'engineer-cafe', language: 'ja', format: 'pdf', includeNotes: true }, options);
+  check('second export served from cache', again.cached && again.key === pdf.key && calls.length === 1);
+
+  const plain = await exportDeck({ deck: 'engineer-cafe', language: 'ja', format: 'pdf' }, options);
+  check('export without notes cached separately', plain.key !== pdf.key && calls.length === 2);
+
+  const [shared1, shared2] = await Promise.all([
+    exportDeck({ deck: 'engineer-cafe', language: 'ja', format: 'pptx' }, options),
+    exportDeck({ deck: 'engineer-cafe', language: 'ja', format: 'pptx' }, options),
+  ]);
+  check('concurrent exports share one render', shared1.key === shared2.key && calls.length === 3);
+
+  const failedCalls: string[][] = [];
+  const failed = await exportDeck(
+    { deck: 'engineer-cafe', language: 'ja', format: 'png', includeNotes: true },
+    { ...options, runner: createRunner(failedCalls, 1) }
+  ).then(() => false, () => true);
+  check('non-zero exit code fails export', failed);
+
+  // Thumbnails
+  const thumbnail = await getSlideThumbnail('engineer-cafe', 'ja', 2, options);
+  check('thumbnail of requested slide', path.basename(thumbnail) === 'deck.002.png'
+    && (await fs.readFile(thumbnail, 'utf-8')) === 'png-2');
+  const thumbnailCalls = calls.length;
+  await getSlideThumbnail('engineer-cafe', 'ja', 1, options);
+  check('thumbnails reuse one render', calls.length === thumbnailCalls);
+  check('missing slide is 404', (await statusOf(getSlideThumbnail('engineer-cafe', 'ja', 9, options))) === 404);
+
+  // Background jobs
+  const job = startExportJob({ deck: 'engineer-cafe', language: 'ja', format: 'pptx' }, options);
+  check('job starts running', job.status === 'running' && getExportJob(job.id) === job);
+  await whenExportJobSettled(job);
+  check('job finishes with files', getExportJob(job.id)?.status === 'done' && !!job.result?.files.length);
+
+  const originalError = console.error;
+  console.error = () => {};
+  const missingJob = startExportJob({ deck: 'unknown', language: 'ja', format: 'pdf' }, options);
+  await whenExportJobSettled(missingJob);
+  console.error = originalError;
+  check('failed job records error', missingJob.status === 'failed' && !!missingJob.error?.includes('Deck not found'));
+  check('unknown job id', getExportJob('missing') === null);
+
+  await fs.rm(root, { recursive: true, force: true });
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,193 @@
+import { QuestionRouter, RoutingConfig, loadRoutingConfig } from '../mastra/routing/question-router';
+
+/**
+ * Evaluation harness for the question router. Runs a labelled question set
+ * through the routing rules and reports per-intent precision/recall plus the
+ * misrouted questions, so rule changes can be checked before deploying.
+ *
+ * Rules only (no LLM fallback). Uses question-routes.json unless
+ * QUESTION_ROUTES_SOURCE=database is set.
+ * Run: npx tsx -r dotenv/config src/test/test-question-router.ts
+ */
+
+interface LabelledQuestion {
+  question: string;
+  intent: string;
+}
+
+const LABELLED_QUESTIONS: LabelledQuestion[] = [
+  // Calendar / events
+  { question: '今月のイベントを教えて', intent: 'calendar' },
+  { question: '今日は何かイベントありますか？', intent: 'calendar' },
+  { question: '明日何がある？', intent: 'calendar' },
+  { question: 'What events are coming up?', intent: 'calendar' },
+  { question: "What's on today?", intent: 'calendar' },
+  { question: 'Is there a meetup this week?', intent: 'calendar' },
+  { question: '直近の勉強会の予定は？', intent: 'calendar' },
+
+  // Facility info
+  { question: 'エンジニアカフェとは何ですか？', intent: 'facility-info' },
+  { question: 'What is Engineer Cafe?', intent: 'facility-info' },
+  { question: 'エンジニアカフェの歴史を教えて', intent: 'facility-info' },
+  { question: 'When was it founded?', intent: 'facility-info' },
+  { question: '地下のMTGスペースは予約できますか？', intent: 'facility-info' },
+  { question: 'Tell me about the basement focus space', intent: 'facility-info' },
+  { question: 'B1には何がありますか？', intent: 'facility-info' },
+  { question: '受付はどこですか？', intent: 'facility-info' },
+  { question: 'Where is the reception?', intent: 'facility-info' },
+  { question: 'トイレは何階？', intent: 'facility-info' },
+  { question: 'カフェで作業できますか？', intent: 'facility-info' },
+  { question: 'engineer confess wifi', intent: 'facility-info' },
+
+  // Clarifications
+  { question: '会議室を使いたい', intent: 'meeting-room-clarification-needed' },
+  { question: 'Can I book a meeting room?', intent: 'meeting-room-clarification-needed' },
+  { question: 'カフェの営業時間は？', intent: 'cafe-clarification-needed' },
+  { question: 'What time does the cafe close?', intent: 'cafe-clarification-needed' },
+
+  // Rooms
+  { question: 'Is a room free at 3pm for 4 people?', intent: 'room-availability' },
+  { question: '明日の15時に会議室は空いていますか？', intent: 'room-availability' },
+  { question: '地下のMTGスペースの空きはありますか？', intent: 'room-availability' },
+  { question: 'Is the basement meeting space available tomorrow?', intent: 'room-availability' },
+  { question: '会議室2を仮予約してください', intent: 'room-reservation' },
+  { question: 'Yes, please book it', intent: 'room-reservation' },
+
+  // Saino
+  { question: 'sainoのメニューは？', intent: 'saino-cafe' },
+  { question: 'coffee say no opening hours', intent: 'saino-cafe' },
+  { question: '併設のバーは何時まで？', intent: 'saino-cafe' },
+  { question: 'サイノでお酒は飲めますか', intent: 'saino-cafe' },
+  { question: 'sainoは何時までやってますか？', intent: 'saino-cafe' },
+
+  // Pricing / facilities / access / hours
+  { question: '料金はかかりますか？', intent: 'pricing' },
+  { question: 'How much is the fee?', intent: 'pricing' },
+  { question: '電源はありますか？', intent: 'facilities' },
+  { question: 'Do you have a printer?', intent: 'facilities' },
+  { question: 'アクセス方法を教えて', intent: 'access' },
+  { question: 'Is there parking nearby?', intent: 'access' },
+  { question: '今日は何時まで開いていますか？', intent: 'hours' },
+  { question: '営業時間は？', intent: 'hours' },
+  { question: 'What are your hours?', intent: 'hours' },
+  { question: 'Are you open tomorrow?', intent: 'hours' },
+  { question: '休館日はいつ？', intent: 'hours' },
+  { question: 'エンジニアカフェは今日何時まで開いてる？', intent: 'hours' },
+  { question: 'Is Engineer Cafe open today?', intent: 'hours' },
+
+  // Web search topics
+  { question: '今日のホークスの試合結果は？', intent: 'web-search' },
+  { question: "What's the weather like today?", intent: 'web-search' },
+  { question: '最新のAIニュースを教えて', intent: 'web-search' },
+
+  // Korean and Chinese
+  { question: '이번 주 이벤트 일정 알려 주세요', intent: 'calendar' },
+  { question: '本周有什么活动？', intent: 'calendar' },
+  { question: '엔지니어 카페는 어떤 곳인가요?', intent: 'facility-info' },
+  { question: '工程師咖啡館是什麼？', intent: 'facility-info' },
+  { question: '이용 요금이 있나요?', intent: 'pricing' },
+  { question: '使用需要费用吗？', intent: 'pricing' },
+  { question: '有印表機嗎？', intent: 'facilities' },
+  { question: '주차장이 있나요?', intent: 'access' },
+  { question: '营业时间是几点？', intent: 'hours' },
+  { question: '오늘 날씨 어때요?', intent: 'web-search' },
+  { question: '我想用会议室', intent: 'meeting-room-clarification-needed' },
+
+  // Everything else
+  { question: 'こんにちは', intent: 'general' },
+  { question: 'Can you recommend a programming language?', intent: 'general' },
+  { question: 'Prevent overheating tips', intent: 'general' },
+];
+
+interface IntentMetrics {
+  intent: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+async function evaluate(config: RoutingConfig) {
+  const router = new QuestionRouter(config);
+  const misrouted: Array<LabelledQuestion & { predicted: string; rule?: string }> = [];
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>();
+  const bump = (intent: string, key: 'tp' | 'fp' | 'fn') => {
+    const entry = counts.get(intent) || { tp: 0, fp: 0, fn: 0 };
+    entry[key]++;
+    counts.set(intent, entry);
+  };
+
+  for (const item of LABELLED_QUESTIONS) {
+    const decision = await router.route(item.question);
+    if (decision.intent === item.intent) {
+      bump(item.intent, 'tp');
+    } else {
+      bump(decision.intent, 'fp');
+      bump(item.intent, 'fn');
+      misrouted.push({ ...item, predicted: decision.intent, rule: decision.matchedRule?.id });
+    }
+  }
+
+  const metrics: IntentMetrics[] = Array.from(counts.entries())
+    .map(([intent, { tp, fp, fn }]) => ({
+      intent,
+      truePositives: tp,
+      falsePositives: fp,
+      falseNegatives: fn,
+      precision: tp + fp === 0 ? 0 : tp / (tp + fp),
+      recall: tp + fn === 0 ? 0 : tp / (tp + fn),
+    }))
+    .sort((a, b) => a.intent.localeCompare(b.intent));
+
+  const correct = LABELLED_QUESTIONS.length - misrouted.length;
+  return { metrics, misrouted, accuracy: correct / LABELLED_QUESTIONS.length };
+}
+
+async function main() {
+  console.log('Question Router Evaluation');
+  console.log('='.repeat(70));
+
+  const config = await loadRoutingConfig();
+  const { metrics, misrouted, accuracy } = await evaluate(config);
+
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  console.log(`${'intent'.padEnd(36)}${'prec'.padStart(7)}${'recall'.padStart(8)}   tp  fp  fn`);
+  for (const m of metrics) {
+    console.log(
+      `${m.intent.padEnd(36)}${pct(m.precision)}${pct(m.recall).padStart(8)}` +
+      `${String(m.truePositives).padStart(5)}${String(m.falsePositives).padStart(4)}${String(m.falseNegatives).padStart(4)}`
+    );
+  }
+
+  if (misrouted.length > 0) {
+    console.log('\nMisrouted questions:');
+    for (const item of misrouted) {
+      console.log(`❌ "${item.question}" expected ${item.intent}, got ${item.predicted}${item.rule ? ` (rule ${item.rule})` : ''}`);
+    }
+  }
+
+  console.log('\n' + '='.repeat(70));
+  console.log(`Accuracy: ${pct(accuracy).trim()} (${LABELLED_QUESTIONS.length - misrouted.length}/${LABELLED_QUESTIONS.length})`);
+
+  // A rule with a pattern that does not compile is skipped, not thrown on
+  const broken = new QuestionRouter({
+    ...config,
+    rules: [
+      { id: 'broken', intent: 'broken', priority: 1000, handler: { type: 'web-search' }, patterns: ['(unclosed'] },
+      ...config.rules,
+    ],
+  });
+  const brokenDecision = await broken.route('今月のイベントを教えて');
+  const skipsInvalid = brokenDecision.intent === 'calendar';
+  console.log(`${skipsInvalid ? '✅' : '❌'} invalid pattern rule is skipped (${brokenDecision.intent})`);
+
+  // Fail when routing quality drops below the bar
+  const minAccuracy = Number(process.env.ROUTER_MIN_ACCURACY || 0.9);
+  process.exit(accuracy >= minAccuracy && skipsInvalid ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,170 @@
+import { compareQuality, RAGQualityMetrics } from '../lib/monitoring/performance-baseline';
+import {
+  DEFAULT_GOLDEN_DATASET,
+  EvaluationSearch,
+  GoldenDataset,
+  RAGEvaluator,
+  factCoverage,
+  recallAtK,
+  reciprocalRank,
+  stubAgentGenerate,
+} from '../mastra/evaluation/rag-evaluator';
+import { KnowledgeSearchResult } from '../mastra/tools/rag-search';
+
+/**
+ * Offline checks for the RAG evaluation suite: metrics, the runner with a
+ * canned search tool and stubbed answers, and the quality gate comparison.
+ * Run: npx tsx src/test/test-rag-evaluation.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const entry = (id: string, category: string, subcategory: string, content = ''): KnowledgeSearchResult => ({
+  id,
+  content,
+  category,
+  subcategory,
+  metadata: {},
+  similarity: 0.8,
+  language: 'ja',
+});
+
+const DATASET: GoldenDataset = {
+  version: 'test-1',
+  questions: [
+    {
+      id: 'hours',
+      language: 'ja',
+      question: '営業時間は？',
+      relevant: [{ category: '基本情報', subcategory: '概要' }],
+      facts: [['9:00', '9時'], ['22:00', '22時']],
+    },
+    {
+      id: 'makers',
+      language: 'ja',
+      question: '3Dプリンターはありますか？',
+      relevant: [
+        { category: '設備', subcategory: '地下Makersスペース' },
+        { category: '設備', subcategory: 'メイカースペース' },
+      ],
+      facts: [['初回講習']],
+    },
+    {
+      id: 'missing',
+      language: 'en',
+      question: 'Is there a sauna?',
+      relevant: [{ id: 'sauna-entry' }],
+    },
+  ],
+};
+
+class CannedSearch implements EvaluationSearch {
+  calls: Array<{ query: string; limit?: number }> = [];
+
+  async execute(params: { query: string; limit?: number }) {
+    this.calls.push(params);
+    const canned: Record<string, KnowledgeSearchResult[]> = {
+      '営業時間は？': [
+        entry('a', '基本情報', '概要', '営業時間は9:00-22:00です'),
+        entry('b', '料金', '会員プラン'),
+      ],
+      '3Dプリンターはありますか？': [
+        entry('c', '設備', 'ライブラリー'),
+        entry('d', '設備', 'メイカースペース', '3Dプリンターは予約制です'),
+        entry('e', '設備', '地下Makersスペース', '初回講習が必要です'),
+      ],
+    };
+    if (params.query === 'Is there a sauna?') {
+      return { success: false, results: [], message: 'Search failed: offline' };
+    }
+    return { success: true, results: (canned[params.query] || []).slice(0, params.limit) };
+  }
+}
+
+async function main() {
+  console.log('RAG Evaluation Test');
+  console.log('='.repeat(50));
+
+  // Metrics
+  const results = [entry('x', '設備', 'ライブラリー'), entry('y', '設備', '会議室'), entry('z', '設備', 'メイカースペース')];
+  const targets = [{ category: '設備', subcategory: '会議室' }, { category: '設備', subcategory: 'メイカースペース' }];
+  check('recall@2 counts targets in top 2', recallAtK(results, targets, 2) === 0.5);
+  check('recall@3 finds both targets', recallAtK(results, targets, 3) === 1);
+  check('reciprocal rank of first hit', reciprocalRank(results, targets) === 0.5);
+  check('reciprocal rank without hits', reciprocalRank(results, [{ id: 'nope' }]) === 0);
+  const coverage = factCoverage('Open from 9:00 until 22時', [['9:00'], ['22:00', '22時'], ['Monday']]);
+  check('fact coverage accepts alternatives', Math.abs(coverage.coverage - 2 / 3) < 1e-9 && coverage.missing.join() === 'Monday');
+
+  // Runner, retrieval only
+  const search = new CannedSearch();
+  const evaluator = new RAGEvaluator(search);
+  const retrievalRun = await evaluator.run(DATASET, { k: 2 });
+  check('passes k as the search limit', search.calls.every(call => call.limit === 2));
+  check('recall@k over the dataset', Math.abs(retrievalRun.metrics.recallAtK - 1.5 / 3) < 1e-9, String(retrievalRun.metrics.recallAtK));
+  check('MRR over the dataset', Math.abs(retrievalRun.metrics.mrr - 1.5 / 3) < 1e-9, String(retrievalRun.metrics.mrr));
+  check('no fact coverage without answers', retrievalRun.metrics.factCoverage === null);
+  check('records mode and LLM', retrievalRun.metrics.mode === 'hybrid' && retrievalRun.metrics.llm === 'none');
+  check('failed search scores zero with error', retrievalRun.results[2].recallAtK === 0 && !!retrievalRun.results[2].error);
+
+  // Runner with an answerer
+  const answerRun = await evaluator.run(DATASET, {
+    k: 3,
+    answer: async question => {
+      if (question.id === 'missing') throw new Error('LLM unavailable');
+      return question.id === 'hours' ? '9時から22:00までです' : '3Dプリンターを使えます';
+    },
+  });
+  const makers = answerRun.results.find(result => result.id === 'makers')!;
+  check('reports missing facts', makers.factCoverage === 0 && makers.missingFacts?.join() === '初回講習');
+  check('failed answer scores zero', answerRun.results[2].factCoverage === 0 && !!answerRun.results[2].error?.includes('LLM unavailable'));
+  check('fact coverage averages answered questions', Math.abs(answerRun.metrics.factCoverage! - 1 / 3) < 1e-9, String(answerRun.metrics.factCoverage));
+
+  // Stubbed LLM echoes the prompt context
+  const agent = { generate: async (..._args: any[]): Promise<any> => ({ text: 'real model' }) };
+  stubAgentGenerate(agent);
+  const echoed = await agent.generate([{ role: 'user', content: 'Answer this: hours?\nContext: Open 9:00-22:00' }]);
+  const relevance = await agent.generate([{ role: 'user', content: 'Answer with only "YES" or "NO".' }]);
+  const classification = await agent.generate([{ role: 'user', content: 'Reply with JSON only: {"intent": ...}' }]);
+  check('stub echoes context', echoed.text === 'Open 9:00-22:00', echoed.text);
+  check('stub accepts relevance checks', relevance.text === 'YES');
+  check('stub declines classification', classification.text === '');
+
+  // Quality gate
+  const baseline: RAGQualityMetrics = {
+    datasetVersion: 'v1', k: 5, mode: 'hybrid', llm: 'stub', questionCount: 10, recallAtK: 0.9, mrr: 0.8, factCoverage: 0.7,
+  };
+  const noBaseline = compareQuality(null, baseline);
+  check('passes without a baseline', noBaseline.passed && noBaseline.notes[0].startsWith('No comparable quality baseline'));
+  check('passes within tolerance', compareQuality(baseline, { ...baseline, recallAtK: 0.86 }).passed);
+  const dropped = compareQuality(baseline, { ...baseline, mrr: 0.6, factCoverage: 0.5 });
+  check('fails on quality drop', !dropped.passed && dropped.regressions.length === 2, dropped.regressions.join('; '));
+  check('skips other dataset versions', compareQuality(baseline, { ...baseline, datasetVersion: 'v2', recallAtK: 0 }).passed);
+  const otherMode = compareQuality(baseline, { ...baseline, mode: 'keyword', recallAtK: 0 });
+  check('skips other retrieval modes', otherMode.passed && otherMode.baseline === null
+    && otherMode.notes[0].startsWith('No comparable quality baseline'), otherMode.notes[0]);
+  check('skips other LLMs', compareQuality(baseline, { ...baseline, llm: 'gemini', factCoverage: 0 }).passed);
+  check('skips baselines without a mode', compareQuality({ ...baseline, mode: undefined }, { ...baseline, mrr: 0 }).passed);
+  const noAnswers = compareQuality(baseline, { ...baseline, factCoverage: null });
+  check('retrieval-only run still gates retrieval', noAnswers.passed && noAnswers.notes.length === 1);
+
+  // Golden dataset shape
+  const ids = DEFAULT_GOLDEN_DATASET.questions.map(question => question.id);
+  check('golden dataset ids are unique', new Set(ids).size === ids.length);
+  check('golden dataset covers ja and en',
+    ['ja', 'en'].every(language => DEFAULT_GOLDEN_DATASET.questions.some(question => question.language === language)));
+  check('every golden question has targets', DEFAULT_GOLDEN_DATASET.questions.every(question => question.relevant.length > 0));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+import {
+  formatRoomAvailabilityForAI,
+  InMemoryBookingAdapter,
+  parseRoomRequest,
+  RoomBookingError,
+  RoomBookingService,
+  roomReservationMessage,
+  roomUnavailableMessage,
+} from '../lib/room-booking';
+import { FacilityScheduleService, InMemoryFacilityScheduleStore } from '../lib/facility-schedule';
+
+/**
+ * Room booking: the building's opening hours and closures, room rules (capacity, minimum
+ * group, same-day and length limits, first-come spaces), conflicts with
+ * existing bookings, provisional reservations confirmed or cancelled by
+ * staff, reading "is a room free at 3pm for 4 people" from a question, and
+ * what the avatar says.
+ * Run: npx tsx src/test/test-room-booking.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function expectRoomBookingError(promise: Promise<unknown>, status: number): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof RoomBookingError && error.status === status;
+  }
+}
+
+/** Wall-clock time in Japan */
+const jst = (iso: string) => new Date(`${iso}+09:00`);
+
+async function main() {
+  console.log('Room Booking Test');
+  console.log('='.repeat(50));
+
+  // Wednesday 2 July 2025, 10:00
+  const now = jst('2025-07-02T10:00:00');
+  const adapter = new InMemoryBookingAdapter();
+  const schedule = new FacilityScheduleService(new InMemoryFacilityScheduleStore(), { now: () => now });
+  const service = new RoomBookingService(adapter, { now: () => now, schedule });
+  const status = async (start: Date, roomId: string, options: { durationMinutes?: number; partySize?: number } = {}) =>
+    (await service.checkAvailability({ start, roomId, ...options })).rooms[0];
+
+  // Opening hours come from the building's schedule
+  const closed = await service.checkAvailability({ start: jst('2025-07-28T15:00:00') });
+  check('nothing free on a closure day',
+    closed.blockedBy === 'closed' && closed.closure?.ja === '毎月最終月曜日の休館日' && closed.rooms.every(room => !room.available));
+  check('nothing free over the New Year', (await service.checkAvailability({ start: jst('2025-12-30T15:00:00') })).blockedBy === 'closed');
+  check('booking past closing time blocked',
+    (await service.checkAvailability({ start: jst('2025-07-02T21:30:00'), durationMinutes: 60 })).blockedBy === 'outside-hours');
+  check('booking before opening blocked', (await service.checkAvailability({ start: jst('2025-07-03T08:00:00') })).blockedBy === 'outside-hours');
+  check('booking until closing allowed', (await service.checkAvailability({ start: jst('2025-07-02T21:00:00') })).blockedBy === null);
+  check('past times blocked', (await service.checkAvailability({ start: jst('2025-07-02T09:00:00') })).blockedBy === 'past');
+
+  // Room rules
+  const threePm = jst('2025-07-02T15:00:00');
+  check('2F room free today', (await status(threePm, '2f-meeting-room-1', { partySize: 4 })).available);
+  check('party over capacity refused', (await status(threePm, '2f-meeting-room-3', { partySize: 10 })).reason === 'capacity');
+  check('MTG space needs two people', (await status(jst('2025-07-03T15:00:00'), 'b1-mtg-space', { partySize: 1 })).reason === 'min-party');
+  check('MTG space not bookable on the day', (await status(threePm, 'b1-mtg-space', { partySize: 4 })).reason === 'same-day');
+  check('MTG space bookable the next day', (await status(jst('2025-07-03T15:00:00'), 'b1-mtg-space', { partySize: 4 })).available);
+  check('MTG space limited to 2 hours',
+    (await status(jst('2025-07-03T15:00:00'), 'b1-mtg-space', { partySize: 4, durationMinutes: 180 })).reason === 'too-long');
+  check('focus space is first come, first served', (await status(threePm, 'b1-focus-space')).reason === 'not-bookable');
+  check('floor filter', (await service.checkAvailability({ start: threePm, floor: 'B1' })).rooms.every(room => room.room.floor === 'B1'));
+  check('unknown room is 404', await expectRoomBookingError(service.checkAvailability({ start: threePm, roomId: 'rooftop' }), 404));
+
+  const partial = new RoomBookingService(new InMemoryBookingAdapter(['2f-meeting-room-1']), { now: () => now, schedule });
+  check('rooms without a calendar are unknown',
+    (await partial.checkAvailability({ start: threePm, roomId: '2f-meeting-room-2' })).rooms[0].reason === 'no-calendar');
+
+  // Reservations
+  check('reservation without a party size rejected',
+    await expectRoomBookingError(service.reserve({ roomId: '2f-meeting-room-1', start: threePm, partySize: 0 }), 400));
+  const booking = await service.reserve({
+    roomId: '2f-meeting-room-1',
+    start: threePm,
+    durationMinutes: 90,
+    partySize: 4,
+    visitorId: 'visitor-1',
+    sessionId: 'kiosk-session',
+  });
+  check('reservation is provisional', booking.status === 'provisional' && /^\d{4}$/.test(booking.reference || ''), booking.reference || '');
+  check('reservation covers the requested period',
+    booking.start === threePm.toISOString() && booking.end === jst('2025-07-02T16:30:00').toISOString());
+  check('reservation remembers visitor and session', booking.visitorId === 'visitor-1' && booking.sessionId === 'kiosk-session');
+  check('overlapping time now booked', (await status(jst('2025-07-02T16:00:00'), '2f-meeting-room-1')).reason === 'booked');
+  check('adjacent time still free', (await status(jst('2025-07-02T16:30:00'), '2f-meeting-room-1')).available);
+  check('double booking is 409',
+    await expectRoomBookingError(service.reserve({ roomId: '2f-meeting-room-1', start: threePm, partySize: 2 }), 409));
+  check('reservation on a closure day is 409',
+    await expectRoomBookingError(service.reserve({ roomId: '2f-meeting-room-2', start: jst('2025-07-28T15:00:00'), partySize: 2 }), 409));
+  check('reserving a first-come space is 409',
+    await expectRoomBookingError(service.reserve({ roomId: 'b1-under-space', start: threePm, partySize: 2 }), 409));
+
+  // Staff decisions
+  check('provisional bookings listed', (await service.list({ status: 'provisional' })).length === 1);
+  const confirmed = await service.confirm(booking.id, 'reception');
+  check('staff confirm', confirmed.status === 'confirmed' && confirmed.decidedBy === 'reception' && !!confirmed.decidedAt);
+  check('confirming twice is 409', await expectRoomBookingError(service.confirm(booking.id, 'reception'), 409));
+  check('unknown booking is 404', await expectRoomBookingError(service.confirm('booking-99', 'reception'), 404));
+
+  const other = await service.reserve({ roomId: '2f-meeting-room-2', start: threePm, partySize: 3 });
+  await service.cancel(other.id, 'reception');
+  check('cancelled booking frees the room', (await status(threePm, '2f-meeting-room-2')).available);
+
+  // Reading questions
+  const english = parseRoomRequest('Is a room free at 3pm for 4 people?', now);
+  check('English time and party size', english.start.getTime() === threePm.getTime() && english.partySize === 4 && english.timeGiven);
+  check('default length is an hour', english.durationMinutes === 60 && english.roomId === null && english.floor === null);
+  const japanese = parseRoomRequest('明日の15時から2時間、4人で地下のMTGスペースは空いてますか？', now);
+  check('Japanese day, time, length and room',
+    japanese.start.getTime() === jst('2025-07-03T15:00:00').getTime()
+      && japanese.durationMinutes === 120
+      && japanese.partySize === 4
+      && japanese.roomId === 'b1-mtg-space'
+      && japanese.floor === 'B1');
+  check('bare hour before opening means the afternoon', parseRoomRequest('3時に会議室空いてる？', now).start.getTime() === threePm.getTime());
+  check('午後 and 半', parseRoomRequest('午後1時半から', now).start.getTime() === jst('2025-07-02T13:30:00').getTime());
+  check('kanji group size and floor', parseRoomRequest('二人で2階の部屋', now).partySize === 2 && parseRoomRequest('二人で2階の部屋', now).floor === '2F');
+  check('"for 2 hours" is a length, not a group',
+    parseRoomRequest('a room at 5pm for 2 hours', now).partySize === null && parseRoomRequest('a room at 5pm for 2 hours', now).durationMinutes === 120);
+  check('time already passed today means tomorrow', parseRoomRequest('room at 9am', now).start.getTime() === jst('2025-07-03T09:00:00').getTime());
+  const noTime = parseRoomRequest('会議室は空いてますか', now);
+  check('no time means now', noTime.start.getTime() === now.getTime() && !noTime.timeGiven);
+  check('a later day without a time starts at opening',
+    parseRoomRequest('明日会議室は空いてますか', now).start.getTime() === jst('2025-07-03T09:00:00').getTime());
+
+  // What the avatar says
+  const availability = await service.checkAvailability({ start: jst('2025-07-02T17:00:00'), partySize: 4 });
+  const context = formatRoomAvailabilityForAI(availability, 'ja');
+  check('context lists rooms with capacity and state', context.includes('2階 会議室1（定員20名') && context.includes('空いています'));
+  check('context explains provisional reservations', context.includes('受付スタッフが確認して確定します'));
+  check('context names closures', formatRoomAvailabilityForAI(closed, 'en').includes('closed (the monthly closure on the last Monday)'));
+  check('reservation message gives the number', roomReservationMessage(booking, 'en').includes(`reservation number is ${booking.reference}`));
+  await schedule.addException({ facilityId: 'engineer-cafe', date: '2025-07-04', hours: [{ opens: '09:00', closes: '17:00' }], note: { ja: '設備点検', en: 'maintenance' } }, 'staff');
+  check('special hours from the schedule apply',
+    (await service.checkAvailability({ start: jst('2025-07-04T17:00:00') })).blockedBy === 'outside-hours'
+      && (await service.checkAvailability({ start: jst('2025-07-04T16:00:00') })).blockedBy === null);
+  check('unavailable message names room and reason',
+    roomUnavailableMessage(availability, 'b1-mtg-space', 'ja').includes('地下 MTGスペース') && roomUnavailableMessage(availability, 'b1-mtg-space', 'ja').includes('当日予約'));
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
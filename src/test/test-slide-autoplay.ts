@@ -0,0 +1,113 @@
+import { SlideNarrator } from '../mastra/agents/slide-narrator';
+
+/**
+ * Server-driven slide auto-play: narration per slide, advancing only on the
+ * client's report for the current step, transitions.next spoken with the
+ * next slide, pausing for questions, and looping or ending at the last slide.
+ * Run: npx tsx src/test/test-slide-autoplay.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const NARRATION = {
+  metadata: { title: 'Engineer Cafe', language: 'ja', speaker: 'guide', version: '1.0' },
+  slides: [1, 2, 3].map(slideNumber => ({
+    slideNumber,
+    narration: {
+      auto: `スライド${slideNumber}の説明です。`,
+      onEnter: '',
+      onDemand: { '料金': '利用は無料です。' },
+    },
+    transitions: { next: slideNumber < 3 ? `続いてスライド${slideNumber + 1}です。` : null, previous: null },
+  })),
+};
+
+function createNarrator(spoken: string[]) {
+  const narrator = new SlideNarrator({ llm: { model: 'test-model' } });
+  narrator.addTool('narrationLoader', {
+    execute: async () => ({ success: true, narrationData: NARRATION }),
+  });
+  narrator.addTool('voiceService', {
+    textToSpeech: async (text: string) => {
+      spoken.push(text);
+      return { success: true, audioBase64: Buffer.from(text).toString('base64') };
+    },
+  });
+  return narrator;
+}
+
+async function main() {
+  console.log('Slide Auto-Play Test');
+  console.log('='.repeat(50));
+
+  const spoken: string[] = [];
+  const narrator = createNarrator(spoken);
+  await narrator.loadNarration('ja/engineer-cafe', 'ja');
+
+  check('not started without setAutoPlay', (await narrator.startAutoPlay()) === null);
+
+  await narrator.setAutoPlay(true, { endBehavior: 'welcome', interval: 5000 });
+  const first = await narrator.startAutoPlay();
+  check('first step narrates current slide',
+    first?.type === 'slide' && first.slideNumber === 1 && first.narration === 'スライド1の説明です。');
+  check('first step has audio', !!first?.audioBuffer && first.audioBuffer.byteLength > 0);
+  check('status is playing', narrator.getAutoPlayStatus().state === 'playing');
+  check('interval kept for silent slides', narrator.getAutoPlayStatus().interval === 5000);
+
+  // Advancing only happens when the client reports the current step
+  check('stale step ignored', (await narrator.completeAutoPlayStep(first!.stepId - 1)) === null);
+  check('stale report does not advance', narrator.getAutoPlayStatus().currentSlide === 1);
+
+  const second = await narrator.completeAutoPlayStep(first!.stepId);
+  check('advances after narration finished', second?.slideNumber === 2);
+  check('transition line attached', second?.transitionMessage === '続いてスライド2です。');
+  check('transition spoken before narration', spoken[spoken.length - 1] === '続いてスライド2です。 スライド2の説明です。');
+  check('same step cannot advance twice', (await narrator.completeAutoPlayStep(first!.stepId)) === null);
+
+  // Questions pause and resume on the same slide
+  const answer = await narrator.answerSlideQuestion('料金はいくらですか？');
+  check('question answered from slide', answer === '利用は無料です。');
+  const paused = narrator.getAutoPlayStatus();
+  check('question pauses auto-play', paused.state === 'paused' && paused.pauseReason === 'question');
+  check('finished report ignored while paused', (await narrator.completeAutoPlayStep(second!.stepId)) === null);
+
+  const resumed = await narrator.resumeAutoPlay();
+  check('resume narrates interrupted slide', resumed?.slideNumber === 2 && !resumed.transitionMessage);
+  check('status playing after resume', narrator.getAutoPlayStatus().state === 'playing');
+  check('resume only when paused', (await narrator.resumeAutoPlay()) === null);
+
+  // End of deck with 'welcome'
+  const third = await narrator.completeAutoPlayStep(resumed!.stepId);
+  const end = await narrator.completeAutoPlayStep(third!.stepId);
+  check('last slide ends presentation', end?.type === 'end' && end.endAction === 'welcome');
+  check('closing line spoken', !!end?.audioBuffer && spoken[spoken.length - 1] === end?.narration);
+  check('stopped after end', narrator.getAutoPlayStatus().state === 'stopped');
+
+  // End of deck with 'loop'
+  const looping = createNarrator([]);
+  await looping.loadNarration('ja/engineer-cafe', 'ja');
+  await looping.setAutoPlay(true, { endBehavior: 'loop' });
+  const last = await looping.startAutoPlay(3);
+  check('starts from requested slide', last?.slideNumber === 3);
+  const again = await looping.completeAutoPlayStep(last!.stepId);
+  check('loop returns to first slide', again?.type === 'slide' && again.slideNumber === 1);
+  check('still playing when looping', looping.getAutoPlayStatus().state === 'playing');
+
+  await looping.stopAutoPlay();
+  check('stop ends auto-play', looping.getAutoPlayStatus().state === 'stopped');
+  check('report after stop ignored', (await looping.completeAutoPlayStep(again!.stepId)) === null);
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
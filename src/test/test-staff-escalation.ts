@@ -0,0 +1,311 @@
+import net from 'net';
+import {
+  createChannelsFromEnv,
+  EmailChannel,
+  formatEscalationMessage,
+  StubChannel,
+} from '../lib/escalation-channels';
+import { buildMimeMessage, sendMail } from '../lib/smtp-client';
+import {
+  ACKNOWLEDGE_LINK_TTL_SECONDS,
+  EscalationError,
+  inferUrgency,
+  InMemoryEscalationStore,
+  StaffEscalationService,
+  visitorEscalationMessage,
+} from '../lib/staff-escalation';
+
+/**
+ * Staff escalation: records stored with redacted question and transcript,
+ * per-channel delivery outcomes, one open escalation per session, rate
+ * limits per device and session, signed acknowledge links, first
+ * acknowledgement wins, resolve, what the avatar tells the visitor, channel
+ * selection from the environment and the SMTP exchange against a local
+ * fake server.
+ * Run: npx tsx src/test/test-staff-escalation.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function expectEscalationError(promise: Promise<unknown>, status: number): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof EscalationError && error.status === status;
+  }
+}
+
+/** Accepts connections and never answers, like a host that stalls the TLS handshake */
+function startSilentServer(): Promise<{ port: number; close: () => void }> {
+  const sockets: net.Socket[] = [];
+  const server = net.createServer(socket => {
+    sockets.push(socket);
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const port = (server.address() as net.AddressInfo).port;
+      resolve({
+        port,
+        close: () => {
+          sockets.forEach(socket => socket.destroy());
+          server.close();
+        },
+      });
+    });
+  });
+}
+
+/** Accepts one message and records the commands it was sent */
+function startFakeSmtpServer(): Promise<{ port: number; commands: string[]; close: () => void }> {
+  const commands: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const port = (server.address() as net.AddressInfo).port;
+      resolve({ port, commands, close: () => server.close() });
+    });
+  });
+}
+
+async function main() {
+  console.log('Staff Escalation Test');
+  console.log('='.repeat(50));
+
+  // Urgency
+  check('emergency words are high urgency', inferUrgency('人が倒れています、救急車を！') === 'high');
+  check('ordinary questions are medium urgency', inferUrgency('Where can I print?') === 'medium');
+
+  // Escalate with one working and one failing channel
+  const store = new InMemoryEscalationStore();
+  const stub = new StubChannel();
+  const broken = new StubChannel('webhook down');
+  const service = new StaffEscalationService(store, [stub, broken], {
+    baseUrl: 'https://cafe.example/',
+    linkSecret: 'test-secret',
+    location: '1F Kiosk',
+    loadTranscript: async () => [
+      { role: 'user', content: 'My email is taro@example.com' },
+      { role: 'assistant', content: 'Let me check.' },
+    ],
+  });
+
+  const escalation = await service.escalate({
+    question: 'Please call me at 090-1234-5678',
+    language: 'en',
+    sessionId: 'session-1',
+  });
+  check('escalation stored as open', escalation.status === 'open' && escalation.location === '1F Kiosk');
+  check('question redacted', escalation.question === 'Please call me at [phone]', escalation.question);
+  check('transcript excerpt redacted',
+    escalation.transcriptExcerpt.length === 2 && escalation.transcriptExcerpt[0].content === 'My email is [email]');
+  check('urgency inferred', escalation.urgency === 'medium');
+  check('working channel received notification', stub.sent.length === 1 && stub.sent[0].escalation.id === escalation.id);
+  check('deliveries recorded per channel',
+    escalation.deliveries.length === 2
+      && escalation.deliveries[0].delivered
+      && !escalation.deliveries[1].delivered
+      && escalation.deliveries[1].error === 'webhook down');
+
+  const message = formatEscalationMessage(stub.sent[0]);
+  check('staff message carries location, question and link',
+    message.includes('場所: 1F Kiosk') && message.includes('[phone]') && message.includes('/acknowledge?'));
+
+  check('empty question rejected', await expectEscalationError(service.escalate({ question: '  ', language: 'ja' }), 400));
+  check('invalid urgency rejected',
+    await expectEscalationError(service.escalate({ question: 'help', language: 'ja', urgency: 'urgent' as any }), 400));
+  const repeated = await service.escalate({ question: 'Is anyone coming?', language: 'en', sessionId: 'session-1' });
+  check('open escalation of the session returned again', repeated.id === escalation.id && stub.sent.length === 1,
+    `${repeated.id}, ${stub.sent.length} sent`);
+
+  // Signed links
+  const now = Date.now();
+  const url = new URL(service.acknowledgeUrl(escalation.id, now)!);
+  const expires = url.searchParams.get('expires');
+  const signature = url.searchParams.get('signature');
+  check('link points at acknowledge route',
+    url.pathname === `/api/escalations/${escalation.id}/acknowledge` && url.origin === 'https://cafe.example');
+  check('valid link verifies', service.verifyAcknowledgeLink(escalation.id, expires, signature, now));
+  check('link for another escalation rejected', !service.verifyAcknowledgeLink('escalation-99', expires, signature, now));
+  check('tampered expiry rejected', !service.verifyAcknowledgeLink(escalation.id, String(Number(expires) + 60), signature, now));
+  check('expired link rejected',
+    !service.verifyAcknowledgeLink(escalation.id, expires, signature, now + (ACKNOWLEDGE_LINK_TTL_SECONDS + 1) * 1000));
+  const unsigned = new StaffEscalationService(new InMemoryEscalationStore(), []);
+  check('no link without a secret', unsigned.acknowledgeUrl('escalation-1') === null
+    && !unsigned.verifyAcknowledgeLink('escalation-1', expires, signature, now));
+
+  // Visitor messages
+  check('visitor told staff were notified', visitorEscalationMessage(escalation, 'en').startsWith('[supportive]'));
+  const undelivered = await new StaffEscalationService(new InMemoryEscalationStore(), [broken])
+    .escalate({ question: 'help', language: 'ja' });
+  check('visitor sent to reception when nobody was reached',
+    visitorEscalationMessage(undelivered, 'ja').startsWith('[apologetic]'));
+  check('visitor sent to reception when escalation failed', visitorEscalationMessage(null, 'en').includes('reception'));
+
+  // Acknowledge and resolve
+  check('acknowledge requires a name', await expectEscalationError(service.acknowledge(escalation.id, ' ', 'link'), 400));
+  check('unknown escalation is 404', await expectEscalationError(service.acknowledge('escalation-99', 'Sato', 'link'), 404));
+  const [first, second] = await Promise.all([
+    service.acknowledge(escalation.id, 'Sato', 'link'),
+    service.acknowledge(escalation.id, 'Suzuki', 'admin'),
+  ]);
+  check('first acknowledgement wins',
+    first.acknowledgedBy === 'Sato' && second.acknowledgedBy === 'Sato' && first.acknowledgedVia === 'link',
+    `${first.acknowledgedBy} / ${second.acknowledgedBy}`);
+  check('visitor told who is coming', visitorEscalationMessage(first, 'en').includes('Sato from our staff'));
+
+  const resolved = await service.resolve(escalation.id, 'Suzuki');
+  check('resolve keeps the acknowledger', resolved.status === 'resolved' && resolved.acknowledgedBy === 'Sato' && !!resolved.resolvedAt);
+  const other = await service.escalate({ question: 'Wi-Fi password?', language: 'en' });
+  const closed = await service.resolve(other.id, 'Tanaka');
+  check('resolving an open escalation acknowledges it via admin',
+    closed.status === 'resolved' && closed.acknowledgedBy === 'Tanaka' && closed.acknowledgedVia === 'admin');
+  check('list filters by status',
+    (await service.list({ status: 'resolved' })).length === 2 && (await service.list({ status: 'open' })).length === 0);
+  check('list filters by session', (await service.list({ sessionId: 'session-1' })).map(e => e.id).join() === escalation.id);
+
+  // Rate limits
+  const limitedStub = new StubChannel();
+  const limited = new StaffEscalationService(new InMemoryEscalationStore(), [limitedStub], {
+    rateLimit: { limit: 2, windowMs: 60 * 1000 },
+  });
+  await limited.escalate({ question: 'help', language: 'ja', clientIp: '203.0.113.5' });
+  await limited.escalate({ question: 'help again', language: 'ja', clientIp: '203.0.113.5' });
+  check('device over its limit gets 429',
+    await expectEscalationError(limited.escalate({ question: 'help!!', language: 'ja', clientIp: '203.0.113.5' }), 429));
+  check('refused escalation is not sent', limitedStub.sent.length === 2, `${limitedStub.sent.length} sent`);
+  check('other devices are not limited',
+    !!(await limited.escalate({ question: 'help', language: 'ja', clientIp: '203.0.113.6', sessionId: 'session-2' })));
+  const raised = await limited.list({ sessionId: 'session-2' });
+  await limited.resolve(raised[0].id, 'Sato');
+  await limited.resolve((await limited.escalate({ question: 'again', language: 'ja', sessionId: 'session-2' })).id, 'Sato');
+  check('session over its limit gets 429 from a new device',
+    await expectEscalationError(limited.escalate({ question: 'once more', language: 'ja', clientIp: '203.0.113.7', sessionId: 'session-2' }), 429));
+  check('device not charged for a refused session',
+    !!(await limited.escalate({ question: 'help', language: 'ja', clientIp: '203.0.113.7' })));
+
+  // Channels from the environment
+  const none = createChannelsFromEnv({} as NodeJS.ProcessEnv);
+  check('no channels without settings', none.length === 0);
+  const configured = createChannelsFromEnv({
+    ESCALATION_SLACK_WEBHOOK_URL: 'https://hooks.slack.example/x',
+    SMTP_HOST: 'smtp.example',
+    ESCALATION_EMAIL_FROM: 'kiosk@example.com',
+    ESCALATION_EMAIL_TO: 'a@example.com, b@example.com',
+  } as unknown as NodeJS.ProcessEnv);
+  check('configured channels used when none listed',
+    configured.map(channel => channel.name).join(',') === 'slack,email');
+  const listed = createChannelsFromEnv({
+    ESCALATION_CHANNELS: 'stub,slack',
+    ESCALATION_SLACK_WEBHOOK_URL: 'https://hooks.slack.example/x',
+    ESCALATION_DISCORD_WEBHOOK_URL: 'https://discord.example/x',
+  } as unknown as NodeJS.ProcessEnv);
+  check('listed channels only', listed.map(channel => channel.name).join(',') === 'slack,stub');
+
+  // Email
+  const mails: Array<{ subject: string; to: string[] }> = [];
+  const email = new EmailChannel(
+    { smtp: { host: 'smtp.example', port: 587 }, from: 'kiosk@example.com', to: ['staff@example.com'] },
+    async (_config, mail) => { mails.push(mail); }
+  );
+  await email.send(stub.sent[0]);
+  check('email subject names the question', mails.length === 1 && mails[0].subject.includes('[phone]'));
+
+  const mime = buildMimeMessage({ from: 'a@example.com', to: ['b@example.com'], subject: 'スタッフ呼び出し', text: 'こんにちは' });
+  check('Japanese subject encoded', mime.includes('Subject: =?UTF-8?B?'));
+  check('body base64 encoded', mime.includes(Buffer.from('こんにちは', 'utf8').toString('base64')));
+
+  // The fake server offers no STARTTLS, so credentials must not be sent by default
+  const plainServer = await startFakeSmtpServer();
+  try {
+    await sendMail(
+      { host: '127.0.0.1', port: plainServer.port, user: 'kiosk', password: 'secret', timeoutMs: 5000 },
+      { from: 'kiosk@example.com', to: ['staff@example.com'], subject: 'Test', text: 'Hello' }
+    );
+    check('AUTH refused without TLS', false, 'mail was sent');
+  } catch (error) {
+    check('AUTH refused without TLS',
+      error instanceof Error && /STARTTLS/.test(error.message) && !plainServer.commands.some(command => command.startsWith('AUTH')),
+      plainServer.commands.join(','));
+  } finally {
+    plainServer.close();
+  }
+
+  const silent = await startSilentServer();
+  const connectStarted = Date.now();
+  try {
+    await sendMail(
+      { host: '127.0.0.1', port: silent.port, secure: true, timeoutMs: 300 },
+      { from: 'kiosk@example.com', to: ['staff@example.com'], subject: 'Test', text: 'Hello' }
+    );
+    check('stalled TLS handshake times out', false, 'mail was sent');
+  } catch (error) {
+    check('stalled TLS handshake times out',
+      error instanceof Error && /timeout/.test(error.message) && Date.now() - connectStarted < 5000,
+      error instanceof Error ? error.message : String(error));
+  } finally {
+    silent.close();
+  }
+
+  const smtp = await startFakeSmtpServer();
+  try {
+    await sendMail(
+      { host: '127.0.0.1', port: smtp.port, user: 'kiosk', password: 'secret', allowInsecureAuth: true, timeoutMs: 5000 },
+      { from: 'kiosk@example.com', to: ['staff@example.com'], subject: 'Test', text: 'Hello' }
+    );
+    const verbs = smtp.commands.map(command => command.split(/[ :]/)[0]);
+    check('SMTP exchange completed', verbs.join(',') === 'EHLO,AUTH,MAIL,RCPT,DATA,QUIT', verbs.join(','));
+    check('envelope addresses sent',
+      smtp.commands.includes('MAIL FROM:<kiosk@example.com>') && smtp.commands.includes('RCPT TO:<staff@example.com>'));
+  } catch (error) {
+    check('SMTP exchange completed', false, error instanceof Error ? error.message : String(error));
+  } finally {
+    smtp.close();
+  }
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+import { NextRequest } from 'next/server';
+import type { RecognitionStreamEvent } from '../lib/voice-stream';
+import { FakeVoiceProvider } from '../mastra/voice/fake-voice-provider';
+import { LocalVoiceProvider } from '../mastra/voice/local-voice-provider';
+import { RecognitionSessionRegistry } from '../mastra/voice/recognition-sessions';
+import { RoutedVoiceProvider } from '../mastra/voice/routed-voice-provider';
+import { StreamingRecognitionResult, VoiceProvider } from '../mastra/voice/voice-provider';
+
+/**
+ * Offline checks for streaming recognition: session registry events,
+ * buffered fallback for providers without streaming, and /api/voice/stream
+ * served by the fake provider.
+ * Run: npx tsx src/test/test-streaming-recognition.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+/** Stops listening after the first frame, like Google's single-utterance mode */
+class EndpointingVoiceProvider extends FakeVoiceProvider {
+  async *streamingSpeechToText(audio: AsyncIterable<Uint8Array>): AsyncIterable<StreamingRecognitionResult> {
+    for await (const _chunk of audio) {
+      yield { transcript: 'hello', isFinal: false };
+      yield { transcript: '', isFinal: false, endOfUtterance: true };
+      yield { transcript: 'hello there', isFinal: true, confidence: 0.9 };
+      return;
+    }
+  }
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+async function main() {
+  console.log('Streaming Recognition Test');
+  console.log('='.repeat(50));
+
+  // Session registry
+  const registry = new RecognitionSessionRegistry(1000);
+  const session = registry.open(new FakeVoiceProvider({ en: 'Tell me about the cafe' }), 'en');
+  const ready = (await session.next()).value as RecognitionStreamEvent;
+  const streamId = ready.type === 'ready' ? ready.streamId : '';
+  check('first event is ready', !!streamId && registry.size() === 1);
+  check('accepts audio', registry.pushAudio(streamId, new Uint8Array([1, 2, 3])));
+  registry.end(streamId);
+  const events = await collect(session);
+  const partials = events.filter(event => event.type === 'partial');
+  const final = events.find(event => event.type === 'final');
+  check('yields partial transcripts', partials.length === 4, JSON.stringify(partials));
+  check('yields final transcript', final?.type === 'final' && final.transcript === 'Tell me about the cafe');
+  check('closes the session', registry.size() === 0 && !registry.pushAudio(streamId, new Uint8Array([1])));
+
+  // Endpointing stops audio intake
+  const endpointing = registry.open(new EndpointingVoiceProvider(), 'en');
+  const endpointReady = (await endpointing.next()).value as RecognitionStreamEvent;
+  const endpointId = endpointReady.type === 'ready' ? endpointReady.streamId : '';
+  registry.pushAudio(endpointId, new Uint8Array([1]));
+  const endpointEvents: RecognitionStreamEvent[] = [];
+  for await (const event of endpointing) {
+    endpointEvents.push(event);
+    if (event.type === 'endpoint') {
+      check('rejects audio after endpoint', !registry.pushAudio(endpointId, new Uint8Array([2])));
+    }
+  }
+  check('reports endpoint', endpointEvents.map(event => event.type).join() === 'partial,endpoint,final', endpointEvents.map(event => event.type).join());
+
+  // Idle sessions end their audio
+  const idle = registry.open(new FakeVoiceProvider({ ja: 'こんにちは' }), 'ja');
+  await idle.next();
+  const idleEvents = await collect(idle);
+  check('idle timeout finalises', idleEvents.some(event => event.type === 'final'));
+
+  // Providers without streaming recognise the buffered audio once
+  const local = new LocalVoiceProvider();
+  local.speechToText = async (audioBase64: string) => ({
+    success: true,
+    transcript: Buffer.from(audioBase64, 'base64').toString(),
+    confidence: 0.9,
+  });
+  const routed = new RoutedVoiceProvider({ provider: 'local', languages: {} }, (): VoiceProvider => local);
+  async function* frames() {
+    yield Buffer.from('hel');
+    yield Buffer.from('lo');
+  }
+  const buffered = await collect(routed.streamingSpeechToText(frames(), 'en'));
+  check('buffers audio for non-streaming providers', buffered.length === 1 && buffered[0].isFinal && buffered[0].transcript === 'hello', JSON.stringify(buffered));
+
+  // /api/voice/stream without network
+  process.env.VOICE_PROVIDER = 'fake';
+  process.env.EMBEDDING_PROVIDER = 'local';
+  process.env.GOOGLE_GENERATIVE_AI_API_KEY = process.env.GOOGLE_GENERATIVE_AI_API_KEY || 'offline-test';
+  const { POST } = await import('../app/api/voice/stream/route');
+  const { readVoiceStream } = await import('../lib/voice-stream');
+  const call = (body: Record<string, unknown>) => POST(new NextRequest('http://localhost/api/voice/stream', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+
+  const start = await call({ action: 'start', language: 'ja' });
+  const routeEvents = readVoiceStream<RecognitionStreamEvent>(start);
+  const routeReady = (await routeEvents.next()).value as RecognitionStreamEvent;
+  const routeStreamId = routeReady?.type === 'ready' ? routeReady.streamId : '';
+  check('start streams ready', start.headers.get('Content-Type') === 'application/x-ndjson' && !!routeStreamId);
+
+  const audio = await call({ action: 'audio', streamId: routeStreamId, audioData: Buffer.from('audio').toString('base64') });
+  check('audio accepted', audio.status === 200);
+  const unknown = await call({ action: 'audio', streamId: 'missing', audioData: 'AA==' });
+  check('unknown session is gone', unknown.status === 410);
+
+  await call({ action: 'end', streamId: routeStreamId });
+  const routeFinal = (await collect(routeEvents)).find(event => event.type === 'final');
+  check('final transcript over the route', routeFinal?.type === 'final' && routeFinal.transcript === 'エンジニアカフェについて教えてください', JSON.stringify(routeFinal));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+import { getAudioDuration } from '../lib/audio/audio-duration';
+import {
+  buildVisemeTimeline,
+  buildVisemeTimelineFromMarks,
+  findVisemeFrame,
+  splitIntoMarkSegments,
+  VisemeTimeline,
+} from '../lib/viseme-timeline';
+import { createSilentWav, FakeVoiceProvider } from '../mastra/voice/fake-voice-provider';
+import { RoutedVoiceProvider } from '../mastra/voice/routed-voice-provider';
+
+/**
+ * Viseme timelines: kana and English mapped to mouth shapes, spread over a
+ * clip or pinned to SSML mark timepoints, frame lookup during playback,
+ * WAV/MP3 duration parsing and timelines attached to TTS results.
+ * Run: npx tsx src/test/test-viseme-timeline.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+/** Shapes at the start of each open mora, skipping the narrowing keyframes */
+function vowels(timeline: VisemeTimeline): string {
+  return timeline.frames
+    .filter((frame, index) => {
+      const previous = timeline.frames[index - 1];
+      return frame.mouthShape !== 'Closed' && !(previous && previous.mouthShape === frame.mouthShape && frame.mouthOpen < previous.mouthOpen);
+    })
+    .map(frame => frame.mouthShape)
+    .join('');
+}
+
+function sorted(timeline: VisemeTimeline): boolean {
+  return timeline.frames.every((frame, index) =>
+    frame.time >= 0 && frame.time <= timeline.duration && (index === 0 || frame.time >= timeline.frames[index - 1].time));
+}
+
+/** MPEG-2 Layer III, 32 kbps, 24 kHz mono: 96-byte frames of 576 samples */
+function createMp3(frames: number, withId3: boolean): Buffer {
+  const frame = Buffer.alloc(96);
+  frame.set([0xff, 0xf3, 0x44, 0xc4]);
+  const id3 = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x05, 0, 0, 0, 0, 0]);
+  const parts = withId3 ? [id3] : [];
+  for (let i = 0; i < frames; i++) parts.push(frame);
+  return Buffer.concat(parts);
+}
+
+async function main() {
+  console.log('Viseme Timeline Test');
+  console.log('='.repeat(50));
+
+  // Japanese
+  check('kana rows map to their vowels', vowels(buildVisemeTimeline('かきくけこ', 1)) === 'AIUEO');
+  check('katakana matches hiragana', vowels(buildVisemeTimeline('カキクケコ', 1)) === 'AIUEO');
+  check('small kana fold into one mora', vowels(buildVisemeTimeline('きゃきゅきょ', 1)) === 'AUO');
+  const nasal = buildVisemeTimeline('さん', 1);
+  check('ん closes the mouth for a mora',
+    nasal.frames[2].mouthShape === 'Closed' && Math.abs(nasal.frames[2].time - 0.5) < 0.01);
+  check('long vowel mark repeats the vowel', vowels(buildVisemeTimeline('コーヒー', 1)) === 'OOII');
+  const kanji = buildVisemeTimeline('東京', 1);
+  check('kanji without reading still move the mouth', vowels(kanji).length === 4);
+
+  // English
+  check('English vowel groups', vowels(buildVisemeTimeline('hello', 1)) === 'EO', vowels(buildVisemeTimeline('hello', 1)));
+  check('silent final e skipped', vowels(buildVisemeTimeline('make', 1)) === 'A');
+  check('digraph vowels', vowels(buildVisemeTimeline('good food', 1)) === 'UU');
+  const bilabial = buildVisemeTimeline('map', 1);
+  check('lips close before vowel after m', bilabial.frames[0].mouthShape === 'Closed' && bilabial.frames[1].mouthShape === 'A');
+
+  // Timing
+  const timeline = buildVisemeTimeline('こんにちは、エンジニアカフェです。', 3.2);
+  check('timeline from text', timeline.source === 'text' && timeline.duration === 3.2);
+  check('frames sorted and inside the clip', sorted(timeline));
+  const last = timeline.frames[timeline.frames.length - 1];
+  check('ends with a closed mouth at the end of the clip', last.mouthShape === 'Closed' && last.time === 3.2);
+  const comma = buildVisemeTimeline('か、か', 4);
+  check('punctuation pauses close the mouth', findVisemeFrame(comma, 2)!.mouthShape === 'Closed');
+  check('empty text is a closed mouth', buildVisemeTimeline('', 1).frames.length === 1);
+
+  // Marks
+  const segments = splitIntoMarkSegments('今日は東京に行きます。Thank you very much');
+  check('segments rebuild the text', segments.join('') === '今日は東京に行きます。Thank you very much');
+  check('segments split at kana to kanji and spaces',
+    segments.join('|') === '今日は|東京に|行きます。|Thank |you |very |much', segments.join('|'));
+  check('no split inside kanji compounds', splitIntoMarkSegments('図書館利用案内').length === 1);
+
+  const marked = buildVisemeTimelineFromMarks(['かか', 'きき'], [0.1, 1.0], 2);
+  check('timeline from marks', marked.source === 'ssml-marks');
+  check('first segment starts at its mark', marked.frames[0].time === 0.1 && marked.frames[0].mouthShape === 'A');
+  check('second segment starts at its mark',
+    findVisemeFrame(marked, 1.0)!.mouthShape === 'I' && findVisemeFrame(marked, 0.99)!.mouthShape === 'A');
+  const merged = buildVisemeTimelineFromMarks(['か', 'き', 'く'], [0, undefined, 1], 2);
+  check('segment without timepoint merged into previous',
+    vowels(merged) === 'AIU' && findVisemeFrame(merged, 0.5)!.mouthShape === 'I');
+  check('nothing before the first frame', findVisemeFrame(marked, 0.05) === null);
+
+  // Duration
+  check('WAV duration', Math.abs((getAudioDuration(createSilentWav(500)) || 0) - 0.5) < 0.001);
+  check('MP3 duration', Math.abs((getAudioDuration(createMp3(100, false)) || 0) - 2.4) < 0.001);
+  check('MP3 duration after ID3 tag', Math.abs((getAudioDuration(createMp3(50, true)) || 0) - 1.2) < 0.001);
+  check('unknown audio has no duration', getAudioDuration(Buffer.from('not audio at all')) === null);
+
+  // TTS results
+  const router = new RoutedVoiceProvider({ provider: 'fake', languages: {} }, () => new FakeVoiceProvider());
+  const tts = await router.textToSpeech('ありがとうございます', 'ja');
+  check('TTS result carries a timeline', tts.visemes?.source === 'text' && Math.abs((tts.visemes?.duration || 0) - 0.2) < 0.001);
+  check('TTS timeline follows the text', vowels(tts.visemes!) === 'AIAOUOAIAU', vowels(tts.visemes!));
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,194 @@
+import { encodeQrCode, QrCode, qrCodeSvgPath } from '../lib/qr-code';
+import {
+  DEFAULT_VISITOR_RETENTION_DAYS,
+  getVisitorRetentionDays,
+  InMemoryVisitorStore,
+  parseVisitorCode,
+  VISITOR_CONSENT_VERSION,
+  VisitorError,
+  visitorQrPayload,
+  visitorReadBackMessage,
+  VisitorRegistrationService,
+  visitorWelcomeMessage,
+} from '../lib/visitor-registration';
+
+/**
+ * Visitor registration: consent required, details cleaned, unique visitor
+ * codes, returning visitors checked in by typed code or QR payload, consent
+ * renewal, arrival notices for reception, linked conversation sessions,
+ * retention purge, what the avatar says, and the QR encoder's structure.
+ * Run: npx tsx src/test/test-visitor-registration.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+async function expectVisitorError(promise: Promise<unknown>, status: number): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof VisitorError && error.status === status;
+  }
+}
+
+/** Format information from the copy around the top-left finder */
+function readFormatBits(qr: QrCode): number {
+  const { modules } = qr;
+  const positions: Array<[number, number]> = [];
+  for (let i = 0; i <= 5; i++) positions.push([8, i]);
+  positions.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) positions.push([14 - i, 8]);
+  return positions.reduce((bits, [x, y], i) => bits | ((modules[y][x] ? 1 : 0) << i), 0) ^ 0x5412;
+}
+
+function hasFinder(qr: QrCode, left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.min(dx, dy, 6 - dx, 6 - dy);
+      if (qr.modules[top + dy][left + dx] !== (ring !== 1)) return false;
+    }
+  }
+  return true;
+}
+
+async function main() {
+  console.log('Visitor Registration Test');
+  console.log('='.repeat(50));
+
+  // Codes
+  check('QR payload parses back', parseVisitorCode(visitorQrPayload('EC-7K2M9QXA')) === 'EC-7K2M9QXA');
+  check('typed code tolerates case, spaces and look-alikes', parseVisitorCode(' ec 7k2m 9qxa ') === 'EC-7K2M9QXA'
+    && parseVisitorCode('EC-OIL00000') === 'EC-01100000');
+  check('code without prefix accepted', parseVisitorCode('7K2M9QXA') === 'EC-7K2M9QXA');
+  check('malformed codes rejected', parseVisitorCode('EC-123') === null
+    && parseVisitorCode('https://example.com/visitor') === null
+    && parseVisitorCode('EC-7K2M9QXU') === null);
+
+  // Register
+  const store = new InMemoryVisitorStore();
+  const service = new VisitorRegistrationService(store, { retentionDays: 30, location: '1F Kiosk' });
+
+  check('registration without consent rejected',
+    await expectVisitorError(service.register({ name: 'Taro', language: 'ja', consent: false }), 400));
+  check('registration without a name rejected',
+    await expectVisitorError(service.register({ name: '  ', language: 'ja', consent: true }), 400));
+
+  const registered = await service.register({
+    name: '  山田\n太郎 ',
+    affiliation: 'Fukuoka Tech',
+    purpose: '',
+    language: 'ja',
+    consent: true,
+  });
+  const { visitor } = registered;
+  check('details cleaned', visitor.name === '山田 太郎' && visitor.affiliation === 'Fukuoka Tech' && visitor.purpose === null);
+  check('visitor code issued', parseVisitorCode(visitor.visitorCode) === visitor.visitorCode, visitor.visitorCode);
+  check('consent recorded', visitor.consentVersion === VISITOR_CONSENT_VERSION && !!visitor.consentedAt);
+  check('first visit counted', visitor.visitCount === 1 && !registered.returning);
+  check('conversation session linked to visitor',
+    !!registered.conversationSessionId && store.conversations.get(registered.conversationSessionId) === visitor.id);
+  check('arrival notice for reception',
+    registered.arrival.visitorId === visitor.id
+      && registered.arrival.location === '1F Kiosk'
+      && registered.arrival.returning === false
+      && registered.arrival.name === '山田 太郎');
+
+  const long = await service.register({ name: 'x'.repeat(300), language: 'en', consent: true });
+  check('long names truncated', long.visitor.name.length === 100);
+  check('codes are unique', long.visitor.visitorCode !== visitor.visitorCode);
+
+  // Check in
+  const back = await service.checkIn({ code: visitorQrPayload(visitor.visitorCode), language: 'en' });
+  check('returning visitor recognised by QR payload',
+    back.returning && back.visitor.id === visitor.id && back.visitor.visitCount === 2);
+  check('arrival marks returning visitor', back.arrival.returning && back.arrival.visitCount === 2 && back.arrival.language === 'en');
+  check('each visit gets its own session', back.conversationSessionId !== registered.conversationSessionId);
+  const typed = await service.checkIn({ code: visitor.visitorCode.toLowerCase().replace('-', ' '), language: 'ja' });
+  check('returning visitor recognised by typed code', typed.visitor.visitCount === 3);
+  check('unknown code is 404', await expectVisitorError(service.checkIn({ code: 'EC-00000000', language: 'ja' }), 404));
+  check('invalid code is 400', await expectVisitorError(service.checkIn({ code: 'hello', language: 'ja' }), 400));
+
+  // Consent renewal
+  const old = await store.create({
+    visitorCode: 'EC-AAAAAAAA',
+    name: 'Hanako',
+    affiliation: null,
+    purpose: null,
+    language: 'ja',
+    consentVersion: '2024-01',
+    consentedAt: '2024-01-01T00:00:00.000Z',
+  });
+  check('outdated consent needs renewing',
+    await expectVisitorError(service.checkIn({ code: 'EC-AAAAAAAA', language: 'ja' }), 409));
+  check('visit not counted without renewed consent', (await store.get(old!.id))!.visitCount === 1);
+  const renewed = await service.checkIn({ code: 'EC-AAAAAAAA', language: 'ja', consent: true });
+  check('renewed consent recorded', renewed.visitor.consentVersion === VISITOR_CONSENT_VERSION && renewed.visitor.visitCount === 2);
+
+  // Admin
+  check('list searches name and code',
+    (await service.list({ search: '山田' })).length === 1 && (await service.list({ search: 'ec-aaaa' })).length === 1);
+  await service.delete(long.visitor.id);
+  check('visitor deleted', (await store.get(long.visitor.id)) === null);
+  check('deleting twice is 404', await expectVisitorError(service.delete(long.visitor.id), 404));
+
+  // Retention
+  const stale = await store.create({ ...old!, visitorCode: 'EC-BBBBBBBB', consentVersion: VISITOR_CONSENT_VERSION });
+  await store.recordVisit(stale!.id, new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString());
+  const purged = await service.purgeExpired();
+  check('visitors past retention purged', purged === 1 && (await store.get(stale!.id)) === null);
+  check('recent visitors kept', (await store.get(visitor.id)) !== null);
+
+  const previous = process.env.VISITOR_RETENTION_DAYS;
+  process.env.VISITOR_RETENTION_DAYS = 'forever';
+  check('invalid retention falls back to default', getVisitorRetentionDays() === DEFAULT_VISITOR_RETENTION_DAYS);
+  process.env.VISITOR_RETENTION_DAYS = '90';
+  check('retention from environment', getVisitorRetentionDays() === 90);
+  if (previous === undefined) delete process.env.VISITOR_RETENTION_DAYS;
+  else process.env.VISITOR_RETENTION_DAYS = previous;
+
+  // Messages
+  const readBack = visitorReadBackMessage({ name: '山田太郎', affiliation: 'Fukuoka Tech', purpose: '' }, 'ja');
+  check('read-back names the details', readBack.includes('山田太郎様') && readBack.includes('Fukuoka Tech') && !readBack.includes('ご用件'));
+  check('read-back asks for confirmation in English',
+    visitorReadBackMessage({ name: 'Taro' }, 'en').endsWith('Is that correct?[/neutral]'));
+  check('welcome back message for returning visitors', visitorWelcomeMessage(back, 'en').includes('Welcome back, 山田 太郎'));
+  check('new visitors told about the QR code', visitorWelcomeMessage(registered, 'ja').includes('QRコード'));
+
+  // QR code
+  const qr = encodeQrCode(visitorQrPayload('EC-7K2M9QXA'));
+  check('visitor QR fits version 3', qr.version === 3 && qr.size === 29 && qr.modules.length === 29);
+  check('finder patterns in three corners',
+    hasFinder(qr, 0, 0) && hasFinder(qr, qr.size - 7, 0) && hasFinder(qr, 0, qr.size - 7));
+  check('dark module set', qr.modules[qr.size - 8][8]);
+  const format = readFormatBits(qr);
+  check('format bits carry level M and the chosen mask', (format >> 10) === qr.mask, format.toString(2));
+  check('forced mask used', encodeQrCode('hi', 5).mask === 5 && (readFormatBits(encodeQrCode('hi', 5)) >> 10) === 5);
+  check('14 bytes fit version 1', encodeQrCode('x'.repeat(14)).version === 1 && encodeQrCode('x'.repeat(15)).version === 2);
+  check('150 bytes need version 8', encodeQrCode('x'.repeat(150)).version === 8);
+  let tooLong = false;
+  try {
+    encodeQrCode('x'.repeat(300));
+  } catch (error) {
+    tooLong = true;
+  }
+  check('text beyond version 10 rejected', tooLong);
+  check('SVG path offset by the quiet zone', qrCodeSvgPath(qr).startsWith('M4 4h1v1h-1z'));
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import { FakeVoiceProvider } from '../mastra/voice/fake-voice-provider';
+import { RoutedVoiceProvider } from '../mastra/voice/routed-voice-provider';
+import { VoiceProvider, VoiceProviderName, getVoiceProviderConfig } from '../mastra/voice/voice-provider';
+
+/**
+ * Offline checks for the voice provider layer: config resolution, per-language
+ * routing, fallback on failure, and /api/voice served by the fake provider.
+ * Run: npx tsx src/test/test-voice-provider.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+class FailingVoiceProvider extends FakeVoiceProvider {
+  async speechToText() {
+    return { success: false, error: 'service unavailable' };
+  }
+}
+
+async function main() {
+  console.log('Voice Provider Test');
+  console.log('='.repeat(50));
+
+  // Config resolution
+  const defaults = getVoiceProviderConfig({} as NodeJS.ProcessEnv);
+  check('defaults to google', defaults.provider === 'google' && !defaults.fallback);
+  const perLanguage = getVoiceProviderConfig({
+    VOICE_PROVIDER: 'google',
+    VOICE_PROVIDER_EN: 'Local',
+    VOICE_FALLBACK_PROVIDER: 'fake',
+  } as unknown as NodeJS.ProcessEnv);
+  check('reads per-language provider', perLanguage.languages.en === 'local' && !perLanguage.languages.ja);
+  check('reads fallback provider', perLanguage.fallback === 'fake');
+  let rejected = false;
+  try {
+    getVoiceProviderConfig({ VOICE_PROVIDER: 'azure' } as unknown as NodeJS.ProcessEnv);
+  } catch {
+    rejected = true;
+  }
+  check('rejects unknown provider', rejected);
+
+  // Routing and fallback
+  const created: VoiceProviderName[] = [];
+  const routed = new RoutedVoiceProvider(
+    { provider: 'google', languages: { en: 'fake' }, fallback: 'fake' },
+    (name): VoiceProvider => {
+      created.push(name);
+      return name === 'fake' ? new FakeVoiceProvider({ en: 'hello' }) : new FailingVoiceProvider();
+    }
+  );
+  const english = await routed.speechToText('', 'en');
+  check('routes by language', english.success && english.transcript === 'hello' && created.join() === 'fake', created.join());
+  const japanese = await routed.speechToText('', 'ja');
+  check('falls back when primary fails', japanese.success && created.join() === 'fake,google', created.join());
+
+  // /api/voice without network. The navigator builds every agent and tool, so
+  // use local embeddings and a placeholder Gemini key that is never called.
+  process.env.VOICE_PROVIDER = 'fake';
+  process.env.EMBEDDING_PROVIDER = 'local';
+  process.env.GOOGLE_GENERATIVE_AI_API_KEY = process.env.GOOGLE_GENERATIVE_AI_API_KEY || 'offline-test';
+  const { POST } = await import('../app/api/voice/route');
+  const call = async (body: Record<string, unknown>) => {
+    const response = await POST(new NextRequest('http://localhost/api/voice', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }));
+    return { status: response.status, json: await response.json() };
+  };
+
+  const stt = await call({ action: 'speech_to_text', audioData: Buffer.from('audio').toString('base64'), language: 'ja' });
+  check('/api/voice speech_to_text', stt.status === 200 && stt.json.transcript === 'エンジニアカフェについて教えてください', JSON.stringify(stt.json));
+
+  const tts = await call({ action: 'text_to_speech', text: 'こんにちは' });
+  const audio = Buffer.from(tts.json.audioResponse || '', 'base64');
+  check('/api/voice text_to_speech returns WAV', tts.status === 200 && audio.toString('ascii', 0, 4) === 'RIFF', `${audio.length} bytes`);
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+import { StreamingTextChunker, TextChunk, TextChunker } from '../lib/text-chunker';
+import { EmotionTagParser } from '../lib/emotion-tag-parser';
+import { createVoiceStreamBody, readVoiceStream, VoiceStreamEvent } from '../lib/voice-stream';
+
+/**
+ * Streaming voice responses: the incremental text chunker fed token by token,
+ * emotion tagging of streamed answers, and the NDJSON encoder / reader,
+ * including lines and characters split across network reads and the error
+ * event that replaces a failed stream.
+ * Run: npx tsx src/test/test-voice-stream.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+/** Feed text to a streaming chunker a few characters at a time */
+function chunkIncrementally(text: string, size: number, chunker = new StreamingTextChunker('ja')) {
+  const early: TextChunk[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    early.push(...chunker.push(text.slice(i, i + size)));
+  }
+  return { early, all: [...early, ...chunker.flush()], chunker };
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+/** A Response whose body arrives in the given byte slices */
+function responseFromParts(parts: Uint8Array[]): Response {
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(part));
+      controller.close();
+    },
+  }));
+}
+
+async function main() {
+  console.log('🎙️ Voice streaming');
+  console.log('='.repeat(50));
+
+  // Sentence chunking of token deltas
+  const answer = '[happy]エンジニアカフェへようこそ！営業時間は9時から22時までです。[relaxed]地下の集中スペースは予約なしで使えます。';
+  const { early, all, chunker } = chunkIncrementally(answer, 3);
+  const whole = TextChunker.chunkText(answer, 'ja');
+  check('streamed chunks match chunking the whole text',
+    all.map(chunk => chunk.text).join('|') === whole.map(chunk => chunk.text).join('|'),
+    all.map(chunk => chunk.text).join(' | '));
+  check('finished sentences are released before the end', early.length > 0 && early.length < all.length,
+    `${early.length} of ${all.length}`);
+  check('only the flushed chunk is last', all.filter(chunk => chunk.isLast).length === 1 && all[all.length - 1].isLast);
+  check('indexes are sequential', all.every((chunk, index) => chunk.index === index));
+  check('emotion tags are carried to the chunk', all[0].emotion === 'happy'
+    && all.some(chunk => chunk.emotion === 'relaxed'), all.map(chunk => chunk.emotion).join(','));
+  check('no tag text is spoken', all.every(chunk => !/[[\]]/.test(chunk.text)));
+  check('full text keeps the tags', chunker.getText() === answer);
+
+  const cut = new StreamingTextChunker('ja');
+  const beforeTag = cut.push('最初の文です。次の文[rel');
+  const afterTag = cut.push('axed]はここから。');
+  const cutAll = [...beforeTag, ...afterTag, ...cut.flush()];
+  check('a tag split across deltas is not spoken', cutAll.every(chunk => !chunk.text.includes('[')),
+    cutAll.map(chunk => chunk.text).join(' | '));
+
+  const english = chunkIncrementally('Welcome to Engineer Cafe. We are open from nine to ten. Ask the staff anything!', 4,
+    new StreamingTextChunker('en')).all;
+  check('English sentences are chunked', english.length >= 2 && english.every(chunk => chunk.text.trim().length > 0),
+    english.map(chunk => chunk.text).join(' | '));
+  check('empty stream gives no chunks', new StreamingTextChunker('ja').flush().length === 0);
+
+  // Emotion tags on streamed answers
+  const untagged = await collect(EmotionTagParser.enhanceAgentStream(fromArray(['', ' ', '営業時間は', '9時からです。']), 'qa'));
+  check('untagged answer is wrapped like enhanceAgentResponse',
+    untagged.join('') === EmotionTagParser.enhanceAgentResponse(' 営業時間は9時からです。', 'qa'), untagged.join(''));
+  check('opening tag comes with the first text', untagged[0].startsWith('[neutral]'));
+  const tagged = await collect(EmotionTagParser.enhanceAgentStream(fromArray(['[hap', 'py]ようこそ！', '[/happy]']), 'qa'));
+  check('tagged answer passes through', tagged.join('') === '[happy]ようこそ！[/happy]', tagged.join(''));
+  check('blank answer stays blank', (await collect(EmotionTagParser.enhanceAgentStream(fromArray([' ', '\n']), 'qa'))).length === 0);
+
+  // NDJSON encoder and reader
+  const events: VoiceStreamEvent[] = [
+    { type: 'transcript', transcript: '営業時間は？' },
+    { type: 'chunk', text: '営業時間は9時から22時までです。', emotion: 'happy', index: 0, isLast: true },
+    { type: 'done', transcript: '営業時間は？', response: '営業時間は9時から22時までです。', shouldUpdateCharacter: true },
+  ];
+  const encoded = new Uint8Array(await new Response(createVoiceStreamBody(fromArray(events))).arrayBuffer());
+  const lines = new TextDecoder().decode(encoded).split('\n');
+  check('one JSON line per event', lines.length === events.length + 1 && lines[events.length] === '',
+    `${lines.length - 1} lines`);
+
+  // Split every few bytes, cutting through multibyte characters and lines
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < encoded.length; i += 5) {
+    parts.push(encoded.slice(i, i + 5));
+  }
+  const decoded = await collect(readVoiceStream(responseFromParts(parts)));
+  check('reader reassembles split multibyte input', JSON.stringify(decoded) === JSON.stringify(events),
+    JSON.stringify(decoded[1]));
+
+  const unterminated = new TextEncoder().encode('{"type":"transcript","transcript":"こんにちは"}\n\n{"type":"endpoint"}');
+  const tail = await collect(readVoiceStream<{ type: string }>(responseFromParts([unterminated])));
+  check('blank lines are skipped and a final line without newline is read',
+    tail.length === 2 && tail[1].type === 'endpoint', JSON.stringify(tail));
+
+  // Errors after the response has started become an error event
+  async function* failing(): AsyncGenerator<VoiceStreamEvent> {
+    yield { type: 'transcript', transcript: 'hello' };
+    throw new Error('TTS backend down');
+  }
+  const originalError = console.error;
+  console.error = () => {};
+  const failed = await collect(readVoiceStream(new Response(createVoiceStreamBody(failing()))));
+  console.error = originalError;
+  const last = failed[failed.length - 1];
+  check('failure ends the stream with an error event',
+    failed.length === 2 && last.type === 'error' && last.error === 'TTS backend down', JSON.stringify(failed));
+
+  let returned = false;
+  async function* endless(): AsyncGenerator<VoiceStreamEvent> {
+    try {
+      while (true) {
+        yield { type: 'transcript', transcript: '...' };
+      }
+    } finally {
+      returned = true;
+    }
+  }
+  const reader = createVoiceStreamBody(endless()).getReader();
+  await reader.read();
+  await reader.cancel();
+  check('cancelling the body stops the generator', returned);
+
+  console.log('='.repeat(50));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
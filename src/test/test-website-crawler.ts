@@ -0,0 +1,260 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { isPathAllowed, parseRobotsTxt, parseSitemap, WebsiteCrawler } from '../lib/external-apis/website-crawler';
+import { chunkMarkdown, detectContentLanguage, extractMainContent } from '../lib/website-content';
+import {
+  StoredWebsitePage,
+  WebsiteKnowledgeSync,
+  WebsitePage,
+  WebsitePageStore,
+} from '../jobs/website-sync';
+
+/**
+ * Website crawler and knowledge sync against a local fixture HTTP server:
+ * robots.txt, sitemap discovery, conditional requests, rate limiting,
+ * extraction and retiring removed pages.
+ * Run: npx tsx src/test/test-website-crawler.ts
+ */
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: string) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}${details ? ` - ${details}` : ''}`);
+}
+
+const page = (lang: string, title: string, main: string) => `<!DOCTYPE html>
+<html lang="${lang}">
+<head><title>${title}</title><style>body { color: red; }</style></head>
+<body>
+  <header><nav><a href="/ja/">ホーム</a> <a href="/en/">English</a></nav></header>
+  <main>${main}</main>
+  <footer>© Engineer Cafe</footer>
+  <script>console.log('tracking');</script>
+</body>
+</html>`;
+
+const HOURS_JA = page('ja', '利用案内 | エンジニアカフェ', `
+  <h1>利用案内</h1>
+  <p>営業時間は<strong>9:00〜22:00</strong>です。</p>
+  <h2>休館日</h2>
+  <ul><li>毎月最終月曜日</li><li>年末年始（12/29〜1/3）</li></ul>
+  <table><tr><th>エリア</th><th>料金</th></tr><tr><td>コワーキング</td><td>無料</td></tr></table>`);
+
+const HOURS_EN = page('en', 'Guide | Engineer Cafe', `
+  <h1>Guide</h1>
+  <p>Open from 9:00 to 22:00 &amp; free of charge.</p>
+  <h2>Closed days</h2>
+  <p>The last Monday of each month.</p>`);
+
+const NOTICE_V1 = page('ja', 'お知らせ', '<h1>お知らせ</h1><p>6月の休館日は6月30日です。</p>');
+const NOTICE_V2 = page('ja', 'お知らせ', '<h1>お知らせ</h1><p>7月の休館日は7月28日です。</p>');
+
+interface Route {
+  status?: number;
+  body: string;
+  type?: string;
+  etag?: string;
+}
+
+let routes: Record<string, Route> = {};
+const requests: Array<{ path: string; userAgent?: string; ifNoneMatch?: string }> = [];
+
+const server = http.createServer((req, res) => {
+  const path = req.url || '/';
+  requests.push({
+    path,
+    userAgent: req.headers['user-agent'],
+    ifNoneMatch: req.headers['if-none-match'] as string | undefined,
+  });
+
+  const route = routes[path];
+  if (!route) {
+    res.writeHead(404, { 'Content-Type': 'text/html' });
+    res.end('<h1>Not found</h1>');
+    return;
+  }
+  if (route.etag && req.headers['if-none-match'] === route.etag) {
+    res.writeHead(304, { ETag: route.etag });
+    res.end();
+    return;
+  }
+  res.writeHead(route.status || 200, {
+    'Content-Type': route.type || 'text/html; charset=utf-8',
+    ...(route.etag ? { ETag: route.etag } : {}),
+  });
+  res.end(route.body);
+});
+
+class MemoryPageStore implements WebsitePageStore {
+  pages = new Map<string, WebsitePage>();
+  saves: string[] = [];
+  touches: string[] = [];
+
+  async listPages(): Promise<StoredWebsitePage[]> {
+    return Array.from(this.pages.values());
+  }
+
+  async savePage(page: WebsitePage) {
+    this.saves.push(page.url);
+    this.pages.set(page.url, page);
+  }
+
+  async touchPage(url: string, validators: { etag: string | null; lastModified: string | null }) {
+    this.touches.push(url);
+    const stored = this.pages.get(url)!;
+    this.pages.set(url, { ...stored, ...validators });
+  }
+
+  async retirePage(url: string) {
+    this.pages.delete(url);
+  }
+}
+
+async function main() {
+  console.log('Website Crawler Test');
+  console.log('='.repeat(50));
+
+  // Parsing helpers
+  const robots = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /admin/',
+    'Allow: /admin/public',
+    'Disallow: /*.pdf$',
+    '',
+    'User-agent: EngineerCafeNavigator',
+    'Disallow: /private/',
+    'Crawl-delay: 2',
+    '',
+    'Sitemap: https://example.com/sitemap.xml',
+  ].join('\n'));
+  check('robots picks our user-agent group', robots.disallow.join() === '/private/' && robots.crawlDelay === 2);
+  check('robots collects sitemaps', robots.sitemaps.join() === 'https://example.com/sitemap.xml');
+  const generic = parseRobotsTxt('User-agent: *\nDisallow: /admin/\nAllow: /admin/public\nDisallow: /*.pdf$', 'OtherBot/1.0');
+  check('longest rule wins', isPathAllowed(generic, '/admin/public/a') && !isPathAllowed(generic, '/admin/secret'));
+  check('wildcard and anchor rules', !isPathAllowed(generic, '/files/a.pdf') && isPathAllowed(generic, '/files/a.pdf?x=1'));
+  check('empty robots allows everything', isPathAllowed(parseRobotsTxt(''), '/anything'));
+
+  const sitemap = parseSitemap('<urlset><url><loc>https://example.com/a?x=1&amp;y=2</loc></url></urlset>');
+  check('sitemap decodes entities', sitemap.urls.join() === 'https://example.com/a?x=1&y=2');
+
+  // Extraction and chunking
+  const extracted = extractMainContent(HOURS_JA);
+  check('extracts title and language', extracted.title === '利用案内 | エンジニアカフェ' && extracted.language === 'ja');
+  check('drops navigation, footer and scripts',
+    !extracted.markdown.includes('English') && !extracted.markdown.includes('tracking') && !extracted.markdown.includes('©'));
+  check('converts headings and lists', extracted.markdown.includes('## 休館日') && extracted.markdown.includes('- 毎月最終月曜日'));
+  check('converts tables', extracted.markdown.includes('| エリア | 料金 |\n| --- | --- |\n| コワーキング | 無料 |'), extracted.markdown);
+  check('decodes entities', extractMainContent(HOURS_EN).markdown.includes('9:00 to 22:00 & free'));
+
+  const chunks = chunkMarkdown(extracted.markdown);
+  check('chunks by heading with breadcrumb', chunks.length === 2 && chunks[1].content.startsWith('利用案内 > 休館日\n\n'),
+    chunks.map(chunk => chunk.heading).join(' | '));
+  const long = chunkMarkdown(`# Long\n\n${'この文は長いです。'.repeat(200)}`, 300);
+  check('splits long sections within budget', long.length > 1 && long.every(chunk => chunk.content.length <= 300));
+
+  check('detects Japanese', detectContentLanguage('営業時間は9:00〜22:00です。Wi-Fiは無料です。') === 'ja');
+  check('detects English with a Japanese name', detectContentLanguage('Welcome to Engineer Cafe (エンジニアカフェ) in Fukuoka, open daily.') === 'en');
+  check('mixed text uses page language', detectContentLanguage('Engineer Cafe エンジニアカフェ', 'en') === 'en');
+
+  // Crawl against the fixture server
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  routes = {
+    '/robots.txt': {
+      type: 'text/plain',
+      body: `User-agent: *\nDisallow: /ja/guide/private/\n\nSitemap: ${base}/sitemap-index.xml`,
+    },
+    '/sitemap-index.xml': {
+      type: 'application/xml',
+      body: `<sitemapindex><sitemap><loc>${base}/sitemap-pages.xml</loc></sitemap></sitemapindex>`,
+    },
+    '/sitemap-pages.xml': {
+      type: 'application/xml',
+      body: `<urlset>
+        <url><loc>${base}/ja/guide/</loc></url>
+        <url><loc>${base}/ja/guide/news/</loc></url>
+        <url><loc>${base}/ja/guide/private/staff/</loc></url>
+        <url><loc>${base}/shop/</loc></url>
+        <url><loc>https://other.example.com/ja/</loc></url>
+      </urlset>`,
+    },
+    '/ja/guide/': { body: HOURS_JA, etag: '"guide-v1"' },
+    '/ja/guide/news/': { body: NOTICE_V1 },
+    '/en/guide/': { body: HOURS_EN },
+  };
+
+  const store = new MemoryPageStore();
+  // Spacing is enforced when a request is sent, so measure it there rather
+  // than on arrival at the server, where event-loop jitter shows up
+  const sentAt: number[] = [];
+  const crawler = new WebsiteCrawler({
+    minRequestInterval: 30,
+    fetch: (input, init) => {
+      sentAt.push(Date.now());
+      return fetch(input, init);
+    },
+  });
+  const sync = new WebsiteKnowledgeSync(crawler, store);
+  const seeds = [`${base}/ja/guide/`, `${base}/en/guide/`];
+
+  const first = await sync.run(seeds);
+  const crawledPaths = requests.map(request => request.path);
+  check('reads robots.txt first', crawledPaths[0] === '/robots.txt');
+  check('follows the sitemap index', crawledPaths.includes('/sitemap-pages.xml'));
+  check('skips disallowed, off-site and out-of-scope pages',
+    !crawledPaths.includes('/ja/guide/private/staff/') && !crawledPaths.includes('/shop/'));
+  check('saves every page', first.saved === 3 && store.pages.size === 3, JSON.stringify(first));
+  check('identifies itself', requests.every(request => request.userAgent?.startsWith('EngineerCafeNavigator')));
+  // setTimeout may fire up to 1ms early against Date.now()
+  const gaps = sentAt.slice(1).map((time, index) => time - sentAt[index]);
+  check('rate limits requests', sentAt.length === requests.length && gaps.every(gap => gap >= 29), gaps.join(','));
+
+  const guide = store.pages.get(`${base}/ja/guide/`)!;
+  check('stores validators and hash', guide.etag === '"guide-v1"' && guide.contentHash.length === 64);
+  check('chunks carry language', guide.chunks.every(chunk => chunk.language === 'ja')
+    && store.pages.get(`${base}/en/guide/`)!.chunks.every(chunk => chunk.language === 'en'));
+
+  // Second run: ETag gives 304, unchanged body is not re-saved, changed body is
+  requests.length = 0;
+  routes['/ja/guide/news/'] = { body: NOTICE_V2 };
+  const second = await sync.run(seeds);
+  const guideRequest = requests.find(request => request.path === '/ja/guide/');
+  check('sends If-None-Match', guideRequest?.ifNoneMatch === '"guide-v1"');
+  check('unchanged pages are not re-saved', second.unchanged === 2 && !store.saves.slice(3).includes(`${base}/ja/guide/`)
+    && !store.saves.slice(3).includes(`${base}/en/guide/`), JSON.stringify(second));
+  check('changed page is saved again', second.saved === 1 && store.pages.get(`${base}/ja/guide/news/`)!.chunks[0].content.includes('7月28日'));
+  check('unchanged body without ETag only updates validators', store.touches.includes(`${base}/en/guide/`));
+
+  // Third run: one page removed from the sitemap, another deleted
+  routes['/sitemap-pages.xml'].body = `<urlset><url><loc>${base}/ja/guide/</loc></url></urlset>`;
+  delete routes['/en/guide/'];
+  const third = await sync.run(seeds);
+  check('retires deleted and unlisted pages', third.retired === 2 && store.pages.size === 1
+    && store.pages.has(`${base}/ja/guide/`), JSON.stringify(third));
+
+  // Fourth run: sitemap unavailable, so nothing is retired for being unlisted
+  routes['/ja/guide/news/'] = { body: NOTICE_V2 };
+  await sync.run([`${base}/ja/guide/news/`]);
+  delete routes['/sitemap-index.xml'];
+  const fourth = await sync.run([`${base}/ja/guide/`]);
+  check('keeps pages when the sitemap cannot be read', fourth.retired === 0 && store.pages.size === 2, JSON.stringify(fourth));
+
+  // Server errors are reported, not retired
+  routes['/ja/guide/'] = { status: 503, body: 'busy' };
+  const fifth = await sync.run([`${base}/ja/guide/`]);
+  check('server errors keep the page', fifth.failed.length === 1 && store.pages.has(`${base}/ja/guide/`));
+
+  server.close();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Test failed:', error);
+  server.close();
+  process.exit(1);
+});
@@ -137,37 +137,55 @@ export type Database = {
       conversation_sessions: {
         Row: {
           created_at: string | null
+          end_reason: string | null
           ended_at: string | null
+          escalated: boolean
           id: string
           language: string | null
+          last_activity_at: string | null
+          message_count: number
           metadata: Json | null
           mode: string | null
+          primary_emotion: string | null
           started_at: string | null
           status: string | null
+          summary: string | null
           updated_at: string | null
           visitor_id: string | null
         }
         Insert: {
           created_at?: string | null
+          end_reason?: string | null
           ended_at?: string | null
+          escalated?: boolean
           id?: string
           language?: string | null
+          last_activity_at?: string | null
+          message_count?: number
           metadata?: Json | null
           mode?: string | null
+          primary_emotion?: string | null
           started_at?: string | null
           status?: string | null
+          summary?: string | null
           updated_at?: string | null
           visitor_id?: string | null
         }
         Update: {
           created_at?: string | null
+          end_reason?: string | null
           ended_at?: string | null
+          escalated?: boolean
           id?: string
           language?: string | null
+          last_activity_at?: string | null
+          message_count?: number
           metadata?: Json | null
           mode?: string | null
+          primary_emotion?: string | null
           started_at?: string | null
           status?: string | null
+          summary?: string | null
           updated_at?: string | null
           visitor_id?: string | null
         }
@@ -179,6 +197,8 @@ export type Database = {
           content: string
           content_embedding: string | null
           created_at: string | null
+          embedding_dimensions: number | null
+          embedding_model: string | null
           id: string
           language: string | null
           metadata: Json | null
@@ -191,6 +211,8 @@ export type Database = {
           content: string
           content_embedding?: string | null
           created_at?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
           language?: string | null
           metadata?: Json | null
@@ -203,6 +225,8 @@ export type Database = {
           content?: string
           content_embedding?: string | null
           created_at?: string | null
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
           language?: string | null
           metadata?: Json | null
@@ -1,4 +1,13 @@
-export const preprocessTTS = (text: string, lang: 'ja' | 'en'): string => {
-  const replacement = lang === 'ja' ? 'ミーティング' : 'meeting';
+import { SupportedLanguage } from '@/lib/languages';
+
+const MEETING: Partial<Record<SupportedLanguage, string>> = {
+  ja: 'ミーティング',
+  ko: '미팅',
+  'zh-CN': '会议',
+  'zh-TW': '會議',
+};
+
+export const preprocessTTS = (text: string, lang: SupportedLanguage): string => {
+  const replacement = MEETING[lang] || 'meeting';
   return text.replace(/\bMTG\b/gi, replacement);
-}; 
\ No newline at end of file
+};
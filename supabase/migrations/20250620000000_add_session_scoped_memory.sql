@@ -0,0 +1,53 @@
+-- Session-scoped short-term memory
+-- SimplifiedMemorySystem now prefixes agent_memory keys with the visitor session
+-- (e.g. 'session:<id>:message_<ts>'), so the message index is per session too.
+
+-- Atomic update of a session's message index
+CREATE OR REPLACE FUNCTION update_message_index_atomic(
+  p_agent_name varchar(100),
+  p_index_key varchar(255),
+  p_new_timestamp bigint,
+  p_max_entries int DEFAULT 100,
+  p_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_timestamps jsonb;
+  updated_timestamps jsonb;
+BEGIN
+  SELECT value->'timestamps' INTO current_timestamps
+  FROM agent_memory
+  WHERE agent_name = p_agent_name AND key = p_index_key
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(ts ORDER BY ts DESC), '[]'::jsonb) INTO updated_timestamps
+  FROM (
+    SELECT ts
+    FROM (
+      SELECT jsonb_array_elements(COALESCE(current_timestamps, '[]'::jsonb))::bigint AS ts
+      UNION ALL
+      SELECT p_new_timestamp
+    ) all_timestamps
+    ORDER BY ts DESC
+    LIMIT p_max_entries
+  ) latest;
+
+  INSERT INTO agent_memory (agent_name, key, value, expires_at)
+  VALUES (p_agent_name, p_index_key, jsonb_build_object('timestamps', updated_timestamps), p_expires_at)
+  ON CONFLICT (agent_name, key)
+  DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at, updated_at = now();
+END;
+$$;
+
+-- Prefix lookups on session-scoped keys
+CREATE INDEX IF NOT EXISTS idx_agent_memory_agent_key_pattern
+ON agent_memory (agent_name, key varchar_pattern_ops);
+
+-- Remove unscoped entries written before session isolation
+DELETE FROM agent_memory
+WHERE key LIKE 'message\_%'
+  AND agent_name IN ('RealtimeAgent', 'EnhancedQAAgent', 'QAAgent', 'WelcomeAgent');
+
+GRANT EXECUTE ON FUNCTION update_message_index_atomic TO service_role;
@@ -0,0 +1,75 @@
+-- Track which embedding model produced each knowledge_base vector
+-- Queries and stored rows must come from the same model to be comparable, so
+-- search_knowledge_base only matches rows embedded by the caller's model.
+
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS embedding_model varchar(100);
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS embedding_dimensions int;
+
+-- Backfill rows embedded before tracking so existing knowledge stays
+-- searchable. Two writers shared the 1536-dim column: KnowledgeBaseUtils stored
+-- Google text-embedding-004 vectors (768 dims written twice) and the OpenAI
+-- text-embedding-3-small vectors were stored as returned. A vector whose halves
+-- are identical is the padded Google one. Rows of any other size stay NULL and
+-- are picked up by KnowledgeBaseUtils.updateMissingEmbeddings().
+UPDATE knowledge_base
+SET
+  embedding_model = CASE
+    WHEN (content_embedding::real[])[1:768] = (content_embedding::real[])[769:1536]
+      THEN 'google:text-embedding-004'
+    ELSE 'openai:text-embedding-3-small'
+  END,
+  embedding_dimensions = 1536
+WHERE content_embedding IS NOT NULL
+  AND embedding_model IS NULL
+  AND vector_dims(content_embedding) = 1536;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_embedding_model
+ON knowledge_base (embedding_model, embedding_dimensions);
+
+DROP FUNCTION IF EXISTS search_knowledge_base(vector, float, int);
+
+CREATE OR REPLACE FUNCTION search_knowledge_base(
+  query_embedding vector,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  embedding_model_filter varchar(100) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2),
+  source varchar(255),
+  metadata jsonb,
+  embedding_model varchar(100),
+  embedding_dimensions int,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    kb.id,
+    kb.content,
+    kb.category,
+    kb.subcategory,
+    kb.language,
+    kb.source,
+    kb.metadata,
+    kb.embedding_model,
+    kb.embedding_dimensions,
+    1 - (kb.content_embedding <=> query_embedding) AS similarity
+  FROM knowledge_base kb
+  WHERE
+    kb.content_embedding IS NOT NULL
+    AND kb.embedding_model = embedding_model_filter
+    AND kb.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (kb.content_embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY kb.content_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base TO service_role;
@@ -0,0 +1,102 @@
+-- Full-text retrieval leg for hybrid (keyword + vector) knowledge base search
+-- Postgres has no Japanese parser, so content is tokenized into Latin words and
+-- overlapping bigrams of Japanese text before building the tsvector. The same
+-- rules are mirrored by tokenizeForKeywordSearch() in src/lib/hybrid-search.ts.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION kb_search_tokens(input text)
+RETURNS text[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  normalized text := lower(normalize(coalesce(input, ''), NFKC));
+  tokens text[];
+  segment text;
+  i int;
+BEGIN
+  -- Latin words and numbers stay whole ("saino", "b1")
+  SELECT coalesce(array_agg(m[1]), ARRAY[]::text[]) INTO tokens
+  FROM regexp_matches(normalized, '([a-z0-9]+)', 'g') AS m;
+
+  -- Runs of other characters become overlapping bigrams ("営業時間" -> 営業, 業時, 時間)
+  FOR segment IN
+    SELECT m[1] FROM regexp_matches(normalized, '([^a-z0-9[:space:][:punct:]、。「」『』（）・！？]+)', 'g') AS m
+  LOOP
+    IF char_length(segment) = 1 THEN
+      tokens := tokens || segment;
+    ELSE
+      FOR i IN 1..char_length(segment) - 1 LOOP
+        tokens := tokens || substr(segment, i, 2);
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN tokens;
+END;
+$$;
+
+-- OR-query over the query's tokens; ranking rewards documents matching more of them
+CREATE OR REPLACE FUNCTION kb_search_tsquery(input text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', coalesce(
+    (SELECT string_agg(DISTINCT quote_literal(t), ' | ') FROM unnest(kb_search_tokens(input)) AS t),
+    ''
+  ));
+$$;
+
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS content_tsv tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', array_to_string(kb_search_tokens(content), ' '))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_content_tsv
+ON knowledge_base USING gin (content_tsv);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_content_trgm
+ON knowledge_base USING gin (content gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_knowledge_base_keyword(
+  query_text text,
+  match_count int DEFAULT 10,
+  language_filter varchar(2) DEFAULT NULL,
+  category_filter varchar(50) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2),
+  source varchar(255),
+  metadata jsonb,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query_tsq tsquery := kb_search_tsquery(query_text);
+BEGIN
+  RETURN QUERY
+  SELECT
+    kb.id,
+    kb.content,
+    kb.category,
+    kb.subcategory,
+    kb.language,
+    kb.source,
+    kb.metadata,
+    (ts_rank_cd(kb.content_tsv, query_tsq) + word_similarity(query_text, kb.content))::float AS rank
+  FROM knowledge_base kb
+  WHERE
+    (kb.content_tsv @@ query_tsq OR query_text <% kb.content)
+    AND (language_filter IS NULL OR kb.language = language_filter)
+    AND (category_filter IS NULL OR kb.category = category_filter)
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base_keyword TO service_role;
@@ -0,0 +1,33 @@
+-- Question routing rules
+-- When QUESTION_ROUTES_SOURCE=database, EnhancedQAAgent loads its routing
+-- rules from this table instead of src/mastra/routing/question-routes.json.
+-- Columns mirror the RoutingRule shape in src/mastra/routing/question-router.ts.
+
+CREATE TABLE IF NOT EXISTS question_routes (
+  id varchar(100) PRIMARY KEY,
+  intent varchar(100) NOT NULL,
+  description text,
+  priority int NOT NULL DEFAULT 0,
+  -- e.g. {"type": "rag", "category": "facilities"} or {"type": "clarification", "message": {"ja": "...", "en": "..."}}
+  handler jsonb NOT NULL,
+  -- {"ja": ["..."], "en": ["..."]}
+  keywords jsonb,
+  patterns jsonb,
+  requires jsonb,
+  excludes jsonb,
+  confidence float,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_routes_enabled_priority
+ON question_routes (enabled, priority DESC);
+
+CREATE TRIGGER update_question_routes_updated_at BEFORE UPDATE ON question_routes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE question_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to question_routes" ON question_routes
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,48 @@
+-- Persistent feature flags
+-- FeatureFlagManager (src/lib/feature-flags.ts) reads these rows through a
+-- short-lived cache; flags without a row use their FF_* environment default.
+-- Rows are scoped by tenant (FEATURE_FLAGS_TENANT) so several deployments can
+-- share one project.
+
+CREATE TABLE IF NOT EXISTS feature_flags (
+  tenant varchar(100) NOT NULL DEFAULT 'default',
+  key varchar(100) NOT NULL,
+  -- boolean or number, matching the flag definition
+  value jsonb NOT NULL,
+  -- share of visitors (0-100) that get value; NULL serves it to everyone
+  rollout_percentage int CHECK (rollout_percentage BETWEEN 0 AND 100),
+  -- e.g. [{"attribute": "visitorId", "values": ["kiosk-1"], "value": true}]
+  rules jsonb NOT NULL DEFAULT '[]'::jsonb,
+  description text,
+  updated_by varchar(255),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  PRIMARY KEY (tenant, key)
+);
+
+CREATE TRIGGER update_feature_flags_updated_at BEFORE UPDATE ON feature_flags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Who changed what, with the row before and after
+CREATE TABLE IF NOT EXISTS feature_flag_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant varchar(100) NOT NULL,
+  flag_key varchar(100) NOT NULL,
+  action varchar(20) NOT NULL CHECK (action IN ('upsert', 'delete')),
+  actor varchar(255) NOT NULL,
+  previous jsonb,
+  next jsonb,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feature_flag_audit_log_tenant_created_at
+ON feature_flag_audit_log (tenant, created_at DESC);
+
+ALTER TABLE feature_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feature_flag_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to feature_flags" ON feature_flags
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to feature_flag_audit_log" ON feature_flag_audit_log
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,26 @@
+-- RAG quality evaluation runs (scripts/evaluate-rag.ts, pnpm eval:rag)
+-- metrics mirrors RAGQualityMetrics in src/lib/monitoring/performance-baseline.ts;
+-- the latest passing run is copied into performance_baselines.metrics.quality
+-- when a baseline is collected.
+
+CREATE TABLE IF NOT EXISTS rag_evaluation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dataset_version VARCHAR(50) NOT NULL,
+  -- {"datasetVersion", "k", "mode", "llm", "questionCount", "recallAtK", "mrr", "factCoverage"}
+  metrics JSONB NOT NULL,
+  -- {"k", "threshold", "mode", "answers", "labels"}
+  options JSONB,
+  -- per-question retrieved entries, scores, answers and missing facts
+  results JSONB,
+  passed BOOLEAN NOT NULL,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_evaluation_runs_created_at ON rag_evaluation_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rag_evaluation_runs_dataset ON rag_evaluation_runs(dataset_version, created_at DESC);
+
+ALTER TABLE rag_evaluation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to rag_evaluation_runs" ON rag_evaluation_runs
+  FOR ALL USING (auth.role() = 'service_role');
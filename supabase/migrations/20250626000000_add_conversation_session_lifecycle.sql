@@ -0,0 +1,28 @@
+-- Conversation session lifecycle
+-- Sessions are closed after SESSION_IDLE_TIMEOUT_MS without activity, either by
+-- RealtimeAgent or by /api/cron/close-idle-sessions, and keep a generated summary
+-- so staff can browse them in /admin/sessions.
+
+ALTER TABLE conversation_sessions
+  ADD COLUMN IF NOT EXISTS last_activity_at timestamp with time zone DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS end_reason varchar(20),
+  ADD COLUMN IF NOT EXISTS summary text,
+  ADD COLUMN IF NOT EXISTS primary_emotion varchar(20),
+  ADD COLUMN IF NOT EXISTS message_count int NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS escalated boolean NOT NULL DEFAULT false;
+
+-- Existing active sessions count their last message as activity
+UPDATE conversation_sessions s
+SET last_activity_at = COALESCE(
+  (SELECT max(h.created_at) FROM conversation_history h WHERE h.session_id = s.id),
+  s.started_at
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_sessions_idle
+ON conversation_sessions (status, last_activity_at);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_sessions_started_at
+ON conversation_sessions (started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_history_session_created
+ON conversation_history (session_id, created_at);
@@ -0,0 +1,56 @@
+-- Structure-aware chunking of knowledge base documents
+-- Long documents keep their full text in a parent row (metadata.chunked = true,
+-- no embedding) and are searched through chunk rows whose metadata carries
+-- parent_id, chunk_index, chunk_count and the heading breadcrumb. See
+-- KnowledgeBaseUtils.addEntry() and src/lib/knowledge-chunker.ts.
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_parent_id
+ON knowledge_base ((metadata->>'parent_id'));
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_document_key
+ON knowledge_base ((metadata->>'document_key'));
+
+-- Parent rows hold the same text as their chunks; only the chunks are ranked
+CREATE OR REPLACE FUNCTION search_knowledge_base_keyword(
+  query_text text,
+  match_count int DEFAULT 10,
+  language_filter varchar(2) DEFAULT NULL,
+  category_filter varchar(50) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2),
+  source varchar(255),
+  metadata jsonb,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query_tsq tsquery := kb_search_tsquery(query_text);
+BEGIN
+  RETURN QUERY
+  SELECT
+    kb.id,
+    kb.content,
+    kb.category,
+    kb.subcategory,
+    kb.language,
+    kb.source,
+    kb.metadata,
+    (ts_rank_cd(kb.content_tsv, query_tsq) + word_similarity(query_text, kb.content))::float AS rank
+  FROM knowledge_base kb
+  WHERE
+    (kb.content_tsv @@ query_tsq OR query_text <% kb.content)
+    AND (language_filter IS NULL OR kb.language = language_filter)
+    AND (category_filter IS NULL OR kb.category = category_filter)
+    AND NOT coalesce((kb.metadata->>'chunked')::boolean, false)
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base_keyword TO service_role;
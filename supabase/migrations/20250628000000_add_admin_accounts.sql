@@ -0,0 +1,65 @@
+-- Staff accounts, automation API tokens and the admin audit log
+-- authenticateAdmin() (src/lib/admin-auth.ts) checks session cookies against
+-- admin_users and bearer tokens against admin_api_tokens; write operations on
+-- admin and operational routes are appended to admin_audit_log.
+-- Roles, least to most privileged: viewer, editor, operator, admin.
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username varchar(64) NOT NULL UNIQUE,
+  display_name varchar(255) NOT NULL,
+  role varchar(20) NOT NULL CHECK (role IN ('viewer', 'editor', 'operator', 'admin')),
+  disabled boolean NOT NULL DEFAULT false,
+  -- scrypt$<cost>$<salt>$<hash>
+  password_hash text NOT NULL,
+  last_login_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TRIGGER update_admin_users_updated_at BEFORE UPDATE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the SHA-256 hash is stored; the token is shown once when issued
+CREATE TABLE IF NOT EXISTS admin_api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name varchar(255) NOT NULL,
+  token_hash char(64) NOT NULL UNIQUE,
+  role varchar(20) NOT NULL CHECK (role IN ('viewer', 'editor', 'operator', 'admin')),
+  created_by varchar(255) NOT NULL,
+  expires_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  last_used_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor varchar(255) NOT NULL,
+  actor_type varchar(20) NOT NULL CHECK (actor_type IN ('session', 'api_token', 'legacy_token', 'cron')),
+  role varchar(20),
+  -- e.g. knowledge.update, token.revoke, auth.login_failed
+  action varchar(100) NOT NULL,
+  resource text,
+  details jsonb,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+ON admin_audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor_created_at
+ON admin_audit_log (actor, created_at DESC);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_api_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to admin_users" ON admin_users
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to admin_api_tokens" ON admin_api_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to admin_audit_log" ON admin_audit_log
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,141 @@
+-- Revision history, soft delete and trash for the knowledge base
+-- KnowledgeBaseUtils (src/lib/knowledge-base-utils.ts) snapshots every
+-- create, update, delete, restore and rollback into knowledge_base_revisions,
+-- tagged with who made the change and where it came from (admin, cron,
+-- import). Deleting an entry sets deleted_at on it and its chunks; search
+-- skips those rows until they are restored from the trash or purged.
+
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS deleted_by varchar(255);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_deleted_at
+ON knowledge_base (deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- Not a foreign key: history outlives entries purged from the trash
+CREATE TABLE IF NOT EXISTS knowledge_base_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid,
+  -- metadata.document_key, or website:<url> for crawled pages, which get new
+  -- row ids on every crawl
+  document_key text,
+  action varchar(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'rollback')),
+  content text NOT NULL,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2) NOT NULL,
+  source varchar(255),
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  author varchar(255) NOT NULL,
+  origin varchar(20) NOT NULL CHECK (origin IN ('admin', 'cron', 'import', 'system')),
+  embedding_model varchar(100),
+  -- the revision a rollback copied
+  restored_from uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_revisions_entry_id
+ON knowledge_base_revisions (entry_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_revisions_document_key
+ON knowledge_base_revisions (document_key, created_at DESC)
+WHERE document_key IS NOT NULL;
+
+ALTER TABLE knowledge_base_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to knowledge_base_revisions" ON knowledge_base_revisions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Same as 20250621000000, without rows in the trash
+CREATE OR REPLACE FUNCTION search_knowledge_base(
+  query_embedding vector,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5,
+  embedding_model_filter varchar(100) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2),
+  source varchar(255),
+  metadata jsonb,
+  embedding_model varchar(100),
+  embedding_dimensions int,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    kb.id,
+    kb.content,
+    kb.category,
+    kb.subcategory,
+    kb.language,
+    kb.source,
+    kb.metadata,
+    kb.embedding_model,
+    kb.embedding_dimensions,
+    1 - (kb.content_embedding <=> query_embedding) AS similarity
+  FROM knowledge_base kb
+  WHERE
+    kb.content_embedding IS NOT NULL
+    AND kb.deleted_at IS NULL
+    AND kb.embedding_model = embedding_model_filter
+    AND kb.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (kb.content_embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY kb.content_embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base TO service_role;
+
+-- Same as 20250627000000, without rows in the trash
+CREATE OR REPLACE FUNCTION search_knowledge_base_keyword(
+  query_text text,
+  match_count int DEFAULT 10,
+  language_filter varchar(2) DEFAULT NULL,
+  category_filter varchar(50) DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(2),
+  source varchar(255),
+  metadata jsonb,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query_tsq tsquery := kb_search_tsquery(query_text);
+BEGIN
+  RETURN QUERY
+  SELECT
+    kb.id,
+    kb.content,
+    kb.category,
+    kb.subcategory,
+    kb.language,
+    kb.source,
+    kb.metadata,
+    (ts_rank_cd(kb.content_tsv, query_tsq) + word_similarity(query_text, kb.content))::float AS rank
+  FROM knowledge_base kb
+  WHERE
+    (kb.content_tsv @@ query_tsq OR query_text <% kb.content)
+    AND (language_filter IS NULL OR kb.language = language_filter)
+    AND (category_filter IS NULL OR kb.category = category_filter)
+    AND NOT coalesce((kb.metadata->>'chunked')::boolean, false)
+    AND kb.deleted_at IS NULL
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base_keyword TO service_role;
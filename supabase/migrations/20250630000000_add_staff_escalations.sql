@@ -0,0 +1,34 @@
+-- Staff escalations
+-- StaffEscalationService (src/lib/staff-escalation.ts) stores every hand-over
+-- to staff before notifying Slack, Discord, email or the reception system,
+-- records per-channel delivery results, and marks the escalation
+-- acknowledged when staff open the signed link or use /admin/escalations.
+-- The kiosk polls the status to tell the visitor someone is on the way.
+
+CREATE TABLE IF NOT EXISTS staff_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES conversation_sessions(id) ON DELETE SET NULL,
+  question text NOT NULL,
+  -- last turns of the conversation, redacted: [{ role, content, createdAt }]
+  transcript_excerpt jsonb NOT NULL DEFAULT '[]'::jsonb,
+  language varchar(10) NOT NULL,
+  urgency varchar(10) NOT NULL DEFAULT 'medium' CHECK (urgency IN ('low', 'medium', 'high')),
+  location varchar(255) NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  -- [{ channel, delivered, error, at }]
+  deliveries jsonb NOT NULL DEFAULT '[]'::jsonb,
+  acknowledged_by varchar(255),
+  acknowledged_via varchar(20) CHECK (acknowledged_via IN ('link', 'admin')),
+  acknowledged_at timestamp with time zone,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_escalations_status
+ON staff_escalations (status, created_at DESC);
+
+ALTER TABLE staff_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to staff_escalations" ON staff_escalations
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,38 @@
+-- Visitors
+-- VisitorRegistrationService (src/lib/visitor-registration.ts) stores a
+-- visitor who registered at the kiosk after agreeing to the consent notice,
+-- issues the visitor code printed in their QR code, and counts check-ins
+-- when they come back. Rows not seen for VISITOR_RETENTION_DAYS are deleted
+-- by /api/cron/purge-visitors.
+
+CREATE TABLE IF NOT EXISTS visitors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- shown under the QR code and typed in on the next visit, e.g. EC-7K2M9QXA
+  visitor_code varchar(20) NOT NULL UNIQUE,
+  name varchar(100) NOT NULL,
+  affiliation varchar(200),
+  purpose varchar(500),
+  language varchar(10) NOT NULL,
+  -- version of the consent notice the visitor agreed to
+  consent_version varchar(20) NOT NULL,
+  consented_at timestamp with time zone NOT NULL,
+  visit_count integer NOT NULL DEFAULT 1,
+  first_visit_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_visit_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visitors_last_visit_at
+ON visitors (last_visit_at);
+
+ALTER TABLE visitors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to visitors" ON visitors
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Sessions created before this migration may hold visitor ids that never had
+-- a row, so existing data is not validated
+ALTER TABLE conversation_sessions
+ADD CONSTRAINT conversation_sessions_visitor_id_fkey
+FOREIGN KEY (visitor_id) REFERENCES visitors(id) ON DELETE SET NULL NOT VALID;
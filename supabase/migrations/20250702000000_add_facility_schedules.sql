@@ -0,0 +1,43 @@
+-- Facility schedules
+-- FacilityScheduleService (src/lib/facility-schedule.ts) starts from the
+-- built-in hours for each facility (engineer-cafe, saino, main-hall) and
+-- applies the weekly and holiday hours staff save in /admin/hours. Exceptions
+-- replace the hours of a single date: special closures, shorter days, or the
+-- main hall opening for an event. Public holidays and the recurring closures
+-- are computed in code and not stored.
+
+CREATE TABLE IF NOT EXISTS facility_schedules (
+  facility_id varchar(50) PRIMARY KEY,
+  -- seven lists of {opens, closes} ('HH:MM') ranges, Sunday first
+  weekly jsonb NOT NULL,
+  -- hours on public holidays; null keeps the weekday's hours
+  holiday_hours jsonb,
+  event_only boolean NOT NULL DEFAULT false,
+  updated_by varchar(100),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS facility_schedule_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_id varchar(50) NOT NULL,
+  date date NOT NULL,
+  -- {opens, closes} ranges; an empty list closes the facility that day
+  hours jsonb NOT NULL DEFAULT '[]',
+  -- why, per language, e.g. {"ja": "設備点検", "en": "maintenance"}
+  note jsonb NOT NULL,
+  created_by varchar(100),
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (facility_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_facility_schedule_exceptions_date
+ON facility_schedule_exceptions (date);
+
+ALTER TABLE facility_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facility_schedule_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to facility_schedules" ON facility_schedules
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to facility_schedule_exceptions" ON facility_schedule_exceptions
+  FOR ALL USING (auth.role() = 'service_role');
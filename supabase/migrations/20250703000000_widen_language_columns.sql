@@ -0,0 +1,15 @@
+-- Korean and Chinese
+-- Languages are now defined by the registry in src/lib/languages.json, with
+-- codes such as ko, zh-CN and zh-TW. Language columns take any registry code
+-- (varchar(10), as in staff_escalations and visitors) instead of a fixed
+-- ja/en list, so adding a language needs no further migration.
+
+ALTER TABLE conversation_sessions DROP CONSTRAINT IF EXISTS conversation_sessions_language_check;
+ALTER TABLE conversation_sessions ALTER COLUMN language TYPE varchar(10);
+
+ALTER TABLE knowledge_base DROP CONSTRAINT IF EXISTS knowledge_base_language_check;
+ALTER TABLE knowledge_base ALTER COLUMN language TYPE varchar(10);
+
+ALTER TABLE knowledge_base_revisions ALTER COLUMN language TYPE varchar(10);
+
+ALTER TABLE rag_search_metrics ALTER COLUMN language TYPE varchar(10);
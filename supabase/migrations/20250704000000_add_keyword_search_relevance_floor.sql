@@ -0,0 +1,86 @@
+-- Relevance floor for the keyword leg of hybrid search
+-- kb_search_tsquery() ORs every query token together, so one shared bigram
+-- (often a particle such as "につ" or "いて") was enough for a match, and
+-- `query_text <% content` let loosely similar text in as well. Almost every
+-- question returned some entry. A hit now has to contain at least
+-- min_coverage of the query's distinct significant tokens: hiragana-only
+-- bigrams come from particles and verb endings and are left out unless the
+-- query has nothing else. Trigram similarity only ranks.
+-- keywordCoverage() in src/lib/hybrid-search.ts applies the same rule when
+-- this function is not available.
+
+DROP FUNCTION IF EXISTS search_knowledge_base_keyword(text, int, varchar, varchar);
+
+CREATE OR REPLACE FUNCTION search_knowledge_base_keyword(
+  query_text text,
+  match_count int DEFAULT 10,
+  language_filter varchar(10) DEFAULT NULL,
+  category_filter varchar(50) DEFAULT NULL,
+  min_coverage float DEFAULT 0.5
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  category varchar(50),
+  subcategory varchar(50),
+  language varchar(10),
+  source varchar(255),
+  metadata jsonb,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  query_tokens text[] := ARRAY(SELECT DISTINCT t FROM unnest(kb_search_tokens(query_text)) AS t);
+  significant_tokens text[] := ARRAY(SELECT t FROM unnest(query_tokens) AS t WHERE t !~ '^[ぁ-ゟ]+$');
+  query_tsq tsquery := kb_search_tsquery(query_text);
+BEGIN
+  IF coalesce(array_length(query_tokens, 1), 0) = 0 THEN
+    RETURN;
+  END IF;
+  IF coalesce(array_length(significant_tokens, 1), 0) = 0 THEN
+    significant_tokens := query_tokens;
+  END IF;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      kb.id AS kb_id,
+      kb.content AS kb_content,
+      kb.category AS kb_category,
+      kb.subcategory AS kb_subcategory,
+      kb.language AS kb_language,
+      kb.source AS kb_source,
+      kb.metadata AS kb_metadata,
+      ts_rank_cd(kb.content_tsv, query_tsq) AS text_rank,
+      word_similarity(query_text, kb.content) AS trigram_similarity,
+      (
+        SELECT count(*)
+        FROM unnest(significant_tokens) AS t
+        WHERE kb.content_tsv @@ to_tsquery('simple', quote_literal(t))
+      )::float / array_length(significant_tokens, 1) AS coverage
+    FROM knowledge_base kb
+    WHERE
+      kb.content_tsv @@ query_tsq
+      AND (language_filter IS NULL OR kb.language = language_filter)
+      AND (category_filter IS NULL OR kb.category = category_filter)
+      AND NOT coalesce((kb.metadata->>'chunked')::boolean, false)
+      AND kb.deleted_at IS NULL
+  )
+  SELECT
+    c.kb_id,
+    c.kb_content,
+    c.kb_category,
+    c.kb_subcategory,
+    c.kb_language::varchar(10),
+    c.kb_source,
+    c.kb_metadata,
+    (c.text_rank + c.trigram_similarity)::float AS rank
+  FROM candidates c
+  WHERE c.coverage >= min_coverage
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_knowledge_base_keyword TO service_role;